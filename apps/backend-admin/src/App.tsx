@@ -16,6 +16,8 @@ import AboutPage from "@/pages/about";
 import OpenApiPage from "./pages/openapi-api";
 import ChannelPage from "./pages/channel";
 import ChannelsAdminPage from "./pages/channels-admin";
+import SitesAdminPage from "./pages/sites-admin";
+import ProfilePage from "./pages/profile";
 import UsersAdminPage from "./pages/users-admin";
 
 function App() {
@@ -79,10 +81,18 @@ function App() {
           element={<AuthenticationGuard component={ChannelsAdminPage} />}
           path="/channels-admin"
         />
+        <Route
+          element={<AuthenticationGuard component={SitesAdminPage} />}
+          path="/sites-admin"
+        />
         <Route
           element={<AuthenticationGuard component={UsersAdminPage} />}
           path="/users-admin"
         />
+        <Route
+          element={<AuthenticationGuard component={ProfilePage} />}
+          path="/profile"
+        />
         <Route
           element={<OpenApiPage />}
           path="/openapi"
@@ -0,0 +1,153 @@
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Card, CardBody, CardHeader } from "@heroui/card";
+import { Button } from "@heroui/button";
+import { Chip } from "@heroui/chip";
+
+import { useAuth, useSecuredApi } from "@/authentication";
+import {
+    APIResponse,
+    ChannelCheckinsResponse,
+    PilotCheckin,
+    PilotCheckinRequest,
+    PilotCheckinStatus
+} from "@/types/ptt";
+
+interface ChannelCheckinsProps {
+    channelUuid: string;
+    /** Last check-in received with a pilot_checkin or pilot_overdue message on the channel WebSocket */
+    incomingCheckin?: PilotCheckin | null;
+}
+
+// Overdue pilots first, then the pilots still flying
+const STATUS_ORDER: Record<PilotCheckinStatus, number> = { overdue: 0, flying: 1, landed: 2 };
+
+const statusColor = (status: PilotCheckinStatus) => {
+    switch (status) {
+        case "overdue": return "danger";
+        case "flying": return "warning";
+        case "landed": return "success";
+    }
+};
+
+/**
+ * Landing check-in board of a site_local channel
+ *
+ * Lists the pilots flying, overdue and recently landed. Every user can check in landed, the
+ * moderators can also confirm the landing another pilot reported on the radio, the API refuses
+ * it to other users.
+ */
+export default function ChannelCheckins({ channelUuid, incomingCheckin }: ChannelCheckinsProps) {
+    const { t } = useTranslation();
+    const { getJson, postJson } = useSecuredApi();
+    const { user } = useAuth();
+    const userId = user?.sub;
+
+    const [checkins, setCheckins] = useState<PilotCheckin[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [pending, setPending] = useState(false);
+
+    const baseUrl = `${import.meta.env.API_BASE_URL}/v1/channels/${channelUuid}/checkins`;
+
+    const addCheckin = useCallback((checkin: PilotCheckin) => {
+        setCheckins(prev => [checkin, ...prev.filter(known => known.id !== checkin.id)]
+            .sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status]));
+    }, []);
+
+    const loadCheckins = useCallback(async () => {
+        try {
+            const response = await getJson(baseUrl) as APIResponse<ChannelCheckinsResponse>;
+
+            if (response.success && response.data) {
+                setCheckins(response.data.checkins);
+            }
+        } catch (err) {
+            console.error("Error fetching check-ins:", err);
+        }
+    }, [baseUrl, getJson]);
+
+    useEffect(() => {
+        loadCheckins();
+    }, [loadCheckins]);
+
+    useEffect(() => {
+        if (incomingCheckin) {
+            addCheckin(incomingCheckin);
+        }
+    }, [addCheckin, incomingCheckin]);
+
+    const checkIn = async (request: PilotCheckinRequest) => {
+        setPending(true);
+        setError(null);
+
+        try {
+            const response = await postJson(baseUrl, request) as APIResponse<PilotCheckin>;
+
+            if (response.success && response.data) {
+                addCheckin(response.data);
+            } else {
+                setError(response.error || t("channel_checkins.checkin_failed"));
+            }
+        } catch (err) {
+            console.error("Error posting check-in:", err);
+            setError(t("channel_checkins.checkin_failed"));
+        } finally {
+            setPending(false);
+        }
+    };
+
+    return (
+        <Card className="max-w-2xl w-full">
+            <CardHeader className="flex justify-between gap-3">
+                <p className="text-md font-semibold">{t("channel_checkins.title")}</p>
+                <Button
+                    size="sm"
+                    color="success"
+                    isDisabled={pending}
+                    onPress={() => checkIn({ via: "button" })}
+                >
+                    {t("channel_checkins.landed")}
+                </Button>
+            </CardHeader>
+            <CardBody className="flex flex-col gap-3">
+                {error && <p className="text-small text-danger">{error}</p>}
+                {checkins.length === 0 && (
+                    <p className="text-default-500">{t("channel_checkins.empty")}</p>
+                )}
+                {checkins.map(checkin => (
+                    <div key={checkin.id} className="flex justify-between items-center gap-2">
+                        <div className="flex flex-col">
+                            <div className="flex items-center gap-2">
+                                <p className="font-medium">{checkin.username}</p>
+                                <Chip size="sm" color={statusColor(checkin.status)} variant="flat">
+                                    {t(`channel_checkins.status.${checkin.status}`)}
+                                </Chip>
+                            </div>
+                            <p className="text-tiny text-default-500">
+                                {checkin.status === "landed" && checkin.landed_at
+                                    ? t("channel_checkins.landed_at", {
+                                        time: new Date(checkin.landed_at).toLocaleTimeString(),
+                                        via: t(`channel_checkins.via.${checkin.landed_via}`)
+                                    })
+                                    : checkin.deadline_at && t("channel_checkins.deadline_at", {
+                                        time: new Date(checkin.deadline_at).toLocaleTimeString()
+                                    })}
+                            </p>
+                        </div>
+                        {checkin.status !== "landed" && checkin.user_id !== userId && (
+                            <Button
+                                size="sm"
+                                variant="flat"
+                                color={checkin.status === "overdue" ? "danger" : "default"}
+                                isDisabled={pending}
+                                onPress={() => checkIn({ user_id: checkin.user_id, via: "voice" })}
+                            >
+                                {t("channel_checkins.confirm_landed")}
+                            </Button>
+                        )}
+                    </div>
+                ))}
+            </CardBody>
+        </Card>
+    );
+}
@@ -0,0 +1,141 @@
+import type React from "react";
+
+import { useTranslation } from "react-i18next";
+import { Card, CardBody, CardHeader } from "@heroui/card";
+import { Chip } from "@heroui/chip";
+
+import { Coordinates } from "@/types/ptt";
+import {
+    createViewport,
+    kmToPixels,
+    projectPoint,
+    viewportBounds,
+    MapTileLayer,
+    TrailPoint
+} from "@/utils/map-projection";
+
+/**
+ * Participant drawn on the channel map
+ */
+export interface ChannelMapParticipant {
+    user_id: string;
+    username: string;
+    /** Last known position, the end of the trail when available */
+    position: Coordinates;
+    trail: TrailPoint[];
+}
+
+interface ChannelMapProps {
+    center: Coordinates;
+    radiusKm?: number;
+    participants: ChannelMapParticipant[];
+    /** User currently transmitting on the channel */
+    activeSpeaker: { user_id: string; username: string } | null;
+    /** Optional raster background, the map is plain SVG without it */
+    tileLayer?: MapTileLayer<React.ReactNode>;
+}
+
+const MAP_SIZE = 400;
+
+/**
+ * Live map of the channel participants
+ *
+ * Drawn in SVG with a local projection so it works without network on a landing field.
+ */
+export default function ChannelMap({ center, radiusKm, participants, activeSpeaker, tileLayer }: ChannelMapProps) {
+    const { t } = useTranslation();
+
+    const viewport = createViewport(
+        center,
+        radiusKm,
+        participants.flatMap(participant => [participant.position, ...participant.trail]),
+        { width: MAP_SIZE, height: MAP_SIZE }
+    );
+
+    const centerPoint = projectPoint(viewport, center);
+
+    return (
+        <Card className="max-w-2xl w-full">
+            <CardHeader className="flex justify-between gap-3">
+                <div className="flex flex-col">
+                    <p className="text-md font-semibold">{t("channel_map.title")}</p>
+                    <p className="text-small text-default-500">
+                        {participants.length} {t("participants").toLowerCase()}
+                    </p>
+                </div>
+                {activeSpeaker && (
+                    <Chip color="success" variant="dot">
+                        {t("channel_map.active_speaker")}: {activeSpeaker.username}
+                    </Chip>
+                )}
+            </CardHeader>
+            <CardBody>
+                <svg
+                    className="w-full h-auto rounded-medium bg-default-100"
+                    viewBox={`0 0 ${MAP_SIZE} ${MAP_SIZE}`}
+                    role="img"
+                    aria-label={t("channel_map.title")}
+                >
+                    {tileLayer?.render(viewport, viewportBounds(viewport))}
+
+                    {radiusKm !== undefined && radiusKm > 0 && (
+                        <circle
+                            cx={centerPoint.x}
+                            cy={centerPoint.y}
+                            r={kmToPixels(viewport, radiusKm)}
+                            className="fill-primary/10 stroke-primary"
+                            strokeWidth={1.5}
+                            strokeDasharray="6 4"
+                        />
+                    )}
+                    <circle cx={centerPoint.x} cy={centerPoint.y} r={3} className="fill-primary" />
+
+                    {participants.map(participant => {
+                        const isSpeaking = participant.user_id === activeSpeaker?.user_id;
+                        const point = projectPoint(viewport, participant.position);
+                        const trail = participant.trail
+                            .map(trailPoint => projectPoint(viewport, trailPoint))
+                            .map(({ x, y }) => `${x.toFixed(1)},${y.toFixed(1)}`)
+                            .join(" ");
+
+                        return (
+                            <g key={participant.user_id}>
+                                {participant.trail.length > 1 && (
+                                    <polyline
+                                        points={trail}
+                                        fill="none"
+                                        className={isSpeaking ? "stroke-success" : "stroke-default-400"}
+                                        strokeWidth={1.5}
+                                        strokeOpacity={0.7}
+                                    />
+                                )}
+                                {isSpeaking && (
+                                    <circle cx={point.x} cy={point.y} r={12} className="fill-success/30 animate-pulse" />
+                                )}
+                                <circle
+                                    cx={point.x}
+                                    cy={point.y}
+                                    r={isSpeaking ? 7 : 5}
+                                    className={isSpeaking ? "fill-success" : "fill-secondary"}
+                                    stroke="white"
+                                    strokeWidth={1.5}
+                                />
+                                <text
+                                    x={point.x + 9}
+                                    y={point.y + 4}
+                                    className={isSpeaking ? "fill-success font-semibold" : "fill-foreground"}
+                                    fontSize={11}
+                                >
+                                    {participant.username}
+                                </text>
+                            </g>
+                        );
+                    })}
+                </svg>
+                {participants.length === 0 && (
+                    <p className="text-center text-small text-default-500 mt-2">{t("channel_map.no_positions")}</p>
+                )}
+            </CardBody>
+        </Card>
+    );
+}
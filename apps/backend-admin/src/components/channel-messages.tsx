@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Card, CardBody, CardHeader } from "@heroui/card";
+import { Button } from "@heroui/button";
+import { Input } from "@heroui/input";
+import { Chip } from "@heroui/chip";
+
+import { useAuth, useSecuredApi } from "@/authentication";
+import {
+    APIResponse,
+    CannedMessage,
+    ChannelMessagesResponse,
+    ChannelTextMessage,
+    ChannelTextMessageRequest
+} from "@/types/ptt";
+
+interface ChannelMessagesProps {
+    channelUuid: string;
+    /** Last text_message received on the channel WebSocket */
+    incomingMessage?: ChannelTextMessage | null;
+}
+
+const PAGE_SIZE = 50;
+
+/**
+ * Key of the last message read in a channel, kept across sessions to count the unread messages
+ */
+const lastReadKey = (channelUuid: string) => `channelMessagesLastRead:${channelUuid.toLowerCase()}`;
+
+/**
+ * Text message pane of a channel
+ *
+ * Free text and canned messages are posted through the REST API, new messages arrive with the
+ * channel WebSocket. Messages from the other participants received while the pane is closed are
+ * counted as unread.
+ */
+export default function ChannelMessages({ channelUuid, incomingMessage }: ChannelMessagesProps) {
+    const { t } = useTranslation();
+    const { getJson, postJson } = useSecuredApi();
+    const { user } = useAuth();
+    const userId = user?.sub;
+
+    // Oldest first, as displayed
+    const [messages, setMessages] = useState<ChannelTextMessage[]>([]);
+    const [cannedMessages, setCannedMessages] = useState<CannedMessage[]>([]);
+    const [hasMore, setHasMore] = useState(false);
+    const [isOpen, setIsOpen] = useState(false);
+    const [lastReadId, setLastReadId] = useState(() => Number(localStorage.getItem(lastReadKey(channelUuid))) || 0);
+    const [draft, setDraft] = useState("");
+    const [error, setError] = useState<string | null>(null);
+    const [pending, setPending] = useState(false);
+
+    const baseUrl = `${import.meta.env.API_BASE_URL}/v1/channels/${channelUuid}/messages`;
+
+    const addMessages = useCallback((received: ChannelTextMessage[]) => {
+        setMessages(prev => {
+            const known = new Set(prev.map(message => message.id));
+
+            return [...prev, ...received.filter(message => !known.has(message.id))]
+                .sort((a, b) => a.id - b.id);
+        });
+    }, []);
+
+    const loadMessages = useCallback(async (before?: number) => {
+        try {
+            const response = await getJson(
+                `${baseUrl}?limit=${PAGE_SIZE}${before ? `&before=${before}` : ""}`
+            ) as APIResponse<ChannelMessagesResponse>;
+
+            if (response.success && response.data) {
+                addMessages(response.data.messages);
+                setHasMore(response.data.has_more);
+                setCannedMessages(response.data.canned_messages);
+            }
+        } catch (err) {
+            console.error("Error fetching channel messages:", err);
+        }
+    }, [addMessages, baseUrl, getJson]);
+
+    useEffect(() => {
+        loadMessages();
+    }, [loadMessages]);
+
+    useEffect(() => {
+        if (incomingMessage) {
+            addMessages([incomingMessage]);
+        }
+    }, [addMessages, incomingMessage]);
+
+    // Everything shown in the open pane is read
+    useEffect(() => {
+        const newestId = messages[messages.length - 1]?.id ?? 0;
+
+        if (isOpen && newestId > lastReadId) {
+            localStorage.setItem(lastReadKey(channelUuid), String(newestId));
+            setLastReadId(newestId);
+        }
+    }, [channelUuid, isOpen, lastReadId, messages]);
+
+    const send = async (request: ChannelTextMessageRequest) => {
+        setPending(true);
+        setError(null);
+
+        try {
+            const response = await postJson(baseUrl, request) as APIResponse<ChannelTextMessage>;
+
+            if (response.success && response.data) {
+                addMessages([response.data]);
+                if (!request.canned_message_id) {
+                    setDraft("");
+                }
+            } else {
+                setError(response.error || t("channel_messages.send_failed"));
+            }
+        } catch (err) {
+            console.error("Error posting channel message:", err);
+            setError(t("channel_messages.send_failed"));
+        } finally {
+            setPending(false);
+        }
+    };
+
+    const unreadCount = messages.filter(message => message.id > lastReadId && message.user_id !== userId).length;
+
+    return (
+        <Card className="max-w-2xl w-full">
+            <CardHeader className="flex justify-between gap-3">
+                <div className="flex items-center gap-2">
+                    <p className="text-md font-semibold">{t("channel_messages.title")}</p>
+                    {unreadCount > 0 && (
+                        <Chip size="sm" color="danger" variant="solid">
+                            {t("channel_messages.unread", { count: unreadCount })}
+                        </Chip>
+                    )}
+                </div>
+                <Button size="sm" variant="light" onPress={() => setIsOpen(prev => !prev)}>
+                    {isOpen ? t("channel_messages.hide") : t("channel_messages.show")}
+                </Button>
+            </CardHeader>
+            {isOpen && (
+                <CardBody className="flex flex-col gap-3">
+                    {hasMore && (
+                        <Button size="sm" variant="bordered" onPress={() => loadMessages(messages[0]?.id)}>
+                            {t("channel_messages.load_older")}
+                        </Button>
+                    )}
+
+                    <div className="flex flex-col gap-2 max-h-80 overflow-y-auto">
+                        {messages.length === 0 && (
+                            <p className="text-default-500">{t("channel_messages.empty")}</p>
+                        )}
+                        {messages.map(message => (
+                            <div
+                                key={message.id}
+                                className={`flex flex-col ${message.user_id === userId ? "items-end" : "items-start"}`}
+                            >
+                                <p className="text-tiny text-default-500">
+                                    {message.username} · {new Date(message.timestamp).toLocaleTimeString()}
+                                </p>
+                                <Chip
+                                    color={message.canned_message_id ? "warning" : message.user_id === userId ? "primary" : "default"}
+                                    variant="flat"
+                                >
+                                    {message.content}
+                                </Chip>
+                            </div>
+                        ))}
+                    </div>
+
+                    {error && <p className="text-small text-danger">{error}</p>}
+
+                    <div className="flex flex-wrap gap-2">
+                        {cannedMessages.map(canned => (
+                            <Button
+                                key={canned.id}
+                                size="sm"
+                                color="warning"
+                                variant="flat"
+                                isDisabled={pending}
+                                onPress={() => send({ canned_message_id: canned.id })}
+                            >
+                                {t(`channel_messages.canned.${canned.id}`, { defaultValue: canned.content })}
+                            </Button>
+                        ))}
+                    </div>
+
+                    <div className="flex gap-2 items-end">
+                        <Input
+                            size="sm"
+                            label={t("channel_messages.message")}
+                            maxLength={500}
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === "Enter" && draft.trim() && !pending) {
+                                    send({ content: draft });
+                                }
+                            }}
+                        />
+                        <Button
+                            color="primary"
+                            isDisabled={pending || !draft.trim()}
+                            onPress={() => send({ content: draft })}
+                        >
+                            {t("channel_messages.send")}
+                        </Button>
+                    </div>
+                </CardBody>
+            )}
+        </Card>
+    );
+}
@@ -0,0 +1,285 @@
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Card, CardBody, CardHeader } from "@heroui/card";
+import { Button } from "@heroui/button";
+import { Input } from "@heroui/input";
+import { Chip } from "@heroui/chip";
+
+import { useSecuredApi } from "@/authentication";
+import {
+    APIResponse,
+    ChannelModerationActionType,
+    ChannelModerationRequest,
+    ChannelModerationResponse,
+    ChannelModerator,
+    ChannelModeratorsResponse,
+    ChannelParticipant
+} from "@/types/ptt";
+
+interface ChannelModerationProps {
+    channelUuid: string;
+    isAdmin: boolean;
+    participants: ChannelParticipant[];
+    /** User currently transmitting on the channel */
+    activeSpeaker: { user_id: string; username: string } | null;
+    /** Changed by the page when a moderation_action message is received, to reload the state */
+    refreshKey?: number;
+}
+
+// Mute applied from the panel, the API accepts up to 7 days
+const MUTE_DURATION_MINUTES = 15;
+
+/**
+ * Moderation panel of a channel
+ *
+ * Shown to administrators and to the moderators of the channel only: the moderation state
+ * cannot be read by other users, the panel then renders nothing.
+ */
+export default function ChannelModeration({ channelUuid, isAdmin, participants, activeSpeaker, refreshKey }: ChannelModerationProps) {
+    const { t } = useTranslation();
+    const { getJson, postJson, putJson, deleteJson } = useSecuredApi();
+
+    const [moderation, setModeration] = useState<ChannelModerationResponse | null>(null);
+    const [moderators, setModerators] = useState<ChannelModerator[]>([]);
+    const [newModeratorId, setNewModeratorId] = useState("");
+    const [newModeratorName, setNewModeratorName] = useState("");
+    const [error, setError] = useState<string | null>(null);
+    const [pending, setPending] = useState(false);
+
+    const baseUrl = `${import.meta.env.API_BASE_URL}/v1/channels/${channelUuid}`;
+
+    const loadModeration = useCallback(async () => {
+        try {
+            const response = await getJson(`${baseUrl}/moderation`) as APIResponse<ChannelModerationResponse>;
+
+            // Not a moderator of this channel
+            setModeration(response.success && response.data ? response.data : null);
+
+            if (isAdmin) {
+                const moderatorsResponse = await getJson(`${baseUrl}/moderators`) as APIResponse<ChannelModeratorsResponse>;
+
+                setModerators(moderatorsResponse.data?.moderators ?? []);
+            }
+        } catch (err) {
+            console.error("Error fetching moderation state:", err);
+            setModeration(null);
+        }
+    }, [baseUrl, getJson, isAdmin]);
+
+    useEffect(() => {
+        loadModeration();
+    }, [loadModeration, refreshKey]);
+
+    const moderate = async (request: ChannelModerationRequest) => {
+        setPending(true);
+        setError(null);
+
+        try {
+            const response = await postJson(`${baseUrl}/moderation`, request) as APIResponse;
+
+            if (!response.success) {
+                setError(response.error || t("channel_moderation.action_failed"));
+            }
+
+            await loadModeration();
+        } catch (err) {
+            console.error("Error applying moderation action:", err);
+            setError(t("channel_moderation.action_failed"));
+        } finally {
+            setPending(false);
+        }
+    };
+
+    const addModerator = async () => {
+        if (!newModeratorId.trim()) return;
+
+        setPending(true);
+        setError(null);
+
+        try {
+            const response = await putJson(
+                `${baseUrl}/moderators/${encodeURIComponent(newModeratorId.trim())}`,
+                { username: newModeratorName.trim() || undefined }
+            ) as APIResponse;
+
+            if (response.success) {
+                setNewModeratorId("");
+                setNewModeratorName("");
+            } else {
+                setError(response.error || t("channel_moderation.action_failed"));
+            }
+
+            await loadModeration();
+        } finally {
+            setPending(false);
+        }
+    };
+
+    const removeModerator = async (userId: string) => {
+        setPending(true);
+        setError(null);
+
+        try {
+            const response = await deleteJson(`${baseUrl}/moderators/${encodeURIComponent(userId)}`) as APIResponse;
+
+            if (!response.success) {
+                setError(response.error || t("channel_moderation.action_failed"));
+            }
+
+            await loadModeration();
+        } finally {
+            setPending(false);
+        }
+    };
+
+    if (!moderation) return null;
+
+    const mutes = new Map(moderation.mutes.map(mute => [mute.user_id, mute]));
+    const usernames = new Map(participants.map(participant => [participant.user_id, participant.username]));
+    const displayName = (userId?: string) => (userId ? usernames.get(userId) || userId : "");
+    // A participant joined from several devices is listed once
+    const uniqueParticipants = participants.filter(
+        (participant, index) => participants.findIndex(p => p.user_id === participant.user_id) === index
+    );
+
+    const actionLabel = (action: ChannelModerationActionType | "moderator_added" | "moderator_removed") =>
+        t(`channel_moderation.actions.${action}`);
+
+    return (
+        <Card className="max-w-2xl w-full">
+            <CardHeader className="flex justify-between gap-3">
+                <div className="flex flex-col">
+                    <p className="text-md font-semibold">{t("channel_moderation.title")}</p>
+                    <p className="text-small text-default-500">{t("channel_moderation.help")}</p>
+                </div>
+                {activeSpeaker && (
+                    <Button
+                        size="sm"
+                        color="danger"
+                        variant="flat"
+                        isDisabled={pending}
+                        onPress={() => moderate({ action: "force_end", target_user_id: activeSpeaker.user_id })}
+                    >
+                        {t("channel_moderation.force_end", { username: activeSpeaker.username })}
+                    </Button>
+                )}
+            </CardHeader>
+            <CardBody className="flex flex-col gap-4">
+                {error && <p className="text-small text-danger">{error}</p>}
+
+                <div className="flex flex-col gap-2">
+                    {uniqueParticipants.length === 0 && (
+                        <p className="text-default-500">{t("no_participants")}</p>
+                    )}
+                    {uniqueParticipants.map(participant => {
+                        const mute = mutes.get(participant.user_id);
+
+                        return (
+                            <div key={participant.user_id} className="flex items-center justify-between gap-2">
+                                <div className="flex items-center gap-2">
+                                    <span>{participant.username}</span>
+                                    {mute && (
+                                        <Chip size="sm" color="warning" variant="flat">
+                                            {mute.expires_at
+                                                ? t("channel_moderation.muted_until", { time: new Date(mute.expires_at).toLocaleTimeString() })
+                                                : t("channel_moderation.muted")}
+                                        </Chip>
+                                    )}
+                                </div>
+                                <div className="flex gap-2">
+                                    {mute ? (
+                                        <Button
+                                            size="sm"
+                                            variant="bordered"
+                                            isDisabled={pending}
+                                            onPress={() => moderate({ action: "unmute", target_user_id: participant.user_id })}
+                                        >
+                                            {t("channel_moderation.unmute")}
+                                        </Button>
+                                    ) : (
+                                        <Button
+                                            size="sm"
+                                            variant="bordered"
+                                            isDisabled={pending}
+                                            onPress={() => moderate({
+                                                action: "mute",
+                                                target_user_id: participant.user_id,
+                                                duration_minutes: MUTE_DURATION_MINUTES
+                                            })}
+                                        >
+                                            {t("channel_moderation.mute", { minutes: MUTE_DURATION_MINUTES })}
+                                        </Button>
+                                    )}
+                                    <Button
+                                        size="sm"
+                                        color="danger"
+                                        variant="light"
+                                        isDisabled={pending}
+                                        onPress={() => moderate({ action: "kick", target_user_id: participant.user_id })}
+                                    >
+                                        {t("channel_moderation.kick")}
+                                    </Button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {isAdmin && (
+                    <div className="flex flex-col gap-2">
+                        <p className="font-semibold">{t("channel_moderation.moderators")}</p>
+                        {moderators.map(moderator => (
+                            <div key={moderator.user_id} className="flex items-center justify-between gap-2">
+                                <span>{moderator.username || moderator.user_id}</span>
+                                <Button
+                                    size="sm"
+                                    color="danger"
+                                    variant="light"
+                                    isDisabled={pending}
+                                    onPress={() => removeModerator(moderator.user_id)}
+                                >
+                                    {t("channel_moderation.remove_moderator")}
+                                </Button>
+                            </div>
+                        ))}
+                        <div className="flex gap-2 items-end">
+                            <Input
+                                size="sm"
+                                label={t("channel_moderation.user_id")}
+                                placeholder="auth0|..."
+                                value={newModeratorId}
+                                onChange={(e) => setNewModeratorId(e.target.value)}
+                            />
+                            <Input
+                                size="sm"
+                                label={t("username")}
+                                value={newModeratorName}
+                                onChange={(e) => setNewModeratorName(e.target.value)}
+                            />
+                            <Button
+                                color="primary"
+                                isDisabled={pending || !newModeratorId.trim()}
+                                onPress={addModerator}
+                            >
+                                {t("channel_moderation.add_moderator")}
+                            </Button>
+                        </div>
+                    </div>
+                )}
+
+                {moderation.actions.length > 0 && (
+                    <div className="flex flex-col gap-1">
+                        <p className="font-semibold">{t("channel_moderation.history")}</p>
+                        {moderation.actions.slice(0, 10).map((entry, index) => (
+                            <p key={entry.id ?? index} className="text-small text-default-500">
+                                {new Date(entry.timestamp).toLocaleString()} · {entry.moderator_username} · {actionLabel(entry.action)}
+                                {entry.target_user_id && ` · ${displayName(entry.target_user_id)}`}
+                                {entry.reason && ` (${entry.reason})`}
+                            </p>
+                        ))}
+                    </div>
+                )}
+            </CardBody>
+        </Card>
+    );
+}
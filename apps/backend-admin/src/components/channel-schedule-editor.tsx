@@ -0,0 +1,153 @@
+import { useTranslation } from "react-i18next";
+import { Button } from "@heroui/button";
+import { Input } from "@heroui/input";
+import { Chip } from "@heroui/chip";
+
+import { ChannelActiveWindow } from "@/types/ptt";
+
+interface ChannelScheduleEditorProps {
+    windows: ChannelActiveWindow[];
+    onChange: (windows: ChannelActiveWindow[]) => void;
+}
+
+const WEEK_DAYS = [1, 2, 3, 4, 5, 6, 0];
+
+/**
+ * Timezone of the browser, used for the new windows
+ */
+const defaultTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+/**
+ * Editor of the activation windows of a scheduled channel
+ *
+ * An empty list keeps the channel available at all times.
+ */
+export default function ChannelScheduleEditor({ windows, onChange }: ChannelScheduleEditorProps) {
+    const { t, i18n } = useTranslation();
+
+    // 1 January 2023 was a Sunday
+    const dayName = (day: number) =>
+        new Intl.DateTimeFormat(i18n.language, { weekday: "short", timeZone: "UTC" })
+            .format(new Date(Date.UTC(2023, 0, 1 + day)));
+
+    const updateWindow = (index: number, activeWindow: ChannelActiveWindow) => {
+        onChange(windows.map((current, i) => (i === index ? activeWindow : current)));
+    };
+
+    const removeWindow = (index: number) => {
+        onChange(windows.filter((_, i) => i !== index));
+    };
+
+    const addOneOffWindow = () => {
+        onChange([...windows, { type: "once", start: "", end: "", timezone: defaultTimezone() }]);
+    };
+
+    const addWeeklyWindow = () => {
+        onChange([
+            ...windows,
+            { type: "weekly", days: [0, 6], start_time: "09:00", end_time: "18:00", timezone: defaultTimezone() }
+        ]);
+    };
+
+    return (
+        <div className="flex flex-col gap-3">
+            <div className="flex flex-col">
+                <label className="text-small text-default-500">{t("channel_schedule.title")}</label>
+                <p className="text-tiny text-default-400">{t("channel_schedule.help")}</p>
+            </div>
+
+            {windows.map((activeWindow, index) => (
+                <div key={index} className="flex flex-col gap-2 rounded-medium border border-default-200 p-3">
+                    <div className="flex items-center justify-between gap-2">
+                        <Chip size="sm" variant="flat" color={activeWindow.type === "once" ? "primary" : "secondary"}>
+                            {t(`channel_schedule.${activeWindow.type}`)}
+                        </Chip>
+                        <Button size="sm" variant="light" color="danger" onPress={() => removeWindow(index)}>
+                            {t("channel_schedule.remove")}
+                        </Button>
+                    </div>
+
+                    {activeWindow.type === "once" ? (
+                        <div className="flex gap-4">
+                            <Input
+                                label={t("channel_schedule.start")}
+                                type="datetime-local"
+                                value={activeWindow.start}
+                                onChange={(e) => updateWindow(index, { ...activeWindow, start: e.target.value })}
+                            />
+                            <Input
+                                label={t("channel_schedule.end")}
+                                type="datetime-local"
+                                value={activeWindow.end}
+                                onChange={(e) => updateWindow(index, { ...activeWindow, end: e.target.value })}
+                            />
+                        </div>
+                    ) : (
+                        <>
+                            <div className="flex flex-wrap gap-1" aria-label={t("channel_schedule.days")}>
+                                {WEEK_DAYS.map((day) => {
+                                    const isSelected = activeWindow.days.includes(day);
+
+                                    return (
+                                        <Button
+                                            key={day}
+                                            size="sm"
+                                            variant={isSelected ? "solid" : "bordered"}
+                                            color={isSelected ? "secondary" : "default"}
+                                            onPress={() => updateWindow(index, {
+                                                ...activeWindow,
+                                                days: isSelected
+                                                    ? activeWindow.days.filter((d) => d !== day)
+                                                    : [...activeWindow.days, day].sort((a, b) => a - b)
+                                            })}
+                                        >
+                                            {dayName(day)}
+                                        </Button>
+                                    );
+                                })}
+                            </div>
+                            <div className="flex gap-4">
+                                <Input
+                                    label={t("channel_schedule.start_time")}
+                                    type="time"
+                                    value={activeWindow.start_time}
+                                    onChange={(e) => updateWindow(index, { ...activeWindow, start_time: e.target.value })}
+                                />
+                                <Input
+                                    label={t("channel_schedule.end_time")}
+                                    type="time"
+                                    value={activeWindow.end_time}
+                                    onChange={(e) => updateWindow(index, { ...activeWindow, end_time: e.target.value })}
+                                />
+                            </div>
+                        </>
+                    )}
+
+                    <div className="flex gap-4">
+                        <Input
+                            label={t("channel_schedule.timezone")}
+                            placeholder="Europe/Paris"
+                            value={activeWindow.timezone}
+                            onChange={(e) => updateWindow(index, { ...activeWindow, timezone: e.target.value })}
+                        />
+                        <Input
+                            label={t("channel_schedule.label")}
+                            placeholder={t("channel_schedule.label_placeholder")}
+                            value={activeWindow.label || ""}
+                            onChange={(e) => updateWindow(index, { ...activeWindow, label: e.target.value || undefined })}
+                        />
+                    </div>
+                </div>
+            ))}
+
+            <div className="flex gap-2">
+                <Button size="sm" variant="bordered" onPress={addOneOffWindow}>
+                    {t("channel_schedule.add_once")}
+                </Button>
+                <Button size="sm" variant="bordered" onPress={addWeeklyWindow}>
+                    {t("channel_schedule.add_weekly")}
+                </Button>
+            </div>
+        </div>
+    );
+}
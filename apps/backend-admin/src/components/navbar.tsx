@@ -157,6 +157,14 @@ export const Navbar = () => {
                           {t("channels_administration")}
                         </Link>
                       </DropdownItem>
+                      <DropdownItem key="sites-admin" textValue={t("sites_administration")}>
+                        <Link
+                          href="/sites-admin"
+                          color="foreground"
+                        >
+                          {t("sites_administration")}
+                        </Link>
+                      </DropdownItem>
                       <DropdownItem key="users-admin" textValue={t("users-administration")}>
                         <Link
                           href="/users-admin"
@@ -201,6 +209,11 @@ export const Navbar = () => {
             availableLanguages={availableLanguages}
             icon={I18nIcon}
           />
+          {isAuthenticated && (
+            <Link color="foreground" href="/profile">
+              {t("profile")}
+            </Link>
+          )}
           <LoginLogoutButton />
         </NavbarItem>
         <NavbarItem className="hidden lg:flex">{searchInput}</NavbarItem>
@@ -282,6 +295,14 @@ export const Navbar = () => {
                       >
                         {t("channels_administration")}
                       </Link>
+                      <Link
+                        href="/sites-admin"
+                        color="foreground"
+                        size="lg"
+                        className="pl-4"
+                      >
+                        {t("sites_administration")}
+                      </Link>
                       <Link
                         href="/users-admin"
                         color="foreground"
@@ -296,6 +317,13 @@ export const Navbar = () => {
               </div>
             </NavbarMenuItem>
           )}
+          {isAuthenticated && (
+            <NavbarMenuItem key="profile">
+              <Link color="foreground" href="/profile" size="lg">
+                {t("profile")}
+              </Link>
+            </NavbarMenuItem>
+          )}
           <NavbarMenuItem key="login-logout">
             <LoginLogoutLink color="primary" />
           </NavbarMenuItem>
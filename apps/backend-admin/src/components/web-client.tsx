@@ -8,20 +8,39 @@ import { Spinner } from "@heroui/spinner";
 
 import { useSecuredApi, useAuth } from "@/authentication";
 import {
+    ChannelParticipant,
     PTTStartTransmissionRequest,
     PTTAudioChunkRequest,
     PTTEndTransmissionRequest,
     PTTWebSocketMessage,
+    PTTStartCommandMessage,
+    PTTEndCommandMessage,
+    PTTAckMessage,
+    PTTNackMessage,
+    PTTRetransmitRequestMessage,
     NetworkQuality,
     AudioFormat,
     DeviceInfo,
-    ClientIdUtils
+    ClientIdUtils,
+    AudioFrameUtils
 } from "@/types/ptt";
+import { JitterBuffer } from "@/utils/jitter-buffer";
+import { WebmInitSegment } from "@/utils/webm-init-segment";
 
 interface WebClientProps {
     channelUuid: string;
     channelName: string;
     isAdmin: boolean;
+    /** Called with every JSON message received on the channel WebSocket */
+    onChannelMessage?: (message: PTTWebSocketMessage) => void;
+    /** Channel participants, who can be called privately */
+    participants?: ChannelParticipant[];
+}
+
+interface PrivateCallState {
+    username: string;
+    /** This user is the talker or one of the targets */
+    isListener: boolean;
 }
 
 interface TransmissionState {
@@ -38,6 +57,15 @@ function generateUUIDv4(): string {
         return v.toString(16);
     });
 }
+
+function base64ToBytes(data: string): Uint8Array {
+    const binaryString = atob(data);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes;
+}
 /**
  * Utility class for managing ephemeral tokens in web client
  */
@@ -66,10 +94,11 @@ class WebClientIdUtils {
     }
 }
 
-export default function WebClient({ channelUuid, channelName, isAdmin }: WebClientProps) {
+export default function WebClient({ channelUuid, channelName, isAdmin, onChannelMessage, participants = [] }: WebClientProps) {
     const { t } = useTranslation();
     const { postJson } = useSecuredApi();
-    const { getAccessToken } = useAuth();
+    const { getAccessToken, user } = useAuth();
+    const userId = user?.sub;
 
     const [isConnected, setIsConnected] = useState(false);
     const [isConnecting, setIsConnecting] = useState(false);
@@ -81,6 +110,9 @@ export default function WebClient({ channelUuid, channelName, isAdmin }: WebClie
         startTime: null,
         chunksSent: 0
     });
+    // Users addressed by the next transmission, the whole channel when empty
+    const [callTargets, setCallTargets] = useState<string[]>([]);
+    const [privateCall, setPrivateCall] = useState<PrivateCallState | null>(null);
 
     const websocketRef = useRef<WebSocket | null>(null);
     const mediaRecorderRef = useRef<MediaRecorder | null>(null);
@@ -90,7 +122,15 @@ export default function WebClient({ channelUuid, channelName, isAdmin }: WebClie
     const sequenceNumberRef = useRef(0);
     const mediaSourceRef = useRef<MediaSource | null>(null);
     const chunkBufferRef = useRef<Blob[]>([]);
-    const bufferTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+    const bufferTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const sentChunksRef = useRef(new Map<number, Blob>());
+    const jitterBufferRef = useRef<JitterBuffer<AudioBuffer> | null>(null);
+    const jitterTickRef = useRef<ReturnType<typeof setInterval> | null>(null);
+    const receivingSessionRef = useRef<string | null>(null);
+    const webmInitSegmentRef = useRef(new WebmInitSegment());
+    const pendingCommandsRef = useRef(new Map<string, (response: PTTAckMessage | PTTNackMessage | null) => void>());
+    const onChannelMessageRef = useRef(onChannelMessage);
+    onChannelMessageRef.current = onChannelMessage;
 
     const connectToChannel = useCallback(async () => {
         if (isConnected) return;
@@ -123,17 +163,30 @@ export default function WebClient({ channelUuid, channelName, isAdmin }: WebClie
 
             // Connect to WebSocket for real-time audio
             const accessToken = await getAccessToken();
-            const wsUrl = `${import.meta.env.API_BASE_URL.replace('http', 'ws')}/v1/transmissions/ws/${channelUuid}?token=${encodeURIComponent(accessToken || '')}`;
-            const ws = new WebSocket(wsUrl);
+            // Audio is played as WebM Opus, the server transcodes the chunks of AAC-LC talkers
+            const wsUrl = `${import.meta.env.API_BASE_URL.replace('http', 'ws')}/v1/transmissions/ws/${channelUuid}?token=${encodeURIComponent(accessToken || '')}&audioFormats=opus`;
+            // Prefer binary audio frames, the server falls back to JSON if it does not support them
+            const ws = new WebSocket(wsUrl, [AudioFrameUtils.BINARY_PROTOCOL, AudioFrameUtils.JSON_PROTOCOL]);
+            ws.binaryType = "arraybuffer";
 
             ws.onopen = () => {
-                console.log("WebSocket connected for channel:", channelUuid);
+                console.log("WebSocket connected for channel:", channelUuid, "protocol:", ws.protocol || AudioFrameUtils.JSON_PROTOCOL);
                 setIsConnected(true);
                 setIsConnecting(false);
             };
 
             ws.onmessage = (event) => {
-                handleWebSocketMessage(JSON.parse(event.data));
+                // Binary messages are audio frames, everything else is JSON
+                if (event.data instanceof ArrayBuffer) {
+                    const frame = AudioFrameUtils.decode(event.data);
+                    if (frame) {
+                        playAudioChunk(frame.payload, frame.header.sequence);
+                    }
+                    return;
+                }
+                const message = JSON.parse(event.data) as PTTWebSocketMessage;
+                handleWebSocketMessage(message);
+                onChannelMessageRef.current?.(message);
             };
 
             ws.onerror = (error) => {
@@ -141,8 +194,17 @@ export default function WebClient({ channelUuid, channelName, isAdmin }: WebClie
                 setConnectionError(t("webclient.websocket_error"));
             };
 
-            ws.onclose = () => {
+            ws.onclose = (event) => {
                 console.log("WebSocket disconnected");
+                if (event.code === 1008) {
+                    // Policy violation, sent when a moderator kicks this user out of the channel
+                    setConnectionError(t("webclient.kicked"));
+                }
+                // Pending commands fall back to the HTTP API
+                pendingCommandsRef.current.forEach(resolve => resolve(null));
+                jitterBufferRef.current?.reset();
+                webmInitSegmentRef.current.reset();
+                receivingSessionRef.current = null;
                 setIsConnected(false);
                 setIsConnecting(false);
             };
@@ -263,17 +325,32 @@ export default function WebClient({ channelUuid, channelName, isAdmin }: WebClie
         switch (message.type) {
             case "transmission_started":
                 // console.log("Transmission started:", message.session_id);
+                // A new transmission starts a new playback timeline
+                jitterBufferRef.current?.reset();
+                webmInitSegmentRef.current.reset();
+                receivingSessionRef.current = message.session_id || null;
+                // The audio of a private call only reaches its talker and targets
+                setPrivateCall(message.data.target_user_ids
+                    ? {
+                        username: message.data.username,
+                        isListener: message.data.user_id === userId || message.data.target_user_ids.includes(userId || "")
+                    }
+                    : null);
                 break;
 
             case "audio_chunk":
                 // console.log("Received audio chunk:", message.data?.sequence);
                 if (message.data?.audio_data) {
-                    playAudioChunk(message.data.audio_data);
+                    playAudioChunk(message.data.audio_data, message.data.sequence);
                 }
                 break;
 
             case "transmission_ended":
                 // console.log("Transmission ended:", message.session_id);
+                jitterBufferRef.current?.reset();
+                webmInitSegmentRef.current.reset();
+                receivingSessionRef.current = null;
+                setPrivateCall(null);
                 // Signal end of stream to MediaSource
                 if (mediaSourceRef.current && mediaSourceRef.current.readyState === 'open') {
                     try {
@@ -285,23 +362,103 @@ export default function WebClient({ channelUuid, channelName, isAdmin }: WebClie
                 }
                 break;
 
+            case "ack":
+            case "nack":
+                if (message.data.request_id && pendingCommandsRef.current.has(message.data.request_id)) {
+                    pendingCommandsRef.current.get(message.data.request_id)?.(message);
+                }
+                if (message.data.command === "chunk") {
+                    if (message.type === "ack") {
+                        setTransmission(prev => ({
+                            ...prev,
+                            chunksSent: prev.chunksSent + 1
+                        }));
+                    } else {
+                        console.error(`Audio chunk ${message.data.sequence} rejected:`, message.data.error);
+                    }
+                }
+                break;
+
+            case "chunk_nack":
+                // Retransmit the chunks the server did not receive
+                console.warn(`Server requested retransmission of chunks ${message.data.missing_sequences.join(", ")}`);
+                message.data.missing_sequences.forEach(sequence => {
+                    const chunk = sentChunksRef.current.get(sequence);
+                    if (chunk) {
+                        sendAudioChunk(message.session_id, chunk, sequence);
+                    }
+                });
+                break;
+
+            case "channel_closed":
+                // The server closes the connection right after, at the end of the channel schedule
+                setConnectionError(t("webclient.channel_closed"));
+                break;
+
             case "error":
                 console.error("WebSocket error:", message.data);
                 setConnectionError(message.data?.message || t("webclient.websocket_error"));
                 break;
         }
-    }, [t]);
+    }, [t, userId]);
+
+    /**
+     * Get the jitter buffer scheduling received chunks on the AudioContext timeline
+     * Missing chunks are concealed with a faded copy of the previous chunk and requested again from the server
+     */
+    const getJitterBuffer = useCallback((audioContext: AudioContext) => {
+        if (jitterBufferRef.current) return jitterBufferRef.current;
+
+        let previousBuffer: AudioBuffer | null = null;
+
+        jitterBufferRef.current = new JitterBuffer<AudioBuffer>({
+            currentTime: () => audioContext.currentTime,
+            play: (audioBuffer, startTime) => {
+                const source = audioContext.createBufferSource();
+                source.buffer = audioBuffer;
+                source.connect(audioContext.destination);
+                source.start(startTime);
+                previousBuffer = audioBuffer;
+            },
+            conceal: (startTime, duration, sequence) => {
+                console.warn(`Audio chunk ${sequence} lost, concealing ${duration.toFixed(2)}s`);
+                if (!previousBuffer) return;
+
+                const source = audioContext.createBufferSource();
+                const gain = audioContext.createGain();
+                source.buffer = previousBuffer;
+                gain.gain.setValueAtTime(0.5, startTime);
+                gain.gain.linearRampToValueAtTime(0, startTime + duration);
+                source.connect(gain);
+                gain.connect(audioContext.destination);
+                source.start(startTime, 0, duration);
+            },
+            requestMissing: (sequences) => {
+                const websocket = websocketRef.current;
+                if (!receivingSessionRef.current || !websocket || websocket.readyState !== WebSocket.OPEN) return;
+
+                const request: PTTRetransmitRequestMessage = {
+                    type: "retransmit_request",
+                    session_id: receivingSessionRef.current,
+                    sequences
+                };
+                websocket.send(JSON.stringify(request));
+            }
+        });
+
+        // Conceal missing chunks when their slot is reached even if nothing else arrives
+        jitterTickRef.current = setInterval(() => jitterBufferRef.current?.tick(), 50);
 
-    const playAudioChunk = useCallback(async (audioData: string) => {
+        return jitterBufferRef.current;
+    }, []);
+
+    const playAudioChunk = useCallback(async (audioData: string | Uint8Array, sequence?: number) => {
         let bytes: Uint8Array | null = null;
 
         try {
-            // Decode base64 WebM data
-            const binaryString = atob(audioData);
-            bytes = new Uint8Array(binaryString.length);
-            for (let i = 0; i < binaryString.length; i++) {
-                bytes[i] = binaryString.charCodeAt(i);
-            }
+            // Decode base64 WebM data (JSON audio chunks), binary frames carry raw data.
+            // Only the first chunk of a transmission holds the WebM header, it is prepended to the next ones
+            bytes = webmInitSegmentRef.current.prepare(typeof audioData === "string" ? base64ToBytes(audioData) : audioData);
 
             // Use AudioContext for direct WebM decoding
             if (!audioContextRef.current) {
@@ -318,6 +475,12 @@ export default function WebClient({ channelUuid, channelName, isAdmin }: WebClie
             new Uint8Array(arrayBuffer).set(bytes);
             const audioBuffer = await audioContextRef.current.decodeAudioData(arrayBuffer);
 
+            // Order and schedule sequenced chunks through the jitter buffer
+            if (sequence !== undefined) {
+                getJitterBuffer(audioContextRef.current).push(sequence, audioBuffer, audioBuffer.duration);
+                return;
+            }
+
             // Create audio source and play immediately
             const source = audioContextRef.current.createBufferSource();
             source.buffer = audioBuffer;
@@ -328,15 +491,17 @@ export default function WebClient({ channelUuid, channelName, isAdmin }: WebClie
         } catch (error) {
             console.error("Error playing WebM audio chunk:", error);
 
+            // A sequenced chunk that cannot be decoded is skipped, it is neither concealed nor requested again
+            if (sequence !== undefined && audioContextRef.current) {
+                getJitterBuffer(audioContextRef.current).skip(sequence);
+                return;
+            }
+
             // Fallback: try to play as blob URL if decodeAudioData fails
             try {
                 // Re-decode if bytes is not available
                 if (!bytes) {
-                    const binaryString = atob(audioData);
-                    bytes = new Uint8Array(binaryString.length);
-                    for (let i = 0; i < binaryString.length; i++) {
-                        bytes[i] = binaryString.charCodeAt(i);
-                    }
+                    bytes = typeof audioData === "string" ? base64ToBytes(audioData) : audioData;
                 }
 
                 // Create a new ArrayBuffer for the blob to avoid type issues
@@ -361,6 +526,35 @@ export default function WebClient({ channelUuid, channelName, isAdmin }: WebClie
                 console.error("Fallback also failed:", fallbackError);
             }
         }
+    }, [getJitterBuffer]);
+
+    /**
+     * Send a transmission command over the WebSocket and wait for its ack or nack
+     * Resolves with null if the WebSocket is not available or does not answer, so the caller can fall back to HTTP
+     */
+    const sendWebSocketCommand = useCallback((command: PTTStartCommandMessage | PTTEndCommandMessage): Promise<PTTAckMessage | PTTNackMessage | null> => {
+        const websocket = websocketRef.current;
+
+        if (!websocket || websocket.readyState !== WebSocket.OPEN) {
+            return Promise.resolve(null);
+        }
+
+        const requestId = generateUUIDv4();
+
+        return new Promise((resolve) => {
+            const timeout = setTimeout(() => {
+                pendingCommandsRef.current.delete(requestId);
+                resolve(null);
+            }, 5000);
+
+            pendingCommandsRef.current.set(requestId, (response) => {
+                clearTimeout(timeout);
+                pendingCommandsRef.current.delete(requestId);
+                resolve(response);
+            });
+
+            websocket.send(JSON.stringify({ ...command, request_id: requestId }));
+        });
     }, []);
 
     const startTransmission = useCallback(async () => {
@@ -380,8 +574,7 @@ export default function WebClient({ channelUuid, channelName, isAdmin }: WebClie
             streamRef.current = stream;
 
             // Start transmission session
-            const startRequest: PTTStartTransmissionRequest = {
-                channel_uuid: channelUuid,
+            const startParameters: Omit<PTTStartTransmissionRequest, "channel_uuid"> = {
                 audio_format: "opus" as AudioFormat,
                 sample_rate: 44100,
                 bitrate: 64000,
@@ -391,19 +584,38 @@ export default function WebClient({ channelUuid, channelName, isAdmin }: WebClie
                     os: "WebClient",
                     os_version: navigator.userAgent,
                     app_version: "1.0.0"
-                }
+                },
+                target_user_ids: callTargets.length > 0 ? callTargets : undefined
             };
 
-            const startResponse = await postJson(
-                `${import.meta.env.API_BASE_URL}/v1/transmissions/start`,
-                startRequest
-            );
+            let sessionId: string;
+            const startAnswer = await sendWebSocketCommand({ type: "start", ...startParameters });
 
-            if (!startResponse.success) {
-                throw new Error(startResponse.error || t("webclient.transmission_start_failed"));
+            if (startAnswer) {
+                if (startAnswer.type === "nack") {
+                    throw new Error(startAnswer.data.error || t("webclient.transmission_start_failed"));
+                }
+
+                sessionId = startAnswer.session_id;
+            } else {
+                // HTTP fallback
+                const startRequest: PTTStartTransmissionRequest = {
+                    channel_uuid: channelUuid,
+                    ...startParameters
+                };
+
+                const startResponse = await postJson(
+                    `${import.meta.env.API_BASE_URL}/v1/transmissions/start`,
+                    startRequest
+                );
+
+                if (!startResponse.success) {
+                    throw new Error(startResponse.error || t("webclient.transmission_start_failed"));
+                }
+
+                sessionId = startResponse.session_id;
             }
 
-            const sessionId = startResponse.session_id;
             console.log(`Transmission started with session ID: ${sessionId}`);
 
             // Set up MediaRecorder for audio capture
@@ -414,6 +626,7 @@ export default function WebClient({ channelUuid, channelName, isAdmin }: WebClie
 
             mediaRecorderRef.current = mediaRecorder;
             audioChunksRef.current = [];
+            sentChunksRef.current.clear();
             sequenceNumberRef.current = 0;
 
             mediaRecorder.ondataavailable = async (event) => {
@@ -514,14 +727,48 @@ export default function WebClient({ channelUuid, channelName, isAdmin }: WebClie
             console.error("Error starting transmission:", error);
             setConnectionError(error instanceof Error ? error.message : t("webclient.microphone_access_failed"));
         }
-    }, [channelUuid, isConnected, transmission.isRecording, postJson, t]);
+    }, [channelUuid, isConnected, transmission.isRecording, callTargets, postJson, sendWebSocketCommand, t]);
 
     const sendAudioChunk = useCallback(async (sessionId: string, audioBlob: Blob, sequenceNumber: number) => {
         try {
-            // Convert blob to base64
+            // Keep the chunk until the end of the transmission in case it has to be retransmitted
+            sentChunksRef.current.set(sequenceNumber, audioBlob);
+
             const arrayBuffer = await audioBlob.arrayBuffer();
+
+            // Upload as a binary frame over the WebSocket when the binary subprotocol was negotiated,
+            // the chunk is counted as sent when the server acknowledges it
+            const websocket = websocketRef.current;
+            if (websocket?.readyState === WebSocket.OPEN && websocket.protocol === AudioFrameUtils.BINARY_PROTOCOL) {
+                websocket.send(AudioFrameUtils.encode({
+                    sessionHash: AudioFrameUtils.hashSessionId(sessionId),
+                    sequence: sequenceNumber,
+                    timestampMs: Date.now(),
+                    audioFormat: "opus"
+                }, new Uint8Array(arrayBuffer)));
+
+                console.log(`Audio chunk ${sequenceNumber} sent as binary frame, size: ${arrayBuffer.byteLength} bytes`);
+                return;
+            }
+
+            // Convert blob to base64
             const base64Data = btoa(String.fromCharCode(...new Uint8Array(arrayBuffer)));
 
+            // JSON chunk command over the WebSocket, HTTP otherwise
+            if (websocket?.readyState === WebSocket.OPEN) {
+                websocket.send(JSON.stringify({
+                    type: "chunk",
+                    session_id: sessionId,
+                    audio_data: base64Data,
+                    chunk_sequence: sequenceNumber,
+                    chunk_size_bytes: arrayBuffer.byteLength,
+                    timestamp_ms: Date.now()
+                }));
+
+                console.log(`Audio chunk ${sequenceNumber} sent over WebSocket, size: ${arrayBuffer.byteLength} bytes`);
+                return;
+            }
+
             const chunkRequest: PTTAudioChunkRequest = {
                 session_id: sessionId,
                 audio_data: base64Data,
@@ -620,10 +867,17 @@ export default function WebClient({ channelUuid, channelName, isAdmin }: WebClie
 
             console.log(`Ending transmission ${sessionId}, duration: ${duration}ms, chunks: ${audioChunksRef.current.length}`);
 
-            await postJson(
-                `${import.meta.env.API_BASE_URL}/v1/transmissions/${encodeURIComponent(sessionId)}/end`,
-                endRequest
-            );
+            const endAnswer = await sendWebSocketCommand({ type: "end", ...endRequest });
+
+            if (endAnswer?.type === "nack") {
+                console.error(`Failed to end transmission ${sessionId}:`, endAnswer.data.error);
+            } else if (!endAnswer) {
+                // HTTP fallback
+                await postJson(
+                    `${import.meta.env.API_BASE_URL}/v1/transmissions/${encodeURIComponent(sessionId)}/end`,
+                    endRequest
+                );
+            }
 
             console.log(`Transmission ${sessionId} ended successfully`);
 
@@ -637,7 +891,7 @@ export default function WebClient({ channelUuid, channelName, isAdmin }: WebClie
         } catch (error) {
             console.error(`Error ending transmission ${sessionId}:`, error);
         }
-    }, [transmission.startTime, postJson]);
+    }, [transmission.startTime, postJson, sendWebSocketCommand]);
 
     // Cleanup on unmount
     useEffect(() => {
@@ -651,6 +905,10 @@ export default function WebClient({ channelUuid, channelName, isAdmin }: WebClie
             if (audioContextRef.current) {
                 audioContextRef.current.close();
             }
+            // Stop the jitter buffer
+            if (jitterTickRef.current) {
+                clearInterval(jitterTickRef.current);
+            }
             // Clear any pending buffer timeout
             if (bufferTimeoutRef.current) {
                 clearTimeout(bufferTimeoutRef.current);
@@ -680,6 +938,12 @@ export default function WebClient({ channelUuid, channelName, isAdmin }: WebClie
         };
     }, []);
 
+    // A participant joined from several devices is listed once
+    const callableParticipants = participants.filter((participant, index) =>
+        participant.user_id !== userId &&
+        participants.findIndex(p => p.user_id === participant.user_id) === index
+    );
+
     // Only render if user is admin
     if (!isAdmin) {
         return null;
@@ -781,6 +1045,43 @@ export default function WebClient({ channelUuid, channelName, isAdmin }: WebClie
                         </div>
                     )}
 
+                    {/* Private call - Participants addressed by the next transmission */}
+                    {isConnected && callableParticipants.length > 0 && (
+                        <div className="flex flex-col gap-2">
+                            <p className="text-small text-default-500">
+                                {callTargets.length > 0 ? t("webclient.private_call_to") : t("webclient.talk_to_channel")}
+                            </p>
+                            <div className="flex flex-wrap gap-1">
+                                {callableParticipants.map(participant => {
+                                    const isSelected = callTargets.includes(participant.user_id);
+
+                                    return (
+                                        <Button
+                                            key={participant.user_id}
+                                            size="sm"
+                                            variant={isSelected ? "solid" : "bordered"}
+                                            color={isSelected ? "secondary" : "default"}
+                                            isDisabled={transmission.isRecording}
+                                            onPress={() => setCallTargets(prev => isSelected
+                                                ? prev.filter(id => id !== participant.user_id)
+                                                : [...prev, participant.user_id])}
+                                        >
+                                            {participant.username}
+                                        </Button>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+
+                    {privateCall && (
+                        <Chip color="secondary" variant="flat">
+                            {privateCall.isListener
+                                ? t("webclient.private_call_with", { username: privateCall.username })
+                                : t("webclient.private_call_in_progress", { username: privateCall.username })}
+                        </Chip>
+                    )}
+
                     {/* Error Display */}
                     {connectionError && (
                         <div className="p-3 bg-danger-50 border border-danger-200 rounded-lg">
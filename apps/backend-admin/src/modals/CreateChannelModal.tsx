@@ -8,6 +8,7 @@ import {
     ModalFooter,
 } from "@heroui/modal";
 import { Input } from "@heroui/input";
+import { Switch } from "@heroui/switch";
 import {
     Dropdown,
     DropdownTrigger,
@@ -15,6 +16,7 @@ import {
     DropdownItem,
 } from "@heroui/dropdown";
 
+import ChannelScheduleEditor from "@/components/channel-schedule-editor";
 import { ChannelType, CreateChannelRequest } from "@/types/ptt";
 
 interface CreateChannelModalProps {
@@ -91,12 +93,34 @@ export default function CreateChannelModal({
                                 onChange={(e) => setFormData({ ...formData, vhf_frequency: e.target.value })}
                             />
                         </div>
+                        {formData.type === 'site_local' && (
+                            <Input
+                                label={t("checkin_deadline_minutes")}
+                                description={t("checkin_deadline_description")}
+                                type="number"
+                                placeholder="240"
+                                min={15}
+                                max={720}
+                                value={formData.checkin_deadline_minutes?.toString() || ''}
+                                onChange={(e) => setFormData({ ...formData, checkin_deadline_minutes: parseInt(e.target.value) || undefined })}
+                            />
+                        )}
                         <Input
                             label={t("description")}
                             placeholder="Channel description (optional)"
                             value={formData.description}
                             onChange={(e) => setFormData({ ...formData, description: e.target.value })}
                         />
+                        <Switch
+                            isSelected={formData.recording_enabled || false}
+                            onValueChange={(enabled) => setFormData({ ...formData, recording_enabled: enabled })}
+                        >
+                            {t("recording_enabled")}
+                        </Switch>
+                        <ChannelScheduleEditor
+                            windows={formData.active_windows || []}
+                            onChange={(windows) => setFormData({ ...formData, active_windows: windows })}
+                        />
                     </div>
                 </ModalBody>
                 <ModalFooter>
@@ -1,14 +1,30 @@
 import { useParams } from "react-router-dom";
 import { useTranslation } from "react-i18next";
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { Card, CardBody, CardHeader } from "@heroui/card";
 import { Chip } from "@heroui/chip";
 
 import DefaultLayout from "@/layouts/default";
 import { title } from "@/components/primitives";
 import { useSecuredApi, useAuth } from "@/authentication";
-import { APIResponse, PTTChannel, ChannelParticipant } from "@/types/ptt";
+import {
+    APIResponse,
+    PTTChannel,
+    ChannelParticipant,
+    ChannelPositionsResponse,
+    ChannelTextMessage,
+    PilotCheckin,
+    PTTWebSocketMessage
+} from "@/types/ptt";
 import WebClient from "@/components/web-client";
+import ChannelMap, { ChannelMapParticipant } from "@/components/channel-map";
+import ChannelModeration from "@/components/channel-moderation";
+import ChannelMessages from "@/components/channel-messages";
+import ChannelCheckins from "@/components/channel-checkins";
+import { appendTrailPoint, TrailPoint } from "@/utils/map-projection";
+
+// Trails shown on the map, older positions are dropped
+const TRAIL_WINDOW_MS = 10 * 60 * 1000;
 
 export default function ChannelPage() {
     const { t } = useTranslation();
@@ -22,6 +38,22 @@ export default function ChannelPage() {
     const [error, setError] = useState<string | null>(null);
     const [canViewParticipants, setCanViewParticipants] = useState<boolean>(false);
     const [isAdmin, setIsAdmin] = useState<boolean>(false);
+    const [mapParticipants, setMapParticipants] = useState<Record<string, ChannelMapParticipant>>({});
+    const [activeSpeaker, setActiveSpeaker] = useState<{ user_id: string; username: string } | null>(null);
+    const [moderationRefreshKey, setModerationRefreshKey] = useState(0);
+    const [incomingMessage, setIncomingMessage] = useState<ChannelTextMessage | null>(null);
+    const [incomingCheckin, setIncomingCheckin] = useState<PilotCheckin | null>(null);
+
+    const addMapPosition = useCallback((userId: string, username: string, point: TrailPoint) => {
+        setMapParticipants(prev => {
+            const trail = appendTrailPoint(prev[userId]?.trail ?? [], point, { maxAgeMs: TRAIL_WINDOW_MS });
+
+            return {
+                ...prev,
+                [userId]: { user_id: userId, username, position: trail[trail.length - 1], trail }
+            };
+        });
+    }, []);
 
     useEffect(() => {
         const fetchChannel = async () => {
@@ -74,6 +106,14 @@ export default function ChannelPage() {
                 if (response.data && Array.isArray(response.data)) {
                     // The API return directly an array of participants
                     setParticipants(response.data);
+                    response.data.forEach(participant => {
+                        if (participant.location) {
+                            addMapPosition(participant.user_id, participant.username, {
+                                ...participant.location,
+                                timestamp_ms: new Date(participant.last_seen).getTime()
+                            });
+                        }
+                    });
                 } else {
                     setParticipants([]);
                 }
@@ -84,10 +124,88 @@ export default function ChannelPage() {
             } finally {
                 setParticipantsLoading(false);
             }
+
+            await fetchPositions();
+        };
+
+        const fetchPositions = async () => {
+            if (!uuid) return;
+
+            try {
+                const since = new Date(Date.now() - TRAIL_WINDOW_MS).toISOString();
+                const response = await getJson(
+                    `${import.meta.env.API_BASE_URL}/v1/channels/${uuid}/positions?since=${encodeURIComponent(since)}`,
+                ) as APIResponse<ChannelPositionsResponse>;
+
+                // Positions are ordered by time, the trails are built in order
+                response.data?.positions.forEach(record => {
+                    addMapPosition(record.user_id, record.username, {
+                        lat: record.lat,
+                        lon: record.lon,
+                        timestamp_ms: record.timestamp_ms
+                    });
+                });
+            } catch (err) {
+                // The map still shows the live positions
+                console.error("Error fetching positions:", err);
+            }
         };
 
         fetchChannel();
-    }, [uuid, getJson, t]);
+    }, [uuid, getJson, t, addMapPosition]);
+
+    /**
+     * Follow the channel WebSocket of the web client to keep the map live
+     */
+    const handleChannelMessage = useCallback((message: PTTWebSocketMessage) => {
+        switch (message.type) {
+            case "position_update":
+                addMapPosition(message.data.user_id, message.data.username, {
+                    lat: message.data.position.lat,
+                    lon: message.data.position.lon,
+                    timestamp_ms: message.data.position.timestamp_ms
+                });
+                break;
+
+            case "transmission_started":
+                setActiveSpeaker({ user_id: message.data.user_id, username: message.data.username });
+                break;
+
+            case "transmission_ended":
+                setActiveSpeaker(prev => prev?.user_id === message.data.user_id ? null : prev);
+                break;
+
+            case "participant_leave":
+                setMapParticipants(prev => Object.fromEntries(
+                    Object.entries(prev).filter(([userId]) => userId !== message.userId)
+                ));
+                break;
+
+            case "moderation_action":
+                setModerationRefreshKey(prev => prev + 1);
+                if (message.data.action === "kick" && message.data.target_user_id) {
+                    const kickedUserId = message.data.target_user_id;
+
+                    setParticipants(prev => prev.filter(participant => participant.user_id !== kickedUserId));
+                    setMapParticipants(prev => Object.fromEntries(
+                        Object.entries(prev).filter(([userId]) => userId !== kickedUserId)
+                    ));
+                }
+                break;
+
+            case "text_message":
+                setIncomingMessage(message.data);
+                break;
+
+            case "pilot_checkin":
+                setIncomingCheckin(message.data);
+                break;
+
+            case "pilot_overdue":
+                setIncomingCheckin(message.data.checkin);
+                break;
+        }
+    }, [addMapPosition]);
 
     const getConnectionQualityColor = (quality: string) => {
         switch (quality) {
@@ -136,8 +254,41 @@ export default function ChannelPage() {
                         channelUuid={channel.uuid}
                         channelName={channel.name}
                         isAdmin={isAdmin}
+                        onChannelMessage={handleChannelMessage}
+                        participants={participants}
+                    />
+                )}
+                {/* Live map - Only when the channel is located and participants are visible */}
+                {canViewParticipants && channel.coordinates && (
+                    <ChannelMap
+                        center={channel.coordinates}
+                        radiusKm={channel.radius_km}
+                        participants={Object.values(mapParticipants)}
+                        activeSpeaker={activeSpeaker}
+                    />
+                )}
+                {/* Text messages - Only for the users with access to the channel */}
+                {canViewParticipants && (
+                    <ChannelMessages
+                        channelUuid={channel.uuid}
+                        incomingMessage={incomingMessage}
+                    />
+                )}
+                {/* Landing check-ins - Only tracked on site_local channels */}
+                {canViewParticipants && channel.type === "site_local" && (
+                    <ChannelCheckins
+                        channelUuid={channel.uuid}
+                        incomingCheckin={incomingCheckin}
                     />
                 )}
+                {/* Moderation - Only rendered for administrators and channel moderators */}
+                <ChannelModeration
+                    channelUuid={channel.uuid}
+                    isAdmin={isAdmin}
+                    participants={participants}
+                    activeSpeaker={activeSpeaker}
+                    refreshKey={moderationRefreshKey}
+                />
                 <Card className="max-w-2xl w-full">
                     <CardHeader className="flex gap-3">
                         <div className="flex flex-col">
@@ -20,6 +20,7 @@ import {
     useDisclosure
 } from "@heroui/modal";
 import { Input } from "@heroui/input";
+import { Switch } from "@heroui/switch";
 import {
     Dropdown,
     DropdownTrigger,
@@ -30,6 +31,7 @@ import { useEffect, useState } from "react";
 
 import DefaultLayout from "@/layouts/default";
 import { title } from "@/components/primitives";
+import ChannelScheduleEditor from "@/components/channel-schedule-editor";
 import { useAuth, useSecuredApi } from "@/authentication";
 import { APIResponse, ChannelsListResponse, ChannelType, CreateChannelRequest, PTTChannel } from "@/types/ptt";
 
@@ -55,6 +57,8 @@ export default function ChannelsAdminPage() {
         description: '',
         max_participants: 10,
         vhf_frequency: '',
+        recording_enabled: false,
+        active_windows: [],
     });
     const [submitting, setSubmitting] = useState(false);
 
@@ -117,6 +121,8 @@ export default function ChannelsAdminPage() {
             description: '',
             max_participants: 10,
             vhf_frequency: '',
+            recording_enabled: false,
+            active_windows: [],
         });
         setSelectedChannel(null);
     };
@@ -134,6 +140,9 @@ export default function ChannelsAdminPage() {
             description: channel.description || '',
             max_participants: channel.max_participants,
             vhf_frequency: channel.vhf_frequency || '',
+            recording_enabled: channel.recording_enabled || false,
+            active_windows: channel.active_windows || [],
+            checkin_deadline_minutes: channel.checkin_deadline_minutes ?? undefined,
         });
         onUpdateOpen();
     };
@@ -327,7 +336,16 @@ export default function ChannelsAdminPage() {
                                         <TableRow key={channel.uuid}>
                                             <TableCell>{channel.name}</TableCell>
                                             <TableCell>{getTypeChip(channel.type)}</TableCell>
-                                            <TableCell>{getStatusChip(channel.is_active)}</TableCell>
+                                            <TableCell>
+                                                <div className="flex gap-1">
+                                                    {getStatusChip(channel.is_active)}
+                                                    {channel.active_windows && channel.active_windows.length > 0 && (
+                                                        <Chip color="secondary" size="sm" variant="flat">
+                                                            {t("channel_schedule.scheduled")}
+                                                        </Chip>
+                                                    )}
+                                                </div>
+                                            </TableCell>
                                             <TableCell>{channel.max_participants || "N/A"}</TableCell>
                                             <TableCell>{channel.vhf_frequency || "N/A"}</TableCell>
                                             <TableCell>
@@ -438,12 +456,34 @@ export default function ChannelsAdminPage() {
                                     onChange={(e) => setFormData({ ...formData, vhf_frequency: e.target.value })}
                                 />
                             </div>
+                            {formData.type === 'site_local' && (
+                                <Input
+                                    label={t("checkin_deadline_minutes")}
+                                    description={t("checkin_deadline_description")}
+                                    type="number"
+                                    placeholder="240"
+                                    min={15}
+                                    max={720}
+                                    value={formData.checkin_deadline_minutes?.toString() || ''}
+                                    onChange={(e) => setFormData({ ...formData, checkin_deadline_minutes: parseInt(e.target.value) || undefined })}
+                                />
+                            )}
                             <Input
                                 label={t("description")}
                                 placeholder="Channel description (optional)"
                                 value={formData.description}
                                 onChange={(e) => setFormData({ ...formData, description: e.target.value })}
                             />
+                            <Switch
+                                isSelected={formData.recording_enabled || false}
+                                onValueChange={(enabled) => setFormData({ ...formData, recording_enabled: enabled })}
+                            >
+                                {t("recording_enabled")}
+                            </Switch>
+                            <ChannelScheduleEditor
+                                windows={formData.active_windows || []}
+                                onChange={(windows) => setFormData({ ...formData, active_windows: windows })}
+                            />
                         </div>
                     </ModalBody>
                     <ModalFooter>
@@ -521,12 +561,34 @@ export default function ChannelsAdminPage() {
                                     onChange={(e) => setFormData({ ...formData, vhf_frequency: e.target.value })}
                                 />
                             </div>
+                            {formData.type === 'site_local' && (
+                                <Input
+                                    label={t("checkin_deadline_minutes")}
+                                    description={t("checkin_deadline_description")}
+                                    type="number"
+                                    placeholder="240"
+                                    min={15}
+                                    max={720}
+                                    value={formData.checkin_deadline_minutes?.toString() || ''}
+                                    onChange={(e) => setFormData({ ...formData, checkin_deadline_minutes: parseInt(e.target.value) || undefined })}
+                                />
+                            )}
                             <Input
                                 label={t("description")}
                                 placeholder="Channel description (optional)"
                                 value={formData.description}
                                 onChange={(e) => setFormData({ ...formData, description: e.target.value })}
                             />
+                            <Switch
+                                isSelected={formData.recording_enabled || false}
+                                onValueChange={(enabled) => setFormData({ ...formData, recording_enabled: enabled })}
+                            >
+                                {t("recording_enabled")}
+                            </Switch>
+                            <ChannelScheduleEditor
+                                windows={formData.active_windows || []}
+                                onChange={(windows) => setFormData({ ...formData, active_windows: windows })}
+                            />
                         </div>
                     </ModalBody>
                     <ModalFooter>
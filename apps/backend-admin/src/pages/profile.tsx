@@ -0,0 +1,268 @@
+import { useTranslation } from "react-i18next";
+import { Button } from "@heroui/button";
+import { Card, CardBody, CardHeader } from "@heroui/card";
+import { Divider } from "@heroui/divider";
+import { Input } from "@heroui/input";
+import { Switch } from "@heroui/switch";
+import {
+    Dropdown,
+    DropdownTrigger,
+    DropdownMenu,
+    DropdownItem,
+} from "@heroui/dropdown";
+import { useEffect, useState } from "react";
+
+import DefaultLayout from "@/layouts/default";
+import { title } from "@/components/primitives";
+import { useAuth, useSecuredApi } from "@/authentication";
+import { availableLanguages } from "@/i18n";
+import {
+    APIResponse,
+    FlyingSite,
+    FlyingSitesListResponse,
+    UpdateUserPreferencesRequest,
+    UserPreferences
+} from "@/types/ptt";
+
+export default function ProfilePage() {
+    const { t, i18n } = useTranslation();
+    const { getJson, putJson } = useSecuredApi();
+    const { isAuthenticated, user } = useAuth();
+    const [preferences, setPreferences] = useState<UserPreferences | null>(null);
+    const [sites, setSites] = useState<FlyingSite[]>([]);
+    const [vhfBackupFrequency, setVhfBackupFrequency] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [saved, setSaved] = useState(false);
+
+    useEffect(() => {
+        const fetchData = async () => {
+            if (!isAuthenticated || !user) {
+                setLoading(false);
+                return;
+            }
+
+            try {
+                const response = await getJson(
+                    `${import.meta.env.API_BASE_URL}/v1/me/preferences`,
+                ) as APIResponse<UserPreferences>;
+
+                if (response.data) {
+                    setPreferences(response.data);
+                    setVhfBackupFrequency(response.data.vhf_backup_frequency || '');
+                } else {
+                    setError(response.error || "Failed to load preferences");
+                }
+
+                // Sites are only needed to pick favorites, users without read permission get none
+                const sitesResponse = await getJson(
+                    `${import.meta.env.API_BASE_URL}/v1/sites`,
+                ) as APIResponse<FlyingSitesListResponse>;
+
+                if (sitesResponse.data) {
+                    setSites(sitesResponse.data.sites);
+                }
+            } catch (err) {
+                console.error("API Error:", err);
+                setError("Error loading preferences");
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchData();
+    }, [isAuthenticated, user, getJson]);
+
+    const submitPreferences = async () => {
+        if (!preferences) return;
+
+        const request: UpdateUserPreferencesRequest = {
+            preferred_language: preferences.preferred_language,
+            favorite_sites: preferences.favorite_sites,
+            auto_join_site_channels: preferences.auto_join_site_channels,
+            emergency_mode_enabled: preferences.emergency_mode_enabled,
+            share_location: preferences.share_location,
+            // An empty field clears the stored frequency
+            vhf_backup_frequency: vhfBackupFrequency || null,
+        };
+
+        try {
+            setSubmitting(true);
+            setSaved(false);
+            const response = await putJson(
+                `${import.meta.env.API_BASE_URL}/v1/me/preferences`,
+                request
+            ) as APIResponse<UserPreferences>;
+
+            if (response.success && response.data) {
+                setPreferences(response.data);
+                setError(null);
+                setSaved(true);
+
+                if (response.data.preferred_language !== i18n.language) {
+                    i18n.changeLanguage(response.data.preferred_language);
+                }
+            } else {
+                setError(response.error || "Failed to save preferences");
+            }
+        } catch (err) {
+            console.error("Save preferences error:", err);
+            setError("Error saving preferences");
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const selectedLanguage = availableLanguages.find(
+        (language) => language.code === preferences?.preferred_language
+    );
+
+    if (!isAuthenticated) {
+        return (
+            <DefaultLayout>
+                <div className="text-center">
+                    <h1 className={title()}>Not Authenticated</h1>
+                    <p>Please log in to access this page.</p>
+                </div>
+            </DefaultLayout>
+        );
+    }
+
+    return (
+        <DefaultLayout>
+            <section className="flex flex-col items-center justify-center gap-4 py-8 md:py-10">
+                <div className="inline-block max-w-xl text-center justify-center">
+                    <span className={title()}>{t("profile")}</span>
+                </div>
+            </section>
+
+            <section className="flex flex-col gap-4 py-4 max-w-2xl mx-auto w-full">
+                {loading && (
+                    <div className="flex justify-center">
+                        <p>{t("loading")}</p>
+                    </div>
+                )}
+
+                {error && (
+                    <Card>
+                        <CardBody>
+                            <p className="text-danger">{t("error")}: {error}</p>
+                        </CardBody>
+                    </Card>
+                )}
+
+                {preferences && (
+                    <Card>
+                        <CardHeader className="flex gap-3">
+                            <div className="flex flex-col">
+                                <p className="text-md font-medium">{user?.name || preferences.username}</p>
+                                <p className="text-small text-default-500">{preferences.user_id}</p>
+                            </div>
+                        </CardHeader>
+                        <Divider />
+                        <CardBody>
+                            <div className="flex flex-col gap-4">
+                                <div className="flex flex-col gap-2">
+                                    <label className="text-small text-default-500">{t("user_profile.preferred_language")}</label>
+                                    <Dropdown>
+                                        <DropdownTrigger>
+                                            <Button variant="bordered">
+                                                {selectedLanguage?.nativeName || preferences.preferred_language}
+                                            </Button>
+                                        </DropdownTrigger>
+                                        <DropdownMenu
+                                            aria-label="Preferred language selection"
+                                            selectionMode="single"
+                                            selectedKeys={[preferences.preferred_language]}
+                                            onSelectionChange={(keys: any) => {
+                                                const selected = Array.from(keys)[0] as string;
+                                                setPreferences({ ...preferences, preferred_language: selected });
+                                            }}
+                                        >
+                                            {availableLanguages.map((language) => (
+                                                <DropdownItem key={language.code}>{language.nativeName}</DropdownItem>
+                                            ))}
+                                        </DropdownMenu>
+                                    </Dropdown>
+                                </div>
+                                <div className="flex flex-col gap-2">
+                                    <label className="text-small text-default-500">{t("user_profile.favorite_sites")}</label>
+                                    <Dropdown>
+                                        <DropdownTrigger>
+                                            <Button variant="bordered" isDisabled={sites.length === 0}>
+                                                {preferences.favorite_sites.length > 0
+                                                    ? preferences.favorite_sites
+                                                        .map((siteId) => sites.find((site) => site.id === siteId)?.name || siteId)
+                                                        .join(", ")
+                                                    : t("user_profile.no_favorite_sites")}
+                                            </Button>
+                                        </DropdownTrigger>
+                                        <DropdownMenu
+                                            aria-label="Favorite sites selection"
+                                            closeOnSelect={false}
+                                            selectionMode="multiple"
+                                            selectedKeys={preferences.favorite_sites}
+                                            onSelectionChange={(keys: any) => {
+                                                setPreferences({
+                                                    ...preferences,
+                                                    favorite_sites: Array.from(keys) as string[],
+                                                });
+                                            }}
+                                        >
+                                            {sites.map((site) => (
+                                                <DropdownItem key={site.id}>{site.name}</DropdownItem>
+                                            ))}
+                                        </DropdownMenu>
+                                    </Dropdown>
+                                </div>
+                                <Input
+                                    label={t("user_profile.vhf_backup_frequency")}
+                                    placeholder="143.9875"
+                                    value={vhfBackupFrequency}
+                                    onChange={(e) => setVhfBackupFrequency(e.target.value)}
+                                />
+                                <Switch
+                                    isSelected={preferences.auto_join_site_channels}
+                                    onValueChange={(enabled) => setPreferences({ ...preferences, auto_join_site_channels: enabled })}
+                                >
+                                    {t("user_profile.auto_join_site_channels")}
+                                </Switch>
+                                <Switch
+                                    isSelected={preferences.emergency_mode_enabled}
+                                    onValueChange={(enabled) => setPreferences({ ...preferences, emergency_mode_enabled: enabled })}
+                                >
+                                    {t("user_profile.emergency_mode_enabled")}
+                                </Switch>
+                                <Switch
+                                    isSelected={preferences.share_location}
+                                    onValueChange={(enabled) => setPreferences({ ...preferences, share_location: enabled })}
+                                >
+                                    {t("user_profile.share_location")}
+                                </Switch>
+                                {preferences.last_location && (
+                                    <p className="text-small text-default-500">
+                                        {t("user_profile.last_location")}: {preferences.last_location.lat.toFixed(4)}, {preferences.last_location.lon.toFixed(4)}
+                                    </p>
+                                )}
+                                <p className="text-small text-default-500">
+                                    {preferences.device_token ? t("user_profile.device_registered") : t("user_profile.no_device_registered")}
+                                </p>
+                                <div className="flex justify-end items-center gap-4">
+                                    {saved && <p className="text-small text-success">{t("user_profile.saved")}</p>}
+                                    <Button
+                                        color="primary"
+                                        onPress={submitPreferences}
+                                        isLoading={submitting}
+                                    >
+                                        {t("user_profile.save")}
+                                    </Button>
+                                </div>
+                            </div>
+                        </CardBody>
+                    </Card>
+                )}
+            </section>
+        </DefaultLayout>
+    );
+}
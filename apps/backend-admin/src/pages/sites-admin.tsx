@@ -0,0 +1,708 @@
+import { useTranslation } from "react-i18next";
+import { Button } from "@heroui/button";
+import { Card, CardBody, CardHeader } from "@heroui/card";
+import { Divider } from "@heroui/divider";
+import {
+    Table,
+    TableHeader,
+    TableBody,
+    TableColumn,
+    TableRow,
+    TableCell
+} from "@heroui/table";
+import { Chip } from "@heroui/chip";
+import {
+    Modal,
+    ModalContent,
+    ModalHeader,
+    ModalBody,
+    ModalFooter,
+    useDisclosure
+} from "@heroui/modal";
+import { Input } from "@heroui/input";
+import { Switch } from "@heroui/switch";
+import {
+    Dropdown,
+    DropdownTrigger,
+    DropdownMenu,
+    DropdownItem,
+} from "@heroui/dropdown";
+import { useEffect, useState } from "react";
+
+import DefaultLayout from "@/layouts/default";
+import { title } from "@/components/primitives";
+import { useAuth, useSecuredApi } from "@/authentication";
+import {
+    APIResponse,
+    ChannelDifficulty,
+    ChannelsListResponse,
+    CreateFlyingSiteRequest,
+    FlyingSite,
+    FlyingSitesListResponse,
+    PTTChannel,
+    SiteChannel,
+    SiteChannelsResponse
+} from "@/types/ptt";
+
+/**
+ * Site form values, numbers are kept as strings while editing
+ */
+interface SiteFormData {
+    id: string;
+    name: string;
+    lat: string;
+    lon: string;
+    elevation: string;
+    difficulty: ChannelDifficulty;
+    vhf_frequency: string;
+    radius_km: string;
+    weather_station_id: string;
+    is_active: boolean;
+}
+
+const emptyForm: SiteFormData = {
+    id: '',
+    name: '',
+    lat: '',
+    lon: '',
+    elevation: '',
+    difficulty: 'beginner',
+    vhf_frequency: '',
+    radius_km: '25',
+    weather_station_id: '',
+    is_active: true,
+};
+
+export default function SitesAdminPage() {
+    const { t } = useTranslation();
+    const { getJson, postJson, putJson, deleteJson } = useSecuredApi();
+    const { isAuthenticated, user, hasPermission } = useAuth();
+    const [sites, setSites] = useState<FlyingSite[] | null>(null);
+    const [allChannels, setAllChannels] = useState<PTTChannel[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [isAdminUser, setIsAdminUser] = useState(false);
+
+    // Modal states
+    const { isOpen: isFormOpen, onOpen: onFormOpen, onClose: onFormClose } = useDisclosure();
+    const { isOpen: isDeleteOpen, onOpen: onDeleteOpen, onClose: onDeleteClose } = useDisclosure();
+    const { isOpen: isChannelsOpen, onOpen: onChannelsOpen, onClose: onChannelsClose } = useDisclosure();
+
+    // Form states
+    const [selectedSite, setSelectedSite] = useState<FlyingSite | null>(null);
+    const [formData, setFormData] = useState<SiteFormData>(emptyForm);
+    const [siteChannels, setSiteChannels] = useState<SiteChannel[]>([]);
+    const [submitting, setSubmitting] = useState(false);
+
+    const fetchSites = async () => {
+        const response = await getJson(
+            `${import.meta.env.API_BASE_URL}/v1/sites?active=false`,
+        ) as APIResponse<FlyingSitesListResponse>;
+
+        if (response.data) {
+            setSites(response.data.sites);
+        } else {
+            setError("Failed to load sites");
+        }
+    };
+
+    useEffect(() => {
+        const fetchData = async () => {
+            try {
+                const adminPermission = await hasPermission(import.meta.env.ADMIN_PERMISSION);
+                setIsAdminUser(adminPermission);
+
+                if (!adminPermission) {
+                    setError("Insufficient permissions");
+                    setLoading(false);
+                    return;
+                }
+
+                if (isAuthenticated && user) {
+                    await fetchSites();
+
+                    const channelsResponse = await getJson(
+                        `${import.meta.env.API_BASE_URL}/v1/channels`,
+                    ) as APIResponse<ChannelsListResponse>;
+
+                    if (channelsResponse.data) {
+                        setAllChannels(channelsResponse.data.channels);
+                    }
+                }
+            } catch (err) {
+                console.error("API Error:", err);
+                setError("Error loading sites");
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchData();
+    }, [isAuthenticated, user, hasPermission, getJson]);
+
+    const refreshSites = async () => {
+        try {
+            setLoading(true);
+            await fetchSites();
+        } catch (err) {
+            console.error("API Error:", err);
+            setError("Error loading sites");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleCreateSite = () => {
+        setSelectedSite(null);
+        setFormData(emptyForm);
+        onFormOpen();
+    };
+
+    const handleUpdateSite = (site: FlyingSite) => {
+        setSelectedSite(site);
+        setFormData({
+            id: site.id,
+            name: site.name,
+            lat: site.coordinates.lat.toString(),
+            lon: site.coordinates.lon.toString(),
+            elevation: site.elevation.toString(),
+            difficulty: site.difficulty,
+            vhf_frequency: site.vhf_frequency || '',
+            radius_km: site.radius_km.toString(),
+            weather_station_id: site.weather_station_id || '',
+            is_active: site.is_active !== false,
+        });
+        onFormOpen();
+    };
+
+    const handleDeleteSite = (site: FlyingSite) => {
+        setSelectedSite(site);
+        onDeleteOpen();
+    };
+
+    const loadSiteChannels = async (siteId: string) => {
+        const response = await getJson(
+            `${import.meta.env.API_BASE_URL}/v1/sites/${siteId}/channels`,
+        ) as APIResponse<SiteChannelsResponse>;
+
+        setSiteChannels(response.data?.channels || []);
+    };
+
+    const handleManageChannels = async (site: FlyingSite) => {
+        setSelectedSite(site);
+        setSiteChannels([]);
+        onChannelsOpen();
+        try {
+            await loadSiteChannels(site.id);
+        } catch (err) {
+            console.error("Load site channels error:", err);
+            setError("Error loading site channels");
+        }
+    };
+
+    const submitSite = async () => {
+        const request: CreateFlyingSiteRequest = {
+            name: formData.name,
+            coordinates: {
+                lat: parseFloat(formData.lat),
+                lon: parseFloat(formData.lon),
+            },
+            elevation: parseInt(formData.elevation, 10),
+            difficulty: formData.difficulty,
+            vhf_frequency: formData.vhf_frequency || undefined,
+            radius_km: parseFloat(formData.radius_km) || 25,
+            weather_station_id: formData.weather_station_id || undefined,
+        };
+
+        try {
+            setSubmitting(true);
+            const response = selectedSite
+                ? await putJson(
+                    `${import.meta.env.API_BASE_URL}/v1/sites/${selectedSite.id}`,
+                    {
+                        ...request,
+                        // Empty fields clear the stored values
+                        vhf_frequency: formData.vhf_frequency || null,
+                        weather_station_id: formData.weather_station_id || null,
+                        is_active: formData.is_active,
+                    }
+                )
+                : await postJson(
+                    `${import.meta.env.API_BASE_URL}/v1/sites`,
+                    { ...request, id: formData.id || undefined }
+                );
+
+            if (response.success) {
+                await refreshSites();
+                onFormClose();
+                setError(null);
+            } else {
+                setError(response.error || "Failed to save site");
+            }
+        } catch (err) {
+            console.error("Save site error:", err);
+            setError("Error saving site");
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const submitDeleteSite = async () => {
+        if (!selectedSite) return;
+
+        try {
+            setSubmitting(true);
+            const response = await deleteJson(
+                `${import.meta.env.API_BASE_URL}/v1/sites/${selectedSite.id}`
+            );
+
+            if (response.success) {
+                await refreshSites();
+                onDeleteClose();
+                setSelectedSite(null);
+            } else {
+                setError(response.error || "Failed to delete site");
+            }
+        } catch (err) {
+            console.error("Delete site error:", err);
+            setError("Error deleting site");
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const attachChannel = async (channelUuid: string, isPrimary: boolean) => {
+        if (!selectedSite) return;
+
+        try {
+            setSubmitting(true);
+            const response = await postJson(
+                `${import.meta.env.API_BASE_URL}/v1/sites/${selectedSite.id}/channels`,
+                { channel_uuid: channelUuid, is_primary: isPrimary }
+            );
+
+            if (response.success) {
+                await loadSiteChannels(selectedSite.id);
+                await refreshSites();
+            } else {
+                setError(response.error || "Failed to attach channel");
+            }
+        } catch (err) {
+            console.error("Attach channel error:", err);
+            setError("Error attaching channel");
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const detachChannel = async (channelUuid: string) => {
+        if (!selectedSite) return;
+
+        try {
+            setSubmitting(true);
+            const response = await deleteJson(
+                `${import.meta.env.API_BASE_URL}/v1/sites/${selectedSite.id}/channels/${channelUuid}`
+            );
+
+            if (response.success) {
+                await loadSiteChannels(selectedSite.id);
+                await refreshSites();
+            } else {
+                setError(response.error || "Failed to detach channel");
+            }
+        } catch (err) {
+            console.error("Detach channel error:", err);
+            setError("Error detaching channel");
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const getStatusChip = (isActive: boolean) => {
+        const color = isActive ? "success" : "default";
+        const status = isActive ? "active" : "inactive";
+        return (
+            <Chip color={color} size="sm" variant="flat">
+                {t(status)}
+            </Chip>
+        );
+    };
+
+    const availableChannels = allChannels.filter(
+        (channel) => !siteChannels.some((siteChannel) => siteChannel.uuid === channel.uuid)
+    );
+
+    if (!isAuthenticated) {
+        return (
+            <DefaultLayout>
+                <div className="text-center">
+                    <h1 className={title()}>Not Authenticated</h1>
+                    <p>Please log in to access this page.</p>
+                </div>
+            </DefaultLayout>
+        );
+    }
+
+    if (!isAdminUser) {
+        return (
+            <DefaultLayout>
+                <div className="text-center">
+                    <h1 className={title()}>Access Denied</h1>
+                    <p>You do not have permission to access this page.</p>
+                </div>
+            </DefaultLayout>
+        );
+    }
+
+    return (
+        <DefaultLayout>
+            <section className="flex flex-col items-center justify-center gap-4 py-8 md:py-10">
+                <div className="inline-block max-w-xl text-center justify-center">
+                    <span className={title()}>{t("sites_administration")}</span>
+                </div>
+            </section>
+
+            <section className="flex flex-col gap-4 py-4">
+                <div className="flex justify-end">
+                    <Button
+                        color="primary"
+                        variant="solid"
+                        onPress={handleCreateSite}
+                    >
+                        {t("sites.create_site")}
+                    </Button>
+                </div>
+
+                {loading && (
+                    <div className="flex justify-center">
+                        <p>{t("loading")}</p>
+                    </div>
+                )}
+
+                {error && (
+                    <Card>
+                        <CardBody>
+                            <p className="text-danger">{t("error")}: {error}</p>
+                        </CardBody>
+                    </Card>
+                )}
+
+                {sites && sites.length > 0 && (
+                    <Card>
+                        <CardHeader className="flex gap-3">
+                            <div className="flex flex-col">
+                                <p className="text-md font-medium">{t("sites.sites")}</p>
+                                <p className="text-small text-default-500">
+                                    {sites.length} {sites.length === 1 ? t("sites.site") : t("sites.sites")}
+                                </p>
+                            </div>
+                        </CardHeader>
+                        <Divider />
+                        <CardBody>
+                            <Table aria-label="Sites table">
+                                <TableHeader>
+                                    <TableColumn>NAME</TableColumn>
+                                    <TableColumn>STATUS</TableColumn>
+                                    <TableColumn>ELEVATION</TableColumn>
+                                    <TableColumn>DIFFICULTY</TableColumn>
+                                    <TableColumn>FREQUENCY</TableColumn>
+                                    <TableColumn>CHANNELS</TableColumn>
+                                    <TableColumn>{t("actions").toUpperCase()}</TableColumn>
+                                </TableHeader>
+                                <TableBody>
+                                    {sites.map((site) => (
+                                        <TableRow key={site.id}>
+                                            <TableCell>{site.name}</TableCell>
+                                            <TableCell>{getStatusChip(site.is_active !== false)}</TableCell>
+                                            <TableCell>{site.elevation} m</TableCell>
+                                            <TableCell className="capitalize">{site.difficulty}</TableCell>
+                                            <TableCell>{site.vhf_frequency || "N/A"}</TableCell>
+                                            <TableCell>{site.associated_channels.length}</TableCell>
+                                            <TableCell>
+                                                <div className="flex gap-2">
+                                                    <Button
+                                                        size="sm"
+                                                        variant="light"
+                                                        color="primary"
+                                                        onPress={() => handleManageChannels(site)}
+                                                    >
+                                                        {t("sites.manage_channels")}
+                                                    </Button>
+                                                    <Button
+                                                        size="sm"
+                                                        variant="light"
+                                                        color="secondary"
+                                                        onPress={() => handleUpdateSite(site)}
+                                                    >
+                                                        {t("sites.edit_site")}
+                                                    </Button>
+                                                    <Button
+                                                        size="sm"
+                                                        variant="light"
+                                                        color="danger"
+                                                        onPress={() => handleDeleteSite(site)}
+                                                    >
+                                                        {t("sites.delete_site")}
+                                                    </Button>
+                                                </div>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </CardBody>
+                    </Card>
+                )}
+
+                {sites && sites.length === 0 && (
+                    <Card>
+                        <CardBody className="text-center py-8">
+                            <p className="text-default-500">{t("sites.no_sites_found")}</p>
+                            <Button
+                                color="primary"
+                                variant="ghost"
+                                className="mt-4"
+                                onPress={handleCreateSite}
+                            >
+                                {t("sites.create_first_site")}
+                            </Button>
+                        </CardBody>
+                    </Card>
+                )}
+            </section>
+
+            {/* Create / Update Site Modal */}
+            <Modal isOpen={isFormOpen} onClose={onFormClose} size="2xl">
+                <ModalContent>
+                    <ModalHeader>
+                        <h3>{selectedSite ? t("sites.update_site") : t("sites.create_site")}</h3>
+                    </ModalHeader>
+                    <ModalBody>
+                        <div className="flex flex-col gap-4">
+                            {!selectedSite && (
+                                <Input
+                                    label={t("sites.site_id")}
+                                    description={t("sites.site_id_hint")}
+                                    placeholder="planpraz"
+                                    value={formData.id}
+                                    onChange={(e) => setFormData({ ...formData, id: e.target.value })}
+                                />
+                            )}
+                            <Input
+                                label={t("sites.site_name")}
+                                placeholder="Planpraz"
+                                value={formData.name}
+                                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                                isRequired
+                            />
+                            <div className="flex gap-4">
+                                <Input
+                                    label={t("sites.latitude")}
+                                    type="number"
+                                    placeholder="45.9375"
+                                    value={formData.lat}
+                                    onChange={(e) => setFormData({ ...formData, lat: e.target.value })}
+                                    isRequired
+                                />
+                                <Input
+                                    label={t("sites.longitude")}
+                                    type="number"
+                                    placeholder="6.8569"
+                                    value={formData.lon}
+                                    onChange={(e) => setFormData({ ...formData, lon: e.target.value })}
+                                    isRequired
+                                />
+                            </div>
+                            <div className="flex gap-4">
+                                <Input
+                                    label={t("sites.elevation")}
+                                    type="number"
+                                    placeholder="2000"
+                                    value={formData.elevation}
+                                    onChange={(e) => setFormData({ ...formData, elevation: e.target.value })}
+                                    isRequired
+                                />
+                                <Input
+                                    label={t("sites.radius_km")}
+                                    type="number"
+                                    placeholder="25"
+                                    value={formData.radius_km}
+                                    onChange={(e) => setFormData({ ...formData, radius_km: e.target.value })}
+                                />
+                            </div>
+                            <div className="flex flex-col gap-2">
+                                <label className="text-small text-default-500">{t("difficulty")}</label>
+                                <Dropdown>
+                                    <DropdownTrigger>
+                                        <Button variant="bordered" className="capitalize">
+                                            {formData.difficulty}
+                                        </Button>
+                                    </DropdownTrigger>
+                                    <DropdownMenu
+                                        aria-label="Site difficulty selection"
+                                        selectionMode="single"
+                                        selectedKeys={[formData.difficulty]}
+                                        onSelectionChange={(keys: any) => {
+                                            const selected = Array.from(keys)[0] as ChannelDifficulty;
+                                            setFormData({ ...formData, difficulty: selected });
+                                        }}
+                                    >
+                                        <DropdownItem key="beginner">Beginner</DropdownItem>
+                                        <DropdownItem key="intermediate">Intermediate</DropdownItem>
+                                        <DropdownItem key="advanced">Advanced</DropdownItem>
+                                        <DropdownItem key="expert">Expert</DropdownItem>
+                                    </DropdownMenu>
+                                </Dropdown>
+                            </div>
+                            <div className="flex gap-4">
+                                <Input
+                                    label={t("vhf_frequency")}
+                                    placeholder="143.9875"
+                                    value={formData.vhf_frequency}
+                                    onChange={(e) => setFormData({ ...formData, vhf_frequency: e.target.value })}
+                                />
+                                <Input
+                                    label={t("sites.weather_station_id")}
+                                    placeholder="balise-planpraz"
+                                    value={formData.weather_station_id}
+                                    onChange={(e) => setFormData({ ...formData, weather_station_id: e.target.value })}
+                                />
+                            </div>
+                            {selectedSite && (
+                                <Switch
+                                    isSelected={formData.is_active}
+                                    onValueChange={(active) => setFormData({ ...formData, is_active: active })}
+                                >
+                                    {t("active")}
+                                </Switch>
+                            )}
+                        </div>
+                    </ModalBody>
+                    <ModalFooter>
+                        <Button
+                            color="danger"
+                            variant="light"
+                            onPress={onFormClose}
+                            isDisabled={submitting}
+                        >
+                            {t("cancel")}
+                        </Button>
+                        <Button
+                            color="primary"
+                            onPress={submitSite}
+                            isLoading={submitting}
+                        >
+                            {selectedSite ? t("sites.update_site") : t("sites.create_site")}
+                        </Button>
+                    </ModalFooter>
+                </ModalContent>
+            </Modal>
+
+            {/* Site Channels Modal */}
+            <Modal isOpen={isChannelsOpen} onClose={onChannelsClose} size="2xl">
+                <ModalContent>
+                    <ModalHeader>
+                        <h3>{t("sites.channels_of", { name: selectedSite?.name })}</h3>
+                    </ModalHeader>
+                    <ModalBody>
+                        {siteChannels.length === 0 ? (
+                            <p className="text-default-500">{t("sites.no_channels_attached")}</p>
+                        ) : (
+                            <Table aria-label="Site channels table" removeWrapper>
+                                <TableHeader>
+                                    <TableColumn>NAME</TableColumn>
+                                    <TableColumn>PRIMARY</TableColumn>
+                                    <TableColumn>{t("actions").toUpperCase()}</TableColumn>
+                                </TableHeader>
+                                <TableBody>
+                                    {siteChannels.map((channel) => (
+                                        <TableRow key={channel.uuid}>
+                                            <TableCell>{channel.name}</TableCell>
+                                            <TableCell>
+                                                <Switch
+                                                    size="sm"
+                                                    isSelected={channel.is_primary}
+                                                    isDisabled={submitting}
+                                                    onValueChange={(primary) => attachChannel(channel.uuid, primary)}
+                                                    aria-label={t("sites.primary")}
+                                                />
+                                            </TableCell>
+                                            <TableCell>
+                                                <Button
+                                                    size="sm"
+                                                    variant="light"
+                                                    color="danger"
+                                                    isDisabled={submitting}
+                                                    onPress={() => detachChannel(channel.uuid)}
+                                                >
+                                                    {t("sites.detach")}
+                                                </Button>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        )}
+                        {availableChannels.length > 0 && (
+                            <Dropdown>
+                                <DropdownTrigger>
+                                    <Button variant="bordered" isDisabled={submitting}>
+                                        {t("sites.attach_channel")}
+                                    </Button>
+                                </DropdownTrigger>
+                                <DropdownMenu
+                                    aria-label="Channel to attach"
+                                    onAction={(key) => attachChannel(key as string, siteChannels.length === 0)}
+                                >
+                                    {availableChannels.map((channel) => (
+                                        <DropdownItem key={channel.uuid}>{channel.name}</DropdownItem>
+                                    ))}
+                                </DropdownMenu>
+                            </Dropdown>
+                        )}
+                    </ModalBody>
+                    <ModalFooter>
+                        <Button
+                            color="primary"
+                            variant="light"
+                            onPress={onChannelsClose}
+                        >
+                            {t("sites.close")}
+                        </Button>
+                    </ModalFooter>
+                </ModalContent>
+            </Modal>
+
+            {/* Delete Site Modal */}
+            <Modal isOpen={isDeleteOpen} onClose={onDeleteClose}>
+                <ModalContent>
+                    <ModalHeader>
+                        <h3>{t("sites.delete_site")}</h3>
+                    </ModalHeader>
+                    <ModalBody>
+                        <p>
+                            {t("sites.delete_confirmation")} <strong>"{selectedSite?.name}"</strong>?
+                        </p>
+                    </ModalBody>
+                    <ModalFooter>
+                        <Button
+                            color="default"
+                            variant="light"
+                            onPress={onDeleteClose}
+                            isDisabled={submitting}
+                        >
+                            {t("cancel")}
+                        </Button>
+                        <Button
+                            color="danger"
+                            onPress={submitDeleteSite}
+                            isLoading={submitting}
+                        >
+                            {t("sites.delete_site")}
+                        </Button>
+                    </ModalFooter>
+                </ModalContent>
+            </Modal>
+        </DefaultLayout>
+    );
+}
@@ -0,0 +1,289 @@
+/**
+ * Adaptive jitter buffer for PTT audio playback
+ *
+ * Audio chunks may arrive out of order, in bursts or not at all. The buffer orders them by
+ * sequence and schedules them back to back on an audio timeline (the `AudioContext` clock in
+ * the web client), a little behind real time so that late chunks still find their slot.
+ * The playout delay adapts to the measured arrival jitter. A chunk still missing when its
+ * slot is reached is concealed and skipped, the buffer never waits for it. A chunk received
+ * but not playable (it could not be decoded) is skipped without concealment.
+ *
+ * The buffer does not depend on the Web Audio API: the clock and the playback are provided
+ * by the caller, so it can be driven by synthetic timelines in tests.
+ */
+
+/**
+ * Playback side of the jitter buffer
+ */
+export interface JitterBufferPlayer<T> {
+  /** Current time of the audio timeline, in seconds */
+  currentTime(): number;
+  /** Schedule a chunk to start at `startTime` on the audio timeline */
+  play(payload: T, startTime: number, sequence: number): void;
+  /** Fill the slot of a missing chunk, for instance with an attenuated copy of the previous one */
+  conceal(startTime: number, duration: number, sequence: number): void;
+  /** Called when missing chunks are detected, so they can be requested again */
+  requestMissing?(sequences: number[]): void;
+}
+
+export interface JitterBufferOptions {
+  /** Minimum playout delay in seconds (default 0.15) */
+  minDelay?: number;
+  /** Maximum playout delay in seconds (default 1.5) */
+  maxDelay?: number;
+  /** Duration used to conceal a chunk before any duration is known, in seconds (default 0.5) */
+  defaultChunkDuration?: number;
+  /** How long before its slot a missing chunk is concealed, in seconds (default 0.05) */
+  scheduleAhead?: number;
+}
+
+export interface JitterBufferStats {
+  played: number;
+  concealed: number;
+  late: number;
+  duplicates: number;
+  undecodable: number;
+  underruns: number;
+  jitter: number;
+  delay: number;
+}
+
+interface BufferedChunk<T> {
+  payload: T;
+  duration: number;
+}
+
+export class JitterBuffer<T> {
+  private readonly player: JitterBufferPlayer<T>;
+  private readonly minDelay: number;
+  private readonly maxDelay: number;
+  private readonly scheduleAhead: number;
+
+  // Null for a received chunk that cannot be played
+  private pending = new Map<number, BufferedChunk<T> | null>();
+  private nextSequence: number | null = null;
+  private nextStartTime = 0;
+  private lastDuration: number;
+  private requestedSequences = new Set<number>();
+
+  // Arrival jitter estimate (RFC 3550 style) and resulting playout delay
+  private lastArrival: number | null = null;
+  private lastArrivalDuration = 0;
+  private jitter = 0;
+  private delay: number;
+
+  private stats = {
+    played: 0,
+    concealed: 0,
+    late: 0,
+    duplicates: 0,
+    undecodable: 0,
+    underruns: 0,
+  };
+
+  constructor(
+    player: JitterBufferPlayer<T>,
+    options: JitterBufferOptions = {},
+  ) {
+    this.player = player;
+    this.minDelay = options.minDelay ?? 0.15;
+    this.maxDelay = options.maxDelay ?? 1.5;
+    this.scheduleAhead = options.scheduleAhead ?? 0.05;
+    this.lastDuration = options.defaultChunkDuration ?? 0.5;
+    this.delay = this.minDelay;
+  }
+
+  /**
+   * Add a received chunk
+   *
+   * @param sequence - Chunk sequence number
+   * @param payload - Decoded audio
+   * @param duration - Audio duration in seconds
+   */
+  push(sequence: number, payload: T, duration: number): void {
+    const now = this.player.currentTime();
+
+    this.updateJitter(now, duration);
+    this.add(now, sequence, { payload, duration });
+  }
+
+  /**
+   * Add a received chunk that cannot be played, for instance because it could not be decoded.
+   * Its slot is skipped without concealment and it is not requested again.
+   *
+   * @param sequence - Chunk sequence number
+   */
+  skip(sequence: number): void {
+    this.add(this.player.currentTime(), sequence, null);
+  }
+
+  /**
+   * Advance the buffer without a new chunk, concealing the missing chunks whose slot is reached.
+   * Must be called periodically (every few tens of milliseconds) while a transmission is heard.
+   */
+  tick(): void {
+    if (this.nextSequence === null) return;
+
+    this.schedule(this.player.currentTime());
+  }
+
+  /**
+   * Forget the current transmission, for instance when `transmission_ended` is received.
+   * The playout delay learned from the network conditions is kept for the next transmission.
+   */
+  reset(): void {
+    this.pending.clear();
+    this.requestedSequences.clear();
+    this.nextSequence = null;
+    this.nextStartTime = 0;
+    this.lastArrival = null;
+  }
+
+  /**
+   * Get playback statistics
+   */
+  getStats(): JitterBufferStats {
+    return { ...this.stats, jitter: this.jitter, delay: this.delay };
+  }
+
+  /**
+   * Store a received chunk and schedule what can be played
+   */
+  private add(
+    now: number,
+    sequence: number,
+    chunk: BufferedChunk<T> | null,
+  ): void {
+    if (this.nextSequence !== null && sequence < this.nextSequence) {
+      // Its slot is gone, it was concealed or already played
+      this.stats.late++;
+
+      return;
+    }
+
+    if (this.pending.has(sequence)) {
+      this.stats.duplicates++;
+
+      return;
+    }
+
+    this.pending.set(sequence, chunk);
+    this.requestedSequences.delete(sequence);
+
+    if (this.nextSequence === null) {
+      // First chunk of the transmission
+      this.nextSequence = sequence;
+      this.nextStartTime = now + this.delay;
+    }
+
+    this.detectMissing(sequence);
+    this.schedule(now);
+  }
+
+  /**
+   * Play the chunks in sequence order as long as they are available, and conceal the missing
+   * ones whose slot is about to be reached while later chunks are waiting
+   */
+  private schedule(now: number): void {
+    while (this.nextSequence !== null) {
+      const chunk = this.pending.get(this.nextSequence);
+
+      if (chunk === null) {
+        // Received but not playable, neither concealed nor requested again
+        this.pending.delete(this.nextSequence);
+        this.stats.undecodable++;
+        this.nextSequence++;
+        continue;
+      }
+
+      if (chunk) {
+        if (this.nextStartTime < now) {
+          // Buffer ran dry: restart behind real time with a larger delay
+          this.stats.underruns++;
+          this.delay = Math.min(this.maxDelay, this.delay * 1.5);
+          this.nextStartTime = now + this.delay;
+        }
+
+        this.pending.delete(this.nextSequence);
+        this.player.play(chunk.payload, this.nextStartTime, this.nextSequence);
+        this.stats.played++;
+        this.lastDuration = chunk.duration;
+        this.nextStartTime += chunk.duration;
+        this.nextSequence++;
+        continue;
+      }
+
+      // Nothing after the gap yet: it may be the end of the transmission, keep waiting
+      if (this.pending.size === 0) return;
+
+      // Wait for the missing chunk until its slot is reached
+      if (now < this.nextStartTime - this.scheduleAhead) return;
+
+      this.player.conceal(
+        Math.max(this.nextStartTime, now),
+        this.lastDuration,
+        this.nextSequence,
+      );
+      this.stats.concealed++;
+      this.requestedSequences.delete(this.nextSequence);
+      this.nextStartTime =
+        Math.max(this.nextStartTime, now) + this.lastDuration;
+      this.nextSequence++;
+    }
+  }
+
+  /**
+   * Report the sequences missing before a received chunk, once per sequence
+   */
+  private detectMissing(sequence: number): void {
+    if (this.nextSequence === null || !this.player.requestMissing) return;
+
+    const missing: number[] = [];
+
+    for (
+      let missingSequence = this.nextSequence;
+      missingSequence < sequence;
+      missingSequence++
+    ) {
+      if (
+        !this.pending.has(missingSequence) &&
+        !this.requestedSequences.has(missingSequence)
+      ) {
+        this.requestedSequences.add(missingSequence);
+        missing.push(missingSequence);
+      }
+    }
+
+    if (missing.length > 0) {
+      this.player.requestMissing(missing);
+    }
+  }
+
+  /**
+   * Update the arrival jitter estimate and the target playout delay.
+   * Chunks are expected to arrive one chunk duration apart, the jitter is the smoothed
+   * deviation from that cadence.
+   */
+  private updateJitter(now: number, duration: number): void {
+    if (this.lastArrival !== null) {
+      const deviation = Math.abs(
+        now - this.lastArrival - this.lastArrivalDuration,
+      );
+
+      this.jitter += (deviation - this.jitter) / 16;
+
+      // Grow at once when the network gets worse, shrink slowly when it gets better.
+      // The delay only applies when the timeline is (re)started, never in the middle of a stream.
+      const target = Math.min(
+        this.maxDelay,
+        Math.max(this.minDelay, 2 * this.jitter),
+      );
+
+      this.delay =
+        target > this.delay ? target : this.delay + (target - this.delay) / 32;
+    }
+
+    this.lastArrival = now;
+    this.lastArrivalDuration = duration;
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Local map projection for the channel map
+ *
+ * The channel map is drawn as plain SVG without any tile server, so it keeps working on a
+ * landing field without network. Positions are projected with an equirectangular projection
+ * centred on the channel: over the few kilometres of a flying site the distortion is far
+ * below the GPS accuracy.
+ *
+ * Tiles can still be drawn below the SVG layer by a `MapTileLayer`, the projection exposes
+ * the geographic bounds of the viewport for this purpose.
+ */
+
+import type { Coordinates } from "@/types/ptt";
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE = (Math.PI * EARTH_RADIUS_KM) / 180;
+
+/**
+ * Point in SVG user units, y grows downwards
+ */
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Projection of a geographic area on a drawing surface
+ */
+export interface MapViewport {
+  center: Coordinates;
+  /** Width of the drawing surface */
+  width: number;
+  /** Height of the drawing surface */
+  height: number;
+  /** Pixels per kilometre */
+  scale: number;
+}
+
+export interface MapViewportOptions {
+  /** Width of the drawing surface (default 400) */
+  width?: number;
+  /** Height of the drawing surface (default 400) */
+  height?: number;
+  /** Fraction of the surface kept free around the content (default 0.1) */
+  margin?: number;
+  /** Minimum half extent in kilometres, for channels without radius (default 1) */
+  minExtentKm?: number;
+}
+
+/**
+ * Geographic bounds of a viewport
+ */
+export interface MapBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+/**
+ * Optional raster layer drawn below the SVG overlay
+ *
+ * Implementations can serve tiles from a local cache or a bundled image, the map
+ * only renders what `render` returns.
+ */
+export interface MapTileLayer<T> {
+  render(viewport: MapViewport, bounds: MapBounds): T;
+}
+
+/**
+ * Timestamped position kept in a participant trail
+ */
+export interface TrailPoint extends Coordinates {
+  timestamp_ms: number;
+}
+
+export interface TrailOptions {
+  /** Maximum number of points kept (default 120) */
+  maxPoints?: number;
+  /** Maximum age of the points in milliseconds (default 10 minutes) */
+  maxAgeMs?: number;
+}
+
+/**
+ * Offset of a position from the center, in kilometres east and north
+ */
+function offsetKm(
+  center: Coordinates,
+  point: Coordinates,
+): { east: number; north: number } {
+  const cosLat = Math.cos((center.lat * Math.PI) / 180);
+
+  return {
+    east: (point.lon - center.lon) * KM_PER_DEGREE * cosLat,
+    north: (point.lat - center.lat) * KM_PER_DEGREE,
+  };
+}
+
+/**
+ * Create a viewport centred on `center` showing the radius and every point
+ */
+export function createViewport(
+  center: Coordinates,
+  radiusKm: number | undefined,
+  points: Coordinates[] = [],
+  options: MapViewportOptions = {},
+): MapViewport {
+  const width = options.width ?? 400;
+  const height = options.height ?? 400;
+  const margin = options.margin ?? 0.1;
+
+  let extentKm = Math.max(radiusKm ?? 0, options.minExtentKm ?? 1);
+
+  for (const point of points) {
+    const offset = offsetKm(center, point);
+
+    extentKm = Math.max(
+      extentKm,
+      Math.abs(offset.east),
+      Math.abs(offset.north),
+    );
+  }
+
+  const usable = (Math.min(width, height) / 2) * (1 - margin);
+
+  return { center, width, height, scale: usable / extentKm };
+}
+
+/**
+ * Project a position on the viewport
+ */
+export function projectPoint(
+  viewport: MapViewport,
+  point: Coordinates,
+): MapPoint {
+  const offset = offsetKm(viewport.center, point);
+
+  return {
+    x: viewport.width / 2 + offset.east * viewport.scale,
+    y: viewport.height / 2 - offset.north * viewport.scale,
+  };
+}
+
+/**
+ * Convert a distance to drawing units
+ */
+export function kmToPixels(viewport: MapViewport, km: number): number {
+  return km * viewport.scale;
+}
+
+/**
+ * Geographic bounds covered by the viewport
+ */
+export function viewportBounds(viewport: MapViewport): MapBounds {
+  const cosLat = Math.cos((viewport.center.lat * Math.PI) / 180);
+  const halfHeightDeg = viewport.height / 2 / viewport.scale / KM_PER_DEGREE;
+  const halfWidthDeg =
+    viewport.width / 2 / viewport.scale / (KM_PER_DEGREE * cosLat);
+
+  return {
+    north: viewport.center.lat + halfHeightDeg,
+    south: viewport.center.lat - halfHeightDeg,
+    east: viewport.center.lon + halfWidthDeg,
+    west: viewport.center.lon - halfWidthDeg,
+  };
+}
+
+/**
+ * Append a position to a trail, dropping the points that are too old or in excess
+ *
+ * Points older than the last one are ignored, the trail stays ordered by time.
+ * A new array is returned so the result can be stored in React state.
+ */
+export function appendTrailPoint(
+  trail: TrailPoint[],
+  point: TrailPoint,
+  options: TrailOptions = {},
+): TrailPoint[] {
+  const maxPoints = options.maxPoints ?? 120;
+  const maxAgeMs = options.maxAgeMs ?? 10 * 60 * 1000;
+  const last = trail[trail.length - 1];
+
+  if (last && point.timestamp_ms <= last.timestamp_ms) {
+    return trail;
+  }
+
+  const oldest = point.timestamp_ms - maxAgeMs;
+
+  return [...trail, point]
+    .filter((trailPoint) => trailPoint.timestamp_ms >= oldest)
+    .slice(-maxPoints);
+}
@@ -0,0 +1,64 @@
+/**
+ * WebM init segment of a received transmission
+ *
+ * The talker's MediaRecorder stream is cut in chunks where only the first one starts with the
+ * init segment (EBML header, segment info and tracks), the later ones only hold clusters that
+ * `decodeAudioData` cannot decode on their own. The init segment of the first chunk is kept
+ * and prepended to the following chunks of the transmission.
+ */
+
+const EBML_MAGIC = [0x1a, 0x45, 0xdf, 0xa3];
+const CLUSTER_ID = [0x1f, 0x43, 0xb6, 0x75];
+
+/**
+ * Find an element ID in WebM data
+ *
+ * @returns Offset of the ID, -1 if not found
+ */
+function indexOfId(bytes: Uint8Array, id: number[], from = 0): number {
+  for (let offset = from; offset <= bytes.length - id.length; offset++) {
+    if (id.every((byte, i) => bytes[offset + i] === byte)) return offset;
+  }
+
+  return -1;
+}
+
+export class WebmInitSegment {
+  private segment: Uint8Array | null = null;
+
+  /**
+   * Get a chunk ready to be decoded: a chunk starting with an init segment replaces the kept
+   * one and is returned as is, a chunk without one gets the kept init segment prepended
+   *
+   * @param chunk - Received WebM chunk
+   * @returns The decodable chunk, unchanged if no init segment was received yet
+   */
+  prepare(chunk: Uint8Array): Uint8Array {
+    if (indexOfId(chunk.subarray(0, EBML_MAGIC.length), EBML_MAGIC) === 0) {
+      const clusterOffset = indexOfId(chunk, CLUSTER_ID, EBML_MAGIC.length);
+
+      this.segment = chunk.slice(
+        0,
+        clusterOffset < 0 ? chunk.length : clusterOffset,
+      );
+
+      return chunk;
+    }
+
+    if (!this.segment) return chunk;
+
+    const prepared = new Uint8Array(this.segment.length + chunk.length);
+
+    prepared.set(this.segment);
+    prepared.set(chunk, this.segment.length);
+
+    return prepared;
+  }
+
+  /**
+   * Forget the init segment, when a transmission starts or ends
+   */
+  reset(): void {
+    this.segment = null;
+  }
+}
@@ -0,0 +1,261 @@
+import { describe, test, expect, beforeEach } from "vitest";
+
+import { JitterBuffer, JitterBufferPlayer } from "../src/utils/jitter-buffer";
+
+/**
+ * Synthetic audio timeline recording what the jitter buffer schedules
+ */
+class FakePlayer implements JitterBufferPlayer<string> {
+  now = 0;
+  events: Array<{
+    type: "play" | "conceal";
+    sequence: number;
+    startTime: number;
+    payload?: string;
+    duration?: number;
+  }> = [];
+  requested: number[][] = [];
+
+  currentTime(): number {
+    return this.now;
+  }
+
+  play(payload: string, startTime: number, sequence: number): void {
+    this.events.push({ type: "play", sequence, startTime, payload });
+  }
+
+  conceal(startTime: number, duration: number, sequence: number): void {
+    this.events.push({ type: "conceal", sequence, startTime, duration });
+  }
+
+  requestMissing(sequences: number[]): void {
+    this.requested.push(sequences);
+  }
+
+  sequences(): number[] {
+    return this.events.map((event) => event.sequence);
+  }
+}
+
+const CHUNK_DURATION = 0.5;
+
+describe("JitterBuffer", () => {
+  let player: FakePlayer;
+  let buffer: JitterBuffer<string>;
+
+  /** Deliver chunks following a timeline of [arrival time, sequence] pairs */
+  const deliver = (timeline: Array<[number, number]>) => {
+    for (const [arrival, sequence] of timeline) {
+      player.now = arrival;
+      buffer.tick();
+      buffer.push(sequence, `chunk-${sequence}`, CHUNK_DURATION);
+    }
+  };
+
+  beforeEach(() => {
+    player = new FakePlayer();
+    buffer = new JitterBuffer(player, { minDelay: 0.2 });
+  });
+
+  test("plays in-order chunks back to back after the playout delay", () => {
+    deliver([
+      [0, 1],
+      [0.5, 2],
+      [1, 3],
+    ]);
+
+    expect(
+      player.events.map((event) => [event.sequence, event.startTime]),
+    ).toEqual([
+      [1, 0.2],
+      [2, 0.7],
+      [3, 1.2],
+    ]);
+    expect(buffer.getStats().concealed).toBe(0);
+  });
+
+  test("reorders out-of-order chunks by sequence", () => {
+    deliver([
+      [0, 1],
+      [0.5, 3],
+      [0.55, 2],
+      [1.5, 4],
+    ]);
+
+    expect(player.sequences()).toEqual([1, 2, 3, 4]);
+    expect(player.events.every((event) => event.type === "play")).toBe(true);
+
+    const startTimes = player.events.map((event) => event.startTime);
+
+    for (let i = 1; i < startTimes.length; i++) {
+      expect(startTimes[i]).toBeCloseTo(startTimes[i - 1] + CHUNK_DURATION);
+    }
+  });
+
+  test("schedules a burst without overlapping chunks", () => {
+    deliver([
+      [0, 1],
+      [1.2, 2],
+      [1.2, 3],
+      [1.2, 4],
+    ]);
+
+    const startTimes = player.events.map((event) => event.startTime);
+
+    expect(player.sequences()).toEqual([1, 2, 3, 4]);
+    for (let i = 1; i < startTimes.length; i++) {
+      expect(startTimes[i]).toBeGreaterThanOrEqual(
+        startTimes[i - 1] + CHUNK_DURATION - 1e-9,
+      );
+    }
+  });
+
+  test("conceals a lost chunk when its slot is reached and requests it", () => {
+    deliver([
+      [0, 1],
+      [0.5, 2],
+      [1, 4],
+    ]);
+
+    expect(player.requested).toEqual([[3]]);
+    // Chunk 3 is still expected, its slot starts at 1.2
+    expect(player.sequences()).toEqual([1, 2]);
+
+    player.now = 1.16;
+    buffer.tick();
+
+    expect(player.events.map((event) => [event.type, event.sequence])).toEqual([
+      ["play", 1],
+      ["play", 2],
+      ["conceal", 3],
+      ["play", 4],
+    ]);
+    expect(player.events[2].startTime).toBeCloseTo(1.2);
+    expect(player.events[2].duration).toBe(CHUNK_DURATION);
+    expect(player.events[3].startTime).toBeCloseTo(1.7);
+    expect(buffer.getStats().concealed).toBe(1);
+  });
+
+  test("plays a retransmitted chunk arriving before its slot", () => {
+    deliver([
+      [0, 1],
+      [0.5, 2],
+      [0.6, 4],
+      [0.9, 3],
+    ]);
+
+    expect(player.sequences()).toEqual([1, 2, 3, 4]);
+    expect(buffer.getStats().concealed).toBe(0);
+  });
+
+  test("skips an undecodable chunk without concealing or requesting it", () => {
+    deliver([[0, 1]]);
+    player.now = 0.5;
+    buffer.skip(2);
+    deliver([[1, 3]]);
+
+    player.now = 2;
+    buffer.tick();
+
+    expect(player.requested).toEqual([]);
+    expect(player.events.map((event) => [event.type, event.sequence])).toEqual([
+      ["play", 1],
+      ["play", 3],
+    ]);
+    expect(buffer.getStats().concealed).toBe(0);
+    expect(buffer.getStats().undecodable).toBe(1);
+  });
+
+  test("stops waiting for a requested chunk that turns out undecodable", () => {
+    deliver([
+      [0, 1],
+      [0.5, 3],
+    ]);
+    player.now = 0.6;
+    buffer.skip(2);
+
+    expect(player.requested).toEqual([[2]]);
+    expect(player.sequences()).toEqual([1, 3]);
+    expect(buffer.getStats().concealed).toBe(0);
+  });
+
+  test("drops a chunk arriving after its slot was concealed", () => {
+    deliver([
+      [0, 1],
+      [0.5, 2],
+      [0.6, 4],
+    ]);
+    player.now = 1.2;
+    buffer.tick();
+    deliver([[1.3, 3]]);
+
+    expect(player.sequences()).toEqual([1, 2, 3, 4]);
+    expect(player.events[2].type).toBe("conceal");
+    expect(buffer.getStats().late).toBe(1);
+  });
+
+  test("ignores duplicate chunks", () => {
+    deliver([
+      [0, 1],
+      [0.3, 3],
+      [0.35, 3],
+    ]);
+
+    expect(buffer.getStats().duplicates).toBe(1);
+  });
+
+  test("waits at the end of the stream instead of concealing", () => {
+    deliver([
+      [0, 1],
+      [0.5, 2],
+    ]);
+    player.now = 5;
+    buffer.tick();
+
+    expect(player.sequences()).toEqual([1, 2]);
+    expect(buffer.getStats().concealed).toBe(0);
+  });
+
+  test("restarts behind real time with a larger delay after an underrun", () => {
+    deliver([
+      [0, 1],
+      [3, 2],
+    ]);
+
+    const stats = buffer.getStats();
+
+    expect(stats.underruns).toBe(1);
+    expect(stats.delay).toBeGreaterThan(0.2);
+    expect(player.events[1].startTime).toBeCloseTo(3 + stats.delay);
+  });
+
+  test("increases the playout delay with the arrival jitter", () => {
+    const jittery: Array<[number, number]> = [];
+
+    for (let sequence = 1; sequence <= 40; sequence++) {
+      const offset = sequence % 2 === 0 ? 0.4 : 0;
+
+      jittery.push([sequence * CHUNK_DURATION + offset, sequence]);
+    }
+    deliver(jittery);
+
+    expect(buffer.getStats().jitter).toBeGreaterThan(0.2);
+    expect(buffer.getStats().delay).toBeGreaterThan(0.4);
+  });
+
+  test("starts a new timeline after a reset", () => {
+    deliver([
+      [0, 1],
+      [0.5, 2],
+    ]);
+    buffer.reset();
+    deliver([
+      [10, 1],
+      [10.5, 2],
+    ]);
+
+    expect(player.sequences()).toEqual([1, 2, 1, 2]);
+    expect(player.events[2].startTime).toBeGreaterThanOrEqual(10.2);
+    expect(buffer.getStats().late).toBe(0);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, test, expect } from "vitest";
+
+import {
+  appendTrailPoint,
+  createViewport,
+  kmToPixels,
+  projectPoint,
+  viewportBounds,
+  TrailPoint,
+} from "../src/utils/map-projection";
+
+// Planfait take-off, Annecy
+const CENTER = { lat: 45.8542, lon: 6.2342 };
+
+describe("createViewport", () => {
+  test("fits the channel radius in the drawing surface", () => {
+    const viewport = createViewport(CENTER, 5, [], {
+      width: 400,
+      height: 400,
+      margin: 0,
+    });
+
+    expect(kmToPixels(viewport, 5)).toBeCloseTo(200);
+  });
+
+  test("zooms out to show participants outside the radius", () => {
+    const inside = createViewport(CENTER, 2, [], { margin: 0 });
+    const outside = createViewport(
+      CENTER,
+      2,
+      [{ lat: CENTER.lat + 0.09, lon: CENTER.lon }],
+      { margin: 0 },
+    );
+
+    expect(outside.scale).toBeLessThan(inside.scale);
+    expect(
+      projectPoint(outside, { lat: CENTER.lat + 0.09, lon: CENTER.lon }).y,
+    ).toBeCloseTo(0);
+  });
+
+  test("uses the minimum extent for channels without radius", () => {
+    const viewport = createViewport(CENTER, undefined, [], {
+      width: 200,
+      height: 200,
+      margin: 0,
+      minExtentKm: 2,
+    });
+
+    expect(kmToPixels(viewport, 2)).toBeCloseTo(100);
+  });
+});
+
+describe("projectPoint", () => {
+  const viewport = createViewport(CENTER, 5, [], { margin: 0 });
+
+  test("projects the center in the middle of the surface", () => {
+    expect(projectPoint(viewport, CENTER)).toEqual({ x: 200, y: 200 });
+  });
+
+  test("puts north up and east right", () => {
+    const north = projectPoint(viewport, {
+      lat: CENTER.lat + 0.01,
+      lon: CENTER.lon,
+    });
+    const east = projectPoint(viewport, {
+      lat: CENTER.lat,
+      lon: CENTER.lon + 0.01,
+    });
+
+    expect(north.y).toBeLessThan(200);
+    expect(north.x).toBeCloseTo(200);
+    expect(east.x).toBeGreaterThan(200);
+    expect(east.y).toBeCloseTo(200);
+  });
+
+  test("keeps distances consistent in both directions", () => {
+    // 0.045 degrees of latitude is about 5 km
+    const north = projectPoint(viewport, {
+      lat: CENTER.lat + 0.045,
+      lon: CENTER.lon,
+    });
+    const lonDelta = 0.045 / Math.cos((CENTER.lat * Math.PI) / 180);
+    const east = projectPoint(viewport, {
+      lat: CENTER.lat,
+      lon: CENTER.lon + lonDelta,
+    });
+
+    expect(200 - north.y).toBeCloseTo(east.x - 200, 5);
+    expect(200 - north.y).toBeCloseTo(kmToPixels(viewport, 5), 0);
+  });
+});
+
+describe("viewportBounds", () => {
+  test("matches the projection of the surface corners", () => {
+    const viewport = createViewport(CENTER, 3);
+    const bounds = viewportBounds(viewport);
+
+    expect(
+      projectPoint(viewport, { lat: bounds.north, lon: bounds.west }).x,
+    ).toBeCloseTo(0);
+    expect(
+      projectPoint(viewport, { lat: bounds.north, lon: bounds.west }).y,
+    ).toBeCloseTo(0);
+    expect(
+      projectPoint(viewport, { lat: bounds.south, lon: bounds.east }).x,
+    ).toBeCloseTo(viewport.width);
+    expect(
+      projectPoint(viewport, { lat: bounds.south, lon: bounds.east }).y,
+    ).toBeCloseTo(viewport.height);
+  });
+});
+
+describe("appendTrailPoint", () => {
+  const point = (timestamp_ms: number): TrailPoint => ({
+    ...CENTER,
+    timestamp_ms,
+  });
+
+  test("appends newer points", () => {
+    const trail = appendTrailPoint(
+      appendTrailPoint([], point(1000)),
+      point(2000),
+    );
+
+    expect(trail.map((p) => p.timestamp_ms)).toEqual([1000, 2000]);
+  });
+
+  test("ignores points older than the last one", () => {
+    const trail = [point(1000), point(2000)];
+
+    expect(appendTrailPoint(trail, point(1500))).toBe(trail);
+    expect(appendTrailPoint(trail, point(2000))).toBe(trail);
+  });
+
+  test("drops points older than the maximum age", () => {
+    const trail = appendTrailPoint([point(0), point(5000)], point(12000), {
+      maxAgeMs: 10000,
+    });
+
+    expect(trail.map((p) => p.timestamp_ms)).toEqual([5000, 12000]);
+  });
+
+  test("keeps at most the maximum number of points", () => {
+    let trail: TrailPoint[] = [];
+
+    for (let i = 1; i <= 10; i++) {
+      trail = appendTrailPoint(trail, point(i * 1000), { maxPoints: 3 });
+    }
+
+    expect(trail.map((p) => p.timestamp_ms)).toEqual([8000, 9000, 10000]);
+  });
+});
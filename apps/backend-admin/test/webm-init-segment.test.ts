@@ -0,0 +1,49 @@
+import { describe, test, expect, beforeEach } from "vitest";
+
+import { WebmInitSegment } from "../src/utils/webm-init-segment";
+
+// EBML header and segment start, then a cluster as cut by MediaRecorder
+const HEADER = [0x1a, 0x45, 0xdf, 0xa3, 0x01, 0x18, 0x53, 0x80, 0x67, 0x02];
+const CLUSTER = [0x1f, 0x43, 0xb6, 0x75, 0x03];
+
+describe("WebmInitSegment", () => {
+  let initSegment: WebmInitSegment;
+
+  beforeEach(() => {
+    initSegment = new WebmInitSegment();
+  });
+
+  test("keeps the first chunk as is", () => {
+    const first = new Uint8Array([...HEADER, ...CLUSTER]);
+
+    expect(initSegment.prepare(first)).toBe(first);
+  });
+
+  test("prepends the init segment of the first chunk to the next ones", () => {
+    initSegment.prepare(new Uint8Array([...HEADER, ...CLUSTER]));
+
+    expect(
+      Array.from(initSegment.prepare(new Uint8Array([...CLUSTER, 0x04]))),
+    ).toEqual([...HEADER, ...CLUSTER, 0x04]);
+  });
+
+  test("keeps a whole first chunk without cluster as the init segment", () => {
+    initSegment.prepare(new Uint8Array(HEADER));
+
+    expect(Array.from(initSegment.prepare(new Uint8Array(CLUSTER)))).toEqual([
+      ...HEADER,
+      ...CLUSTER,
+    ]);
+  });
+
+  test("leaves the chunks unchanged before any init segment and after a reset", () => {
+    const cluster = new Uint8Array(CLUSTER);
+
+    expect(initSegment.prepare(cluster)).toBe(cluster);
+
+    initSegment.prepare(new Uint8Array([...HEADER, ...CLUSTER]));
+    initSegment.reset();
+
+    expect(initSegment.prepare(cluster)).toBe(cluster);
+  });
+});
@@ -23,6 +23,9 @@ export default [
 				KVNamespace: "readonly",
 				DurableObject: "readonly",
 				DurableObjectState: "readonly",
+				SqlStorage: "readonly",
+				R2Bucket: "readonly",
+				R2ObjectBody: "readonly",
 				WebSocketPair: "readonly",
 			},
 			parserOptions: {
@@ -1,7 +1,7 @@
 /** @type {import('ts-jest').JestConfigWithTsJest} **/
 export default {
   testEnvironment: "node",
-  testMatch: ['**/test/**/*.api.test.ts'],
+  testMatch: ['**/test/**/*.test.ts'],
   transform: {
     "^.+\.tsx?$": ["ts-jest", { useESM: true }],
   },
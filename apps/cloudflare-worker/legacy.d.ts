@@ -1 +1,7 @@
 declare module "eslint-plugin-import";
+
+// WebAssembly modules, bundled precompiled by wrangler
+declare module "*.wasm" {
+	const module: WebAssembly.Module;
+	export default module;
+}
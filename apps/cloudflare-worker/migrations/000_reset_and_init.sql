@@ -4,6 +4,14 @@
 PRAGMA foreign_keys = OFF;
 
 -- Drop all tables if they exist
+DROP TABLE IF EXISTS pilot_checkins;
+DROP TABLE IF EXISTS channel_mutes;
+DROP TABLE IF EXISTS channel_roles;
+DROP TABLE IF EXISTS flight_transmissions;
+DROP TABLE IF EXISTS flights;
+DROP TABLE IF EXISTS participant_positions;
+DROP TABLE IF EXISTS incident_notifications;
+DROP TABLE IF EXISTS incidents;
 DROP TABLE IF EXISTS site_channels;
 DROP TABLE IF EXISTS flying_sites;
 DROP TABLE IF EXISTS transmission_history;
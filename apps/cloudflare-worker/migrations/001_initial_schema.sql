@@ -14,6 +14,9 @@ CREATE TABLE IF NOT EXISTS channels (
     max_participants INTEGER DEFAULT 50,
     difficulty TEXT CHECK (difficulty IN ('beginner', 'intermediate', 'advanced', 'expert')),
     is_active BOOLEAN DEFAULT TRUE,
+    recording_enabled BOOLEAN DEFAULT FALSE, -- Record transmissions to R2 for later replay
+    active_windows TEXT, -- JSON activation windows of scheduled channels, NULL when always available
+    checkin_deadline_minutes INTEGER, -- Landing check-in deadline of the site_local pilots, NULL for the default
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     created_by TEXT NOT NULL,
     updated_at DATETIME,
@@ -77,6 +80,8 @@ CREATE TABLE IF NOT EXISTS transmission_history (
     signal_strength INTEGER, -- Signal strength in dBm
     location_lat REAL,
     location_lon REAL,
+    recording_key TEXT, -- R2 object key of the transmission recording (recording enabled channels only)
+    target_user_ids TEXT, -- JSON array of the users addressed by a private call, NULL for the whole channel
     FOREIGN KEY (channel_uuid) REFERENCES channels (uuid) ON DELETE CASCADE
 );
 
@@ -114,6 +119,7 @@ CREATE TABLE IF NOT EXISTS user_preferences (
     favorite_sites TEXT, -- JSON array of site IDs
     auto_join_site_channels BOOLEAN DEFAULT TRUE,
     emergency_mode_enabled BOOLEAN DEFAULT TRUE,
+    share_location BOOLEAN DEFAULT TRUE, -- Opt-out of live location tracking
     vhf_backup_frequency TEXT,
     device_token TEXT, -- APNs device token for iOS notifications
     last_location_lat REAL,
@@ -122,6 +128,133 @@ CREATE TABLE IF NOT EXISTS user_preferences (
     updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Emergency incidents - Raised by emergency transmissions, tracked until rescuers close them
+CREATE TABLE IF NOT EXISTS incidents (
+    id TEXT PRIMARY KEY,
+    channel_uuid TEXT NOT NULL,
+    incident_type TEXT NOT NULL DEFAULT 'emergency' CHECK (incident_type IN ('emergency', 'overdue')),
+    session_id TEXT NOT NULL, -- Transmission that raised the incident, or check-in ID of an overdue pilot
+    user_id TEXT NOT NULL,
+    username TEXT NOT NULL,
+    location_lat REAL,
+    location_lon REAL,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'closed')),
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    acknowledged_at DATETIME,
+    acknowledged_by TEXT,
+    closed_at DATETIME,
+    closed_by TEXT,
+    notes TEXT,
+    FOREIGN KEY (channel_uuid) REFERENCES channels (uuid) ON DELETE CASCADE
+);
+
+-- Incident notifications - Delivery status of an incident per notifier (webhook, email, SMS)
+CREATE TABLE IF NOT EXISTS incident_notifications (
+    incident_id TEXT NOT NULL,
+    notifier TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+    attempts INTEGER DEFAULT 0,
+    last_error TEXT,
+    last_attempt_at DATETIME,
+    delivered_at DATETIME,
+    PRIMARY KEY (incident_id, notifier),
+    FOREIGN KEY (incident_id) REFERENCES incidents (id) ON DELETE CASCADE
+);
+
+-- Participant positions - Coarse track of the participants, purged after POSITION_RETENTION_HOURS
+CREATE TABLE IF NOT EXISTS participant_positions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    channel_uuid TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    username TEXT NOT NULL,
+    lat REAL NOT NULL,
+    lon REAL NOT NULL,
+    altitude_m REAL,
+    ground_speed_kmh REAL,
+    heading_deg REAL,
+    timestamp_ms INTEGER NOT NULL, -- Fix time reported by the device
+    recorded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (channel_uuid) REFERENCES channels (uuid) ON DELETE CASCADE
+);
+
+-- Flights - Tracks imported from the pilots varios
+CREATE TABLE IF NOT EXISTS flights (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    format TEXT NOT NULL CHECK (format IN ('igc', 'gpx')),
+    pilot_name TEXT,
+    glider_type TEXT,
+    glider_id TEXT,
+    site_name TEXT,
+    takeoff_time DATETIME NOT NULL,
+    landing_time DATETIME NOT NULL,
+    duration_seconds INTEGER NOT NULL,
+    takeoff_lat REAL NOT NULL,
+    takeoff_lon REAL NOT NULL,
+    landing_lat REAL NOT NULL,
+    landing_lon REAL NOT NULL,
+    max_altitude_m REAL,
+    point_count INTEGER NOT NULL, -- Fixes in the original file
+    track TEXT NOT NULL, -- JSON array of [timestamp_ms, lat, lon, altitude_m], downsampled for long flights
+    uploaded_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Flight transmissions - Transmissions of the pilot during a flight, positioned on the track
+CREATE TABLE IF NOT EXISTS flight_transmissions (
+    flight_id TEXT NOT NULL,
+    transmission_id INTEGER NOT NULL,
+    lat REAL NOT NULL,
+    lon REAL NOT NULL,
+    altitude_m REAL,
+    PRIMARY KEY (flight_id, transmission_id),
+    FOREIGN KEY (flight_id) REFERENCES flights (id) ON DELETE CASCADE,
+    FOREIGN KEY (transmission_id) REFERENCES transmission_history (id) ON DELETE CASCADE
+);
+
+-- Channel roles - Per-channel roles granted by an administrator
+CREATE TABLE IF NOT EXISTS channel_roles (
+    channel_uuid TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    username TEXT,
+    role TEXT NOT NULL DEFAULT 'moderator' CHECK (role IN ('moderator')),
+    granted_by TEXT NOT NULL,
+    granted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (channel_uuid, user_id),
+    FOREIGN KEY (channel_uuid) REFERENCES channels (uuid) ON DELETE CASCADE
+);
+
+-- Channel mutes - Participants whose floor requests are refused, until expires_at when set
+CREATE TABLE IF NOT EXISTS channel_mutes (
+    channel_uuid TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    muted_by TEXT NOT NULL,
+    reason TEXT,
+    muted_at DATETIME NOT NULL,
+    expires_at DATETIME, -- NULL until unmuted
+    PRIMARY KEY (channel_uuid, user_id),
+    FOREIGN KEY (channel_uuid) REFERENCES channels (uuid) ON DELETE CASCADE
+);
+
+-- Pilot check-ins - Flights of the pilots on site_local channels, until they check in landed
+CREATE TABLE IF NOT EXISTS pilot_checkins (
+    id TEXT PRIMARY KEY,
+    channel_uuid TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    username TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'flying' CHECK (status IN ('flying', 'landed', 'overdue')),
+    flying_since DATETIME, -- NULL for a landing reported without tracked flight
+    deadline_at DATETIME,
+    landed_at DATETIME,
+    landed_via TEXT CHECK (landed_via IN ('voice', 'text', 'button')),
+    checked_in_by TEXT, -- Moderator confirming a landing reported on the radio
+    location_lat REAL,
+    location_lon REAL,
+    incident_id TEXT, -- Incident raised when the pilot became overdue
+    updated_at DATETIME NOT NULL,
+    FOREIGN KEY (channel_uuid) REFERENCES channels (uuid) ON DELETE CASCADE
+);
+
 -- Indexes for performance optimization
 CREATE INDEX IF NOT EXISTS idx_channels_type ON channels(type);
 CREATE INDEX IF NOT EXISTS idx_channels_active ON channels(is_active);
@@ -140,6 +273,14 @@ CREATE INDEX IF NOT EXISTS idx_transmission_history_session_id ON transmission_h
 CREATE INDEX IF NOT EXISTS idx_transmission_history_channel_start_time ON transmission_history(channel_uuid, start_time);
 CREATE INDEX IF NOT EXISTS idx_flying_sites_coordinates ON flying_sites(coordinates_lat, coordinates_lon);
 CREATE INDEX IF NOT EXISTS idx_flying_sites_active ON flying_sites(is_active);
+CREATE INDEX IF NOT EXISTS idx_incidents_status ON incidents(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_incidents_user_channel ON incidents(user_id, channel_uuid, status);
+CREATE INDEX IF NOT EXISTS idx_participant_positions_channel_time ON participant_positions(channel_uuid, recorded_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_flights_user_takeoff ON flights(user_id, takeoff_time);
+CREATE INDEX IF NOT EXISTS idx_flight_transmissions_transmission ON flight_transmissions(transmission_id);
+CREATE INDEX IF NOT EXISTS idx_channel_roles_user ON channel_roles(user_id);
+CREATE INDEX IF NOT EXISTS idx_pilot_checkins_channel_user ON pilot_checkins(channel_uuid, user_id, status);
+CREATE INDEX IF NOT EXISTS idx_pilot_checkins_deadline ON pilot_checkins(status, deadline_at);
 
 -- Insert default emergency channel
 INSERT OR IGNORE INTO channels (
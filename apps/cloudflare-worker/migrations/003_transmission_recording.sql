@@ -0,0 +1,7 @@
+-- Migration to support server-side recording of transmissions
+-- Recording is enabled per channel, recordings are stored in the PTT_RECORDINGS R2 bucket
+
+ALTER TABLE channels ADD COLUMN recording_enabled BOOLEAN DEFAULT FALSE;
+
+-- R2 object key of the transmission recording
+ALTER TABLE transmission_history ADD COLUMN recording_key TEXT;
@@ -0,0 +1,38 @@
+-- Migration to support the escalation of emergency transmissions
+-- An incident is created when an emergency transmission starts and is sent to the configured notifiers
+
+-- Emergency incidents - Raised by emergency transmissions, tracked until rescuers close them
+CREATE TABLE IF NOT EXISTS incidents (
+    id TEXT PRIMARY KEY,
+    channel_uuid TEXT NOT NULL,
+    session_id TEXT NOT NULL, -- Transmission that raised the incident
+    user_id TEXT NOT NULL,
+    username TEXT NOT NULL,
+    location_lat REAL,
+    location_lon REAL,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'closed')),
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    acknowledged_at DATETIME,
+    acknowledged_by TEXT,
+    closed_at DATETIME,
+    closed_by TEXT,
+    notes TEXT,
+    FOREIGN KEY (channel_uuid) REFERENCES channels (uuid) ON DELETE CASCADE
+);
+
+-- Incident notifications - Delivery status of an incident per notifier (webhook, email, SMS)
+CREATE TABLE IF NOT EXISTS incident_notifications (
+    incident_id TEXT NOT NULL,
+    notifier TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+    attempts INTEGER DEFAULT 0,
+    last_error TEXT,
+    last_attempt_at DATETIME,
+    delivered_at DATETIME,
+    PRIMARY KEY (incident_id, notifier),
+    FOREIGN KEY (incident_id) REFERENCES incidents (id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_incidents_status ON incidents(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_incidents_user_channel ON incidents(user_id, channel_uuid, status);
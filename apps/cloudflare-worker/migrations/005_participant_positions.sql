@@ -0,0 +1,23 @@
+-- Migration to support live participant location tracking
+-- Positions sent over the channel WebSocket are kept at a coarse interval for the retention window
+
+-- Per-user opt-out of location sharing
+ALTER TABLE user_preferences ADD COLUMN share_location BOOLEAN DEFAULT TRUE;
+
+-- Participant positions - Coarse track of the participants, purged after POSITION_RETENTION_HOURS
+CREATE TABLE IF NOT EXISTS participant_positions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    channel_uuid TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    username TEXT NOT NULL,
+    lat REAL NOT NULL,
+    lon REAL NOT NULL,
+    altitude_m REAL,
+    ground_speed_kmh REAL,
+    heading_deg REAL,
+    timestamp_ms INTEGER NOT NULL, -- Fix time reported by the device
+    recorded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (channel_uuid) REFERENCES channels (uuid) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_participant_positions_channel_time ON participant_positions(channel_uuid, recorded_at);
@@ -0,0 +1,39 @@
+-- Migration to import the pilots flight tracks (IGC / GPX)
+-- A flight is linked to the transmissions of the pilot made during the flight
+
+-- Flights - Tracks imported from the pilots varios
+CREATE TABLE IF NOT EXISTS flights (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    format TEXT NOT NULL CHECK (format IN ('igc', 'gpx')),
+    pilot_name TEXT,
+    glider_type TEXT,
+    glider_id TEXT,
+    site_name TEXT,
+    takeoff_time DATETIME NOT NULL,
+    landing_time DATETIME NOT NULL,
+    duration_seconds INTEGER NOT NULL,
+    takeoff_lat REAL NOT NULL,
+    takeoff_lon REAL NOT NULL,
+    landing_lat REAL NOT NULL,
+    landing_lon REAL NOT NULL,
+    max_altitude_m REAL,
+    point_count INTEGER NOT NULL, -- Fixes in the original file
+    track TEXT NOT NULL, -- JSON array of [timestamp_ms, lat, lon, altitude_m], downsampled for long flights
+    uploaded_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Flight transmissions - Transmissions of the pilot during a flight, positioned on the track
+CREATE TABLE IF NOT EXISTS flight_transmissions (
+    flight_id TEXT NOT NULL,
+    transmission_id INTEGER NOT NULL,
+    lat REAL NOT NULL,
+    lon REAL NOT NULL,
+    altitude_m REAL,
+    PRIMARY KEY (flight_id, transmission_id),
+    FOREIGN KEY (flight_id) REFERENCES flights (id) ON DELETE CASCADE,
+    FOREIGN KEY (transmission_id) REFERENCES transmission_history (id) ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_flights_user_takeoff ON flights(user_id, takeoff_time);
+CREATE INDEX IF NOT EXISTS idx_flight_transmissions_transmission ON flight_transmissions(transmission_id);
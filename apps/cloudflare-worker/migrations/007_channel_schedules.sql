@@ -0,0 +1,6 @@
+-- Migration to support scheduled channels
+-- Competitions and club sessions open their channels only during activation windows,
+-- a cron trigger flips is_active at the window boundaries
+
+-- JSON array of activation windows (ChannelActiveWindow), NULL when the channel is not scheduled
+ALTER TABLE channels ADD COLUMN active_windows TEXT;
@@ -0,0 +1,29 @@
+-- Migration to support channel moderators
+-- Moderators granted per channel by an administrator can mute, kick and force-end
+-- transmissions, every action is audited in channel_messages
+
+-- Channel roles - Per-channel roles granted by an administrator
+CREATE TABLE IF NOT EXISTS channel_roles (
+    channel_uuid TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    username TEXT,
+    role TEXT NOT NULL DEFAULT 'moderator' CHECK (role IN ('moderator')),
+    granted_by TEXT NOT NULL,
+    granted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (channel_uuid, user_id),
+    FOREIGN KEY (channel_uuid) REFERENCES channels (uuid) ON DELETE CASCADE
+);
+
+-- Channel mutes - Participants whose floor requests are refused, until expires_at when set
+CREATE TABLE IF NOT EXISTS channel_mutes (
+    channel_uuid TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    muted_by TEXT NOT NULL,
+    reason TEXT,
+    muted_at DATETIME NOT NULL,
+    expires_at DATETIME, -- NULL until unmuted
+    PRIMARY KEY (channel_uuid, user_id),
+    FOREIGN KEY (channel_uuid) REFERENCES channels (uuid) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_channel_roles_user ON channel_roles(user_id);
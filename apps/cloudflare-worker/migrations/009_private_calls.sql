@@ -0,0 +1,5 @@
+-- Migration to support private calls within a channel
+-- A transmission started with target_user_ids is only heard by the talker and its targets
+
+-- JSON array of the targeted user IDs, NULL for a transmission heard by the whole channel
+ALTER TABLE transmission_history ADD COLUMN target_user_ids TEXT;
@@ -0,0 +1,31 @@
+-- Migration to support the landing check-in of the pilots
+-- Pilots of site_local channels are tracked as flying once they transmit or move, and must check
+-- in landed before a deadline, the overdue pilots raise an incident
+
+-- Check-in deadline in minutes after the start of a flight, NULL for the default deadline
+ALTER TABLE channels ADD COLUMN checkin_deadline_minutes INTEGER;
+
+-- Origin of the incident, overdue incidents keep the check-in ID in session_id
+ALTER TABLE incidents ADD COLUMN incident_type TEXT NOT NULL DEFAULT 'emergency' CHECK (incident_type IN ('emergency', 'overdue'));
+
+-- Pilot check-ins - Flights of the pilots on site_local channels, until they check in landed
+CREATE TABLE IF NOT EXISTS pilot_checkins (
+    id TEXT PRIMARY KEY,
+    channel_uuid TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    username TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'flying' CHECK (status IN ('flying', 'landed', 'overdue')),
+    flying_since DATETIME, -- NULL for a landing reported without tracked flight
+    deadline_at DATETIME,
+    landed_at DATETIME,
+    landed_via TEXT CHECK (landed_via IN ('voice', 'text', 'button')),
+    checked_in_by TEXT, -- Moderator confirming a landing reported on the radio
+    location_lat REAL,
+    location_lon REAL,
+    incident_id TEXT, -- Incident raised when the pilot became overdue
+    updated_at DATETIME NOT NULL,
+    FOREIGN KEY (channel_uuid) REFERENCES channels (uuid) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_pilot_checkins_channel_user ON pilot_checkins(channel_uuid, user_id, status);
+CREATE INDEX IF NOT EXISTS idx_pilot_checkins_deadline ON pilot_checkins(status, deadline_at);
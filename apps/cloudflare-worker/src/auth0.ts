@@ -81,3 +81,62 @@ export const checkPermissions = async (
 
 	return { access, payload };
 };
+
+/**
+ * Check if a token grants access to a given channel
+ * Access is granted by the channel specific permission ({ACCESS_PERMISSION_PREFIX}{uuid}) or by the admin permission
+ * @param token a JWT token
+ * @param channelUuid the channel UUID
+ * @param env the environment variables
+ * @returns a promise that resolves to an object with a boolean access field and the payload of the JWT token
+ */
+export const checkChannelAccess = async (
+	token: string,
+	channelUuid: string,
+	env: Env,
+): Promise<{ access: boolean; payload: jose.JWTPayload }> => {
+	const payload = await verifyToken(token, env);
+
+	return { access: hasChannelAccess(payload, channelUuid, env), payload };
+};
+
+/**
+ * Check if the payload of a verified JWT token grants access to a channel
+ * @param payload the payload of a verified JWT token
+ * @param channelUuid the channel UUID
+ * @param env the environment variables
+ * @returns true if the token has the access:{uuid} permission or the admin permission
+ */
+export const hasChannelAccess = (
+	payload: jose.JWTPayload,
+	channelUuid: string,
+	env: Env,
+): boolean => {
+	const permissions = (payload.permissions as string[]) || [];
+	const requiredPermission = `${env.ACCESS_PERMISSION_PREFIX}${channelUuid.toLowerCase()}`;
+
+	// access:{uuid} permissions may carry an uppercase UUID, compare them case-insensitively
+	return (
+		permissions.includes(env.ADMIN_PERMISSION) ||
+		permissions.some((p) => p.toLowerCase() === requiredPermission)
+	);
+};
+
+/**
+ * Display name of a user whose token carries no name, email or nickname claim
+ */
+export const UNKNOWN_USERNAME = "Unknown User";
+
+/**
+ * Get the display name of the user from the claims of a verified JWT token
+ * @param payload the payload of a verified JWT token
+ * @returns the name, email or nickname claim, or UNKNOWN_USERNAME if none is present
+ */
+export const getUsernameFromPayload = (payload: jose.JWTPayload): string => {
+	return (
+		(payload.name as string) ||
+		(payload.email as string) ||
+		(payload.nickname as string) ||
+		UNKNOWN_USERNAME
+	);
+};
@@ -25,12 +25,69 @@
 import {
 	LiveTransmission,
 	AudioChunk,
+	AudioFormat,
+	AudioFrame,
+	AudioFrameUtils,
+	NetworkQuality,
+	ConnectedParticipant,
+	ConnectedParticipantAttachment,
+	QueuedFloorRequest,
+	PTTFloorRequestMessage,
+	PTTRetransmitRequestMessage,
+	PTTTransmissionCommandMessage,
+	PTTAckMessage,
+	PTTNackMessage,
 	PTTWebSocketMessage,
 	PTTStartTransmissionRequest,
 	PTTAudioChunkRequest,
 	PTTEndTransmissionRequest,
+	PTTWebSocketProtocol,
 	TransmissionAuditLog,
+	EmergencyIncident,
+	Coordinates,
+	PTTRelayStartRequest,
+	TransmissionRelaySource,
+	ParticipantPosition,
+	PTTPositionUpdateRequestMessage,
+	ChannelActiveWindow,
+	ChannelModerationRequest,
+	ChannelModerationResult,
+	PTTModerateCommandMessage,
+	PTTScannedMessage,
+	PTTTransmissionStartedMessage,
+	PTTTransmissionEndedMessage,
+	PTTTextMessageCommandMessage,
+	ChannelTextMessageRequest,
+	ChannelTextMessageResult,
+	PilotCheckin,
+	PilotCheckinMethod,
+	PilotCheckinResult,
+	PTTCheckInCommandMessage,
+	PTTAudioChunkMessage,
 } from "../types/ptt";
+import { checkChannelAccess, getUsernameFromPayload } from "../auth0";
+import { ChannelService } from "../services/channel-service";
+import { IncidentService } from "../services/incident-service";
+import { ModerationService } from "../services/moderation-service";
+import { MessageService } from "../services/message-service";
+import { CheckinService } from "../services/checkin-service";
+import { createIncidentNotifiers } from "../services/incident-notifiers";
+import { UserPreferencesService } from "../services/user-preferences-service";
+import { AudioTranscoder } from "../services/audio-transcoder";
+import { isWithinActiveWindows } from "../utils/channel-schedule";
+import { findMissingChunks } from "../utils/chunk-retransmission";
+import { isCallListener, resolveCallTargets } from "../utils/private-call";
+import { isMoving } from "../utils/pilot-checkin";
+import {
+	getTranscodedSampleRate,
+	parseAudioFormats,
+	selectListenerFormat,
+} from "../utils/audio-transcoding";
+import {
+	decodeBase64Audio,
+	encodeBase64Audio,
+	putRecording,
+} from "../utils/audio-recording";
 import { DurableObject } from "cloudflare:workers";
 
 /**
@@ -40,11 +97,34 @@ import { DurableObject } from "cloudflare:workers";
  * supporting both HTTP API endpoints and high-performance RPC methods for real-time communication.
  *
  * Key Features:
- * - Real-time audio chunk broadcasting via WebSocket
+ * - Real-time audio chunk broadcasting via WebSocket, as binary frames or base64 JSON
+ *   depending on the negotiated subprotocol
+ * - Audio transcoding between AAC-LC, Opus and PCM for the listeners that cannot play the
+ *   format of the talker, each chunk being encoded once per format
+ * - Retransmission requests for lost chunks, from the Durable Object to the talker and from
+ *   listeners to the Durable Object buffer
  * - Ephemeral audio storage for late-joining participants
- * - Automatic transmission cleanup and timeout handling
+ * - Catch-up replay of the transmissions missed during the last minutes
+ * - Automatic transmission cleanup and timeout handling through Durable Object alarms
+ * - Channel state persisted in SQLite storage and WebSocket Hibernation API support,
+ *   so the floor holder and participants survive hibernation and eviction
  * - Comprehensive audit logging for compliance
- * - Support for emergency transmissions
+ * - Optional recording of transmissions to R2 for replay (per-channel setting)
+ * - Floor control with a FIFO request queue and emergency preemption
+ * - Private calls: the audio of a transmission with targets only reaches the talker and the
+ *   targeted participants, the others only see that the channel is busy
+ * - Live map feed of the participant positions, rate-limited and persisted at a coarse interval
+ * - Channel moderation: muted participants are refused the floor, moderators can kick
+ *   participants and force-end the current transmission
+ * - Text messages and canned messages, stored in D1 and delivered to the participants in real time
+ * - Landing check-ins on site_local channels: pilots are tracked as flying from their first
+ *   transmission or movement until they check in landed, overdue pilots are reported to the
+ *   moderators and escalated as incidents
+ * - Scanner subscriptions: the transmissions are forwarded to the scanner connections of the
+ *   users listening to several channels at once (see {@link PTTScannerDurableObject})
+ * - Support for emergency transmissions, escalated as incidents to the configured notifiers
+ *   and mirrored in real time to the regional emergency channel and to the channels covering
+ *   the talker position
  * - DRY (Don't Repeat Yourself) architecture with shared business logic
  *
  * @example
@@ -70,19 +150,14 @@ export class PTTChannelDurableObject extends DurableObject {
 	/** Environment bindings (KV, D1, etc.) */
 	public env: Env;
 
-	/** Current active transmission state, null if no transmission in progress */
-	private activeTransmission: LiveTransmission | null = null;
+	/** SQLite storage of the Durable Object, survives hibernation and eviction */
+	private sql: SqlStorage;
 
-	/** Map of connected participants with their WebSocket connections */
-	private connectedParticipants = new Map<
-		string,
-		{
-			userId: string;
-			username: string;
-			websocket: WebSocket;
-			joinedAt: number;
-		}
-	>();
+	/**
+	 * Current active transmission state, null if no transmission in progress.
+	 * In-memory cache of the `active_transmission` and `audio_chunks` SQLite tables.
+	 */
+	private activeTransmission: LiveTransmission | null = null;
 
 	/** Maximum duration allowed for a single transmission (30 seconds) */
 	private readonly MAX_TRANSMISSION_DURATION_MS = 30000;
@@ -96,11 +171,76 @@ export class PTTChannelDurableObject extends DurableObject {
 	/** Interval for periodic cleanup of expired audio chunks (30 seconds) */
 	private readonly CLEANUP_INTERVAL_MS = 30000;
 
+	/**
+	 * Time allowed to the talker to retransmit a missing chunk before it is considered lost,
+	 * configured with the RETRANSMISSION_WINDOW_MS variable (2 seconds by default)
+	 */
+	private readonly RETRANSMISSION_WINDOW_MS: number;
+
+	/** Maximum number of chunks requested in a single retransmission request */
+	private readonly MAX_RETRANSMISSION_REQUEST_SIZE = 50;
+
+	/** How long ended transmissions are kept for catch-up replay (10 minutes) */
+	private readonly CATCH_UP_WINDOW_MS = 10 * 60 * 1000;
+
+	/** Maximum time a floor request waits in the queue before expiring (60 seconds) */
+	private readonly FLOOR_REQUEST_TIMEOUT_MS = 60000;
+
+	/** Reason sent when a normal transmission is ended to let an emergency transmission through */
+	private readonly EMERGENCY_PREEMPTION_REASON =
+		"Preempted by emergency transmission";
+
+	/** Reason sent when a moderator ends a transmission */
+	private readonly MODERATION_END_REASON = "Ended by a moderator";
+
+	/** Minimum interval between two positions of a participant fanned out to the channel (2 seconds) */
+	private readonly POSITION_UPDATE_INTERVAL_MS = 2000;
+
+	/** Interval at which the participant positions are persisted to D1 (1 minute) */
+	private readonly POSITION_PERSIST_INTERVAL_MS = 60000;
+
+	/** Age of the last known positions sent to joining participants (5 minutes) */
+	private readonly POSITION_FEED_WINDOW_MS = 5 * 60 * 1000;
+
+	/** Minimum interval between two checks of the flight of a participant (5 minutes) */
+	private readonly FLIGHT_TRACKING_INTERVAL_MS = 5 * 60 * 1000;
+
+	/**
+	 * How long persisted positions are kept, configured with the POSITION_RETENTION_HOURS
+	 * variable (24 hours by default)
+	 */
+	private readonly POSITION_RETENTION_HOURS: number;
+
+	/**
+	 * Pending calls mirroring the emergency transmission into other channels, chained so that
+	 * the other channels get the start, the chunks and the end in order
+	 */
+	private relayQueue: Promise<void> = Promise.resolve();
+
+	/**
+	 * Pending deliveries to the scanners listening to the channel, chained so that each scanner
+	 * gets the start, the chunks and the end of a transmission in order
+	 */
+	private scannerQueue: Promise<void> = Promise.resolve();
+
+	/**
+	 * Last check of the flight of each user, lost on hibernation which only costs an extra check
+	 */
+	private flightTrackedAt = new Map<string, number>();
+
+	/**
+	 * Transcoder of the active transmission, created when a listener needs another format than
+	 * the one of the talker. Lost on eviction, the next one is primed with the recent chunks.
+	 */
+	private audioTranscoder: AudioTranscoder | null = null;
+
 	/**
 	 * Creates a new PTTChannelDurableObject instance.
 	 *
 	 * Initializes the Durable Object with the provided state and environment,
-	 * and starts the periodic cleanup process for expired audio chunks.
+	 * creates the SQLite tables if needed and restores any transmission that was in progress
+	 * before the object was hibernated or evicted. Connected participants are restored
+	 * by the WebSocket Hibernation API itself (see {@link getConnectedParticipants}).
 	 *
 	 * @param state - The Durable Object state for persistence and storage
 	 * @param env - Environment bindings including KV, D1 database, and other resources
@@ -109,9 +249,13 @@ export class PTTChannelDurableObject extends DurableObject {
 		super(state, env);
 		this.state = state;
 		this.env = env;
+		this.sql = state.storage.sql;
+		this.RETRANSMISSION_WINDOW_MS =
+			Number(env.RETRANSMISSION_WINDOW_MS) || 2000;
+		this.POSITION_RETENTION_HOURS = Number(env.POSITION_RETENTION_HOURS) || 24;
 
-		// Start periodic cleanup of expired chunks
-		this.startPeriodicCleanup();
+		this.initializeStorage();
+		this.activeTransmission = this.loadActiveTransmission();
 	}
 
 	/**
@@ -121,67 +265,158 @@ export class PTTChannelDurableObject extends DurableObject {
 	 * sets up event handlers, and synchronizes the participant with any ongoing transmission.
 	 *
 	 * Process:
-	 * 1. Validates required parameters (userId, username, token)
-	 * 2. Creates WebSocket pair and accepts server connection
-	 * 3. Registers participant in connected participants map
-	 * 4. Sets up message and close event handlers
-	 * 5. Notifies other participants of new join
-	 * 6. Synchronizes with any active transmission (sends recent chunks)
+	 * 1. Validates required parameters (channelUuid, ephemeralPushToken, token) and negotiates
+	 *    the subprotocol (`ptt.binary.v1` or `ptt.json.v1`, JSON when none is offered)
+	 *    and the `audioFormats` the participant can play, by preference (any format when missing)
+	 * 2. Verifies the JWT token and checks access:{uuid} or admin permission
+	 * 3. Verifies that the ephemeral push token was registered by the token owner when joining
+	 * 4. Creates WebSocket pair and accepts server connection
+	 * 5. Registers participant in connected participants map
+	 * 6. Sets up message and close event handlers
+	 * 7. Notifies other participants of new join
+	 * 8. Replays the transmissions of the last `catchUpMinutes` minutes if requested
+	 * 9. Synchronizes with any active transmission (sends recent chunks, in the format of the
+	 *    participant when they were transcoded)
+	 *
+	 * The participant identity (user ID and username) is always taken from the JWT claims,
+	 * client-supplied `userId` and `username` query parameters are ignored.
 	 *
 	 * @param request - The WebSocket upgrade request
 	 * @returns Promise resolving to WebSocket upgrade response
 	 *
-	 * @throws Will return 400 response if required parameters are missing
+	 * @throws Will return 400 response if required parameters are missing, no offered
+	 *   subprotocol is supported or an audio format is unknown
+	 * @throws Will return 401 response if the token is missing or invalid
+	 * @throws Will return 403 response if the token does not grant access to the channel
 	 *
 	 * @example
 	 * ```typescript
 	 * // WebSocket URL format
-	 * const wsUrl = `wss://worker.example.com/ptt/channel/${channelUuid}/ws?userId=user123&username=John&token=jwt-token`;
+	 * const wsUrl = `wss://worker.example.com/ptt/channel/${channelUuid}/ws?ephemeralPushToken=web_abc&token=jwt-token`;
 	 * const ws = new WebSocket(wsUrl);
+	 *
+	 * // Binary audio frames, falling back to JSON on servers without binary support
+	 * const binaryWs = new WebSocket(wsUrl, ["ptt.binary.v1", "ptt.json.v1"]);
+	 *
+	 * // Reconnecting pilot asking for the transmissions missed during the last 5 minutes
+	 * const catchUpWs = new WebSocket(`${wsUrl}&catchUpMinutes=5`);
+	 *
+	 * // iOS listener playing AAC-LC, or PCM transcoded by the worker
+	 * const iosWs = new WebSocket(`${wsUrl}&audioFormats=aac-lc,pcm`);
 	 * ```
 	 */
 	private async handleWebSocketUpgrade(request: Request): Promise<Response> {
 		const url = new URL(request.url);
-		const userId = url.searchParams.get("userId");
-		const username = url.searchParams.get("username");
+		const channelUuid = url.searchParams.get("channelUuid");
 		const ephemeralPushToken = url.searchParams.get("ephemeralPushToken");
-		const token = url.searchParams.get("token");
+		const catchUpMinutes = Number(url.searchParams.get("catchUpMinutes") || 0);
+		const audioFormats = parseAudioFormats(
+			url.searchParams.get("audioFormats"),
+		);
+		const token =
+			url.searchParams.get("token") ||
+			request.headers.get("Authorization")?.replace(/^Bearer /, "");
+
+		if (!token) {
+			return new Response("Missing required parameter: token", { status: 401 });
+		}
+
+		if (!channelUuid || !ephemeralPushToken) {
+			return new Response("Missing required parameter: ephemeralPushToken", {
+				status: 400,
+			});
+		}
+
+		if (audioFormats.error) {
+			return new Response(audioFormats.error, { status: 400 });
+		}
+
+		const requestedProtocols = request.headers.get("Sec-WebSocket-Protocol");
+		const protocol = AudioFrameUtils.negotiateProtocol(requestedProtocols);
+
+		if (!protocol) {
+			return new Response(
+				`Unsupported WebSocket subprotocol, expected ${AudioFrameUtils.BINARY_PROTOCOL} or ${AudioFrameUtils.JSON_PROTOCOL}`,
+				{ status: 400 },
+			);
+		}
+
+		let userId: string;
+		let username: string;
+		let isAdmin: boolean;
+
+		try {
+			const { access, payload } = await checkChannelAccess(
+				token,
+				channelUuid,
+				this.env,
+			);
+
+			if (!access) {
+				return new Response(
+					`Access denied - missing permission: ${this.env.ACCESS_PERMISSION_PREFIX}${channelUuid}`,
+					{ status: 403 },
+				);
+			}
+
+			if (!payload.sub) {
+				return new Response("Unauthorized", { status: 401 });
+			}
+
+			userId = payload.sub;
+			username = getUsernameFromPayload(payload);
+			isAdmin = ((payload.permissions as string[]) || []).includes(
+				this.env.ADMIN_PERMISSION,
+			);
+		} catch (error) {
+			console.error("WebSocket token validation error:", error);
 
-		if (!userId || !username || !ephemeralPushToken || !token) {
-			return new Response("Missing required parameters: userId, username, ephemeralPushToken, token", { status: 400 });
+			return new Response("Unauthorized", { status: 401 });
 		}
 
-		// TODO: Validate JWT token
-		// const isValid = await this.validateToken(token);
-		// if (!isValid) return new Response('Unauthorized', { status: 401 });
+		// The ephemeral push token identifies a device, it must belong to the authenticated user
+		const isRegisteredDevice = await this.isRegisteredDevice(
+			channelUuid,
+			userId,
+			ephemeralPushToken,
+		);
+
+		if (!isRegisteredDevice) {
+			return new Response(
+				"Participant not found for this ephemeralPushToken. Please join the channel first.",
+				{ status: 403 },
+			);
+		}
 
 		const webSocketPair = new WebSocketPair();
 		const [client, server] = Object.values(webSocketPair);
 
-		// Accept WebSocket connection
-		server.accept();
+		// A device reconnecting replaces its previous connection
+		for (const previousSocket of this.state.getWebSockets(ephemeralPushToken)) {
+			try {
+				previousSocket.serializeAttachment(null);
+				previousSocket.close(1000, "Replaced by a new connection");
+			} catch (error) {
+				console.error("Failed to close previous WebSocket:", error);
+			}
+		}
+
+		// Accept WebSocket connection through the Hibernation API, tagged with the
+		// ephemeralPushToken (unique device identifier) and the user ID
+		this.state.acceptWebSocket(server, [ephemeralPushToken, `user:${userId}`]);
 
-		// Add participant to connected list using ephemeralPushToken as unique identifier
-		this.connectedParticipants.set(ephemeralPushToken, {
+		const attachment: ConnectedParticipantAttachment = {
 			userId,
 			username,
-			websocket: server,
+			channelUuid,
+			ephemeralPushToken,
 			joinedAt: Date.now(),
-		});
-
-		// Set up WebSocket event handlers
-		server.addEventListener("message", (event) => {
-			this.handleWebSocketMessage(ephemeralPushToken, event.data as string);
-		});
+			protocol,
+			isAdmin,
+			audioFormats: audioFormats.formats,
+		};
 
-		server.addEventListener("close", () => {
-			this.connectedParticipants.delete(ephemeralPushToken);
-			this.broadcastToParticipants({
-				type: "participant_leave",
-				userId,
-				timestamp: Date.now(),
-			});
-		});
+		server.serializeAttachment(attachment);
 
 		// Notify other participants of new join
 		this.broadcastToParticipants(
@@ -194,6 +429,14 @@ export class PTTChannelDurableObject extends DurableObject {
 			[userId],
 		); // Exclude the joining user
 
+		// Replay the transmissions missed while disconnected
+		if (catchUpMinutes > 0) {
+			this.sendCatchUp(ephemeralPushToken, catchUpMinutes);
+		}
+
+		// Fill the live map with the last known positions
+		this.sendRecentPositions(ephemeralPushToken);
+
 		// Send current transmission state to new participant
 		if (this.activeTransmission) {
 			this.sendToParticipant(ephemeralPushToken, {
@@ -205,26 +448,39 @@ export class PTTChannelDurableObject extends DurableObject {
 					user_id: this.activeTransmission.userId,
 					username: this.activeTransmission.username,
 					audio_format: this.activeTransmission.audioFormat,
+					sample_rate: this.activeTransmission.sampleRate,
 					is_emergency: this.activeTransmission.isEmergency,
+					relayed_from: this.activeTransmission.relayedFrom,
+					target_user_ids: this.activeTransmission.targetUserIds,
 				},
 			});
 
-			// Send recent audio chunks for late joiner
+			// Send recent audio chunks for late joiner, unless a private call does not include them
 			const now = Date.now();
+			const canHear = isCallListener(
+				userId,
+				this.activeTransmission.userId,
+				this.activeTransmission.targetUserIds,
+			);
 
-			for (const [sequence, bufferedChunk] of this.activeTransmission
-				.audioChunks) {
-				if (now < bufferedChunk.expires) {
+			for (const bufferedChunk of this.activeTransmission.audioChunks.values()) {
+				const data =
+					canHear && now < bufferedChunk.expires
+						? this.getListenerChunkData(
+								this.activeTransmission.sessionId,
+								bufferedChunk.chunk.sequence,
+								bufferedChunk.chunk.data,
+								audioFormats.formats,
+							)
+						: null;
+
+				if (data) {
 					this.sendToParticipant(ephemeralPushToken, {
 						type: "audio_chunk",
 						session_id: this.activeTransmission.sessionId,
 						channel_uuid: this.activeTransmission.channelUuid,
 						timestamp_ms: bufferedChunk.chunk.timestamp,
-						data: {
-							sequence: bufferedChunk.chunk.sequence,
-							audio_data: bufferedChunk.chunk.data,
-							size_bytes: bufferedChunk.chunk.sizeBytes,
-						},
+						data: { sequence: bufferedChunk.chunk.sequence, ...data },
 					});
 				}
 			}
@@ -233,856 +489,4218 @@ export class PTTChannelDurableObject extends DurableObject {
 		return new Response(null, {
 			status: 101,
 			webSocket: client,
+			// Only confirm a subprotocol when the client offered some
+			headers: requestedProtocols ? { "Sec-WebSocket-Protocol": protocol } : {},
 		});
 	}
 
 	/**
-	 * Handles incoming WebSocket messages from participants.
+	 * WebSocket Hibernation API handler for incoming messages.
 	 *
-	 * Currently supports basic ping/pong for connection health monitoring.
-	 * Designed to be extensible for future features like participant controls,
-	 * transmission management, or custom commands.
+	 * Called by the runtime for every message received on an accepted WebSocket, waking the
+	 * Durable Object up if it was hibernated. The sender is identified by its attachment.
+	 * Binary messages carrying an audio frame are audio chunk uploads, other messages are JSON.
 	 *
-	 * @param ephemeralPushToken - The ephemeral push token of the client who sent the message
-	 * @param data - The raw message data (expected to be JSON string)
+	 * @param ws - The WebSocket that received the message
+	 * @param message - The raw message data
+	 */
+	async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer) {
+		const participant =
+			ws.deserializeAttachment() as ConnectedParticipantAttachment | null;
+
+		if (!participant) return;
+
+		if (typeof message !== "string") {
+			const frame = AudioFrameUtils.decode(message);
+
+			if (frame) {
+				await this.handleAudioFrame(participant, frame);
+
+				return;
+			}
+		}
+
+		await this.handleWebSocketMessage(
+			participant.ephemeralPushToken,
+			typeof message === "string" ? message : new TextDecoder().decode(message),
+		);
+	}
+
+	/**
+	 * WebSocket Hibernation API handler for closed connections.
 	 *
-	 * @example
-	 * ```typescript
-	 * // Ping message from client
-	 * ws.send(JSON.stringify({ type: "ping", timestamp: Date.now() }));
+	 * Notifies the remaining participants that the user left the channel.
 	 *
-	 * // Future: Custom commands
-	 * ws.send(JSON.stringify({ type: "mute", targetUserId: "user123" }));
-	 * ```
+	 * @param ws - The WebSocket that was closed
+	 * @param code - Close code sent by the client
+	 * @param reason - Close reason sent by the client
 	 */
-	private async handleWebSocketMessage(ephemeralPushToken: string, data: string) {
+	async webSocketClose(ws: WebSocket, code: number, reason: string) {
+		const participant =
+			ws.deserializeAttachment() as ConnectedParticipantAttachment | null;
+
+		// Reciprocate the close handshake
 		try {
-			const message = JSON.parse(data);
+			ws.close(code, reason);
+		} catch {
+			// Already closed
+		}
 
-			// Handle different message types
-			switch (message.type) {
-				case "ping":
-					this.sendToParticipant(ephemeralPushToken, {
-						type: "pong",
-						session_id: "",
-						channel_uuid: this.activeTransmission?.channelUuid || "",
-						timestamp_ms: Date.now(),
-						data: {},
-					});
-					break;
+		// Connections replaced by a newer one from the same device have no attachment anymore
+		if (!participant) return;
 
-				default:
-					console.warn("Unknown WebSocket message type:", message.type);
-			}
-		} catch (error) {
-			console.error("Error handling WebSocket message:", error);
-			this.sendToParticipant(ephemeralPushToken, {
-				type: "error",
-				session_id: "",
-				channel_uuid: this.activeTransmission?.channelUuid || "",
-				timestamp_ms: Date.now(),
-				data: {
-					message: "Invalid message format",
-				},
-			});
+		ws.serializeAttachment(null);
+
+		// A user without any remaining connection cannot be granted the floor anymore
+		if (!this.isUserConnected(participant.userId)) {
+			this.removeFloorRequest(participant.userId);
 		}
+
+		this.broadcastToParticipants({
+			type: "participant_leave",
+			userId: participant.userId,
+			timestamp: Date.now(),
+		});
 	}
 
 	/**
-	 * Common business logic for starting a PTT transmission (DRY principle).
+	 * WebSocket Hibernation API handler for connection errors.
 	 *
-	 * This method contains the core logic for initiating a new PTT transmission,
-	 * shared between HTTP handlers and RPC methods to ensure consistent behavior.
+	 * @param ws - The WebSocket that errored
+	 * @param error - The error raised by the runtime
+	 */
+	async webSocketError(ws: WebSocket, error: unknown) {
+		console.error("WebSocket error:", error);
+		await this.webSocketClose(ws, 1011, "WebSocket error");
+	}
+
+	/**
+	 * Handles an audio chunk uploaded as a binary frame over the WebSocket.
 	 *
-	 * Process:
-	 * 1. Validates that no transmission is currently active
-	 * 2. Validates required user information
-	 * 3. Generates unique session ID
-	 * 4. Creates and initializes transmission state
-	 * 5. Sets up automatic cleanup timeout
-	 * 6. Broadcasts transmission start to all participants
+	 * The frame references the active transmission through its session ID hash, it is then
+	 * processed like a `chunk` command and answered with an `ack` or a `nack`.
 	 *
-	 * @param request - Transmission start request with user and audio parameters
-	 * @param request.user_id - Unique identifier of the transmitting user
-	 * @param request.username - Display name of the transmitting user
-	 * @param request.channel_uuid - Target channel identifier
-	 * @param request.audio_format - Audio encoding format (e.g., "opus", "aac")
-	 * @param request.sample_rate - Audio sample rate in Hz
-	 * @param request.bitrate - Audio bitrate in bps
-	 * @param request.network_quality - Network quality indicator
-	 * @param request.location - Optional geographic location
-	 * @param request.is_emergency - Whether this is an emergency transmission
+	 * @param participant - Attachment of the sending WebSocket
+	 * @param frame - Decoded audio frame
 	 *
-	 * @returns Promise resolving to transmission start result
+	 * @private
+	 */
+	private async handleAudioFrame(
+		participant: ConnectedParticipantAttachment,
+		frame: AudioFrame,
+	) {
+		const sessionId =
+			this.activeTransmission &&
+			AudioFrameUtils.hashSessionId(this.activeTransmission.sessionId) ===
+				frame.header.sessionHash
+				? this.activeTransmission.sessionId
+				: "";
+
+		await this.handleChunkCommand(participant, {
+			session_id: sessionId,
+			chunk_sequence: frame.header.sequence,
+			audio_data: encodeBase64Audio(frame.payload),
+			chunk_size_bytes: frame.payload.length,
+			timestamp_ms: frame.header.timestampMs,
+		});
+	}
+
+	/**
+	 * Handles the `start`, `chunk` and `end` transmission commands sent over the WebSocket.
 	 *
-	 * @throws Will return error if transmission already active or validation fails
+	 * The talker is already authenticated by its WebSocket, so the commands skip the HTTP API
+	 * (JWT verification, rate limiting, RPC) and go straight to the shared transmission logic.
+	 * Every command is answered with an `ack` or a `nack` echoing its `request_id`.
 	 *
-	 * @example
-	 * ```typescript
-	 * const result = await this.startPTTTransmissionLogic({
-	 *   channel_uuid: "channel-123",
-	 *   user_id: "user-456",
-	 *   username: "John Doe",
-	 *   audio_format: "opus",
-	 *   sample_rate: 48000,
-	 *   is_emergency: false
-	 * });
-	 * ```
+	 * @param ephemeralPushToken - The ephemeral push token of the client who sent the command
+	 * @param message - The transmission command
+	 *
+	 * @private
 	 */
-	private async startPTTTransmissionLogic(request: PTTStartTransmissionRequest & {
-		user_id: string;
-		username: string;
-	}): Promise<{
-		success: boolean;
-		error?: string;
-		session_id?: string;
-		max_duration_ms?: number;
-		chunk_size_limit_bytes?: number;
-	}> {
-		try {
-			// Validate request
-			if (this.activeTransmission) {
-				return {
-					success: false,
-					error: "Another transmission is already active in this channel",
-				};
-			}
+	private async handleTransmissionCommand(
+		ephemeralPushToken: string,
+		message: PTTTransmissionCommandMessage,
+	) {
+		const participant = this.getConnectedParticipants().get(ephemeralPushToken);
 
-			if (!request.user_id || !request.username) {
-				return {
-					success: false,
-					error: "User ID and username are required",
-				};
+		if (!participant) return;
+
+		switch (message.type) {
+			case "start": {
+				if (!["aac-lc", "opus", "pcm"].includes(message.audio_format)) {
+					this.sendCommandNack(participant, "", {
+						command: "start",
+						request_id: message.request_id,
+						error: "Valid audio_format is required (aac-lc, opus, pcm)",
+					});
+
+					return;
+				}
+
+				const result = await this.startPTTTransmissionLogic({
+					channel_uuid: participant.channelUuid,
+					audio_format: message.audio_format,
+					sample_rate: message.sample_rate,
+					bitrate: message.bitrate,
+					network_quality: message.network_quality,
+					device_info: message.device_info,
+					expected_duration: message.expected_duration,
+					location: message.location,
+					is_emergency: message.is_emergency,
+					target_user_ids: message.target_user_ids,
+					user_id: participant.userId,
+					username: participant.username,
+				});
+
+				if (result.success && result.session_id) {
+					this.sendCommandAck(participant, result.session_id, {
+						command: "start",
+						request_id: message.request_id,
+						max_duration_ms: result.max_duration_ms,
+						chunk_size_limit_bytes: result.chunk_size_limit_bytes,
+					});
+				} else {
+					this.sendCommandNack(participant, "", {
+						command: "start",
+						request_id: message.request_id,
+						error: result.error || "Failed to start transmission",
+					});
+				}
+				break;
 			}
 
-			// Generate session ID
-			const sessionId = this.generateSessionId(request.user_id, request.channel_uuid);
+			case "chunk":
+				await this.handleChunkCommand(
+					participant,
+					{
+						session_id: message.session_id,
+						chunk_sequence: message.chunk_sequence,
+						audio_data: message.audio_data,
+						chunk_size_bytes: message.chunk_size_bytes,
+						timestamp_ms: message.timestamp_ms || Date.now(),
+					},
+					message.request_id,
+				);
+				break;
 
-			// Create live transmission
-			this.activeTransmission = {
-				sessionId,
-				channelUuid: request.channel_uuid,
-				userId: request.user_id,
-				username: request.username,
-				startTime: Date.now(),
-				audioFormat: request.audio_format,
-				sampleRate: request.sample_rate,
-				bitrate: request.bitrate,
-				networkQuality: request.network_quality,
-				location: request.location,
-				isEmergency: request.is_emergency || false,
-				audioChunks: new Map(),
-				participants: new Set(),
-				expectedSequence: 1,
-				totalBytes: 0,
-			};
+			case "end": {
+				if (!this.isFloorHolder(participant, message.session_id)) {
+					this.sendCommandNack(participant, message.session_id, {
+						command: "end",
+						request_id: message.request_id,
+						error: "Invalid or expired session",
+					});
 
-			// Set auto-cleanup after max duration
-			this.activeTransmission.cleanupTimeout = setTimeout(() => {
-				this.forceEndTransmission("Maximum duration exceeded");
-			}, this.MAX_TRANSMISSION_DURATION_MS) as any;
+					return;
+				}
 
-			// Broadcast start to all connected participants
-			this.broadcastToParticipants({
-				type: "transmission_started",
-				session_id: sessionId,
-				channel_uuid: request.channel_uuid,
-				timestamp_ms: Date.now(),
-				data: {
-					user_id: request.user_id,
-					username: request.username,
-					audio_format: request.audio_format,
-					is_emergency: request.is_emergency || false,
-				},
-			});
+				const result = await this.endPTTTransmissionLogic({
+					session_id: message.session_id,
+					total_duration_ms: message.total_duration_ms,
+					total_chunks: message.total_chunks,
+				});
+
+				if (result.success) {
+					this.sendCommandAck(participant, message.session_id, {
+						command: "end",
+						request_id: message.request_id,
+						session_summary: result.session_summary,
+					});
+				} else {
+					this.sendCommandNack(participant, message.session_id, {
+						command: "end",
+						request_id: message.request_id,
+						error: result.error || "Failed to end transmission",
+					});
+				}
+				break;
+			}
+		}
+	}
+
+	/**
+	 * Process an audio chunk uploaded over the WebSocket, as a `chunk` command or a binary frame.
+	 *
+	 * Only the floor holder can upload chunks. The answer carries the chunk sequence and the
+	 * next expected sequence so the talker can detect lost chunks.
+	 *
+	 * @param participant - Sender of the chunk
+	 * @param request - Audio chunk
+	 * @param requestId - Client identifier of the command, echoed in the answer
+	 *
+	 * @private
+	 */
+	private async handleChunkCommand(
+		participant: ConnectedParticipantAttachment,
+		request: PTTAudioChunkRequest,
+		requestId?: string,
+	) {
+		if (!this.isFloorHolder(participant, request.session_id)) {
+			this.sendCommandNack(participant, request.session_id, {
+				command: "chunk",
+				request_id: requestId,
+				sequence: request.chunk_sequence,
+				error: "Invalid or expired session",
+			});
+
+			return;
+		}
+
+		const result = await this.handleAudioChunkLogic(request);
+
+		if (result.success) {
+			this.sendCommandAck(participant, request.session_id, {
+				command: "chunk",
+				request_id: requestId,
+				sequence: request.chunk_sequence,
+				next_expected_sequence: result.next_expected_sequence,
+			});
+		} else {
+			this.sendCommandNack(participant, request.session_id, {
+				command: "chunk",
+				request_id: requestId,
+				sequence: request.chunk_sequence,
+				next_expected_sequence: this.activeTransmission?.expectedSequence,
+				error: result.error || "Failed to process audio chunk",
+			});
+		}
+	}
+
+	/**
+	 * Check whether a participant holds the floor for a transmission session.
+	 *
+	 * @param participant - Participant to check
+	 * @param sessionId - Transmission session ID
+	 * @returns True if the session is the active transmission and the participant its talker
+	 *
+	 * @private
+	 */
+	private isFloorHolder(
+		participant: ConnectedParticipantAttachment,
+		sessionId: string,
+	): boolean {
+		return (
+			this.activeTransmission !== null &&
+			this.activeTransmission.sessionId === sessionId &&
+			this.activeTransmission.userId === participant.userId
+		);
+	}
+
+	/**
+	 * Answer a transmission command with an `ack`.
+	 *
+	 * @param participant - Sender of the command
+	 * @param sessionId - Transmission session ID
+	 * @param data - Acknowledgement details
+	 *
+	 * @private
+	 */
+	private sendCommandAck(
+		participant: ConnectedParticipantAttachment,
+		sessionId: string,
+		data: PTTAckMessage["data"],
+	) {
+		this.sendToParticipant(participant.ephemeralPushToken, {
+			type: "ack",
+			session_id: sessionId,
+			channel_uuid: participant.channelUuid,
+			timestamp_ms: Date.now(),
+			data,
+		});
+	}
+
+	/**
+	 * Answer a transmission command with a `nack`.
+	 *
+	 * @param participant - Sender of the command
+	 * @param sessionId - Transmission session ID
+	 * @param data - Rejection details
+	 *
+	 * @private
+	 */
+	private sendCommandNack(
+		participant: ConnectedParticipantAttachment,
+		sessionId: string,
+		data: PTTNackMessage["data"],
+	) {
+		this.sendToParticipant(participant.ephemeralPushToken, {
+			type: "nack",
+			session_id: sessionId,
+			channel_uuid: participant.channelUuid,
+			timestamp_ms: Date.now(),
+			data,
+		});
+	}
+
+	/**
+	 * Handles a `moderate` command sent over the WebSocket.
+	 *
+	 * Only administrators and the moderators of the channel may moderate it. The command is
+	 * answered with an `ack` carrying the session ID of the transmission ended by the action,
+	 * if any, or a `nack`.
+	 *
+	 * @param ephemeralPushToken - The ephemeral push token of the client who sent the command
+	 * @param message - The moderation command
+	 *
+	 * @private
+	 */
+	private async handleModerateCommand(
+		ephemeralPushToken: string,
+		message: PTTModerateCommandMessage,
+	) {
+		const participant = this.getConnectedParticipants().get(ephemeralPushToken);
+
+		if (!participant) return;
+
+		const isModerator =
+			participant.isAdmin ||
+			(await new ModerationService(this.env.PTT_DB).isModerator(
+				participant.channelUuid,
+				participant.userId,
+			));
+
+		const result: ChannelModerationResult = isModerator
+			? await this.applyModeration(
+					participant.channelUuid,
+					{
+						userId: participant.userId,
+						username: participant.username,
+						isAdmin: Boolean(participant.isAdmin),
+					},
+					{
+						action: message.action,
+						target_user_id: message.target_user_id,
+						duration_minutes: message.duration_minutes,
+						reason: message.reason,
+					},
+				)
+			: {
+					success: false,
+					error: "Only the moderators of this channel can moderate it",
+				};
+
+		if (result.success) {
+			this.sendCommandAck(participant, result.entry?.session_id || "", {
+				command: "moderate",
+				request_id: message.request_id,
+			});
+		} else {
+			this.sendCommandNack(participant, "", {
+				command: "moderate",
+				request_id: message.request_id,
+				error: result.error || "Failed to apply moderation action",
+			});
+		}
+	}
+
+	/**
+	 * Handles a `text_message` command sent over the WebSocket.
+	 *
+	 * The message is stored and delivered to every participant, the sender included, then the
+	 * command is answered with an `ack` carrying the message ID or a `nack`.
+	 *
+	 * @param ephemeralPushToken - The ephemeral push token of the client who sent the command
+	 * @param message - The text message command
+	 *
+	 * @private
+	 */
+	private async handleTextMessageCommand(
+		ephemeralPushToken: string,
+		message: PTTTextMessageCommandMessage,
+	) {
+		const participant = this.getConnectedParticipants().get(ephemeralPushToken);
+
+		if (!participant) return;
+
+		const result = await this.postTextMessage(
+			participant.channelUuid,
+			{ user_id: participant.userId, username: participant.username },
+			{
+				content: message.content,
+				canned_message_id: message.canned_message_id,
+				location: message.location,
+			},
+		);
+
+		if (result.success && result.message) {
+			this.sendCommandAck(participant, "", {
+				command: "text_message",
+				request_id: message.request_id,
+				message_id: result.message.id,
+			});
+		} else {
+			this.sendCommandNack(participant, "", {
+				command: "text_message",
+				request_id: message.request_id,
+				error: result.error || "Failed to post text message",
+			});
+		}
+	}
+
+	/**
+	 * Handles a `check_in` command sent over the WebSocket.
+	 *
+	 * Records the landing of the sender, reported with the landed button unless `via` says it
+	 * was spoken, then answers with an `ack` carrying the check-in ID or a `nack`.
+	 *
+	 * @param ephemeralPushToken - The ephemeral push token of the client who sent the command
+	 * @param message - The check-in command
+	 *
+	 * @private
+	 */
+	private async handleCheckInCommand(
+		ephemeralPushToken: string,
+		message: PTTCheckInCommandMessage,
+	) {
+		const participant = this.getConnectedParticipants().get(ephemeralPushToken);
+
+		if (!participant) return;
+
+		const resolved = CheckinService.resolveCheckinRequest({
+			via: message.via,
+			location: message.location,
+		});
+		const result: PilotCheckinResult = resolved.checkin
+			? await this.recordCheckin(
+					participant.channelUuid,
+					{ user_id: participant.userId, username: participant.username },
+					{
+						via: resolved.checkin.via || "button",
+						location: resolved.checkin.location,
+					},
+				)
+			: { success: false, error: resolved.error };
+
+		if (result.success && result.checkin) {
+			this.sendCommandAck(participant, "", {
+				command: "check_in",
+				request_id: message.request_id,
+				checkin_id: result.checkin.id,
+			});
+		} else {
+			this.sendCommandNack(participant, "", {
+				command: "check_in",
+				request_id: message.request_id,
+				error: result.error || "Failed to record check-in",
+			});
+		}
+	}
+
+	/**
+	 * Handles incoming WebSocket messages from participants.
+	 *
+	 * Supports ping/pong for connection health monitoring and floor control:
+	 * - `floor_request`: asks for the floor with the same audio parameters as a transmission start
+	 * - `floor_release`: withdraws a queued floor request
+	 * - `catch_up`: replays the transmissions of the last `minutes` minutes
+	 * - `start`, `chunk`, `end`: transmission commands of the talker, answered with `ack`/`nack`
+	 *   (the HTTP transmission API remains available as a fallback)
+	 * - `retransmit_request`: a listener asks for chunks it did not receive
+	 * - `position_update`: live position of the participant, fanned out to the channel as a
+	 *   `position_update` unless the user opted out of location sharing
+	 * - `moderate`: moderation command of a channel moderator or an administrator, answered
+	 *   with `ack`/`nack`
+	 * - `text_message`: free text or canned message, answered with `ack`/`nack` and delivered
+	 *   to the channel as a `text_message`
+	 * - `check_in`: landed check-in of the sender on a site_local channel, answered with
+	 *   `ack`/`nack` and announced to the channel as a `pilot_checkin`
+	 *
+	 * @param ephemeralPushToken - The ephemeral push token of the client who sent the message
+	 * @param data - The raw message data (expected to be JSON string)
+	 *
+	 * @example
+	 * ```typescript
+	 * // Ping message from client
+	 * ws.send(JSON.stringify({ type: "ping", timestamp: Date.now() }));
+	 *
+	 * // Floor request, answered with floor_granted, floor_queued or floor_denied
+	 * ws.send(JSON.stringify({
+	 *   type: "floor_request",
+	 *   audio_format: "opus",
+	 *   sample_rate: 48000,
+	 *   bitrate: 32000,
+	 *   network_quality: "good",
+	 *   is_emergency: false
+	 * }));
+	 *
+	 * // Transmission over the WebSocket, each command answered with ack or nack
+	 * ws.send(JSON.stringify({ type: "start", request_id: "r1", audio_format: "opus", sample_rate: 48000 }));
+	 * ws.send(JSON.stringify({
+	 *   type: "chunk",
+	 *   request_id: "r2",
+	 *   session_id: "ptt_channel123_user456_1234567890_abc123",
+	 *   chunk_sequence: 1,
+	 *   audio_data: "base64-encoded-audio-data",
+	 *   chunk_size_bytes: 4096,
+	 *   timestamp_ms: Date.now()
+	 * }));
+	 * ws.send(JSON.stringify({ type: "end", request_id: "r3", session_id: "...", total_duration_ms: 5000, total_chunks: 1 }));
+	 *
+	 * // Listener asking for chunks it did not receive
+	 * ws.send(JSON.stringify({ type: "retransmit_request", session_id: "...", sequences: [4, 5] }));
+	 *
+	 * // Live position for the map feed
+	 * ws.send(JSON.stringify({
+	 *   type: "position_update",
+	 *   lat: 45.9237,
+	 *   lon: 6.8694,
+	 *   altitude_m: 2350,
+	 *   ground_speed_kmh: 32,
+	 *   heading_deg: 270,
+	 *   timestamp_ms: Date.now()
+	 * }));
+	 *
+	 * // Moderation by a channel moderator, answered with ack or nack
+	 * ws.send(JSON.stringify({
+	 *   type: "moderate",
+	 *   request_id: "r4",
+	 *   action: "mute",
+	 *   target_user_id: "user123",
+	 *   duration_minutes: 15,
+	 *   reason: "Keep the channel clear for the briefing"
+	 * }));
+	 *
+	 * // Canned message, or free text with "content"
+	 * ws.send(JSON.stringify({ type: "text_message", request_id: "r5", canned_message_id: "landed_ok" }));
+	 *
+	 * // Landed check-in with the landed button
+	 * ws.send(JSON.stringify({ type: "check_in", request_id: "r6", location: { lat: 45.9, lon: 6.87 } }));
+	 * ```
+	 */
+	private async handleWebSocketMessage(ephemeralPushToken: string, data: string) {
+		try {
+			const message = JSON.parse(data);
+
+			// Handle different message types
+			switch (message.type) {
+				case "ping":
+					this.sendToParticipant(ephemeralPushToken, {
+						type: "pong",
+						session_id: "",
+						channel_uuid: this.activeTransmission?.channelUuid || "",
+						timestamp_ms: Date.now(),
+						data: {},
+					});
+					break;
+
+				case "floor_request":
+					await this.handleFloorRequestMessage(ephemeralPushToken, message);
+					break;
+
+				case "catch_up":
+					this.sendCatchUp(ephemeralPushToken, Number(message.minutes) || 5);
+					break;
+
+				case "start":
+				case "chunk":
+				case "end":
+					await this.handleTransmissionCommand(ephemeralPushToken, message);
+					break;
+
+				case "retransmit_request":
+					this.handleRetransmitRequest(ephemeralPushToken, message);
+					break;
+
+				case "position_update":
+					await this.handlePositionUpdate(ephemeralPushToken, message);
+					break;
+
+				case "moderate":
+					await this.handleModerateCommand(ephemeralPushToken, message);
+					break;
+
+				case "text_message":
+					await this.handleTextMessageCommand(ephemeralPushToken, message);
+					break;
+
+				case "check_in":
+					await this.handleCheckInCommand(ephemeralPushToken, message);
+					break;
+
+				case "floor_release": {
+					const participant =
+						this.getConnectedParticipants().get(ephemeralPushToken);
+
+					if (participant) {
+						this.removeFloorRequest(participant.userId);
+					}
+					break;
+				}
+
+				default:
+					console.warn("Unknown WebSocket message type:", message.type);
+			}
+		} catch (error) {
+			console.error("Error handling WebSocket message:", error);
+			this.sendToParticipant(ephemeralPushToken, {
+				type: "error",
+				session_id: "",
+				channel_uuid: this.activeTransmission?.channelUuid || "",
+				timestamp_ms: Date.now(),
+				data: {
+					message: "Invalid message format",
+				},
+			});
+		}
+	}
+
+	/**
+	 * Common business logic for starting a PTT transmission (DRY principle).
+	 *
+	 * This method contains the core logic for initiating a new PTT transmission,
+	 * shared between HTTP handlers and RPC methods to ensure consistent behavior.
+	 *
+	 * Process:
+	 * 1. Validates required user information and the targets of a private call
+	 * 2. Denies the request outside the active windows of a scheduled channel, or from a
+	 *    participant muted by a moderator (emergencies excepted)
+	 * 3. If another transmission is active, either preempts it (emergency over a normal
+	 *    transmission), queues the floor request or denies it
+	 * 4. Generates unique session ID
+	 * 5. Creates and persists transmission state
+	 * 6. Schedules the automatic cleanup alarm
+	 * 7. Grants the floor to the requester and broadcasts transmission start to all participants,
+	 *    with the targets of a private call so that the others know the channel is busy
+	 * 8. Escalates emergency transmissions as incidents and mirrors them into the regional
+	 *    emergency channel and the channels covering the talker in the background
+	 * 9. Starts tracking the flight of the talker on a site_local channel
+	 *
+	 * @param request - Transmission start request with user and audio parameters
+	 * @param request.user_id - Unique identifier of the transmitting user
+	 * @param request.username - Display name of the transmitting user
+	 * @param request.channel_uuid - Target channel identifier
+	 * @param request.audio_format - Audio encoding format (e.g., "opus", "aac")
+	 * @param request.sample_rate - Audio sample rate in Hz
+	 * @param request.bitrate - Audio bitrate in bps
+	 * @param request.network_quality - Network quality indicator
+	 * @param request.location - Optional geographic location
+	 * @param request.is_emergency - Whether this is an emergency transmission
+	 * @param request.target_user_ids - Participants addressed by a private call, ignored for
+	 *   emergency transmissions which are always heard by the whole channel
+	 * @param queueIfBusy - Queue the request instead of denying it while another transmission
+	 *   is active (WebSocket `floor_request` messages only, the floor is then granted
+	 *   asynchronously with a `floor_granted` message)
+	 * @param relayedFrom - Origin of a transmission mirrored from another channel, such
+	 *   transmissions get no `floor_granted` message and are neither escalated nor relayed again
+	 *
+	 * @returns Promise resolving to transmission start result
+	 *
+	 * @throws Will return error if the floor is busy and the request is not queued, the channel
+	 *   is closed by its schedule, the requester is muted, or validation fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await this.startPTTTransmissionLogic({
+	 *   channel_uuid: "channel-123",
+	 *   user_id: "user-456",
+	 *   username: "John Doe",
+	 *   audio_format: "opus",
+	 *   sample_rate: 48000,
+	 *   is_emergency: false
+	 * });
+	 * ```
+	 */
+	private async startPTTTransmissionLogic(
+		request: PTTStartTransmissionRequest & {
+			user_id: string;
+			username: string;
+		},
+		queueIfBusy = false,
+		relayedFrom?: TransmissionRelaySource,
+	): Promise<{
+		success: boolean;
+		error?: string;
+		session_id?: string;
+		max_duration_ms?: number;
+		chunk_size_limit_bytes?: number;
+		queued?: boolean;
+		queue_position?: number;
+	}> {
+		try {
+			// Validate request
+			if (!request.user_id || !request.username) {
+				return {
+					success: false,
+					error: "User ID and username are required",
+				};
+			}
+
+			// An emergency call is always heard by the whole channel
+			const callTargets = request.is_emergency
+				? {}
+				: resolveCallTargets(request.target_user_ids, request.user_id);
+
+			if (callTargets.error) {
+				return this.denyFloorRequest(request, callTargets.error);
+			}
+
+			// Read the settings before checking the floor, so that no await separates the check
+			// from the floor grant
+			const settings = await this.getChannelSettings(
+				request.channel_uuid,
+				request.user_id,
+			);
+
+			// An emergency call, relayed ones included, is never blocked by the schedule
+			if (
+				!request.is_emergency &&
+				!isWithinActiveWindows(settings.activeWindows)
+			) {
+				return this.denyFloorRequest(
+					request,
+					"Channel is outside its active windows",
+				);
+			}
+
+			// A muted participant can still call for help
+			if (settings.isMuted && !request.is_emergency) {
+				return this.denyFloorRequest(
+					request,
+					"You have been muted by a moderator",
+				);
+			}
+
+			if (this.activeTransmission) {
+				if (request.is_emergency && !this.activeTransmission.isEmergency) {
+					// An emergency call must never be blocked by a normal speaker
+					this.forceEndTransmission(this.EMERGENCY_PREEMPTION_REASON);
+				} else if (queueIfBusy) {
+					return this.enqueueFloorRequest(request);
+				} else {
+					return this.denyFloorRequest(
+						request,
+						"Another transmission is already active in this channel",
+					);
+				}
+			}
+
+			// The requester may have been waiting in the queue
+			this.removeFloorRequest(request.user_id);
+
+			// Generate session ID
+			const sessionId = this.generateSessionId(request.user_id, request.channel_uuid);
+			const isRecording = settings.recordingEnabled;
+
+			// Create live transmission
+			this.activeTransmission = {
+				sessionId,
+				channelUuid: request.channel_uuid,
+				userId: request.user_id,
+				username: request.username,
+				startTime: Date.now(),
+				audioFormat: request.audio_format,
+				sampleRate: request.sample_rate,
+				bitrate: request.bitrate,
+				networkQuality: request.network_quality,
+				location: request.location,
+				isEmergency: request.is_emergency || false,
+				isRecording,
+				relayedFrom,
+				targetUserIds: callTargets.targets,
+				audioChunks: new Map(),
+				participants: new Set(),
+				expectedSequence: 1,
+				totalBytes: 0,
+			};
+
+			// Persist the floor holder so it survives hibernation or eviction
+			this.persistActiveTransmission();
+			this.sql.exec(
+				`
+				INSERT INTO recent_transmissions (
+					session_id, user_id, username, audio_format, sample_rate, start_time, is_emergency
+				) VALUES (?, ?, ?, ?, ?, ?, ?)
+			`,
+				sessionId,
+				request.user_id,
+				request.username,
+				request.audio_format,
+				request.sample_rate,
+				this.activeTransmission.startTime,
+				this.activeTransmission.isEmergency ? 1 : 0,
+			);
+
+			// Schedule auto-cleanup after max duration
+			await this.scheduleAlarm();
+
+			// Grant the floor to the requester, the talker of a mirrored transmission holds the
+			// floor of the origin channel
+			if (!relayedFrom) {
+				this.sendToUser(request.user_id, {
+					type: "floor_granted",
+					session_id: sessionId,
+					channel_uuid: request.channel_uuid,
+					timestamp_ms: Date.now(),
+					data: {
+						user_id: request.user_id,
+						max_duration_ms: this.MAX_TRANSMISSION_DURATION_MS,
+						chunk_size_limit_bytes: this.MAX_CHUNK_SIZE_BYTES,
+					},
+				});
+			}
+
+			// Broadcast start to all connected participants and scanners
+			const startedMessage: PTTTransmissionStartedMessage = {
+				type: "transmission_started",
+				session_id: sessionId,
+				channel_uuid: request.channel_uuid,
+				timestamp_ms: Date.now(),
+				data: {
+					user_id: request.user_id,
+					username: request.username,
+					audio_format: request.audio_format,
+					sample_rate: request.sample_rate,
+					is_emergency: request.is_emergency || false,
+					relayed_from: relayedFrom,
+					target_user_ids: callTargets.targets,
+				},
+			};
+
+			this.broadcastToParticipants(startedMessage);
+			this.forwardToScanners(startedMessage, this.activeTransmission);
+
+			// Mirrored transmissions were already escalated and relayed by their origin channel
+			if (this.isRelayOrigin(this.activeTransmission)) {
+				const transmission = { ...this.activeTransmission };
+
+				this.state.waitUntil(this.escalateEmergency(transmission));
+				this.enqueueRelay(() => this.startEmergencyRelay(transmission));
+			}
+
+			// A pilot talking on a site_local channel is flying
+			if (!relayedFrom) {
+				this.state.waitUntil(
+					this.trackFlight(
+						request.channel_uuid,
+						request.user_id,
+						request.username,
+					),
+				);
+			}
+
+			return {
+				success: true,
+				session_id: sessionId,
+				max_duration_ms: this.MAX_TRANSMISSION_DURATION_MS,
+				chunk_size_limit_bytes: this.MAX_CHUNK_SIZE_BYTES,
+			};
+		} catch (error) {
+			console.error("Start PTT transmission logic error:", error);
+			return {
+				success: false,
+				error: "Failed to start transmission",
+			};
+		}
+	}
+
+	/**
+	 * Common business logic for processing audio chunks (DRY principle).
+	 *
+	 * This method handles the real-time processing and broadcasting of audio chunks,
+	 * shared between HTTP handlers and RPC methods to ensure consistent behavior.
+	 *
+	 * Process:
+	 * 1. Validates active transmission and session ID
+	 * 2. Accepts chunks with tolerance to packet loss and out-of-order delivery
+	 * 3. Validates chunk size against limits
+	 * 4. Stores chunk temporarily for late-joining participants
+	 * 5. Updates transmission statistics and expected sequence
+	 * 6. Broadcasts chunk immediately to all connected participants and scanners, or to the
+	 *    talker and the targets of a private call
+	 * 7. Transcodes the chunk for the participants that cannot play the format of the talker,
+	 *    they get it once encoded
+	 *
+	 * Packet Loss Tolerance:
+	 * - Accepts out-of-order chunks within reasonable bounds
+	 * - Handles duplicate chunks gracefully
+	 * - Updates expected sequence based on highest received chunk
+	 * - Logs missing chunks for debugging and monitoring
+	 *
+	 * @param request - Audio chunk request data
+	 * @param request.session_id - Transmission session identifier
+	 * @param request.chunk_sequence - Sequential chunk number (can be out-of-order)
+	 * @param request.audio_data - Base64-encoded audio data
+	 * @param request.timestamp_ms - Client timestamp of audio chunk
+	 * @param request.chunk_size_bytes - Size of audio data in bytes
+	 *
+	 * @returns Promise resolving to chunk processing result
+	 *
+	 * @throws Will return error for invalid session, severely out-of-order chunks, or size violations
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await this.handleAudioChunkLogic({
+	 *   session_id: "ptt_channel123_user456_1234567890_abc123",
+	 *   chunk_sequence: 1,
+	 *   audio_data: "base64-encoded-audio-data",
+	 *   timestamp_ms: Date.now(),
+	 *   chunk_size_bytes: 4096
+	 * });
+	 * ```
+	 */
+	private async handleAudioChunkLogic(request: PTTAudioChunkRequest): Promise<{
+		success: boolean;
+		error?: string;
+		chunk_received?: boolean;
+		next_expected_sequence?: number;
+	}> {
+		try {
+			// Validate active transmission
+			if (
+				!this.activeTransmission ||
+				this.activeTransmission.sessionId !== request.session_id
+			) {
+				return {
+					success: false,
+					chunk_received: false,
+					error: "Invalid or expired session",
+				};
+			}
+
+			// Validate chunk sequence - be tolerant to packet loss
+			const isExpectedSequence = request.chunk_sequence === this.activeTransmission.expectedSequence;
+			const isDuplicate = this.activeTransmission.audioChunks.has(request.chunk_sequence);
+			const isFutureSequence = request.chunk_sequence > this.activeTransmission.expectedSequence;
+
+			// Accept chunks that are:
+			// 1. The expected sequence (normal case)
+			// 2. Future sequences (packet arrived out of order)
+			// 3. Duplicate chunks (retransmission)
+			if (!isExpectedSequence && !isFutureSequence && !isDuplicate) {
+				// Only reject chunks that are clearly too old (more than 10 chunks behind)
+				const maxAcceptableLag = 10;
+				if (request.chunk_sequence < this.activeTransmission.expectedSequence - maxAcceptableLag) {
+					return {
+						success: false,
+						chunk_received: false,
+						error: `Chunk too old. Expected >= ${this.activeTransmission.expectedSequence - maxAcceptableLag}, got ${request.chunk_sequence}`,
+					};
+				}
+			}
+
+			// Handle duplicate chunks
+			if (isDuplicate) {
+				console.warn(`Received duplicate chunk ${request.chunk_sequence}, ignoring`);
+				return {
+					success: true,
+					chunk_received: true,
+					next_expected_sequence: this.activeTransmission.expectedSequence,
+				};
+			}
+
+			// Validate chunk size
+			if (request.chunk_size_bytes > this.MAX_CHUNK_SIZE_BYTES) {
+				return {
+					success: false,
+					chunk_received: false,
+					error: "Chunk size exceeds 64KB limit",
+				};
+			}
+
+			const audioChunk: AudioChunk = {
+				sequence: request.chunk_sequence,
+				data: request.audio_data,
+				timestamp: request.timestamp_ms,
+				sizeBytes: request.chunk_size_bytes,
+			};
+
+			// Store chunk temporarily for late joiners
+			const expiresAt = Date.now() + this.CHUNK_BUFFER_DURATION_MS;
+
+			this.activeTransmission.audioChunks.set(request.chunk_sequence, {
+				chunk: audioChunk,
+				expires: expiresAt,
+			});
+			this.persistAudioChunk(audioChunk, expiresAt);
+
+			// Keep every chunk for catch-up replay and recording
+			this.sql.exec(
+				`
+				INSERT OR IGNORE INTO recent_chunks (session_id, sequence, data)
+				VALUES (?, ?, ?)
+			`,
+				request.session_id,
+				audioChunk.sequence,
+				audioChunk.data,
+			);
+
+			// Log sequence information for debugging
+			if (!isExpectedSequence && isFutureSequence) {
+				console.warn(`Received out-of-order chunk: expected ${this.activeTransmission.expectedSequence}, got ${request.chunk_sequence}`);
+			}
+
+			// Update transmission stats
+			this.activeTransmission.totalBytes += request.chunk_size_bytes;
+
+			// Ask the talker for the chunks skipped by this one, or track the gap it fills
+			let retransmitted = false;
+
+			if (isFutureSequence) {
+				this.requestRetransmission(request.chunk_sequence);
+			} else if (!isExpectedSequence) {
+				retransmitted = this.markChunkRecovered(
+					request.session_id,
+					request.chunk_sequence,
+				);
+			}
+
+			// Update expected sequence - be more tolerant to packet loss
+			// If this chunk is the expected one or higher, update expected sequence
+			if (request.chunk_sequence >= this.activeTransmission.expectedSequence) {
+				// Look for the next missing sequence
+				let nextExpected = request.chunk_sequence + 1;
+				const maxLookAhead = 50; // Don't look too far ahead to avoid performance issues
+
+				for (let i = 0; i < maxLookAhead; i++) {
+					if (!this.activeTransmission.audioChunks.has(nextExpected)) {
+						break; // Found a gap
+					}
+					nextExpected++;
+				}
+
+				this.activeTransmission.expectedSequence = nextExpected;
+			}
+
+			this.persistActiveTransmission();
+
+			// Broadcast immediately to all connected participants and scanners
+			const message: PTTScannedMessage = {
+				type: "audio_chunk",
+				session_id: request.session_id,
+				channel_uuid: this.activeTransmission.channelUuid,
+				timestamp_ms: request.timestamp_ms,
+				data: {
+					sequence: request.chunk_sequence,
+					audio_data: request.audio_data,
+					size_bytes: request.chunk_size_bytes,
+					retransmitted: retransmitted || undefined,
+				},
+			};
+
+			this.broadcastToParticipants(
+				message,
+				this.getExcludedListeners(this.activeTransmission),
+				{
+					transmission: this.activeTransmission,
+					format: this.activeTransmission.audioFormat,
+				},
+			);
+			this.forwardToScanners(message, this.activeTransmission);
+			this.transcodeAudioChunk(this.activeTransmission, message);
+
+			if (this.isRelayOrigin(this.activeTransmission)) {
+				this.relayAudioChunk(this.activeTransmission.sessionId, request);
+			}
+
+			return {
+				success: true,
+				chunk_received: true,
+				next_expected_sequence: this.activeTransmission.expectedSequence,
+			};
+		} catch (error) {
+			console.error("Handle audio chunk logic error:", error);
+			return {
+				success: false,
+				chunk_received: false,
+				error: "Failed to process audio chunk",
+			};
+		}
+	}
+
+	/**
+	 * Common business logic for ending a PTT transmission.
+	 *
+	 * This method contains the core logic for terminating an active PTT transmission,
+	 * shared between HTTP handlers and RPC methods to ensure consistent behavior.
+	 *
+	 * Process:
+	 * 1. Validates active transmission and session ID
+	 * 2. Reschedules the cleanup alarm
+	 * 3. Broadcasts transmission end to all participants and scanners, and ends the mirrored
+	 *    transmissions of an emergency transmission
+	 * 4. Stores the recording in R2 if recording is enabled for the channel
+	 * 5. Logs transmission audit data to database
+	 * 6. Cleans up transmission state
+	 * 7. Grants the floor to the next request in the queue
+	 *
+	 * @param request - Transmission end request
+	 * @param request.session_id - Transmission session identifier to end
+	 * @param request.total_duration_ms - Total duration of the transmission
+	 *
+	 * @returns Promise resolving to transmission end result with summary
+	 *
+	 * @throws Will return error for invalid session or inactive transmission
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await this.endPTTTransmissionLogic({
+	 *   session_id: "ptt_channel123_user456_1234567890_abc123",
+	 *   total_duration_ms: 5000
+	 * });
+	 *
+	 * console.log("Transmission ended:", result.session_summary);
+	 * ```
+	 */
+	private async endPTTTransmissionLogic(request: PTTEndTransmissionRequest): Promise<{
+		success: boolean;
+		error?: string;
+		session_summary?: {
+			total_duration_ms: number;
+			chunks_received: number;
+			total_bytes: number;
+			participants_notified: number;
+			missing_chunks: number;
+			recovered_chunks: number;
+			lost_chunks: number;
+			packet_loss_rate: number;
+		};
+	}> {
+		try {
+			if (
+				!this.activeTransmission ||
+				this.activeTransmission.sessionId !== request.session_id
+			) {
+				return {
+					success: false,
+					error: "Invalid or expired session",
+				};
+			}
+
+			const transmission = this.activeTransmission;
+			const duration = request.total_duration_ms;
+			const participantsCount = this.countListeners(transmission);
+
+			// Calculate packet loss statistics, only lost chunks count as loss since recovered
+			// chunks were heard by the listeners
+			const {
+				received: chunksReceived,
+				recovered: recoveredChunks,
+				lost: lostChunks,
+			} = this.getChunkStats(transmission.sessionId);
+			const missingChunks = recoveredChunks + lostChunks;
+			const packetLossRate =
+				chunksReceived + lostChunks > 0
+					? (lostChunks / (chunksReceived + lostChunks)) * 100
+					: 0;
+
+			// Broadcast end to participants and scanners
+			const endedMessage: PTTTransmissionEndedMessage = {
+				type: "transmission_ended",
+				session_id: transmission.sessionId,
+				channel_uuid: transmission.channelUuid,
+				timestamp_ms: Date.now(),
+				data: {
+					user_id: transmission.userId,
+					duration_ms: duration,
+					total_chunks: chunksReceived,
+					total_bytes: transmission.totalBytes,
+					missing_chunks: missingChunks,
+					recovered_chunks: recoveredChunks,
+					lost_chunks: lostChunks,
+					packet_loss_rate: packetLossRate,
+				},
+			};
+
+			this.broadcastToParticipants(endedMessage);
+			this.forwardToScanners(endedMessage, transmission);
+
+			if (this.isRelayOrigin(transmission)) {
+				this.relayTransmissionEnd(
+					transmission.sessionId,
+					duration,
+					chunksReceived,
+				);
+			}
+
+			// Store the recording and log transmission for audit (minimal metadata only)
+			const recordingKey = await this.storeRecording(transmission);
+
+			await this.logTransmissionAudit(
+				transmission,
+				duration,
+				participantsCount,
+				recordingKey,
+			);
+
+			// Clear transmission state
+			this.clearActiveTransmission();
+			await this.scheduleAlarm();
+
+			console.log(
+				`Transmission ended: ${chunksReceived} chunks received, ${recoveredChunks} recovered, ${lostChunks} lost (${packetLossRate.toFixed(1)}% loss)`,
+			);
+
+			// Hand the floor over to the next in line
+			await this.grantNextFloorRequest();
+
+			return {
+				success: true,
+				session_summary: {
+					total_duration_ms: duration,
+					chunks_received: chunksReceived,
+					total_bytes: transmission.totalBytes,
+					participants_notified: participantsCount,
+					missing_chunks: missingChunks,
+					recovered_chunks: recoveredChunks,
+					lost_chunks: lostChunks,
+					packet_loss_rate: packetLossRate,
+				},
+			};
+		} catch (error) {
+			console.error("End PTT transmission logic error:", error);
+			return {
+				success: false,
+				error: "Failed to end transmission",
+			};
+		}
+	}
+
+	/**
+	 * Get current PTT channel status information.
+	 *
+	 * Retrieves comprehensive status data about the PTT channel including any active
+	 * transmission details and participant connection count. Used by both HTTP and RPC endpoints.
+	 *
+	 * This method provides real-time visibility into channel state for monitoring,
+	 * client synchronization, and administrative purposes.
+	 *
+	 * @returns Status object containing active transmission details and participant count
+	 *
+	 * @private
+	 */
+	private getPTTStatusLogic(): {
+		success: boolean;
+		active_transmission?: {
+			session_id: string;
+			channel_uuid: string;
+			user_id: string;
+			username: string;
+			start_time: number;
+			audio_format: string;
+			is_emergency: boolean;
+			chunks_count: number;
+			total_bytes: number;
+			relayed_from?: TransmissionRelaySource;
+			target_user_ids?: string[];
+		} | null;
+		connected_participants: number;
+		timestamp: number;
+	} {
+		return {
+			success: true,
+			active_transmission: this.activeTransmission
+				? {
+						session_id: this.activeTransmission.sessionId,
+						channel_uuid: this.activeTransmission.channelUuid,
+						user_id: this.activeTransmission.userId,
+						username: this.activeTransmission.username,
+						start_time: this.activeTransmission.startTime,
+						audio_format: this.activeTransmission.audioFormat,
+						is_emergency: this.activeTransmission.isEmergency,
+						chunks_count: this.activeTransmission.expectedSequence - 1,
+						total_bytes: this.activeTransmission.totalBytes,
+						relayed_from: this.activeTransmission.relayedFrom,
+						target_user_ids: this.activeTransmission.targetUserIds,
+					}
+				: null,
+			connected_participants: this.getConnectedParticipants().size,
+			timestamp: Date.now(),
+		};
+	}
+
+	/**
+	 * Handle start transmission HTTP request.
+	 *
+	 * Processes HTTP POST /ptt/start requests to initiate a new PTT transmission.
+	 * Validates request data, delegates to business logic, and returns appropriate HTTP response.
+	 *
+	 * This method serves as the HTTP endpoint wrapper around the startPTTTransmissionLogic method,
+	 * handling JSON parsing, error formatting, and HTTP response construction.
+	 *
+	 * @param request - HTTP request containing PTT start transmission data
+	 * @returns Promise resolving to HTTP response with transmission session details or error
+	 *
+	 * @private
+	 */
+	private async handleStartTransmission(request: Request): Promise<Response> {
+		const body = (await request.json()) as PTTStartTransmissionRequest & {
+			user_id: string;
+			username: string;
+		};
+
+		const result = await this.startPTTTransmissionLogic(body);
+
+		if (!result.success) {
+			return new Response(
+				JSON.stringify({
+					success: false,
+					error: result.error,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				session_id: result.session_id,
+				max_duration_ms: result.max_duration_ms,
+				chunk_size_limit_bytes: result.chunk_size_limit_bytes,
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+
+	/**
+	 * Handle audio chunk HTTP request.
+	 *
+	 * Processes HTTP POST /ptt/chunk requests to receive and broadcast audio chunks.
+	 * Validates chunk data, delegates to business logic, and returns processing confirmation.
+	 *
+	 * This method serves as the HTTP endpoint wrapper around the handleAudioChunkLogic method,
+	 * handling JSON parsing, sequence validation, and HTTP response construction for real-time audio streaming.
+	 * It is tolerant to packet loss and can handle out-of-order chunk delivery.
+	 *
+	 * @param request - HTTP request containing audio chunk data
+	 * @returns Promise resolving to HTTP response with chunk processing status
+	 *
+	 * @private
+	 */
+	private async handleAudioChunk(request: Request): Promise<Response> {
+		const body = (await request.json()) as PTTAudioChunkRequest;
+
+		const result = await this.handleAudioChunkLogic(body);
+
+		if (!result.success) {
+			return new Response(
+				JSON.stringify({
+					success: false,
+					chunk_received: false,
+					error: result.error,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				chunk_received: result.chunk_received,
+				next_expected_sequence: result.next_expected_sequence,
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+
+	/**
+	 * Handle end transmission HTTP request.
+	 *
+	 * Processes HTTP POST /ptt/end requests to terminate active PTT transmissions.
+	 * Validates termination request, delegates to business logic, and returns session summary.
+	 *
+	 * This method serves as the HTTP endpoint wrapper around the endPTTTransmissionLogic method,
+	 * handling JSON parsing, cleanup coordination, and HTTP response construction with transmission metrics.
+	 *
+	 * @param request - HTTP request containing transmission end data
+	 * @returns Promise resolving to HTTP response with transmission summary or error
+	 *
+	 * @private
+	 */
+	private async handleEndTransmission(request: Request): Promise<Response> {
+		const body = (await request.json()) as PTTEndTransmissionRequest;
+
+		const result = await this.endPTTTransmissionLogic(body);
+
+		if (!result.success) {
+			return new Response(
+				JSON.stringify({
+					success: false,
+					error: result.error,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				session_summary: result.session_summary,
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+
+	/**
+	 * Handle get status HTTP request.
+	 *
+	 * Processes HTTP GET /ptt/status requests to retrieve current PTT channel status.
+	 * Returns information about active transmissions and connected participants.
+	 *
+	 * This method serves as the HTTP endpoint wrapper around the getPTTStatusLogic method,
+	 * providing real-time visibility into channel state for monitoring and client synchronization.
+	 *
+	 * @returns Promise resolving to HTTP response with current channel status
+	 *
+	 * @private
+	 */
+	private async handleGetStatus(): Promise<Response> {
+		const result = this.getPTTStatusLogic();
+
+		return new Response(
+			JSON.stringify(result),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+
+	/**
+	 * Force termination of active PTT transmission.
+	 *
+	 * Immediately ends any ongoing transmission due to timeout, error conditions,
+	 * or system requirements. Broadcasts termination notification to all participants
+	 * and performs cleanup operations.
+	 *
+	 * This method is used for system-initiated transmission termination when normal
+	 * end procedures cannot be followed, ensuring clean state management and audit logging.
+	 *
+	 * @param reason - Description of why the transmission is being force-ended
+	 *
+	 * @private
+	 */
+	private forceEndTransmission(reason: string) {
+		if (!this.activeTransmission) return;
+
+		const transmission = this.activeTransmission;
+		const duration = Date.now() - transmission.startTime;
+		const { received, recovered, lost } = this.getChunkStats(
+			transmission.sessionId,
+		);
+
+		// Broadcast forced end
+		const endedMessage: PTTTransmissionEndedMessage = {
+			type: "transmission_ended",
+			session_id: transmission.sessionId,
+			channel_uuid: transmission.channelUuid,
+			timestamp_ms: Date.now(),
+			data: {
+				user_id: transmission.userId,
+				duration_ms: duration,
+				total_chunks: received,
+				total_bytes: transmission.totalBytes,
+				missing_chunks: recovered + lost,
+				recovered_chunks: recovered,
+				lost_chunks: lost,
+				reason: reason,
+			},
+		};
+
+		this.broadcastToParticipants(endedMessage);
+		this.forwardToScanners(endedMessage, transmission);
+
+		if (this.isRelayOrigin(transmission)) {
+			this.relayTransmissionEnd(transmission.sessionId, duration, received);
+		}
+
+		// Store the recording and log forced end. The recorded chunks are read synchronously
+		// by storeRecording, before the state is cleared below.
+		const participantsCount = this.countListeners(transmission);
+
+		this.state.waitUntil(
+			this.storeRecording(transmission).then((recordingKey) =>
+				this.logTransmissionAudit(
+					transmission,
+					duration,
+					participantsCount,
+					recordingKey,
+				),
+			),
+		);
+
+		// Clear state
+		this.clearActiveTransmission();
+
+		console.log(`PTT transmission force ended: ${reason}`);
+	}
+
+	/**
+	 * Broadcast WebSocket message to all connected participants.
+	 *
+	 * Sends a message to all participants in the channel, with optional exclusion
+	 * of specific users. Handles connection errors gracefully by closing broken connections.
+	 *
+	 * This method is used for real-time communication during PTT transmissions,
+	 * ensuring all participants receive updates about transmission state changes.
+	 *
+	 * @param message - WebSocket message to broadcast
+	 * @param excludeUsers - Array of user IDs to exclude from broadcast
+	 * @param audio - For an audio chunk, only sent to the participants receiving the audio of
+	 *   the transmission in this format
+	 *
+	 * @private
+	 */
+	private broadcastToParticipants(
+		message: PTTWebSocketMessage,
+		excludeUsers: string[] = [],
+		audio?: { transmission: LiveTransmission; format: AudioFormat },
+	) {
+		// Serialize once per subprotocol
+		const payloads = new Map<
+			PTTWebSocketProtocol | undefined,
+			string | Uint8Array | null
+		>();
+		const excludeSet = new Set(excludeUsers);
+
+		for (const participant of this.getConnectedParticipants().values()) {
+			if (excludeSet.has(participant.userId)) continue;
+
+			if (
+				audio &&
+				this.getListenerFormat(participant.audioFormats, audio.transmission) !==
+					audio.format
+			)
+				continue;
+
+			let payload = payloads.get(participant.protocol);
+
+			if (payload === undefined) {
+				payload = this.serializeMessage(message, participant.protocol);
+				payloads.set(participant.protocol, payload);
+			}
+
+			if (payload === null) continue;
+
+			try {
+				participant.websocket.send(payload);
+			} catch (error) {
+				console.error(
+					`Failed to send message to participant ${participant.userId}:`,
+					error,
+				);
+				// Remove broken connection
+				this.closeBrokenConnection(participant.websocket);
+			}
+		}
+	}
+
+	/**
+	 * Send WebSocket message to a specific participant.
+	 *
+	 * Delivers a message to a single participant identified by ephemeral push token.
+	 * Handles connection errors by closing broken connections.
+	 *
+	 * This method is used for targeted communication with individual participants,
+	 * such as private notifications or user-specific updates.
+	 *
+	 * @param ephemeralPushToken - Ephemeral push token of the target participant
+	 * @param message - WebSocket message to send
+	 *
+	 * @private
+	 */
+	private sendToParticipant(ephemeralPushToken: string, message: PTTWebSocketMessage) {
+		const participant = this.getConnectedParticipants().get(ephemeralPushToken);
+
+		if (!participant) return;
+
+		const payload = this.serializeMessage(message, participant.protocol);
+
+		if (payload === null) return;
+
+		try {
+			participant.websocket.send(payload);
+		} catch (error) {
+			console.error(`Failed to send message to participant ${ephemeralPushToken}:`, error);
+			this.closeBrokenConnection(participant.websocket);
+		}
+	}
+
+	/**
+	 * Serialize a WebSocket message for a connection.
+	 *
+	 * Audio chunks are encoded as binary frames for connections using the `ptt.binary.v1`
+	 * subprotocol, every other message is sent as JSON.
+	 *
+	 * @param message - WebSocket message to serialize
+	 * @param protocol - Subprotocol negotiated by the connection
+	 * @returns JSON string or binary audio frame, null for an audio chunk whose format is
+	 *   unknown, which cannot be sent as a binary frame
+	 *
+	 * @private
+	 */
+	private serializeMessage(
+		message: PTTWebSocketMessage,
+		protocol?: PTTWebSocketProtocol,
+	): string | Uint8Array | null {
+		if (
+			message.type !== "audio_chunk" ||
+			protocol !== AudioFrameUtils.BINARY_PROTOCOL
+		) {
+			return JSON.stringify(message);
+		}
+
+		// Chunks are in the format of the active transmission unless transcoded or replayed, the
+		// format of a chunk of another session is unknown
+		const audioFormat =
+			message.data.audio_format ??
+			(this.activeTransmission?.sessionId === message.session_id
+				? this.activeTransmission.audioFormat
+				: undefined);
+
+		if (!audioFormat) {
+			console.warn(
+				`Audio chunk ${message.data.sequence} of ${message.session_id} is not part of the active transmission, not sent as a binary frame`,
+			);
+
+			return null;
+		}
+
+		return AudioFrameUtils.encode(
+			{
+				sessionHash: AudioFrameUtils.hashSessionId(message.session_id),
+				sequence: message.data.sequence,
+				timestampMs: message.timestamp_ms,
+				audioFormat,
+				retransmitted: message.data.retransmitted,
+				replayed: message.data.replayed,
+			},
+			decodeBase64Audio(message.data.audio_data),
+		);
+	}
+
+	/**
+	 * Send WebSocket message to every connection of a user.
+	 *
+	 * Connections are found through the `user:{userId}` tag set when the WebSocket was accepted,
+	 * so a user connected from several devices receives the message on each of them.
+	 *
+	 * @param userId - Target user identifier
+	 * @param message - Message to send
+	 *
+	 * @private
+	 */
+	private sendToUser(userId: string, message: PTTWebSocketMessage) {
+		const payload = JSON.stringify(message);
+
+		for (const websocket of this.state.getWebSockets(`user:${userId}`)) {
+			if (!websocket.deserializeAttachment()) continue;
+
+			try {
+				websocket.send(payload);
+			} catch (error) {
+				console.error(`Failed to send message to user ${userId}:`, error);
+				this.closeBrokenConnection(websocket);
+			}
+		}
+	}
+
+	/**
+	 * Check whether a user has at least one open WebSocket connection to the channel.
+	 *
+	 * @param userId - User identifier
+	 * @returns True if the user is connected
+	 *
+	 * @private
+	 */
+	private isUserConnected(userId: string): boolean {
+		return this.state
+			.getWebSockets(`user:${userId}`)
+			.some((websocket) => websocket.deserializeAttachment() !== null);
+	}
+
+	/**
+	 * Get the connected users who must not receive the audio of a transmission.
+	 *
+	 * Empty for a channel-wide transmission, every connected user except the talker and the
+	 * targets for a private call.
+	 *
+	 * @param transmission - Transmission whose audio is sent
+	 * @returns User IDs to exclude from the audio broadcast
+	 *
+	 * @private
+	 */
+	private getExcludedListeners(transmission: LiveTransmission): string[] {
+		if (!transmission.targetUserIds) return [];
+
+		return [...this.getConnectedParticipants().values()]
+			.map((participant) => participant.userId)
+			.filter(
+				(userId) =>
+					!isCallListener(
+						userId,
+						transmission.userId,
+						transmission.targetUserIds,
+					),
+			);
+	}
+
+	/**
+	 * Count the connections hearing a transmission, for the audit log.
+	 *
+	 * @param transmission - Transmission to count the listeners of
+	 * @returns Number of connected participants receiving the audio
+	 *
+	 * @private
+	 */
+	private countListeners(transmission: LiveTransmission): number {
+		return [...this.getConnectedParticipants().values()].filter((participant) =>
+			isCallListener(
+				participant.userId,
+				transmission.userId,
+				transmission.targetUserIds,
+			),
+		).length;
+	}
+
+	/**
+	 * Check whether a user may hear a transmission of the catch-up window.
+	 *
+	 * @param userId - Listening user
+	 * @param sessionId - Session of the transmission
+	 * @returns False for a private call that does not include the user
+	 *
+	 * @private
+	 */
+	private canHearTransmission(userId: string, sessionId: string): boolean {
+		const targets = this.sql
+			.exec("SELECT user_id FROM call_targets WHERE session_id = ?", sessionId)
+			.toArray()
+			.map((row) => String(row.user_id));
+
+		if (targets.length === 0) return true;
+
+		const transmission = this.sql
+			.exec(
+				"SELECT user_id FROM recent_transmissions WHERE session_id = ?",
+				sessionId,
+			)
+			.toArray()[0];
+
+		return isCallListener(
+			userId,
+			transmission ? String(transmission.user_id) : "",
+			targets,
+		);
+	}
+
+	/**
+	 * Get the participants currently connected to the channel.
+	 *
+	 * Built from the WebSockets accepted through the Hibernation API and their serialized
+	 * attachments, so the list is the same before and after the Durable Object is hibernated.
+	 *
+	 * @returns Map of connected participants keyed by ephemeral push token
+	 *
+	 * @private
+	 */
+	private getConnectedParticipants(): Map<string, ConnectedParticipant> {
+		const participants = new Map<string, ConnectedParticipant>();
+
+		for (const websocket of this.state.getWebSockets()) {
+			const attachment =
+				websocket.deserializeAttachment() as ConnectedParticipantAttachment | null;
+
+			if (!attachment) continue;
+
+			participants.set(attachment.ephemeralPushToken, {
+				...attachment,
+				websocket,
+			});
+		}
+
+		return participants;
+	}
+
+	/**
+	 * Close a WebSocket that failed to deliver a message.
+	 *
+	 * The attachment is cleared first so the connection is no longer listed as a participant.
+	 *
+	 * @param websocket - The broken WebSocket connection
+	 *
+	 * @private
+	 */
+	private closeBrokenConnection(websocket: WebSocket) {
+		try {
+			websocket.serializeAttachment(null);
+			websocket.close(1011, "Failed to deliver message");
+		} catch {
+			// Already closed
+		}
+	}
+
+	/**
+	 * Handle a `floor_request` WebSocket message.
+	 *
+	 * The requester identity comes from the WebSocket attachment, the audio parameters from
+	 * the message. The outcome is notified to the requester by {@link startPTTTransmissionLogic}
+	 * through `floor_granted`, `floor_queued` or `floor_denied` messages.
+	 *
+	 * @param ephemeralPushToken - The ephemeral push token of the requesting client
+	 * @param message - The floor request message
+	 *
+	 * @private
+	 */
+	private async handleFloorRequestMessage(
+		ephemeralPushToken: string,
+		message: PTTFloorRequestMessage,
+	) {
+		const participant = this.getConnectedParticipants().get(ephemeralPushToken);
+
+		if (!participant) return;
+
+		if (!["aac-lc", "opus", "pcm"].includes(message.audio_format)) {
+			this.sendToParticipant(ephemeralPushToken, {
+				type: "floor_denied",
+				session_id: "",
+				channel_uuid: participant.channelUuid,
+				timestamp_ms: Date.now(),
+				data: {
+					user_id: participant.userId,
+					reason: "Valid audio_format is required (aac-lc, opus, pcm)",
+				},
+			});
+
+			return;
+		}
+
+		await this.startPTTTransmissionLogic(
+			{
+				channel_uuid: participant.channelUuid,
+				audio_format: message.audio_format,
+				sample_rate: message.sample_rate,
+				bitrate: message.bitrate,
+				network_quality: message.network_quality,
+				device_info: message.device_info,
+				expected_duration: message.expected_duration,
+				location: message.location,
+				is_emergency: message.is_emergency,
+				target_user_ids: message.target_user_ids,
+				user_id: participant.userId,
+				username: participant.username,
+			},
+			true,
+		);
+	}
+
+	/**
+	 * Queue a floor request while another transmission is active.
+	 *
+	 * Requests are served in FIFO order, emergency requests being served before normal ones.
+	 * A user has at most one request in the queue: a new request updates the previous one
+	 * and keeps its position.
+	 *
+	 * @param request - Transmission start request with user information
+	 * @returns Start result with `queued` and `queue_position`, or the reason of the denial
+	 *
+	 * @private
+	 */
+	private enqueueFloorRequest(
+		request: PTTStartTransmissionRequest & {
+			user_id: string;
+			username: string;
+		},
+	): {
+		success: boolean;
+		error?: string;
+		queued?: boolean;
+		queue_position?: number;
+	} {
+		if (this.activeTransmission?.userId === request.user_id) {
+			return this.denyFloorRequest(
+				request,
+				"You are already transmitting on this channel",
+			);
+		}
+
+		this.sql.exec(
+			`
+			INSERT INTO floor_queue (user_id, username, is_emergency, request, requested_at)
+			VALUES (?, ?, ?, ?, ?)
+			ON CONFLICT(user_id) DO UPDATE SET
+				username = excluded.username,
+				is_emergency = excluded.is_emergency,
+				request = excluded.request,
+				requested_at = excluded.requested_at
+		`,
+			request.user_id,
+			request.username,
+			request.is_emergency ? 1 : 0,
+			JSON.stringify({
+				channel_uuid: request.channel_uuid,
+				audio_format: request.audio_format,
+				sample_rate: request.sample_rate,
+				bitrate: request.bitrate,
+				network_quality: request.network_quality,
+				device_info: request.device_info,
+				expected_duration: request.expected_duration,
+				location: request.location,
+				is_emergency: request.is_emergency,
+				target_user_ids: request.target_user_ids,
+			}),
+			Date.now(),
+		);
+
+		const queue = this.getFloorQueue();
+		const position =
+			queue.findIndex((queued) => queued.userId === request.user_id) + 1;
+
+		this.sendToUser(request.user_id, {
+			type: "floor_queued",
+			session_id: this.activeTransmission?.sessionId || "",
+			channel_uuid: request.channel_uuid,
+			timestamp_ms: Date.now(),
+			data: {
+				user_id: request.user_id,
+				position,
+				queue_length: queue.length,
+			},
+		});
+
+		this.broadcastToParticipants(
+			{
+				type: "floor_requested",
+				session_id: this.activeTransmission?.sessionId || "",
+				channel_uuid: request.channel_uuid,
+				timestamp_ms: Date.now(),
+				data: {
+					user_id: request.user_id,
+					username: request.username,
+					is_emergency: request.is_emergency || false,
+					queue_length: queue.length,
+				},
+			},
+			[request.user_id],
+		);
+
+		return {
+			success: false,
+			error:
+				"Another transmission is already active in this channel, request queued",
+			queued: true,
+			queue_position: position,
+		};
+	}
+
+	/**
+	 * Deny a floor request.
+	 *
+	 * @param request - Transmission start request with user information
+	 * @param reason - Reason of the denial, sent to the requester in a `floor_denied` message
+	 * @returns Failed start result
+	 *
+	 * @private
+	 */
+	private denyFloorRequest(
+		request: PTTStartTransmissionRequest & { user_id: string },
+		reason: string,
+	): { success: boolean; error?: string } {
+		this.sendToUser(request.user_id, {
+			type: "floor_denied",
+			session_id: this.activeTransmission?.sessionId || "",
+			channel_uuid: request.channel_uuid,
+			timestamp_ms: Date.now(),
+			data: {
+				user_id: request.user_id,
+				reason,
+			},
+		});
+
+		return {
+			success: false,
+			error: reason,
+		};
+	}
+
+	/**
+	 * Grant the floor to the next request in the queue.
+	 *
+	 * Expired requests and requests from users who are no longer connected are dropped,
+	 * the first remaining request starts a new transmission.
+	 *
+	 * @private
+	 */
+	private async grantNextFloorRequest() {
+		const now = Date.now();
+
+		for (const queued of this.getFloorQueue()) {
+			if (this.activeTransmission) return;
+
+			this.removeFloorRequest(queued.userId);
+
+			if (!this.isUserConnected(queued.userId)) continue;
+
+			if (now - queued.requestedAt > this.FLOOR_REQUEST_TIMEOUT_MS) {
+				this.sendToUser(queued.userId, {
+					type: "floor_denied",
+					session_id: "",
+					channel_uuid: queued.request.channel_uuid,
+					timestamp_ms: now,
+					data: {
+						user_id: queued.userId,
+						reason: "Floor request expired",
+					},
+				});
+				continue;
+			}
+
+			await this.startPTTTransmissionLogic({
+				...queued.request,
+				user_id: queued.userId,
+				username: queued.username,
+			});
+		}
+	}
+
+	/**
+	 * Get the floor-control queue in serving order (emergencies first, then FIFO).
+	 *
+	 * @returns Queued floor requests
+	 *
+	 * @private
+	 */
+	private getFloorQueue(): QueuedFloorRequest[] {
+		return this.sql
+			.exec("SELECT * FROM floor_queue ORDER BY is_emergency DESC, position")
+			.toArray()
+			.map((row) => ({
+				position: Number(row.position),
+				userId: String(row.user_id),
+				username: String(row.username),
+				isEmergency: Boolean(row.is_emergency),
+				request: JSON.parse(String(row.request)) as PTTStartTransmissionRequest,
+				requestedAt: Number(row.requested_at),
+			}));
+	}
+
+	/**
+	 * Remove the queued floor request of a user, if any.
+	 *
+	 * @param userId - User identifier
+	 *
+	 * @private
+	 */
+	private removeFloorRequest(userId: string) {
+		this.sql.exec("DELETE FROM floor_queue WHERE user_id = ?", userId);
+	}
+
+	/**
+	 * Durable Object alarm handler.
+	 *
+	 * Replaces the former in-memory timers, which were lost when the object was evicted.
+	 * Force-ends the active transmission once it exceeds its maximum duration, handing the floor
+	 * over to the next queued request, and removes expired audio chunks from the buffer,
+	 * then schedules the next alarm if still needed.
+	 */
+	async alarm() {
+		const now = Date.now();
+
+		if (
+			this.activeTransmission &&
+			now >=
+				this.activeTransmission.startTime + this.MAX_TRANSMISSION_DURATION_MS
+		) {
+			this.forceEndTransmission("Maximum duration exceeded");
+			await this.grantNextFloorRequest();
+		}
+
+		this.cleanupExpiredChunks(now);
+		await this.scheduleAlarm();
+	}
+
+	/**
+	 * Schedule the next alarm for the active transmission.
+	 *
+	 * The alarm fires at the earliest of the transmission maximum duration, the next
+	 * chunk cleanup and the expiry of the oldest transmission kept for catch-up replay.
+	 * It is deleted when there is nothing left to do.
+	 *
+	 * @private
+	 */
+	private async scheduleAlarm() {
+		const candidates: number[] = [];
+
+		if (this.activeTransmission) {
+			candidates.push(
+				this.activeTransmission.startTime + this.MAX_TRANSMISSION_DURATION_MS,
+				Date.now() + this.CLEANUP_INTERVAL_MS,
+			);
+		}
+
+		const oldest = this.sql
+			.exec(
+				"SELECT MIN(end_time) AS end_time FROM recent_transmissions WHERE end_time IS NOT NULL",
+			)
+			.one().end_time;
+
+		if (oldest !== null) {
+			candidates.push(Number(oldest) + this.CATCH_UP_WINDOW_MS);
+		}
+
+		if (candidates.length === 0) {
+			await this.state.storage.deleteAlarm();
+
+			return;
+		}
+
+		await this.state.storage.setAlarm(Math.min(...candidates));
+	}
+
+	/**
+	 * Remove expired audio chunks from the buffer.
+	 *
+	 * Audio chunks that have exceeded their buffer duration are removed both from memory
+	 * and from SQLite storage, maintaining efficient memory usage during long transmissions.
+	 *
+	 * @param now - Current timestamp in milliseconds
+	 *
+	 * @private
+	 */
+	private cleanupExpiredChunks(now: number) {
+		this.cleanupCatchUpTransmissions(now);
+
+		if (!this.activeTransmission) return;
+
+		const expiredSequences: number[] = [];
+
+		// Find expired chunks
+		for (const [sequence, bufferedChunk] of this.activeTransmission
+			.audioChunks) {
+			if (now >= bufferedChunk.expires) {
+				expiredSequences.push(sequence);
+			}
+		}
+
+		// Remove expired chunks
+		expiredSequences.forEach((sequence) => {
+			this.activeTransmission?.audioChunks.delete(sequence);
+		});
+		this.sql.exec("DELETE FROM audio_chunks WHERE expires <= ?", now);
+
+		if (expiredSequences.length > 0) {
+			console.log(`Cleaned up ${expiredSequences.length} expired audio chunks`);
+		}
+	}
+
+	/**
+	 * Remove the transmissions that left the catch-up window.
+	 *
+	 * Transmissions interrupted without an end time (Durable Object evicted and not resumed)
+	 * are considered ended at their maximum duration.
+	 *
+	 * @param now - Current timestamp in milliseconds
+	 *
+	 * @private
+	 */
+	private cleanupCatchUpTransmissions(now: number) {
+		const threshold = now - this.CATCH_UP_WINDOW_MS;
+		const activeSessionId = this.activeTransmission?.sessionId || "";
+
+		this.sql.exec(
+			`
+			DELETE FROM recent_transmissions
+			WHERE session_id != ?
+				AND COALESCE(end_time, start_time + ?) < ?
+		`,
+			activeSessionId,
+			this.MAX_TRANSMISSION_DURATION_MS,
+			threshold,
+		);
+		this.sql.exec(
+			"DELETE FROM recent_chunks WHERE session_id NOT IN (SELECT session_id FROM recent_transmissions)",
+		);
+		this.sql.exec(
+			"DELETE FROM relay_targets WHERE origin_session_id NOT IN (SELECT session_id FROM recent_transmissions)",
+		);
+		this.sql.exec(
+			"DELETE FROM call_targets WHERE session_id NOT IN (SELECT session_id FROM recent_transmissions)",
+		);
+	}
+
+	/**
+	 * Ask the talker to retransmit the chunks missing before a newly received chunk.
+	 *
+	 * Every missing sequence between the expected sequence and the received one is recorded
+	 * with a deadline, so that the chunks never received count as lost, then a `chunk_nack`
+	 * listing them is sent to the talker. At most {@link MAX_RETRANSMISSION_REQUEST_SIZE}
+	 * sequences are requested, the oldest ones being already too late to be played.
+	 *
+	 * @param receivedSequence - Sequence of the chunk that revealed the gap
+	 *
+	 * @private
+	 */
+	private requestRetransmission(receivedSequence: number) {
+		const transmission = this.activeTransmission;
+
+		if (!transmission) return;
+
+		const receivedSequences = new Set(
+			this.sql
+				.exec(
+					`
+				SELECT sequence FROM recent_chunks
+				WHERE session_id = ? AND sequence >= ? AND sequence < ?
+			`,
+					transmission.sessionId,
+					transmission.expectedSequence,
+					receivedSequence,
+				)
+				.toArray()
+				.map((row) => Number(row.sequence)),
+		);
+		const { missing, requested } = findMissingChunks(
+			transmission.expectedSequence,
+			receivedSequence,
+			receivedSequences,
+			this.MAX_RETRANSMISSION_REQUEST_SIZE,
+		);
+		const deadline = Date.now() + this.RETRANSMISSION_WINDOW_MS;
+		const recordedSequences = new Set<number>();
+
+		for (const sequence of missing) {
+			const cursor = this.sql.exec(
+				`
+				INSERT OR IGNORE INTO missing_chunks (session_id, sequence, deadline)
+				VALUES (?, ?, ?)
+			`,
+				transmission.sessionId,
+				sequence,
+				deadline,
+			);
+
+			// Already requested when an earlier chunk revealed the same gap
+			if (cursor.rowsWritten > 0) {
+				recordedSequences.add(sequence);
+			}
+		}
+
+		const missingSequences = requested.filter((sequence) =>
+			recordedSequences.has(sequence),
+		);
+
+		if (missingSequences.length === 0) return;
+
+		// The origin channel of a mirrored transmission asks the talker, the retransmitted chunks
+		// are relayed like the others
+		if (transmission.relayedFrom) return;
+
+		console.warn(
+			`Detected ${missing.length} missing chunk(s) before ${receivedSequence}, requesting retransmission of ${missingSequences.length}`,
+		);
+
+		this.sendToUser(transmission.userId, {
+			type: "chunk_nack",
+			session_id: transmission.sessionId,
+			channel_uuid: transmission.channelUuid,
+			timestamp_ms: Date.now(),
+			data: {
+				missing_sequences: missingSequences,
+				retransmission_window_ms: this.RETRANSMISSION_WINDOW_MS,
+			},
+		});
+	}
+
+	/**
+	 * Record a chunk filling a gap of the active transmission.
+	 *
+	 * @param sessionId - Transmission session ID
+	 * @param sequence - Sequence of the received chunk
+	 * @returns True if the chunk was missing and arrived within the retransmission window
+	 *
+	 * @private
+	 */
+	private markChunkRecovered(sessionId: string, sequence: number): boolean {
+		const cursor = this.sql.exec(
+			`
+			UPDATE missing_chunks SET recovered = 1
+			WHERE session_id = ? AND sequence = ? AND recovered = 0 AND deadline >= ?
+		`,
+			sessionId,
+			sequence,
+			Date.now(),
+		);
+
+		return cursor.rowsWritten > 0;
+	}
+
+	/**
+	 * Get the chunk delivery statistics of a transmission.
+	 *
+	 * @param sessionId - Transmission session ID
+	 * @returns Number of received chunks, of missing chunks recovered in time and of lost chunks
+	 *
+	 * @private
+	 */
+	private getChunkStats(sessionId: string): {
+		received: number;
+		recovered: number;
+		lost: number;
+	} {
+		const received = this.sql
+			.exec(
+				"SELECT COUNT(*) AS count FROM recent_chunks WHERE session_id = ?",
+				sessionId,
+			)
+			.one();
+		const missing = this.sql
+			.exec(
+				`
+				SELECT
+					COALESCE(SUM(recovered), 0) AS recovered,
+					COUNT(*) - COALESCE(SUM(recovered), 0) AS lost
+				FROM missing_chunks WHERE session_id = ?
+			`,
+				sessionId,
+			)
+			.one();
+
+		return {
+			received: Number(received.count),
+			recovered: Number(missing.recovered),
+			lost: Number(missing.lost),
+		};
+	}
+
+	/**
+	 * Handle a `retransmit_request` WebSocket message from a listener.
+	 *
+	 * Chunks still held by the Durable Object are sent back to the listener only. Chunks the
+	 * talker was asked to retransmit will be broadcast when they arrive, the other ones are
+	 * reported as unavailable with a `chunk_unavailable` error.
+	 *
+	 * @param ephemeralPushToken - The ephemeral push token of the requesting listener
+	 * @param message - The retransmission request
+	 *
+	 * @private
+	 */
+	private handleRetransmitRequest(
+		ephemeralPushToken: string,
+		message: PTTRetransmitRequestMessage,
+	) {
+		const participant = this.getConnectedParticipants().get(ephemeralPushToken);
+
+		if (!participant || !Array.isArray(message.sequences)) return;
+
+		// The audio of a private call is only resent to its listeners
+		if (!this.canHearTransmission(participant.userId, message.session_id))
+			return;
+
+		const sequences = message.sequences
+			.map(Number)
+			.filter(Number.isInteger)
+			.slice(0, this.MAX_RETRANSMISSION_REQUEST_SIZE);
+		const unavailableSequences: number[] = [];
+
+		for (const sequence of sequences) {
+			const chunk = this.sql
+				.exec(
+					"SELECT data FROM recent_chunks WHERE session_id = ? AND sequence = ?",
+					message.session_id,
+					sequence,
+				)
+				.toArray()[0];
+
+			const data = chunk
+				? this.getListenerChunkData(
+						message.session_id,
+						sequence,
+						String(chunk.data),
+						participant.audioFormats,
+					)
+				: null;
+
+			if (data) {
+				this.sendToParticipant(ephemeralPushToken, {
+					type: "audio_chunk",
+					session_id: message.session_id,
+					channel_uuid: participant.channelUuid,
+					timestamp_ms:
+						this.activeTransmission?.audioChunks.get(sequence)?.chunk
+							.timestamp || Date.now(),
+					data: { sequence, ...data, retransmitted: true },
+				});
+				continue;
+			}
+
+			const pending = this.sql
+				.exec(
+					`
+					SELECT 1 FROM missing_chunks
+					WHERE session_id = ? AND sequence = ? AND recovered = 0 AND deadline >= ?
+				`,
+					message.session_id,
+					sequence,
+					Date.now(),
+				)
+				.toArray();
+
+			if (pending.length === 0) {
+				unavailableSequences.push(sequence);
+			}
+		}
+
+		if (unavailableSequences.length > 0) {
+			this.sendToParticipant(ephemeralPushToken, {
+				type: "error",
+				session_id: message.session_id,
+				channel_uuid: participant.channelUuid,
+				timestamp_ms: Date.now(),
+				data: {
+					message: `Chunks not available: ${unavailableSequences.join(", ")}`,
+					code: "chunk_unavailable",
+				},
+			});
+		}
+	}
+
+	/**
+	 * Replay the transmissions of the last minutes to a participant.
+	 *
+	 * Sends one `catch_up` message per ended transmission, in chronological order, followed by
+	 * its audio chunks ordered by sequence as `audio_chunk` messages flagged `replayed`, framed
+	 * like live chunks for the subprotocol of the connection. The active transmission is not
+	 * included since it is synchronized through the regular late-joiner replay. Private calls
+	 * are only replayed to their talker and targets. Past transmissions are not transcoded, the
+	 * ones in a format the participant did not declare and would get transcoded live are
+	 * skipped. A single `catch_up` message with `total: 0` is sent when nothing was missed.
+	 *
+	 * @param ephemeralPushToken - The ephemeral push token of the participant
+	 * @param minutes - Number of minutes to replay, capped to the catch-up window
+	 *
+	 * @private
+	 */
+	private sendCatchUp(ephemeralPushToken: string, minutes: number) {
+		const participant = this.getConnectedParticipants().get(ephemeralPushToken);
+
+		if (!participant) return;
+
+		const windowMs = Math.min(minutes * 60 * 1000, this.CATCH_UP_WINDOW_MS);
+		const transmissions = this.sql
+			.exec(
+				`
+				SELECT * FROM recent_transmissions
+				WHERE start_time >= ? AND session_id != ?
+				ORDER BY start_time
+			`,
+				Date.now() - windowMs,
+				this.activeTransmission?.sessionId || "",
+			)
+			.toArray()
+			.filter(
+				(row) =>
+					this.canHearTransmission(
+						participant.userId,
+						String(row.session_id),
+					) &&
+					selectListenerFormat(
+						row.audio_format as AudioFormat,
+						participant.audioFormats,
+					) === row.audio_format,
+			);
+
+		if (transmissions.length === 0) {
+			this.sendToParticipant(ephemeralPushToken, {
+				type: "catch_up",
+				session_id: "",
+				channel_uuid: participant.channelUuid,
+				timestamp_ms: Date.now(),
+				data: {
+					index: 0,
+					total: 0,
+				},
+			});
+
+			return;
+		}
+
+		transmissions.forEach((row, index) => {
+			const sessionId = String(row.session_id);
+			const audioFormat = row.audio_format as AudioFormat;
+			const sampleRate = Number(row.sample_rate);
+			const startTime = Number(row.start_time);
+			const endTime =
+				row.end_time !== null
+					? Number(row.end_time)
+					: startTime + this.MAX_TRANSMISSION_DURATION_MS;
+			const chunks = this.sql
+				.exec(
+					"SELECT sequence, data FROM recent_chunks WHERE session_id = ? ORDER BY sequence",
+					sessionId,
+				)
+				.toArray();
+
+			this.sendToParticipant(ephemeralPushToken, {
+				type: "catch_up",
+				session_id: sessionId,
+				channel_uuid: participant.channelUuid,
+				timestamp_ms: Date.now(),
+				data: {
+					index: index + 1,
+					total: transmissions.length,
+					transmission: {
+						user_id: String(row.user_id),
+						username: String(row.username),
+						audio_format: audioFormat,
+						sample_rate: sampleRate,
+						start_time_ms: startTime,
+						duration_ms: endTime - startTime,
+						is_emergency: Boolean(row.is_emergency),
+						total_chunks: chunks.length,
+					},
+				},
+			});
+
+			for (const chunk of chunks) {
+				const audioData = String(chunk.data);
+
+				// The format is set since the chunk is not part of the active transmission
+				this.sendToParticipant(ephemeralPushToken, {
+					type: "audio_chunk",
+					session_id: sessionId,
+					channel_uuid: participant.channelUuid,
+					timestamp_ms: Date.now(),
+					data: {
+						sequence: Number(chunk.sequence),
+						audio_data: audioData,
+						size_bytes: decodeBase64Audio(audioData).length,
+						replayed: true,
+						audio_format: audioFormat,
+						sample_rate: sampleRate,
+					},
+				});
+			}
+		});
+	}
+
+	/**
+	 * Create the SQLite tables holding the channel state.
+	 *
+	 * - `active_transmission`: single row describing the current floor holder
+	 * - `floor_queue`: floor requests waiting for the active transmission to end
+	 * - `audio_chunks`: buffered audio chunks of the active transmission for late joiners
+	 * - `recent_transmissions` and `recent_chunks`: transmissions of the catch-up window with
+	 *   all their audio chunks, also used to assemble recordings
+	 * - `relay_targets`: sessions mirroring the emergency transmissions of this channel in other
+	 *   channels
+	 * - `relayed_transmission`: origin of the active transmission when it is mirrored from
+	 *   another channel
+	 * - `call_targets`: participants addressed by the private calls of the catch-up window
+	 * - `live_positions`: last position of each participant for the live map feed, without
+	 *   position when the user opted out of location sharing
+	 *
+	 * @private
+	 */
+	private initializeStorage() {
+		this.sql.exec(`
+			CREATE TABLE IF NOT EXISTS active_transmission (
+				id INTEGER PRIMARY KEY CHECK (id = 1),
+				session_id TEXT NOT NULL,
+				channel_uuid TEXT NOT NULL,
+				user_id TEXT NOT NULL,
+				username TEXT NOT NULL,
+				start_time INTEGER NOT NULL,
+				audio_format TEXT NOT NULL,
+				sample_rate INTEGER,
+				bitrate INTEGER,
+				network_quality TEXT,
+				location_lat REAL,
+				location_lon REAL,
+				is_emergency INTEGER NOT NULL DEFAULT 0,
+				is_recording INTEGER NOT NULL DEFAULT 0,
+				expected_sequence INTEGER NOT NULL DEFAULT 1,
+				total_bytes INTEGER NOT NULL DEFAULT 0
+			);
+			CREATE TABLE IF NOT EXISTS floor_queue (
+				position INTEGER PRIMARY KEY AUTOINCREMENT,
+				user_id TEXT NOT NULL UNIQUE,
+				username TEXT NOT NULL,
+				is_emergency INTEGER NOT NULL DEFAULT 0,
+				request TEXT NOT NULL,
+				requested_at INTEGER NOT NULL
+			);
+			CREATE TABLE IF NOT EXISTS audio_chunks (
+				sequence INTEGER PRIMARY KEY,
+				data TEXT NOT NULL,
+				timestamp INTEGER NOT NULL,
+				size_bytes INTEGER NOT NULL,
+				expires INTEGER NOT NULL
+			);
+			CREATE TABLE IF NOT EXISTS recent_transmissions (
+				session_id TEXT PRIMARY KEY,
+				user_id TEXT NOT NULL,
+				username TEXT NOT NULL,
+				audio_format TEXT NOT NULL,
+				sample_rate INTEGER,
+				start_time INTEGER NOT NULL,
+				end_time INTEGER,
+				is_emergency INTEGER NOT NULL DEFAULT 0
+			);
+			CREATE TABLE IF NOT EXISTS recent_chunks (
+				session_id TEXT NOT NULL,
+				sequence INTEGER NOT NULL,
+				data TEXT NOT NULL,
+				PRIMARY KEY (session_id, sequence)
+			);
+			CREATE TABLE IF NOT EXISTS missing_chunks (
+				session_id TEXT NOT NULL,
+				sequence INTEGER NOT NULL,
+				deadline INTEGER NOT NULL,
+				recovered INTEGER NOT NULL DEFAULT 0,
+				PRIMARY KEY (session_id, sequence)
+			);
+			CREATE TABLE IF NOT EXISTS relay_targets (
+				origin_session_id TEXT NOT NULL,
+				channel_uuid TEXT NOT NULL,
+				session_id TEXT NOT NULL,
+				PRIMARY KEY (origin_session_id, channel_uuid)
+			);
+			CREATE TABLE IF NOT EXISTS relayed_transmission (
+				session_id TEXT PRIMARY KEY,
+				origin_channel_uuid TEXT NOT NULL,
+				origin_session_id TEXT NOT NULL
+			);
+			CREATE TABLE IF NOT EXISTS call_targets (
+				session_id TEXT NOT NULL,
+				user_id TEXT NOT NULL,
+				PRIMARY KEY (session_id, user_id)
+			);
+			CREATE TABLE IF NOT EXISTS scanners (
+				user_id TEXT PRIMARY KEY,
+				subscribed_at INTEGER NOT NULL
+			);
+			CREATE TABLE IF NOT EXISTS live_positions (
+				user_id TEXT PRIMARY KEY,
+				username TEXT NOT NULL,
+				position TEXT,
+				share_location INTEGER NOT NULL DEFAULT 1,
+				received_at INTEGER NOT NULL,
+				persisted_at INTEGER NOT NULL
+			);
+		`);
+	}
+
+	/**
+	 * Restore the active transmission from SQLite storage.
+	 *
+	 * Called when the Durable Object is (re)created, for instance after hibernation or eviction,
+	 * so that the same floor holder keeps the channel and late joiners still get the buffer.
+	 *
+	 * @returns The restored transmission, or null if none was in progress
+	 *
+	 * @private
+	 */
+	private loadActiveTransmission(): LiveTransmission | null {
+		const row = this.sql
+			.exec("SELECT * FROM active_transmission WHERE id = 1")
+			.toArray()[0];
+
+		if (!row) return null;
+
+		const relaySource = this.sql
+			.exec(
+				"SELECT * FROM relayed_transmission WHERE session_id = ?",
+				row.session_id,
+			)
+			.toArray()[0];
+		const targetUserIds = this.sql
+			.exec(
+				"SELECT user_id FROM call_targets WHERE session_id = ?",
+				row.session_id,
+			)
+			.toArray()
+			.map((target) => String(target.user_id));
+		const audioChunks: LiveTransmission["audioChunks"] = new Map();
+
+		for (const chunkRow of this.sql.exec(
+			"SELECT * FROM audio_chunks ORDER BY sequence",
+		)) {
+			audioChunks.set(Number(chunkRow.sequence), {
+				chunk: {
+					sequence: Number(chunkRow.sequence),
+					data: String(chunkRow.data),
+					timestamp: Number(chunkRow.timestamp),
+					sizeBytes: Number(chunkRow.size_bytes),
+				},
+				expires: Number(chunkRow.expires),
+			});
+		}
+
+		return {
+			sessionId: String(row.session_id),
+			channelUuid: String(row.channel_uuid),
+			userId: String(row.user_id),
+			username: String(row.username),
+			startTime: Number(row.start_time),
+			audioFormat: row.audio_format as AudioFormat,
+			sampleRate: Number(row.sample_rate),
+			bitrate: Number(row.bitrate),
+			networkQuality: row.network_quality as NetworkQuality,
+			location:
+				row.location_lat !== null && row.location_lon !== null
+					? { lat: Number(row.location_lat), lon: Number(row.location_lon) }
+					: undefined,
+			isEmergency: Boolean(row.is_emergency),
+			isRecording: Boolean(row.is_recording),
+			relayedFrom: relaySource
+				? {
+						channel_uuid: String(relaySource.origin_channel_uuid),
+						session_id: String(relaySource.origin_session_id),
+					}
+				: undefined,
+			targetUserIds: targetUserIds.length > 0 ? targetUserIds : undefined,
+			audioChunks,
+			participants: new Set(),
+			expectedSequence: Number(row.expected_sequence),
+			totalBytes: Number(row.total_bytes),
+		};
+	}
+
+	/**
+	 * Persist the active transmission metadata to SQLite storage.
+	 *
+	 * @private
+	 */
+	private persistActiveTransmission() {
+		const transmission = this.activeTransmission;
+
+		if (!transmission) return;
+
+		this.sql.exec(
+			`
+			INSERT OR REPLACE INTO active_transmission (
+				id, session_id, channel_uuid, user_id, username, start_time, audio_format,
+				sample_rate, bitrate, network_quality, location_lat, location_lon,
+				is_emergency, is_recording, expected_sequence, total_bytes
+			) VALUES (1, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+		`,
+			transmission.sessionId,
+			transmission.channelUuid,
+			transmission.userId,
+			transmission.username,
+			transmission.startTime,
+			transmission.audioFormat,
+			transmission.sampleRate ?? null,
+			transmission.bitrate ?? null,
+			transmission.networkQuality ?? null,
+			transmission.location?.lat ?? null,
+			transmission.location?.lon ?? null,
+			transmission.isEmergency ? 1 : 0,
+			transmission.isRecording ? 1 : 0,
+			transmission.expectedSequence,
+			transmission.totalBytes,
+		);
+
+		if (transmission.relayedFrom) {
+			this.sql.exec(
+				`
+				INSERT OR IGNORE INTO relayed_transmission (
+					session_id, origin_channel_uuid, origin_session_id
+				) VALUES (?, ?, ?)
+			`,
+				transmission.sessionId,
+				transmission.relayedFrom.channel_uuid,
+				transmission.relayedFrom.session_id,
+			);
+		}
+
+		for (const userId of transmission.targetUserIds || []) {
+			this.sql.exec(
+				"INSERT OR IGNORE INTO call_targets (session_id, user_id) VALUES (?, ?)",
+				transmission.sessionId,
+				userId,
+			);
+		}
+	}
+
+	/**
+	 * Persist a buffered audio chunk to SQLite storage.
+	 *
+	 * @param chunk - The audio chunk to buffer
+	 * @param expires - Timestamp after which the chunk is no longer replayed to late joiners
+	 *
+	 * @private
+	 */
+	private persistAudioChunk(chunk: AudioChunk, expires: number) {
+		this.sql.exec(
+			`
+			INSERT OR REPLACE INTO audio_chunks (sequence, data, timestamp, size_bytes, expires)
+			VALUES (?, ?, ?, ?, ?)
+		`,
+			chunk.sequence,
+			chunk.data,
+			chunk.timestamp,
+			chunk.sizeBytes,
+			expires,
+		);
+	}
+
+	/**
+	 * Clear the active transmission from memory and SQLite storage.
+	 *
+	 * The transmission itself stays in `recent_transmissions` for catch-up replay, with its
+	 * end time set.
+	 *
+	 * @private
+	 */
+	private clearActiveTransmission() {
+		if (this.activeTransmission) {
+			this.sql.exec(
+				"UPDATE recent_transmissions SET end_time = ? WHERE session_id = ?",
+				Date.now(),
+				this.activeTransmission.sessionId,
+			);
+			this.sql.exec(
+				"DELETE FROM missing_chunks WHERE session_id = ?",
+				this.activeTransmission.sessionId,
+			);
+		}
+
+		this.activeTransmission = null;
+		this.audioTranscoder?.free();
+		this.audioTranscoder = null;
+		this.sql.exec("DELETE FROM active_transmission");
+		this.sql.exec("DELETE FROM audio_chunks");
+		this.sql.exec("DELETE FROM relayed_transmission");
+	}
+
+	/**
+	 * Read the channel settings applying to a new transmission.
+	 *
+	 * @param channelUuid - Channel identifier
+	 * @param userId - Requester of the transmission
+	 * @returns Whether transmissions must be recorded, the activation windows of a
+	 *   scheduled channel, and whether the requester is muted
+	 *
+	 * @private
+	 */
+	private async getChannelSettings(
+		channelUuid: string,
+		userId: string,
+	): Promise<{
+		recordingEnabled: boolean;
+		activeWindows?: ChannelActiveWindow[];
+		isMuted: boolean;
+	}> {
+		try {
+			const channel = await this.env.PTT_DB.prepare(
+				`SELECT recording_enabled, active_windows,
+					EXISTS (
+						SELECT 1 FROM channel_mutes
+						WHERE channel_uuid = channels.uuid AND user_id = ?
+						  AND (expires_at IS NULL OR expires_at > ?)
+					) AS is_muted
+				FROM channels WHERE uuid = ?`,
+			)
+				.bind(userId, new Date().toISOString(), channelUuid.toLowerCase())
+				.first<{
+					recording_enabled: number | null;
+					active_windows: string | null;
+					is_muted: number;
+				}>();
 
 			return {
-				success: true,
-				session_id: sessionId,
-				max_duration_ms: this.MAX_TRANSMISSION_DURATION_MS,
-				chunk_size_limit_bytes: this.MAX_CHUNK_SIZE_BYTES,
+				recordingEnabled: Boolean(channel?.recording_enabled),
+				activeWindows: channel?.active_windows
+					? JSON.parse(channel.active_windows)
+					: undefined,
+				isMuted: Boolean(channel?.is_muted),
 			};
 		} catch (error) {
-			console.error("Start PTT transmission logic error:", error);
-			return {
-				success: false,
-				error: "Failed to start transmission",
-			};
+			console.error("Failed to read channel settings:", error);
+
+			return { recordingEnabled: false, isMuted: false };
 		}
 	}
 
 	/**
-	 * Common business logic for processing audio chunks (DRY principle).
-	 *
-	 * This method handles the real-time processing and broadcasting of audio chunks,
-	 * shared between HTTP handlers and RPC methods to ensure consistent behavior.
+	 * Store the recording of a transmission in R2.
 	 *
-	 * Process:
-	 * 1. Validates active transmission and session ID
-	 * 2. Accepts chunks with tolerance to packet loss and out-of-order delivery
-	 * 3. Validates chunk size against limits
-	 * 4. Stores chunk temporarily for late-joining participants
-	 * 5. Updates transmission statistics and expected sequence
-	 * 6. Broadcasts chunk immediately to all connected participants
+	 * All the chunks received during the transmission are assembled into a single playable
+	 * file (WebM/Opus, ADTS AAC or WAV depending on the audio format) stored under
+	 * `recordings/{channel_uuid}/{session_id}.{extension}`. The chunks are read synchronously,
+	 * so the transmission state can be cleared as soon as this method returns its promise.
 	 *
-	 * Packet Loss Tolerance:
-	 * - Accepts out-of-order chunks within reasonable bounds
-	 * - Handles duplicate chunks gracefully
-	 * - Updates expected sequence based on highest received chunk
-	 * - Logs missing chunks for debugging and monitoring
+	 * @param transmission - The transmission being ended
+	 * @returns Promise resolving to the R2 object key, or null if nothing was recorded
 	 *
-	 * @param request - Audio chunk request data
-	 * @param request.session_id - Transmission session identifier
-	 * @param request.chunk_sequence - Sequential chunk number (can be out-of-order)
-	 * @param request.audio_data - Base64-encoded audio data
-	 * @param request.timestamp_ms - Client timestamp of audio chunk
-	 * @param request.chunk_size_bytes - Size of audio data in bytes
+	 * @private
+	 */
+	private async storeRecording(
+		transmission: LiveTransmission,
+	): Promise<string | null> {
+		if (!transmission.isRecording) return null;
+
+		const chunks = this.sql
+			.exec(
+				"SELECT data FROM recent_chunks WHERE session_id = ? ORDER BY sequence",
+				transmission.sessionId,
+			)
+			.toArray()
+			.map((row) => String(row.data));
+
+		if (chunks.length === 0) return null;
+
+		try {
+			return await putRecording(
+				this.env.PTT_RECORDINGS,
+				transmission,
+				chunks.map((chunk) => decodeBase64Audio(chunk)),
+			);
+		} catch (error) {
+			console.error("Failed to store transmission recording:", error);
+
+			return null;
+		}
+	}
+
+	/**
+	 * Escalate an emergency transmission.
 	 *
-	 * @returns Promise resolving to chunk processing result
+	 * Opens an incident with the talker identity and position, falling back on the last
+	 * position saved in the user preferences, tells the channel about it and delivers it to
+	 * the notifiers configured by the `INCIDENT_*` variables, with retries. Repeated emergency
+	 * calls of the same pilot update the open incident without notifying again.
 	 *
-	 * @throws Will return error for invalid session, severely out-of-order chunks, or size violations
+	 * @param transmission - Emergency transmission that just started
 	 *
-	 * @example
-	 * ```typescript
-	 * const result = await this.handleAudioChunkLogic({
-	 *   session_id: "ptt_channel123_user456_1234567890_abc123",
-	 *   chunk_sequence: 1,
-	 *   audio_data: "base64-encoded-audio-data",
-	 *   timestamp_ms: Date.now(),
-	 *   chunk_size_bytes: 4096
-	 * });
-	 * ```
+	 * @private
 	 */
-	private async handleAudioChunkLogic(request: PTTAudioChunkRequest): Promise<{
-		success: boolean;
-		error?: string;
-		chunk_received?: boolean;
-		next_expected_sequence?: number;
-	}> {
+	private async escalateEmergency(
+		transmission: LiveTransmission,
+	): Promise<void> {
 		try {
-			// Validate active transmission
-			if (
-				!this.activeTransmission ||
-				this.activeTransmission.sessionId !== request.session_id
-			) {
-				return {
-					success: false,
-					chunk_received: false,
-					error: "Invalid or expired session",
-				};
-			}
+			const incidentService = new IncidentService(this.env.PTT_DB);
+			const location = await this.getTalkerLocation(transmission);
+			const result = await incidentService.openIncident({
+				channel_uuid: transmission.channelUuid,
+				session_id: transmission.sessionId,
+				user_id: transmission.userId,
+				username: transmission.username,
+				location,
+			});
 
-			// Validate chunk sequence - be tolerant to packet loss
-			const isExpectedSequence = request.chunk_sequence === this.activeTransmission.expectedSequence;
-			const isDuplicate = this.activeTransmission.audioChunks.has(request.chunk_sequence);
-			const isFutureSequence = request.chunk_sequence > this.activeTransmission.expectedSequence;
+			if (!result) {
+				console.error(
+					`Failed to open an incident for emergency transmission ${transmission.sessionId}`,
+				);
 
-			// Accept chunks that are:
-			// 1. The expected sequence (normal case)
-			// 2. Future sequences (packet arrived out of order)
-			// 3. Duplicate chunks (retransmission)
-			if (!isExpectedSequence && !isFutureSequence && !isDuplicate) {
-				// Only reject chunks that are clearly too old (more than 10 chunks behind)
-				const maxAcceptableLag = 10;
-				if (request.chunk_sequence < this.activeTransmission.expectedSequence - maxAcceptableLag) {
-					return {
-						success: false,
-						chunk_received: false,
-						error: `Chunk too old. Expected >= ${this.activeTransmission.expectedSequence - maxAcceptableLag}, got ${request.chunk_sequence}`,
-					};
-				}
+				return;
 			}
 
-			// Handle duplicate chunks
-			if (isDuplicate) {
-				console.warn(`Received duplicate chunk ${request.chunk_sequence}, ignoring`);
-				return {
-					success: true,
-					chunk_received: true,
-					next_expected_sequence: this.activeTransmission.expectedSequence,
-				};
+			if (!result.created) {
+				// Already escalated, rescuers see the updated position in the incident
+				return;
 			}
 
-			// Validate chunk size
-			if (request.chunk_size_bytes > this.MAX_CHUNK_SIZE_BYTES) {
-				return {
-					success: false,
-					chunk_received: false,
-					error: "Chunk size exceeds 64KB limit",
-				};
+			this.broadcastIncidentUpdate(result.incident);
+			await this.deliverIncident(result.incident, incidentService);
+		} catch (error) {
+			console.error("Failed to escalate emergency transmission:", error);
+		}
+	}
+
+	/**
+	 * Deliver a new incident to the notifiers configured by the `INCIDENT_*` variables, with
+	 * retries. Failed deliveries are logged and recorded with the incident.
+	 *
+	 * @param incident - Incident just opened
+	 * @param incidentService - Service recording the delivery status
+	 *
+	 * @private
+	 */
+	private async deliverIncident(
+		incident: EmergencyIncident,
+		incidentService: IncidentService,
+	): Promise<void> {
+		const notifiers = createIncidentNotifiers(this.env);
+
+		if (notifiers.length === 0) {
+			console.warn(
+				`Incident ${incident.id} opened but no incident notifier is configured`,
+			);
+
+			return;
+		}
+
+		const notifications = await incidentService.escalate(incident, notifiers);
+
+		for (const notification of notifications) {
+			if (notification.status !== "delivered") {
+				console.error(
+					`Incident ${incident.id} not delivered to ${notification.notifier}: ${notification.last_error}`,
+				);
 			}
+		}
+	}
 
-			const audioChunk: AudioChunk = {
-				sequence: request.chunk_sequence,
-				data: request.audio_data,
-				timestamp: request.timestamp_ms,
-				sizeBytes: request.chunk_size_bytes,
-			};
+	/**
+	 * Handle a `position_update` message sent by a participant.
+	 *
+	 * Updates sent faster than {@link POSITION_UPDATE_INTERVAL_MS} are dropped, the others are
+	 * fanned out to the other participants as a live map feed. Every
+	 * {@link POSITION_PERSIST_INTERVAL_MS} the position is also persisted to D1 and the share
+	 * location preference of the user is read again: positions of users who opted out are
+	 * neither fanned out nor persisted. A pilot on the move starts being tracked as flying on a
+	 * site_local channel, whatever the preference.
+	 *
+	 * @param ephemeralPushToken - Ephemeral push token of the sender
+	 * @param message - Position reported by the device
+	 *
+	 * @private
+	 */
+	private async handlePositionUpdate(
+		ephemeralPushToken: string,
+		message: PTTPositionUpdateRequestMessage,
+	) {
+		const participant = this.getConnectedParticipants().get(ephemeralPushToken);
 
-			// Store chunk temporarily for late joiners
-			const expiresAt = Date.now() + this.CHUNK_BUFFER_DURATION_MS;
+		if (!participant) return;
 
-			this.activeTransmission.audioChunks.set(request.chunk_sequence, {
-				chunk: audioChunk,
-				expires: expiresAt,
+		const now = Date.now();
+		const validationError = ChannelService.validatePosition(message);
+
+		if (validationError) {
+			this.sendToParticipant(ephemeralPushToken, {
+				type: "error",
+				session_id: "",
+				channel_uuid: participant.channelUuid,
+				timestamp_ms: now,
+				data: {
+					message: validationError,
+				},
 			});
 
-			// Log sequence information for debugging
-			if (!isExpectedSequence && isFutureSequence) {
-				console.warn(`Received out-of-order chunk: expected ${this.activeTransmission.expectedSequence}, got ${request.chunk_sequence}`);
-			}
+			return;
+		}
 
-			// Update transmission stats
-			this.activeTransmission.totalBytes += request.chunk_size_bytes;
+		const previous = this.sql
+			.exec(
+				"SELECT position, share_location, received_at, persisted_at FROM live_positions WHERE user_id = ?",
+				participant.userId,
+			)
+			.toArray()[0];
 
-			// Update expected sequence - be more tolerant to packet loss
-			// If this chunk is the expected one or higher, update expected sequence
-			if (request.chunk_sequence >= this.activeTransmission.expectedSequence) {
-				// Look for the next missing sequence
-				let nextExpected = request.chunk_sequence + 1;
-				const maxLookAhead = 50; // Don't look too far ahead to avoid performance issues
+		// Rate limit per user, whatever the number of devices
+		if (
+			previous &&
+			now - Number(previous.received_at) < this.POSITION_UPDATE_INTERVAL_MS
+		) {
+			return;
+		}
 
-				for (let i = 0; i < maxLookAhead; i++) {
-					if (!this.activeTransmission.audioChunks.has(nextExpected)) {
-						break; // Found a gap
-					}
-					nextExpected++;
-				}
+		const persistDue =
+			!previous ||
+			now - Number(previous.persisted_at) >= this.POSITION_PERSIST_INTERVAL_MS;
+		const shareLocation = persistDue
+			? (
+					await new UserPreferencesService(this.env.PTT_DB).getPreferences(
+						participant.userId,
+					)
+				).share_location
+			: Boolean(previous.share_location);
+		const position: ParticipantPosition = {
+			lat: message.lat,
+			lon: message.lon,
+			altitude_m: message.altitude_m,
+			ground_speed_kmh: message.ground_speed_kmh,
+			heading_deg: message.heading_deg,
+			timestamp_ms: message.timestamp_ms ?? now,
+		};
 
-				// Count missing chunks between old expected and new expected
-				const missingChunks = nextExpected - this.activeTransmission.expectedSequence - 1;
-				if (missingChunks > 0) {
-					console.warn(`Detected ${missingChunks} missing chunk(s) between ${this.activeTransmission.expectedSequence} and ${request.chunk_sequence}`);
-				}
+		// A pilot on the move on a site_local channel is flying, whether the position is shared or not
+		if (
+			isMoving(
+				position,
+				previous?.position ? JSON.parse(String(previous.position)) : null,
+			)
+		) {
+			this.state.waitUntil(
+				this.trackFlight(
+					participant.channelUuid,
+					participant.userId,
+					participant.username,
+				),
+			);
+		}
 
-				this.activeTransmission.expectedSequence = nextExpected;
-			}
+		this.sql.exec(
+			`
+			INSERT OR REPLACE INTO live_positions (
+				user_id, username, position, share_location, received_at, persisted_at
+			) VALUES (?, ?, ?, ?, ?, ?)
+		`,
+			participant.userId,
+			participant.username,
+			shareLocation ? JSON.stringify(position) : null,
+			shareLocation ? 1 : 0,
+			now,
+			persistDue ? now : Number(previous.persisted_at),
+		);
 
-			// Broadcast immediately to all connected participants
-			const message: PTTWebSocketMessage = {
-				type: "audio_chunk",
-				session_id: request.session_id,
-				channel_uuid: this.activeTransmission.channelUuid,
-				timestamp_ms: request.timestamp_ms,
+		if (!shareLocation) return;
+
+		this.broadcastToParticipants(
+			{
+				type: "position_update",
+				session_id: "",
+				channel_uuid: participant.channelUuid,
+				timestamp_ms: now,
 				data: {
-					sequence: request.chunk_sequence,
-					audio_data: request.audio_data,
-					size_bytes: request.chunk_size_bytes,
+					user_id: participant.userId,
+					username: participant.username,
+					position,
 				},
-			};
-			this.broadcastToParticipants(message);
+			},
+			[participant.userId],
+		);
 
-			return {
-				success: true,
-				chunk_received: true,
-				next_expected_sequence: this.activeTransmission.expectedSequence,
-			};
+		if (persistDue) {
+			this.state.waitUntil(this.persistPosition(participant, position));
+		}
+	}
+
+	/**
+	 * Persist a participant position to the channel track in D1, and remember it as the last
+	 * known location of the user (used to locate emergency transmissions without position).
+	 *
+	 * @param participant - Participant who sent the position
+	 * @param position - Position to persist
+	 *
+	 * @private
+	 */
+	private async persistPosition(
+		participant: ConnectedParticipantAttachment,
+		position: ParticipantPosition,
+	): Promise<void> {
+		try {
+			const result = await new ChannelService(
+				this.env.PTT_DB,
+				this.env.PTT_CACHE,
+			).recordParticipantPosition(
+				participant.channelUuid,
+				participant.userId,
+				participant.username,
+				position,
+				this.POSITION_RETENTION_HOURS,
+			);
+
+			if (!result.success) {
+				console.warn(
+					`Position of ${participant.userId} not recorded: ${result.error}`,
+				);
+			}
+
+			await new UserPreferencesService(this.env.PTT_DB).updatePreferences(
+				participant.userId,
+				participant.username,
+				{ last_location: { lat: position.lat, lon: position.lon } },
+			);
 		} catch (error) {
-			console.error("Handle audio chunk logic error:", error);
-			return {
-				success: false,
-				chunk_received: false,
-				error: "Failed to process audio chunk",
-			};
+			console.error("Failed to persist participant position:", error);
+		}
+	}
+
+	/**
+	 * Send the last known positions of the other participants to a joining participant.
+	 *
+	 * Positions older than {@link POSITION_FEED_WINDOW_MS} are removed from the live map.
+	 *
+	 * @param ephemeralPushToken - Ephemeral push token of the joining participant
+	 *
+	 * @private
+	 */
+	private sendRecentPositions(ephemeralPushToken: string) {
+		const participant = this.getConnectedParticipants().get(ephemeralPushToken);
+
+		if (!participant) return;
+
+		this.sql.exec(
+			"DELETE FROM live_positions WHERE received_at < ?",
+			Date.now() - this.POSITION_FEED_WINDOW_MS,
+		);
+
+		for (const row of this.sql.exec(
+			"SELECT user_id, username, position, received_at FROM live_positions WHERE position IS NOT NULL AND user_id != ?",
+			participant.userId,
+		)) {
+			this.sendToParticipant(ephemeralPushToken, {
+				type: "position_update",
+				session_id: "",
+				channel_uuid: participant.channelUuid,
+				timestamp_ms: Number(row.received_at),
+				data: {
+					user_id: String(row.user_id),
+					username: String(row.username),
+					position: JSON.parse(String(row.position)) as ParticipantPosition,
+				},
+			});
 		}
 	}
 
 	/**
-	 * Common business logic for ending a PTT transmission.
+	 * Get the position of the talker of a transmission, the last position known from the user
+	 * preferences when the transmission does not carry one.
 	 *
-	 * This method contains the core logic for terminating an active PTT transmission,
-	 * shared between HTTP handlers and RPC methods to ensure consistent behavior.
+	 * @param transmission - Transmission of the talker
+	 * @returns The talker position, undefined if unknown
 	 *
-	 * Process:
-	 * 1. Validates active transmission and session ID
-	 * 2. Clears automatic cleanup timeout
-	 * 3. Broadcasts transmission end to all participants
-	 * 4. Logs transmission audit data to database
-	 * 5. Cleans up transmission state
+	 * @private
+	 */
+	private async getTalkerLocation(
+		transmission: LiveTransmission,
+	): Promise<Coordinates | undefined> {
+		if (transmission.location) {
+			return transmission.location;
+		}
+
+		const preferences = await new UserPreferencesService(
+			this.env.PTT_DB,
+		).getPreferences(transmission.userId);
+
+		return preferences.last_location;
+	}
+
+	/**
+	 * Check whether a transmission must be mirrored into other channels.
 	 *
-	 * @param request - Transmission end request
-	 * @param request.session_id - Transmission session identifier to end
-	 * @param request.total_duration_ms - Total duration of the transmission
+	 * Only emergency transmissions started in this channel are relayed: a transmission mirrored
+	 * from another channel is never relayed again, which prevents relay loops between channels.
 	 *
-	 * @returns Promise resolving to transmission end result with summary
+	 * @param transmission - Transmission to check
+	 * @returns True if this channel is the origin of an emergency transmission
 	 *
-	 * @throws Will return error for invalid session or inactive transmission
+	 * @private
+	 */
+	private isRelayOrigin(transmission: LiveTransmission): boolean {
+		return transmission.isEmergency && !transmission.relayedFrom;
+	}
+
+	/**
+	 * Queue a call mirroring the emergency transmission into other channels.
 	 *
-	 * @example
-	 * ```typescript
-	 * const result = await this.endPTTTransmissionLogic({
-	 *   session_id: "ptt_channel123_user456_1234567890_abc123",
-	 *   total_duration_ms: 5000
-	 * });
+	 * Calls run one after the other so that chunks are never relayed before the start of the
+	 * mirrored transmissions nor after their end. A failed call does not stop the queue.
 	 *
-	 * console.log("Transmission ended:", result.session_summary);
-	 * ```
+	 * @param task - Relay call to run
+	 *
+	 * @private
 	 */
-	private async endPTTTransmissionLogic(request: PTTEndTransmissionRequest): Promise<{
-		success: boolean;
-		error?: string;
-		session_summary?: {
-			total_duration_ms: number;
-			chunks_received: number;
-			total_bytes: number;
-			participants_notified: number;
-			missing_chunks: number;
-			packet_loss_rate: number;
-		};
-	}> {
-		try {
-			if (
-				!this.activeTransmission ||
-				this.activeTransmission.sessionId !== request.session_id
-			) {
-				return {
-					success: false,
-					error: "Invalid or expired session",
-				};
-			}
+	private enqueueRelay(task: () => Promise<void>) {
+		this.relayQueue = this.relayQueue.then(task).catch((error) => {
+			console.error("Emergency relay error:", error);
+		});
+		this.state.waitUntil(this.relayQueue);
+	}
 
-			const transmission = this.activeTransmission;
-			const duration = request.total_duration_ms;
-			const chunksReceived = transmission.expectedSequence - 1;
-			const participantsCount = this.connectedParticipants.size;
+	/**
+	 * Start mirroring an emergency transmission into the regional emergency channel and the
+	 * channels covering the talker position.
+	 *
+	 * Each target channel starts its own transmission carrying the origin in `relayed_from`,
+	 * preempting any normal transmission. Targets already busy with an emergency transmission
+	 * are skipped. The sessions of the mirrored transmissions are kept in `relay_targets`.
+	 *
+	 * @param transmission - Emergency transmission that just started in this channel
+	 *
+	 * @private
+	 */
+	private async startEmergencyRelay(
+		transmission: LiveTransmission,
+	): Promise<void> {
+		const location = await this.getTalkerLocation(transmission);
+		const channels = await new ChannelService(
+			this.env.PTT_DB,
+			this.env.PTT_CACHE,
+		).getEmergencyRelayChannels(transmission.channelUuid, location);
 
-			// Calculate packet loss statistics
-			let missingChunks = 0;
-			const receivedSequences = Array.from(transmission.audioChunks.keys()).sort((a, b) => a - b);
+		await Promise.all(
+			channels.map(async (channel) => {
+				try {
+					const result = await this.env.CHANNEL_OBJECTS.getByName(
+						channel.uuid,
+					).pttRelayStart({
+						channel_uuid: channel.uuid,
+						user_id: transmission.userId,
+						username: transmission.username,
+						audio_format: transmission.audioFormat,
+						sample_rate: transmission.sampleRate,
+						bitrate: transmission.bitrate,
+						network_quality: transmission.networkQuality,
+						location,
+						is_emergency: true,
+						relayed_from: {
+							channel_uuid: transmission.channelUuid,
+							session_id: transmission.sessionId,
+						},
+					});
 
-			if (receivedSequences.length > 0) {
-				const minSequence = Math.min(...receivedSequences);
-				const maxSequence = Math.max(...receivedSequences);
+					if (!result.success || !result.session_id) {
+						console.warn(
+							`Emergency transmission ${transmission.sessionId} not relayed to channel ${channel.uuid}: ${result.error}`,
+						);
 
-				// Count gaps in sequence
-				for (let seq = minSequence; seq <= maxSequence; seq++) {
-					if (!transmission.audioChunks.has(seq)) {
-						missingChunks++;
+						return;
 					}
+
+					this.sql.exec(
+						`
+						INSERT OR REPLACE INTO relay_targets (origin_session_id, channel_uuid, session_id)
+						VALUES (?, ?, ?)
+					`,
+						transmission.sessionId,
+						channel.uuid,
+						result.session_id,
+					);
+				} catch (error) {
+					console.error(
+						`Failed to relay emergency transmission to channel ${channel.uuid}:`,
+						error,
+					);
 				}
-			}
+			}),
+		);
+	}
 
-			const packetLossRate = chunksReceived > 0 ? (missingChunks / (chunksReceived + missingChunks)) * 100 : 0;
+	/**
+	 * Get the sessions mirroring a transmission of this channel in other channels.
+	 *
+	 * @param originSessionId - Session ID of the transmission in this channel
+	 * @returns Target channel and session of each mirrored transmission
+	 *
+	 * @private
+	 */
+	private getRelayTargets(
+		originSessionId: string,
+	): { channelUuid: string; sessionId: string }[] {
+		return this.sql
+			.exec(
+				"SELECT channel_uuid, session_id FROM relay_targets WHERE origin_session_id = ?",
+				originSessionId,
+			)
+			.toArray()
+			.map((row) => ({
+				channelUuid: String(row.channel_uuid),
+				sessionId: String(row.session_id),
+			}));
+	}
 
-			// Clear cleanup timeout
-			if (transmission.cleanupTimeout) {
-				clearTimeout(transmission.cleanupTimeout);
-			}
+	/**
+	 * Relay an audio chunk of the emergency transmission to the mirrored transmissions.
+	 *
+	 * A target channel whose mirrored transmission ended (maximum duration, channel deleted)
+	 * is dropped from the relay.
+	 *
+	 * @param originSessionId - Session ID of the transmission in this channel
+	 * @param request - Audio chunk received from the talker
+	 *
+	 * @private
+	 */
+	private relayAudioChunk(
+		originSessionId: string,
+		request: PTTAudioChunkRequest,
+	) {
+		this.enqueueRelay(async () => {
+			await Promise.all(
+				this.getRelayTargets(originSessionId).map(async (target) => {
+					const result = await this.env.CHANNEL_OBJECTS.getByName(
+						target.channelUuid,
+					).pttChunk({ ...request, session_id: target.sessionId });
 
-			// Broadcast end to participants
-			this.broadcastToParticipants({
-				type: "transmission_ended",
-				session_id: transmission.sessionId,
-				channel_uuid: transmission.channelUuid,
-				timestamp_ms: Date.now(),
-				data: {
-					user_id: transmission.userId,
-					duration_ms: duration,
-					total_chunks: chunksReceived,
-					total_bytes: transmission.totalBytes,
-					missing_chunks: missingChunks,
-					packet_loss_rate: packetLossRate,
-				},
-			});
+					if (result.error === "Invalid or expired session") {
+						this.sql.exec(
+							"DELETE FROM relay_targets WHERE origin_session_id = ? AND channel_uuid = ?",
+							originSessionId,
+							target.channelUuid,
+						);
+					}
+				}),
+			);
+		});
+	}
 
-			// Log transmission for audit (minimal metadata only)
-			await this.logTransmissionAudit(transmission, duration, participantsCount);
+	/**
+	 * End the transmissions mirroring an emergency transmission of this channel.
+	 *
+	 * @param originSessionId - Session ID of the transmission in this channel
+	 * @param durationMs - Duration of the transmission
+	 * @param totalChunks - Number of chunks received from the talker
+	 *
+	 * @private
+	 */
+	private relayTransmissionEnd(
+		originSessionId: string,
+		durationMs: number,
+		totalChunks: number,
+	) {
+		this.enqueueRelay(async () => {
+			await Promise.all(
+				this.getRelayTargets(originSessionId).map((target) =>
+					this.env.CHANNEL_OBJECTS.getByName(target.channelUuid).pttEnd({
+						session_id: target.sessionId,
+						total_duration_ms: durationMs,
+						total_chunks: totalChunks,
+					}),
+				),
+			);
+			this.sql.exec(
+				"DELETE FROM relay_targets WHERE origin_session_id = ?",
+				originSessionId,
+			);
+		});
+	}
 
-			// Clear transmission state
-			this.activeTransmission = null;
+	/**
+	 * Post a text message in the channel.
+	 *
+	 * The message is stored in D1 then delivered to every connected participant with a
+	 * `text_message` message. A muted participant can only send canned messages, which carry
+	 * safety information such as a landing report: the "Landed OK" canned message is also a
+	 * landed check-in.
+	 *
+	 * @param channelUuid - Channel of this Durable Object
+	 * @param sender - Author of the message
+	 * @param request - Free text or canned message
+	 * @returns Outcome with the stored message
+	 *
+	 * @private
+	 */
+	private async postTextMessage(
+		channelUuid: string,
+		sender: { user_id: string; username: string },
+		request: ChannelTextMessageRequest,
+	): Promise<ChannelTextMessageResult> {
+		const resolved = MessageService.resolveTextMessage(request);
 
-			console.log(`Transmission ended: ${chunksReceived} chunks received, ${missingChunks} missing (${packetLossRate.toFixed(1)}% loss)`);
+		if (!resolved.message) {
+			return { success: false, error: resolved.error };
+		}
 
-			return {
-				success: true,
-				session_summary: {
-					total_duration_ms: duration,
-					chunks_received: chunksReceived,
-					total_bytes: transmission.totalBytes,
-					participants_notified: participantsCount,
-					missing_chunks: missingChunks,
-					packet_loss_rate: packetLossRate,
-				},
-			};
-		} catch (error) {
-			console.error("End PTT transmission logic error:", error);
+		if (
+			!resolved.message.canned_message_id &&
+			(await new ModerationService(this.env.PTT_DB).isMuted(
+				channelUuid,
+				sender.user_id,
+			))
+		) {
 			return {
 				success: false,
-				error: "Failed to end transmission",
+				error:
+					"You have been muted by a moderator, only canned messages can be sent",
 			};
 		}
+
+		const message = await new MessageService(this.env.PTT_DB).postMessage(
+			channelUuid,
+			sender,
+			resolved.message,
+		);
+
+		if (!message) {
+			return { success: false, error: "Failed to post text message" };
+		}
+
+		this.broadcastToParticipants({
+			type: "text_message",
+			session_id: "",
+			channel_uuid: message.channel_uuid,
+			timestamp_ms: Date.parse(message.timestamp),
+			data: message,
+		});
+
+		if (message.canned_message_id === "landed_ok") {
+			this.state.waitUntil(
+				this.recordCheckin(channelUuid, sender, {
+					via: "text",
+					location: message.location,
+				}),
+			);
+		}
+
+		return { success: true, message };
 	}
 
 	/**
-	 * Get current PTT channel status information.
+	 * Start tracking the flight of a pilot who transmits or moves on a site_local channel.
 	 *
-	 * Retrieves comprehensive status data about the PTT channel including any active
-	 * transmission details and participant connection count. Used by both HTTP and RPC endpoints.
-	 *
-	 * This method provides real-time visibility into channel state for monitoring,
-	 * client synchronization, and administrative purposes.
+	 * Checked at most every {@link FLIGHT_TRACKING_INTERVAL_MS} per user, a new flight is sent to
+	 * the channel with a `pilot_checkin` message.
 	 *
-	 * @returns Status object containing active transmission details and participant count
+	 * @param channelUuid - Channel of this Durable Object
+	 * @param userId - Pilot identifier
+	 * @param username - Pilot display name
 	 *
 	 * @private
 	 */
-	private getPTTStatusLogic(): {
-		success: boolean;
-		active_transmission?: {
-			session_id: string;
-			channel_uuid: string;
-			user_id: string;
-			username: string;
-			start_time: number;
-			audio_format: string;
-			is_emergency: boolean;
-			chunks_count: number;
-			total_bytes: number;
-		} | null;
-		connected_participants: number;
-		timestamp: number;
-	} {
-		return {
-			success: true,
-			active_transmission: this.activeTransmission
-				? {
-					session_id: this.activeTransmission.sessionId,
-					channel_uuid: this.activeTransmission.channelUuid,
-					user_id: this.activeTransmission.userId,
-					username: this.activeTransmission.username,
-					start_time: this.activeTransmission.startTime,
-					audio_format: this.activeTransmission.audioFormat,
-					is_emergency: this.activeTransmission.isEmergency,
-					chunks_count: this.activeTransmission.expectedSequence - 1,
-					total_bytes: this.activeTransmission.totalBytes,
-				}
-				: null,
-			connected_participants: this.connectedParticipants.size,
-			timestamp: Date.now(),
-		};
+	private async trackFlight(
+		channelUuid: string,
+		userId: string,
+		username: string,
+	): Promise<void> {
+		const now = Date.now();
+
+		if (
+			now - (this.flightTrackedAt.get(userId) ?? 0) <
+			this.FLIGHT_TRACKING_INTERVAL_MS
+		) {
+			return;
+		}
+		this.flightTrackedAt.set(userId, now);
+
+		const checkin = await new CheckinService(this.env.PTT_DB).startFlight(
+			channelUuid,
+			{ user_id: userId, username },
+		);
+
+		if (checkin) {
+			this.broadcastCheckin(checkin);
+		}
 	}
 
 	/**
-	 * Handle start transmission HTTP request.
-	 *
-	 * Processes HTTP POST /ptt/start requests to initiate a new PTT transmission.
-	 * Validates request data, delegates to business logic, and returns appropriate HTTP response.
+	 * Record the landing of a pilot.
 	 *
-	 * This method serves as the HTTP endpoint wrapper around the startPTTTransmissionLogic method,
-	 * handling JSON parsing, error formatting, and HTTP response construction.
+	 * The new status is sent to the channel with a `pilot_checkin` message. A pilot checking in
+	 * after becoming overdue closes the incident raised for the missed deadline.
 	 *
-	 * @param request - HTTP request containing PTT start transmission data
-	 * @returns Promise resolving to HTTP response with transmission session details or error
+	 * @param channelUuid - Channel of this Durable Object
+	 * @param pilot - Pilot who landed
+	 * @param details - How the landing was reported, and the moderator who confirmed it
+	 * @returns Outcome with the check-in
 	 *
 	 * @private
 	 */
-	private async handleStartTransmission(request: Request): Promise<Response> {
-		const body = (await request.json()) as PTTStartTransmissionRequest & {
-			user_id: string;
-			username: string;
-		};
+	private async recordCheckin(
+		channelUuid: string,
+		pilot: { user_id: string; username: string },
+		details: {
+			via: PilotCheckinMethod;
+			checked_in_by?: string;
+			location?: Coordinates;
+		},
+	): Promise<PilotCheckinResult> {
+		const result = await new CheckinService(this.env.PTT_DB).checkIn(
+			channelUuid,
+			pilot,
+			details,
+		);
 
-		const result = await this.startPTTTransmissionLogic(body);
+		if (!result.success || !result.checkin) {
+			return { success: false, error: result.error };
+		}
 
-		if (!result.success) {
-			return new Response(
-				JSON.stringify({
-					success: false,
-					error: result.error,
-				}),
-				{
-					status: 400,
-					headers: { "Content-Type": "application/json" },
-				},
+		this.flightTrackedAt.set(pilot.user_id, Date.now());
+
+		// Landing already reported, by another device or another method
+		if (result.previous_status === "landed") {
+			return { success: true, checkin: result.checkin };
+		}
+
+		this.broadcastCheckin(result.checkin);
+
+		if (result.previous_status === "overdue" && result.checkin.incident_id) {
+			const closed = await new IncidentService(this.env.PTT_DB).closeIncident(
+				result.checkin.incident_id,
+				details.checked_in_by || pilot.user_id,
+				`Pilot checked in landed (${details.via})`,
 			);
+
+			if (closed.incident) {
+				this.broadcastIncidentUpdate(closed.incident);
+			}
+		}
+
+		return { success: true, checkin: result.checkin };
+	}
+
+	/**
+	 * Tell the channel participants about the flight status of a pilot.
+	 *
+	 * @param checkin - Check-in of the pilot
+	 *
+	 * @private
+	 */
+	private broadcastCheckin(checkin: PilotCheckin) {
+		this.broadcastToParticipants({
+			type: "pilot_checkin",
+			session_id: "",
+			channel_uuid: checkin.channel_uuid,
+			timestamp_ms: Date.now(),
+			data: checkin,
+		});
+	}
+
+	/**
+	 * Send a message to the connected moderators and administrators of the channel.
+	 *
+	 * @param channelUuid - Channel of this Durable Object
+	 * @param message - Message to send
+	 *
+	 * @private
+	 */
+	private async sendToModerators(
+		channelUuid: string,
+		message: PTTWebSocketMessage,
+	) {
+		const recipients = new Set(
+			(
+				await new ModerationService(this.env.PTT_DB).getModerators(channelUuid)
+			).map((moderator) => moderator.user_id),
+		);
+
+		for (const participant of this.getConnectedParticipants().values()) {
+			if (participant.isAdmin) {
+				recipients.add(participant.userId);
+			}
 		}
 
-		return new Response(
-			JSON.stringify({
-				success: true,
-				session_id: result.session_id,
-				max_duration_ms: result.max_duration_ms,
-				chunk_size_limit_bytes: result.chunk_size_limit_bytes,
-			}),
-			{
-				status: 200,
-				headers: { "Content-Type": "application/json" },
-			},
-		);
+		for (const userId of recipients) {
+			this.sendToUser(userId, message);
+		}
 	}
 
 	/**
-	 * Handle audio chunk HTTP request.
-	 *
-	 * Processes HTTP POST /ptt/chunk requests to receive and broadcast audio chunks.
-	 * Validates chunk data, delegates to business logic, and returns processing confirmation.
+	 * Get the format in which a participant receives the audio of a transmission.
 	 *
-	 * This method serves as the HTTP endpoint wrapper around the handleAudioChunkLogic method,
-	 * handling JSON parsing, sequence validation, and HTTP response construction for real-time audio streaming.
-	 * It is tolerant to packet loss and can handle out-of-order chunk delivery.
+	 * The format of the talker when the participant can play it, declared no format, or when
+	 * the audio codecs could not be loaded.
 	 *
-	 * @param request - HTTP request containing audio chunk data
-	 * @returns Promise resolving to HTTP response with chunk processing status
+	 * @param audioFormats - Formats declared by the participant on WebSocket upgrade
+	 * @param transmission - Transmission whose audio is sent
+	 * @returns The audio format of the chunks sent to the participant
 	 *
 	 * @private
 	 */
-	private async handleAudioChunk(request: Request): Promise<Response> {
-		const body = (await request.json()) as PTTAudioChunkRequest;
+	private getListenerFormat(
+		audioFormats: AudioFormat[] | undefined,
+		transmission: LiveTransmission,
+	): AudioFormat {
+		if (
+			this.audioTranscoder?.sessionId === transmission.sessionId &&
+			this.audioTranscoder.isUnavailable
+		) {
+			return transmission.audioFormat;
+		}
 
-		const result = await this.handleAudioChunkLogic(body);
+		return selectListenerFormat(transmission.audioFormat, audioFormats);
+	}
 
-		if (!result.success) {
-			return new Response(
-				JSON.stringify({
-					success: false,
-					chunk_received: false,
-					error: result.error,
-				}),
-				{
-					status: 400,
-					headers: { "Content-Type": "application/json" },
-				},
-			);
+	/**
+	 * Get the data of an `audio_chunk` message in the format of a listener.
+	 *
+	 * Chunks of past transmissions and chunks in the format of the talker are sent as received,
+	 * the other ones as transcoded by {@link transcodeAudioChunk}.
+	 *
+	 * @param sessionId - Session of the chunk
+	 * @param sequence - Sequence of the chunk
+	 * @param audioData - Chunk sent by the talker, base64 encoded
+	 * @param audioFormats - Formats declared by the listener
+	 * @returns The chunk data, or null when the chunk was not transcoded to the format of the listener
+	 *
+	 * @private
+	 */
+	private getListenerChunkData(
+		sessionId: string,
+		sequence: number,
+		audioData: string,
+		audioFormats: AudioFormat[] | undefined,
+	): Omit<PTTAudioChunkMessage["data"], "sequence"> | null {
+		const transmission = this.activeTransmission;
+		const audioFormat =
+			transmission?.sessionId === sessionId
+				? this.getListenerFormat(audioFormats, transmission)
+				: undefined;
+
+		if (
+			!transmission ||
+			!audioFormat ||
+			audioFormat === transmission.audioFormat
+		) {
+			return {
+				audio_data: audioData,
+				size_bytes: decodeBase64Audio(audioData).length,
+			};
 		}
 
-		return new Response(
-			JSON.stringify({
-				success: true,
-				chunk_received: result.chunk_received,
-				next_expected_sequence: result.next_expected_sequence,
-			}),
-			{
-				status: 200,
-				headers: { "Content-Type": "application/json" },
-			},
-		);
+		const transcoded =
+			this.audioTranscoder?.sessionId === sessionId
+				? this.audioTranscoder.getTranscoded(sequence, audioFormat)
+				: undefined;
+
+		return transcoded
+			? {
+					audio_data: encodeBase64Audio(transcoded),
+					size_bytes: transcoded.length,
+					audio_format: audioFormat,
+					sample_rate: getTranscodedSampleRate(audioFormat),
+				}
+			: null;
 	}
 
 	/**
-	 * Handle end transmission HTTP request.
+	 * Transcode an audio chunk for the participants that cannot play the format of the talker.
 	 *
-	 * Processes HTTP POST /ptt/end requests to terminate active PTT transmissions.
-	 * Validates termination request, delegates to business logic, and returns session summary.
-	 *
-	 * This method serves as the HTTP endpoint wrapper around the endPTTTransmissionLogic method,
-	 * handling JSON parsing, cleanup coordination, and HTTP response construction with transmission metrics.
+	 * The chunk is decoded once and encoded once per format needed by the connected listeners,
+	 * then broadcast to the listeners of each format. Once a transcoder is created for the
+	 * transmission every chunk goes through it, so that the codec streams stay continuous for
+	 * the listeners joining later.
 	 *
-	 * @param request - HTTP request containing transmission end data
-	 * @returns Promise resolving to HTTP response with transmission summary or error
+	 * @param transmission - Active transmission
+	 * @param message - Audio chunk broadcast in the format of the talker
 	 *
 	 * @private
 	 */
-	private async handleEndTransmission(request: Request): Promise<Response> {
-		const body = (await request.json()) as PTTEndTransmissionRequest;
+	private transcodeAudioChunk(
+		transmission: LiveTransmission,
+		message: PTTAudioChunkMessage,
+	) {
+		const excludedListeners = this.getExcludedListeners(transmission);
+		const excludeSet = new Set(excludedListeners);
+		const targets = new Set<AudioFormat>();
 
-		const result = await this.endPTTTransmissionLogic(body);
+		for (const participant of this.getConnectedParticipants().values()) {
+			if (excludeSet.has(participant.userId)) continue;
 
-		if (!result.success) {
-			return new Response(
-				JSON.stringify({
-					success: false,
-					error: result.error,
-				}),
-				{
-					status: 400,
-					headers: { "Content-Type": "application/json" },
-				},
+			targets.add(
+				this.getListenerFormat(participant.audioFormats, transmission),
 			);
 		}
 
-		return new Response(
-			JSON.stringify({
-				success: true,
-				session_summary: result.session_summary,
-			}),
-			{
-				status: 200,
-				headers: { "Content-Type": "application/json" },
-			},
-		);
+		targets.delete(transmission.audioFormat);
+
+		let transcoder =
+			this.audioTranscoder?.sessionId === transmission.sessionId
+				? this.audioTranscoder
+				: null;
+
+		if (!transcoder) {
+			if (targets.size === 0) return;
+
+			transcoder = this.createAudioTranscoder(
+				transmission,
+				message.data.sequence,
+			);
+		}
+
+		const transcoding = transcoder
+			.transcode(
+				message.data.sequence,
+				decodeBase64Audio(message.data.audio_data),
+				[...targets],
+			)
+			.then((outputs) => {
+				for (const [audioFormat, output] of outputs) {
+					this.broadcastToParticipants(
+						{
+							...message,
+							data: {
+								...message.data,
+								audio_data: encodeBase64Audio(output),
+								size_bytes: output.length,
+								audio_format: audioFormat,
+								sample_rate: getTranscodedSampleRate(audioFormat),
+							},
+						},
+						excludedListeners,
+						{ transmission, format: audioFormat },
+					);
+				}
+			})
+			.catch((error) => {
+				console.error(
+					`Failed to transcode chunk ${message.data.sequence} of ${transmission.sessionId}:`,
+					error,
+				);
+			});
+
+		this.state.waitUntil(transcoding);
 	}
 
 	/**
-	 * Handle get status HTTP request.
+	 * Create the transcoder of the active transmission.
 	 *
-	 * Processes HTTP GET /ptt/status requests to retrieve current PTT channel status.
-	 * Returns information about active transmissions and connected participants.
-	 *
-	 * This method serves as the HTTP endpoint wrapper around the getPTTStatusLogic method,
-	 * providing real-time visibility into channel state for monitoring and client synchronization.
+	 * The chunks already received are decoded first, the header of the Opus WebM stream only
+	 * comes with the first chunk.
 	 *
-	 * @returns Promise resolving to HTTP response with current channel status
+	 * @param transmission - Active transmission
+	 * @param sequence - Sequence of the chunk being transcoded, not part of the priming
+	 * @returns The transcoder
 	 *
 	 * @private
 	 */
-	private async handleGetStatus(): Promise<Response> {
-		const result = this.getPTTStatusLogic();
+	private createAudioTranscoder(
+		transmission: LiveTransmission,
+		sequence: number,
+	): AudioTranscoder {
+		this.audioTranscoder?.free();
 
-		return new Response(
-			JSON.stringify(result),
-			{
-				status: 200,
-				headers: { "Content-Type": "application/json" },
-			},
+		const transcoder = new AudioTranscoder(
+			transmission.sessionId,
+			transmission.audioFormat,
+			transmission.sampleRate,
 		);
+		const previousChunks = this.sql
+			.exec(
+				"SELECT data FROM recent_chunks WHERE session_id = ? AND sequence <> ? ORDER BY sequence",
+				transmission.sessionId,
+				sequence,
+			)
+			.toArray()
+			.map((row) => decodeBase64Audio(String(row.data)));
+
+		if (previousChunks.length > 0) {
+			this.state.waitUntil(transcoder.prime(previousChunks));
+		}
+
+		this.audioTranscoder = transcoder;
+
+		return transcoder;
 	}
 
 	/**
-	 * Force termination of active PTT transmission.
-	 *
-	 * Immediately ends any ongoing transmission due to timeout, error conditions,
-	 * or system requirements. Broadcasts termination notification to all participants
-	 * and performs cleanup operations.
+	 * Forward a transmission message to the scanners listening to the channel.
 	 *
-	 * This method is used for system-initiated transmission termination when normal
-	 * end procedures cannot be followed, ensuring clean state management and audit logging.
+	 * The audio of a private call only reaches the scanners of its listeners, and the talker
+	 * does not get its own audio back on its scanner. A scanner whose connection is gone is
+	 * unsubscribed.
 	 *
-	 * @param reason - Description of why the transmission is being force-ended
+	 * @param message - Transmission message broadcast to the participants
+	 * @param transmission - Transmission the message belongs to
 	 *
 	 * @private
 	 */
-	private forceEndTransmission(reason: string) {
-		if (!this.activeTransmission) return;
-
-		const transmission = this.activeTransmission;
-		const duration = Date.now() - transmission.startTime;
-
-		// Broadcast forced end
-		this.broadcastToParticipants({
-			type: "transmission_ended",
-			session_id: transmission.sessionId,
-			channel_uuid: transmission.channelUuid,
-			timestamp_ms: Date.now(),
-			data: {
-				user_id: transmission.userId,
-				duration_ms: duration,
-				total_chunks: transmission.expectedSequence - 1,
-				total_bytes: transmission.totalBytes,
-				reason: reason,
-			},
-		});
+	private forwardToScanners(
+		message: PTTScannedMessage,
+		transmission: LiveTransmission,
+	) {
+		const scanners = this.sql
+			.exec("SELECT user_id FROM scanners")
+			.toArray()
+			.map((row) => String(row.user_id))
+			.filter(
+				(userId) =>
+					message.type !== "audio_chunk" ||
+					(userId !== transmission.userId &&
+						isCallListener(
+							userId,
+							transmission.userId,
+							transmission.targetUserIds,
+						)),
+			);
 
-		// Log forced end
-		this.logTransmissionAudit(
-			transmission,
-			duration,
-			this.connectedParticipants.size,
-		);
+		if (scanners.length === 0) return;
 
-		// Clear state
-		this.activeTransmission = null;
+		this.scannerQueue = this.scannerQueue.then(async () => {
+			await Promise.all(
+				scanners.map(async (userId) => {
+					try {
+						const delivered = await this.env.SCANNER_OBJECTS.getByName(
+							userId,
+						).scannerDeliver(transmission.channelUuid, message);
 
-		console.log(`PTT transmission force ended: ${reason}`);
+						if (!delivered) {
+							this.sql.exec("DELETE FROM scanners WHERE user_id = ?", userId);
+						}
+					} catch (error) {
+						console.error(
+							`Failed to forward message to scanner of ${userId}:`,
+							error,
+						);
+					}
+				}),
+			);
+		});
+		this.state.waitUntil(this.scannerQueue);
 	}
 
 	/**
-	 * Broadcast WebSocket message to all connected participants.
+	 * Apply a moderation action to the channel.
 	 *
-	 * Sends a message to all participants in the channel, with optional exclusion
-	 * of specific users. Handles connection errors gracefully by removing broken connections.
+	 * The mutes are stored in D1 so they apply to the HTTP transmission API as well, and every
+	 * action is recorded in the channel audit trail then announced to the participants with a
+	 * `moderation_action` message. Emergencies are protected: a muted participant can still
+	 * call for help, and an emergency transmission can neither be ended nor its talker kicked.
+	 * Only administrators can moderate a moderator.
 	 *
-	 * This method is used for real-time communication during PTT transmissions,
-	 * ensuring all participants receive updates about transmission state changes.
+	 * - mute: drops the queued floor request of the participant and ends their transmission
+	 * - kick: closes the connections of the participant, removes all their devices from the
+	 *   channel and drops the channel from their scanner, they can join again unless their
+	 *   access is revoked
+	 * - force_end: ends the current transmission and grants the floor to the next request
 	 *
-	 * @param message - WebSocket message to broadcast
-	 * @param excludeUsers - Array of user IDs to exclude from broadcast
+	 * @param channelUuid - Channel of this Durable Object
+	 * @param moderator - Moderator or administrator requesting the action
+	 * @param request - Moderation action
+	 * @returns Outcome of the action with the recorded audit entry
 	 *
 	 * @private
 	 */
-	private broadcastToParticipants(
-		message: PTTWebSocketMessage,
-		excludeUsers: string[] = [],
-	) {
-		const payload = JSON.stringify(message);
-		const excludeSet = new Set(excludeUsers);
+	private async applyModeration(
+		channelUuid: string,
+		moderator: { userId: string; username: string; isAdmin: boolean },
+		request: ChannelModerationRequest,
+	): Promise<ChannelModerationResult> {
+		const validationError =
+			ModerationService.validateModerationRequest(request);
+
+		if (validationError) {
+			return { success: false, error: validationError };
+		}
+
+		if (request.action === "force_end") {
+			if (!this.activeTransmission) {
+				return {
+					success: false,
+					error: "No active transmission in this channel",
+				};
+			}
+
+			if (
+				request.target_user_id &&
+				request.target_user_id !== this.activeTransmission.userId
+			) {
+				return {
+					success: false,
+					error: "The target user does not hold the floor",
+				};
+			}
+		}
+
+		const targetUserId =
+			request.target_user_id || this.activeTransmission?.userId || "";
+
+		if (targetUserId === moderator.userId && request.action !== "force_end") {
+			return {
+				success: false,
+				error: "Moderators cannot moderate themselves",
+			};
+		}
+
+		const moderationService = new ModerationService(this.env.PTT_DB);
+
+		if (
+			!moderator.isAdmin &&
+			targetUserId !== moderator.userId &&
+			(await moderationService.isModerator(channelUuid, targetUserId))
+		) {
+			return {
+				success: false,
+				error: "Only administrators can moderate another moderator",
+			};
+		}
+
+		const holdsEmergencyFloor =
+			this.activeTransmission?.userId === targetUserId &&
+			this.activeTransmission.isEmergency;
+
+		if (
+			request.action === "force_end" &&
+			this.activeTransmission?.isEmergency
+		) {
+			return {
+				success: false,
+				error: "Emergency transmissions cannot be ended by a moderator",
+			};
+		}
+
+		if (request.action === "kick" && holdsEmergencyFloor) {
+			return {
+				success: false,
+				error: "A participant in an emergency transmission cannot be kicked",
+			};
+		}
+
+		let expiresAt: string | undefined;
+		let kickedSockets: WebSocket[] = [];
+		let kickedScanner = false;
+
+		switch (request.action) {
+			case "mute": {
+				const mute = await moderationService.muteUser(
+					channelUuid,
+					targetUserId,
+					moderator.userId,
+					request.duration_minutes,
+					request.reason,
+				);
+
+				if (!mute) {
+					return { success: false, error: "Failed to mute participant" };
+				}
+
+				expiresAt = mute.expires_at;
+				break;
+			}
+
+			case "unmute":
+				if (!(await moderationService.unmuteUser(channelUuid, targetUserId))) {
+					return {
+						success: false,
+						error: "User is not muted in this channel",
+					};
+				}
+				break;
+
+			case "kick": {
+				const removedDevices = await new ChannelService(
+					this.env.PTT_DB,
+					this.env.PTT_CACHE,
+				).removeParticipant(channelUuid, targetUserId);
+
+				kickedSockets = this.state
+					.getWebSockets(`user:${targetUserId}`)
+					.filter((websocket) => websocket.deserializeAttachment() !== null);
+				kickedScanner =
+					this.sql
+						.exec("SELECT 1 FROM scanners WHERE user_id = ?", targetUserId)
+						.toArray().length > 0;
+
+				if (
+					removedDevices === 0 &&
+					kickedSockets.length === 0 &&
+					!kickedScanner
+				) {
+					return {
+						success: false,
+						error: "User is not a participant in this channel",
+					};
+				}
+				break;
+			}
+		}
+
+		// Live effects, the floor may have changed while D1 was queried
+		let endedSessionId: string | undefined;
+
+		if (request.action !== "unmute") {
+			this.removeFloorRequest(targetUserId);
+
+			if (
+				this.activeTransmission?.userId === targetUserId &&
+				!this.activeTransmission.isEmergency
+			) {
+				endedSessionId = this.activeTransmission.sessionId;
+				this.forceEndTransmission(this.MODERATION_END_REASON);
+			}
+		}
+
+		const entry = await moderationService.logAction({
+			channel_uuid: channelUuid,
+			action: request.action,
+			moderator_user_id: moderator.userId,
+			moderator_username: moderator.username,
+			target_user_id: targetUserId,
+			reason: request.reason,
+			expires_at: expiresAt,
+			session_id: endedSessionId,
+		});
+
+		// Announced before the kicked participant is disconnected, so they know why
+		this.broadcastToParticipants({
+			type: "moderation_action",
+			session_id: endedSessionId || "",
+			channel_uuid: channelUuid,
+			timestamp_ms: Date.now(),
+			data: {
+				action: request.action,
+				moderator_user_id: moderator.userId,
+				moderator_username: moderator.username,
+				target_user_id: targetUserId,
+				reason: request.reason,
+				expires_at: expiresAt,
+			},
+		});
 
-		for (const [ephemeralPushToken, participant] of this.connectedParticipants) {
-			if (excludeSet.has(participant.userId)) continue;
+		if (kickedSockets.length > 0) {
+			for (const websocket of kickedSockets) {
+				try {
+					websocket.serializeAttachment(null);
+					websocket.close(1008, "Kicked by a moderator");
+				} catch {
+					// Already closed
+				}
+			}
+
+			this.broadcastToParticipants({
+				type: "participant_leave",
+				userId: targetUserId,
+				timestamp: Date.now(),
+			});
+		}
+
+		// The scanner of the user stops listening too, else talk back would still reach the floor
+		if (kickedScanner) {
+			this.sql.exec("DELETE FROM scanners WHERE user_id = ?", targetUserId);
 
 			try {
-				participant.websocket.send(payload);
+				await this.env.SCANNER_OBJECTS.getByName(
+					targetUserId,
+				).scannerDropChannel(channelUuid);
 			} catch (error) {
 				console.error(
-					`Failed to send message to participant ${participant.userId}:`,
+					`Failed to drop channel ${channelUuid} from the scanner of ${targetUserId}:`,
 					error,
 				);
-				// Remove broken connection
-				this.connectedParticipants.delete(ephemeralPushToken);
 			}
 		}
-	}
-
-	/**
-	 * Send WebSocket message to a specific participant.
-	 *
-	 * Delivers a message to a single participant identified by ephemeral push token.
-	 * Handles connection errors by removing broken connections from the participant map.
-	 *
-	 * This method is used for targeted communication with individual participants,
-	 * such as private notifications or user-specific updates.
-	 *
-	 * @param ephemeralPushToken - Ephemeral push token of the target participant
-	 * @param message - WebSocket message to send
-	 *
-	 * @private
-	 */
-	private sendToParticipant(ephemeralPushToken: string, message: PTTWebSocketMessage) {
-		const participant = this.connectedParticipants.get(ephemeralPushToken);
-
-		if (!participant) return;
 
-		try {
-			participant.websocket.send(JSON.stringify(message));
-		} catch (error) {
-			console.error(`Failed to send message to participant ${ephemeralPushToken}:`, error);
-			this.connectedParticipants.delete(ephemeralPushToken);
+		if (endedSessionId) {
+			await this.grantNextFloorRequest();
 		}
+
+		return {
+			success: true,
+			entry,
+			disconnected_connections:
+				request.action === "kick" ? kickedSockets.length : undefined,
+		};
 	}
 
 	/**
-	 * Start periodic cleanup of expired audio chunks.
+	 * Tell the channel participants about the status of an emergency incident.
 	 *
-	 * Initiates a background timer that periodically removes expired audio chunks
-	 * from the transmission buffer to prevent memory leaks and maintain performance.
-	 *
-	 * This method ensures that audio chunks that have exceeded their buffer duration
-	 * are automatically cleaned up, maintaining efficient memory usage during long transmissions.
+	 * @param incident - Incident raised in this channel
 	 *
 	 * @private
 	 */
-	private startPeriodicCleanup() {
-		setInterval(() => {
-			if (!this.activeTransmission) return;
-
-			const now = Date.now();
-			const expiredSequences: number[] = [];
-
-			// Find expired chunks
-			for (const [sequence, bufferedChunk] of this.activeTransmission
-				.audioChunks) {
-				if (now >= bufferedChunk.expires) {
-					expiredSequences.push(sequence);
-				}
-			}
-
-			// Remove expired chunks
-			expiredSequences.forEach((sequence) => {
-				this.activeTransmission?.audioChunks.delete(sequence);
-			});
-
-			if (expiredSequences.length > 0) {
-				console.log(
-					`Cleaned up ${expiredSequences.length} expired audio chunks`,
-				);
-			}
-		}, this.CLEANUP_INTERVAL_MS);
+	private broadcastIncidentUpdate(incident: EmergencyIncident) {
+		this.broadcastToParticipants({
+			type: "incident_update",
+			session_id: incident.session_id,
+			channel_uuid: incident.channel_uuid,
+			timestamp_ms: Date.now(),
+			data: {
+				incident_id: incident.id,
+				user_id: incident.user_id,
+				status: incident.status,
+				acknowledged_by: incident.acknowledged_by,
+			},
+		});
 	}
 
 	/**
 	 * Log transmission metadata for audit purposes.
 	 *
 	 * Records comprehensive transmission statistics to D1 database for compliance,
-	 * analytics, and troubleshooting. Stores metadata only (no audio content).
+	 * analytics, and troubleshooting. Stores metadata only, the audio content of recorded
+	 * transmissions lives in R2 and is referenced by its object key.
 	 *
 	 * This method captures key transmission metrics including duration, participant count,
 	 * audio format details, and network quality for post-transmission analysis and auditing.
@@ -1090,6 +4708,7 @@ export class PTTChannelDurableObject extends DurableObject {
 	 * @param transmission - Completed transmission object with all metadata
 	 * @param duration - Total transmission duration in milliseconds
 	 * @param participantCount - Number of participants who received the transmission
+	 * @param recordingKey - R2 object key of the recording, if the transmission was recorded
 	 *
 	 * @private
 	 */
@@ -1097,6 +4716,7 @@ export class PTTChannelDurableObject extends DurableObject {
 		transmission: LiveTransmission,
 		duration: number,
 		participantCount: number,
+		recordingKey: string | null = null,
 	) {
 		try {
 			const auditLog: TransmissionAuditLog = {
@@ -1115,6 +4735,8 @@ export class PTTChannelDurableObject extends DurableObject {
 				isEmergency: transmission.isEmergency,
 				networkQuality: transmission.networkQuality,
 				location: transmission.location,
+				recordingKey: recordingKey || undefined,
+				targetUserIds: transmission.targetUserIds,
 			};
 
 			// Store minimal audit log in D1 database
@@ -1124,8 +4746,8 @@ export class PTTChannelDurableObject extends DurableObject {
           session_id, channel_uuid, user_id, username, start_time, end_time,
           duration_seconds, audio_format, chunks_count, total_bytes, 
           participant_count, is_emergency, network_quality,
-          location_lat, location_lon
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          location_lat, location_lon, recording_key, target_user_ids
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `,
 			)
 				.bind(
@@ -1144,6 +4766,10 @@ export class PTTChannelDurableObject extends DurableObject {
 					auditLog.networkQuality,
 					auditLog.location?.lat || null,
 					auditLog.location?.lon || null,
+					auditLog.recordingKey || null,
+					auditLog.targetUserIds
+						? JSON.stringify(auditLog.targetUserIds)
+						: null,
 				)
 				.run();
 		} catch (error) {
@@ -1151,6 +4777,43 @@ export class PTTChannelDurableObject extends DurableObject {
 		}
 	}
 
+	/**
+	 * Check that a device has joined the channel on behalf of a user.
+	 *
+	 * Looks up the channel participants table for a row matching the channel, the user
+	 * and the ephemeral push token registered by the join API. This prevents a client from
+	 * taking over the connection slot of another user's device.
+	 *
+	 * @param channelUuid - UUID of the PTT channel
+	 * @param userId - Authenticated user ID (JWT `sub` claim)
+	 * @param ephemeralPushToken - Ephemeral push token identifying the device
+	 * @returns True if the device is registered for this user in the channel
+	 *
+	 * @private
+	 */
+	private async isRegisteredDevice(
+		channelUuid: string,
+		userId: string,
+		ephemeralPushToken: string,
+	): Promise<boolean> {
+		try {
+			const participant = await this.env.PTT_DB.prepare(
+				`
+        SELECT user_id FROM channel_participants
+        WHERE channel_uuid = ? AND user_id = ? AND ephemeral_push_token = ?
+      `,
+			)
+				.bind(channelUuid.toLowerCase(), userId, ephemeralPushToken)
+				.first();
+
+			return participant !== null;
+		} catch (error) {
+			console.error("Failed to check participant device:", error);
+
+			return false;
+		}
+	}
+
 	/**
 	 * Generate unique session identifier for PTT transmission.
 	 *
@@ -1378,6 +5041,8 @@ export class PTTChannelDurableObject extends DurableObject {
 			is_emergency: boolean;
 			chunks_count: number;
 			total_bytes: number;
+			relayed_from?: TransmissionRelaySource;
+			target_user_ids?: string[];
 		} | null;
 		connected_participants: number;
 		timestamp: number;
@@ -1385,6 +5050,406 @@ export class PTTChannelDurableObject extends DurableObject {
 		return this.getPTTStatusLogic();
 	}
 
+	/**
+	 * RPC method to announce the new status of an emergency incident to the channel.
+	 *
+	 * Called by the incidents API when a rescuer acknowledges or closes an incident, so that
+	 * the pilot in distress knows that the alert was received.
+	 *
+	 * @param incident - Updated incident
+	 *
+	 * @example
+	 * ```typescript
+	 * await durableObject.pttIncidentUpdate(incident);
+	 * ```
+	 */
+	async pttIncidentUpdate(incident: EmergencyIncident): Promise<void> {
+		this.broadcastIncidentUpdate(incident);
+	}
+
+	/**
+	 * RPC method to mirror an emergency transmission started in another channel.
+	 *
+	 * Called by the Durable Object of the origin channel, which then relays the audio chunks
+	 * with {@link pttChunk} and the end with {@link pttEnd} using the returned session ID.
+	 * The mirrored transmission preempts a normal transmission like any emergency transmission,
+	 * and is announced with `relayed_from` in its `transmission_started` message.
+	 *
+	 * A transmission is never mirrored into its own channel, nor into a channel already busy
+	 * with an emergency transmission (started locally or mirrored), and a mirrored transmission
+	 * is never relayed again.
+	 *
+	 * @param request - Emergency transmission of the origin channel
+	 * @param request.channel_uuid - Channel of this Durable Object
+	 * @param request.relayed_from - Origin channel and session of the transmission
+	 *
+	 * @returns Promise resolving to the mirrored transmission start result
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await emergencyChannelDO.pttRelayStart({
+	 *   channel_uuid: "emergency-channel",
+	 *   user_id: "user-456",
+	 *   username: "John Doe",
+	 *   audio_format: "opus",
+	 *   sample_rate: 48000,
+	 *   bitrate: 32000,
+	 *   network_quality: "good",
+	 *   is_emergency: true,
+	 *   relayed_from: { channel_uuid: "channel-123", session_id: "ptt_channel123_user456_1234567890_abc123" }
+	 * });
+	 * ```
+	 */
+	async pttRelayStart(request: PTTRelayStartRequest): Promise<{
+		success: boolean;
+		error?: string;
+		session_id?: string;
+	}> {
+		if (
+			request.relayed_from.channel_uuid.toLowerCase() ===
+			request.channel_uuid.toLowerCase()
+		) {
+			return {
+				success: false,
+				error: "A transmission cannot be relayed to its own channel",
+			};
+		}
+
+		if (this.activeTransmission?.isEmergency) {
+			return {
+				success: false,
+				error:
+					"Another emergency transmission is already active in this channel",
+			};
+		}
+
+		return this.startPTTTransmissionLogic(
+			{ ...request, is_emergency: true },
+			false,
+			request.relayed_from,
+		);
+	}
+
+	/**
+	 * RPC method to close the channel at the end of its active windows.
+	 *
+	 * Called by the cron trigger before the channel is deactivated. Pending floor requests
+	 * are dropped, the active transmission is force-ended, and every participant receives a
+	 * `channel_closed` message before its connection is closed.
+	 *
+	 * The channel is not closed while an emergency transmission holds the floor, the cron
+	 * trigger retries on its next run.
+	 *
+	 * @param channelUuid - Channel of this Durable Object
+	 * @param reason - Reason sent to the participants
+	 *
+	 * @returns Promise resolving to the number of connections closed, or null when the close
+	 *   is postponed by an emergency transmission
+	 *
+	 * @example
+	 * ```typescript
+	 * await durableObject.pttCloseChannel("channel-123", "Task 1 briefing is over");
+	 * ```
+	 */
+	async pttCloseChannel(
+		channelUuid: string,
+		reason: string,
+	): Promise<number | null> {
+		if (this.activeTransmission?.isEmergency) {
+			return null;
+		}
+
+		this.sql.exec("DELETE FROM floor_queue");
+		this.forceEndTransmission(reason);
+
+		const participants = this.getConnectedParticipants();
+
+		this.broadcastToParticipants({
+			type: "channel_closed",
+			session_id: "",
+			channel_uuid: channelUuid,
+			timestamp_ms: Date.now(),
+			data: { reason },
+		});
+
+		for (const participant of participants.values()) {
+			try {
+				participant.websocket.serializeAttachment(null);
+				participant.websocket.close(1000, "Channel closed by schedule");
+			} catch {
+				// Already closed
+			}
+		}
+
+		return participants.size;
+	}
+
+	/**
+	 * RPC method to apply a moderation action requested through the REST API.
+	 *
+	 * The caller must have checked that the moderator is an administrator or a moderator of
+	 * the channel, the action is then applied like a `moderate` WebSocket command.
+	 *
+	 * @param request - Moderation action and moderator identity
+	 * @param request.channel_uuid - Channel of this Durable Object
+	 * @param request.moderator_is_admin - Whether the moderator is an administrator, only
+	 *   administrators can moderate another moderator
+	 *
+	 * @returns Promise resolving to the outcome of the action
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await durableObject.pttModerate({
+	 *   channel_uuid: "channel-123",
+	 *   moderator_user_id: "instructor-1",
+	 *   moderator_username: "Instructor",
+	 *   moderator_is_admin: false,
+	 *   action: "kick",
+	 *   target_user_id: "user-456",
+	 *   reason: "Repeated open mic"
+	 * });
+	 * ```
+	 */
+	async pttModerate(
+		request: ChannelModerationRequest & {
+			channel_uuid: string;
+			moderator_user_id: string;
+			moderator_username: string;
+			moderator_is_admin: boolean;
+		},
+	): Promise<ChannelModerationResult> {
+		return this.applyModeration(
+			request.channel_uuid.toLowerCase(),
+			{
+				userId: request.moderator_user_id,
+				username: request.moderator_username,
+				isAdmin: request.moderator_is_admin,
+			},
+			{
+				action: request.action,
+				target_user_id: request.target_user_id,
+				duration_minutes: request.duration_minutes,
+				reason: request.reason,
+			},
+		);
+	}
+
+	/**
+	 * RPC method to post a text message received through the REST API.
+	 *
+	 * The caller must have checked the access of the sender to the channel, the message is then
+	 * posted like a `text_message` WebSocket command.
+	 *
+	 * @param request - Text message and sender identity
+	 * @param request.channel_uuid - Channel of this Durable Object
+	 *
+	 * @returns Promise resolving to the outcome with the stored message
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await durableObject.pttTextMessage({
+	 *   channel_uuid: "channel-123",
+	 *   user_id: "user-456",
+	 *   username: "John Doe",
+	 *   canned_message_id: "need_retrieve",
+	 *   location: { lat: 45.9237, lon: 6.8694 }
+	 * });
+	 * ```
+	 */
+	async pttTextMessage(
+		request: ChannelTextMessageRequest & {
+			channel_uuid: string;
+			user_id: string;
+			username: string;
+		},
+	): Promise<ChannelTextMessageResult> {
+		return this.postTextMessage(
+			request.channel_uuid.toLowerCase(),
+			{ user_id: request.user_id, username: request.username },
+			{
+				content: request.content,
+				canned_message_id: request.canned_message_id,
+				location: request.location,
+			},
+		);
+	}
+
+	/**
+	 * RPC method to record a landed check-in received through the REST API.
+	 *
+	 * The caller must have checked the access of the pilot to the channel, and the moderator
+	 * role of the user confirming the landing of another pilot.
+	 *
+	 * @param request - Pilot identity and how the landing was reported
+	 * @param request.channel_uuid - Channel of this Durable Object
+	 * @param request.checked_in_by - Moderator confirming a landing reported on the radio
+	 *
+	 * @returns Promise resolving to the outcome with the check-in
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await durableObject.pttCheckIn({
+	 *   channel_uuid: "channel-123",
+	 *   user_id: "user-456",
+	 *   username: "John Doe",
+	 *   via: "voice",
+	 *   checked_in_by: "moderator-789"
+	 * });
+	 * ```
+	 */
+	async pttCheckIn(request: {
+		channel_uuid: string;
+		user_id: string;
+		username: string;
+		via: PilotCheckinMethod;
+		checked_in_by?: string;
+		location?: Coordinates;
+	}): Promise<PilotCheckinResult> {
+		return this.recordCheckin(
+			request.channel_uuid.toLowerCase(),
+			{ user_id: request.user_id, username: request.username },
+			{
+				via: request.via,
+				checked_in_by: request.checked_in_by,
+				location: request.location,
+			},
+		);
+	}
+
+	/**
+	 * RPC method to raise the alert for a pilot who missed the check-in deadline.
+	 *
+	 * Called by the cron trigger for each flight past its deadline. The flight is marked
+	 * overdue, an `overdue` incident is opened with the last known position of the pilot and
+	 * delivered to the incident notifiers, the channel gets a `pilot_checkin` message and the
+	 * connected moderators and administrators a `pilot_overdue` alert.
+	 *
+	 * @param checkinId - Flight past its deadline
+	 *
+	 * @returns Promise resolving to false when the pilot checked in meanwhile
+	 *
+	 * @example
+	 * ```typescript
+	 * const raised = await durableObject.pttPilotOverdue("5b0c4d1e-...");
+	 * ```
+	 */
+	async pttPilotOverdue(checkinId: string): Promise<boolean> {
+		const checkinService = new CheckinService(this.env.PTT_DB);
+		const checkin = await checkinService.markOverdue(checkinId);
+
+		if (!checkin) return false;
+
+		try {
+			const incidentService = new IncidentService(this.env.PTT_DB);
+			const location =
+				checkin.location ??
+				(
+					await new UserPreferencesService(this.env.PTT_DB).getPreferences(
+						checkin.user_id,
+					)
+				).last_location;
+			const result = await incidentService.openIncident({
+				incident_type: "overdue",
+				channel_uuid: checkin.channel_uuid,
+				session_id: checkin.id,
+				user_id: checkin.user_id,
+				username: checkin.username,
+				location,
+			});
+
+			if (result) {
+				await checkinService.attachIncident(checkin.id, result.incident.id);
+				checkin.incident_id = result.incident.id;
+			} else {
+				console.error(
+					`Failed to open an incident for overdue pilot ${checkin.user_id} on channel ${checkin.channel_uuid}`,
+				);
+			}
+
+			this.broadcastCheckin(checkin);
+			await this.sendToModerators(checkin.channel_uuid, {
+				type: "pilot_overdue",
+				session_id: "",
+				channel_uuid: checkin.channel_uuid,
+				timestamp_ms: Date.now(),
+				data: { checkin, incident_id: checkin.incident_id },
+			});
+
+			if (result?.created) {
+				this.broadcastIncidentUpdate(result.incident);
+				await this.deliverIncident(result.incident, incidentService);
+			}
+		} catch (error) {
+			console.error("Failed to raise the overdue pilot alert:", error);
+		}
+
+		return true;
+	}
+
+	/**
+	 * RPC method to subscribe the scanner of a user to the channel.
+	 *
+	 * Called by the scanner Durable Object of the user when it connects, the transmissions of
+	 * the channel are then forwarded to it with {@link PTTScannerDurableObject.scannerDeliver}
+	 * until it unsubscribes or its connection is gone.
+	 *
+	 * The caller must have checked the access of the user to the channel, the scanner Durable
+	 * Object checks the `access:{uuid}` permission of the token like the channel WebSocket does.
+	 * Membership in `channel_participants` is deliberately not required: like a WebSocket
+	 * listener, a scanner listens without joining the channel. A kick drops the subscription.
+	 *
+	 * @param userId - User owning the scanner
+	 *
+	 * @returns Promise resolving to the `transmission_started` message of the transmission in
+	 *   progress, or null when the channel is idle
+	 *
+	 * @example
+	 * ```typescript
+	 * const inProgress = await durableObject.pttScannerSubscribe("user-456");
+	 * ```
+	 */
+	async pttScannerSubscribe(
+		userId: string,
+	): Promise<PTTTransmissionStartedMessage | null> {
+		this.sql.exec(
+			"INSERT OR REPLACE INTO scanners (user_id, subscribed_at) VALUES (?, ?)",
+			userId,
+			Date.now(),
+		);
+
+		if (!this.activeTransmission) return null;
+
+		return {
+			type: "transmission_started",
+			session_id: this.activeTransmission.sessionId,
+			channel_uuid: this.activeTransmission.channelUuid,
+			timestamp_ms: this.activeTransmission.startTime,
+			data: {
+				user_id: this.activeTransmission.userId,
+				username: this.activeTransmission.username,
+				audio_format: this.activeTransmission.audioFormat,
+				sample_rate: this.activeTransmission.sampleRate,
+				is_emergency: this.activeTransmission.isEmergency,
+				relayed_from: this.activeTransmission.relayedFrom,
+				target_user_ids: this.activeTransmission.targetUserIds,
+			},
+		};
+	}
+
+	/**
+	 * RPC method to stop forwarding the transmissions of the channel to the scanner of a user.
+	 *
+	 * @param userId - User owning the scanner
+	 *
+	 * @example
+	 * ```typescript
+	 * await durableObject.pttScannerUnsubscribe("user-456");
+	 * ```
+	 */
+	async pttScannerUnsubscribe(userId: string): Promise<void> {
+		this.sql.exec("DELETE FROM scanners WHERE user_id = ?", userId);
+	}
+
 	/**
 	 * Handle incoming requests to the Durable Object
 	 * This is the main entry point for all requests to this Durable Object
@@ -1396,7 +5461,7 @@ export class PTTChannelDurableObject extends DurableObject {
 			return this.handleWebSocketUpgrade(request);
 		}
 
-		// All other operations should use RPC methods (pttStart, pttChunk, pttEnd, pttStatus)
+		// All other operations should use RPC methods (pttStart, pttChunk, pttEnd, pttStatus, pttIncidentUpdate, pttRelayStart, pttCloseChannel, pttModerate, pttTextMessage, pttCheckIn, pttPilotOverdue, pttScannerSubscribe, pttScannerUnsubscribe)
 		return new Response("Use RPC methods for PTT operations", { status: 405 });
 	}
 }
@@ -0,0 +1,979 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { DurableObject } from "cloudflare:workers";
+
+import {
+	PTTAckMessage,
+	PTTAudioChunkRequest,
+	PTTEndTransmissionRequest,
+	PTTNackMessage,
+	PTTScannedMessage,
+	PTTScannerStateMessage,
+	PTTTalkBackCommandMessage,
+	PTTWebSocketMessage,
+	ScannerActivity,
+	ScannerConnectionAttachment,
+	ScannerSubscription,
+} from "../types/ptt";
+import {
+	getUsernameFromPayload,
+	hasChannelAccess,
+	verifyToken,
+} from "../auth0";
+import { ChannelService } from "../services/channel-service";
+import {
+	defaultScanPriority,
+	parseScanList,
+	resolveScannerFocus,
+} from "../utils/scanner";
+
+/**
+ * Durable Object for the scanner connection of a user, one instance per user ID.
+ *
+ * A scanner listens to several channels over a single WebSocket: each scanned channel
+ * forwards its `transmission_started`, `audio_chunk` and `transmission_ended` messages to the
+ * scanner of the user, which relays them unchanged on the connection.
+ *
+ * Key Features:
+ * - Priority ducking: when several scanned channels are busy, emergency transmissions come
+ *   first, then the channel with the highest priority. The `scanner_state` message tells the
+ *   client which channel to play in the foreground and which ones to attenuate.
+ * - Talk back: the `talk_back` command starts a transmission on the last channel where
+ *   another user spoke, its audio is then sent with the usual `chunk` and `end` commands
+ * - Subscriptions and the talk back session are kept in SQLite storage and the connection
+ *   uses the WebSocket Hibernation API, so the scanner survives hibernation
+ *
+ * Scanner connections are JSON only (`ptt.json.v1`), audio chunks carry base64 data.
+ *
+ * @example
+ * ```typescript
+ * // Scan the site channel and the emergency channel, the site channel with priority 25
+ * const ws = new WebSocket(
+ *   `wss://worker.example.com/ptt/scanner?token=jwt-token&channels=${siteUuid}:25,${emergencyUuid}`
+ * );
+ * ```
+ */
+export class PTTScannerDurableObject extends DurableObject {
+	/** Durable Object state for persistence and WebSocket hibernation */
+	private state: DurableObjectState;
+
+	/** Environment bindings (KV, D1, etc.) */
+	public env: Env;
+
+	/** SQLite storage of the Durable Object, survives hibernation and eviction */
+	private sql: SqlStorage;
+
+	/**
+	 * Creates a new PTTScannerDurableObject instance and its SQLite tables if needed.
+	 *
+	 * @param state - The Durable Object state for persistence and storage
+	 * @param env - Environment bindings including KV, D1 database, and other resources
+	 */
+	constructor(state: DurableObjectState, env: Env) {
+		super(state, env);
+		this.state = state;
+		this.env = env;
+		this.sql = state.storage.sql;
+
+		this.initializeStorage();
+	}
+
+	/**
+	 * Handles the WebSocket upgrade of a scanner connection.
+	 *
+	 * Process:
+	 * 1. Parses the scan list (`channels=uuid[:priority],...`, at most 10 channels)
+	 * 2. Verifies the JWT token, which must belong to the user of this scanner, and its access
+	 *    to every scanned channel (access:{uuid} or admin permission)
+	 * 3. Replaces the previous connection of the user, if any, and unsubscribes the channels
+	 *    that are no longer scanned
+	 * 4. Subscribes to the scanned channels, sends the transmissions already in progress and
+	 *    the initial `scanner_state`
+	 *
+	 * @param request - The WebSocket upgrade request, with the user ID set by the Worker
+	 * @returns Promise resolving to WebSocket upgrade response
+	 *
+	 * @throws Will return 400 response if the scan list is missing or invalid
+	 * @throws Will return 401 response if the token is missing, invalid or for another user
+	 * @throws Will return 403 response if the token does not grant access to a scanned channel
+	 * @throws Will return 404 response if a scanned channel does not exist
+	 *
+	 * @private
+	 */
+	private async handleWebSocketUpgrade(request: Request): Promise<Response> {
+		const url = new URL(request.url);
+		const token =
+			url.searchParams.get("token") ||
+			request.headers.get("Authorization")?.replace(/^Bearer /, "");
+
+		if (!token) {
+			return new Response("Missing required parameter: token", { status: 401 });
+		}
+
+		const scanList = parseScanList(url.searchParams.get("channels"));
+
+		if (scanList.error || !scanList.channels) {
+			return new Response(scanList.error, { status: 400 });
+		}
+
+		let userId: string;
+		let username: string;
+
+		try {
+			const payload = await verifyToken(token, this.env);
+
+			if (!payload.sub || payload.sub !== url.searchParams.get("userId")) {
+				return new Response("Unauthorized", { status: 401 });
+			}
+
+			const denied = scanList.channels.find(
+				(entry) => !hasChannelAccess(payload, entry.channel_uuid, this.env),
+			);
+
+			if (denied) {
+				return new Response(
+					`Access denied - missing permission: ${this.env.ACCESS_PERMISSION_PREFIX}${denied.channel_uuid}`,
+					{ status: 403 },
+				);
+			}
+
+			userId = payload.sub;
+			username = getUsernameFromPayload(payload);
+		} catch (error) {
+			console.error("Scanner token validation error:", error);
+
+			return new Response("Unauthorized", { status: 401 });
+		}
+
+		const channelService = new ChannelService(
+			this.env.PTT_DB,
+			this.env.PTT_CACHE,
+		);
+		const subscriptions: ScannerSubscription[] = [];
+
+		for (const entry of scanList.channels) {
+			const channel = await channelService.getChannel(entry.channel_uuid);
+
+			if (!channel) {
+				return new Response(`Channel not found: ${entry.channel_uuid}`, {
+					status: 404,
+				});
+			}
+
+			subscriptions.push({
+				channel_uuid: entry.channel_uuid,
+				channel_name: channel.name,
+				channel_type: channel.type,
+				priority: entry.priority ?? defaultScanPriority(channel.type),
+			});
+		}
+
+		// A new scanner connection replaces the previous one of the user
+		for (const previousSocket of this.state.getWebSockets()) {
+			try {
+				previousSocket.serializeAttachment(null);
+				previousSocket.close(1000, "Replaced by a new connection");
+			} catch (error) {
+				console.error("Failed to close previous scanner WebSocket:", error);
+			}
+		}
+
+		const scanned = new Set(subscriptions.map((entry) => entry.channel_uuid));
+		const dropped = this.getSubscriptions().filter(
+			(entry) => !scanned.has(entry.channel_uuid),
+		);
+
+		await Promise.all(
+			dropped.map((entry) =>
+				this.env.CHANNEL_OBJECTS.getByName(
+					entry.channel_uuid,
+				).pttScannerUnsubscribe(userId),
+			),
+		);
+
+		this.sql.exec("DELETE FROM subscriptions");
+		this.sql.exec("DELETE FROM activity");
+		this.sql.exec("DELETE FROM scanner_state");
+
+		subscriptions.forEach((entry, position) => {
+			this.sql.exec(
+				`
+				INSERT INTO subscriptions (channel_uuid, name, type, priority, position)
+				VALUES (?, ?, ?, ?, ?)
+			`,
+				entry.channel_uuid,
+				entry.channel_name,
+				entry.channel_type,
+				entry.priority,
+				position,
+			);
+		});
+
+		const webSocketPair = new WebSocketPair();
+		const [client, server] = Object.values(webSocketPair);
+
+		// Accept first, so that the transmissions forwarded while subscribing are not lost
+		this.state.acceptWebSocket(server);
+
+		const attachment: ScannerConnectionAttachment = {
+			userId,
+			username,
+			connectedAt: Date.now(),
+		};
+
+		server.serializeAttachment(attachment);
+
+		const inProgress = await Promise.all(
+			subscriptions.map((entry) =>
+				this.env.CHANNEL_OBJECTS.getByName(
+					entry.channel_uuid,
+				).pttScannerSubscribe(userId),
+			),
+		);
+
+		for (const message of inProgress) {
+			if (message && !this.hasActivity(message.session_id)) {
+				this.trackActivity(message.channel_uuid, message, userId);
+				this.send(server, message);
+			}
+		}
+
+		this.send(server, this.buildState());
+
+		return new Response(null, { status: 101, webSocket: client });
+	}
+
+	/**
+	 * WebSocket Hibernation API handler for incoming messages.
+	 *
+	 * Supports ping/pong for connection health monitoring and the talk back commands:
+	 * - `talk_back`: starts a transmission on the last active channel, with the same audio
+	 *   parameters as a `start` command, answered with `ack`/`nack`
+	 * - `chunk`, `end`: audio and end of the talk back transmission, answered with `ack`/`nack`
+	 *
+	 * @param ws - The WebSocket that received the message
+	 * @param message - The raw message data (expected to be a JSON string)
+	 *
+	 * @example
+	 * ```typescript
+	 * ws.send(JSON.stringify({ type: "talk_back", request_id: "r1", audio_format: "opus", sample_rate: 48000 }));
+	 * ws.send(JSON.stringify({ type: "chunk", request_id: "r2", session_id: "...", chunk_sequence: 1, audio_data: "...", chunk_size_bytes: 4096, timestamp_ms: Date.now() }));
+	 * ws.send(JSON.stringify({ type: "end", request_id: "r3", session_id: "...", total_duration_ms: 5000, total_chunks: 1 }));
+	 * ```
+	 */
+	async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer) {
+		const scanner =
+			ws.deserializeAttachment() as ScannerConnectionAttachment | null;
+
+		if (!scanner) return;
+
+		try {
+			const data = JSON.parse(
+				typeof message === "string"
+					? message
+					: new TextDecoder().decode(message),
+			);
+
+			switch (data.type) {
+				case "ping":
+					this.send(ws, {
+						type: "pong",
+						session_id: "",
+						channel_uuid: "",
+						timestamp_ms: Date.now(),
+						data: {},
+					});
+					break;
+
+				case "talk_back":
+					await this.handleTalkBack(ws, scanner, data);
+					break;
+
+				case "chunk":
+					await this.handleTalkBackChunk(ws, data);
+					break;
+
+				case "end":
+					await this.handleTalkBackEnd(ws, data);
+					break;
+
+				default:
+					console.warn("Unknown scanner message type:", data.type);
+			}
+		} catch (error) {
+			console.error("Error handling scanner message:", error);
+			this.send(ws, {
+				type: "error",
+				session_id: "",
+				channel_uuid: "",
+				timestamp_ms: Date.now(),
+				data: {
+					message: "Invalid message format",
+				},
+			});
+		}
+	}
+
+	/**
+	 * WebSocket Hibernation API handler for closed connections.
+	 *
+	 * Unsubscribes the scanner from its channels. A talk back transmission still in progress
+	 * is ended by its channel at the maximum transmission duration.
+	 *
+	 * @param ws - The WebSocket that was closed
+	 * @param code - Close code sent by the client
+	 * @param reason - Close reason sent by the client
+	 */
+	async webSocketClose(ws: WebSocket, code: number, reason: string) {
+		const scanner =
+			ws.deserializeAttachment() as ScannerConnectionAttachment | null;
+
+		// Reciprocate the close handshake
+		try {
+			ws.close(code, reason);
+		} catch {
+			// Already closed
+		}
+
+		// Connections replaced by a newer one have no attachment anymore
+		if (!scanner) return;
+
+		ws.serializeAttachment(null);
+
+		const subscriptions = this.getSubscriptions();
+
+		this.sql.exec("DELETE FROM subscriptions");
+		this.sql.exec("DELETE FROM activity");
+		this.sql.exec("DELETE FROM scanner_state");
+
+		await Promise.all(
+			subscriptions.map((entry) =>
+				this.env.CHANNEL_OBJECTS.getByName(
+					entry.channel_uuid,
+				).pttScannerUnsubscribe(scanner.userId),
+			),
+		);
+	}
+
+	/**
+	 * WebSocket Hibernation API handler for connection errors.
+	 *
+	 * @param ws - The WebSocket that errored
+	 * @param error - The error raised by the runtime
+	 */
+	async webSocketError(ws: WebSocket, error: unknown) {
+		console.error("Scanner WebSocket error:", error);
+		await this.webSocketClose(ws, 1011, "WebSocket error");
+	}
+
+	/**
+	 * Starts a talk back transmission on the last active channel.
+	 *
+	 * The transmission goes through the channel floor control like any other: it is refused
+	 * while the channel is busy, outside its active windows or when the user is muted.
+	 *
+	 * @param ws - Scanner connection
+	 * @param scanner - Attachment of the scanner connection
+	 * @param message - The talk back command
+	 *
+	 * @private
+	 */
+	private async handleTalkBack(
+		ws: WebSocket,
+		scanner: ScannerConnectionAttachment,
+		message: PTTTalkBackCommandMessage,
+	) {
+		const channelUuid = this.getState()?.last_active_channel_uuid;
+
+		if (!channelUuid) {
+			this.sendNack(ws, "", "", {
+				command: "talk_back",
+				request_id: message.request_id,
+				error: "No active channel to talk back to",
+			});
+
+			return;
+		}
+
+		if (!["aac-lc", "opus", "pcm"].includes(message.audio_format)) {
+			this.sendNack(ws, "", channelUuid, {
+				command: "talk_back",
+				request_id: message.request_id,
+				error: "Valid audio_format is required (aac-lc, opus, pcm)",
+			});
+
+			return;
+		}
+
+		const result = await this.env.CHANNEL_OBJECTS.getByName(
+			channelUuid,
+		).pttStart({
+			channel_uuid: channelUuid,
+			audio_format: message.audio_format,
+			sample_rate: message.sample_rate,
+			bitrate: message.bitrate,
+			network_quality: message.network_quality,
+			device_info: message.device_info,
+			expected_duration: message.expected_duration,
+			location: message.location,
+			is_emergency: message.is_emergency,
+			target_user_ids: message.target_user_ids,
+			user_id: scanner.userId,
+			username: scanner.username,
+		});
+
+		if (!result.success || !result.session_id) {
+			this.sendNack(ws, "", channelUuid, {
+				command: "talk_back",
+				request_id: message.request_id,
+				error: result.error || "Failed to start transmission",
+			});
+
+			return;
+		}
+
+		this.sql.exec(
+			"UPDATE scanner_state SET talk_back_session_id = ?, talk_back_channel_uuid = ? WHERE id = 1",
+			result.session_id,
+			channelUuid,
+		);
+
+		this.sendAck(ws, result.session_id, channelUuid, {
+			command: "talk_back",
+			request_id: message.request_id,
+			max_duration_ms: result.max_duration_ms,
+			chunk_size_limit_bytes: result.chunk_size_limit_bytes,
+		});
+	}
+
+	/**
+	 * Relays an audio chunk of the talk back transmission to its channel.
+	 *
+	 * @param ws - Scanner connection
+	 * @param message - The chunk command
+	 *
+	 * @private
+	 */
+	private async handleTalkBackChunk(
+		ws: WebSocket,
+		message: PTTAudioChunkRequest & { request_id?: string },
+	) {
+		const channelUuid = this.getTalkBackChannel(message.session_id);
+
+		if (!channelUuid) {
+			this.sendNack(ws, message.session_id, "", {
+				command: "chunk",
+				request_id: message.request_id,
+				sequence: message.chunk_sequence,
+				error: "Invalid or expired session",
+			});
+
+			return;
+		}
+
+		const result = await this.env.CHANNEL_OBJECTS.getByName(
+			channelUuid,
+		).pttChunk({
+			session_id: message.session_id,
+			chunk_sequence: message.chunk_sequence,
+			audio_data: message.audio_data,
+			chunk_size_bytes: message.chunk_size_bytes,
+			timestamp_ms: message.timestamp_ms || Date.now(),
+		});
+
+		if (result.success) {
+			this.sendAck(ws, message.session_id, channelUuid, {
+				command: "chunk",
+				request_id: message.request_id,
+				sequence: message.chunk_sequence,
+				next_expected_sequence: result.next_expected_sequence,
+			});
+		} else {
+			this.sendNack(ws, message.session_id, channelUuid, {
+				command: "chunk",
+				request_id: message.request_id,
+				sequence: message.chunk_sequence,
+				error: result.error || "Failed to process audio chunk",
+			});
+		}
+	}
+
+	/**
+	 * Ends the talk back transmission.
+	 *
+	 * @param ws - Scanner connection
+	 * @param message - The end command
+	 *
+	 * @private
+	 */
+	private async handleTalkBackEnd(
+		ws: WebSocket,
+		message: PTTEndTransmissionRequest & { request_id?: string },
+	) {
+		const channelUuid = this.getTalkBackChannel(message.session_id);
+
+		if (!channelUuid) {
+			this.sendNack(ws, message.session_id, "", {
+				command: "end",
+				request_id: message.request_id,
+				error: "Invalid or expired session",
+			});
+
+			return;
+		}
+
+		const result = await this.env.CHANNEL_OBJECTS.getByName(channelUuid).pttEnd(
+			{
+				session_id: message.session_id,
+				total_duration_ms: message.total_duration_ms,
+				total_chunks: message.total_chunks,
+			},
+		);
+
+		this.sql.exec(
+			"UPDATE scanner_state SET talk_back_session_id = NULL, talk_back_channel_uuid = NULL WHERE id = 1",
+		);
+
+		if (result.success) {
+			this.sendAck(ws, message.session_id, channelUuid, {
+				command: "end",
+				request_id: message.request_id,
+				session_summary: result.session_summary,
+			});
+		} else {
+			this.sendNack(ws, message.session_id, channelUuid, {
+				command: "end",
+				request_id: message.request_id,
+				error: result.error || "Failed to end transmission",
+			});
+		}
+	}
+
+	/**
+	 * Record the start or the end of a transmission on a scanned channel.
+	 *
+	 * The transmissions of the scanner user are not tracked: they neither take the focus nor
+	 * become the talk back channel.
+	 *
+	 * @param channelUuid - Scanned channel
+	 * @param message - Transmission message forwarded by the channel
+	 * @param userId - User owning the scanner
+	 *
+	 * @private
+	 */
+	private trackActivity(
+		channelUuid: string,
+		message: PTTScannedMessage,
+		userId: string,
+	) {
+		if (message.type === "transmission_started") {
+			if (message.data.user_id === userId) return;
+
+			this.sql.exec(
+				`
+				INSERT OR REPLACE INTO activity (
+					channel_uuid, session_id, user_id, username, is_emergency, started_at
+				) VALUES (?, ?, ?, ?, ?, ?)
+			`,
+				channelUuid,
+				message.session_id,
+				message.data.user_id,
+				message.data.username,
+				message.data.is_emergency ? 1 : 0,
+				message.timestamp_ms,
+			);
+			this.sql.exec(
+				`
+				INSERT INTO scanner_state (id, last_active_channel_uuid) VALUES (1, ?)
+				ON CONFLICT (id) DO UPDATE SET last_active_channel_uuid = excluded.last_active_channel_uuid
+			`,
+				channelUuid,
+			);
+		} else if (message.type === "transmission_ended") {
+			this.sql.exec(
+				"DELETE FROM activity WHERE channel_uuid = ? AND session_id = ?",
+				channelUuid,
+				message.session_id,
+			);
+			this.sql.exec(
+				"UPDATE scanner_state SET talk_back_session_id = NULL, talk_back_channel_uuid = NULL WHERE id = 1 AND talk_back_session_id = ?",
+				message.session_id,
+			);
+		}
+	}
+
+	/**
+	 * Check whether a transmission is already tracked.
+	 *
+	 * @param sessionId - Session of the transmission
+	 * @returns True if the transmission is in the activity table
+	 *
+	 * @private
+	 */
+	private hasActivity(sessionId: string): boolean {
+		return (
+			this.sql
+				.exec("SELECT 1 FROM activity WHERE session_id = ?", sessionId)
+				.toArray().length > 0
+		);
+	}
+
+	/**
+	 * Build the `scanner_state` message from the subscriptions and the busy channels.
+	 *
+	 * @returns State of the scanner
+	 *
+	 * @private
+	 */
+	private buildState(): PTTScannerStateMessage {
+		const channels = this.getSubscriptions();
+		const activity = this.sql
+			.exec("SELECT * FROM activity")
+			.toArray()
+			.map((row): ScannerActivity => ({
+				channel_uuid: String(row.channel_uuid),
+				session_id: String(row.session_id),
+				user_id: String(row.user_id),
+				username: String(row.username),
+				is_emergency: Boolean(row.is_emergency),
+				started_at: Number(row.started_at),
+			}));
+		const focus = resolveScannerFocus(
+			activity,
+			new Map(channels.map((entry) => [entry.channel_uuid, entry.priority])),
+		);
+		const active = activity.find(
+			(entry) => entry.channel_uuid === focus.active_channel_uuid,
+		);
+
+		return {
+			type: "scanner_state",
+			session_id: active?.session_id || "",
+			channel_uuid: active?.channel_uuid || "",
+			timestamp_ms: Date.now(),
+			data: {
+				channels,
+				active_channel_uuid: focus.active_channel_uuid,
+				ducked_channel_uuids: focus.ducked_channel_uuids,
+				last_active_channel_uuid:
+					this.getState()?.last_active_channel_uuid || null,
+			},
+		};
+	}
+
+	/**
+	 * Get the scanned channels in the order of the scan list.
+	 *
+	 * @returns Subscriptions of the scanner
+	 *
+	 * @private
+	 */
+	private getSubscriptions(): ScannerSubscription[] {
+		return this.sql
+			.exec("SELECT * FROM subscriptions ORDER BY position")
+			.toArray()
+			.map((row) => ({
+				channel_uuid: String(row.channel_uuid),
+				channel_name: String(row.name),
+				channel_type: String(row.type) as ScannerSubscription["channel_type"],
+				priority: Number(row.priority),
+			}));
+	}
+
+	/**
+	 * Get the last active channel and the talk back session.
+	 *
+	 * @returns State row, undefined before the first transmission
+	 *
+	 * @private
+	 */
+	private getState():
+		| {
+				last_active_channel_uuid: string | null;
+				talk_back_session_id: string | null;
+				talk_back_channel_uuid: string | null;
+		  }
+		| undefined {
+		const row = this.sql
+			.exec("SELECT * FROM scanner_state WHERE id = 1")
+			.toArray()[0];
+
+		if (!row) return undefined;
+
+		return {
+			last_active_channel_uuid:
+				(row.last_active_channel_uuid as string) || null,
+			talk_back_session_id: (row.talk_back_session_id as string) || null,
+			talk_back_channel_uuid: (row.talk_back_channel_uuid as string) || null,
+		};
+	}
+
+	/**
+	 * Get the channel of the talk back transmission.
+	 *
+	 * @param sessionId - Session referenced by a `chunk` or `end` command
+	 * @returns Channel of the talk back transmission, null for any other session
+	 *
+	 * @private
+	 */
+	private getTalkBackChannel(sessionId: string): string | null {
+		const state = this.getState();
+
+		return state?.talk_back_session_id &&
+			state.talk_back_session_id === sessionId
+			? state.talk_back_channel_uuid
+			: null;
+	}
+
+	/**
+	 * Get the open scanner connection.
+	 *
+	 * @returns The WebSocket and its attachment, or null when the user has no scanner open
+	 *
+	 * @private
+	 */
+	private getConnection(): {
+		websocket: WebSocket;
+		scanner: ScannerConnectionAttachment;
+	} | null {
+		for (const websocket of this.state.getWebSockets()) {
+			const scanner =
+				websocket.deserializeAttachment() as ScannerConnectionAttachment | null;
+
+			if (scanner) return { websocket, scanner };
+		}
+
+		return null;
+	}
+
+	/**
+	 * Send a message on a scanner connection.
+	 *
+	 * @param ws - Scanner connection
+	 * @param message - Message to send
+	 * @returns False if the connection is broken
+	 *
+	 * @private
+	 */
+	private send(ws: WebSocket, message: PTTWebSocketMessage): boolean {
+		try {
+			ws.send(JSON.stringify(message));
+
+			return true;
+		} catch (error) {
+			console.error("Failed to send message to scanner:", error);
+
+			try {
+				ws.close(1011, "Connection error");
+			} catch {
+				// Already closed
+			}
+
+			return false;
+		}
+	}
+
+	/**
+	 * Answer a talk back command with an `ack`.
+	 *
+	 * @param ws - Scanner connection
+	 * @param sessionId - Talk back session ID
+	 * @param channelUuid - Channel of the talk back transmission
+	 * @param data - Acknowledgement details
+	 *
+	 * @private
+	 */
+	private sendAck(
+		ws: WebSocket,
+		sessionId: string,
+		channelUuid: string,
+		data: PTTAckMessage["data"],
+	) {
+		this.send(ws, {
+			type: "ack",
+			session_id: sessionId,
+			channel_uuid: channelUuid,
+			timestamp_ms: Date.now(),
+			data,
+		});
+	}
+
+	/**
+	 * Answer a talk back command with a `nack`.
+	 *
+	 * @param ws - Scanner connection
+	 * @param sessionId - Talk back session ID
+	 * @param channelUuid - Channel of the talk back transmission
+	 * @param data - Rejection details
+	 *
+	 * @private
+	 */
+	private sendNack(
+		ws: WebSocket,
+		sessionId: string,
+		channelUuid: string,
+		data: PTTNackMessage["data"],
+	) {
+		this.send(ws, {
+			type: "nack",
+			session_id: sessionId,
+			channel_uuid: channelUuid,
+			timestamp_ms: Date.now(),
+			data,
+		});
+	}
+
+	/**
+	 * Create the SQLite tables of the scanner if needed.
+	 *
+	 * @private
+	 */
+	private initializeStorage() {
+		this.sql.exec(`
+			CREATE TABLE IF NOT EXISTS subscriptions (
+				channel_uuid TEXT PRIMARY KEY,
+				name TEXT NOT NULL,
+				type TEXT NOT NULL,
+				priority INTEGER NOT NULL,
+				position INTEGER NOT NULL
+			);
+			CREATE TABLE IF NOT EXISTS activity (
+				channel_uuid TEXT PRIMARY KEY,
+				session_id TEXT NOT NULL,
+				user_id TEXT NOT NULL,
+				username TEXT NOT NULL,
+				is_emergency INTEGER NOT NULL DEFAULT 0,
+				started_at INTEGER NOT NULL
+			);
+			CREATE TABLE IF NOT EXISTS scanner_state (
+				id INTEGER PRIMARY KEY CHECK (id = 1),
+				last_active_channel_uuid TEXT,
+				talk_back_session_id TEXT,
+				talk_back_channel_uuid TEXT
+			);
+		`);
+	}
+
+	// ===== RPC METHODS =====
+
+	/**
+	 * RPC method to deliver a transmission message of a scanned channel.
+	 *
+	 * Called by the channel Durable Objects, in order, for the start, the chunks and the end
+	 * of their transmissions. The message is relayed unchanged on the scanner connection,
+	 * followed by a `scanner_state` message when the busy channels change.
+	 *
+	 * @param channelUuid - Scanned channel
+	 * @param message - Transmission message of the channel
+	 *
+	 * @returns Promise resolving to false when the user has no scanner open on this channel
+	 *   anymore, the channel then drops the subscription
+	 *
+	 * @example
+	 * ```typescript
+	 * const delivered = await env.SCANNER_OBJECTS.getByName(userId).scannerDeliver(channelUuid, message);
+	 * ```
+	 */
+	async scannerDeliver(
+		channelUuid: string,
+		message: PTTScannedMessage,
+	): Promise<boolean> {
+		const connection = this.getConnection();
+		const isScanned =
+			this.sql
+				.exec("SELECT 1 FROM subscriptions WHERE channel_uuid = ?", channelUuid)
+				.toArray().length > 0;
+
+		if (!connection || !isScanned) return false;
+
+		if (message.type === "audio_chunk") {
+			return this.send(connection.websocket, message);
+		}
+
+		const { data: before } = this.buildState();
+
+		this.trackActivity(channelUuid, message, connection.scanner.userId);
+
+		const state = this.buildState();
+
+		if (!this.send(connection.websocket, message)) return false;
+
+		if (JSON.stringify(before) !== JSON.stringify(state.data)) {
+			this.send(connection.websocket, state);
+		}
+
+		return true;
+	}
+
+	/**
+	 * RPC method to stop scanning a channel the user was kicked from.
+	 *
+	 * Called by the channel Durable Object, which has already dropped the subscription. The
+	 * channel can no longer be the target of a talk back, and the client gets the new
+	 * `scanner_state` without the channel.
+	 *
+	 * @param channelUuid - Channel the user was kicked from
+	 *
+	 * @example
+	 * ```typescript
+	 * await env.SCANNER_OBJECTS.getByName(userId).scannerDropChannel(channelUuid);
+	 * ```
+	 */
+	async scannerDropChannel(channelUuid: string): Promise<void> {
+		this.sql.exec(
+			"DELETE FROM subscriptions WHERE channel_uuid = ?",
+			channelUuid,
+		);
+		this.sql.exec("DELETE FROM activity WHERE channel_uuid = ?", channelUuid);
+		this.sql.exec(
+			"UPDATE scanner_state SET last_active_channel_uuid = NULL WHERE id = 1 AND last_active_channel_uuid = ?",
+			channelUuid,
+		);
+		this.sql.exec(
+			"UPDATE scanner_state SET talk_back_session_id = NULL, talk_back_channel_uuid = NULL WHERE id = 1 AND talk_back_channel_uuid = ?",
+			channelUuid,
+		);
+
+		const connection = this.getConnection();
+
+		if (connection) {
+			this.send(connection.websocket, this.buildState());
+		}
+	}
+
+	/**
+	 * Handle incoming requests to the Durable Object
+	 * Only handles WebSocket upgrades, the channels deliver their messages through RPC calls
+	 */
+	async fetch(request: Request): Promise<Response> {
+		if (request.headers.get("Upgrade") === "websocket") {
+			return this.handleWebSocketUpgrade(request);
+		}
+
+		return new Response("Use a WebSocket connection for the scanner", {
+			status: 405,
+		});
+	}
+}
@@ -22,12 +22,29 @@
  * SOFTWARE.
  */
 
-import { checkPermissions } from "../auth0";
+import {
+	checkPermissions,
+	getUsernameFromPayload,
+	UNKNOWN_USERNAME,
+} from "../auth0";
 import { ChannelService } from "../services/channel-service";
+import { SiteService } from "../services/site-service";
+import { UserPreferencesService } from "../services/user-preferences-service";
+import { IncidentService } from "../services/incident-service";
+import { FlightService } from "../services/flight-service";
+import { ModerationService } from "../services/moderation-service";
+import { CANNED_MESSAGES, MessageService } from "../services/message-service";
+import { CheckinService } from "../services/checkin-service";
 import { PTTAudioService } from "../services/ptt-audio-service";
 import { Auth0ManagementTokenService } from "../services/auth0-management-token-service";
 import { Auth0PermissionsService } from "../services/auth0-permissions-service";
 import { corsHeader } from "../utils/cors";
+import { validateActiveWindows } from "../utils/channel-schedule";
+import {
+	CHECKIN_DEADLINE_ERROR,
+	isValidCheckinDeadline,
+} from "../utils/pilot-checkin";
+import { isCallListener, resolveCallTargets } from "../utils/private-call";
 import {
 	CreateChannelRequest,
 	CreateChannelWithUuidRequest,
@@ -39,6 +56,31 @@ import {
 	LeaveChannelRequest,
 	LeaveChannelResponse,
 	ChannelParticipant,
+	ChannelTransmissionsResponse,
+	ChannelPositionsResponse,
+	NearbyChannelsResolveRequest,
+	NearbyChannelsResolveResponse,
+	NearbyChannelSuggestion,
+	CreateFlyingSiteRequest,
+	UpdateFlyingSiteRequest,
+	FlyingSitesListResponse,
+	AttachSiteChannelRequest,
+	SiteChannel,
+	SiteChannelsResponse,
+	UpdateUserPreferencesRequest,
+	EmergencyIncident,
+	IncidentsListResponse,
+	IncidentStatus,
+	UpdateIncidentRequest,
+	FlightDetailsResponse,
+	AddChannelModeratorRequest,
+	ChannelModeratorsResponse,
+	ChannelModerationRequest,
+	ChannelModerationResponse,
+	ChannelMessagesResponse,
+	ChannelTextMessageRequest,
+	ChannelCheckinsResponse,
+	PilotCheckinRequest,
 } from "../types/ptt";
 import {
 	PTTStartTransmissionRequest,
@@ -104,6 +146,16 @@ import { Auth0ManagementTokenData } from "../types/auth0-management";
  *         difficulty:
  *           type: string
  *           enum: [beginner, intermediate, advanced, expert]
+ *         recording_enabled:
+ *           type: boolean
+ *         active_windows:
+ *           type: array
+ *           description: Activation windows of a scheduled channel, absent when always available
+ *           items:
+ *             $ref: '#/components/schemas/ChannelActiveWindow'
+ *         checkin_deadline_minutes:
+ *           type: integer
+ *           description: Landing check-in deadline of the site_local pilots after the start of a flight, 240 when absent
  *         location:
  *           type: object
  *           properties:
@@ -111,6 +163,176 @@ import { Auth0ManagementTokenData } from "../types/auth0-management";
  *               type: number
  *             lon:
  *               type: number
+ *     ChannelActiveWindow:
+ *       type: object
+ *       required:
+ *         - type
+ *         - timezone
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [once, weekly]
+ *         start:
+ *           type: string
+ *           description: Local start date and time of a one-off window (YYYY-MM-DDTHH:mm)
+ *           example: "2025-08-14T09:30"
+ *         end:
+ *           type: string
+ *           description: Local end date and time of a one-off window (YYYY-MM-DDTHH:mm)
+ *           example: "2025-08-14T11:00"
+ *         days:
+ *           type: array
+ *           description: Days of a weekly window, 0 is Sunday
+ *           items:
+ *             type: integer
+ *             minimum: 0
+ *             maximum: 6
+ *           example: [0, 6]
+ *         start_time:
+ *           type: string
+ *           description: Local start time of a weekly window (HH:mm)
+ *           example: "10:00"
+ *         end_time:
+ *           type: string
+ *           description: Local end time of a weekly window (HH:mm), on the next day when not after start_time
+ *           example: "18:00"
+ *         timezone:
+ *           type: string
+ *           description: IANA timezone of the local times
+ *           example: "Europe/Paris"
+ *         label:
+ *           type: string
+ *           maxLength: 100
+ *           example: "Task 1 briefing"
+ *     ChannelModerator:
+ *       type: object
+ *       properties:
+ *         channel_uuid:
+ *           type: string
+ *           format: uuid
+ *         user_id:
+ *           type: string
+ *         username:
+ *           type: string
+ *         role:
+ *           type: string
+ *           enum: [moderator]
+ *         granted_by:
+ *           type: string
+ *         granted_at:
+ *           type: string
+ *           format: date-time
+ *     ChannelMute:
+ *       type: object
+ *       properties:
+ *         channel_uuid:
+ *           type: string
+ *           format: uuid
+ *         user_id:
+ *           type: string
+ *         muted_by:
+ *           type: string
+ *         reason:
+ *           type: string
+ *         muted_at:
+ *           type: string
+ *           format: date-time
+ *         expires_at:
+ *           type: string
+ *           format: date-time
+ *           description: Missing when the mute lasts until the participant is unmuted
+ *     ChannelModerationEntry:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         channel_uuid:
+ *           type: string
+ *           format: uuid
+ *         action:
+ *           type: string
+ *           enum: [mute, unmute, kick, force_end, moderator_added, moderator_removed]
+ *         moderator_user_id:
+ *           type: string
+ *         moderator_username:
+ *           type: string
+ *         target_user_id:
+ *           type: string
+ *         reason:
+ *           type: string
+ *         expires_at:
+ *           type: string
+ *           format: date-time
+ *         session_id:
+ *           type: string
+ *           description: Transmission ended by the action
+ *         timestamp:
+ *           type: string
+ *           format: date-time
+ *     ChannelTextMessage:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         channel_uuid:
+ *           type: string
+ *           format: uuid
+ *         user_id:
+ *           type: string
+ *         username:
+ *           type: string
+ *         content:
+ *           type: string
+ *         canned_message_id:
+ *           type: string
+ *           enum: [landed_ok, need_retrieve, wind_too_strong]
+ *           description: Set when the message is a canned message
+ *         location:
+ *           $ref: '#/components/schemas/Coordinates'
+ *         timestamp:
+ *           type: string
+ *           format: date-time
+ *     PilotCheckin:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         channel_uuid:
+ *           type: string
+ *           format: uuid
+ *         user_id:
+ *           type: string
+ *         username:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [flying, landed, overdue]
+ *         flying_since:
+ *           type: string
+ *           format: date-time
+ *           description: Start of the flight, absent for a landing reported without tracked flight
+ *         deadline_at:
+ *           type: string
+ *           format: date-time
+ *           description: Check-in deadline, or end of the active window of the channel
+ *         landed_at:
+ *           type: string
+ *           format: date-time
+ *         landed_via:
+ *           type: string
+ *           enum: [voice, text, button]
+ *         checked_in_by:
+ *           type: string
+ *           description: Moderator who confirmed a landing reported on the radio
+ *         location:
+ *           $ref: '#/components/schemas/Coordinates'
+ *         incident_id:
+ *           type: string
+ *           description: Incident raised when the pilot became overdue
+ *         updated_at:
+ *           type: string
+ *           format: date-time
  *     ChannelStats:
  *       type: object
  *       properties:
@@ -285,6 +507,12 @@ import { Auth0ManagementTokenData } from "../types/auth0-management";
  *         location:
  *           $ref: '#/components/schemas/Coordinates'
  *           description: Optional user location at the time of transmission start
+ *         target_user_ids:
+ *           type: array
+ *           maxItems: 20
+ *           items:
+ *             type: string
+ *           description: Private call - only these participants receive the audio, the others see that the channel is busy. Ignored for emergency transmissions.
  *     PTTStartTransmissionResponse:
  *       type: object
  *       properties:
@@ -438,6 +666,15 @@ import { Auth0ManagementTokenData } from "../types/auth0-management";
  *             audio_format:
  *               type: string
  *               enum: [aac-lc, opus, pcm]
+ *             relayed_from:
+ *               type: object
+ *               description: Origin of an emergency transmission mirrored from another channel
+ *               properties:
+ *                 channel_uuid:
+ *                   type: string
+ *                   format: uuid
+ *                 session_id:
+ *                   type: string
  *           description: Active transmission details, null if none active
  *         error:
  *           type: string
@@ -486,6 +723,20 @@ import { Auth0ManagementTokenData } from "../types/auth0-management";
  *           enum: [beginner, intermediate, advanced, expert]
  *           description: Channel difficulty level
  *           example: "intermediate"
+ *         recording_enabled:
+ *           type: boolean
+ *           default: false
+ *           description: Record transmissions to object storage for later replay
+ *         active_windows:
+ *           type: array
+ *           description: Activation windows, the channel can only be joined and used inside them
+ *           items:
+ *             $ref: '#/components/schemas/ChannelActiveWindow'
+ *         checkin_deadline_minutes:
+ *           type: integer
+ *           minimum: 15
+ *           maximum: 720
+ *           description: Landing check-in deadline of the site_local pilots after the start of a flight (240 by default)
  *         location:
  *           $ref: '#/components/schemas/Coordinates'
  *     ChannelResponse:
@@ -541,6 +792,21 @@ import { Auth0ManagementTokenData } from "../types/auth0-management";
  *           type: string
  *           enum: [beginner, intermediate, advanced, expert]
  *           description: Channel difficulty level
+ *         recording_enabled:
+ *           type: boolean
+ *           description: Record transmissions to object storage for later replay
+ *         active_windows:
+ *           type: array
+ *           nullable: true
+ *           description: Activation windows, null or empty removes the schedule
+ *           items:
+ *             $ref: '#/components/schemas/ChannelActiveWindow'
+ *         checkin_deadline_minutes:
+ *           type: integer
+ *           nullable: true
+ *           minimum: 15
+ *           maximum: 720
+ *           description: Landing check-in deadline of the site_local pilots, null restores the default
  *         location:
  *           $ref: '#/components/schemas/Coordinates'
  *     ChannelsListResponse:
@@ -584,6 +850,231 @@ import { Auth0ManagementTokenData } from "../types/auth0-management";
  *         error:
  *           type: string
  *           description: Error message if success is false
+ *     FlyingSite:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "planpraz"
+ *         name:
+ *           type: string
+ *           example: "Planpraz"
+ *         coordinates:
+ *           $ref: '#/components/schemas/Coordinates'
+ *         elevation:
+ *           type: integer
+ *           description: Elevation in meters
+ *           example: 2000
+ *         difficulty:
+ *           type: string
+ *           enum: [beginner, intermediate, advanced, expert]
+ *         vhf_frequency:
+ *           type: string
+ *           example: "143.9875"
+ *         radius_km:
+ *           type: number
+ *           example: 25
+ *         weather_station_id:
+ *           type: string
+ *         associated_channels:
+ *           type: array
+ *           items:
+ *             type: string
+ *             format: uuid
+ *         primary_channel:
+ *           type: string
+ *           format: uuid
+ *           description: Channel flagged is_primary for this site
+ *         is_active:
+ *           type: boolean
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *     UserPreferences:
+ *       type: object
+ *       properties:
+ *         user_id:
+ *           type: string
+ *           description: JWT subject of the user
+ *         username:
+ *           type: string
+ *         preferred_language:
+ *           type: string
+ *           example: "fr-FR"
+ *         favorite_sites:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Flying site IDs
+ *         auto_join_site_channels:
+ *           type: boolean
+ *           default: true
+ *         emergency_mode_enabled:
+ *           type: boolean
+ *           default: true
+ *         share_location:
+ *           type: boolean
+ *           default: true
+ *           description: Share the live position with the channel members
+ *         vhf_backup_frequency:
+ *           type: string
+ *           example: "143.9875"
+ *         device_token:
+ *           type: string
+ *           description: APNs device token
+ *         last_location:
+ *           $ref: '#/components/schemas/Coordinates'
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *     EmergencyIncident:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         channel_uuid:
+ *           type: string
+ *           format: uuid
+ *         incident_type:
+ *           type: string
+ *           enum: [emergency, overdue]
+ *           description: Emergency transmission, or pilot who did not check in landed before the deadline
+ *         session_id:
+ *           type: string
+ *           description: Emergency transmission that raised the incident, or check-in ID of an overdue pilot
+ *         user_id:
+ *           type: string
+ *         username:
+ *           type: string
+ *         location:
+ *           $ref: '#/components/schemas/Coordinates'
+ *         status:
+ *           type: string
+ *           enum: [open, acknowledged, closed]
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *         acknowledged_at:
+ *           type: string
+ *           format: date-time
+ *         acknowledged_by:
+ *           type: string
+ *         closed_at:
+ *           type: string
+ *           format: date-time
+ *         closed_by:
+ *           type: string
+ *         notes:
+ *           type: string
+ *         notifications:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               notifier:
+ *                 type: string
+ *                 example: "webhook"
+ *               status:
+ *                 type: string
+ *                 enum: [pending, delivered, failed]
+ *               attempts:
+ *                 type: integer
+ *               last_error:
+ *                 type: string
+ *               last_attempt_at:
+ *                 type: string
+ *                 format: date-time
+ *               delivered_at:
+ *                 type: string
+ *                 format: date-time
+ *     Flight:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         user_id:
+ *           type: string
+ *         format:
+ *           type: string
+ *           enum: [igc, gpx]
+ *         pilot_name:
+ *           type: string
+ *         glider_type:
+ *           type: string
+ *         glider_id:
+ *           type: string
+ *         site_name:
+ *           type: string
+ *         takeoff_time:
+ *           type: string
+ *           format: date-time
+ *         landing_time:
+ *           type: string
+ *           format: date-time
+ *         duration_seconds:
+ *           type: integer
+ *         takeoff:
+ *           $ref: '#/components/schemas/Coordinates'
+ *         landing:
+ *           $ref: '#/components/schemas/Coordinates'
+ *         max_altitude_m:
+ *           type: number
+ *         point_count:
+ *           type: integer
+ *           description: Fixes in the original file
+ *         transmission_count:
+ *           type: integer
+ *           description: Transmissions of the pilot made during the flight
+ *         uploaded_at:
+ *           type: string
+ *           format: date-time
+ *     FlightDetails:
+ *       allOf:
+ *         - $ref: '#/components/schemas/Flight'
+ *         - type: object
+ *           properties:
+ *             track:
+ *               type: array
+ *               description: Fixes ordered by time, downsampled for long flights
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   timestamp_ms:
+ *                     type: integer
+ *                   lat:
+ *                     type: number
+ *                   lon:
+ *                     type: number
+ *                   altitude_m:
+ *                     type: number
+ *             transmissions:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   transmission_id:
+ *                     type: integer
+ *                   session_id:
+ *                     type: string
+ *                   channel_uuid:
+ *                     type: string
+ *                     format: uuid
+ *                   start_time:
+ *                     type: string
+ *                     format: date-time
+ *                   duration_seconds:
+ *                     type: integer
+ *                   is_emergency:
+ *                     type: boolean
+ *                   position:
+ *                     $ref: '#/components/schemas/Coordinates'
+ *                   altitude_m:
+ *                     type: number
  *     Auth0ManagementTokenData:
  *       type: object
  *       properties:
@@ -621,18 +1112,38 @@ import { Auth0ManagementTokenData } from "../types/auth0-management";
  *     description: PTT channel management operations
  *   - name: Transmissions
  *     description: Real-time PTT audio transmission operations
+ *   - name: Sites
+ *     description: Flying sites (takeoffs and landings) and their channels
+ *   - name: Users
+ *     description: Preferences of the authenticated user
+ *   - name: Incidents
+ *     description: Emergency incidents raised by emergency transmissions
+ *   - name: Flights
+ *     description: Flight tracks imported from the pilots varios
  *   - name: System
  *     description: System health and status endpoints
  *   - name: Auth0 Management
  *     description: Auth0 Management API operations
  */
 
+/**
+ * Maximum size of an imported track file, a ten hours IGC recorded at 1 Hz is about 1.3 MB
+ */
+const MAX_FLIGHT_FILE_BYTES = 5 * 1024 * 1024;
+
 /**
  * PTT API handler for channel management
  * Provides RESTful API endpoints under /api/v1/channels
  */
 export class PTTAPIHandler {
 	private channelService: ChannelService;
+	private siteService: SiteService;
+	private userPreferencesService: UserPreferencesService;
+	private incidentService: IncidentService;
+	private flightService: FlightService;
+	private moderationService: ModerationService;
+	private messageService: MessageService;
+	private checkinService: CheckinService;
 	private audioService: PTTAudioService;
 	private managementTokenService: Auth0ManagementTokenService;
 	private permissionsService: Auth0PermissionsService;
@@ -647,6 +1158,13 @@ export class PTTAPIHandler {
 		corsOrigin: string,
 	) {
 		this.channelService = new ChannelService(db, kv);
+		this.siteService = new SiteService(db);
+		this.userPreferencesService = new UserPreferencesService(db);
+		this.incidentService = new IncidentService(db);
+		this.flightService = new FlightService(db);
+		this.moderationService = new ModerationService(db);
+		this.messageService = new MessageService(db);
+		this.checkinService = new CheckinService(db);
 		this.audioService = new PTTAudioService(env);
 		this.managementTokenService = new Auth0ManagementTokenService(kv, env);
 		this.permissionsService = new Auth0PermissionsService(this.managementTokenService, env);
@@ -697,6 +1215,7 @@ export class PTTAPIHandler {
 			const resource = pathParts[2];
 			const resourceId = pathParts[3];
 			const subResource = pathParts[4];
+			const subResourceId = pathParts[5];
 
 			// Route to appropriate handler
 			switch (resource) {
@@ -706,6 +1225,7 @@ export class PTTAPIHandler {
 						env,
 						resourceId,
 						subResource,
+						subResourceId,
 					);
 				case "transmissions":
 					return await this.handleTransmissionsAPI(
@@ -714,6 +1234,25 @@ export class PTTAPIHandler {
 						resourceId,
 						subResource,
 					);
+				case "sites":
+					return await this.handleSitesAPI(
+						request,
+						env,
+						resourceId,
+						subResource,
+						subResourceId,
+					);
+				case "me":
+					return await this.handleMeAPI(request, env, resourceId);
+				case "incidents":
+					return await this.handleIncidentsAPI(
+						request,
+						env,
+						resourceId,
+						subResource,
+					);
+				case "flights":
+					return await this.handleFlightsAPI(request, env, resourceId);
 				case "auth0-management":
 					return await this.handleAuth0ManagementAPI(
 						request,
@@ -738,6 +1277,7 @@ export class PTTAPIHandler {
 	 * @param env Environment variables
 	 * @param resourceId Channel UUID if specified
 	 * @param subResource Sub-resource like 'join', 'leave', 'participants'
+	 * @param subResourceId Sub-resource identifier, the user ID for 'moderators'
 	 * @returns HTTP response
 	 */
 	private async handleChannelsAPI(
@@ -745,6 +1285,7 @@ export class PTTAPIHandler {
 		env: Env,
 		resourceId?: string,
 		subResource?: string,
+		subResourceId?: string,
 	): Promise<Response> {
 		const method = request.method;
 
@@ -759,6 +1300,7 @@ export class PTTAPIHandler {
 		}
 
 		const userId = authResult.userId!;
+		const username = authResult.username!;
 		const permissions = authResult.permissions!;
 
 		try {
@@ -774,6 +1316,23 @@ export class PTTAPIHandler {
 				);
 			}
 
+			// Special handling for /channels/nearby/resolve endpoint
+			if (resourceId === "nearby" && subResource === "resolve") {
+				if (method === "POST") {
+					return await this.resolveNearbyChannels(
+						request,
+						userId,
+						permissions,
+						env,
+					);
+				}
+
+				return this.errorResponse(
+					`Method ${method} not allowed for nearby resolve operation`,
+					405,
+				);
+			}
+
 			// Handle sub-resources for specific channels
 			if (resourceId && subResource) {
 				switch (subResource) {
@@ -819,9 +1378,9 @@ export class PTTAPIHandler {
 							405,
 						);
 
-					case "update-token":
-						if (method === "PUT" || method === "POST") {
-							return await this.updateParticipantToken(
+					case "transmissions":
+						if (method === "GET") {
+							return await this.getChannelTransmissions(
 								request,
 								resourceId,
 								userId,
@@ -831,22 +1390,152 @@ export class PTTAPIHandler {
 						}
 
 						return this.errorResponse(
-							`Method ${method} not allowed for update-token operation`,
+							`Method ${method} not allowed for transmissions operation`,
 							405,
 						);
 
-					default:
+					case "positions":
+						if (method === "GET") {
+							return await this.getChannelPositions(
+								request,
+								resourceId,
+								permissions,
+								env,
+							);
+						}
+
 						return this.errorResponse(
-							`Unknown sub-resource: ${subResource}`,
-							404,
+							`Method ${method} not allowed for positions operation`,
+							405,
 						);
-				}
-			}
 
-			// Handle regular channel CRUD operations
-			switch (method) {
-				case "GET":
-					return resourceId
+					case "update-token":
+						if (method === "PUT" || method === "POST") {
+							return await this.updateParticipantToken(
+								request,
+								resourceId,
+								userId,
+								permissions,
+								env,
+							);
+						}
+
+						return this.errorResponse(
+							`Method ${method} not allowed for update-token operation`,
+							405,
+						);
+
+					case "moderators":
+						if (method === "GET" && !subResourceId) {
+							return await this.getChannelModerators(
+								resourceId,
+								permissions,
+								env,
+							);
+						}
+
+						if (subResourceId && (method === "PUT" || method === "DELETE")) {
+							return await this.updateChannelModerator(
+								request,
+								resourceId,
+								subResourceId,
+								{ user_id: userId, username },
+								permissions,
+								env,
+							);
+						}
+
+						return this.errorResponse(
+							`Method ${method} not allowed for moderators operation`,
+							405,
+						);
+
+					case "moderation":
+						if (method === "GET") {
+							return await this.getChannelModeration(
+								resourceId,
+								userId,
+								permissions,
+								env,
+							);
+						}
+
+						if (method === "POST") {
+							return await this.moderateChannel(
+								request,
+								resourceId,
+								{ user_id: userId, username },
+								permissions,
+								env,
+							);
+						}
+
+						return this.errorResponse(
+							`Method ${method} not allowed for moderation operation`,
+							405,
+						);
+
+					case "messages":
+						if (method === "GET") {
+							return await this.getChannelMessages(
+								request,
+								resourceId,
+								permissions,
+								env,
+							);
+						}
+
+						if (method === "POST") {
+							return await this.postChannelMessage(
+								request,
+								resourceId,
+								{ user_id: userId, username },
+								permissions,
+								env,
+							);
+						}
+
+						return this.errorResponse(
+							`Method ${method} not allowed for messages operation`,
+							405,
+						);
+
+					case "checkins":
+						if (method === "GET") {
+							return await this.getChannelCheckins(
+								resourceId,
+								permissions,
+								env,
+							);
+						}
+
+						if (method === "POST") {
+							return await this.postChannelCheckin(
+								request,
+								resourceId,
+								{ user_id: userId, username },
+								permissions,
+								env,
+							);
+						}
+
+						return this.errorResponse(
+							`Method ${method} not allowed for checkins operation`,
+							405,
+						);
+
+					default:
+						return this.errorResponse(
+							`Unknown sub-resource: ${subResource}`,
+							404,
+						);
+				}
+			}
+
+			// Handle regular channel CRUD operations
+			switch (method) {
+				case "GET":
+					return resourceId
 						? await this.getChannel(resourceId, permissions, env)
 						: await this.getChannels(request, permissions, env);
 
@@ -936,7 +1625,7 @@ export class PTTAPIHandler {
 	 *         schema:
 	 *           type: number
 	 *           minimum: 0
-	 *         description: Search radius in kilometers (requires lat/lon)
+	 *         description: Search radius in kilometers (requires lat/lon). Channels are then sorted by distance and include distance_km
 	 *     responses:
 	 *       200:
 	 *         description: Channels retrieved successfully
@@ -1232,6 +1921,31 @@ export class PTTAPIHandler {
 			return this.errorResponse("Name and type are required fields", 400);
 		}
 
+		// Validate the schedule, emergency channels must stay available at all times
+		if (createRequest.active_windows !== undefined) {
+			const scheduleError = validateActiveWindows(createRequest.active_windows);
+
+			if (scheduleError) {
+				return this.errorResponse(scheduleError, 400);
+			}
+			if (
+				createRequest.type === "emergency" &&
+				createRequest.active_windows.length > 0
+			) {
+				return this.errorResponse(
+					"Emergency channels cannot be scheduled",
+					400,
+				);
+			}
+		}
+
+		if (
+			createRequest.checkin_deadline_minutes !== undefined &&
+			!isValidCheckinDeadline(createRequest.checkin_deadline_minutes)
+		) {
+			return this.errorResponse(CHECKIN_DEADLINE_ERROR, 400);
+		}
+
 		// Additional validation for emergency channels (admin only)
 		if (
 			createRequest.type === "emergency" &&
@@ -1343,6 +2057,31 @@ export class PTTAPIHandler {
 			);
 		}
 
+		// Validate the schedule, emergency channels must stay available at all times
+		if (createRequest.active_windows !== undefined) {
+			const scheduleError = validateActiveWindows(createRequest.active_windows);
+
+			if (scheduleError) {
+				return this.errorResponse(scheduleError, 400);
+			}
+			if (
+				createRequest.type === "emergency" &&
+				createRequest.active_windows.length > 0
+			) {
+				return this.errorResponse(
+					"Emergency channels cannot be scheduled",
+					400,
+				);
+			}
+		}
+
+		if (
+			createRequest.checkin_deadline_minutes !== undefined &&
+			!isValidCheckinDeadline(createRequest.checkin_deadline_minutes)
+		) {
+			return this.errorResponse(CHECKIN_DEADLINE_ERROR, 400);
+		}
+
 		// Additional validation for emergency channels (admin only)
 		if (
 			createRequest.type === "emergency" &&
@@ -1430,6 +2169,18 @@ export class PTTAPIHandler {
 	 *                 type: string
 	 *                 enum: [beginner, intermediate, advanced, expert]
 	 *                 description: Channel difficulty level
+	 *               active_windows:
+	 *                 type: array
+	 *                 nullable: true
+	 *                 description: Activation windows, null or empty removes the schedule
+	 *                 items:
+	 *                   $ref: '#/components/schemas/ChannelActiveWindow'
+	 *               checkin_deadline_minutes:
+	 *                 type: integer
+	 *                 nullable: true
+	 *                 minimum: 15
+	 *                 maximum: 720
+	 *                 description: Landing check-in deadline of the site_local pilots, null restores the default
 	 *               location:
 	 *                 type: object
 	 *                 properties:
@@ -1450,7 +2201,7 @@ export class PTTAPIHandler {
 	 *             schema:
 	 *               $ref: '#/components/schemas/ChannelResponse'
 	 *       400:
-	 *         description: Invalid JSON payload
+	 *         description: Invalid JSON payload or schedule
 	 *         content:
 	 *           application/json:
 	 *             schema:
@@ -1531,6 +2282,35 @@ export class PTTAPIHandler {
 			);
 		}
 
+		// Validate the schedule, emergency channels must stay available at all times
+		if (updateRequest.active_windows) {
+			const scheduleError = validateActiveWindows(updateRequest.active_windows);
+
+			if (scheduleError) {
+				return this.errorResponse(scheduleError, 400);
+			}
+		}
+		const activeWindows =
+			updateRequest.active_windows !== undefined
+				? updateRequest.active_windows
+				: existingChannel.active_windows;
+
+		if (
+			(updateRequest.type ?? existingChannel.type) === "emergency" &&
+			activeWindows &&
+			activeWindows.length > 0
+		) {
+			return this.errorResponse("Emergency channels cannot be scheduled", 400);
+		}
+
+		if (
+			updateRequest.checkin_deadline_minutes !== undefined &&
+			updateRequest.checkin_deadline_minutes !== null &&
+			!isValidCheckinDeadline(updateRequest.checkin_deadline_minutes)
+		) {
+			return this.errorResponse(CHECKIN_DEADLINE_ERROR, 400);
+		}
+
 		const updatedChannel = await this.channelService.updateChannel(
 			uuid.toLowerCase(),
 			updateRequest,
@@ -1700,18 +2480,150 @@ export class PTTAPIHandler {
 	}
 
 	/**
-	 * Health check endpoint
+	 * Handle flying sites API endpoints
+	 * @param request HTTP request
+	 * @param env Environment variables
+	 * @param siteId Site ID if specified
+	 * @param subResource Sub-resource, only 'channels' is supported
+	 * @param channelUuid Channel UUID for the detach operation
+	 * @returns HTTP response
+	 */
+	private async handleSitesAPI(
+		request: Request,
+		env: Env,
+		siteId?: string,
+		subResource?: string,
+		channelUuid?: string,
+	): Promise<Response> {
+		const method = request.method;
+
+		// Authentication required for all site operations
+		const authResult = await this.authenticateRequest(request, env);
+
+		if (!authResult.success) {
+			return this.errorResponse(
+				authResult.error || "Authentication failed",
+				401,
+			);
+		}
+
+		const permissions = authResult.permissions!;
+
+		try {
+			if (siteId && subResource) {
+				if (subResource !== "channels") {
+					return this.errorResponse(
+						`Unknown sub-resource: ${subResource}`,
+						404,
+					);
+				}
+
+				switch (method) {
+					case "GET":
+						return await this.getSiteChannels(siteId, permissions, env);
+
+					case "POST":
+					case "PUT":
+						return await this.attachSiteChannel(
+							request,
+							siteId,
+							permissions,
+							env,
+						);
+
+					case "DELETE":
+						if (!channelUuid) {
+							return this.errorResponse(
+								"Channel UUID required for detach",
+								400,
+							);
+						}
+
+						return await this.detachSiteChannel(
+							siteId,
+							channelUuid,
+							permissions,
+							env,
+						);
+
+					default:
+						return this.errorResponse(
+							`Method ${method} not allowed for site channels operation`,
+							405,
+						);
+				}
+			}
+
+			switch (method) {
+				case "GET":
+					return siteId
+						? await this.getSite(siteId, permissions, env)
+						: await this.getSites(request, permissions, env);
+
+				case "POST":
+					return await this.createSite(request, permissions, env);
+
+				case "PUT":
+					if (!siteId) {
+						return this.errorResponse("Site ID required for update", 400);
+					}
+
+					return await this.updateSite(request, siteId, permissions, env);
+
+				case "DELETE":
+					if (!siteId) {
+						return this.errorResponse("Site ID required for deletion", 400);
+					}
+
+					return await this.deleteSite(request, siteId, permissions, env);
+
+				default:
+					return this.errorResponse(`Method ${method} not allowed`, 405);
+			}
+		} catch (error) {
+			console.error("Site API error:", error);
+
+			return this.errorResponse("Site operation failed", 500);
+		}
+	}
+
+	/**
+	 * GET /api/v1/sites - List flying sites
 	 *
 	 * @openapi
-	 * /api/v1/health:
+	 * /api/v1/sites:
 	 *   get:
-	 *     summary: Health check
-	 *     description: Returns the health status of the PTT API service and its dependencies.
+	 *     summary: List flying sites
+	 *     description: Retrieve the flying sites, sorted by name or by distance when lat, lon and radius are given. Requires read permission.
 	 *     tags:
-	 *       - System
+	 *       - Sites
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: query
+	 *         name: active
+	 *         schema:
+	 *           type: boolean
+	 *           default: true
+	 *         description: Filter by active status
+	 *       - in: query
+	 *         name: lat
+	 *         schema:
+	 *           type: number
+	 *         description: Latitude for location-based filtering
+	 *       - in: query
+	 *         name: lon
+	 *         schema:
+	 *           type: number
+	 *         description: Longitude for location-based filtering
+	 *       - in: query
+	 *         name: radius
+	 *         schema:
+	 *           type: number
+	 *         description: Search radius in kilometers (requires lat/lon, max 100 for non-admin users)
 	 *     responses:
 	 *       200:
-	 *         description: Service health status
+	 *         description: Sites retrieved successfully
 	 *         content:
 	 *           application/json:
 	 *             schema:
@@ -1719,30 +2631,1423 @@ export class PTTAPIHandler {
 	 *               properties:
 	 *                 success:
 	 *                   type: boolean
-	 *                   example: true
 	 *                 data:
 	 *                   type: object
 	 *                   properties:
-	 *                     status:
-	 *                       type: string
-	 *                       enum: [healthy, degraded, unhealthy]
-	 *                       example: "healthy"
-	 *                     timestamp:
-	 *                       type: string
-	 *                       format: date-time
-	 *                     version:
-	 *                       type: string
-	 *                       example: "1.0.0"
-	 *                     api_version:
-	 *                       type: string
-	 *                       example: "v1"
-	 *                     services:
-	 *                       type: object
-	 *                       properties:
-	 *                         database:
-	 *                           type: string
-	 *                           enum: [operational, degraded, down]
-	 *                           example: "operational"
+	 *                     sites:
+	 *                       type: array
+	 *                       items:
+	 *                         $ref: '#/components/schemas/FlyingSite'
+	 *                     total_count:
+	 *                       type: integer
+	 *       400:
+	 *         description: Invalid location parameters
+	 *       403:
+	 *         description: Insufficient permissions
+	 */
+	private async getSites(
+		request: Request,
+		permissions: string[],
+		env: Env,
+	): Promise<Response> {
+		// Check read permission
+		if (
+			!permissions.includes(env.READ_PERMISSION) &&
+			!permissions.includes(env.ADMIN_PERMISSION)
+		) {
+			return this.errorResponse("Insufficient permissions", 403);
+		}
+
+		const url = new URL(request.url);
+		const activeOnly = url.searchParams.get("active") !== "false";
+		const lat = url.searchParams.get("lat");
+		const lon = url.searchParams.get("lon");
+		const radius = url.searchParams.get("radius");
+
+		let sites: FlyingSitesListResponse["sites"];
+
+		if (lat && lon && radius) {
+			const location = { lat: parseFloat(lat), lon: parseFloat(lon) };
+			// Same radius limit as the channels list
+			const radiusLimit = permissions.includes(env.ADMIN_PERMISSION)
+				? Infinity
+				: 100;
+			const radiusKm = Math.min(parseFloat(radius), radiusLimit);
+
+			if (
+				isNaN(radiusKm) ||
+				radiusKm <= 0 ||
+				!ChannelService.isValidCoordinates(location.lat, location.lon)
+			) {
+				return this.errorResponse("Invalid lat, lon or radius parameter", 400);
+			}
+
+			sites = await this.siteService.getNearbySites(location, radiusKm);
+		} else {
+			sites = await this.siteService.getSites(activeOnly);
+		}
+
+		return this.successResponse<FlyingSitesListResponse>({
+			sites,
+			total_count: sites.length,
+		});
+	}
+
+	/**
+	 * GET /api/v1/sites/{id} - Get a flying site
+	 *
+	 * @openapi
+	 * /api/v1/sites/{id}:
+	 *   get:
+	 *     summary: Get flying site details
+	 *     description: Retrieve a flying site with its associated channels. Requires read permission.
+	 *     tags:
+	 *       - Sites
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *         description: Site ID
+	 *     responses:
+	 *       200:
+	 *         description: Site retrieved successfully
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               type: object
+	 *               properties:
+	 *                 success:
+	 *                   type: boolean
+	 *                 data:
+	 *                   $ref: '#/components/schemas/FlyingSite'
+	 *       403:
+	 *         description: Insufficient permissions
+	 *       404:
+	 *         description: Site not found
+	 */
+	private async getSite(
+		siteId: string,
+		permissions: string[],
+		env: Env,
+	): Promise<Response> {
+		// Check read permission
+		if (
+			!permissions.includes(env.READ_PERMISSION) &&
+			!permissions.includes(env.ADMIN_PERMISSION)
+		) {
+			return this.errorResponse("Insufficient permissions", 403);
+		}
+
+		const site = await this.siteService.getSite(siteId);
+
+		if (!site) {
+			return this.errorResponse("Site not found", 404);
+		}
+
+		return this.successResponse(site);
+	}
+
+	/**
+	 * POST /api/v1/sites - Create a flying site
+	 *
+	 * @openapi
+	 * /api/v1/sites:
+	 *   post:
+	 *     summary: Create a flying site
+	 *     description: Create a takeoff or landing. The ID is generated when not provided. Requires write permission.
+	 *     tags:
+	 *       - Sites
+	 *     security:
+	 *       - bearerAuth: []
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             required:
+	 *               - name
+	 *               - coordinates
+	 *               - elevation
+	 *               - difficulty
+	 *             properties:
+	 *               id:
+	 *                 type: string
+	 *                 pattern: '^[A-Za-z0-9_-]{1,64}$'
+	 *               name:
+	 *                 type: string
+	 *               coordinates:
+	 *                 $ref: '#/components/schemas/Coordinates'
+	 *               elevation:
+	 *                 type: integer
+	 *               difficulty:
+	 *                 type: string
+	 *                 enum: [beginner, intermediate, advanced, expert]
+	 *               vhf_frequency:
+	 *                 type: string
+	 *               radius_km:
+	 *                 type: number
+	 *                 default: 25
+	 *               weather_station_id:
+	 *                 type: string
+	 *           example:
+	 *             id: "planpraz"
+	 *             name: "Planpraz"
+	 *             coordinates:
+	 *               lat: 45.9375
+	 *               lon: 6.8569
+	 *             elevation: 2000
+	 *             difficulty: "intermediate"
+	 *             vhf_frequency: "143.9875"
+	 *     responses:
+	 *       201:
+	 *         description: Site created successfully
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               type: object
+	 *               properties:
+	 *                 success:
+	 *                   type: boolean
+	 *                 data:
+	 *                   $ref: '#/components/schemas/FlyingSite'
+	 *       400:
+	 *         description: Invalid request data or site ID already used
+	 *       403:
+	 *         description: Insufficient permissions
+	 */
+	private async createSite(
+		request: Request,
+		permissions: string[],
+		env: Env,
+	): Promise<Response> {
+		// Check write permission
+		if (
+			!permissions.includes(env.WRITE_PERMISSION) &&
+			!permissions.includes(env.ADMIN_PERMISSION)
+		) {
+			return this.errorResponse("Insufficient permissions", 403);
+		}
+
+		let createRequest: CreateFlyingSiteRequest;
+
+		try {
+			createRequest = await request.json();
+		} catch {
+			return this.errorResponse("Invalid JSON payload", 400);
+		}
+
+		const result = await this.siteService.createSite(createRequest);
+
+		if (!result.success || !result.site) {
+			return this.errorResponse(result.error || "Failed to create site", 400);
+		}
+
+		return this.successResponse(result.site, 201);
+	}
+
+	/**
+	 * PUT /api/v1/sites/{id} - Update a flying site
+	 *
+	 * @openapi
+	 * /api/v1/sites/{id}:
+	 *   put:
+	 *     summary: Update a flying site
+	 *     description: Update the fields of a flying site. Set vhf_frequency or weather_station_id to null to clear them. Requires write permission.
+	 *     tags:
+	 *       - Sites
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *         description: Site ID
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             properties:
+	 *               name:
+	 *                 type: string
+	 *               coordinates:
+	 *                 $ref: '#/components/schemas/Coordinates'
+	 *               elevation:
+	 *                 type: integer
+	 *               difficulty:
+	 *                 type: string
+	 *                 enum: [beginner, intermediate, advanced, expert]
+	 *               vhf_frequency:
+	 *                 type: string
+	 *                 nullable: true
+	 *               radius_km:
+	 *                 type: number
+	 *               weather_station_id:
+	 *                 type: string
+	 *                 nullable: true
+	 *               is_active:
+	 *                 type: boolean
+	 *     responses:
+	 *       200:
+	 *         description: Site updated successfully
+	 *       400:
+	 *         description: Invalid request data
+	 *       403:
+	 *         description: Insufficient permissions
+	 *       404:
+	 *         description: Site not found
+	 */
+	private async updateSite(
+		request: Request,
+		siteId: string,
+		permissions: string[],
+		env: Env,
+	): Promise<Response> {
+		// Check write permission
+		if (
+			!permissions.includes(env.WRITE_PERMISSION) &&
+			!permissions.includes(env.ADMIN_PERMISSION)
+		) {
+			return this.errorResponse("Insufficient permissions", 403);
+		}
+
+		let updateRequest: UpdateFlyingSiteRequest;
+
+		try {
+			updateRequest = await request.json();
+		} catch {
+			return this.errorResponse("Invalid JSON payload", 400);
+		}
+
+		const result = await this.siteService.updateSite(siteId, updateRequest);
+
+		if (!result.success || !result.site) {
+			return this.errorResponse(
+				result.error || "Failed to update site",
+				result.error === "Site not found" ? 404 : 400,
+			);
+		}
+
+		return this.successResponse(result.site);
+	}
+
+	/**
+	 * DELETE /api/v1/sites/{id} - Delete a flying site
+	 *
+	 * @openapi
+	 * /api/v1/sites/{id}:
+	 *   delete:
+	 *     summary: Delete a flying site
+	 *     description: Deactivate a flying site, or remove it with its channel associations when hard=true. Requires admin permission.
+	 *     tags:
+	 *       - Sites
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *         description: Site ID
+	 *       - in: query
+	 *         name: hard
+	 *         schema:
+	 *           type: boolean
+	 *           default: false
+	 *         description: Permanently delete the site
+	 *     responses:
+	 *       200:
+	 *         description: Site deleted successfully
+	 *       403:
+	 *         description: Admin permission required
+	 *       404:
+	 *         description: Site not found
+	 */
+	private async deleteSite(
+		request: Request,
+		siteId: string,
+		permissions: string[],
+		env: Env,
+	): Promise<Response> {
+		// Check admin permission for deletion
+		if (!permissions.includes(env.ADMIN_PERMISSION)) {
+			return this.errorResponse(
+				"Admin permission required for site deletion",
+				403,
+			);
+		}
+
+		const url = new URL(request.url);
+		const hardDelete = url.searchParams.get("hard") === "true";
+
+		const success = await this.siteService.deleteSite(siteId, hardDelete);
+
+		if (!success) {
+			return this.errorResponse("Site not found", 404);
+		}
+
+		return this.successResponse({
+			message: `Site ${hardDelete ? "permanently deleted" : "deactivated"}`,
+			id: siteId,
+			hard_delete: hardDelete,
+		});
+	}
+
+	/**
+	 * GET /api/v1/sites/{id}/channels - List the channels of a flying site
+	 *
+	 * @openapi
+	 * /api/v1/sites/{id}/channels:
+	 *   get:
+	 *     summary: List site channels
+	 *     description: Retrieve the channels attached to a flying site, primary channel first. Requires read permission.
+	 *     tags:
+	 *       - Sites
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *         description: Site ID
+	 *     responses:
+	 *       200:
+	 *         description: Site channels retrieved successfully
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               type: object
+	 *               properties:
+	 *                 success:
+	 *                   type: boolean
+	 *                 data:
+	 *                   type: object
+	 *                   properties:
+	 *                     site_id:
+	 *                       type: string
+	 *                     channels:
+	 *                       type: array
+	 *                       items:
+	 *                         allOf:
+	 *                           - $ref: '#/components/schemas/Channel'
+	 *                           - type: object
+	 *                             properties:
+	 *                               is_primary:
+	 *                                 type: boolean
+	 *                               attached_at:
+	 *                                 type: string
+	 *                                 format: date-time
+	 *       403:
+	 *         description: Insufficient permissions
+	 *       404:
+	 *         description: Site not found
+	 */
+	private async getSiteChannels(
+		siteId: string,
+		permissions: string[],
+		env: Env,
+	): Promise<Response> {
+		// Check read permission
+		if (
+			!permissions.includes(env.READ_PERMISSION) &&
+			!permissions.includes(env.ADMIN_PERMISSION)
+		) {
+			return this.errorResponse("Insufficient permissions", 403);
+		}
+
+		const site = await this.siteService.getSite(siteId);
+
+		if (!site) {
+			return this.errorResponse("Site not found", 404);
+		}
+
+		const associations =
+			await this.siteService.getSiteChannelAssociations(siteId);
+		const channels: SiteChannel[] = [];
+
+		for (const association of associations) {
+			const channel = await this.channelService.getChannel(
+				association.channel_uuid,
+			);
+
+			if (channel) {
+				channels.push({
+					...channel,
+					is_primary: association.is_primary,
+					attached_at: association.created_at,
+				});
+			}
+		}
+
+		return this.successResponse<SiteChannelsResponse>({
+			site_id: siteId,
+			channels,
+		});
+	}
+
+	/**
+	 * POST /api/v1/sites/{id}/channels - Attach a channel to a flying site
+	 *
+	 * @openapi
+	 * /api/v1/sites/{id}/channels:
+	 *   post:
+	 *     summary: Attach a channel to a site
+	 *     description: Attach a channel to a flying site, or update its is_primary flag when already attached. A site has at most one primary channel. Requires write permission.
+	 *     tags:
+	 *       - Sites
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *         description: Site ID
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             required:
+	 *               - channel_uuid
+	 *             properties:
+	 *               channel_uuid:
+	 *                 type: string
+	 *                 format: uuid
+	 *               is_primary:
+	 *                 type: boolean
+	 *                 default: false
+	 *     responses:
+	 *       200:
+	 *         description: Channel attached, returns the updated site
+	 *       400:
+	 *         description: Missing channel UUID
+	 *       403:
+	 *         description: Insufficient permissions
+	 *       404:
+	 *         description: Site or channel not found
+	 */
+	private async attachSiteChannel(
+		request: Request,
+		siteId: string,
+		permissions: string[],
+		env: Env,
+	): Promise<Response> {
+		// Check write permission
+		if (
+			!permissions.includes(env.WRITE_PERMISSION) &&
+			!permissions.includes(env.ADMIN_PERMISSION)
+		) {
+			return this.errorResponse("Insufficient permissions", 403);
+		}
+
+		let attachRequest: AttachSiteChannelRequest;
+
+		try {
+			attachRequest = await request.json();
+		} catch {
+			return this.errorResponse("Invalid JSON payload", 400);
+		}
+
+		if (!attachRequest?.channel_uuid) {
+			return this.errorResponse("channel_uuid is required", 400);
+		}
+
+		const site = await this.siteService.getSite(siteId);
+
+		if (!site) {
+			return this.errorResponse("Site not found", 404);
+		}
+
+		const channel = await this.channelService.getChannel(
+			attachRequest.channel_uuid.toLowerCase(),
+		);
+
+		if (!channel) {
+			return this.errorResponse("Channel not found", 404);
+		}
+
+		const result = await this.siteService.attachChannel(
+			siteId,
+			channel.uuid,
+			attachRequest.is_primary === true,
+		);
+
+		if (!result.success) {
+			return this.errorResponse(
+				result.error || "Failed to attach channel",
+				500,
+			);
+		}
+
+		return this.successResponse(await this.siteService.getSite(siteId));
+	}
+
+	/**
+	 * DELETE /api/v1/sites/{id}/channels/{channel_uuid} - Detach a channel from a flying site
+	 *
+	 * @openapi
+	 * /api/v1/sites/{id}/channels/{channel_uuid}:
+	 *   delete:
+	 *     summary: Detach a channel from a site
+	 *     description: Remove the association between a flying site and a channel. The channel itself is kept. Requires write permission.
+	 *     tags:
+	 *       - Sites
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *         description: Site ID
+	 *       - in: path
+	 *         name: channel_uuid
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           format: uuid
+	 *         description: Channel UUID
+	 *     responses:
+	 *       200:
+	 *         description: Channel detached, returns the updated site
+	 *       403:
+	 *         description: Insufficient permissions
+	 *       404:
+	 *         description: Channel not attached to this site
+	 */
+	private async detachSiteChannel(
+		siteId: string,
+		channelUuid: string,
+		permissions: string[],
+		env: Env,
+	): Promise<Response> {
+		// Check write permission
+		if (
+			!permissions.includes(env.WRITE_PERMISSION) &&
+			!permissions.includes(env.ADMIN_PERMISSION)
+		) {
+			return this.errorResponse("Insufficient permissions", 403);
+		}
+
+		const result = await this.siteService.detachChannel(siteId, channelUuid);
+
+		if (!result.success) {
+			return this.errorResponse(
+				result.error || "Failed to detach channel",
+				result.error === "Failed to detach channel" ? 500 : 404,
+			);
+		}
+
+		return this.successResponse(await this.siteService.getSite(siteId));
+	}
+
+	/**
+	 * Handle the endpoints of the authenticated user under /api/v1/me
+	 * @param request HTTP request
+	 * @param env Environment variables
+	 * @param subResource Sub-resource, only 'preferences' is supported
+	 * @returns HTTP response
+	 */
+	private async handleMeAPI(
+		request: Request,
+		env: Env,
+		subResource?: string,
+	): Promise<Response> {
+		const authResult = await this.authenticateRequest(request, env);
+
+		if (!authResult.success) {
+			return this.errorResponse(
+				authResult.error || "Authentication failed",
+				401,
+			);
+		}
+
+		if (subResource !== "preferences") {
+			return this.errorResponse(`Unknown sub-resource: ${subResource}`, 404);
+		}
+
+		const userId = authResult.userId!;
+
+		try {
+			switch (request.method) {
+				case "GET":
+					return await this.getUserPreferences(userId);
+
+				case "PUT":
+					return await this.updateUserPreferences(
+						request,
+						userId,
+						authResult.username,
+					);
+
+				default:
+					return this.errorResponse(
+						`Method ${request.method} not allowed`,
+						405,
+					);
+			}
+		} catch (error) {
+			console.error("User preferences API error:", error);
+
+			return this.errorResponse("User preferences operation failed", 500);
+		}
+	}
+
+	/**
+	 * GET /api/v1/me/preferences - Get the preferences of the authenticated user
+	 *
+	 * @openapi
+	 * /api/v1/me/preferences:
+	 *   get:
+	 *     summary: Get my preferences
+	 *     description: Retrieve the preferences of the authenticated user, keyed by the JWT subject. Default values are returned when the user never saved any preference.
+	 *     tags:
+	 *       - Users
+	 *     security:
+	 *       - bearerAuth: []
+	 *     responses:
+	 *       200:
+	 *         description: Preferences retrieved successfully
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               type: object
+	 *               properties:
+	 *                 success:
+	 *                   type: boolean
+	 *                 data:
+	 *                   $ref: '#/components/schemas/UserPreferences'
+	 *       401:
+	 *         description: Authentication required
+	 */
+	private async getUserPreferences(userId: string): Promise<Response> {
+		return this.successResponse(
+			await this.userPreferencesService.getPreferences(userId),
+		);
+	}
+
+	/**
+	 * PUT /api/v1/me/preferences - Update the preferences of the authenticated user
+	 *
+	 * @openapi
+	 * /api/v1/me/preferences:
+	 *   put:
+	 *     summary: Update my preferences
+	 *     description: Update the preferences of the authenticated user. Only the provided fields are changed, set vhf_backup_frequency, device_token or last_location to null to clear them.
+	 *     tags:
+	 *       - Users
+	 *     security:
+	 *       - bearerAuth: []
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             properties:
+	 *               preferred_language:
+	 *                 type: string
+	 *                 example: "en-US"
+	 *               favorite_sites:
+	 *                 type: array
+	 *                 items:
+	 *                   type: string
+	 *               auto_join_site_channels:
+	 *                 type: boolean
+	 *               emergency_mode_enabled:
+	 *                 type: boolean
+	 *               share_location:
+	 *                 type: boolean
+	 *               vhf_backup_frequency:
+	 *                 type: string
+	 *                 nullable: true
+	 *                 example: "143.9875"
+	 *               device_token:
+	 *                 type: string
+	 *                 nullable: true
+	 *               last_location:
+	 *                 allOf:
+	 *                   - $ref: '#/components/schemas/Coordinates'
+	 *                 nullable: true
+	 *     responses:
+	 *       200:
+	 *         description: Preferences updated successfully
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               type: object
+	 *               properties:
+	 *                 success:
+	 *                   type: boolean
+	 *                 data:
+	 *                   $ref: '#/components/schemas/UserPreferences'
+	 *       400:
+	 *         description: Invalid request data
+	 *       401:
+	 *         description: Authentication required
+	 */
+	private async updateUserPreferences(
+		request: Request,
+		userId: string,
+		username?: string,
+	): Promise<Response> {
+		let updateRequest: UpdateUserPreferencesRequest;
+
+		try {
+			updateRequest = await request.json();
+		} catch {
+			return this.errorResponse("Invalid JSON payload", 400);
+		}
+
+		// An access token without a name, email or nickname claim falls back to the subject
+		const result = await this.userPreferencesService.updatePreferences(
+			userId,
+			username && username !== UNKNOWN_USERNAME ? username : userId,
+			updateRequest,
+		);
+
+		if (!result.success) {
+			return this.errorResponse(
+				result.error || "Failed to update preferences",
+				result.error === "Failed to update preferences" ? 500 : 400,
+			);
+		}
+
+		return this.successResponse(result.preferences);
+	}
+
+	/**
+	 * Handle emergency incidents API endpoints
+	 * @param request HTTP request
+	 * @param env Environment variables
+	 * @param incidentId Incident ID if specified
+	 * @param action Action, 'acknowledge' or 'close'
+	 * @returns HTTP response
+	 */
+	private async handleIncidentsAPI(
+		request: Request,
+		env: Env,
+		incidentId?: string,
+		action?: string,
+	): Promise<Response> {
+		const method = request.method;
+		const authResult = await this.authenticateRequest(request, env);
+
+		if (!authResult.success) {
+			return this.errorResponse(
+				authResult.error || "Authentication failed",
+				401,
+			);
+		}
+
+		const userId = authResult.userId!;
+		const permissions = authResult.permissions!;
+
+		try {
+			if (incidentId && action) {
+				if (method !== "POST") {
+					return this.errorResponse(`Method ${method} not allowed`, 405);
+				}
+
+				if (action !== "acknowledge" && action !== "close") {
+					return this.errorResponse(`Unknown action: ${action}`, 404);
+				}
+
+				return await this.updateIncident(
+					request,
+					incidentId,
+					action,
+					userId,
+					permissions,
+					env,
+				);
+			}
+
+			if (method !== "GET") {
+				return this.errorResponse(`Method ${method} not allowed`, 405);
+			}
+
+			return incidentId
+				? await this.getIncident(incidentId, permissions, env)
+				: await this.getIncidents(request, permissions, env);
+		} catch (error) {
+			console.error("Incident API error:", error);
+
+			return this.errorResponse("Incident operation failed", 500);
+		}
+	}
+
+	/**
+	 * GET /api/v1/incidents - List emergency incidents
+	 *
+	 * @openapi
+	 * /api/v1/incidents:
+	 *   get:
+	 *     summary: List emergency incidents
+	 *     description: Retrieve the emergency incidents, most recent first. Requires read permission, non-admin users only see the incidents of the channels they have access to.
+	 *     tags:
+	 *       - Incidents
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: query
+	 *         name: status
+	 *         schema:
+	 *           type: string
+	 *           enum: [open, acknowledged, closed]
+	 *         description: Filter by incident status
+	 *       - in: query
+	 *         name: channel_uuid
+	 *         schema:
+	 *           type: string
+	 *           format: uuid
+	 *         description: Filter by channel
+	 *     responses:
+	 *       200:
+	 *         description: Incidents retrieved successfully
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               type: object
+	 *               properties:
+	 *                 success:
+	 *                   type: boolean
+	 *                 data:
+	 *                   type: object
+	 *                   properties:
+	 *                     incidents:
+	 *                       type: array
+	 *                       items:
+	 *                         $ref: '#/components/schemas/EmergencyIncident'
+	 *                     total_count:
+	 *                       type: integer
+	 *       400:
+	 *         description: Invalid status filter
+	 *       403:
+	 *         description: Insufficient permissions
+	 */
+	private async getIncidents(
+		request: Request,
+		permissions: string[],
+		env: Env,
+	): Promise<Response> {
+		// Check read permission
+		if (
+			!permissions.includes(env.READ_PERMISSION) &&
+			!permissions.includes(env.ADMIN_PERMISSION)
+		) {
+			return this.errorResponse("Insufficient permissions", 403);
+		}
+
+		const url = new URL(request.url);
+		const status = url.searchParams.get("status") || undefined;
+		const channelUuid = url.searchParams.get("channel_uuid") || undefined;
+
+		if (status && !IncidentService.isValidStatus(status)) {
+			return this.errorResponse(
+				"Invalid status - expected open, acknowledged or closed",
+				400,
+			);
+		}
+
+		const incidents = (
+			await this.incidentService.getIncidents({
+				status: status as IncidentStatus | undefined,
+				channel_uuid: channelUuid,
+			})
+		).filter((incident) => this.hasIncidentAccess(incident, permissions, env));
+
+		return this.successResponse<IncidentsListResponse>({
+			incidents,
+			total_count: incidents.length,
+		});
+	}
+
+	/**
+	 * GET /api/v1/incidents/{id} - Get an emergency incident
+	 *
+	 * @openapi
+	 * /api/v1/incidents/{id}:
+	 *   get:
+	 *     summary: Get emergency incident details
+	 *     description: Retrieve an incident with the delivery status of its notifications. Requires read permission and access to the channel of the incident.
+	 *     tags:
+	 *       - Incidents
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *         description: Incident ID
+	 *     responses:
+	 *       200:
+	 *         description: Incident retrieved successfully
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               type: object
+	 *               properties:
+	 *                 success:
+	 *                   type: boolean
+	 *                 data:
+	 *                   $ref: '#/components/schemas/EmergencyIncident'
+	 *       403:
+	 *         description: Insufficient permissions
+	 *       404:
+	 *         description: Incident not found
+	 */
+	private async getIncident(
+		incidentId: string,
+		permissions: string[],
+		env: Env,
+	): Promise<Response> {
+		// Check read permission
+		if (
+			!permissions.includes(env.READ_PERMISSION) &&
+			!permissions.includes(env.ADMIN_PERMISSION)
+		) {
+			return this.errorResponse("Insufficient permissions", 403);
+		}
+
+		const incident = await this.incidentService.getIncident(incidentId);
+
+		if (!incident) {
+			return this.errorResponse("Incident not found", 404);
+		}
+
+		if (!this.hasIncidentAccess(incident, permissions, env)) {
+			return this.errorResponse("Insufficient permissions", 403);
+		}
+
+		return this.successResponse(incident);
+	}
+
+	/**
+	 * POST /api/v1/incidents/{id}/acknowledge and /api/v1/incidents/{id}/close
+	 *
+	 * @openapi
+	 * /api/v1/incidents/{id}/{action}:
+	 *   post:
+	 *     summary: Acknowledge or close an emergency incident
+	 *     description: Acknowledge an open incident (a rescuer is taking care of it) or close it once the pilot is safe. The channel participants receive an incident_update WebSocket message. Requires write permission and access to the channel of the incident.
+	 *     tags:
+	 *       - Incidents
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *         description: Incident ID
+	 *       - in: path
+	 *         name: action
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           enum: [acknowledge, close]
+	 *     requestBody:
+	 *       required: false
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             properties:
+	 *               notes:
+	 *                 type: string
+	 *                 example: "PGHM helicopter dispatched"
+	 *     responses:
+	 *       200:
+	 *         description: Incident updated successfully
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               type: object
+	 *               properties:
+	 *                 success:
+	 *                   type: boolean
+	 *                 data:
+	 *                   $ref: '#/components/schemas/EmergencyIncident'
+	 *       403:
+	 *         description: Insufficient permissions
+	 *       404:
+	 *         description: Incident not found
+	 *       409:
+	 *         description: Incident already acknowledged or closed
+	 */
+	private async updateIncident(
+		request: Request,
+		incidentId: string,
+		action: "acknowledge" | "close",
+		userId: string,
+		permissions: string[],
+		env: Env,
+	): Promise<Response> {
+		// Check write permission
+		if (
+			!permissions.includes(env.WRITE_PERMISSION) &&
+			!permissions.includes(env.ADMIN_PERMISSION)
+		) {
+			return this.errorResponse("Insufficient permissions", 403);
+		}
+
+		const incident = await this.incidentService.getIncident(incidentId);
+
+		if (!incident) {
+			return this.errorResponse("Incident not found", 404);
+		}
+
+		if (!this.hasIncidentAccess(incident, permissions, env)) {
+			return this.errorResponse("Insufficient permissions", 403);
+		}
+
+		let updateRequest: UpdateIncidentRequest = {};
+
+		// The body is optional
+		const body = await request.text();
+
+		if (body) {
+			try {
+				updateRequest = JSON.parse(body);
+			} catch {
+				return this.errorResponse("Invalid JSON payload", 400);
+			}
+		}
+
+		const notes =
+			typeof updateRequest.notes === "string" && updateRequest.notes.trim()
+				? updateRequest.notes.trim()
+				: undefined;
+		const result =
+			action === "acknowledge"
+				? await this.incidentService.acknowledgeIncident(
+						incidentId,
+						userId,
+						notes,
+					)
+				: await this.incidentService.closeIncident(incidentId, userId, notes);
+
+		if (!result.success || !result.incident) {
+			return this.errorResponse(
+				result.error || "Failed to update incident",
+				result.error === "Failed to update incident" ? 500 : 409,
+			);
+		}
+
+		await this.audioService.broadcastIncidentUpdate(result.incident);
+
+		return this.successResponse(result.incident);
+	}
+
+	/**
+	 * Check that a user may see an incident: admin, or access to the channel of the incident
+	 */
+	private hasIncidentAccess(
+		incident: EmergencyIncident,
+		permissions: string[],
+		env: Env,
+	): boolean {
+		return (
+			permissions.includes(env.ADMIN_PERMISSION) ||
+			permissions.includes(
+				`${env.ACCESS_PERMISSION_PREFIX}${incident.channel_uuid.toLowerCase()}`,
+			)
+		);
+	}
+
+	/**
+	 * Handle flight track endpoints
+	 * @param request HTTP request
+	 * @param env Environment variables
+	 * @param flightId Flight ID if specified
+	 * @returns HTTP response
+	 */
+	private async handleFlightsAPI(
+		request: Request,
+		env: Env,
+		flightId?: string,
+	): Promise<Response> {
+		const method = request.method;
+		const authResult = await this.authenticateRequest(request, env);
+
+		if (!authResult.success) {
+			return this.errorResponse(
+				authResult.error || "Authentication failed",
+				401,
+			);
+		}
+
+		const userId = authResult.userId!;
+		const permissions = authResult.permissions!;
+
+		try {
+			if (flightId) {
+				if (method !== "GET") {
+					return this.errorResponse(`Method ${method} not allowed`, 405);
+				}
+
+				return await this.getFlight(flightId, userId, permissions, env);
+			}
+
+			if (method !== "POST") {
+				return this.errorResponse(`Method ${method} not allowed`, 405);
+			}
+
+			return await this.importFlight(request, userId);
+		} catch (error) {
+			console.error("Flight API error:", error);
+
+			return this.errorResponse("Flight operation failed", 500);
+		}
+	}
+
+	/**
+	 * POST /api/v1/flights - Import a flight track
+	 *
+	 * @openapi
+	 * /api/v1/flights:
+	 *   post:
+	 *     summary: Import a flight track
+	 *     description: Import an IGC or GPX track recorded by the vario of the authenticated pilot. The track is parsed server-side and the transmissions of the pilot made during the flight are placed on it. The file is sent as the `file` field of a multipart form, or as the raw request body. The format is detected from the file name, or from the content.
+	 *     tags:
+	 *       - Flights
+	 *     security:
+	 *       - bearerAuth: []
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         multipart/form-data:
+	 *           schema:
+	 *             type: object
+	 *             properties:
+	 *               file:
+	 *                 type: string
+	 *                 format: binary
+	 *         text/plain:
+	 *           schema:
+	 *             type: string
+	 *             description: IGC file content
+	 *         application/gpx+xml:
+	 *           schema:
+	 *             type: string
+	 *             description: GPX file content
+	 *     responses:
+	 *       201:
+	 *         description: Flight imported successfully
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               type: object
+	 *               properties:
+	 *                 success:
+	 *                   type: boolean
+	 *                 data:
+	 *                   $ref: '#/components/schemas/Flight'
+	 *       400:
+	 *         description: Missing file, unsupported format or invalid track
+	 *       401:
+	 *         description: Authentication required
+	 *       409:
+	 *         description: Flight already imported
+	 *       413:
+	 *         description: Track file too large
+	 */
+	private async importFlight(
+		request: Request,
+		userId: string,
+	): Promise<Response> {
+		if (
+			Number(request.headers.get("Content-Length") || 0) > MAX_FLIGHT_FILE_BYTES
+		) {
+			return this.errorResponse("Track file too large", 413);
+		}
+
+		let content: string;
+		let filename: string | undefined;
+
+		try {
+			if (
+				(request.headers.get("Content-Type") || "").includes(
+					"multipart/form-data",
+				)
+			) {
+				const file = (await request.formData()).get("file");
+
+				if (!file || typeof file === "string") {
+					return this.errorResponse("Missing track file", 400);
+				}
+
+				content = await file.text();
+				filename = file.name;
+			} else {
+				content = await request.text();
+			}
+		} catch {
+			return this.errorResponse("Invalid track upload", 400);
+		}
+
+		if (!content.trim()) {
+			return this.errorResponse("Missing track file", 400);
+		}
+
+		if (content.length > MAX_FLIGHT_FILE_BYTES) {
+			return this.errorResponse("Track file too large", 413);
+		}
+
+		const result = await this.flightService.importFlight(
+			userId,
+			content,
+			filename,
+		);
+
+		if (!result.success) {
+			const status =
+				result.error === "Flight already imported"
+					? 409
+					: result.error === "Failed to import flight"
+						? 500
+						: 400;
+
+			return this.errorResponse(
+				result.error || "Failed to import flight",
+				status,
+			);
+		}
+
+		return this.successResponse(result.flight, 201);
+	}
+
+	/**
+	 * GET /api/v1/flights/{id} - Get a flight with its track and transmissions
+	 *
+	 * @openapi
+	 * /api/v1/flights/{id}:
+	 *   get:
+	 *     summary: Get flight details
+	 *     description: Retrieve a flight with its track and the transmissions made during the flight, placed where the pilot was when each call started. Available to the pilot, to administrators and to the users with read permission having access to the channel of one of the transmissions.
+	 *     tags:
+	 *       - Flights
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *         description: Flight ID
+	 *     responses:
+	 *       200:
+	 *         description: Flight retrieved successfully
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               type: object
+	 *               properties:
+	 *                 success:
+	 *                   type: boolean
+	 *                 data:
+	 *                   $ref: '#/components/schemas/FlightDetails'
+	 *       403:
+	 *         description: Insufficient permissions
+	 *       404:
+	 *         description: Flight not found
+	 */
+	private async getFlight(
+		flightId: string,
+		userId: string,
+		permissions: string[],
+		env: Env,
+	): Promise<Response> {
+		const flight = await this.flightService.getFlight(flightId);
+
+		if (!flight) {
+			return this.errorResponse("Flight not found", 404);
+		}
+
+		// Incident reviewers see the flights in which a call was made on their channels
+		const isReviewer =
+			permissions.includes(env.READ_PERMISSION) &&
+			flight.transmissions.some((transmission) =>
+				permissions.includes(
+					`${env.ACCESS_PERMISSION_PREFIX}${transmission.channel_uuid.toLowerCase()}`,
+				),
+			);
+
+		if (
+			flight.user_id !== userId &&
+			!permissions.includes(env.ADMIN_PERMISSION) &&
+			!isReviewer
+		) {
+			return this.errorResponse("Insufficient permissions", 403);
+		}
+
+		return this.successResponse<FlightDetailsResponse>(flight);
+	}
+
+	/**
+	 * Health check endpoint
+	 *
+	 * @openapi
+	 * /api/v1/health:
+	 *   get:
+	 *     summary: Health check
+	 *     description: Returns the health status of the PTT API service and its dependencies.
+	 *     tags:
+	 *       - System
+	 *     responses:
+	 *       200:
+	 *         description: Service health status
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               type: object
+	 *               properties:
+	 *                 success:
+	 *                   type: boolean
+	 *                   example: true
+	 *                 data:
+	 *                   type: object
+	 *                   properties:
+	 *                     status:
+	 *                       type: string
+	 *                       enum: [healthy, degraded, unhealthy]
+	 *                       example: "healthy"
+	 *                     timestamp:
+	 *                       type: string
+	 *                       format: date-time
+	 *                     version:
+	 *                       type: string
+	 *                       example: "1.0.0"
+	 *                     api_version:
+	 *                       type: string
+	 *                       example: "v1"
+	 *                     services:
+	 *                       type: object
+	 *                       properties:
+	 *                         database:
+	 *                           type: string
+	 *                           enum: [operational, degraded, down]
+	 *                           example: "operational"
 	 *                         cache:
 	 *                           type: string
 	 *                           enum: [operational, degraded, down]
@@ -1756,124 +4061,1437 @@ export class PTTAPIHandler {
 	 *                   format: date-time
 	 *                 version:
 	 *                   type: string
-	 *                   example: "1.0.0"
+	 *                   example: "1.0.0"
+	 */
+	private async handleHealthCheck(request: Request): Promise<Response> {
+		const health = {
+			status: "healthy",
+			timestamp: new Date().toISOString(),
+			version: "1.0.0",
+			api_version: "v1",
+			services: {
+				database: "operational",
+				cache: "operational",
+				channels: "operational",
+			},
+		};
+
+		return this.successResponse(health);
+	}
+
+	/**
+	 * Authenticate request using Auth0 token
+	 */
+	private async authenticateRequest(
+		request: Request,
+		env: Env,
+	): Promise<{
+		success: boolean;
+		userId?: string;
+		username?: string;
+		permissions?: string[];
+		error?: string;
+	}> {
+		let authHeader = request.headers.get("Authorization");
+
+		// For WebSocket connections, check for token in query parameters
+		if (!authHeader) {
+			const url = new URL(request.url);
+			const tokenParam = url.searchParams.get("token");
+			if (tokenParam) {
+				authHeader = `Bearer ${tokenParam}`;
+			}
+		}
+
+		if (!authHeader || !authHeader.startsWith("Bearer ")) {
+			return {
+				success: false,
+				error: "Missing or invalid Authorization header",
+			};
+		}
+
+		const token = authHeader.substring(7); // Remove 'Bearer ' prefix
+
+		try {
+			// Use the existing checkPermissions function with minimal permissions
+			const { access, payload } = await checkPermissions(
+				token,
+				env.READ_PERMISSION,
+				env,
+			);
+
+			if (!access) {
+				return {
+					success: false,
+					error: "Invalid token or insufficient permissions",
+				};
+			}
+
+			const userId = payload.sub as string;
+			const rawPermissions = (payload.permissions as string[]) || [];
+
+			// Normalize permissions: convert access:UUID permissions to lowercase
+			const permissions = rawPermissions.map((permission) => {
+				if (permission.startsWith(env.ACCESS_PERMISSION_PREFIX)) {
+					const uuid = permission.substring(env.ACCESS_PERMISSION_PREFIX.length); // Remove access prefix
+
+					return `${env.ACCESS_PERMISSION_PREFIX}${uuid.toLowerCase()}`;
+				}
+
+				return permission;
+			});
+
+			return {
+				success: true,
+				userId,
+				username: getUsernameFromPayload(payload),
+				permissions,
+			};
+		} catch (error) {
+			console.error("Authentication error:", error);
+
+			return { success: false, error: "Token validation failed" };
+		}
+	}
+
+	/**
+	 * Create success response
+	 */
+	private successResponse<T = any>(data: T, status: number = 200, corsHeaders?: Record<string, string>): Response {
+		const response: APIResponse<T> = {
+			success: true,
+			data,
+			timestamp: new Date().toISOString(),
+			version: "1.0.0",
+		};
+
+		const headers = corsHeaders || this.corsHeaders || {};
+
+		return new Response(JSON.stringify(response), {
+			status,
+			headers,
+		});
+	}
+
+	/**
+	 * POST /api/v1/channels/{uuid}/join - Join a channel as participant
+	 *
+	 * @openapi
+	 * /api/v1/channels/{uuid}/join:
+	 *   post:
+	 *     summary: Join a channel
+	 *     description: Join a PTT channel as participant. Requires access permission for the specific channel (access:{uuid}) or admin permission (admin:api).
+	 *     tags:
+	 *       - Channels
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: uuid
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           format: uuid
+	 *         description: Channel UUID
+	 *     requestBody:
+	 *       description: Optional location information
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             $ref: '#/components/schemas/JoinChannelRequest'
+	 *           example:
+	 *             location:
+	 *               lat: 45.929681
+	 *               lon: 6.876345
+	 *             ephemeral_push_token: "abcd1234-push-token-from-ios-framework"
+	 *     responses:
+	 *       200:
+	 *         description: Successfully joined channel
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               $ref: '#/components/schemas/JoinChannelResponse'
+	 *             example:
+	 *               success: true
+	 *               participant:
+	 *                 user_id: "auth0|507f1f77bcf86cd799439011"
+	 *                 username: "pilot123"
+	 *                 join_time: "2025-08-11T10:30:00.000Z"
+	 *                 last_seen: "2025-08-11T10:30:00.000Z"
+	 *                 connection_quality: "good"
+	 *                 is_transmitting: false
+	 *               channel_info:
+	 *                 name: "Chamonix - Mont Blanc"
+	 *                 participants_count: 3
+	 *                 max_participants: 20
+	 *       400:
+	 *         description: Bad request (channel full, inactive, etc.)
+	 *       403:
+	 *         description: Access denied - insufficient permissions
+	 *       404:
+	 *         description: Channel not found
+	 */
+	private async joinChannel(
+		request: Request,
+		channelUuid: string,
+		userId: string,
+		permissions: string[],
+		env: Env,
+	): Promise<Response> {
+		// Check channel-specific access permission
+		const requiredPermission = `${env.ACCESS_PERMISSION_PREFIX}${channelUuid.toLowerCase()}`;
+
+		if (
+			!permissions.includes(requiredPermission) &&
+			!permissions.includes(env.ADMIN_PERMISSION)
+		) {
+			return this.errorResponse(
+				`Access denied - missing permission: ${requiredPermission}`,
+				403,
+			);
+		}
+
+		try {
+			// Parse optional location from request body
+			let joinRequest: JoinChannelRequest = {};
+
+			try {
+				const body = await request.text();
+
+				if (body.trim()) {
+					joinRequest = JSON.parse(body);
+				}
+			} catch {
+				// Empty or invalid JSON body is OK for join request
+			}
+
+			// Join channel using service
+			const result = await this.channelService.joinChannel(
+				channelUuid.toLowerCase(),
+				userId,
+				joinRequest.location,
+				joinRequest.ephemeral_push_token,
+				joinRequest.device_info,
+			);
+
+			if (!result.success) {
+				return this.errorResponse(
+					result.error || "Failed to join channel",
+					400,
+				);
+			}
+
+			// Get channel info for response
+			const channel = await this.channelService.getChannel(
+				channelUuid.toLowerCase(),
+			);
+			const participants = await this.channelService.getChannelParticipants(
+				channelUuid.toLowerCase(),
+			);
+
+			const response: JoinChannelResponse = {
+				success: true,
+				participant: result.participant,
+				channel_info: channel
+					? {
+						name: channel.name,
+						participants_count: participants.length,
+						max_participants: channel.max_participants,
+					}
+					: undefined,
+			};
+
+			return new Response(JSON.stringify(response), {
+				status: 200,
+				headers: this.corsHeaders || {},
+			});
+		} catch (error) {
+			console.error("Join channel error:", error);
+
+			return this.errorResponse("Internal server error", 500);
+		}
+	}
+
+	/**
+	 * POST /api/v1/channels/{uuid}/leave - Leave a channel
+	 * DELETE /api/v1/channels/{uuid}/leave - Leave a channel (alternative method)
+	 *
+	 * @openapi
+	 * /api/v1/channels/{uuid}/leave:
+	 *   post:
+	 *     summary: Leave a channel
+	 *     description: Leave a PTT channel. Requires access permission for the specific channel (access:{uuid}).
+	 *     tags:
+	 *       - Channels
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: uuid
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           format: uuid
+	 *         description: Channel UUID
+	 *     responses:
+	 *       200:
+	 *         description: Successfully left channel
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               $ref: '#/components/schemas/LeaveChannelResponse'
+	 *             example:
+	 *               success: true
+	 *       400:
+	 *         description: Bad request (not a participant, etc.)
+	 *       403:
+	 *         description: Access denied - insufficient permissions
+	 *   delete:
+	 *     summary: Leave a channel (alternative method)
+	 *     description: Leave a PTT channel using DELETE method. Requires access permission for the specific channel (access:{uuid}).
+	 *     tags:
+	 *       - Channels
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: uuid
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           format: uuid
+	 *         description: Channel UUID
+	 *     responses:
+	 *       200:
+	 *         description: Successfully left channel
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               $ref: '#/components/schemas/LeaveChannelResponse'
+	 *       400:
+	 *         description: Bad request (not a participant, etc.)
+	 *       403:
+	 *         description: Access denied - insufficient permissions
+	 */
+	private async leaveChannel(
+		request: Request,
+		channelUuid: string,
+		userId: string,
+		permissions: string[],
+		env: Env,
+	): Promise<Response> {
+		// Check channel-specific access permission
+		const requiredPermission = `${env.ACCESS_PERMISSION_PREFIX}${channelUuid.toLowerCase()}`;
+
+		if (
+			!permissions.includes(requiredPermission) &&
+			!permissions.includes(env.ADMIN_PERMISSION)
+		) {
+			return this.errorResponse(
+				`Access denied - missing permission: ${requiredPermission}`,
+				403,
+			);
+		}
+
+		try {
+			// Parse optional request body for ephemeral token
+			let leaveRequest: LeaveChannelRequest = {};
+
+			try {
+				const body = await request.text();
+
+				if (body.trim()) {
+					leaveRequest = JSON.parse(body);
+				}
+			} catch {
+				// Empty or invalid JSON body is OK for leave request
+			}
+
+			// Leave channel using service
+			const result = await this.channelService.leaveChannel(
+				channelUuid.toLowerCase(),
+				userId,
+				leaveRequest.ephemeral_push_token,
+			);
+
+			if (!result.success) {
+				return this.errorResponse(
+					result.error || "Failed to leave channel",
+					400,
+				);
+			}
+
+			const response: LeaveChannelResponse = {
+				success: true,
+			};
+
+			return new Response(JSON.stringify(response), {
+				status: 200,
+				headers: this.corsHeaders || {},
+			});
+		} catch (error) {
+			console.error("Leave channel error:", error);
+
+			return this.errorResponse("Internal server error", 500);
+		}
+	}
+
+	/**
+	 * GET /api/v1/channels/{uuid}/participants - Get channel participants
+	 *
+	 * @openapi
+	 * /api/v1/channels/{uuid}/participants:
+	 *   get:
+	 *     summary: Get channel participants
+	 *     description: Retrieve list of current participants in a channel. Requires access permission for the specific channel (access:{uuid}).
+	 *     tags:
+	 *       - Channels
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: uuid
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           format: uuid
+	 *         description: Channel UUID
+	 *     responses:
+	 *       200:
+	 *         description: Participants retrieved successfully
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               type: object
+	 *               properties:
+	 *                 success:
+	 *                   type: boolean
+	 *                   example: true
+	 *                 data:
+	 *                   type: array
+	 *                   items:
+	 *                     $ref: '#/components/schemas/ChannelParticipant'
+	 *                 total_count:
+	 *                   type: integer
+	 *                   description: Total number of participants
+	 *                 timestamp:
+	 *                   type: string
+	 *                   format: date-time
+	 *                 version:
+	 *                   type: string
+	 *             example:
+	 *               success: true
+	 *               data:
+	 *                 - user_id: "auth0|507f1f77bcf86cd799439011"
+	 *                   username: "pilot123"
+	 *                   join_time: "2025-08-11T10:30:00.000Z"
+	 *                   last_seen: "2025-08-11T10:35:00.000Z"
+	 *                   connection_quality: "good"
+	 *                   is_transmitting: false
+	 *               total_count: 1
+	 *               timestamp: "2025-08-11T10:35:00.000Z"
+	 *               version: "1.0.0"
+	 *       403:
+	 *         description: Access denied - insufficient permissions
+	 *       404:
+	 *         description: Channel not found
+	 */
+	private async getChannelParticipants(
+		channelUuid: string,
+		permissions: string[],
+		env: Env,
+	): Promise<Response> {
+		// Check channel-specific access permission
+		const requiredPermission = `${env.ACCESS_PERMISSION_PREFIX}${channelUuid.toLowerCase()}`;
+
+		if (
+			!permissions.includes(requiredPermission) &&
+			!permissions.includes(env.ADMIN_PERMISSION)
+		) {
+			return this.errorResponse(
+				`Access denied - missing permission: ${requiredPermission}`,
+				403,
+			);
+		}
+
+		try {
+			// Verify channel exists
+			const channel = await this.channelService.getChannel(
+				channelUuid.toLowerCase(),
+			);
+
+			if (!channel) {
+				return this.errorResponse("Channel not found", 404);
+			}
+
+			// Get participants
+			const participants = await this.channelService.getChannelParticipants(
+				channelUuid.toLowerCase(),
+			);
+
+			const response: APIResponse<ChannelParticipant[]> = {
+				success: true,
+				data: participants,
+				timestamp: new Date().toISOString(),
+				version: "1.0.0",
+			};
+
+			// Add total count as additional property
+			const responseWithCount = {
+				...response,
+				total_count: participants.length,
+			};
+
+			return new Response(JSON.stringify(responseWithCount), {
+				status: 200,
+				headers: this.corsHeaders || {},
+			});
+		} catch (error) {
+			console.error("Get channel participants error:", error);
+
+			return this.errorResponse("Failed to get channel participants", 500);
+		}
+	}
+
+	/**
+	 * GET /api/v1/channels/{uuid}/transmissions - List recent channel transmissions
+	 *
+	 * @openapi
+	 * /api/v1/channels/{uuid}/transmissions:
+	 *   get:
+	 *     summary: List recent channel transmissions
+	 *     description: Retrieve the transmissions started in a channel since a given time, so that a client coming back online can catch up on what it missed. Recorded transmissions include a playback URL. Private calls are only listed to their talker and targets, administrators see every transmission. Requires access permission for the specific channel (access:{uuid}).
+	 *     tags:
+	 *       - Channels
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: uuid
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           format: uuid
+	 *         description: Channel UUID
+	 *       - in: query
+	 *         name: since
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *         description: ISO 8601 timestamp or epoch milliseconds (defaults to 30 minutes ago)
+	 *       - in: query
+	 *         name: limit
+	 *         required: false
+	 *         schema:
+	 *           type: integer
+	 *           minimum: 1
+	 *           maximum: 100
+	 *           default: 50
+	 *         description: Maximum number of transmissions to return
+	 *     responses:
+	 *       200:
+	 *         description: Transmissions retrieved successfully
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               type: object
+	 *               properties:
+	 *                 success:
+	 *                   type: boolean
+	 *                   example: true
+	 *                 data:
+	 *                   type: object
+	 *                   properties:
+	 *                     channel_uuid:
+	 *                       type: string
+	 *                       format: uuid
+	 *                     since:
+	 *                       type: string
+	 *                       format: date-time
+	 *                     transmissions:
+	 *                       type: array
+	 *                       items:
+	 *                         type: object
+	 *                         properties:
+	 *                           session_id:
+	 *                             type: string
+	 *                           user_id:
+	 *                             type: string
+	 *                           username:
+	 *                             type: string
+	 *                           start_time:
+	 *                             type: string
+	 *                             format: date-time
+	 *                           end_time:
+	 *                             type: string
+	 *                             format: date-time
+	 *                           duration_seconds:
+	 *                             type: integer
+	 *                           audio_format:
+	 *                             type: string
+	 *                             enum: [aac-lc, opus, pcm]
+	 *                           is_emergency:
+	 *                             type: boolean
+	 *                           target_user_ids:
+	 *                             type: array
+	 *                             items:
+	 *                               type: string
+	 *                             description: Targets of a private call, missing for a transmission heard by the whole channel
+	 *                           playback_url:
+	 *                             type: string
+	 *                             nullable: true
+	 *                             description: Recording URL, null when the transmission was not recorded
+	 *                 timestamp:
+	 *                   type: string
+	 *                   format: date-time
+	 *                 version:
+	 *                   type: string
+	 *             example:
+	 *               success: true
+	 *               data:
+	 *                 channel_uuid: "550e8400-e29b-41d4-a716-446655440000"
+	 *                 since: "2025-08-11T10:00:00.000Z"
+	 *                 transmissions:
+	 *                   - session_id: "ptt_550e8400_1754907000000_abc123"
+	 *                     user_id: "auth0|507f1f77bcf86cd799439011"
+	 *                     username: "pilot123"
+	 *                     start_time: "2025-08-11T10:10:00.000Z"
+	 *                     end_time: "2025-08-11T10:10:06.000Z"
+	 *                     duration_seconds: 6
+	 *                     audio_format: "opus"
+	 *                     is_emergency: false
+	 *                     playback_url: "/api/v1/transmissions/ptt_550e8400_1754907000000_abc123/audio"
+	 *               timestamp: "2025-08-11T10:35:00.000Z"
+	 *               version: "1.0.0"
+	 *       400:
+	 *         description: Invalid since or limit parameter
+	 *       403:
+	 *         description: Access denied - insufficient permissions
+	 *       404:
+	 *         description: Channel not found
+	 */
+	private async getChannelTransmissions(
+		request: Request,
+		channelUuid: string,
+		userId: string,
+		permissions: string[],
+		env: Env,
+	): Promise<Response> {
+		// Check channel-specific access permission
+		const requiredPermission = `${env.ACCESS_PERMISSION_PREFIX}${channelUuid.toLowerCase()}`;
+
+		if (
+			!permissions.includes(requiredPermission) &&
+			!permissions.includes(env.ADMIN_PERMISSION)
+		) {
+			return this.errorResponse(
+				`Access denied - missing permission: ${requiredPermission}`,
+				403,
+			);
+		}
+
+		const url = new URL(request.url);
+		const sinceParam = url.searchParams.get("since");
+		const limitParam = url.searchParams.get("limit");
+
+		// Accept ISO timestamps as well as epoch milliseconds, default to the last 30 minutes
+		let since = new Date(Date.now() - 30 * 60 * 1000);
+
+		if (sinceParam) {
+			since = /^\d+$/.test(sinceParam)
+				? new Date(Number(sinceParam))
+				: new Date(sinceParam);
+			if (isNaN(since.getTime())) {
+				return this.errorResponse("Invalid since parameter", 400);
+			}
+		}
+
+		const limit = limitParam ? parseInt(limitParam, 10) : 50;
+
+		if (isNaN(limit) || limit < 1 || limit > 100) {
+			return this.errorResponse(
+				"Invalid limit parameter - must be between 1 and 100",
+				400,
+			);
+		}
+
+		try {
+			// Verify channel exists
+			const channel = await this.channelService.getChannel(
+				channelUuid.toLowerCase(),
+			);
+
+			if (!channel) {
+				return this.errorResponse("Channel not found", 404);
+			}
+
+			// Administrators see the private calls of every participant
+			const transmissions = await this.channelService.getChannelTransmissions(
+				channelUuid,
+				since.toISOString(),
+				limit,
+				permissions.includes(env.ADMIN_PERMISSION) ? undefined : userId,
+			);
+
+			const response: APIResponse<ChannelTransmissionsResponse> = {
+				success: true,
+				data: {
+					channel_uuid: channelUuid.toLowerCase(),
+					since: since.toISOString(),
+					transmissions,
+				},
+				timestamp: new Date().toISOString(),
+				version: "1.0.0",
+			};
+
+			return new Response(JSON.stringify(response), {
+				status: 200,
+				headers: this.corsHeaders || {},
+			});
+		} catch (error) {
+			console.error("Get channel transmissions error:", error);
+
+			return this.errorResponse("Failed to get channel transmissions", 500);
+		}
+	}
+
+	/**
+	 * GET /api/v1/channels/{uuid}/positions - Get the recent track of the channel participants
+	 *
+	 * @openapi
+	 * /api/v1/channels/{uuid}/positions:
+	 *   get:
+	 *     summary: Get channel participant positions
+	 *     description: Retrieve the positions persisted for the channel participants since a given time, for instance to draw the trails of the gaggle. Positions are sent over the channel WebSocket with `position_update` messages, persisted once per minute and kept POSITION_RETENTION_HOURS hours. Users who opted out of location sharing are not tracked. Requires access permission for the specific channel (access:{uuid}).
+	 *     tags:
+	 *       - Channels
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: uuid
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           format: uuid
+	 *         description: Channel UUID
+	 *       - in: query
+	 *         name: since
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *         description: ISO 8601 timestamp or epoch milliseconds (defaults to 1 hour ago)
+	 *       - in: query
+	 *         name: limit
+	 *         required: false
+	 *         schema:
+	 *           type: integer
+	 *           minimum: 1
+	 *           maximum: 1000
+	 *           default: 500
+	 *         description: Maximum number of positions to return
+	 *     responses:
+	 *       200:
+	 *         description: Positions retrieved successfully, oldest first
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               type: object
+	 *               properties:
+	 *                 success:
+	 *                   type: boolean
+	 *                   example: true
+	 *                 data:
+	 *                   type: object
+	 *                   properties:
+	 *                     channel_uuid:
+	 *                       type: string
+	 *                       format: uuid
+	 *                     since:
+	 *                       type: string
+	 *                       format: date-time
+	 *                     positions:
+	 *                       type: array
+	 *                       items:
+	 *                         type: object
+	 *                         properties:
+	 *                           user_id:
+	 *                             type: string
+	 *                           username:
+	 *                             type: string
+	 *                           lat:
+	 *                             type: number
+	 *                           lon:
+	 *                             type: number
+	 *                           altitude_m:
+	 *                             type: number
+	 *                           ground_speed_kmh:
+	 *                             type: number
+	 *                           heading_deg:
+	 *                             type: number
+	 *                           timestamp_ms:
+	 *                             type: integer
+	 *                             description: Fix time reported by the device
+	 *                           recorded_at:
+	 *                             type: string
+	 *                             format: date-time
+	 *       400:
+	 *         description: Invalid since or limit parameter
+	 *       403:
+	 *         description: Access denied - insufficient permissions
+	 *       404:
+	 *         description: Channel not found
 	 */
-	private async handleHealthCheck(request: Request): Promise<Response> {
-		const health = {
-			status: "healthy",
-			timestamp: new Date().toISOString(),
-			version: "1.0.0",
-			api_version: "v1",
-			services: {
-				database: "operational",
-				cache: "operational",
-				channels: "operational",
-			},
-		};
+	private async getChannelPositions(
+		request: Request,
+		channelUuid: string,
+		permissions: string[],
+		env: Env,
+	): Promise<Response> {
+		// Check channel-specific access permission
+		const requiredPermission = `${env.ACCESS_PERMISSION_PREFIX}${channelUuid.toLowerCase()}`;
 
-		return this.successResponse(health);
+		if (
+			!permissions.includes(requiredPermission) &&
+			!permissions.includes(env.ADMIN_PERMISSION)
+		) {
+			return this.errorResponse(
+				`Access denied - missing permission: ${requiredPermission}`,
+				403,
+			);
+		}
+
+		const url = new URL(request.url);
+		const sinceParam = url.searchParams.get("since");
+		const limitParam = url.searchParams.get("limit");
+
+		// Accept ISO timestamps as well as epoch milliseconds, default to the last hour
+		let since = new Date(Date.now() - 60 * 60 * 1000);
+
+		if (sinceParam) {
+			since = /^\d+$/.test(sinceParam)
+				? new Date(Number(sinceParam))
+				: new Date(sinceParam);
+			if (isNaN(since.getTime())) {
+				return this.errorResponse("Invalid since parameter", 400);
+			}
+		}
+
+		const limit = limitParam ? parseInt(limitParam, 10) : 500;
+
+		if (isNaN(limit) || limit < 1 || limit > 1000) {
+			return this.errorResponse(
+				"Invalid limit parameter - must be between 1 and 1000",
+				400,
+			);
+		}
+
+		try {
+			const channel = await this.channelService.getChannel(
+				channelUuid.toLowerCase(),
+			);
+
+			if (!channel) {
+				return this.errorResponse("Channel not found", 404);
+			}
+
+			const positions = await this.channelService.getChannelPositions(
+				channelUuid,
+				since.toISOString(),
+				limit,
+			);
+
+			return this.successResponse<ChannelPositionsResponse>({
+				channel_uuid: channelUuid.toLowerCase(),
+				since: since.toISOString(),
+				positions,
+			});
+		} catch (error) {
+			console.error("Get channel positions error:", error);
+
+			return this.errorResponse("Failed to get channel positions", 500);
+		}
 	}
 
 	/**
-	 * Authenticate request using Auth0 token
+	 * Check whether a user may moderate a channel: administrators and the channel moderators
+	 * @private
+	 */
+	private async canModerateChannel(
+		channelUuid: string,
+		userId: string,
+		permissions: string[],
+		env: Env,
+	): Promise<boolean> {
+		return (
+			permissions.includes(env.ADMIN_PERMISSION) ||
+			(await this.moderationService.isModerator(channelUuid, userId))
+		);
+	}
+
+	/**
+	 * GET /api/v1/channels/{uuid}/moderators - List the channel moderators
+	 *
+	 * @openapi
+	 * /api/v1/channels/{uuid}/moderators:
+	 *   get:
+	 *     summary: List channel moderators
+	 *     description: Retrieve the users holding the moderator role in a channel. Requires access permission for the specific channel (access:{uuid}).
+	 *     tags:
+	 *       - Channels
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: uuid
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           format: uuid
+	 *         description: Channel UUID
+	 *     responses:
+	 *       200:
+	 *         description: Moderators retrieved successfully
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               type: object
+	 *               properties:
+	 *                 success:
+	 *                   type: boolean
+	 *                 data:
+	 *                   type: object
+	 *                   properties:
+	 *                     channel_uuid:
+	 *                       type: string
+	 *                       format: uuid
+	 *                     moderators:
+	 *                       type: array
+	 *                       items:
+	 *                         $ref: '#/components/schemas/ChannelModerator'
+	 *       403:
+	 *         description: Access denied - insufficient permissions
+	 *       404:
+	 *         description: Channel not found
+	 */
+	private async getChannelModerators(
+		channelUuid: string,
+		permissions: string[],
+		env: Env,
+	): Promise<Response> {
+		// Check channel-specific access permission
+		const requiredPermission = `${env.ACCESS_PERMISSION_PREFIX}${channelUuid.toLowerCase()}`;
+
+		if (
+			!permissions.includes(requiredPermission) &&
+			!permissions.includes(env.ADMIN_PERMISSION)
+		) {
+			return this.errorResponse(
+				`Access denied - missing permission: ${requiredPermission}`,
+				403,
+			);
+		}
+
+		const channel = await this.channelService.getChannel(
+			channelUuid.toLowerCase(),
+		);
+
+		if (!channel) {
+			return this.errorResponse("Channel not found", 404);
+		}
+
+		return this.successResponse<ChannelModeratorsResponse>({
+			channel_uuid: channel.uuid,
+			moderators: await this.moderationService.getModerators(channel.uuid),
+		});
+	}
+
+	/**
+	 * PUT/DELETE /api/v1/channels/{uuid}/moderators/{user_id} - Grant or revoke the moderator role
+	 *
+	 * @openapi
+	 * /api/v1/channels/{uuid}/moderators/{user_id}:
+	 *   put:
+	 *     summary: Grant the moderator role
+	 *     description: Make a user moderator of a channel, allowed to mute and kick participants and to force-end transmissions. Granting the role again updates the username. The change is recorded in the channel audit trail. Requires admin permission.
+	 *     tags:
+	 *       - Channels
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: uuid
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           format: uuid
+	 *         description: Channel UUID
+	 *       - in: path
+	 *         name: user_id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *         description: User ID (JWT subject), URL-encoded
+	 *     requestBody:
+	 *       required: false
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             properties:
+	 *               username:
+	 *                 type: string
+	 *                 description: Display name of the moderator
+	 *     responses:
+	 *       200:
+	 *         description: Role granted, returns the moderator
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               type: object
+	 *               properties:
+	 *                 success:
+	 *                   type: boolean
+	 *                 data:
+	 *                   $ref: '#/components/schemas/ChannelModerator'
+	 *       400:
+	 *         description: Invalid user ID or JSON payload
+	 *       403:
+	 *         description: Insufficient permissions
+	 *       404:
+	 *         description: Channel not found
+	 *   delete:
+	 *     summary: Revoke the moderator role
+	 *     description: Remove the moderator role of a user in a channel. The change is recorded in the channel audit trail. Requires admin permission.
+	 *     tags:
+	 *       - Channels
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: uuid
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           format: uuid
+	 *         description: Channel UUID
+	 *       - in: path
+	 *         name: user_id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *         description: User ID (JWT subject), URL-encoded
+	 *     responses:
+	 *       200:
+	 *         description: Role revoked
+	 *       400:
+	 *         description: Invalid user ID
+	 *       403:
+	 *         description: Insufficient permissions
+	 *       404:
+	 *         description: Channel not found or user not moderator
 	 */
-	private async authenticateRequest(
+	private async updateChannelModerator(
 		request: Request,
+		channelUuid: string,
+		encodedUserId: string,
+		admin: { user_id: string; username: string },
+		permissions: string[],
 		env: Env,
-	): Promise<{
-		success: boolean;
-		userId?: string;
-		permissions?: string[];
-		error?: string;
-	}> {
-		let authHeader = request.headers.get("Authorization");
-
-		// For WebSocket connections, check for token in query parameters
-		if (!authHeader) {
-			const url = new URL(request.url);
-			const tokenParam = url.searchParams.get("token");
-			if (tokenParam) {
-				authHeader = `Bearer ${tokenParam}`;
-			}
+	): Promise<Response> {
+		if (!permissions.includes(env.ADMIN_PERMISSION)) {
+			return this.errorResponse("Insufficient permissions", 403);
 		}
 
-		if (!authHeader || !authHeader.startsWith("Bearer ")) {
-			return {
-				success: false,
-				error: "Missing or invalid Authorization header",
-			};
+		// Auth0 subjects contain a '|', clients send them URL-encoded
+		let moderatorUserId: string;
+
+		try {
+			moderatorUserId = decodeURIComponent(encodedUserId);
+		} catch {
+			return this.errorResponse("Invalid user ID", 400);
 		}
 
-		const token = authHeader.substring(7); // Remove 'Bearer ' prefix
+		const channel = await this.channelService.getChannel(
+			channelUuid.toLowerCase(),
+		);
 
-		try {
-			// Use the existing checkPermissions function with minimal permissions
-			const { access, payload } = await checkPermissions(
-				token,
-				env.READ_PERMISSION,
-				env,
+		if (!channel) {
+			return this.errorResponse("Channel not found", 404);
+		}
+
+		if (request.method === "DELETE") {
+			const result = await this.moderationService.removeModerator(
+				channel.uuid,
+				moderatorUserId,
+				admin,
 			);
 
-			if (!access) {
-				return {
-					success: false,
-					error: "Invalid token or insufficient permissions",
-				};
+			if (!result.success) {
+				return this.errorResponse(
+					result.error || "Failed to remove moderator",
+					result.error === "Failed to remove moderator" ? 500 : 404,
+				);
 			}
 
-			const userId = payload.sub as string;
-			const rawPermissions = (payload.permissions as string[]) || [];
+			return this.successResponse({
+				channel_uuid: channel.uuid,
+				user_id: moderatorUserId,
+			});
+		}
 
-			// Normalize permissions: convert access:UUID permissions to lowercase
-			const permissions = rawPermissions.map((permission) => {
-				if (permission.startsWith(env.ACCESS_PERMISSION_PREFIX)) {
-					const uuid = permission.substring(env.ACCESS_PERMISSION_PREFIX.length); // Remove access prefix
+		let addRequest: AddChannelModeratorRequest = {};
+		const body = await request.text();
 
-					return `${env.ACCESS_PERMISSION_PREFIX}${uuid.toLowerCase()}`;
-				}
+		if (body.trim()) {
+			try {
+				addRequest = JSON.parse(body);
+			} catch {
+				return this.errorResponse("Invalid JSON payload", 400);
+			}
+		}
 
-				return permission;
-			});
+		if (
+			addRequest.username !== undefined &&
+			typeof addRequest.username !== "string"
+		) {
+			return this.errorResponse("Invalid username", 400);
+		}
 
-			return {
-				success: true,
-				userId,
-				permissions,
-			};
-		} catch (error) {
-			console.error("Authentication error:", error);
+		const result = await this.moderationService.addModerator(
+			channel.uuid,
+			moderatorUserId,
+			addRequest.username?.trim() || undefined,
+			admin,
+		);
 
-			return { success: false, error: "Token validation failed" };
+		if (!result.success) {
+			return this.errorResponse(result.error || "Failed to add moderator", 500);
 		}
+
+		return this.successResponse(result.moderator);
 	}
 
 	/**
-	 * Create success response
+	 * GET /api/v1/channels/{uuid}/moderation - Get the moderation state of a channel
+	 *
+	 * @openapi
+	 * /api/v1/channels/{uuid}/moderation:
+	 *   get:
+	 *     summary: Get the channel moderation state
+	 *     description: Retrieve the active mutes and the last 100 moderation events of the audit trail, role changes included. Requires admin permission or the moderator role in the channel.
+	 *     tags:
+	 *       - Channels
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: uuid
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           format: uuid
+	 *         description: Channel UUID
+	 *     responses:
+	 *       200:
+	 *         description: Moderation state retrieved successfully
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               type: object
+	 *               properties:
+	 *                 success:
+	 *                   type: boolean
+	 *                 data:
+	 *                   type: object
+	 *                   properties:
+	 *                     channel_uuid:
+	 *                       type: string
+	 *                       format: uuid
+	 *                     mutes:
+	 *                       type: array
+	 *                       items:
+	 *                         $ref: '#/components/schemas/ChannelMute'
+	 *                     actions:
+	 *                       type: array
+	 *                       items:
+	 *                         $ref: '#/components/schemas/ChannelModerationEntry'
+	 *       403:
+	 *         description: Not a moderator of this channel
+	 *       404:
+	 *         description: Channel not found
+	 *   post:
+	 *     summary: Apply a moderation action
+	 *     description: |
+	 *       Mute, unmute or kick a participant, or force-end the current transmission. A muted participant is refused the floor until unmuted or until the mute expires, emergencies excepted. A kicked participant is disconnected and removed from the channel. Emergency transmissions cannot be ended and their talker cannot be kicked. Only administrators can moderate another moderator.
+	 *       The action is recorded in the channel audit trail and announced to the connected participants with a moderation_action WebSocket message.
+	 *       Requires admin permission or the moderator role in the channel.
+	 *     tags:
+	 *       - Channels
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: uuid
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           format: uuid
+	 *         description: Channel UUID
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             required:
+	 *               - action
+	 *             properties:
+	 *               action:
+	 *                 type: string
+	 *                 enum: [mute, unmute, kick, force_end]
+	 *               target_user_id:
+	 *                 type: string
+	 *                 description: Target participant, required except for force_end
+	 *               duration_minutes:
+	 *                 type: integer
+	 *                 minimum: 1
+	 *                 maximum: 10080
+	 *                 description: Mute duration, the mute lasts until unmuted when missing
+	 *               reason:
+	 *                 type: string
+	 *                 maxLength: 200
+	 *           example:
+	 *             action: mute
+	 *             target_user_id: "auth0|507f1f77bcf86cd799439011"
+	 *             duration_minutes: 15
+	 *             reason: "Keep the channel clear for the briefing"
+	 *     responses:
+	 *       200:
+	 *         description: Action applied, returns the audit entry
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               type: object
+	 *               properties:
+	 *                 success:
+	 *                   type: boolean
+	 *                 data:
+	 *                   type: object
+	 *                   properties:
+	 *                     entry:
+	 *                       $ref: '#/components/schemas/ChannelModerationEntry'
+	 *                     disconnected_connections:
+	 *                       type: integer
+	 *                       description: Connections closed by a kick
+	 *       400:
+	 *         description: Invalid moderation request
+	 *       403:
+	 *         description: Not a moderator of this channel, or target is a moderator
+	 *       404:
+	 *         description: Channel not found
+	 *       409:
+	 *         description: Action not applicable (no active transmission, emergency transmission, target not muted or not in the channel)
 	 */
-	private successResponse<T = any>(data: T, status: number = 200, corsHeaders?: Record<string, string>): Response {
-		const response: APIResponse<T> = {
-			success: true,
-			data,
-			timestamp: new Date().toISOString(),
-			version: "1.0.0",
-		};
+	private async getChannelModeration(
+		channelUuid: string,
+		userId: string,
+		permissions: string[],
+		env: Env,
+	): Promise<Response> {
+		const uuidLower = channelUuid.toLowerCase();
 
-		const headers = corsHeaders || this.corsHeaders || {};
+		if (!(await this.canModerateChannel(uuidLower, userId, permissions, env))) {
+			return this.errorResponse(
+				"Only the moderators of this channel can moderate it",
+				403,
+			);
+		}
 
-		return new Response(JSON.stringify(response), {
-			status,
-			headers,
+		const channel = await this.channelService.getChannel(uuidLower);
+
+		if (!channel) {
+			return this.errorResponse("Channel not found", 404);
+		}
+
+		const [mutes, actions] = await Promise.all([
+			this.moderationService.getActiveMutes(uuidLower),
+			this.moderationService.getModerationLog(uuidLower),
+		]);
+
+		return this.successResponse<ChannelModerationResponse>({
+			channel_uuid: uuidLower,
+			mutes,
+			actions,
 		});
 	}
 
 	/**
-	 * POST /api/v1/channels/{uuid}/join - Join a channel as participant
+	 * POST /api/v1/channels/{uuid}/moderation - Apply a moderation action
+	 * Documented with GET /api/v1/channels/{uuid}/moderation
+	 * @private
+	 */
+	private async moderateChannel(
+		request: Request,
+		channelUuid: string,
+		moderator: { user_id: string; username: string },
+		permissions: string[],
+		env: Env,
+	): Promise<Response> {
+		const uuidLower = channelUuid.toLowerCase();
+
+		if (
+			!(await this.canModerateChannel(
+				uuidLower,
+				moderator.user_id,
+				permissions,
+				env,
+			))
+		) {
+			return this.errorResponse(
+				"Only the moderators of this channel can moderate it",
+				403,
+			);
+		}
+
+		let moderationRequest: ChannelModerationRequest;
+
+		try {
+			moderationRequest = await request.json();
+		} catch {
+			return this.errorResponse("Invalid JSON payload", 400);
+		}
+
+		const validationError =
+			ModerationService.validateModerationRequest(moderationRequest);
+
+		if (validationError) {
+			return this.errorResponse(validationError, 400);
+		}
+
+		const channel = await this.channelService.getChannel(uuidLower);
+
+		if (!channel) {
+			return this.errorResponse("Channel not found", 404);
+		}
+
+		const result = await this.audioService.moderateChannel(
+			uuidLower,
+			{
+				...moderator,
+				is_admin: permissions.includes(env.ADMIN_PERMISSION),
+			},
+			{
+				action: moderationRequest.action,
+				target_user_id: moderationRequest.target_user_id,
+				duration_minutes: moderationRequest.duration_minutes,
+				reason: moderationRequest.reason,
+			},
+		);
+
+		if (!result.success) {
+			const error = result.error || "Failed to apply moderation action";
+			let status = 409;
+
+			if (error.startsWith("Failed to")) {
+				status = 500;
+			} else if (
+				error === "Only administrators can moderate another moderator"
+			) {
+				status = 403;
+			} else if (error === "Moderators cannot moderate themselves") {
+				status = 400;
+			}
+
+			return this.errorResponse(error, status);
+		}
+
+		return this.successResponse({
+			entry: result.entry,
+			disconnected_connections: result.disconnected_connections,
+		});
+	}
+
+	/**
+	 * GET /api/v1/channels/{uuid}/messages - Get the channel text messages
 	 *
 	 * @openapi
-	 * /api/v1/channels/{uuid}/join:
+	 * /api/v1/channels/{uuid}/messages:
+	 *   get:
+	 *     summary: Get channel text messages
+	 *     description: Retrieve the text messages of a channel, most recent first, with the canned messages offered by the clients. Older pages are loaded with the before parameter set to the ID of the last message received. New messages are delivered over the channel WebSocket with `text_message` messages. Requires access permission for the specific channel (access:{uuid}).
+	 *     tags:
+	 *       - Channels
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: uuid
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           format: uuid
+	 *         description: Channel UUID
+	 *       - in: query
+	 *         name: before
+	 *         required: false
+	 *         schema:
+	 *           type: integer
+	 *         description: Only return messages older than this message ID
+	 *       - in: query
+	 *         name: limit
+	 *         required: false
+	 *         schema:
+	 *           type: integer
+	 *           minimum: 1
+	 *           maximum: 100
+	 *           default: 50
+	 *         description: Maximum number of messages to return
+	 *     responses:
+	 *       200:
+	 *         description: Messages retrieved successfully
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               type: object
+	 *               properties:
+	 *                 success:
+	 *                   type: boolean
+	 *                 data:
+	 *                   type: object
+	 *                   properties:
+	 *                     channel_uuid:
+	 *                       type: string
+	 *                       format: uuid
+	 *                     messages:
+	 *                       type: array
+	 *                       items:
+	 *                         $ref: '#/components/schemas/ChannelTextMessage'
+	 *                     has_more:
+	 *                       type: boolean
+	 *                       description: Older messages remain
+	 *                     canned_messages:
+	 *                       type: array
+	 *                       items:
+	 *                         type: object
+	 *                         properties:
+	 *                           id:
+	 *                             type: string
+	 *                             example: landed_ok
+	 *                           content:
+	 *                             type: string
+	 *                             example: Landed OK
+	 *       400:
+	 *         description: Invalid before or limit parameter
+	 *       403:
+	 *         description: Access denied - insufficient permissions
+	 *       404:
+	 *         description: Channel not found
 	 *   post:
-	 *     summary: Join a channel
-	 *     description: Join a PTT channel as participant. Requires access permission for the specific channel (access:{uuid}) or admin permission (admin:api).
+	 *     summary: Post a text message
+	 *     description: |
+	 *       Post free text or a canned message in a channel. The message is stored and delivered to the connected participants with a `text_message` WebSocket message.
+	 *       A participant muted by a moderator can only send canned messages. Requires access permission for the specific channel (access:{uuid}).
 	 *     tags:
 	 *       - Channels
 	 *     security:
@@ -1887,52 +5505,54 @@ export class PTTAPIHandler {
 	 *           format: uuid
 	 *         description: Channel UUID
 	 *     requestBody:
-	 *       description: Optional location information
+	 *       required: true
 	 *       content:
 	 *         application/json:
 	 *           schema:
-	 *             $ref: '#/components/schemas/JoinChannelRequest'
+	 *             type: object
+	 *             properties:
+	 *               content:
+	 *                 type: string
+	 *                 maxLength: 500
+	 *                 description: Free text, required unless canned_message_id is set
+	 *               canned_message_id:
+	 *                 type: string
+	 *                 enum: [landed_ok, need_retrieve, wind_too_strong]
+	 *                 description: Canned message, its content replaces any content sent along
+	 *               location:
+	 *                 $ref: '#/components/schemas/Coordinates'
 	 *           example:
+	 *             canned_message_id: need_retrieve
 	 *             location:
-	 *               lat: 45.929681
-	 *               lon: 6.876345
-	 *             ephemeral_push_token: "abcd1234-push-token-from-ios-framework"
+	 *               lat: 45.9237
+	 *               lon: 6.8694
 	 *     responses:
-	 *       200:
-	 *         description: Successfully joined channel
+	 *       201:
+	 *         description: Message posted
 	 *         content:
 	 *           application/json:
 	 *             schema:
-	 *               $ref: '#/components/schemas/JoinChannelResponse'
-	 *             example:
-	 *               success: true
-	 *               participant:
-	 *                 user_id: "auth0|507f1f77bcf86cd799439011"
-	 *                 username: "pilot123"
-	 *                 join_time: "2025-08-11T10:30:00.000Z"
-	 *                 last_seen: "2025-08-11T10:30:00.000Z"
-	 *                 connection_quality: "good"
-	 *                 is_transmitting: false
-	 *               channel_info:
-	 *                 name: "Chamonix - Mont Blanc"
-	 *                 participants_count: 3
-	 *                 max_participants: 20
+	 *               type: object
+	 *               properties:
+	 *                 success:
+	 *                   type: boolean
+	 *                 data:
+	 *                   $ref: '#/components/schemas/ChannelTextMessage'
 	 *       400:
-	 *         description: Bad request (channel full, inactive, etc.)
+	 *         description: Invalid text message
 	 *       403:
-	 *         description: Access denied - insufficient permissions
+	 *         description: Access denied, or free text from a muted participant
 	 *       404:
 	 *         description: Channel not found
 	 */
-	private async joinChannel(
+	private async getChannelMessages(
 		request: Request,
 		channelUuid: string,
-		userId: string,
 		permissions: string[],
 		env: Env,
 	): Promise<Response> {
-		// Check channel-specific access permission
-		const requiredPermission = `${env.ACCESS_PERMISSION_PREFIX}${channelUuid.toLowerCase()}`;
+		const uuidLower = channelUuid.toLowerCase();
+		const requiredPermission = `${env.ACCESS_PERMISSION_PREFIX}${uuidLower}`;
 
 		if (
 			!permissions.includes(requiredPermission) &&
@@ -1944,76 +5564,119 @@ export class PTTAPIHandler {
 			);
 		}
 
-		try {
-			// Parse optional location from request body
-			let joinRequest: JoinChannelRequest = {};
+		const url = new URL(request.url);
+		const beforeParam = url.searchParams.get("before");
+		const limitParam = url.searchParams.get("limit");
+		const before = beforeParam ? parseInt(beforeParam, 10) : undefined;
 
-			try {
-				const body = await request.text();
+		if (before !== undefined && (isNaN(before) || before < 1)) {
+			return this.errorResponse("Invalid before parameter", 400);
+		}
 
-				if (body.trim()) {
-					joinRequest = JSON.parse(body);
-				}
-			} catch {
-				// Empty or invalid JSON body is OK for join request
-			}
+		const limit = limitParam ? parseInt(limitParam, 10) : 50;
 
-			// Join channel using service
-			const result = await this.channelService.joinChannel(
-				channelUuid.toLowerCase(),
-				userId,
-				joinRequest.location,
-				joinRequest.ephemeral_push_token,
-				joinRequest.device_info,
+		if (isNaN(limit) || limit < 1 || limit > 100) {
+			return this.errorResponse(
+				"Invalid limit parameter - must be between 1 and 100",
+				400,
 			);
+		}
 
-			if (!result.success) {
-				return this.errorResponse(
-					result.error || "Failed to join channel",
-					400,
-				);
-			}
+		const channel = await this.channelService.getChannel(uuidLower);
 
-			// Get channel info for response
-			const channel = await this.channelService.getChannel(
-				channelUuid.toLowerCase(),
-			);
-			const participants = await this.channelService.getChannelParticipants(
-				channelUuid.toLowerCase(),
+		if (!channel) {
+			return this.errorResponse("Channel not found", 404);
+		}
+
+		const { messages, has_more } = await this.messageService.getMessages(
+			uuidLower,
+			limit,
+			before,
+		);
+
+		return this.successResponse<ChannelMessagesResponse>({
+			channel_uuid: uuidLower,
+			messages,
+			has_more,
+			canned_messages: CANNED_MESSAGES,
+		});
+	}
+
+	/**
+	 * POST /api/v1/channels/{uuid}/messages - Post a text message
+	 * Documented with GET /api/v1/channels/{uuid}/messages
+	 * @private
+	 */
+	private async postChannelMessage(
+		request: Request,
+		channelUuid: string,
+		sender: { user_id: string; username: string },
+		permissions: string[],
+		env: Env,
+	): Promise<Response> {
+		const uuidLower = channelUuid.toLowerCase();
+		const requiredPermission = `${env.ACCESS_PERMISSION_PREFIX}${uuidLower}`;
+
+		if (
+			!permissions.includes(requiredPermission) &&
+			!permissions.includes(env.ADMIN_PERMISSION)
+		) {
+			return this.errorResponse(
+				`Access denied - missing permission: ${requiredPermission}`,
+				403,
 			);
+		}
 
-			const response: JoinChannelResponse = {
-				success: true,
-				participant: result.participant,
-				channel_info: channel
-					? {
-						name: channel.name,
-						participants_count: participants.length,
-						max_participants: channel.max_participants,
-					}
-					: undefined,
-			};
+		let messageRequest: ChannelTextMessageRequest;
 
-			return new Response(JSON.stringify(response), {
-				status: 200,
-				headers: this.corsHeaders || {},
-			});
-		} catch (error) {
-			console.error("Join channel error:", error);
+		try {
+			messageRequest = await request.json();
+		} catch {
+			return this.errorResponse("Invalid JSON payload", 400);
+		}
 
-			return this.errorResponse("Internal server error", 500);
+		const { error: validationError } =
+			MessageService.resolveTextMessage(messageRequest);
+
+		if (validationError) {
+			return this.errorResponse(validationError, 400);
+		}
+
+		const channel = await this.channelService.getChannel(uuidLower);
+
+		if (!channel) {
+			return this.errorResponse("Channel not found", 404);
+		}
+
+		const result = await this.audioService.postTextMessage(uuidLower, sender, {
+			content: messageRequest.content,
+			canned_message_id: messageRequest.canned_message_id,
+			location: messageRequest.location,
+		});
+
+		if (!result.success || !result.message) {
+			const error = result.error || "Failed to post text message";
+
+			return this.errorResponse(
+				error,
+				error.startsWith("Failed to") ? 500 : 403,
+			);
 		}
+
+		return this.successResponse(result.message, 201);
 	}
 
 	/**
-	 * POST /api/v1/channels/{uuid}/leave - Leave a channel
-	 * DELETE /api/v1/channels/{uuid}/leave - Leave a channel (alternative method)
+	 * GET /api/v1/channels/{uuid}/checkins - Get the landing check-in board of a channel
 	 *
 	 * @openapi
-	 * /api/v1/channels/{uuid}/leave:
-	 *   post:
-	 *     summary: Leave a channel
-	 *     description: Leave a PTT channel. Requires access permission for the specific channel (access:{uuid}).
+	 * /api/v1/channels/{uuid}/checkins:
+	 *   get:
+	 *     summary: Get the check-in board
+	 *     description: |
+	 *       Retrieve the flights tracked on a site_local channel: overdue pilots first, then the flying pilots by deadline,
+	 *       then the landings of the last 12 hours. A pilot is tracked as flying from its first transmission or movement.
+	 *       Requires access permission for the specific channel (access:{uuid}).
 	 *     tags:
 	 *       - Channels
 	 *     security:
@@ -2028,20 +5691,36 @@ export class PTTAPIHandler {
 	 *         description: Channel UUID
 	 *     responses:
 	 *       200:
-	 *         description: Successfully left channel
+	 *         description: Check-ins retrieved successfully
 	 *         content:
 	 *           application/json:
 	 *             schema:
-	 *               $ref: '#/components/schemas/LeaveChannelResponse'
-	 *             example:
-	 *               success: true
-	 *       400:
-	 *         description: Bad request (not a participant, etc.)
+	 *               type: object
+	 *               properties:
+	 *                 success:
+	 *                   type: boolean
+	 *                 data:
+	 *                   type: object
+	 *                   properties:
+	 *                     channel_uuid:
+	 *                       type: string
+	 *                       format: uuid
+	 *                     checkins:
+	 *                       type: array
+	 *                       items:
+	 *                         $ref: '#/components/schemas/PilotCheckin'
 	 *       403:
 	 *         description: Access denied - insufficient permissions
-	 *   delete:
-	 *     summary: Leave a channel (alternative method)
-	 *     description: Leave a PTT channel using DELETE method. Requires access permission for the specific channel (access:{uuid}).
+	 *       404:
+	 *         description: Channel not found
+	 *   post:
+	 *     summary: Check in landed
+	 *     description: |
+	 *       Record the landing of a pilot on a site_local channel, announced to the connected participants with a `pilot_checkin`
+	 *       WebSocket message. A pilot checks in for itself with the landed button (via button, the default) or a voice command
+	 *       (via voice). Moderators and administrators confirm the landing of another pilot reported on the radio with its
+	 *       user_id (via voice by default). A check-in of an overdue pilot closes its incident. The "Landed OK" canned text
+	 *       message is also a check-in. Requires access permission for the specific channel (access:{uuid}).
 	 *     tags:
 	 *       - Channels
 	 *     security:
@@ -2054,27 +5733,90 @@ export class PTTAPIHandler {
 	 *           type: string
 	 *           format: uuid
 	 *         description: Channel UUID
+	 *     requestBody:
+	 *       required: false
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             properties:
+	 *               user_id:
+	 *                 type: string
+	 *                 description: Pilot who landed, moderators only, the caller by default
+	 *               username:
+	 *                 type: string
+	 *                 description: Name of a pilot without tracked flight, checked in by a moderator
+	 *               via:
+	 *                 type: string
+	 *                 enum: [voice, button]
+	 *               location:
+	 *                 $ref: '#/components/schemas/Coordinates'
+	 *           example:
+	 *             user_id: "auth0|eleve"
+	 *             via: voice
 	 *     responses:
-	 *       200:
-	 *         description: Successfully left channel
+	 *       201:
+	 *         description: Landing recorded
 	 *         content:
 	 *           application/json:
 	 *             schema:
-	 *               $ref: '#/components/schemas/LeaveChannelResponse'
+	 *               type: object
+	 *               properties:
+	 *                 success:
+	 *                   type: boolean
+	 *                 data:
+	 *                   $ref: '#/components/schemas/PilotCheckin'
 	 *       400:
-	 *         description: Bad request (not a participant, etc.)
+	 *         description: Invalid check-in, or channel other than site_local
 	 *       403:
-	 *         description: Access denied - insufficient permissions
+	 *         description: Access denied, or check-in of another pilot by a user who is not a moderator
+	 *       404:
+	 *         description: Channel not found
 	 */
-	private async leaveChannel(
+	private async getChannelCheckins(
+		channelUuid: string,
+		permissions: string[],
+		env: Env,
+	): Promise<Response> {
+		const uuidLower = channelUuid.toLowerCase();
+		const requiredPermission = `${env.ACCESS_PERMISSION_PREFIX}${uuidLower}`;
+
+		if (
+			!permissions.includes(requiredPermission) &&
+			!permissions.includes(env.ADMIN_PERMISSION)
+		) {
+			return this.errorResponse(
+				`Access denied - missing permission: ${requiredPermission}`,
+				403,
+			);
+		}
+
+		const channel = await this.channelService.getChannel(uuidLower);
+
+		if (!channel) {
+			return this.errorResponse("Channel not found", 404);
+		}
+
+		return this.successResponse<ChannelCheckinsResponse>({
+			channel_uuid: uuidLower,
+			checkins: await this.checkinService.getChannelCheckins(uuidLower),
+		});
+	}
+
+	/**
+	 * POST /api/v1/channels/{uuid}/checkins - Check in landed
+	 * Documented with GET /api/v1/channels/{uuid}/checkins
+	 * @private
+	 */
+	private async postChannelCheckin(
 		request: Request,
 		channelUuid: string,
-		userId: string,
+		caller: { user_id: string; username: string },
 		permissions: string[],
 		env: Env,
 	): Promise<Response> {
-		// Check channel-specific access permission
-		const requiredPermission = `${env.ACCESS_PERMISSION_PREFIX}${channelUuid.toLowerCase()}`;
+		const uuidLower = channelUuid.toLowerCase();
+		const requiredPermission = `${env.ACCESS_PERMISSION_PREFIX}${uuidLower}`;
 
 		if (
 			!permissions.includes(requiredPermission) &&
@@ -2086,72 +5828,129 @@ export class PTTAPIHandler {
 			);
 		}
 
+		// The body is optional, the landed button of a client posts nothing
+		let checkinRequest: PilotCheckinRequest = {};
+
 		try {
-			// Parse optional request body for ephemeral token
-			let leaveRequest: LeaveChannelRequest = {};
+			const body = await request.text();
+
+			if (body.trim()) {
+				checkinRequest = JSON.parse(body);
+			}
+		} catch {
+			return this.errorResponse("Invalid JSON payload", 400);
+		}
+
+		const { checkin, error: validationError } =
+			CheckinService.resolveCheckinRequest(checkinRequest);
+
+		if (!checkin) {
+			return this.errorResponse(validationError || "Invalid check-in", 400);
+		}
+
+		const channel = await this.channelService.getChannel(uuidLower);
+
+		if (!channel) {
+			return this.errorResponse("Channel not found", 404);
+		}
 
-			try {
-				const body = await request.text();
+		const forOtherPilot =
+			checkin.user_id !== undefined && checkin.user_id !== caller.user_id;
+		let pilot = { user_id: caller.user_id, username: caller.username };
 
-				if (body.trim()) {
-					leaveRequest = JSON.parse(body);
-				}
-			} catch {
-				// Empty or invalid JSON body is OK for leave request
+		if (forOtherPilot) {
+			if (
+				!(await this.canModerateChannel(
+					uuidLower,
+					caller.user_id,
+					permissions,
+					env,
+				))
+			) {
+				return this.errorResponse(
+					"Only the moderators of this channel can check in another pilot",
+					403,
+				);
 			}
 
-			// Leave channel using service
-			const result = await this.channelService.leaveChannel(
-				channelUuid.toLowerCase(),
-				userId,
-				leaveRequest.ephemeral_push_token,
-			);
+			const username =
+				checkin.username ||
+				(await this.checkinService.getChannelCheckins(uuidLower)).find(
+					(entry) => entry.user_id === checkin.user_id,
+				)?.username;
 
-			if (!result.success) {
+			if (!username) {
 				return this.errorResponse(
-					result.error || "Failed to leave channel",
+					"username is required for a pilot without tracked flight",
 					400,
 				);
 			}
 
-			const response: LeaveChannelResponse = {
-				success: true,
-			};
+			pilot = { user_id: checkin.user_id as string, username };
+		}
 
-			return new Response(JSON.stringify(response), {
-				status: 200,
-				headers: this.corsHeaders || {},
-			});
-		} catch (error) {
-			console.error("Leave channel error:", error);
+		const result = await this.audioService.checkIn(uuidLower, pilot, {
+			via: checkin.via || (forOtherPilot ? "voice" : "button"),
+			checked_in_by: forOtherPilot ? caller.user_id : undefined,
+			location: checkin.location,
+		});
 
-			return this.errorResponse("Internal server error", 500);
+		if (!result.success || !result.checkin) {
+			const error = result.error || "Failed to record check-in";
+
+			return this.errorResponse(
+				error,
+				error.startsWith("Failed to") ? 500 : 400,
+			);
 		}
+
+		return this.successResponse(result.checkin, 201);
 	}
 
 	/**
-	 * GET /api/v1/channels/{uuid}/participants - Get channel participants
+	 * POST /api/v1/channels/nearby/resolve - Resolve and optionally join the channels around a position
 	 *
 	 * @openapi
-	 * /api/v1/channels/{uuid}/participants:
-	 *   get:
-	 *     summary: Get channel participants
-	 *     description: Retrieve list of current participants in a channel. Requires access permission for the specific channel (access:{uuid}).
+	 * /api/v1/channels/nearby/resolve:
+	 *   post:
+	 *     summary: Resolve nearby channels
+	 *     description: |
+	 *       Return the channels relevant for a pilot position, ranked by relevance: site_local channels
+	 *       whose radius contains the position (nearest first), the nearest emergency channel, then the
+	 *       cross_country channels covering the position. When the user preference auto_join_site_channels
+	 *       is enabled (the default) and auto_join is not false, the site_local channels the user has access
+	 *       to are joined. Requires read permission.
 	 *     tags:
 	 *       - Channels
 	 *     security:
 	 *       - bearerAuth: []
-	 *     parameters:
-	 *       - in: path
-	 *         name: uuid
-	 *         required: true
-	 *         schema:
-	 *           type: string
-	 *           format: uuid
-	 *         description: Channel UUID
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             required:
+	 *               - location
+	 *             properties:
+	 *               location:
+	 *                 $ref: '#/components/schemas/Coordinates'
+	 *               auto_join:
+	 *                 type: boolean
+	 *                 description: Set to false to only get the suggestions without joining
+	 *               ephemeral_push_token:
+	 *                 type: string
+	 *                 description: Ephemeral APNs PTT token used for the joined channels
+	 *               device_info:
+	 *                 type: object
+	 *                 description: Optional device and application information, as for the join operation
+	 *           example:
+	 *             location:
+	 *               lat: 45.9237
+	 *               lon: 6.8694
 	 *     responses:
 	 *       200:
-	 *         description: Participants retrieved successfully
+	 *         description: Nearby channels resolved successfully
 	 *         content:
 	 *           application/json:
 	 *             schema:
@@ -2161,88 +5960,182 @@ export class PTTAPIHandler {
 	 *                   type: boolean
 	 *                   example: true
 	 *                 data:
-	 *                   type: array
-	 *                   items:
-	 *                     $ref: '#/components/schemas/ChannelParticipant'
-	 *                 total_count:
-	 *                   type: integer
-	 *                   description: Total number of participants
+	 *                   type: object
+	 *                   properties:
+	 *                     location:
+	 *                       $ref: '#/components/schemas/Coordinates'
+	 *                     auto_join_site_channels:
+	 *                       type: boolean
+	 *                       description: Whether site channels were joined for this request
+	 *                     channels:
+	 *                       type: array
+	 *                       items:
+	 *                         type: object
+	 *                         properties:
+	 *                           rank:
+	 *                             type: integer
+	 *                           reason:
+	 *                             type: string
+	 *                             enum: [inside_site_radius, nearest_emergency, cross_country]
+	 *                           distance_km:
+	 *                             type: number
+	 *                             nullable: true
+	 *                           channel:
+	 *                             $ref: '#/components/schemas/Channel'
+	 *                           joined:
+	 *                             type: boolean
+	 *                     joined_channels:
+	 *                       type: array
+	 *                       items:
+	 *                         type: string
+	 *                         format: uuid
+	 *                     flying_sites:
+	 *                       type: array
+	 *                       description: Flying sites whose radius contains the position, nearest first
+	 *                       items:
+	 *                         type: object
+	 *                         properties:
+	 *                           id:
+	 *                             type: string
+	 *                           name:
+	 *                             type: string
+	 *                           coordinates:
+	 *                             $ref: '#/components/schemas/Coordinates'
+	 *                           radius_km:
+	 *                             type: number
+	 *                           associated_channels:
+	 *                             type: array
+	 *                             items:
+	 *                               type: string
+	 *                           distance_km:
+	 *                             type: number
 	 *                 timestamp:
 	 *                   type: string
 	 *                   format: date-time
 	 *                 version:
 	 *                   type: string
-	 *             example:
-	 *               success: true
-	 *               data:
-	 *                 - user_id: "auth0|507f1f77bcf86cd799439011"
-	 *                   username: "pilot123"
-	 *                   join_time: "2025-08-11T10:30:00.000Z"
-	 *                   last_seen: "2025-08-11T10:35:00.000Z"
-	 *                   connection_quality: "good"
-	 *                   is_transmitting: false
-	 *               total_count: 1
-	 *               timestamp: "2025-08-11T10:35:00.000Z"
-	 *               version: "1.0.0"
+	 *       400:
+	 *         description: Invalid or missing location
+	 *       401:
+	 *         description: Authentication failed
 	 *       403:
-	 *         description: Access denied - insufficient permissions
-	 *       404:
-	 *         description: Channel not found
+	 *         description: Insufficient permissions
 	 */
-	private async getChannelParticipants(
-		channelUuid: string,
+	private async resolveNearbyChannels(
+		request: Request,
+		userId: string,
 		permissions: string[],
 		env: Env,
 	): Promise<Response> {
-		// Check channel-specific access permission
-		const requiredPermission = `${env.ACCESS_PERMISSION_PREFIX}${channelUuid.toLowerCase()}`;
-
+		// Check read permission
 		if (
-			!permissions.includes(requiredPermission) &&
+			!permissions.includes(env.READ_PERMISSION) &&
 			!permissions.includes(env.ADMIN_PERMISSION)
+		) {
+			return this.errorResponse("Insufficient permissions", 403);
+		}
+
+		let resolveRequest: NearbyChannelsResolveRequest;
+
+		try {
+			resolveRequest = await request.json();
+		} catch {
+			return this.errorResponse("Invalid JSON payload", 400);
+		}
+
+		const location = resolveRequest?.location;
+
+		if (
+			!location ||
+			typeof location.lat !== "number" ||
+			typeof location.lon !== "number" ||
+			location.lat < -90 ||
+			location.lat > 90 ||
+			location.lon < -180 ||
+			location.lon > 180
 		) {
 			return this.errorResponse(
-				`Access denied - missing permission: ${requiredPermission}`,
-				403,
+				"Invalid location - lat must be between -90 and 90, lon between -180 and 180",
+				400,
 			);
 		}
 
 		try {
-			// Verify channel exists
-			const channel = await this.channelService.getChannel(
-				channelUuid.toLowerCase(),
-			);
+			const matches = await this.channelService.resolveNearbyChannels(location);
+			// Flying sites whose radius contains the position, site radii stay well below 100 km
+			const flyingSites = (
+				await this.siteService.getNearbySites(location, 100)
+			).filter((site) => site.distance_km <= site.radius_km);
+			const autoJoin =
+				resolveRequest.auto_join !== false &&
+				(await this.userPreferencesService.getPreferences(userId))
+					.auto_join_site_channels;
+			const joinedChannels: string[] = [];
+
+			if (autoJoin) {
+				for (const match of matches) {
+					if (match.reason !== "inside_site_radius") continue;
+
+					// Only join the site channels the user has access to
+					const channelUuid = match.channel.uuid.toLowerCase();
+					const requiredPermission = `${env.ACCESS_PERMISSION_PREFIX}${channelUuid}`;
+
+					if (
+						!permissions.includes(requiredPermission) &&
+						!permissions.includes(env.ADMIN_PERMISSION)
+					) {
+						continue;
+					}
 
-			if (!channel) {
-				return this.errorResponse("Channel not found", 404);
+					const result = await this.channelService.joinChannel(
+						channelUuid,
+						userId,
+						location,
+						resolveRequest.ephemeral_push_token,
+						resolveRequest.device_info,
+					);
+
+					if (result.success) {
+						joinedChannels.push(channelUuid);
+					} else {
+						console.warn(
+							`Auto-join of channel ${channelUuid} failed: ${result.error}`,
+						);
+					}
+				}
 			}
 
-			// Get participants
-			const participants = await this.channelService.getChannelParticipants(
-				channelUuid.toLowerCase(),
+			const channels: NearbyChannelSuggestion[] = matches.map(
+				(match, index) => ({
+					rank: index + 1,
+					reason: match.reason,
+					distance_km: match.distance_km,
+					channel: match.channel,
+					joined: joinedChannels.includes(match.channel.uuid.toLowerCase()),
+				}),
 			);
 
-			const response: APIResponse<ChannelParticipant[]> = {
+			const response: APIResponse<NearbyChannelsResolveResponse> = {
 				success: true,
-				data: participants,
+				data: {
+					location,
+					auto_join_site_channels: autoJoin,
+					channels,
+					joined_channels: joinedChannels,
+					flying_sites: flyingSites,
+				},
 				timestamp: new Date().toISOString(),
 				version: "1.0.0",
 			};
 
-			// Add total count as additional property
-			const responseWithCount = {
-				...response,
-				total_count: participants.length,
-			};
-
-			return new Response(JSON.stringify(responseWithCount), {
+			return new Response(JSON.stringify(response), {
 				status: 200,
 				headers: this.corsHeaders || {},
 			});
 		} catch (error) {
-			console.error("Get channel participants error:", error);
+			console.error("Resolve nearby channels error:", error);
 
-			return this.errorResponse("Failed to get channel participants", 500);
+			return this.errorResponse("Failed to resolve nearby channels", 500);
 		}
 	}
 
@@ -2370,6 +6263,7 @@ export class PTTAPIHandler {
 	 * POST /api/v1/transmissions/{session_id}/end - End transmission
 	 * GET /api/v1/transmissions/active/{channel_uuid} - Get active transmission
 	 * GET /api/v1/transmissions/ws/{channel_uuid} - WebSocket for real-time
+	 * GET /api/v1/transmissions/{session_id}/audio - Get transmission recording
 	 */
 	private async handleTransmissionsAPI(
 		request: Request,
@@ -2433,7 +6327,13 @@ export class PTTAPIHandler {
 						request,
 						subResource,
 						userId,
-						username,
+					);
+				} else if (resourceId && subResource === "audio") {
+					return await this.handleGetTransmissionAudio(
+						decodeURIComponent(resourceId),
+						userId,
+						authResult.permissions || [],
+						env,
 					);
 				} else {
 					return this.errorResponse("Invalid transmission query endpoint", 400);
@@ -2479,6 +6379,14 @@ export class PTTAPIHandler {
 	 *                   model: "iPhone 15 Pro"
 	 *                   os_version: "17.2"
 	 *                 expected_duration: 15
+	 *             private_call:
+	 *               summary: Instructor talking to one student
+	 *               value:
+	 *                 channel_uuid: "550e8400-e29b-41d4-a716-446655440000"
+	 *                 audio_format: "opus"
+	 *                 sample_rate: 48000
+	 *                 network_quality: "good"
+	 *                 target_user_ids: ["auth0|507f1f77bcf86cd799439011"]
 	 *     responses:
 	 *       200:
 	 *         description: Transmission started successfully
@@ -2509,6 +6417,10 @@ export class PTTAPIHandler {
 	 *                 value:
 	 *                   success: false
 	 *                   error: "Valid audio_format is required (aac-lc, opus, pcm)"
+	 *               invalid_targets:
+	 *                 value:
+	 *                   success: false
+	 *                   error: "Invalid target_user_ids - must be a non-empty array of user IDs"
 	 *       401:
 	 *         description: Authentication required
 	 *         content:
@@ -2570,6 +6482,12 @@ export class PTTAPIHandler {
 				return this.errorResponse("Valid network_quality is required", 400);
 			}
 
+			const callTargets = resolveCallTargets(body.target_user_ids, userId);
+
+			if (!body.is_emergency && callTargets.error) {
+				return this.errorResponse(callTargets.error, 400);
+			}
+
 			// Validate channel access
 			const accessResult = await this.audioService.validateChannelAccess(
 				body.channel_uuid,
@@ -3027,6 +6945,138 @@ export class PTTAPIHandler {
 		}
 	}
 
+	/**
+	 * @openapi
+	 * /api/v1/transmissions/{session_id}/audio:
+	 *   get:
+	 *     summary: Get transmission recording
+	 *     description: Download the recording of a past transmission. Only transmissions of channels with recording enabled are recorded. The file is WebM/Opus, ADTS AAC or WAV depending on the audio format of the transmission. The recording of a private call is only available to its talker, its targets and administrators.
+	 *     tags:
+	 *       - Transmissions
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - name: session_id
+	 *         in: path
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *         description: The transmission session ID
+	 *     responses:
+	 *       200:
+	 *         description: Transmission recording
+	 *         content:
+	 *           audio/webm:
+	 *             schema:
+	 *               type: string
+	 *               format: binary
+	 *           audio/aac:
+	 *             schema:
+	 *               type: string
+	 *               format: binary
+	 *           audio/wav:
+	 *             schema:
+	 *               type: string
+	 *               format: binary
+	 *       401:
+	 *         description: Authentication required
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               $ref: '#/components/schemas/ErrorResponse'
+	 *       403:
+	 *         description: Channel access denied
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               $ref: '#/components/schemas/ErrorResponse'
+	 *       404:
+	 *         description: Transmission or recording not found
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               $ref: '#/components/schemas/ErrorResponse'
+	 *             examples:
+	 *               not_found:
+	 *                 value:
+	 *                   success: false
+	 *                   error: "Transmission not found"
+	 *               not_recorded:
+	 *                 value:
+	 *                   success: false
+	 *                   error: "No recording available for this transmission"
+	 *       500:
+	 *         description: Internal server error
+	 *         content:
+	 *           application/json:
+	 *             schema:
+	 *               $ref: '#/components/schemas/ErrorResponse'
+	 */
+	private async handleGetTransmissionAudio(
+		sessionId: string,
+		userId: string,
+		permissions: string[],
+		env: Env,
+	): Promise<Response> {
+		try {
+			const result =
+				await this.audioService.getTransmissionRecording(sessionId);
+
+			if (!result.found || !result.channel_uuid) {
+				return this.errorResponse("Transmission not found", 404);
+			}
+
+			// Check channel-specific access permission
+			const requiredPermission = `${env.ACCESS_PERMISSION_PREFIX}${result.channel_uuid.toLowerCase()}`;
+
+			if (
+				!permissions.includes(requiredPermission) &&
+				!permissions.includes(env.ADMIN_PERMISSION)
+			) {
+				return this.errorResponse(
+					`Access denied - missing permission: ${requiredPermission}`,
+					403,
+				);
+			}
+
+			if (
+				!permissions.includes(env.ADMIN_PERMISSION) &&
+				!isCallListener(userId, result.user_id || "", result.target_user_ids)
+			) {
+				return this.errorResponse(
+					"Access denied - private call recording",
+					403,
+				);
+			}
+
+			if (!result.recording) {
+				return this.errorResponse(
+					"No recording available for this transmission",
+					404,
+				);
+			}
+
+			const contentType =
+				result.recording.httpMetadata?.contentType ||
+				"application/octet-stream";
+			const extension = result.recording.key.split(".").pop();
+
+			return new Response(result.recording.body, {
+				status: 200,
+				headers: {
+					...(this.corsHeaders || {}),
+					"Content-Type": contentType,
+					"Content-Length": result.recording.size.toString(),
+					"Content-Disposition": `inline; filename="${sessionId}.${extension}"`,
+				},
+			});
+		} catch (error) {
+			console.error("Get transmission audio error:", error);
+
+			return this.errorResponse("Failed to get transmission recording", 500);
+		}
+	}
+
 	/**
 	 * @openapi
 	 * /api/v1/transmissions/ws/{channel_uuid}:
@@ -3045,10 +7095,22 @@ export class PTTAPIHandler {
 	 *           type: string
 	 *           format: uuid
 	 *         description: The channel UUID for real-time PTT communication
+	 *       - name: Sec-WebSocket-Protocol
+	 *         in: header
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *           example: "ptt.binary.v1, ptt.json.v1"
+	 *         description: Subprotocols offered by the client. With ptt.binary.v1, audio chunks are exchanged as binary frames (20-byte header with version, format, session ID hash, sequence and timestamp, followed by the raw audio). Without this header every message is JSON with base64 audio.
 	 *     responses:
 	 *       101:
 	 *         description: WebSocket connection upgraded successfully
 	 *         headers:
+	 *           Sec-WebSocket-Protocol:
+	 *             schema:
+	 *               type: string
+	 *               example: ptt.binary.v1
+	 *             description: Negotiated subprotocol, only present if the client offered some
 	 *           Upgrade:
 	 *             schema:
 	 *               type: string
@@ -3072,6 +7134,10 @@ export class PTTAPIHandler {
 	 *                 value:
 	 *                   success: false
 	 *                   error: "WebSocket upgrade required"
+	 *               unsupported_subprotocol:
+	 *                 value:
+	 *                   success: false
+	 *                   error: "Unsupported WebSocket subprotocol, expected ptt.binary.v1 or ptt.json.v1"
 	 *       401:
 	 *         description: Authentication required
 	 *         content:
@@ -3101,7 +7167,6 @@ export class PTTAPIHandler {
 		request: Request,
 		channelUuid: string,
 		userId: string,
-		username: string,
 	): Promise<Response> {
 		try {
 			// Validate channel access
@@ -3132,11 +7197,10 @@ export class PTTAPIHandler {
 				);
 			}
 
-			// Create new request with user info and ephemeral_push_token in query params for Durable Object
+			// Create new request with the ephemeral_push_token in query params for Durable Object
+			// The Durable Object derives the user identity from the JWT token itself
 			const url = new URL(request.url);
 
-			url.searchParams.set("userId", userId);
-			url.searchParams.set("username", username);
 			url.searchParams.set("ephemeralPushToken", participant.ephemeral_push_token);
 
 			const newRequest = new Request(url.toString(), request);
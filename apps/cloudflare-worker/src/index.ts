@@ -22,13 +22,17 @@
  * SOFTWARE.
  */
 
-import { checkPermissions } from "./auth0";
+import { checkPermissions, verifyToken } from "./auth0";
 import { PTTAPIHandler } from "./handlers/api-handler";
 import { PTTChannelDurableObject } from "./durable-objects/ptt-channel-do";
+import { PTTScannerDurableObject } from "./durable-objects/ptt-scanner-do";
+import { ChannelService } from "./services/channel-service";
+import { CheckinService } from "./services/checkin-service";
 import { corsHeader } from "./utils/cors";
+import { isWithinActiveWindows } from "./utils/channel-schedule";
 
-// Export Durable Object class
-export { PTTChannelDurableObject };
+// Export Durable Object classes
+export { PTTChannelDurableObject, PTTScannerDurableObject };
 
 /**
  * Handle requests to channel Durable Objects for real-time operations
@@ -176,6 +180,7 @@ async function handleLegacyRequest(request: Request, env: Env): Promise<Response
 /**
  * Handle PTT WebSocket connections
  * Routes WebSocket connections for PTT audio transmission to appropriate channel Durable Objects
+ * The JWT token is validated by the Durable Object, the channel UUID is taken from the path only
  */
 async function handlePTTWebSocketRequest(request: Request, env: Env): Promise<Response> {
 	const url = new URL(request.url);
@@ -186,7 +191,7 @@ async function handlePTTWebSocketRequest(request: Request, env: Env): Promise<Re
 		return new Response('Invalid PTT WebSocket path', { status: 400 });
 	}
 
-	const channelId = pathParts[3];
+	const channelId = pathParts[3]?.toLowerCase();
 
 	if (!channelId) {
 		return new Response('Channel ID required', { status: 400 });
@@ -201,8 +206,145 @@ async function handlePTTWebSocketRequest(request: Request, env: Env): Promise<Re
 	const channelId32 = env.CHANNEL_OBJECTS.idFromName(channelId);
 	const channelObj = env.CHANNEL_OBJECTS.get(channelId32);
 
+	// Bind the connection to the routed channel, overriding any client-supplied value
+	const forwardUrl = new URL(request.url);
+
+	forwardUrl.searchParams.set("channelUuid", channelId);
+
 	// Forward WebSocket connection to the channel Durable Object
-	return channelObj.fetch(request);
+	return channelObj.fetch(new Request(forwardUrl.toString(), request));
+}
+
+/**
+ * Handle PTT scanner WebSocket connections
+ * Routes the scanner connection of a user, listening to several channels at once, to the scanner
+ * Durable Object of that user. The token is verified here to find the user, the Durable Object
+ * verifies it again with the channel permissions.
+ * Path: /ptt/scanner?channels={uuid}[:{priority}],...&token={jwt}
+ */
+async function handlePTTScannerRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	const url = new URL(request.url);
+	const token =
+		url.searchParams.get("token") ||
+		request.headers.get("Authorization")?.replace(/^Bearer /, "");
+
+	if (!token) {
+		return new Response("Missing required parameter: token", { status: 401 });
+	}
+
+	let userId: string | undefined;
+
+	try {
+		userId = (await verifyToken(token, env)).sub;
+	} catch (error) {
+		console.error("Scanner token validation error:", error);
+	}
+
+	if (!userId) {
+		return new Response("Unauthorized", { status: 401 });
+	}
+
+	// Bind the connection to the token owner, overriding any client-supplied value
+	const forwardUrl = new URL(request.url);
+
+	forwardUrl.searchParams.set("userId", userId);
+
+	return env.SCANNER_OBJECTS.getByName(userId).fetch(
+		new Request(forwardUrl.toString(), request),
+	);
+}
+
+/**
+ * Apply the active windows of the scheduled channels
+ * Run every minute by the cron trigger: the schedule drives is_active, channels entering a window
+ * are opened, channels leaving their windows are closed and their participants disconnected
+ */
+async function applyChannelSchedules(env: Env, now: Date): Promise<void> {
+	const channelService = new ChannelService(env.PTT_DB, env.PTT_CACHE);
+	const channels = await channelService.getScheduledChannels();
+
+	for (const channel of channels) {
+		const shouldBeActive = isWithinActiveWindows(channel.active_windows, now);
+
+		if (shouldBeActive === channel.is_active) {
+			continue;
+		}
+
+		try {
+			if (shouldBeActive) {
+				if (await channelService.setChannelActive(channel.uuid, true)) {
+					console.log(`Scheduled channel ${channel.uuid} opened`);
+				}
+
+				continue;
+			}
+
+			// Disconnect the participants first, the channel stays active while an emergency
+			// transmission postpones the close, so that the next run retries it
+			const closedConnections = await env.CHANNEL_OBJECTS.getByName(
+				channel.uuid,
+			).pttCloseChannel(
+				channel.uuid,
+				"The active window of the channel is over",
+			);
+
+			if (closedConnections === null) {
+				console.log(
+					`Scheduled channel ${channel.uuid} kept open by an emergency transmission`,
+				);
+				continue;
+			}
+
+			if (!(await channelService.setChannelActive(channel.uuid, false))) {
+				continue;
+			}
+
+			// Their devices are removed from the channel once it is closed
+			const removedParticipants = await channelService.removeAllParticipants(
+				channel.uuid,
+			);
+
+			console.log(
+				`Scheduled channel ${channel.uuid} closed: ${closedConnections} connections closed, ${removedParticipants} participants removed`,
+			);
+		} catch (error) {
+			console.error(
+				`Failed to apply the schedule of channel ${channel.uuid}:`,
+				error,
+			);
+		}
+	}
+}
+
+/**
+ * Raise the alerts of the pilots who did not check in landed before their deadline
+ * Run every minute by the cron trigger, each overdue flight is handed to the Durable Object of
+ * its channel which alerts the moderators and escalates the incident
+ */
+async function detectOverduePilots(env: Env, now: Date): Promise<void> {
+	const flights = await new CheckinService(env.PTT_DB).getOverdueFlights(now);
+
+	for (const flight of flights) {
+		try {
+			if (
+				await env.CHANNEL_OBJECTS.getByName(
+					flight.channel_uuid,
+				).pttPilotOverdue(flight.id)
+			) {
+				console.log(
+					`Pilot ${flight.user_id} overdue on channel ${flight.channel_uuid} since ${flight.deadline_at}`,
+				);
+			}
+		} catch (error) {
+			console.error(
+				`Failed to raise the overdue alert of flight ${flight.id}:`,
+				error,
+			);
+		}
+	}
 }
 
 /**
@@ -269,6 +411,14 @@ export default {
 				return await handlePTTWebSocketRequest(request, env);
 			}
 
+			// Route PTT scanner connections to the scanner Durable Object of the user
+			if (
+				pathname === "/ptt/scanner" &&
+				request.headers.get("Upgrade") === "websocket"
+			) {
+				return await handlePTTScannerRequest(request, env);
+			}
+
 			// Legacy endpoint for backward compatibility
 			if (pathname === "/" && request.headers.has("Authorization")) {
 				return await handleLegacyRequest(request, env);
@@ -343,4 +493,14 @@ export default {
 			);
 		}
 	},
+
+	/**
+	 * Cron trigger handler, see "triggers" in wrangler.jsonc
+	 */
+	async scheduled(controller, env, ctx): Promise<void> {
+		const now = new Date(controller.scheduledTime);
+
+		ctx.waitUntil(applyChannelSchedules(env, now));
+		ctx.waitUntil(detectOverduePilots(env, now));
+	},
 } satisfies ExportedHandler<Env>;
@@ -0,0 +1,357 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { AudioFormat } from "../types/ptt";
+import {
+	OPUS_FRAME_SAMPLES,
+	OPUS_SAMPLE_RATE,
+	OpusDecoder,
+	OpusEncoder,
+} from "../utils/audio-codecs";
+import {
+	concatSamples,
+	float32ToPcm16,
+	LinearResampler,
+	pcm16ToFloat32,
+	TRANSCODED_OPUS_BITRATE_KBPS,
+	TRANSCODED_PCM_SAMPLE_RATE,
+} from "../utils/audio-transcoding";
+import { WebmOpusDemuxer, WebmOpusMuxer } from "../utils/webm-opus";
+
+/**
+ * Mono samples decoded from a chunk
+ */
+interface DecodedChunk {
+	samples: Float32Array;
+	sampleRate: number;
+}
+
+/**
+ * Streaming decoder of the chunks of a transmission
+ */
+interface ChunkDecoder {
+	decode(data: Uint8Array): DecodedChunk;
+	free(): void;
+}
+
+/**
+ * Streaming encoder of the transcoded chunks of a transmission
+ */
+interface ChunkEncoder {
+	encode(samples: Float32Array): Uint8Array;
+	free(): void;
+}
+
+/** Transcoded chunks kept for late joiners and retransmission requests */
+const MAX_TRANSCODED_CHUNKS = 256;
+
+/**
+ * Audio transcoder of a transmission
+ * Each chunk of the talker is decoded once and encoded once per format received by the
+ * listeners, whatever their number. The codecs are streams: the chunks are given in the order
+ * they were received, from the first chunk of the transmission since the WebM header of the
+ * Opus chunks only comes with the first one.
+ * - opus: WebM fragments as produced by MediaRecorder, sent mono at 48 kHz once transcoded (libopus)
+ * - pcm: 16-bit little-endian mono samples, sent at 16 kHz once transcoded
+ * AAC-LC is neither decoded nor encoded, the worker bundles no AAC decoder.
+ * The WebAssembly codec is loaded with the first chunk. When it cannot be loaded the
+ * transcoder is unavailable and every listener gets the format of the talker.
+ */
+export class AudioTranscoder {
+	readonly sessionId: string;
+	private sourceFormat: AudioFormat;
+	private sampleRate: number;
+	private decoder: ChunkDecoder | null = null;
+	private encoders = new Map<AudioFormat, ChunkEncoder>();
+	private transcoded = new Map<string, Uint8Array>();
+	// Chunks are transcoded one at a time, in the order they were received
+	private queue: Promise<unknown> = Promise.resolve();
+	private unavailable = false;
+	private freed = false;
+
+	/**
+	 * @param sessionId - Session of the transmission
+	 * @param sourceFormat - Audio format sent by the talker
+	 * @param sampleRate - Sample rate announced by the talker, used for PCM
+	 */
+	constructor(
+		sessionId: string,
+		sourceFormat: AudioFormat,
+		sampleRate: number,
+	) {
+		this.sessionId = sessionId;
+		this.sourceFormat = sourceFormat;
+		this.sampleRate = sampleRate;
+	}
+
+	/**
+	 * Whether the codecs could not be loaded
+	 */
+	get isUnavailable(): boolean {
+		return this.unavailable;
+	}
+
+	/**
+	 * Decode the chunks received before the transcoder was needed, so that the next chunks
+	 * continue the stream. Their audio is not encoded.
+	 * @param chunks Chunks of the transmission in the order they were received
+	 */
+	prime(chunks: Uint8Array[]): Promise<void> {
+		return this.enqueue(async () => {
+			for (const chunk of chunks) {
+				await this.decodeChunk(chunk);
+			}
+		});
+	}
+
+	/**
+	 * Transcode the next chunk of the transmission
+	 * @param sequence Sequence of the chunk
+	 * @param data Chunk sent by the talker
+	 * @param targets Formats to encode, the chunk is only decoded when empty
+	 * @returns The encoded chunk of each target format, formats with no audio yet are missing
+	 */
+	transcode(
+		sequence: number,
+		data: Uint8Array,
+		targets: AudioFormat[],
+	): Promise<Map<AudioFormat, Uint8Array>> {
+		return this.enqueue(async () => {
+			const outputs = new Map<AudioFormat, Uint8Array>();
+			const decoded = await this.decodeChunk(data);
+
+			if (!decoded || decoded.samples.length === 0) return outputs;
+
+			for (const format of targets) {
+				try {
+					const encoder = await this.getEncoder(format, decoded.sampleRate);
+					const output = encoder?.encode(decoded.samples);
+
+					if (output?.length) {
+						outputs.set(format, output);
+						this.remember(`${format}:${sequence}`, output);
+					}
+				} catch (error) {
+					console.error(
+						`Failed to encode chunk ${sequence} of ${this.sessionId} to ${format}:`,
+						error,
+					);
+				}
+			}
+
+			return outputs;
+		});
+	}
+
+	/**
+	 * Get a chunk already transcoded to a format
+	 * @param sequence Sequence of the chunk
+	 * @param format Audio format of the listener
+	 * @returns The transcoded chunk, or undefined if it was not encoded to this format
+	 */
+	getTranscoded(sequence: number, format: AudioFormat): Uint8Array | undefined {
+		return this.transcoded.get(`${format}:${sequence}`);
+	}
+
+	/**
+	 * Release the codecs once the transmission has ended
+	 */
+	free() {
+		this.queue = this.queue.then(() => {
+			this.freed = true;
+			this.decoder?.free();
+			this.decoder = null;
+
+			for (const encoder of this.encoders.values()) {
+				encoder.free();
+			}
+
+			this.encoders.clear();
+			this.transcoded.clear();
+		});
+	}
+
+	/**
+	 * Run a task after the previous ones
+	 */
+	private enqueue<T>(task: () => Promise<T>): Promise<T> {
+		const result = this.queue.then(task);
+
+		this.queue = result.catch(() => undefined);
+
+		return result;
+	}
+
+	/**
+	 * Decode a chunk to mono samples
+	 * @returns The samples, or null if the chunk could not be decoded
+	 */
+	private async decodeChunk(data: Uint8Array): Promise<DecodedChunk | null> {
+		if (this.freed || this.unavailable) return null;
+
+		try {
+			if (!this.decoder) {
+				this.decoder = await this.createDecoder();
+			}
+		} catch (error) {
+			console.error(
+				`Audio codecs unavailable, ${this.sessionId} is not transcoded:`,
+				error,
+			);
+			this.unavailable = true;
+
+			return null;
+		}
+
+		try {
+			return this.decoder.decode(data);
+		} catch (error) {
+			console.error(`Failed to decode a chunk of ${this.sessionId}:`, error);
+
+			return null;
+		}
+	}
+
+	/**
+	 * Create the decoder of the format sent by the talker
+	 */
+	private async createDecoder(): Promise<ChunkDecoder> {
+		switch (this.sourceFormat) {
+			case "pcm":
+				return {
+					decode: (data) => ({
+						samples: pcm16ToFloat32(data),
+						sampleRate: this.sampleRate,
+					}),
+					free: () => {},
+				};
+
+			case "opus": {
+				const opus = await OpusDecoder.create();
+				const demuxer = new WebmOpusDemuxer();
+
+				return {
+					decode: (data) => ({
+						samples: concatSamples(
+							demuxer.push(data).map((packet) => opus.decode(packet)),
+						),
+						sampleRate: OPUS_SAMPLE_RATE,
+					}),
+					free: () => opus.free(),
+				};
+			}
+
+			default:
+				throw new Error(`${this.sourceFormat} audio cannot be decoded`);
+		}
+	}
+
+	/**
+	 * Get the encoder of a format, created with the sample rate of the first decoded samples
+	 * @returns The encoder, or null for a format that cannot be encoded
+	 */
+	private async getEncoder(
+		format: AudioFormat,
+		sampleRate: number,
+	): Promise<ChunkEncoder | null> {
+		const existing = this.encoders.get(format);
+
+		if (existing) return existing;
+
+		let encoder: ChunkEncoder;
+
+		switch (format) {
+			case "opus": {
+				const opus = await OpusEncoder.create(TRANSCODED_OPUS_BITRATE_KBPS);
+				const resampler = new LinearResampler(sampleRate, OPUS_SAMPLE_RATE);
+				const muxer = new WebmOpusMuxer(20, opus.lookahead);
+				// Samples of the next frame, completed by the next chunk
+				let pending = new Float32Array(0);
+
+				encoder = {
+					encode: (samples) => {
+						const buffered = concatSamples([
+							pending,
+							resampler.process(samples),
+						]);
+						const packets: Uint8Array[] = [];
+						let offset = 0;
+
+						for (
+							;
+							offset + OPUS_FRAME_SAMPLES <= buffered.length;
+							offset += OPUS_FRAME_SAMPLES
+						) {
+							packets.push(
+								opus.encode(
+									buffered.subarray(offset, offset + OPUS_FRAME_SAMPLES),
+								),
+							);
+						}
+
+						pending = buffered.slice(offset);
+
+						return muxer.mux(packets);
+					},
+					free: () => opus.free(),
+				};
+				break;
+			}
+
+			case "pcm": {
+				const resampler = new LinearResampler(
+					sampleRate,
+					TRANSCODED_PCM_SAMPLE_RATE,
+				);
+
+				encoder = {
+					encode: (samples) => float32ToPcm16(resampler.process(samples)),
+					free: () => {},
+				};
+				break;
+			}
+
+			default:
+				return null;
+		}
+
+		this.encoders.set(format, encoder);
+
+		return encoder;
+	}
+
+	/**
+	 * Keep a transcoded chunk, forgetting the oldest ones
+	 */
+	private remember(key: string, output: Uint8Array) {
+		this.transcoded.set(key, output);
+
+		if (this.transcoded.size > MAX_TRANSCODED_CHUNKS) {
+			const oldest = this.transcoded.keys().next().value;
+
+			if (oldest !== undefined) {
+				this.transcoded.delete(oldest);
+			}
+		}
+	}
+}
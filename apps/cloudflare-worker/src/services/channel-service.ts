@@ -30,8 +30,26 @@ import {
 	ChannelsListResponse,
 	Coordinates,
 	ChannelParticipant,
+	ChannelActiveWindow,
+	ChannelTransmissionSummary,
 	DeviceInfo,
+	NearbyChannelReason,
+	ParticipantPosition,
+	ParticipantPositionRecord,
 } from "../types/ptt";
+import {
+	haversineDistanceKm,
+	boundingBox,
+	boundingBoxCondition,
+} from "../utils/geo";
+import {
+	validateActiveWindows,
+	isWithinActiveWindows,
+} from "../utils/channel-schedule";
+import {
+	CHECKIN_DEADLINE_ERROR,
+	isValidCheckinDeadline,
+} from "../utils/pilot-checkin";
 
 /**
  * Channel management service for PTT application
@@ -138,7 +156,7 @@ export class ChannelService {
 			// Validate coordinates if provided
 			if (request.coordinates) {
 				if (
-					!this.isValidCoordinates(
+					!ChannelService.isValidCoordinates(
 						request.coordinates.lat,
 						request.coordinates.lon,
 					)
@@ -150,11 +168,29 @@ export class ChannelService {
 			// Validate VHF frequency format if provided
 			if (
 				request.vhf_frequency &&
-				!this.isValidVHFFrequency(request.vhf_frequency)
+				!ChannelService.isValidVHFFrequency(request.vhf_frequency)
 			) {
 				throw new Error("Invalid VHF frequency format");
 			}
 
+			// Validate the schedule if provided
+			if (request.active_windows !== undefined) {
+				const scheduleError = validateActiveWindows(request.active_windows);
+
+				if (scheduleError) {
+					throw new Error(scheduleError);
+				}
+			}
+			if (
+				request.checkin_deadline_minutes !== undefined &&
+				!isValidCheckinDeadline(request.checkin_deadline_minutes)
+			) {
+				throw new Error(CHECKIN_DEADLINE_ERROR);
+			}
+			const activeWindows = request.active_windows?.length
+				? request.active_windows
+				: undefined;
+
 			const channel: PTTChannel = {
 				uuid: uuidLower,
 				name: request.name,
@@ -165,7 +201,11 @@ export class ChannelService {
 				vhf_frequency: request.vhf_frequency,
 				max_participants: request.max_participants || 50,
 				difficulty: request.difficulty,
-				is_active: true,
+				// Scheduled channels start closed outside their windows
+				is_active: isWithinActiveWindows(activeWindows),
+				recording_enabled: request.recording_enabled || false,
+				active_windows: activeWindows,
+				checkin_deadline_minutes: request.checkin_deadline_minutes,
 				created_at: now,
 				created_by: createdBy,
 			};
@@ -177,8 +217,8 @@ export class ChannelService {
 				   INSERT INTO channels (
 					   uuid, name, type, description, coordinates_lat, coordinates_lon,
 					   radius_km, vhf_frequency, max_participants, difficulty, is_active,
-					   created_at, created_by
-				   ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+					   recording_enabled, active_windows, checkin_deadline_minutes, created_at, created_by
+				   ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
 			   `,
 				)
 				.bind(
@@ -193,6 +233,11 @@ export class ChannelService {
 					channel.max_participants,
 					channel.difficulty || null,
 					channel.is_active ? 1 : 0,
+					channel.recording_enabled ? 1 : 0,
+					channel.active_windows
+						? JSON.stringify(channel.active_windows)
+						: null,
+					channel.checkin_deadline_minutes ?? null,
 					channel.created_at,
 					channel.created_by,
 				)
@@ -237,7 +282,7 @@ export class ChannelService {
 			// Validate coordinates if provided
 			if (request.coordinates) {
 				if (
-					!this.isValidCoordinates(
+					!ChannelService.isValidCoordinates(
 						request.coordinates.lat,
 						request.coordinates.lon,
 					)
@@ -249,11 +294,29 @@ export class ChannelService {
 			// Validate VHF frequency format if provided
 			if (
 				request.vhf_frequency &&
-				!this.isValidVHFFrequency(request.vhf_frequency)
+				!ChannelService.isValidVHFFrequency(request.vhf_frequency)
 			) {
 				throw new Error("Invalid VHF frequency format");
 			}
 
+			// Validate the schedule if provided
+			if (request.active_windows !== undefined) {
+				const scheduleError = validateActiveWindows(request.active_windows);
+
+				if (scheduleError) {
+					throw new Error(scheduleError);
+				}
+			}
+			if (
+				request.checkin_deadline_minutes !== undefined &&
+				!isValidCheckinDeadline(request.checkin_deadline_minutes)
+			) {
+				throw new Error(CHECKIN_DEADLINE_ERROR);
+			}
+			const activeWindows = request.active_windows?.length
+				? request.active_windows
+				: undefined;
+
 			const channel: PTTChannel = {
 				uuid,
 				name: request.name,
@@ -264,7 +327,11 @@ export class ChannelService {
 				vhf_frequency: request.vhf_frequency,
 				max_participants: request.max_participants || 50,
 				difficulty: request.difficulty,
-				is_active: true,
+				// Scheduled channels start closed outside their windows
+				is_active: isWithinActiveWindows(activeWindows),
+				recording_enabled: request.recording_enabled || false,
+				active_windows: activeWindows,
+				checkin_deadline_minutes: request.checkin_deadline_minutes,
 				created_at: now,
 				created_by: createdBy,
 			};
@@ -276,8 +343,8 @@ export class ChannelService {
 				INSERT INTO channels (
 					uuid, name, type, description, coordinates_lat, coordinates_lon,
 					radius_km, vhf_frequency, max_participants, difficulty, is_active,
-					created_at, created_by
-				) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+					recording_enabled, active_windows, checkin_deadline_minutes, created_at, created_by
+				) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
 			`,
 				)
 				.bind(
@@ -292,6 +359,11 @@ export class ChannelService {
 					channel.max_participants,
 					channel.difficulty || null,
 					channel.is_active,
+					channel.recording_enabled ? 1 : 0,
+					channel.active_windows
+						? JSON.stringify(channel.active_windows)
+						: null,
+					channel.checkin_deadline_minutes ?? null,
 					channel.created_at,
 					channel.created_by,
 				)
@@ -339,7 +411,7 @@ export class ChannelService {
 					`
 				   SELECT uuid, name, type, description, coordinates_lat, coordinates_lon,
 						  radius_km, vhf_frequency, max_participants, difficulty, is_active,
-						  created_at, created_by, updated_at, updated_by
+						  active_windows, checkin_deadline_minutes, created_at, created_by, updated_at, updated_by
 				   FROM channels WHERE uuid = ?
 			   `,
 				)
@@ -383,7 +455,7 @@ export class ChannelService {
 				SELECT 
 					c.uuid, c.name, c.type, c.description, c.coordinates_lat, c.coordinates_lon,
 					c.radius_km, c.vhf_frequency, c.max_participants, c.difficulty, c.is_active,
-					c.created_at, c.created_by, c.updated_at, c.updated_by,
+					c.active_windows, c.checkin_deadline_minutes, c.created_at, c.created_by, c.updated_at, c.updated_by,
 					COUNT(DISTINCT cp.user_id) as current_participants,
 					COUNT(DISTINCT CASE WHEN DATE(cm.timestamp) = DATE('now') THEN cm.user_id END) as total_participants_today,
 					COUNT(CASE WHEN cm.message_type = 'audio_start' AND DATE(cm.timestamp) = DATE('now') THEN 1 END) as total_transmissions_today,
@@ -408,14 +480,17 @@ export class ChannelService {
 				params.push(type);
 			}
 
-			// Location-based filtering using Haversine formula approximation
+			// Location-based prefiltering on the coordinates index,
+			// the exact distance is computed once the candidates are loaded
 			if (location && radiusKm) {
-				conditions.push(`
-					(6371 * acos(cos(radians(?)) * cos(radians(c.coordinates_lat)) * 
-					cos(radians(c.coordinates_lon) - radians(?)) + sin(radians(?)) * 
-					sin(radians(c.coordinates_lat)))) <= ?
-				`);
-				params.push(location.lat, location.lon, location.lat, radiusKm);
+				const box = boundingBoxCondition(
+					boundingBox(location, radiusKm),
+					"c.coordinates_lat",
+					"c.coordinates_lon",
+				);
+
+				conditions.push(box.sql);
+				params.push(...box.params);
 			}
 
 			if (conditions.length > 0) {
@@ -425,7 +500,7 @@ export class ChannelService {
 			query += `
 				GROUP BY c.uuid, c.name, c.type, c.description, c.coordinates_lat, c.coordinates_lon,
 				         c.radius_km, c.vhf_frequency, c.max_participants, c.difficulty, c.is_active,
-				         c.created_at, c.created_by, c.updated_at, c.updated_by
+				         c.active_windows, c.checkin_deadline_minutes, c.created_at, c.created_by, c.updated_at, c.updated_by
 				ORDER BY c.type = 'emergency' DESC, c.name ASC
 			`;
 
@@ -450,6 +525,10 @@ export class ChannelService {
 					return { ...channel, ...stats };
 				}) || [];
 
+			if (location) {
+				return this.sortChannelsByDistance(channels, location, radiusKm);
+			}
+
 			const activeCount = channels.filter((c) => c.is_active).length;
 
 			return {
@@ -468,6 +547,193 @@ export class ChannelService {
 		}
 	}
 
+	/**
+	 * Add the exact distance to a location, drop the channels outside the radius
+	 * and sort the channels by distance (channels without coordinates last)
+	 */
+	private sortChannelsByDistance(
+		channels: (PTTChannel & ChannelStats)[],
+		location: Coordinates,
+		radiusKm?: number,
+	): ChannelsListResponse {
+		const located = channels
+			.map((channel) => ({
+				...channel,
+				distance_km: channel.coordinates
+					? Math.round(
+							haversineDistanceKm(location, channel.coordinates) * 100,
+						) / 100
+					: undefined,
+			}))
+			.filter(
+				(channel) =>
+					!radiusKm ||
+					(channel.distance_km !== undefined &&
+						channel.distance_km <= radiusKm),
+			)
+			.sort(
+				(a, b) => (a.distance_km ?? Infinity) - (b.distance_km ?? Infinity),
+			);
+
+		return {
+			channels: located,
+			total_count: located.length,
+			active_count: located.filter((c) => c.is_active).length,
+		};
+	}
+
+	/**
+	 * Resolve the channels relevant for a pilot position, ranked by relevance:
+	 * site_local channels whose radius contains the position (nearest first),
+	 * then the nearest emergency channel, then the cross_country channels covering the position
+	 * @param location Pilot position
+	 * @returns Ranked channels with their distance to the position
+	 */
+	async resolveNearbyChannels(location: Coordinates): Promise<
+		{
+			reason: NearbyChannelReason;
+			distance_km: number | null;
+			channel: PTTChannel;
+		}[]
+	> {
+		try {
+			const results = await this.db
+				.prepare(
+					`
+				   SELECT uuid, name, type, description, coordinates_lat, coordinates_lon,
+						  radius_km, vhf_frequency, max_participants, difficulty, is_active,
+						  recording_enabled, active_windows, checkin_deadline_minutes, created_at, created_by, updated_at, updated_by
+				   FROM channels
+				   WHERE is_active = ? AND type IN ('site_local', 'emergency', 'cross_country')
+				 `,
+				)
+				.bind(true)
+				.all();
+
+			const candidates = (results.results || []).map((row: any) => {
+				const channel = this.mapRowToChannel(row);
+
+				return {
+					channel,
+					distance_km: channel.coordinates
+						? Math.round(
+								haversineDistanceKm(location, channel.coordinates) * 100,
+							) / 100
+						: null,
+				};
+			});
+
+			// Channels without coordinates sort after the located ones
+			const byDistance = (
+				a: { distance_km: number | null },
+				b: { distance_km: number | null },
+			) => (a.distance_km ?? Infinity) - (b.distance_km ?? Infinity);
+			const isCovering = (candidate: {
+				channel: PTTChannel;
+				distance_km: number | null;
+			}) =>
+				candidate.distance_km !== null &&
+				candidate.distance_km <= (candidate.channel.radius_km ?? 0);
+
+			const siteChannels = candidates
+				.filter((c) => c.channel.type === "site_local" && isCovering(c))
+				.sort(byDistance);
+			const nearestEmergency = candidates
+				.filter((c) => c.channel.type === "emergency")
+				.sort(byDistance)
+				.slice(0, 1);
+			// A cross_country channel without coordinates is not tied to a region
+			const crossCountryChannels = candidates
+				.filter(
+					(c) =>
+						c.channel.type === "cross_country" &&
+						(c.distance_km === null || isCovering(c)),
+				)
+				.sort(byDistance);
+
+			return [
+				...siteChannels.map((c) => ({
+					reason: "inside_site_radius" as const,
+					...c,
+				})),
+				...nearestEmergency.map((c) => ({
+					reason: "nearest_emergency" as const,
+					...c,
+				})),
+				...crossCountryChannels.map((c) => ({
+					reason: "cross_country" as const,
+					...c,
+				})),
+			];
+		} catch (error) {
+			console.error("Error resolving nearby channels:", error);
+
+			return [];
+		}
+	}
+
+	/**
+	 * Get the channels an emergency transmission must be mirrored to:
+	 * the regional emergency channel (the nearest one, every emergency channel when the position
+	 * is unknown) and every active channel whose radius covers the talker position
+	 * @param originUuid Channel where the emergency transmission started, never returned
+	 * @param location Talker position
+	 * @returns Channels to relay the transmission to
+	 */
+	async getEmergencyRelayChannels(
+		originUuid: string,
+		location?: Coordinates,
+	): Promise<PTTChannel[]> {
+		try {
+			const results = await this.db
+				.prepare(
+					`
+				   SELECT uuid, name, type, description, coordinates_lat, coordinates_lon,
+						  radius_km, vhf_frequency, max_participants, difficulty, is_active,
+						  recording_enabled, active_windows, checkin_deadline_minutes, created_at, created_by, updated_at, updated_by
+				   FROM channels
+				   WHERE is_active = ? AND uuid != ?
+				 `,
+				)
+				.bind(true, originUuid.toLowerCase())
+				.all();
+
+			const channels = (results.results || []).map((row: any) =>
+				this.mapRowToChannel(row),
+			);
+			const emergencyChannels = channels.filter(
+				(channel) => channel.type === "emergency",
+			);
+
+			if (!location) {
+				return emergencyChannels;
+			}
+
+			const distanceTo = (channel: PTTChannel) =>
+				channel.coordinates
+					? haversineDistanceKm(location, channel.coordinates)
+					: Infinity;
+			// Channels without coordinates sort after the located ones
+			const nearestEmergency = emergencyChannels
+				.sort((a, b) => distanceTo(a) - distanceTo(b))
+				.slice(0, 1);
+			const coveringChannels = channels.filter(
+				(channel) => distanceTo(channel) <= (channel.radius_km ?? 0),
+			);
+
+			return [
+				...nearestEmergency,
+				...coveringChannels.filter(
+					(channel) => !nearestEmergency.includes(channel),
+				),
+			];
+		} catch (error) {
+			console.error("Error getting emergency relay channels:", error);
+
+			return [];
+		}
+	}
+
 	/**
 	 * Update an existing channel
 	 * @param uuid Channel UUID
@@ -511,7 +777,7 @@ export class ChannelService {
 			if (request.coordinates !== undefined) {
 				if (
 					request.coordinates &&
-					this.isValidCoordinates(
+					ChannelService.isValidCoordinates(
 						request.coordinates.lat,
 						request.coordinates.lon,
 					)
@@ -531,7 +797,7 @@ export class ChannelService {
 			if (request.vhf_frequency !== undefined) {
 				if (
 					request.vhf_frequency &&
-					!this.isValidVHFFrequency(request.vhf_frequency)
+					!ChannelService.isValidVHFFrequency(request.vhf_frequency)
 				) {
 					throw new Error("Invalid VHF frequency format");
 				}
@@ -554,6 +820,50 @@ export class ChannelService {
 				params.push(request.is_active);
 			}
 
+			if (request.recording_enabled !== undefined) {
+				updateFields.push("recording_enabled = ?");
+				params.push(request.recording_enabled ? 1 : 0);
+			}
+
+			// The cron trigger applies the new schedule to is_active
+			if (request.active_windows !== undefined) {
+				if (
+					request.active_windows === null ||
+					request.active_windows.length === 0
+				) {
+					updateFields.push("active_windows = NULL");
+
+					// A channel without schedule is always available
+					if (
+						existingChannel.active_windows &&
+						request.is_active === undefined
+					) {
+						updateFields.push("is_active = ?");
+						params.push(true);
+					}
+				} else {
+					const scheduleError = validateActiveWindows(request.active_windows);
+
+					if (scheduleError) {
+						throw new Error(scheduleError);
+					}
+					updateFields.push("active_windows = ?");
+					params.push(JSON.stringify(request.active_windows));
+				}
+			}
+
+			// Flights already tracked keep the deadline computed when they started
+			if (request.checkin_deadline_minutes !== undefined) {
+				if (
+					request.checkin_deadline_minutes !== null &&
+					!isValidCheckinDeadline(request.checkin_deadline_minutes)
+				) {
+					throw new Error(CHECKIN_DEADLINE_ERROR);
+				}
+				updateFields.push("checkin_deadline_minutes = ?");
+				params.push(request.checkin_deadline_minutes);
+			}
+
 			if (updateFields.length === 0) {
 				// No fields to update
 				return existingChannel;
@@ -613,12 +923,12 @@ export class ChannelService {
 				return false;
 			}
 
-			// Soft delete: set is_active to false
+			// Soft delete: set is_active to false, and drop the schedule so the cron does not reopen it
 			const result = await this.db
 				.prepare(
 					`
 				   UPDATE channels 
-				   SET is_active = ?, updated_at = ?, updated_by = ?
+				   SET is_active = ?, active_windows = NULL, updated_at = ?, updated_by = ?
 				   WHERE uuid = ?
 			   `,
 				)
@@ -692,6 +1002,123 @@ export class ChannelService {
 		}
 	}
 
+	/**
+	 * Get the channels having activation windows
+	 * @returns Scheduled channels, deleted channels have no schedule
+	 */
+	async getScheduledChannels(): Promise<PTTChannel[]> {
+		try {
+			const results = await this.db
+				.prepare(
+					`
+				   SELECT uuid, name, type, description, coordinates_lat, coordinates_lon,
+						  radius_km, vhf_frequency, max_participants, difficulty, is_active,
+						  recording_enabled, active_windows, checkin_deadline_minutes, created_at, created_by, updated_at, updated_by
+				   FROM channels
+				   WHERE active_windows IS NOT NULL
+				 `,
+				)
+				.all();
+
+			return (results.results || []).map((row: any) =>
+				this.mapRowToChannel(row),
+			);
+		} catch (error) {
+			console.error("Error getting scheduled channels:", error);
+
+			return [];
+		}
+	}
+
+	/**
+	 * Open or close a scheduled channel
+	 * @param uuid Channel UUID
+	 * @param isActive New state of the channel
+	 * @returns Success status
+	 */
+	async setChannelActive(uuid: string, isActive: boolean): Promise<boolean> {
+		try {
+			const uuidLower = uuid.toLowerCase();
+			const result = await this.db
+				.prepare(
+					`
+				   UPDATE channels
+				   SET is_active = ?, updated_at = ?, updated_by = ?
+				   WHERE uuid = ?
+			   `,
+				)
+				.bind(isActive, this.getCurrentTimestamp(), "system", uuidLower)
+				.run();
+
+			if (!result.success) {
+				return false;
+			}
+
+			await this.invalidateChannelCache(uuidLower);
+			await this.logChannelEvent(
+				uuidLower,
+				isActive ? "channel_opened" : "channel_closed",
+				"system",
+				{ reason: "schedule" },
+			);
+
+			return true;
+		} catch (error) {
+			console.error("Error setting channel state:", error);
+
+			return false;
+		}
+	}
+
+	/**
+	 * Remove every participant of a channel, used when a scheduled channel closes
+	 * @param uuid Channel UUID
+	 * @returns Number of participants removed
+	 */
+	async removeAllParticipants(uuid: string): Promise<number> {
+		try {
+			const uuidLower = uuid.toLowerCase();
+			const result = await this.db
+				.prepare("DELETE FROM channel_participants WHERE channel_uuid = ?")
+				.bind(uuidLower)
+				.run();
+
+			await this.invalidateChannelCache(uuidLower);
+
+			return result.meta?.changes || 0;
+		} catch (error) {
+			console.error("Error removing channel participants:", error);
+
+			return 0;
+		}
+	}
+
+	/**
+	 * Remove every device of a participant from a channel, used when a moderator kicks them
+	 * @param uuid Channel UUID
+	 * @param userId Participant user ID
+	 * @returns Number of devices removed
+	 */
+	async removeParticipant(uuid: string, userId: string): Promise<number> {
+		try {
+			const uuidLower = uuid.toLowerCase();
+			const result = await this.db
+				.prepare(
+					"DELETE FROM channel_participants WHERE channel_uuid = ? AND user_id = ?",
+				)
+				.bind(uuidLower, userId)
+				.run();
+
+			await this.invalidateChannelCache(uuidLower);
+
+			return result.meta?.changes || 0;
+		} catch (error) {
+			console.error("Error removing channel participant:", error);
+
+			return 0;
+		}
+	}
+
 	/**
 	 * Get channel statistics for admin dashboard
 	 * @param uuid Channel UUID
@@ -761,19 +1188,39 @@ export class ChannelService {
 	/**
 	 * Validate geographic coordinates
 	 */
-	private isValidCoordinates(lat: number, lon: number): boolean {
+	static isValidCoordinates(lat: number, lon: number): boolean {
 		return lat >= -90 && lat <= 90 && lon >= -180 && lon <= 180;
 	}
 
 	/**
 	 * Validate VHF frequency format (e.g., "144.150", "143.9875")
 	 */
-	private isValidVHFFrequency(frequency: string): boolean {
+	static isValidVHFFrequency(frequency: string): boolean {
 		const vhfPattern = /^1[4-7]\d\.\d{3,4}$/;
 
 		return vhfPattern.test(frequency);
 	}
 
+	/**
+	 * Parse the JSON schedule stored on a channel row
+	 */
+	private parseActiveWindows(
+		value: string | null,
+	): ChannelActiveWindow[] | undefined {
+		if (!value) {
+			return undefined;
+		}
+		try {
+			const windows = JSON.parse(value);
+
+			return Array.isArray(windows) && windows.length > 0 ? windows : undefined;
+		} catch (error) {
+			console.error("Invalid channel active_windows:", error);
+
+			return undefined;
+		}
+	}
+
 	/**
 	 * Map database row to PTTChannel object
 	 */
@@ -795,6 +1242,9 @@ export class ChannelService {
 			max_participants: row.max_participants,
 			difficulty: row.difficulty,
 			is_active: Boolean(row.is_active),
+			recording_enabled: Boolean(row.recording_enabled),
+			active_windows: this.parseActiveWindows(row.active_windows),
+			checkin_deadline_minutes: row.checkin_deadline_minutes ?? undefined,
 			created_at: row.created_at,
 			created_by: row.created_by,
 			updated_at: row.updated_at,
@@ -836,6 +1286,14 @@ export class ChannelService {
 				return { success: false, error: "Channel is not active" };
 			}
 
+			// The cron trigger closes scheduled channels within a minute, check the exact time here
+			if (!isWithinActiveWindows(channel.active_windows)) {
+				return {
+					success: false,
+					error: "Channel is outside its active windows",
+				};
+			}
+
 			// Check current participant count
 			const currentParticipants = await this.db
 				.prepare(
@@ -1073,6 +1531,76 @@ export class ChannelService {
 		}
 	}
 
+	/**
+	 * Get transmissions of a channel started since a given time
+	 * Used by clients to catch up on missed transmissions after reconnecting
+	 * @param channelUuid Channel UUID
+	 * @param since ISO timestamp of the oldest transmission start to return
+	 * @param limit Maximum number of transmissions to return
+	 * @param listenerUserId Requesting user, private calls are only returned to their talker and
+	 *   targets. All transmissions are returned when omitted (administrators).
+	 * @returns Transmissions ordered by start time, oldest first
+	 */
+	async getChannelTransmissions(
+		channelUuid: string,
+		since: string,
+		limit: number = 50,
+		listenerUserId?: string,
+	): Promise<ChannelTransmissionSummary[]> {
+		try {
+			const privateCallFilter = listenerUserId
+				? `AND (
+					target_user_ids IS NULL OR user_id = ?
+					OR EXISTS (SELECT 1 FROM json_each(target_user_ids) WHERE json_each.value = ?)
+				)`
+				: "";
+			const results = await this.db
+				.prepare(
+					`
+				SELECT
+					session_id, user_id, username, start_time, end_time,
+					duration_seconds, audio_format, is_emergency, recording_key, target_user_ids
+				FROM transmission_history
+				WHERE channel_uuid = ? AND start_time >= ?
+				${privateCallFilter}
+				ORDER BY start_time ASC
+				LIMIT ?
+			`,
+				)
+				.bind(
+					channelUuid.toLowerCase(),
+					since,
+					...(listenerUserId ? [listenerUserId, listenerUserId] : []),
+					limit,
+				)
+				.all();
+
+			return results.results.map((row: any) => ({
+				session_id: row.session_id as string,
+				user_id: row.user_id as string,
+				username: row.username as string,
+				start_time: row.start_time as string,
+				end_time: (row.end_time as string) || undefined,
+				duration_seconds:
+					row.duration_seconds !== null
+						? (row.duration_seconds as number)
+						: undefined,
+				audio_format: row.audio_format as any,
+				is_emergency: Boolean(row.is_emergency),
+				target_user_ids: row.target_user_ids
+					? (JSON.parse(row.target_user_ids) as string[])
+					: undefined,
+				playback_url: row.recording_key
+					? `/api/v1/transmissions/${encodeURIComponent(row.session_id)}/audio`
+					: null,
+			}));
+		} catch (error) {
+			console.error("Error getting channel transmissions:", error);
+
+			return [];
+		}
+	}
+
 	/**
 	 * Update ephemeral push token for a channel participant
 	 * @param channelUuid Channel UUID
@@ -1179,6 +1707,168 @@ export class ChannelService {
 		}
 	}
 
+	/**
+	 * Record a participant position in the channel track and update its location,
+	 * positions older than the retention window are purged
+	 * @param channelUuid Channel UUID
+	 * @param userId User ID
+	 * @param username Username stored with the position
+	 * @param position Position reported by the device
+	 * @param retentionHours How long positions are kept
+	 * @returns Success status
+	 */
+	async recordParticipantPosition(
+		channelUuid: string,
+		userId: string,
+		username: string,
+		position: ParticipantPosition,
+		retentionHours: number,
+	): Promise<{ success: boolean; error?: string }> {
+		try {
+			const uuidLower = channelUuid.toLowerCase();
+			const threshold = new Date(
+				Date.now() - retentionHours * 60 * 60 * 1000,
+			).toISOString();
+
+			await this.db.batch([
+				this.db
+					.prepare(
+						`
+					   INSERT INTO participant_positions (
+						   channel_uuid, user_id, username, lat, lon, altitude_m,
+						   ground_speed_kmh, heading_deg, timestamp_ms, recorded_at
+					   ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+				   `,
+					)
+					.bind(
+						uuidLower,
+						userId,
+						username,
+						position.lat,
+						position.lon,
+						position.altitude_m ?? null,
+						position.ground_speed_kmh ?? null,
+						position.heading_deg ?? null,
+						position.timestamp_ms,
+						this.getCurrentTimestamp(),
+					),
+				this.db
+					.prepare(
+						`
+					   DELETE FROM participant_positions
+					   WHERE channel_uuid = ? AND recorded_at < ?
+				   `,
+					)
+					.bind(uuidLower, threshold),
+			]);
+
+			return await this.updateParticipantLocation(uuidLower, userId, {
+				lat: position.lat,
+				lon: position.lon,
+			});
+		} catch (error) {
+			console.error("Error recording participant position:", error);
+
+			return { success: false, error: "Failed to record participant position" };
+		}
+	}
+
+	/**
+	 * Get the positions of the channel track recorded since a given time
+	 * The positions of the users who stopped sharing their location are left out
+	 * @param channelUuid Channel UUID
+	 * @param since ISO timestamp of the oldest position to return
+	 * @param limit Maximum number of positions to return
+	 * @returns Positions ordered by recording time, oldest first
+	 */
+	async getChannelPositions(
+		channelUuid: string,
+		since: string,
+		limit: number = 500,
+	): Promise<ParticipantPositionRecord[]> {
+		try {
+			const results = await this.db
+				.prepare(
+					`
+				   SELECT p.user_id, p.username, p.lat, p.lon, p.altitude_m, p.ground_speed_kmh,
+						  p.heading_deg, p.timestamp_ms, p.recorded_at
+				   FROM participant_positions p
+				   LEFT JOIN user_preferences up ON up.user_id = p.user_id
+				   WHERE p.channel_uuid = ? AND p.recorded_at >= ?
+				   AND COALESCE(up.share_location, 1) = 1
+				   ORDER BY p.recorded_at ASC
+				   LIMIT ?
+			   `,
+				)
+				.bind(channelUuid.toLowerCase(), since, limit)
+				.all();
+
+			return (results.results || []).map((row: any) => ({
+				user_id: row.user_id,
+				username: row.username,
+				lat: row.lat,
+				lon: row.lon,
+				altitude_m: row.altitude_m ?? undefined,
+				ground_speed_kmh: row.ground_speed_kmh ?? undefined,
+				heading_deg: row.heading_deg ?? undefined,
+				timestamp_ms: row.timestamp_ms,
+				recorded_at: row.recorded_at,
+			}));
+		} catch (error) {
+			console.error("Error getting channel positions:", error);
+
+			return [];
+		}
+	}
+
+	/**
+	 * Validate a position reported by a device
+	 * @returns Error message, or null when the position is valid
+	 */
+	static validatePosition(
+		position: Partial<ParticipantPosition>,
+	): string | null {
+		if (
+			typeof position.lat !== "number" ||
+			typeof position.lon !== "number" ||
+			!ChannelService.isValidCoordinates(position.lat, position.lon)
+		) {
+			return "Invalid coordinates provided";
+		}
+
+		for (const field of [
+			"altitude_m",
+			"ground_speed_kmh",
+			"heading_deg",
+			"timestamp_ms",
+		] as const) {
+			const value = position[field];
+
+			if (
+				value !== undefined &&
+				(typeof value !== "number" || !Number.isFinite(value))
+			) {
+				return `Invalid ${field} - expected a number`;
+			}
+		}
+
+		if (
+			position.ground_speed_kmh !== undefined &&
+			position.ground_speed_kmh < 0
+		) {
+			return "Invalid ground_speed_kmh - must not be negative";
+		}
+
+		if (
+			position.heading_deg !== undefined &&
+			(position.heading_deg < 0 || position.heading_deg > 360)
+		) {
+			return "Invalid heading_deg - must be between 0 and 360";
+		}
+
+		return null;
+	}
+
 	/**
 	 * Log channel-related events for audit trail
 	 * Uses 'text' message type for system events to comply with DB constraints
@@ -1198,6 +1888,8 @@ export class ChannelService {
 				channel_updated: "text",
 				channel_deleted: "text",
 				channel_hard_deleted: "text",
+				channel_opened: "text",
+				channel_closed: "text",
 			};
 
 			const messageType = eventTypeToMessageType[eventType] || "text";
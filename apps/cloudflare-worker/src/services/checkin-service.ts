@@ -0,0 +1,465 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import {
+	ChannelActiveWindow,
+	ChannelType,
+	Coordinates,
+	PilotCheckin,
+	PilotCheckinMethod,
+	PilotCheckinStatus,
+} from "../types/ptt";
+import {
+	CHECKIN_REARM_MINUTES,
+	computeCheckinDeadline,
+} from "../utils/pilot-checkin";
+
+const CHECKIN_METHODS: PilotCheckinMethod[] = ["voice", "button"];
+
+/** Landed pilots stay on the check-in board of the channel during this delay */
+const LANDED_DISPLAY_HOURS = 12;
+
+/**
+ * Pilot check-in service
+ * Tracks the flights of the pilots on site_local channels until they check in landed, and
+ * finds the pilots who missed their deadline. The live side (flight detection, alerts) is done
+ * by the channel Durable Object, the overdue sweep by the cron trigger.
+ */
+export class CheckinService {
+	private db: D1Database;
+
+	constructor(db: D1Database) {
+		this.db = db;
+	}
+
+	/**
+	 * Validate a landed check-in received over the REST API or the WebSocket
+	 * @returns The check-in to record, or the validation error
+	 */
+	static resolveCheckinRequest(request: any): {
+		checkin?: {
+			user_id?: string;
+			username?: string;
+			via?: PilotCheckinMethod;
+			location?: Coordinates;
+		};
+		error?: string;
+	} {
+		if (!request || typeof request !== "object") {
+			return { error: "Invalid check-in" };
+		}
+
+		if (
+			request.user_id !== undefined &&
+			(typeof request.user_id !== "string" || !request.user_id)
+		) {
+			return { error: "Invalid user_id" };
+		}
+
+		if (
+			request.username !== undefined &&
+			(typeof request.username !== "string" || !request.username.trim())
+		) {
+			return { error: "Invalid username" };
+		}
+
+		if (request.via !== undefined && !CHECKIN_METHODS.includes(request.via)) {
+			return {
+				error: `Valid via is required (${CHECKIN_METHODS.join(", ")})`,
+			};
+		}
+
+		const location =
+			request.location &&
+			Number.isFinite(request.location.lat) &&
+			Number.isFinite(request.location.lon) &&
+			Math.abs(request.location.lat) <= 90 &&
+			Math.abs(request.location.lon) <= 180
+				? { lat: request.location.lat, lon: request.location.lon }
+				: undefined;
+
+		if (request.location !== undefined && !location) {
+			return { error: "Invalid location" };
+		}
+
+		return {
+			checkin: {
+				user_id: request.user_id,
+				username: request.username?.trim(),
+				via: request.via,
+				location,
+			},
+		};
+	}
+
+	/**
+	 * Start tracking the flight of a pilot on a site_local channel.
+	 * Nothing is done when the pilot is already tracked, or checked in landed less than
+	 * CHECKIN_REARM_MINUTES ago.
+	 * @param channelUuid Channel UUID
+	 * @param pilot Pilot who started transmitting or moving
+	 * @param now Start of the flight
+	 * @returns The new flight, or null when no flight was started
+	 */
+	async startFlight(
+		channelUuid: string,
+		pilot: { user_id: string; username: string },
+		now: Date = new Date(),
+	): Promise<PilotCheckin | null> {
+		const uuidLower = channelUuid.toLowerCase();
+
+		try {
+			const channel = await this.getChannelCheckinSettings(uuidLower);
+
+			if (channel?.type !== "site_local") {
+				return null;
+			}
+
+			const id = crypto.randomUUID();
+			const deadline = computeCheckinDeadline(
+				now,
+				channel.checkin_deadline_minutes,
+				channel.active_windows,
+			);
+			const rearmThreshold = new Date(
+				now.getTime() - CHECKIN_REARM_MINUTES * 60 * 1000,
+			).toISOString();
+
+			const result = await this.db
+				.prepare(
+					`INSERT INTO pilot_checkins (
+						id, channel_uuid, user_id, username, status, flying_since, deadline_at, updated_at
+					)
+					SELECT ?, ?, ?, ?, 'flying', ?, ?, ?
+					WHERE NOT EXISTS (
+						SELECT 1 FROM pilot_checkins
+						WHERE channel_uuid = ? AND user_id = ?
+						  AND (status != 'landed' OR landed_at >= ?)
+					)`,
+				)
+				.bind(
+					id,
+					uuidLower,
+					pilot.user_id,
+					pilot.username,
+					now.toISOString(),
+					deadline.toISOString(),
+					now.toISOString(),
+					uuidLower,
+					pilot.user_id,
+					rearmThreshold,
+				)
+				.run();
+
+			if (!result.meta.changes) {
+				return null;
+			}
+
+			return await this.getCheckin(id);
+		} catch (error) {
+			console.error("Error starting pilot flight:", error);
+
+			return null;
+		}
+	}
+
+	/**
+	 * Record that a pilot landed.
+	 * The tracked flight (flying or overdue) is closed; without tracked flight the landing is
+	 * recorded on its own, unless the pilot already checked in landed recently.
+	 * @param channelUuid Channel UUID
+	 * @param pilot Pilot who landed
+	 * @param details How the landing was reported, and the moderator who confirmed it
+	 * @returns The check-in and the status of the flight before the check-in, or the error
+	 */
+	async checkIn(
+		channelUuid: string,
+		pilot: { user_id: string; username: string },
+		details: {
+			via: PilotCheckinMethod;
+			checked_in_by?: string;
+			location?: Coordinates;
+		},
+	): Promise<{
+		success: boolean;
+		checkin?: PilotCheckin;
+		previous_status?: PilotCheckinStatus;
+		error?: string;
+	}> {
+		const uuidLower = channelUuid.toLowerCase();
+
+		try {
+			const channel = await this.getChannelCheckinSettings(uuidLower);
+
+			if (!channel) {
+				return { success: false, error: "Channel not found" };
+			}
+
+			if (channel.type !== "site_local") {
+				return {
+					success: false,
+					error: "Landing check-ins are only tracked on site_local channels",
+				};
+			}
+
+			const now = new Date();
+			const rearmThreshold = new Date(
+				now.getTime() - CHECKIN_REARM_MINUTES * 60 * 1000,
+			).toISOString();
+			const latest = await this.db
+				.prepare(
+					`SELECT * FROM pilot_checkins
+					 WHERE channel_uuid = ? AND user_id = ?
+					   AND (status != 'landed' OR landed_at >= ?)
+					 ORDER BY updated_at DESC LIMIT 1`,
+				)
+				.bind(uuidLower, pilot.user_id, rearmThreshold)
+				.first();
+
+			if (latest?.status === "landed") {
+				return {
+					success: true,
+					checkin: this.mapRowToCheckin(latest),
+					previous_status: "landed",
+				};
+			}
+
+			const id = (latest?.id as string | undefined) || crypto.randomUUID();
+
+			if (latest) {
+				await this.db
+					.prepare(
+						`UPDATE pilot_checkins SET
+							status = 'landed', landed_at = ?, landed_via = ?, checked_in_by = ?,
+							location_lat = ?, location_lon = ?, updated_at = ?
+						 WHERE id = ?`,
+					)
+					.bind(
+						now.toISOString(),
+						details.via,
+						details.checked_in_by || null,
+						details.location?.lat ?? null,
+						details.location?.lon ?? null,
+						now.toISOString(),
+						id,
+					)
+					.run();
+			} else {
+				await this.db
+					.prepare(
+						`INSERT INTO pilot_checkins (
+							id, channel_uuid, user_id, username, status, landed_at, landed_via,
+							checked_in_by, location_lat, location_lon, updated_at
+						) VALUES (?, ?, ?, ?, 'landed', ?, ?, ?, ?, ?, ?)`,
+					)
+					.bind(
+						id,
+						uuidLower,
+						pilot.user_id,
+						pilot.username,
+						now.toISOString(),
+						details.via,
+						details.checked_in_by || null,
+						details.location?.lat ?? null,
+						details.location?.lon ?? null,
+						now.toISOString(),
+					)
+					.run();
+			}
+
+			const checkin = await this.getCheckin(id);
+
+			return checkin
+				? {
+						success: true,
+						checkin,
+						previous_status: latest?.status as PilotCheckinStatus | undefined,
+					}
+				: { success: false, error: "Failed to record check-in" };
+		} catch (error) {
+			console.error("Error recording pilot check-in:", error);
+
+			return { success: false, error: "Failed to record check-in" };
+		}
+	}
+
+	/**
+	 * Get the check-in board of a channel: the flying and overdue pilots, and the recent landings
+	 * @param channelUuid Channel UUID
+	 * @returns Overdue pilots first, then flying pilots by deadline, then landings, most recent first
+	 */
+	async getChannelCheckins(channelUuid: string): Promise<PilotCheckin[]> {
+		try {
+			const since = new Date(
+				Date.now() - LANDED_DISPLAY_HOURS * 60 * 60 * 1000,
+			).toISOString();
+			const result = await this.db
+				.prepare(
+					`SELECT * FROM pilot_checkins
+					 WHERE channel_uuid = ? AND (status != 'landed' OR landed_at >= ?)
+					 ORDER BY CASE status WHEN 'overdue' THEN 0 WHEN 'flying' THEN 1 ELSE 2 END,
+						deadline_at ASC, updated_at DESC`,
+				)
+				.bind(channelUuid.toLowerCase(), since)
+				.all();
+
+			return result.results.map((row) => this.mapRowToCheckin(row));
+		} catch (error) {
+			console.error("Error getting channel check-ins:", error);
+
+			return [];
+		}
+	}
+
+	/**
+	 * Get the flights whose check-in deadline has passed, on every channel
+	 * @param now Current time
+	 * @returns Flights still flying after their deadline
+	 */
+	async getOverdueFlights(now: Date = new Date()): Promise<PilotCheckin[]> {
+		try {
+			const result = await this.db
+				.prepare(
+					`SELECT * FROM pilot_checkins
+					 WHERE status = 'flying' AND deadline_at <= ?
+					 ORDER BY deadline_at ASC`,
+				)
+				.bind(now.toISOString())
+				.all();
+
+			return result.results.map((row) => this.mapRowToCheckin(row));
+		} catch (error) {
+			console.error("Error getting overdue flights:", error);
+
+			return [];
+		}
+	}
+
+	/**
+	 * Mark a flight as overdue, unless the pilot checked in meanwhile
+	 * @param id Check-in ID
+	 * @returns The overdue check-in, or null when the flight is no longer flying
+	 */
+	async markOverdue(id: string): Promise<PilotCheckin | null> {
+		try {
+			const result = await this.db
+				.prepare(
+					`UPDATE pilot_checkins SET status = 'overdue', updated_at = ?
+					 WHERE id = ? AND status = 'flying'`,
+				)
+				.bind(new Date().toISOString(), id)
+				.run();
+
+			return result.meta.changes ? await this.getCheckin(id) : null;
+		} catch (error) {
+			console.error("Error marking flight overdue:", error);
+
+			return null;
+		}
+	}
+
+	/**
+	 * Link an overdue flight to the incident raised for it
+	 * @param id Check-in ID
+	 * @param incidentId Incident ID
+	 */
+	async attachIncident(id: string, incidentId: string): Promise<void> {
+		try {
+			await this.db
+				.prepare("UPDATE pilot_checkins SET incident_id = ? WHERE id = ?")
+				.bind(incidentId, id)
+				.run();
+		} catch (error) {
+			console.error("Error linking overdue flight to its incident:", error);
+		}
+	}
+
+	/**
+	 * Get a check-in by ID
+	 */
+	async getCheckin(id: string): Promise<PilotCheckin | null> {
+		const row = await this.db
+			.prepare("SELECT * FROM pilot_checkins WHERE id = ?")
+			.bind(id)
+			.first();
+
+		return row ? this.mapRowToCheckin(row) : null;
+	}
+
+	/**
+	 * Read the channel settings driving the check-ins
+	 */
+	private async getChannelCheckinSettings(channelUuid: string): Promise<{
+		type: ChannelType;
+		checkin_deadline_minutes?: number;
+		active_windows?: ChannelActiveWindow[];
+	} | null> {
+		const row = await this.db
+			.prepare(
+				"SELECT type, checkin_deadline_minutes, active_windows FROM channels WHERE uuid = ?",
+			)
+			.bind(channelUuid)
+			.first<{
+				type: ChannelType;
+				checkin_deadline_minutes: number | null;
+				active_windows: string | null;
+			}>();
+
+		if (!row) {
+			return null;
+		}
+
+		return {
+			type: row.type,
+			checkin_deadline_minutes: row.checkin_deadline_minutes ?? undefined,
+			active_windows: row.active_windows
+				? JSON.parse(row.active_windows)
+				: undefined,
+		};
+	}
+
+	/**
+	 * Map database row to PilotCheckin object
+	 */
+	private mapRowToCheckin(row: any): PilotCheckin {
+		return {
+			id: row.id,
+			channel_uuid: row.channel_uuid,
+			user_id: row.user_id,
+			username: row.username,
+			status: row.status,
+			flying_since: row.flying_since || undefined,
+			deadline_at: row.deadline_at || undefined,
+			landed_at: row.landed_at || undefined,
+			landed_via: row.landed_via || undefined,
+			checked_in_by: row.checked_in_by || undefined,
+			location:
+				row.location_lat !== null && row.location_lon !== null
+					? { lat: row.location_lat, lon: row.location_lon }
+					: undefined,
+			incident_id: row.incident_id || undefined,
+			updated_at: row.updated_at,
+		};
+	}
+}
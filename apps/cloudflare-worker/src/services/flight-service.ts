@@ -0,0 +1,328 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import {
+	Flight,
+	FlightDetailsResponse,
+	FlightTrackPoint,
+	FlightTransmissionMarker,
+} from "../types/ptt";
+import {
+	downsampleTrack,
+	interpolateTrackPosition,
+	parseFlightTrack,
+} from "../utils/flight-track";
+
+/**
+ * Maximum number of fixes stored per flight, longer tracks are downsampled.
+ * A 1 Hz vario records 18000 fixes in five hours, far more than needed to draw the track.
+ */
+const MAX_STORED_TRACK_POINTS = 5000;
+
+/**
+ * Flight service
+ * Imports the tracks recorded by the pilots varios and places the transmissions made during
+ * the flight on the track, so that the reviewer of an incident can see where and at which
+ * altitude each call was made
+ */
+export class FlightService {
+	private db: D1Database;
+
+	constructor(db: D1Database) {
+		this.db = db;
+	}
+
+	/**
+	 * Import an IGC or GPX track.
+	 * The transmissions of the pilot overlapping the flight are linked to it, positioned with
+	 * the full resolution track before it is downsampled for storage.
+	 * @param userId Pilot uploading the track
+	 * @param content Track file content
+	 * @param filename Name of the uploaded file, used to detect the format
+	 * @returns The imported flight, or the reason why it was rejected
+	 */
+	async importFlight(
+		userId: string,
+		content: string,
+		filename?: string,
+	): Promise<{ success: boolean; flight?: Flight; error?: string }> {
+		const parsed = parseFlightTrack(content, filename);
+
+		if (!parsed.success) {
+			return { success: false, error: parsed.error };
+		}
+
+		const track = parsed.track!;
+		const points = track.points;
+		const takeoff = points[0];
+		const landing = points[points.length - 1];
+		const takeoffTime = new Date(takeoff.timestamp_ms).toISOString();
+		const landingTime = new Date(landing.timestamp_ms).toISOString();
+		const maxAltitude = points.reduce<number | null>(
+			(max, point) =>
+				point.altitude_m !== undefined &&
+				(max === null || point.altitude_m > max)
+					? point.altitude_m
+					: max,
+			null,
+		);
+
+		try {
+			const existing = await this.db
+				.prepare(
+					"SELECT id FROM flights WHERE user_id = ? AND takeoff_time = ?",
+				)
+				.bind(userId, takeoffTime)
+				.first<{ id: string }>();
+
+			if (existing) {
+				return { success: false, error: "Flight already imported" };
+			}
+
+			const id = crypto.randomUUID();
+
+			await this.db
+				.prepare(
+					`INSERT INTO flights (
+						id, user_id, format, pilot_name, glider_type, glider_id, site_name,
+						takeoff_time, landing_time, duration_seconds,
+						takeoff_lat, takeoff_lon, landing_lat, landing_lon,
+						max_altitude_m, point_count, track, uploaded_at
+					) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+				)
+				.bind(
+					id,
+					userId,
+					track.format,
+					track.pilot_name || null,
+					track.glider_type || null,
+					track.glider_id || null,
+					track.site_name || null,
+					takeoffTime,
+					landingTime,
+					Math.round((landing.timestamp_ms - takeoff.timestamp_ms) / 1000),
+					takeoff.lat,
+					takeoff.lon,
+					landing.lat,
+					landing.lon,
+					maxAltitude,
+					points.length,
+					this.encodeTrack(downsampleTrack(points, MAX_STORED_TRACK_POINTS)),
+					new Date().toISOString(),
+				)
+				.run();
+
+			await this.linkTransmissions(id, userId, points);
+
+			const row = await this.selectFlight(id);
+
+			return row
+				? { success: true, flight: this.mapRowToFlight(row) }
+				: { success: false, error: "Failed to import flight" };
+		} catch (error) {
+			console.error("Error importing flight:", error);
+
+			return { success: false, error: "Failed to import flight" };
+		}
+	}
+
+	/**
+	 * Get a flight with its track and the transmissions made during the flight
+	 * @param id Flight ID
+	 * @returns Flight details or null if not found
+	 */
+	async getFlight(id: string): Promise<FlightDetailsResponse | null> {
+		try {
+			const row = await this.selectFlight(id);
+
+			if (!row) {
+				return null;
+			}
+
+			const markers = await this.db
+				.prepare(
+					`SELECT ft.transmission_id, ft.lat, ft.lon, ft.altitude_m,
+							th.session_id, th.channel_uuid, th.start_time,
+							th.duration_seconds, th.is_emergency
+					 FROM flight_transmissions ft
+					 JOIN transmission_history th ON th.id = ft.transmission_id
+					 WHERE ft.flight_id = ?
+					 ORDER BY th.start_time ASC`,
+				)
+				.bind(id)
+				.all();
+
+			return {
+				...this.mapRowToFlight(row),
+				track: this.decodeTrack(row.track as string),
+				transmissions: markers.results.map((marker) =>
+					this.mapRowToMarker(marker),
+				),
+			};
+		} catch (error) {
+			console.error("Error getting flight:", error);
+
+			return null;
+		}
+	}
+
+	/**
+	 * Select a flight row with the number of linked transmissions
+	 * @private
+	 */
+	private async selectFlight(
+		id: string,
+	): Promise<Record<string, unknown> | null> {
+		return await this.db
+			.prepare(
+				`SELECT f.*, (
+					SELECT COUNT(*) FROM flight_transmissions WHERE flight_id = f.id
+				 ) AS transmission_count
+				 FROM flights f WHERE f.id = ?`,
+			)
+			.bind(id)
+			.first();
+	}
+
+	/**
+	 * Link the transmissions of the pilot overlapping the flight, positioned on the track
+	 * @private
+	 */
+	private async linkTransmissions(
+		flightId: string,
+		userId: string,
+		points: FlightTrackPoint[],
+	): Promise<void> {
+		const transmissions = await this.db
+			.prepare(
+				`SELECT id, start_time FROM transmission_history
+				 WHERE user_id = ? AND start_time <= ? AND COALESCE(end_time, start_time) >= ?`,
+			)
+			.bind(
+				userId,
+				new Date(points[points.length - 1].timestamp_ms).toISOString(),
+				new Date(points[0].timestamp_ms).toISOString(),
+			)
+			.all<{ id: number; start_time: string }>();
+
+		const statements = transmissions.results.flatMap((transmission) => {
+			const position = interpolateTrackPosition(
+				points,
+				new Date(transmission.start_time).getTime(),
+			);
+
+			return position
+				? [
+						this.db
+							.prepare(
+								`INSERT OR IGNORE INTO flight_transmissions (
+									flight_id, transmission_id, lat, lon, altitude_m
+								) VALUES (?, ?, ?, ?, ?)`,
+							)
+							.bind(
+								flightId,
+								transmission.id,
+								position.lat,
+								position.lon,
+								position.altitude_m ?? null,
+							),
+					]
+				: [];
+		});
+
+		if (statements.length > 0) {
+			await this.db.batch(statements);
+		}
+	}
+
+	/**
+	 * Encode a track as compact JSON rows [timestamp_ms, lat, lon, altitude_m]
+	 * @private
+	 */
+	private encodeTrack(points: FlightTrackPoint[]): string {
+		return JSON.stringify(
+			points.map((point) => [
+				point.timestamp_ms,
+				Number(point.lat.toFixed(6)),
+				Number(point.lon.toFixed(6)),
+				point.altitude_m !== undefined ? Math.round(point.altitude_m) : null,
+			]),
+		);
+	}
+
+	/**
+	 * Decode a track stored by encodeTrack
+	 * @private
+	 */
+	private decodeTrack(track: string): FlightTrackPoint[] {
+		return (JSON.parse(track) as [number, number, number, number | null][]).map(
+			([timestamp_ms, lat, lon, altitude_m]) => ({
+				timestamp_ms,
+				lat,
+				lon,
+				altitude_m: altitude_m ?? undefined,
+			}),
+		);
+	}
+
+	/**
+	 * Map database row to Flight object
+	 */
+	private mapRowToFlight(row: any): Flight {
+		return {
+			id: row.id,
+			user_id: row.user_id,
+			format: row.format,
+			pilot_name: row.pilot_name || undefined,
+			glider_type: row.glider_type || undefined,
+			glider_id: row.glider_id || undefined,
+			site_name: row.site_name || undefined,
+			takeoff_time: row.takeoff_time,
+			landing_time: row.landing_time,
+			duration_seconds: row.duration_seconds,
+			takeoff: { lat: row.takeoff_lat, lon: row.takeoff_lon },
+			landing: { lat: row.landing_lat, lon: row.landing_lon },
+			max_altitude_m: row.max_altitude_m ?? undefined,
+			point_count: row.point_count,
+			transmission_count: row.transmission_count || 0,
+			uploaded_at: row.uploaded_at,
+		};
+	}
+
+	/**
+	 * Map database row to FlightTransmissionMarker object
+	 */
+	private mapRowToMarker(row: any): FlightTransmissionMarker {
+		return {
+			transmission_id: row.transmission_id,
+			session_id: row.session_id,
+			channel_uuid: row.channel_uuid,
+			start_time: row.start_time,
+			duration_seconds: row.duration_seconds ?? undefined,
+			is_emergency: Boolean(row.is_emergency),
+			position: { lat: row.lat, lon: row.lon },
+			altitude_m: row.altitude_m ?? undefined,
+		};
+	}
+}
@@ -0,0 +1,380 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { EmergencyIncident } from "../types/ptt";
+
+/**
+ * Destination of emergency incidents (rescue coordination webhook, email, SMS...)
+ */
+export interface IncidentNotifier {
+	/** Name recorded with the delivery status of each incident, e.g. "webhook" */
+	readonly name: string;
+	/** Deliver an incident, throws when the delivery failed */
+	notify(incident: EmergencyIncident): Promise<void>;
+}
+
+/**
+ * Email or SMS gateway used by the email and SMS notifiers
+ */
+export interface MessagingProvider {
+	/** Send a message, throws when the provider rejected it */
+	send(message: { to: string; subject?: string; text: string }): Promise<void>;
+}
+
+/**
+ * Fetch implementation used by the HTTP adapters, injectable for tests
+ */
+export type Fetcher = (
+	input: string,
+	init?: Parameters<typeof fetch>[1],
+) => Promise<Response>;
+
+const defaultFetcher: Fetcher = (input, init) => fetch(input, init);
+
+/**
+ * Retry policy of incident deliveries
+ */
+export interface RetryOptions {
+	/** Maximum number of delivery attempts (default 3) */
+	maxAttempts?: number;
+	/** Delay before the first retry, doubled after each failed attempt (default 1000 ms) */
+	baseDelayMs?: number;
+	/** Wait implementation, injectable for tests */
+	sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Outcome of the delivery of an incident to a notifier
+ */
+export interface DeliveryResult {
+	delivered: boolean;
+	attempts: number;
+	error?: string;
+}
+
+/**
+ * Human readable summary of an incident, used by the email and SMS notifiers
+ * @param incident Emergency or overdue pilot incident
+ * @returns Message text with an OpenStreetMap link to the position when known
+ */
+export function formatIncidentMessage(incident: EmergencyIncident): string {
+	const position = incident.location
+		? `Position: ${incident.location.lat.toFixed(5)}, ${incident.location.lon.toFixed(5)} https://www.openstreetmap.org/?mlat=${incident.location.lat}&mlon=${incident.location.lon}#map=14/${incident.location.lat}/${incident.location.lon}`
+		: "Position unknown";
+
+	if (incident.incident_type === "overdue") {
+		return `ParaWave overdue pilot: ${incident.username} did not check in landed on channel ${incident.channel_uuid}, overdue since ${incident.created_at}. Last ${position}. Incident ${incident.id}`;
+	}
+
+	return `ParaWave emergency: ${incident.username} started an emergency transmission on channel ${incident.channel_uuid} at ${incident.created_at}. ${position}. Incident ${incident.id}`;
+}
+
+/**
+ * Generic HTTPS webhook notifier.
+ * Posts `{ "event": "emergency_incident", "incident": {...} }` as JSON, the event being
+ * `overdue_incident` for an overdue pilot. When a secret is
+ * configured, the body is signed with HMAC-SHA256 in the `X-ParaWave-Signature` header
+ * (`sha256=<hex digest>`) so that the receiver can authenticate the call.
+ */
+export class WebhookNotifier implements IncidentNotifier {
+	readonly name = "webhook";
+
+	constructor(
+		private readonly url: string,
+		private readonly secret?: string,
+		private readonly fetcher: Fetcher = defaultFetcher,
+	) {}
+
+	async notify(incident: EmergencyIncident): Promise<void> {
+		const body = JSON.stringify({
+			event: `${incident.incident_type}_incident`,
+			incident,
+		});
+		const headers: Record<string, string> = {
+			"Content-Type": "application/json",
+		};
+
+		if (this.secret) {
+			headers["X-ParaWave-Signature"] =
+				`sha256=${await hmacSha256Hex(this.secret, body)}`;
+		}
+
+		const response = await this.fetcher(this.url, {
+			method: "POST",
+			headers,
+			body,
+		});
+
+		if (!response.ok) {
+			throw new Error(`Webhook responded with status ${response.status}`);
+		}
+	}
+}
+
+/**
+ * Messaging provider posting `{ to, subject, text }` as JSON to an HTTPS endpoint with a
+ * bearer API key. Stand-in for the email and SMS gateways until a dedicated provider
+ * adapter is written, a relay in front of the actual provider can translate the payload.
+ */
+export class HttpMessagingProvider implements MessagingProvider {
+	constructor(
+		private readonly url: string,
+		private readonly apiKey?: string,
+		private readonly fetcher: Fetcher = defaultFetcher,
+	) {}
+
+	async send(message: {
+		to: string;
+		subject?: string;
+		text: string;
+	}): Promise<void> {
+		const headers: Record<string, string> = {
+			"Content-Type": "application/json",
+		};
+
+		if (this.apiKey) {
+			headers.Authorization = `Bearer ${this.apiKey}`;
+		}
+
+		const response = await this.fetcher(this.url, {
+			method: "POST",
+			headers,
+			body: JSON.stringify(message),
+		});
+
+		if (!response.ok) {
+			throw new Error(
+				`Messaging provider responded with status ${response.status}`,
+			);
+		}
+	}
+}
+
+/**
+ * Email notifier, sends the incident summary to every recipient
+ * A retried delivery is only sent to the recipients not reached yet
+ */
+export class EmailNotifier implements IncidentNotifier {
+	readonly name = "email";
+	private readonly delivered = new Map<string, Set<string>>();
+
+	constructor(
+		private readonly provider: MessagingProvider,
+		private readonly recipients: string[],
+	) {}
+
+	async notify(incident: EmergencyIncident): Promise<void> {
+		await sendToAll(this.recipients, this.delivered, incident.id, (to) =>
+			this.provider.send({
+				to,
+				subject: `[ParaWave] ${incident.incident_type === "overdue" ? "Overdue pilot" : "Emergency"} - ${incident.username}`,
+				text: formatIncidentMessage(incident),
+			}),
+		);
+	}
+}
+
+/**
+ * SMS notifier, sends the incident summary to every phone number
+ * A retried delivery is only sent to the numbers not reached yet
+ */
+export class SmsNotifier implements IncidentNotifier {
+	readonly name = "sms";
+	private readonly delivered = new Map<string, Set<string>>();
+
+	constructor(
+		private readonly provider: MessagingProvider,
+		private readonly recipients: string[],
+	) {}
+
+	async notify(incident: EmergencyIncident): Promise<void> {
+		await sendToAll(this.recipients, this.delivered, incident.id, (to) =>
+			this.provider.send({ to, text: formatIncidentMessage(incident) }),
+		);
+	}
+}
+
+/**
+ * Deliver an incident to a notifier, retrying with exponential backoff
+ * @param notifier Incident notifier
+ * @param incident Emergency incident
+ * @param options Retry policy
+ * @returns Whether the incident was delivered, the number of attempts and the last error
+ */
+export async function notifyWithRetry(
+	notifier: IncidentNotifier,
+	incident: EmergencyIncident,
+	options: RetryOptions = {},
+): Promise<DeliveryResult> {
+	const maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+	const baseDelayMs = options.baseDelayMs ?? 1000;
+	const sleep =
+		options.sleep ??
+		((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+	let lastError = "";
+
+	for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+		try {
+			await notifier.notify(incident);
+
+			return { delivered: true, attempts: attempt };
+		} catch (error) {
+			lastError = error instanceof Error ? error.message : String(error);
+			console.error(
+				`Incident ${incident.id} delivery to ${notifier.name} failed (attempt ${attempt}/${maxAttempts}):`,
+				lastError,
+			);
+
+			if (attempt < maxAttempts) {
+				await sleep(baseDelayMs * 2 ** (attempt - 1));
+			}
+		}
+	}
+
+	return { delivered: false, attempts: maxAttempts, error: lastError };
+}
+
+/**
+ * Build the notifiers configured by the environment variables:
+ * - INCIDENT_WEBHOOK_URL, INCIDENT_WEBHOOK_SECRET (optional signature secret)
+ * - INCIDENT_EMAIL_PROVIDER_URL, INCIDENT_EMAIL_PROVIDER_KEY, INCIDENT_EMAIL_RECIPIENTS
+ * - INCIDENT_SMS_PROVIDER_URL, INCIDENT_SMS_PROVIDER_KEY, INCIDENT_SMS_RECIPIENTS
+ *
+ * Recipients are comma separated. A notifier is enabled when its URL (and recipients) are set.
+ * @param env Environment variables
+ * @returns Configured notifiers, empty when escalation is not configured
+ */
+export function createIncidentNotifiers(env: Env): IncidentNotifier[] {
+	const notifiers: IncidentNotifier[] = [];
+	const emailRecipients = parseRecipients(env.INCIDENT_EMAIL_RECIPIENTS);
+	const smsRecipients = parseRecipients(env.INCIDENT_SMS_RECIPIENTS);
+
+	if (env.INCIDENT_WEBHOOK_URL) {
+		notifiers.push(
+			new WebhookNotifier(
+				env.INCIDENT_WEBHOOK_URL,
+				env.INCIDENT_WEBHOOK_SECRET || undefined,
+			),
+		);
+	}
+
+	if (env.INCIDENT_EMAIL_PROVIDER_URL && emailRecipients.length > 0) {
+		notifiers.push(
+			new EmailNotifier(
+				new HttpMessagingProvider(
+					env.INCIDENT_EMAIL_PROVIDER_URL,
+					env.INCIDENT_EMAIL_PROVIDER_KEY || undefined,
+				),
+				emailRecipients,
+			),
+		);
+	}
+
+	if (env.INCIDENT_SMS_PROVIDER_URL && smsRecipients.length > 0) {
+		notifiers.push(
+			new SmsNotifier(
+				new HttpMessagingProvider(
+					env.INCIDENT_SMS_PROVIDER_URL,
+					env.INCIDENT_SMS_PROVIDER_KEY || undefined,
+				),
+				smsRecipients,
+			),
+		);
+	}
+
+	return notifiers;
+}
+
+/**
+ * Split a comma separated recipients variable
+ */
+function parseRecipients(value?: string): string[] {
+	return (value || "")
+		.split(",")
+		.map((recipient) => recipient.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Send a message to every recipient not reached yet, failing when at least one of them was
+ * not reached
+ * @param recipients Recipients of the message
+ * @param delivered Recipients already reached, by incident ID, updated with the new deliveries
+ * @param incidentId Incident the message is about
+ * @param send Send the message to a recipient
+ */
+async function sendToAll(
+	recipients: string[],
+	delivered: Map<string, Set<string>>,
+	incidentId: string,
+	send: (to: string) => Promise<void>,
+): Promise<void> {
+	const reached = delivered.get(incidentId) ?? new Set<string>();
+	const results = await Promise.allSettled(
+		recipients
+			.filter((to) => !reached.has(to))
+			.map(async (to) => {
+				await send(to);
+				reached.add(to);
+			}),
+	);
+	const failures = results.filter(
+		(result): result is PromiseRejectedResult => result.status === "rejected",
+	);
+
+	if (failures.length === 0) {
+		delivered.delete(incidentId);
+
+		return;
+	}
+
+	delivered.set(incidentId, reached);
+
+	throw new Error(
+		`${failures.length}/${recipients.length} recipients not reached: ${failures[0].reason instanceof Error ? failures[0].reason.message : failures[0].reason}`,
+	);
+}
+
+/**
+ * HMAC-SHA256 of a payload as a hex string
+ */
+async function hmacSha256Hex(secret: string, payload: string): Promise<string> {
+	const encoder = new TextEncoder();
+	const key = await crypto.subtle.importKey(
+		"raw",
+		encoder.encode(secret),
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["sign"],
+	);
+	const signature = await crypto.subtle.sign(
+		"HMAC",
+		key,
+		encoder.encode(payload),
+	);
+
+	return Array.from(new Uint8Array(signature))
+		.map((byte) => byte.toString(16).padStart(2, "0"))
+		.join("");
+}
@@ -0,0 +1,440 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import {
+	Coordinates,
+	EmergencyIncident,
+	IncidentNotification,
+	IncidentStatus,
+	IncidentType,
+} from "../types/ptt";
+
+import {
+	IncidentNotifier,
+	RetryOptions,
+	notifyWithRetry,
+} from "./incident-notifiers";
+
+const INCIDENT_STATUSES: IncidentStatus[] = ["open", "acknowledged", "closed"];
+
+/**
+ * Emergency incident service
+ * Records the incidents raised by emergency transmissions, escalates them to the configured
+ * notifiers and tracks their acknowledgement by rescuers
+ */
+export class IncidentService {
+	private db: D1Database;
+
+	constructor(db: D1Database) {
+		this.db = db;
+	}
+
+	/**
+	 * Open an incident for an emergency transmission, or for an overdue pilot.
+	 * A pilot repeating emergency calls on the same channel keeps a single incident while it is
+	 * not closed: the existing incident is updated with the new transmission and position.
+	 * @param details Transmission (or overdue check-in) that raised the incident
+	 * @returns The incident, and whether it was created (false when an open incident was reused)
+	 */
+	async openIncident(details: {
+		incident_type?: IncidentType;
+		channel_uuid: string;
+		session_id: string;
+		user_id: string;
+		username: string;
+		location?: Coordinates;
+	}): Promise<{ incident: EmergencyIncident; created: boolean } | null> {
+		try {
+			const now = new Date().toISOString();
+			const incidentType = details.incident_type ?? "emergency";
+			const existing = await this.db
+				.prepare(
+					`SELECT id FROM incidents
+					 WHERE user_id = ? AND channel_uuid = ? AND incident_type = ? AND status != 'closed'
+					 ORDER BY created_at DESC LIMIT 1`,
+				)
+				.bind(details.user_id, details.channel_uuid, incidentType)
+				.first<{ id: string }>();
+
+			if (existing) {
+				await this.db
+					.prepare(
+						`UPDATE incidents SET
+							session_id = ?,
+							location_lat = COALESCE(?, location_lat),
+							location_lon = COALESCE(?, location_lon),
+							updated_at = ?
+						 WHERE id = ?`,
+					)
+					.bind(
+						details.session_id,
+						details.location?.lat ?? null,
+						details.location?.lon ?? null,
+						now,
+						existing.id,
+					)
+					.run();
+
+				const incident = await this.getIncident(existing.id);
+
+				return incident ? { incident, created: false } : null;
+			}
+
+			const id = crypto.randomUUID();
+
+			await this.db
+				.prepare(
+					`INSERT INTO incidents (
+						id, channel_uuid, incident_type, session_id, user_id, username,
+						location_lat, location_lon, status, created_at, updated_at
+					) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'open', ?, ?)`,
+				)
+				.bind(
+					id,
+					details.channel_uuid,
+					incidentType,
+					details.session_id,
+					details.user_id,
+					details.username,
+					details.location?.lat ?? null,
+					details.location?.lon ?? null,
+					now,
+					now,
+				)
+				.run();
+
+			const incident = await this.getIncident(id);
+
+			return incident ? { incident, created: true } : null;
+		} catch (error) {
+			console.error("Error opening incident:", error);
+
+			return null;
+		}
+	}
+
+	/**
+	 * Get incidents, most recent first
+	 * @param filters Optional status and channel filters
+	 * @param limit Maximum number of incidents
+	 * @returns Incidents without their notifications
+	 */
+	async getIncidents(
+		filters: { status?: IncidentStatus; channel_uuid?: string } = {},
+		limit = 100,
+	): Promise<EmergencyIncident[]> {
+		try {
+			const conditions: string[] = [];
+			const params: (string | number)[] = [];
+
+			if (filters.status) {
+				conditions.push("status = ?");
+				params.push(filters.status);
+			}
+
+			if (filters.channel_uuid) {
+				conditions.push("channel_uuid = ?");
+				params.push(filters.channel_uuid.toLowerCase());
+			}
+
+			const where =
+				conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+			const result = await this.db
+				.prepare(
+					`SELECT * FROM incidents ${where} ORDER BY created_at DESC LIMIT ?`,
+				)
+				.bind(...params, limit)
+				.all();
+
+			return result.results.map((row) => this.mapRowToIncident(row));
+		} catch (error) {
+			console.error("Error getting incidents:", error);
+
+			return [];
+		}
+	}
+
+	/**
+	 * Get an incident with the delivery status of its notifications
+	 * @param id Incident ID
+	 * @returns Incident or null if not found
+	 */
+	async getIncident(id: string): Promise<EmergencyIncident | null> {
+		try {
+			const row = await this.db
+				.prepare("SELECT * FROM incidents WHERE id = ?")
+				.bind(id)
+				.first();
+
+			if (!row) {
+				return null;
+			}
+
+			const notifications = await this.db
+				.prepare(
+					"SELECT * FROM incident_notifications WHERE incident_id = ? ORDER BY notifier",
+				)
+				.bind(id)
+				.all();
+
+			return {
+				...this.mapRowToIncident(row),
+				notifications: notifications.results.map((notification) =>
+					this.mapRowToNotification(notification),
+				),
+			};
+		} catch (error) {
+			console.error("Error getting incident:", error);
+
+			return null;
+		}
+	}
+
+	/**
+	 * Acknowledge an open incident, a rescuer or coordinator is taking care of it
+	 * @param id Incident ID
+	 * @param acknowledgedBy User ID of the rescuer
+	 * @param notes Optional notes appended to the incident
+	 * @returns Updated incident or error
+	 */
+	async acknowledgeIncident(
+		id: string,
+		acknowledgedBy: string,
+		notes?: string,
+	): Promise<{
+		success: boolean;
+		incident?: EmergencyIncident;
+		error?: string;
+	}> {
+		return this.transitionIncident(id, "acknowledged", acknowledgedBy, notes);
+	}
+
+	/**
+	 * Close an incident once the pilot is safe or the rescue is over
+	 * @param id Incident ID
+	 * @param closedBy User ID closing the incident
+	 * @param notes Optional notes appended to the incident
+	 * @returns Updated incident or error
+	 */
+	async closeIncident(
+		id: string,
+		closedBy: string,
+		notes?: string,
+	): Promise<{
+		success: boolean;
+		incident?: EmergencyIncident;
+		error?: string;
+	}> {
+		return this.transitionIncident(id, "closed", closedBy, notes);
+	}
+
+	/**
+	 * Deliver an incident to every notifier, each with its own retries.
+	 * The delivery status is recorded per notifier, so that undelivered alerts show up
+	 * in the incidents API.
+	 * @param incident Emergency incident
+	 * @param notifiers Configured notifiers
+	 * @param retryOptions Retry policy
+	 * @returns Delivery status per notifier
+	 */
+	async escalate(
+		incident: EmergencyIncident,
+		notifiers: IncidentNotifier[],
+		retryOptions: RetryOptions = {},
+	): Promise<IncidentNotification[]> {
+		return Promise.all(
+			notifiers.map(async (notifier) => {
+				await this.recordNotification(incident.id, {
+					notifier: notifier.name,
+					status: "pending",
+					attempts: 0,
+				});
+
+				const result = await notifyWithRetry(notifier, incident, retryOptions);
+				const now = new Date().toISOString();
+				const notification: IncidentNotification = {
+					notifier: notifier.name,
+					status: result.delivered ? "delivered" : "failed",
+					attempts: result.attempts,
+					last_error: result.error,
+					last_attempt_at: now,
+					delivered_at: result.delivered ? now : undefined,
+				};
+
+				await this.recordNotification(incident.id, notification);
+
+				return notification;
+			}),
+		);
+	}
+
+	/**
+	 * Check that a value is a valid incident status
+	 */
+	static isValidStatus(status: string): status is IncidentStatus {
+		return INCIDENT_STATUSES.includes(status as IncidentStatus);
+	}
+
+	/**
+	 * Move an incident forward in its lifecycle (open -> acknowledged -> closed)
+	 */
+	private async transitionIncident(
+		id: string,
+		status: "acknowledged" | "closed",
+		userId: string,
+		notes?: string,
+	): Promise<{
+		success: boolean;
+		incident?: EmergencyIncident;
+		error?: string;
+	}> {
+		const incident = await this.getIncident(id);
+
+		if (!incident) {
+			return { success: false, error: "Incident not found" };
+		}
+
+		if (incident.status === "closed") {
+			return { success: false, error: "Incident is already closed" };
+		}
+
+		if (incident.status === status) {
+			return { success: false, error: `Incident is already ${status}` };
+		}
+
+		try {
+			const now = new Date().toISOString();
+			const mergedNotes = notes
+				? [incident.notes, notes].filter(Boolean).join("\n")
+				: incident.notes;
+
+			if (status === "acknowledged") {
+				await this.db
+					.prepare(
+						`UPDATE incidents SET status = 'acknowledged', acknowledged_at = ?,
+							acknowledged_by = ?, notes = ?, updated_at = ?
+						 WHERE id = ?`,
+					)
+					.bind(now, userId, mergedNotes || null, now, id)
+					.run();
+			} else {
+				// Closing an incident nobody acknowledged also acknowledges it
+				await this.db
+					.prepare(
+						`UPDATE incidents SET status = 'closed', closed_at = ?, closed_by = ?,
+							acknowledged_at = COALESCE(acknowledged_at, ?),
+							acknowledged_by = COALESCE(acknowledged_by, ?),
+							notes = ?, updated_at = ?
+						 WHERE id = ?`,
+					)
+					.bind(now, userId, now, userId, mergedNotes || null, now, id)
+					.run();
+			}
+
+			return {
+				success: true,
+				incident: (await this.getIncident(id)) || undefined,
+			};
+		} catch (error) {
+			console.error(`Error updating incident to ${status}:`, error);
+
+			return { success: false, error: "Failed to update incident" };
+		}
+	}
+
+	/**
+	 * Insert or update the delivery status of an incident for a notifier
+	 */
+	private async recordNotification(
+		incidentId: string,
+		notification: IncidentNotification,
+	): Promise<void> {
+		try {
+			await this.db
+				.prepare(
+					`INSERT INTO incident_notifications (
+						incident_id, notifier, status, attempts, last_error, last_attempt_at, delivered_at
+					) VALUES (?, ?, ?, ?, ?, ?, ?)
+					ON CONFLICT (incident_id, notifier) DO UPDATE SET
+						status = excluded.status,
+						attempts = excluded.attempts,
+						last_error = excluded.last_error,
+						last_attempt_at = excluded.last_attempt_at,
+						delivered_at = excluded.delivered_at`,
+				)
+				.bind(
+					incidentId,
+					notification.notifier,
+					notification.status,
+					notification.attempts,
+					notification.last_error || null,
+					notification.last_attempt_at || null,
+					notification.delivered_at || null,
+				)
+				.run();
+		} catch (error) {
+			console.error("Error recording incident notification:", error);
+		}
+	}
+
+	/**
+	 * Map database row to EmergencyIncident object
+	 */
+	private mapRowToIncident(row: any): EmergencyIncident {
+		return {
+			id: row.id,
+			channel_uuid: row.channel_uuid,
+			incident_type: row.incident_type || "emergency",
+			session_id: row.session_id,
+			user_id: row.user_id,
+			username: row.username,
+			location:
+				row.location_lat !== null && row.location_lon !== null
+					? { lat: row.location_lat, lon: row.location_lon }
+					: undefined,
+			status: row.status,
+			created_at: row.created_at,
+			updated_at: row.updated_at,
+			acknowledged_at: row.acknowledged_at || undefined,
+			acknowledged_by: row.acknowledged_by || undefined,
+			closed_at: row.closed_at || undefined,
+			closed_by: row.closed_by || undefined,
+			notes: row.notes || undefined,
+		};
+	}
+
+	/**
+	 * Map database row to IncidentNotification object
+	 */
+	private mapRowToNotification(row: any): IncidentNotification {
+		return {
+			notifier: row.notifier,
+			status: row.status,
+			attempts: row.attempts || 0,
+			last_error: row.last_error || undefined,
+			last_attempt_at: row.last_attempt_at || undefined,
+			delivered_at: row.delivered_at || undefined,
+		};
+	}
+}
@@ -0,0 +1,234 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import {
+	CannedMessage,
+	CannedMessageId,
+	ChannelTextMessage,
+	ChannelTextMessageRequest,
+	Coordinates,
+} from "../types/ptt";
+
+/**
+ * Canned messages offered by the clients, a thumb on a brake toggle can send a preset but not speak clearly
+ */
+export const CANNED_MESSAGES: CannedMessage[] = [
+	{ id: "landed_ok", content: "Landed OK" },
+	{ id: "need_retrieve", content: "Need retrieve" },
+	{ id: "wind_too_strong", content: "Wind too strong" },
+];
+
+const MAX_MESSAGE_LENGTH = 500;
+
+/**
+ * Channel text messaging service
+ * Stores the text messages in channel_messages with the 'text' message type, like the other
+ * channel events, and the 'text_message' event type in the metadata. The real-time delivery
+ * is done by the channel Durable Object.
+ */
+export class MessageService {
+	private db: D1Database;
+
+	constructor(db: D1Database) {
+		this.db = db;
+	}
+
+	/**
+	 * Validate a text message received over the REST API or the WebSocket
+	 * A canned message takes its content from CANNED_MESSAGES, any content sent along is ignored
+	 * @returns The message to post, or the validation error
+	 */
+	static resolveTextMessage(request: any): {
+		message?: {
+			content: string;
+			canned_message_id?: CannedMessageId;
+			location?: Coordinates;
+		};
+		error?: string;
+	} {
+		if (!request || typeof request !== "object") {
+			return { error: "Invalid text message" };
+		}
+
+		const location =
+			request.location &&
+			Number.isFinite(request.location.lat) &&
+			Number.isFinite(request.location.lon) &&
+			Math.abs(request.location.lat) <= 90 &&
+			Math.abs(request.location.lon) <= 180
+				? { lat: request.location.lat, lon: request.location.lon }
+				: undefined;
+
+		if (request.location !== undefined && !location) {
+			return { error: "Invalid location" };
+		}
+
+		if (request.canned_message_id !== undefined) {
+			const canned = CANNED_MESSAGES.find(
+				(message) => message.id === request.canned_message_id,
+			);
+
+			if (!canned) {
+				return {
+					error: `Valid canned_message_id is required (${CANNED_MESSAGES.map((message) => message.id).join(", ")})`,
+				};
+			}
+
+			return {
+				message: {
+					content: canned.content,
+					canned_message_id: canned.id,
+					location,
+				},
+			};
+		}
+
+		const content =
+			typeof request.content === "string" ? request.content.trim() : "";
+
+		if (!content || content.length > MAX_MESSAGE_LENGTH) {
+			return {
+				error: `Invalid content - must be a non-empty string of at most ${MAX_MESSAGE_LENGTH} characters`,
+			};
+		}
+
+		return { message: { content, location } };
+	}
+
+	/**
+	 * Store a text message posted in a channel
+	 * @param channelUuid Channel UUID
+	 * @param sender Author of the message
+	 * @param message Message validated by resolveTextMessage
+	 * @returns The stored message, or null if it could not be stored
+	 */
+	async postMessage(
+		channelUuid: string,
+		sender: { user_id: string; username: string },
+		message: ChannelTextMessageRequest & { content: string },
+	): Promise<ChannelTextMessage | null> {
+		const posted: Omit<ChannelTextMessage, "id"> = {
+			channel_uuid: channelUuid.toLowerCase(),
+			user_id: sender.user_id,
+			username: sender.username,
+			content: message.content,
+			canned_message_id: message.canned_message_id,
+			location: message.location,
+			timestamp: new Date().toISOString(),
+		};
+
+		try {
+			const result = await this.db
+				.prepare(
+					`INSERT INTO channel_messages (channel_uuid, user_id, username, message_type, content, timestamp, location_lat, location_lon, metadata)
+					 VALUES (?, ?, ?, 'text', ?, ?, ?, ?, ?)`,
+				)
+				.bind(
+					posted.channel_uuid,
+					posted.user_id,
+					posted.username,
+					posted.content,
+					posted.timestamp,
+					posted.location?.lat ?? null,
+					posted.location?.lon ?? null,
+					JSON.stringify({
+						event_type: "text_message",
+						canned_message_id: posted.canned_message_id,
+					}),
+				)
+				.run();
+
+			return { id: Number(result.meta?.last_row_id), ...posted };
+		} catch (error) {
+			console.error("Error posting text message:", error);
+
+			return null;
+		}
+	}
+
+	/**
+	 * Get the text messages of a channel, most recent first
+	 * @param channelUuid Channel UUID
+	 * @param limit Maximum number of messages
+	 * @param before Only return messages older than this message ID, to load the next page
+	 * @returns The messages and whether older messages remain
+	 */
+	async getMessages(
+		channelUuid: string,
+		limit = 50,
+		before?: number,
+	): Promise<{ messages: ChannelTextMessage[]; has_more: boolean }> {
+		try {
+			// One extra row tells whether another page exists
+			const result = await this.db
+				.prepare(
+					`SELECT id, channel_uuid, user_id, username, content, timestamp, location_lat, location_lon, metadata
+					 FROM channel_messages
+					 WHERE channel_uuid = ? AND message_type = 'text'
+					   AND json_extract(metadata, '$.event_type') = 'text_message'
+					   AND (? IS NULL OR id < ?)
+					 ORDER BY id DESC LIMIT ?`,
+				)
+				.bind(
+					channelUuid.toLowerCase(),
+					before ?? null,
+					before ?? null,
+					limit + 1,
+				)
+				.all();
+
+			return {
+				messages: result.results
+					.slice(0, limit)
+					.map((row) => this.mapRowToMessage(row)),
+				has_more: result.results.length > limit,
+			};
+		} catch (error) {
+			console.error("Error getting text messages:", error);
+
+			return { messages: [], has_more: false };
+		}
+	}
+
+	/**
+	 * Map channel_messages row to ChannelTextMessage object
+	 */
+	private mapRowToMessage(row: any): ChannelTextMessage {
+		const metadata = JSON.parse(row.metadata || "{}");
+
+		return {
+			id: row.id,
+			channel_uuid: row.channel_uuid,
+			user_id: row.user_id,
+			username: row.username,
+			content: row.content,
+			canned_message_id: metadata.canned_message_id,
+			location:
+				row.location_lat !== null && row.location_lon !== null
+					? { lat: row.location_lat, lon: row.location_lon }
+					: undefined,
+			timestamp: row.timestamp,
+		};
+	}
+}
@@ -0,0 +1,492 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import {
+	ChannelModerationActionType,
+	ChannelModerationEntry,
+	ChannelModerator,
+	ChannelMute,
+} from "../types/ptt";
+
+const MODERATION_ACTIONS: ChannelModerationActionType[] = [
+	"mute",
+	"unmute",
+	"kick",
+	"force_end",
+];
+
+/** Longest mute, a permanent mute is requested without duration */
+const MAX_MUTE_DURATION_MINUTES = 7 * 24 * 60;
+
+const MAX_REASON_LENGTH = 200;
+
+/**
+ * Channel moderation service
+ * Stores the per-channel moderator roles and the mutes, and records the moderation audit trail
+ * in channel_messages. The live effects of the actions are applied by the channel Durable Object.
+ */
+export class ModerationService {
+	private db: D1Database;
+
+	constructor(db: D1Database) {
+		this.db = db;
+	}
+
+	/**
+	 * Validate a moderation request received over the REST API or the WebSocket
+	 * @returns Error message, or null when the request is valid
+	 */
+	static validateModerationRequest(request: any): string | null {
+		if (!request || typeof request !== "object") {
+			return "Invalid moderation request";
+		}
+
+		if (!MODERATION_ACTIONS.includes(request.action)) {
+			return `Valid action is required (${MODERATION_ACTIONS.join(", ")})`;
+		}
+
+		if (
+			request.target_user_id !== undefined &&
+			(typeof request.target_user_id !== "string" || !request.target_user_id)
+		) {
+			return "Invalid target_user_id";
+		}
+
+		if (request.action !== "force_end" && !request.target_user_id) {
+			return "target_user_id is required";
+		}
+
+		if (
+			request.duration_minutes !== undefined &&
+			(!Number.isInteger(request.duration_minutes) ||
+				request.duration_minutes < 1 ||
+				request.duration_minutes > MAX_MUTE_DURATION_MINUTES)
+		) {
+			return `Invalid duration_minutes - must be an integer between 1 and ${MAX_MUTE_DURATION_MINUTES}`;
+		}
+
+		if (
+			request.reason !== undefined &&
+			(typeof request.reason !== "string" ||
+				request.reason.length > MAX_REASON_LENGTH)
+		) {
+			return `Invalid reason - must be a string of at most ${MAX_REASON_LENGTH} characters`;
+		}
+
+		return null;
+	}
+
+	/**
+	 * Check whether a user is a moderator of a channel
+	 * @param channelUuid Channel UUID
+	 * @param userId User ID (JWT sub)
+	 * @returns True if the user holds the moderator role
+	 */
+	async isModerator(channelUuid: string, userId: string): Promise<boolean> {
+		try {
+			const row = await this.db
+				.prepare(
+					"SELECT 1 FROM channel_roles WHERE channel_uuid = ? AND user_id = ? AND role = 'moderator'",
+				)
+				.bind(channelUuid.toLowerCase(), userId)
+				.first();
+
+			return row !== null;
+		} catch (error) {
+			console.error("Error checking channel moderator:", error);
+
+			return false;
+		}
+	}
+
+	/**
+	 * Get the moderators of a channel
+	 * @param channelUuid Channel UUID
+	 * @returns Moderators, oldest first
+	 */
+	async getModerators(channelUuid: string): Promise<ChannelModerator[]> {
+		try {
+			const result = await this.db
+				.prepare(
+					"SELECT * FROM channel_roles WHERE channel_uuid = ? ORDER BY granted_at",
+				)
+				.bind(channelUuid.toLowerCase())
+				.all();
+
+			return result.results.map((row) => this.mapRowToModerator(row));
+		} catch (error) {
+			console.error("Error getting channel moderators:", error);
+
+			return [];
+		}
+	}
+
+	/**
+	 * Grant the moderator role, or update the username of an existing moderator
+	 * @param channelUuid Channel UUID
+	 * @param userId User receiving the role
+	 * @param username Display name of the moderator
+	 * @param grantedBy Administrator granting the role
+	 * @returns The moderator
+	 */
+	async addModerator(
+		channelUuid: string,
+		userId: string,
+		username: string | undefined,
+		grantedBy: { user_id: string; username: string },
+	): Promise<{
+		success: boolean;
+		moderator?: ChannelModerator;
+		error?: string;
+	}> {
+		const uuidLower = channelUuid.toLowerCase();
+
+		try {
+			await this.db
+				.prepare(
+					`INSERT INTO channel_roles (channel_uuid, user_id, username, role, granted_by, granted_at)
+					 VALUES (?, ?, ?, 'moderator', ?, ?)
+					 ON CONFLICT (channel_uuid, user_id) DO UPDATE SET
+						username = COALESCE(excluded.username, channel_roles.username)`,
+				)
+				.bind(
+					uuidLower,
+					userId,
+					username || null,
+					grantedBy.user_id,
+					new Date().toISOString(),
+				)
+				.run();
+
+			await this.logAction({
+				channel_uuid: uuidLower,
+				action: "moderator_added",
+				moderator_user_id: grantedBy.user_id,
+				moderator_username: grantedBy.username,
+				target_user_id: userId,
+			});
+
+			const row = await this.db
+				.prepare(
+					"SELECT * FROM channel_roles WHERE channel_uuid = ? AND user_id = ?",
+				)
+				.bind(uuidLower, userId)
+				.first();
+
+			return { success: true, moderator: this.mapRowToModerator(row) };
+		} catch (error) {
+			console.error("Error adding channel moderator:", error);
+
+			return { success: false, error: "Failed to add moderator" };
+		}
+	}
+
+	/**
+	 * Revoke the moderator role
+	 * @param channelUuid Channel UUID
+	 * @param userId Moderator losing the role
+	 * @param revokedBy Administrator revoking the role
+	 */
+	async removeModerator(
+		channelUuid: string,
+		userId: string,
+		revokedBy: { user_id: string; username: string },
+	): Promise<{ success: boolean; error?: string }> {
+		const uuidLower = channelUuid.toLowerCase();
+
+		try {
+			const result = await this.db
+				.prepare(
+					"DELETE FROM channel_roles WHERE channel_uuid = ? AND user_id = ?",
+				)
+				.bind(uuidLower, userId)
+				.run();
+
+			if (!result.meta?.changes) {
+				return {
+					success: false,
+					error: "User is not a moderator of this channel",
+				};
+			}
+
+			await this.logAction({
+				channel_uuid: uuidLower,
+				action: "moderator_removed",
+				moderator_user_id: revokedBy.user_id,
+				moderator_username: revokedBy.username,
+				target_user_id: userId,
+			});
+
+			return { success: true };
+		} catch (error) {
+			console.error("Error removing channel moderator:", error);
+
+			return { success: false, error: "Failed to remove moderator" };
+		}
+	}
+
+	/**
+	 * Mute a participant, replacing a previous mute
+	 * @param channelUuid Channel UUID
+	 * @param userId Muted participant
+	 * @param mutedBy Moderator muting the participant
+	 * @param durationMinutes Duration of the mute, until unmuted when missing
+	 * @param reason Reason given by the moderator
+	 * @returns The mute, or null on failure
+	 */
+	async muteUser(
+		channelUuid: string,
+		userId: string,
+		mutedBy: string,
+		durationMinutes?: number,
+		reason?: string,
+	): Promise<ChannelMute | null> {
+		const now = Date.now();
+		const mute: ChannelMute = {
+			channel_uuid: channelUuid.toLowerCase(),
+			user_id: userId,
+			muted_by: mutedBy,
+			reason,
+			muted_at: new Date(now).toISOString(),
+			expires_at: durationMinutes
+				? new Date(now + durationMinutes * 60 * 1000).toISOString()
+				: undefined,
+		};
+
+		try {
+			await this.db
+				.prepare(
+					`INSERT OR REPLACE INTO channel_mutes (channel_uuid, user_id, muted_by, reason, muted_at, expires_at)
+					 VALUES (?, ?, ?, ?, ?, ?)`,
+				)
+				.bind(
+					mute.channel_uuid,
+					mute.user_id,
+					mute.muted_by,
+					mute.reason ?? null,
+					mute.muted_at,
+					mute.expires_at ?? null,
+				)
+				.run();
+
+			return mute;
+		} catch (error) {
+			console.error("Error muting channel participant:", error);
+
+			return null;
+		}
+	}
+
+	/**
+	 * Lift the mute of a participant
+	 * @param channelUuid Channel UUID
+	 * @param userId Muted participant
+	 * @returns True if an active mute was lifted
+	 */
+	async unmuteUser(channelUuid: string, userId: string): Promise<boolean> {
+		try {
+			const result = await this.db
+				.prepare(
+					"DELETE FROM channel_mutes WHERE channel_uuid = ? AND user_id = ? AND (expires_at IS NULL OR expires_at > ?)",
+				)
+				.bind(channelUuid.toLowerCase(), userId, new Date().toISOString())
+				.run();
+
+			return Boolean(result.meta?.changes);
+		} catch (error) {
+			console.error("Error unmuting channel participant:", error);
+
+			return false;
+		}
+	}
+
+	/**
+	 * Check whether a participant is muted in a channel
+	 * @param channelUuid Channel UUID
+	 * @param userId User ID (JWT sub)
+	 * @returns True if the participant has a mute that did not expire yet
+	 */
+	async isMuted(channelUuid: string, userId: string): Promise<boolean> {
+		try {
+			const row = await this.db
+				.prepare(
+					"SELECT 1 FROM channel_mutes WHERE channel_uuid = ? AND user_id = ? AND (expires_at IS NULL OR expires_at > ?)",
+				)
+				.bind(channelUuid.toLowerCase(), userId, new Date().toISOString())
+				.first();
+
+			return row !== null;
+		} catch (error) {
+			console.error("Error checking channel mute:", error);
+
+			return false;
+		}
+	}
+
+	/**
+	 * Get the mutes of a channel that did not expire yet
+	 * @param channelUuid Channel UUID
+	 * @returns Active mutes, most recent first
+	 */
+	async getActiveMutes(channelUuid: string): Promise<ChannelMute[]> {
+		try {
+			const result = await this.db
+				.prepare(
+					`SELECT * FROM channel_mutes
+					 WHERE channel_uuid = ? AND (expires_at IS NULL OR expires_at > ?)
+					 ORDER BY muted_at DESC`,
+				)
+				.bind(channelUuid.toLowerCase(), new Date().toISOString())
+				.all();
+
+			return result.results.map((row) => this.mapRowToMute(row));
+		} catch (error) {
+			console.error("Error getting channel mutes:", error);
+
+			return [];
+		}
+	}
+
+	/**
+	 * Record a moderation event in the channel audit trail
+	 * Uses the 'text' message type with the event in the metadata, like the other channel events
+	 * @param entry Moderation event
+	 * @returns The recorded event
+	 */
+	async logAction(
+		entry: Omit<ChannelModerationEntry, "id" | "timestamp">,
+	): Promise<ChannelModerationEntry> {
+		const recorded: ChannelModerationEntry = {
+			...entry,
+			timestamp: new Date().toISOString(),
+		};
+
+		try {
+			const result = await this.db
+				.prepare(
+					`INSERT INTO channel_messages (channel_uuid, user_id, username, message_type, content, metadata)
+					 VALUES (?, ?, ?, 'text', ?, ?)`,
+				)
+				.bind(
+					entry.channel_uuid.toLowerCase(),
+					entry.moderator_user_id,
+					entry.moderator_username,
+					`Moderation: ${entry.action}`,
+					JSON.stringify({
+						event_type: "moderation",
+						action: entry.action,
+						target_user_id: entry.target_user_id,
+						reason: entry.reason,
+						expires_at: entry.expires_at,
+						session_id: entry.session_id,
+					}),
+				)
+				.run();
+
+			recorded.id = result.meta?.last_row_id;
+		} catch (error) {
+			console.error("Error logging moderation action:", error);
+		}
+
+		return recorded;
+	}
+
+	/**
+	 * Get the moderation audit trail of a channel
+	 * @param channelUuid Channel UUID
+	 * @param limit Maximum number of events
+	 * @returns Moderation events, most recent first
+	 */
+	async getModerationLog(
+		channelUuid: string,
+		limit = 100,
+	): Promise<ChannelModerationEntry[]> {
+		try {
+			const result = await this.db
+				.prepare(
+					`SELECT id, channel_uuid, user_id, username, metadata, timestamp
+					 FROM channel_messages
+					 WHERE channel_uuid = ? AND message_type = 'text'
+					   AND json_extract(metadata, '$.event_type') = 'moderation'
+					 ORDER BY id DESC LIMIT ?`,
+				)
+				.bind(channelUuid.toLowerCase(), limit)
+				.all();
+
+			return result.results.map((row) => this.mapRowToEntry(row));
+		} catch (error) {
+			console.error("Error getting moderation log:", error);
+
+			return [];
+		}
+	}
+
+	/**
+	 * Map database row to ChannelModerator object
+	 */
+	private mapRowToModerator(row: any): ChannelModerator {
+		return {
+			channel_uuid: row.channel_uuid,
+			user_id: row.user_id,
+			username: row.username || undefined,
+			role: row.role,
+			granted_by: row.granted_by,
+			granted_at: row.granted_at,
+		};
+	}
+
+	/**
+	 * Map database row to ChannelMute object
+	 */
+	private mapRowToMute(row: any): ChannelMute {
+		return {
+			channel_uuid: row.channel_uuid,
+			user_id: row.user_id,
+			muted_by: row.muted_by,
+			reason: row.reason || undefined,
+			muted_at: row.muted_at,
+			expires_at: row.expires_at || undefined,
+		};
+	}
+
+	/**
+	 * Map channel_messages row to ChannelModerationEntry object
+	 */
+	private mapRowToEntry(row: any): ChannelModerationEntry {
+		const metadata = JSON.parse(row.metadata || "{}");
+
+		return {
+			id: row.id,
+			channel_uuid: row.channel_uuid,
+			action: metadata.action,
+			moderator_user_id: row.user_id,
+			moderator_username: row.username,
+			target_user_id: metadata.target_user_id,
+			reason: metadata.reason,
+			expires_at: metadata.expires_at,
+			session_id: metadata.session_id,
+			timestamp: row.timestamp,
+		};
+	}
+}
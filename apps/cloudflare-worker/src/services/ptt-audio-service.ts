@@ -29,6 +29,14 @@ import {
 	PTTAudioChunkResponse,
 	PTTEndTransmissionRequest,
 	PTTEndTransmissionResponse,
+	EmergencyIncident,
+	ChannelModerationRequest,
+	ChannelModerationResult,
+	ChannelTextMessageRequest,
+	ChannelTextMessageResult,
+	Coordinates,
+	PilotCheckinMethod,
+	PilotCheckinResult,
 } from "../types/ptt";
 import createLibWebM from "@sctg/libwebm-js";
 
@@ -87,11 +95,7 @@ export class PTTAudioService {
 
 			// Add WebSocket URL for real-time communication
 			if (result.success && result.session_id) {
-				result.websocket_url = this.generateWebSocketURL(
-					channelUuid,
-					userId,
-					username,
-				);
+				result.websocket_url = this.generateWebSocketURL(channelUuid);
 			}
 
 			return result;
@@ -364,24 +368,166 @@ export class PTTAudioService {
 	}
 
 	/**
-	 * Generate WebSocket URL for real-time communication
+	 * Announce the new status of an emergency incident in its channel using RPC
 	 */
-	private generateWebSocketURL(
+	async broadcastIncidentUpdate(incident: EmergencyIncident): Promise<void> {
+		try {
+			const durableObject = this.env.CHANNEL_OBJECTS.getByName(
+				incident.channel_uuid.toLowerCase(),
+			);
+
+			await durableObject.pttIncidentUpdate(incident);
+		} catch (error) {
+			console.error("Error broadcasting incident update:", error);
+		}
+	}
+
+	/**
+	 * Apply a moderation action in a channel using RPC
+	 * The caller must have checked that the moderator may moderate the channel
+	 */
+	async moderateChannel(
 		channelUuid: string,
-		userId: string,
-		username: string,
-	): string {
+		moderator: { user_id: string; username: string; is_admin: boolean },
+		request: ChannelModerationRequest,
+	): Promise<ChannelModerationResult> {
+		try {
+			const normalizedChannelUuid = channelUuid.toLowerCase();
+			const durableObject = this.env.CHANNEL_OBJECTS.getByName(
+				normalizedChannelUuid,
+			);
+
+			return await durableObject.pttModerate({
+				...request,
+				channel_uuid: normalizedChannelUuid,
+				moderator_user_id: moderator.user_id,
+				moderator_username: moderator.username,
+				moderator_is_admin: moderator.is_admin,
+			});
+		} catch (error) {
+			console.error("Error applying moderation action:", error);
+
+			return { success: false, error: "Failed to apply moderation action" };
+		}
+	}
+
+	/**
+	 * Post a text message in a channel using RPC, delivered in real time to the participants
+	 * The caller must have checked that the sender has access to the channel
+	 */
+	async postTextMessage(
+		channelUuid: string,
+		sender: { user_id: string; username: string },
+		request: ChannelTextMessageRequest,
+	): Promise<ChannelTextMessageResult> {
+		try {
+			const normalizedChannelUuid = channelUuid.toLowerCase();
+			const durableObject = this.env.CHANNEL_OBJECTS.getByName(
+				normalizedChannelUuid,
+			);
+
+			return await durableObject.pttTextMessage({
+				...request,
+				channel_uuid: normalizedChannelUuid,
+				user_id: sender.user_id,
+				username: sender.username,
+			});
+		} catch (error) {
+			console.error("Error posting text message:", error);
+
+			return { success: false, error: "Failed to post text message" };
+		}
+	}
+
+	/**
+	 * Record the landed check-in of a pilot using RPC, announced in real time to the participants
+	 * The caller must have checked the access of the pilot, and the moderator role of checkedInBy
+	 */
+	async checkIn(
+		channelUuid: string,
+		pilot: { user_id: string; username: string },
+		details: {
+			via: PilotCheckinMethod;
+			checked_in_by?: string;
+			location?: Coordinates;
+		},
+	): Promise<PilotCheckinResult> {
+		try {
+			const normalizedChannelUuid = channelUuid.toLowerCase();
+			const durableObject = this.env.CHANNEL_OBJECTS.getByName(
+				normalizedChannelUuid,
+			);
+
+			return await durableObject.pttCheckIn({
+				...details,
+				channel_uuid: normalizedChannelUuid,
+				user_id: pilot.user_id,
+				username: pilot.username,
+			});
+		} catch (error) {
+			console.error("Error recording check-in:", error);
+
+			return { success: false, error: "Failed to record check-in" };
+		}
+	}
+
+	/**
+	 * Get the recording of a past transmission stored in R2
+	 * Returns the channel, the talker and the targets of a private call so that the caller can
+	 * check access, and the recording object if the transmission was recorded
+	 */
+	async getTransmissionRecording(sessionId: string): Promise<{
+		found: boolean;
+		channel_uuid?: string;
+		user_id?: string;
+		target_user_ids?: string[];
+		recording?: R2ObjectBody | null;
+	}> {
+		const transmission = await this.env.PTT_DB.prepare(
+			`
+        SELECT channel_uuid, user_id, recording_key, target_user_ids FROM transmission_history
+        WHERE session_id = ?
+      `,
+		)
+			.bind(sessionId)
+			.first<{
+				channel_uuid: string;
+				user_id: string;
+				recording_key: string | null;
+				target_user_ids: string | null;
+			}>();
+
+		if (!transmission) {
+			return { found: false };
+		}
+
+		const recording = transmission.recording_key
+			? await this.env.PTT_RECORDINGS.get(transmission.recording_key)
+			: null;
+
+		return {
+			found: true,
+			channel_uuid: transmission.channel_uuid,
+			user_id: transmission.user_id,
+			target_user_ids: transmission.target_user_ids
+				? (JSON.parse(transmission.target_user_ids) as string[])
+				: undefined,
+			recording,
+		};
+	}
+
+	/**
+	 * Generate WebSocket URL for real-time communication
+	 * The client must append its own `token` (JWT) and `ephemeralPushToken` query parameters,
+	 * the user identity is derived from the token by the Durable Object
+	 */
+	private generateWebSocketURL(channelUuid: string): string {
 		// In production, this would be the actual worker URL
 		const baseUrl =
 			this.env.API_BASE_URL?.replace("https://", "wss://") ||
 			"wss://your-worker.workers.dev";
-		const params = new URLSearchParams({
-			userId,
-			username,
-			token: "temp-token", // TODO: Generate proper token
-		});
 
-		return `${baseUrl}/ptt/channel/${channelUuid}/ws?${params.toString()}`;
+		return `${baseUrl}/ptt/channel/${channelUuid}/ws`;
 	}
 
 	/**
@@ -418,8 +564,13 @@ export class PTTAudioService {
 			);
 			const durableObject = this.env.CHANNEL_OBJECTS.get(durableObjectId);
 
+			// Bind the connection to the routed channel, overriding any client-supplied value
+			const forwardUrl = new URL(request.url);
+
+			forwardUrl.searchParams.set("channelUuid", normalizedChannelUuid);
+
 			// Forward WebSocket upgrade to Durable Object
-			return await durableObject.fetch(request.url, request);
+			return await durableObject.fetch(forwardUrl.toString(), request);
 		} catch (error) {
 			console.error("Error getting channel WebSocket:", error);
 
@@ -0,0 +1,557 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import {
+	Coordinates,
+	FlyingSite,
+	ChannelDifficulty,
+	CreateFlyingSiteRequest,
+	UpdateFlyingSiteRequest,
+} from "../types/ptt";
+import {
+	haversineDistanceKm,
+	boundingBox,
+	boundingBoxCondition,
+} from "../utils/geo";
+
+import { ChannelService } from "./channel-service";
+
+const SITE_DIFFICULTIES: ChannelDifficulty[] = [
+	"beginner",
+	"intermediate",
+	"advanced",
+	"expert",
+];
+
+/**
+ * Columns selected for a flying site, with its associated channels
+ */
+const SITE_COLUMNS = `
+	s.id, s.name, s.coordinates_lat, s.coordinates_lon, s.elevation,
+	s.difficulty, s.vhf_frequency, s.radius_km, s.weather_station_id,
+	s.is_active, s.created_at,
+	GROUP_CONCAT(sc.channel_uuid) as associated_channels,
+	MAX(CASE WHEN sc.is_primary THEN sc.channel_uuid END) as primary_channel
+`;
+
+/**
+ * Flying sites management service
+ * Handles CRUD operations on takeoffs and landings and their channel associations
+ */
+export class SiteService {
+	private db: D1Database;
+
+	constructor(db: D1Database) {
+		this.db = db;
+	}
+
+	/**
+	 * Get all flying sites
+	 * @param activeOnly Filter only active sites
+	 * @returns Sites sorted by name
+	 */
+	async getSites(activeOnly: boolean = true): Promise<FlyingSite[]> {
+		try {
+			const results = await this.db
+				.prepare(
+					`
+				   SELECT ${SITE_COLUMNS}
+				   FROM flying_sites s
+				   LEFT JOIN site_channels sc ON s.id = sc.site_id
+				   ${activeOnly ? "WHERE s.is_active = 1" : ""}
+				   GROUP BY s.id
+				   ORDER BY s.name ASC
+				 `,
+				)
+				.all();
+
+			return (results.results || []).map((row: any) => this.mapRowToSite(row));
+		} catch (error) {
+			console.error("Error getting sites:", error);
+
+			return [];
+		}
+	}
+
+	/**
+	 * Get a flying site by ID
+	 * @param id Site ID
+	 * @returns Site or null if not found
+	 */
+	async getSite(id: string): Promise<FlyingSite | null> {
+		try {
+			const row = await this.db
+				.prepare(
+					`
+				   SELECT ${SITE_COLUMNS}
+				   FROM flying_sites s
+				   LEFT JOIN site_channels sc ON s.id = sc.site_id
+				   WHERE s.id = ?
+				   GROUP BY s.id
+				 `,
+				)
+				.bind(id)
+				.first();
+
+			return row ? this.mapRowToSite(row) : null;
+		} catch (error) {
+			console.error("Error getting site:", error);
+
+			return null;
+		}
+	}
+
+	/**
+	 * Get the active flying sites around a location, nearest first
+	 * @param location Center of the search
+	 * @param radiusKm Search radius in kilometers
+	 * @returns Sites within the radius with their distance to the location
+	 */
+	async getNearbySites(
+		location: Coordinates,
+		radiusKm: number,
+	): Promise<(FlyingSite & { distance_km: number })[]> {
+		try {
+			// Prefilter on idx_flying_sites_coordinates, the exact distance is computed below
+			const box = boundingBoxCondition(
+				boundingBox(location, radiusKm),
+				"s.coordinates_lat",
+				"s.coordinates_lon",
+			);
+
+			const results = await this.db
+				.prepare(
+					`
+				   SELECT ${SITE_COLUMNS}
+				   FROM flying_sites s
+				   LEFT JOIN site_channels sc ON s.id = sc.site_id
+				   WHERE s.is_active = ? AND ${box.sql}
+				   GROUP BY s.id
+				 `,
+				)
+				.bind(true, ...box.params)
+				.all();
+
+			return (results.results || [])
+				.map((row: any) => {
+					const site = this.mapRowToSite(row);
+
+					return {
+						...site,
+						distance_km:
+							Math.round(
+								haversineDistanceKm(location, site.coordinates) * 100,
+							) / 100,
+					};
+				})
+				.filter((site) => site.distance_km <= radiusKm)
+				.sort((a, b) => a.distance_km - b.distance_km);
+		} catch (error) {
+			console.error("Error getting nearby sites:", error);
+
+			return [];
+		}
+	}
+
+	/**
+	 * Create a new flying site
+	 * @param request Site creation data
+	 * @returns Created site, or the validation error
+	 */
+	async createSite(
+		request: CreateFlyingSiteRequest,
+	): Promise<{ success: boolean; site?: FlyingSite; error?: string }> {
+		const validationError = this.validateSite(request);
+
+		if (validationError) {
+			return { success: false, error: validationError };
+		}
+
+		if (
+			!request.name ||
+			!request.coordinates ||
+			request.elevation === undefined ||
+			!request.difficulty
+		) {
+			return {
+				success: false,
+				error:
+					"Name, coordinates, elevation and difficulty are required fields",
+			};
+		}
+
+		const id = request.id || crypto.randomUUID();
+
+		if (!/^[A-Za-z0-9_-]{1,64}$/.test(id)) {
+			return {
+				success: false,
+				error:
+					"Invalid site ID - use letters, digits, '-' or '_' (64 characters max)",
+			};
+		}
+
+		try {
+			const existing = await this.db
+				.prepare("SELECT id FROM flying_sites WHERE id = ?")
+				.bind(id)
+				.first();
+
+			if (existing) {
+				return { success: false, error: "Site with this ID already exists" };
+			}
+
+			await this.db
+				.prepare(
+					`
+				   INSERT INTO flying_sites (
+					   id, name, coordinates_lat, coordinates_lon, elevation, difficulty,
+					   vhf_frequency, radius_km, weather_station_id, created_at, is_active
+				   ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+			   `,
+				)
+				.bind(
+					id,
+					request.name,
+					request.coordinates.lat,
+					request.coordinates.lon,
+					request.elevation,
+					request.difficulty,
+					request.vhf_frequency || null,
+					request.radius_km ?? 25,
+					request.weather_station_id || null,
+					new Date().toISOString(),
+					1,
+				)
+				.run();
+
+			const site = await this.getSite(id);
+
+			return site
+				? { success: true, site }
+				: { success: false, error: "Failed to create site" };
+		} catch (error) {
+			console.error("Error creating site:", error);
+
+			return { success: false, error: "Failed to create site" };
+		}
+	}
+
+	/**
+	 * Update an existing flying site
+	 * @param id Site ID
+	 * @param request Update data
+	 * @returns Updated site, or the validation error
+	 */
+	async updateSite(
+		id: string,
+		request: UpdateFlyingSiteRequest,
+	): Promise<{ success: boolean; site?: FlyingSite; error?: string }> {
+		const validationError = this.validateSite(request);
+
+		if (validationError) {
+			return { success: false, error: validationError };
+		}
+
+		const updateFields: string[] = [];
+		const params: any[] = [];
+
+		if (request.name !== undefined) {
+			updateFields.push("name = ?");
+			params.push(request.name);
+		}
+		if (request.coordinates !== undefined) {
+			updateFields.push("coordinates_lat = ?", "coordinates_lon = ?");
+			params.push(request.coordinates.lat, request.coordinates.lon);
+		}
+		if (request.elevation !== undefined) {
+			updateFields.push("elevation = ?");
+			params.push(request.elevation);
+		}
+		if (request.difficulty !== undefined) {
+			updateFields.push("difficulty = ?");
+			params.push(request.difficulty);
+		}
+		if (request.vhf_frequency !== undefined) {
+			updateFields.push("vhf_frequency = ?");
+			params.push(request.vhf_frequency || null);
+		}
+		if (request.radius_km !== undefined) {
+			updateFields.push("radius_km = ?");
+			params.push(request.radius_km);
+		}
+		if (request.weather_station_id !== undefined) {
+			updateFields.push("weather_station_id = ?");
+			params.push(request.weather_station_id || null);
+		}
+		if (request.is_active !== undefined) {
+			updateFields.push("is_active = ?");
+			params.push(request.is_active ? 1 : 0);
+		}
+
+		if (updateFields.length === 0) {
+			return { success: false, error: "No fields to update" };
+		}
+
+		try {
+			const result = await this.db
+				.prepare(
+					`UPDATE flying_sites SET ${updateFields.join(", ")} WHERE id = ?`,
+				)
+				.bind(...params, id)
+				.run();
+
+			if (!result.meta.changes) {
+				return { success: false, error: "Site not found" };
+			}
+
+			const site = await this.getSite(id);
+
+			return site
+				? { success: true, site }
+				: { success: false, error: "Site not found" };
+		} catch (error) {
+			console.error("Error updating site:", error);
+
+			return { success: false, error: "Failed to update site" };
+		}
+	}
+
+	/**
+	 * Delete a flying site
+	 * @param id Site ID
+	 * @param hardDelete Permanently remove the site and its channel associations instead of deactivating it
+	 * @returns True if the site was deleted
+	 */
+	async deleteSite(id: string, hardDelete: boolean = false): Promise<boolean> {
+		try {
+			if (!hardDelete) {
+				const result = await this.db
+					.prepare("UPDATE flying_sites SET is_active = 0 WHERE id = ?")
+					.bind(id)
+					.run();
+
+				return result.meta.changes > 0;
+			}
+
+			const results = await this.db.batch([
+				this.db.prepare("DELETE FROM site_channels WHERE site_id = ?").bind(id),
+				this.db.prepare("DELETE FROM flying_sites WHERE id = ?").bind(id),
+			]);
+
+			return results[1].meta.changes > 0;
+		} catch (error) {
+			console.error("Error deleting site:", error);
+
+			return false;
+		}
+	}
+
+	/**
+	 * Get the channel associations of a flying site
+	 * @param siteId Site ID
+	 * @returns Associated channel UUIDs, primary channel first
+	 */
+	async getSiteChannelAssociations(
+		siteId: string,
+	): Promise<
+		{ channel_uuid: string; is_primary: boolean; created_at: string }[]
+	> {
+		try {
+			const results = await this.db
+				.prepare(
+					`
+				   SELECT channel_uuid, is_primary, created_at
+				   FROM site_channels
+				   WHERE site_id = ?
+				   ORDER BY is_primary DESC, created_at ASC
+				 `,
+				)
+				.bind(siteId)
+				.all();
+
+			return (results.results || []).map((row: any) => ({
+				channel_uuid: row.channel_uuid,
+				is_primary: Boolean(row.is_primary),
+				created_at: row.created_at,
+			}));
+		} catch (error) {
+			console.error("Error getting site channels:", error);
+
+			return [];
+		}
+	}
+
+	/**
+	 * Attach a channel to a flying site, or update its primary flag if already attached.
+	 * Flagging a channel as primary clears the flag of the other channels of the site.
+	 * @param siteId Site ID
+	 * @param channelUuid Channel UUID
+	 * @param isPrimary Whether the channel is the primary channel of the site
+	 * @returns Success status
+	 */
+	async attachChannel(
+		siteId: string,
+		channelUuid: string,
+		isPrimary: boolean = false,
+	): Promise<{ success: boolean; error?: string }> {
+		try {
+			const uuidLower = channelUuid.toLowerCase();
+			const statements = [];
+
+			if (isPrimary) {
+				statements.push(
+					this.db
+						.prepare(
+							"UPDATE site_channels SET is_primary = 0 WHERE site_id = ?",
+						)
+						.bind(siteId),
+				);
+			}
+			statements.push(
+				this.db
+					.prepare(
+						`
+					   INSERT INTO site_channels (site_id, channel_uuid, is_primary, created_at)
+					   VALUES (?, ?, ?, ?)
+					   ON CONFLICT (site_id, channel_uuid) DO UPDATE SET is_primary = excluded.is_primary
+				   `,
+					)
+					.bind(siteId, uuidLower, isPrimary ? 1 : 0, new Date().toISOString()),
+			);
+
+			await this.db.batch(statements);
+
+			return { success: true };
+		} catch (error) {
+			console.error("Error attaching channel to site:", error);
+
+			return { success: false, error: "Failed to attach channel" };
+		}
+	}
+
+	/**
+	 * Detach a channel from a flying site
+	 * @param siteId Site ID
+	 * @param channelUuid Channel UUID
+	 * @returns Success status
+	 */
+	async detachChannel(
+		siteId: string,
+		channelUuid: string,
+	): Promise<{ success: boolean; error?: string }> {
+		try {
+			const result = await this.db
+				.prepare(
+					"DELETE FROM site_channels WHERE site_id = ? AND channel_uuid = ?",
+				)
+				.bind(siteId, channelUuid.toLowerCase())
+				.run();
+
+			if (!result.meta.changes) {
+				return {
+					success: false,
+					error: "Channel is not attached to this site",
+				};
+			}
+
+			return { success: true };
+		} catch (error) {
+			console.error("Error detaching channel from site:", error);
+
+			return { success: false, error: "Failed to detach channel" };
+		}
+	}
+
+	/**
+	 * Validate the fields of a site creation or update request
+	 * @returns Error message, or null when the request is valid
+	 */
+	private validateSite(
+		request: CreateFlyingSiteRequest | UpdateFlyingSiteRequest,
+	): string | null {
+		if (
+			request.coordinates &&
+			(typeof request.coordinates.lat !== "number" ||
+				typeof request.coordinates.lon !== "number" ||
+				!ChannelService.isValidCoordinates(
+					request.coordinates.lat,
+					request.coordinates.lon,
+				))
+		) {
+			return "Invalid coordinates provided";
+		}
+
+		if (request.difficulty && !SITE_DIFFICULTIES.includes(request.difficulty)) {
+			return `Invalid difficulty - must be one of ${SITE_DIFFICULTIES.join(", ")}`;
+		}
+
+		if (
+			request.vhf_frequency &&
+			!ChannelService.isValidVHFFrequency(request.vhf_frequency)
+		) {
+			return "Invalid VHF frequency format";
+		}
+
+		if (
+			request.radius_km !== undefined &&
+			(typeof request.radius_km !== "number" || request.radius_km <= 0)
+		) {
+			return "Invalid radius - must be a positive number of kilometers";
+		}
+
+		if (
+			request.elevation !== undefined &&
+			typeof request.elevation !== "number"
+		) {
+			return "Invalid elevation - must be a number of meters";
+		}
+
+		return null;
+	}
+
+	/**
+	 * Map database row to FlyingSite object
+	 */
+	private mapRowToSite(row: any): FlyingSite {
+		return {
+			id: row.id,
+			name: row.name,
+			coordinates: {
+				lat: row.coordinates_lat,
+				lon: row.coordinates_lon,
+			},
+			elevation: row.elevation,
+			difficulty: row.difficulty,
+			vhf_frequency: row.vhf_frequency || undefined,
+			radius_km: row.radius_km,
+			weather_station_id: row.weather_station_id || undefined,
+			associated_channels: row.associated_channels
+				? String(row.associated_channels).split(",")
+				: [],
+			primary_channel: row.primary_channel || undefined,
+			is_active: Boolean(row.is_active),
+			created_at: row.created_at,
+		};
+	}
+}
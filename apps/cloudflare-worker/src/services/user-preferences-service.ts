@@ -0,0 +1,266 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { UserPreferences, UpdateUserPreferencesRequest } from "../types/ptt";
+
+import { ChannelService } from "./channel-service";
+
+/**
+ * User preferences service
+ * Stores the pilot settings of the user_preferences table, keyed by the JWT subject
+ */
+export class UserPreferencesService {
+	private db: D1Database;
+
+	constructor(db: D1Database) {
+		this.db = db;
+	}
+
+	/**
+	 * Get the preferences of a user
+	 * @param userId User ID (JWT sub)
+	 * @returns Stored preferences, or the defaults when the user has none yet
+	 */
+	async getPreferences(userId: string): Promise<UserPreferences> {
+		try {
+			const row = await this.db
+				.prepare("SELECT * FROM user_preferences WHERE user_id = ?")
+				.bind(userId)
+				.first();
+
+			if (row) {
+				return this.mapRowToPreferences(row);
+			}
+		} catch (error) {
+			console.error("Error getting user preferences:", error);
+		}
+
+		return this.getDefaultPreferences(userId);
+	}
+
+	/**
+	 * Create or update the preferences of a user, only the provided fields are changed
+	 * @param userId User ID (JWT sub)
+	 * @param username Username stored with the preferences
+	 * @param request Fields to update
+	 * @returns Updated preferences, or the validation error
+	 */
+	async updatePreferences(
+		userId: string,
+		username: string,
+		request: UpdateUserPreferencesRequest,
+	): Promise<{
+		success: boolean;
+		preferences?: UserPreferences;
+		error?: string;
+	}> {
+		const validationError = this.validatePreferences(request);
+
+		if (validationError) {
+			return { success: false, error: validationError };
+		}
+
+		const current = await this.getPreferences(userId);
+		const preferences: UserPreferences = {
+			...current,
+			username,
+			preferred_language:
+				request.preferred_language ?? current.preferred_language,
+			favorite_sites: request.favorite_sites ?? current.favorite_sites,
+			auto_join_site_channels:
+				request.auto_join_site_channels ?? current.auto_join_site_channels,
+			emergency_mode_enabled:
+				request.emergency_mode_enabled ?? current.emergency_mode_enabled,
+			share_location: request.share_location ?? current.share_location,
+			vhf_backup_frequency:
+				request.vhf_backup_frequency === undefined
+					? current.vhf_backup_frequency
+					: request.vhf_backup_frequency || undefined,
+			device_token:
+				request.device_token === undefined
+					? current.device_token
+					: request.device_token || undefined,
+			last_location:
+				request.last_location === undefined
+					? current.last_location
+					: request.last_location || undefined,
+		};
+
+		try {
+			const now = new Date().toISOString();
+
+			await this.db
+				.prepare(
+					`
+				   INSERT INTO user_preferences (
+					   user_id, username, preferred_language, favorite_sites,
+					   auto_join_site_channels, emergency_mode_enabled, share_location,
+					   vhf_backup_frequency, device_token, last_location_lat, last_location_lon,
+					   created_at, updated_at
+				   ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+				   ON CONFLICT (user_id) DO UPDATE SET
+					   username = excluded.username,
+					   preferred_language = excluded.preferred_language,
+					   favorite_sites = excluded.favorite_sites,
+					   auto_join_site_channels = excluded.auto_join_site_channels,
+					   emergency_mode_enabled = excluded.emergency_mode_enabled,
+					   share_location = excluded.share_location,
+					   vhf_backup_frequency = excluded.vhf_backup_frequency,
+					   device_token = excluded.device_token,
+					   last_location_lat = excluded.last_location_lat,
+					   last_location_lon = excluded.last_location_lon,
+					   updated_at = excluded.updated_at
+			   `,
+				)
+				.bind(
+					userId,
+					preferences.username,
+					preferences.preferred_language,
+					JSON.stringify(preferences.favorite_sites),
+					preferences.auto_join_site_channels ? 1 : 0,
+					preferences.emergency_mode_enabled ? 1 : 0,
+					preferences.share_location ? 1 : 0,
+					preferences.vhf_backup_frequency || null,
+					preferences.device_token || null,
+					preferences.last_location?.lat ?? null,
+					preferences.last_location?.lon ?? null,
+					now,
+					now,
+				)
+				.run();
+
+			return { success: true, preferences: await this.getPreferences(userId) };
+		} catch (error) {
+			console.error("Error updating user preferences:", error);
+
+			return { success: false, error: "Failed to update preferences" };
+		}
+	}
+
+	/**
+	 * Validate the fields of a preferences update request
+	 * @returns Error message, or null when the request is valid
+	 */
+	private validatePreferences(
+		request: UpdateUserPreferencesRequest,
+	): string | null {
+		if (
+			request.preferred_language !== undefined &&
+			(typeof request.preferred_language !== "string" ||
+				!/^[a-z]{2,3}(-[A-Z]{2})?$/.test(request.preferred_language))
+		) {
+			return "Invalid preferred_language - expected a language tag such as fr-FR";
+		}
+
+		if (
+			request.favorite_sites !== undefined &&
+			(!Array.isArray(request.favorite_sites) ||
+				request.favorite_sites.some((site) => typeof site !== "string"))
+		) {
+			return "Invalid favorite_sites - expected an array of site IDs";
+		}
+
+		for (const field of [
+			"auto_join_site_channels",
+			"emergency_mode_enabled",
+			"share_location",
+		] as const) {
+			if (request[field] !== undefined && typeof request[field] !== "boolean") {
+				return `Invalid ${field} - expected a boolean`;
+			}
+		}
+
+		if (
+			request.vhf_backup_frequency &&
+			(typeof request.vhf_backup_frequency !== "string" ||
+				!ChannelService.isValidVHFFrequency(request.vhf_backup_frequency))
+		) {
+			return "Invalid VHF frequency format";
+		}
+
+		if (request.device_token && typeof request.device_token !== "string") {
+			return "Invalid device_token - expected a string";
+		}
+
+		if (
+			request.last_location &&
+			(typeof request.last_location.lat !== "number" ||
+				typeof request.last_location.lon !== "number" ||
+				!ChannelService.isValidCoordinates(
+					request.last_location.lat,
+					request.last_location.lon,
+				))
+		) {
+			return "Invalid coordinates provided";
+		}
+
+		return null;
+	}
+
+	/**
+	 * Preferences of a user who never saved any, matching the table defaults
+	 */
+	private getDefaultPreferences(userId: string): UserPreferences {
+		return {
+			user_id: userId,
+			username: userId,
+			preferred_language: "fr-FR",
+			favorite_sites: [],
+			auto_join_site_channels: true,
+			emergency_mode_enabled: true,
+			share_location: true,
+		};
+	}
+
+	/**
+	 * Map database row to UserPreferences object
+	 */
+	private mapRowToPreferences(row: any): UserPreferences {
+		let favoriteSites: string[] = [];
+
+		try {
+			favoriteSites = row.favorite_sites ? JSON.parse(row.favorite_sites) : [];
+		} catch {
+			// Ignore malformed JSON written outside the API
+		}
+
+		return {
+			user_id: row.user_id,
+			username: row.username,
+			preferred_language: row.preferred_language || "fr-FR",
+			favorite_sites: favoriteSites,
+			auto_join_site_channels: row.auto_join_site_channels !== 0,
+			emergency_mode_enabled: row.emergency_mode_enabled !== 0,
+			share_location: row.share_location !== 0,
+			vhf_backup_frequency: row.vhf_backup_frequency || undefined,
+			device_token: row.device_token || undefined,
+			last_location:
+				row.last_location_lat !== null && row.last_location_lon !== null
+					? { lat: row.last_location_lat, lon: row.last_location_lon }
+					: undefined,
+			created_at: row.created_at,
+			updated_at: row.updated_at,
+		};
+	}
+}
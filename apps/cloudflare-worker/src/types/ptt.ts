@@ -83,12 +83,43 @@ export interface PTTChannel {
 	max_participants: number;
 	difficulty?: ChannelDifficulty;
 	is_active: boolean;
+	recording_enabled?: boolean; // Record transmissions to object storage for later replay
+	active_windows?: ChannelActiveWindow[]; // Scheduled channel, only active inside these windows
+	checkin_deadline_minutes?: number; // Landing check-in deadline of the site_local pilots, default when unset
 	created_at: string;
 	created_by: string;
 	updated_at?: string;
 	updated_by?: string;
 }
 
+/**
+ * One-off activation window of a scheduled channel, such as a competition task briefing
+ */
+export interface ChannelOneOffWindow {
+	type: "once";
+	start: string; // Local date and time in the window timezone, YYYY-MM-DDTHH:mm
+	end: string;
+	timezone: string; // IANA timezone, e.g. "Europe/Paris"
+	label?: string;
+}
+
+/**
+ * Weekly recurring activation window of a scheduled channel, such as weekend club sessions
+ */
+export interface ChannelWeeklyWindow {
+	type: "weekly";
+	days: number[]; // Days of the week, 0 = Sunday ... 6 = Saturday
+	start_time: string; // Local time in the window timezone, HH:mm
+	end_time: string; // Ends on the next day when not after start_time
+	timezone: string;
+	label?: string;
+}
+
+/**
+ * Activation window of a scheduled channel
+ */
+export type ChannelActiveWindow = ChannelOneOffWindow | ChannelWeeklyWindow;
+
 /**
  * Request payload for creating a new channel
  */
@@ -101,6 +132,9 @@ export interface CreateChannelRequest {
 	vhf_frequency?: string;
 	max_participants?: number;
 	difficulty?: ChannelDifficulty;
+	recording_enabled?: boolean;
+	active_windows?: ChannelActiveWindow[];
+	checkin_deadline_minutes?: number;
 }
 
 /**
@@ -123,6 +157,9 @@ export interface UpdateChannelRequest {
 	max_participants?: number;
 	difficulty?: ChannelDifficulty;
 	is_active?: boolean;
+	recording_enabled?: boolean;
+	active_windows?: ChannelActiveWindow[] | null; // null removes the schedule
+	checkin_deadline_minutes?: number | null; // null restores the default deadline
 }
 
 /**
@@ -182,7 +219,7 @@ export interface PaginatedResponse<T = any> extends APIResponse<T[]> {
  * Channel list response with statistics
  */
 export interface ChannelsListResponse {
-	channels: (PTTChannel & ChannelStats)[];
+	channels: (PTTChannel & ChannelStats & { distance_km?: number })[]; // distance_km when filtering by location
 	total_count: number;
 	active_count: number;
 }
@@ -208,286 +245,1318 @@ export interface FlyingSite {
 	radius_km: number;
 	weather_station_id?: string;
 	associated_channels: string[]; // Channel UUIDs
+	primary_channel?: string; // UUID of the channel flagged is_primary
+	is_active?: boolean;
+	created_at?: string;
 }
 
 /**
- * Request payload for joining a channel
+ * Request payload for creating a flying site
  */
-export interface JoinChannelRequest {
-	location?: Coordinates;
-	ephemeral_push_token?: string; // Token éphémère APNs PTT depuis iOS framework
-	device_info?: DeviceInfo;
+export interface CreateFlyingSiteRequest {
+	id?: string; // Generated when not provided
+	name: string;
+	coordinates: Coordinates;
+	elevation: number;
+	difficulty: ChannelDifficulty;
+	vhf_frequency?: string;
+	radius_km?: number;
+	weather_station_id?: string;
 }
 
 /**
- * Response payload for joining a channel
+ * Request payload for updating a flying site
  */
-export interface JoinChannelResponse {
-	success: boolean;
-	participant?: ChannelParticipant;
-	channel_info?: {
-		name: string;
-		participants_count: number;
-		max_participants: number;
-	};
-	error?: string;
+export interface UpdateFlyingSiteRequest {
+	name?: string;
+	coordinates?: Coordinates;
+	elevation?: number;
+	difficulty?: ChannelDifficulty;
+	vhf_frequency?: string | null;
+	radius_km?: number;
+	weather_station_id?: string | null;
+	is_active?: boolean;
 }
 
 /**
- * Request payload for leaving a channel
+ * Response for the flying sites list API
  */
-export interface LeaveChannelRequest {
-	ephemeral_push_token?: string; // Token éphémère pour identifier l'appareil spécifique
+export interface FlyingSitesListResponse {
+	sites: (FlyingSite & { distance_km?: number })[];
+	total_count: number;
 }
 
 /**
- * Response payload for leaving a channel
+ * Request payload for attaching a channel to a flying site
  */
-export interface LeaveChannelResponse {
-	success: boolean;
-	error?: string;
+export interface AttachSiteChannelRequest {
+	channel_uuid: string;
+	is_primary?: boolean; // Only one primary channel per site
 }
 
 /**
- * Audio format types supported by the PTT system
+ * Channel attached to a flying site
  */
-export type AudioFormat = "aac-lc" | "opus" | "pcm";
+export interface SiteChannel extends PTTChannel {
+	is_primary: boolean;
+	attached_at: string;
+}
 
 /**
- * Request payload for starting a PTT transmission
+ * Response for the site channels API
  */
-export interface PTTStartTransmissionRequest {
-	channel_uuid: string;
-	audio_format: AudioFormat;
-	sample_rate: number;
-	bitrate: number;
-	network_quality: NetworkQuality;
-	device_info?: DeviceInfo;
-	expected_duration?: number; // in seconds, max 30
-	location?: Coordinates;
-	is_emergency?: boolean;
+export interface SiteChannelsResponse {
+	site_id: string;
+	channels: SiteChannel[];
 }
 
 /**
- * Response payload for starting a PTT transmission
+ * Pilot settings shared between the iOS app and the web client
  */
-export interface PTTStartTransmissionResponse {
-	success: boolean;
-	session_id?: string;
-	max_duration_ms?: number;
-	websocket_url?: string;
-	error?: string;
+export interface UserPreferences {
+	user_id: string;
+	username: string;
+	preferred_language: string; // BCP 47 tag, e.g. "fr-FR"
+	favorite_sites: string[]; // Flying site IDs
+	auto_join_site_channels: boolean;
+	emergency_mode_enabled: boolean;
+	share_location: boolean; // Opt-out of live location tracking
+	vhf_backup_frequency?: string;
+	device_token?: string; // APNs device token for iOS notifications
+	last_location?: Coordinates;
+	created_at?: string;
+	updated_at?: string;
 }
 
 /**
- * Request payload for sending an audio chunk
+ * Request payload for updating the preferences of the current user.
+ * Set vhf_backup_frequency, device_token or last_location to null to clear them.
  */
-export interface PTTAudioChunkRequest {
-	session_id: string;
-	audio_data: string;
-	chunk_sequence: number;
-	chunk_size_bytes: number;
-	timestamp_ms: number;
+export interface UpdateUserPreferencesRequest {
+	preferred_language?: string;
+	favorite_sites?: string[];
+	auto_join_site_channels?: boolean;
+	emergency_mode_enabled?: boolean;
+	share_location?: boolean;
+	vhf_backup_frequency?: string | null;
+	device_token?: string | null;
+	last_location?: Coordinates | null;
 }
 
 /**
- * Response payload for sending an audio chunk
+ * Emergency incident lifecycle: open until a rescuer acknowledges it, closed once resolved
  */
-export interface PTTAudioChunkResponse {
-	success: boolean;
-	chunk_received?: boolean;
-	next_expected_sequence?: number;
-	error?: string;
-}
+export type IncidentStatus = "open" | "acknowledged" | "closed";
 
 /**
- * Request payload for ending a PTT transmission
+ * Origin of an incident: an emergency transmission, or a pilot who did not check in landed
  */
-export interface PTTEndTransmissionRequest {
-	session_id: string;
-	total_duration_ms: number;
-	total_chunks: number;
-	actual_sample_rate?: number;
-}
+export type IncidentType = "emergency" | "overdue";
 
 /**
- * Response payload for ending a PTT transmission
+ * Delivery state of an incident notification
  */
-export interface PTTEndTransmissionResponse {
-	success: boolean;
-	session_summary?: {
-		total_duration_ms: number;
-		chunks_received: number;
-		total_bytes: number;
-		participants_notified: number;
-		missing_chunks?: number;
-		packet_loss_rate?: number;
-	};
-	error?: string;
-}
+export type IncidentNotificationStatus = "pending" | "delivered" | "failed";
 
 /**
- * Audio chunk data structure for real-time transmission
+ * Delivery of an incident to a notifier (webhook, email, SMS)
  */
-export interface AudioChunk {
-	sequence: number;
-	data: string; // base64 encoded audio data
-	timestamp: number;
-	sizeBytes: number;
+export interface IncidentNotification {
+	notifier: string;
+	status: IncidentNotificationStatus;
+	attempts: number;
+	last_error?: string;
+	last_attempt_at?: string;
+	delivered_at?: string;
 }
 
 /**
- * Active transmission session stored in Durable Object memory
+ * Emergency incident, created when an emergency transmission starts
  */
-export interface LiveTransmission {
-	sessionId: string;
-	channelUuid: string;
-	userId: string;
+export interface EmergencyIncident {
+	id: string;
+	channel_uuid: string;
+	incident_type: IncidentType;
+	session_id: string; // Transmission that raised the incident, or check-in ID of an overdue pilot
+	user_id: string;
 	username: string;
-	startTime: number;
-	audioFormat: AudioFormat;
-	sampleRate: number;
-	bitrate: number;
-	networkQuality: NetworkQuality;
-	location?: Coordinates;
-	isEmergency: boolean;
+	location?: Coordinates; // Talker position, or last known position from the preferences
+	status: IncidentStatus;
+	created_at: string;
+	updated_at: string;
+	acknowledged_at?: string;
+	acknowledged_by?: string;
+	closed_at?: string;
+	closed_by?: string;
+	notes?: string;
+	notifications?: IncidentNotification[];
+}
 
-	// Real-time state
-	audioChunks: Map<number, { chunk: AudioChunk; expires: number }>;
-	participants: Set<WebSocket>;
-	cleanupTimeout?: number;
-	expectedSequence: number;
-	totalBytes: number;
+/**
+ * Response for the incidents list API
+ */
+export interface IncidentsListResponse {
+	incidents: EmergencyIncident[];
+	total_count: number;
 }
 
 /**
- * Detailed WebSocket message types for real-time communication
+ * Request payload for acknowledging or closing an incident
  */
-export type PTTWebSocketMessage =
-	| PTTTransmissionStartedMessage
-	| PTTAudioChunkMessage
-	| PTTTransmissionEndedMessage
-	| PTTParticipantJoinMessage
-	| PTTParticipantLeaveMessage
-	| PTTErrorMessage
-	| PTTPongMessage;
+export interface UpdateIncidentRequest {
+	notes?: string;
+}
 
-export interface PTTTransmissionStartedMessage {
-	type: "transmission_started";
-	session_id: string;
-	channel_uuid: string;
+/**
+ * Track file formats accepted by the flights API
+ */
+export type FlightTrackFormat = "igc" | "gpx";
+
+/**
+ * Fix of a recorded flight track
+ */
+export interface FlightTrackPoint {
 	timestamp_ms: number;
-	data: {
-		user_id: string;
-		username: string;
-		audio_format: AudioFormat;
-		is_emergency: boolean;
-	};
+	lat: number;
+	lon: number;
+	altitude_m?: number; // GNSS altitude, or pressure altitude when the fix has none
 }
 
-export interface PTTAudioChunkMessage {
-	type: "audio_chunk";
-	session_id: string;
-	channel_uuid: string;
-	timestamp_ms: number;
-	data: {
-		sequence: number;
-		audio_data: string;
-		size_bytes: number;
-	};
+/**
+ * Flight imported from a vario track
+ */
+export interface Flight {
+	id: string;
+	user_id: string;
+	format: FlightTrackFormat;
+	pilot_name?: string; // From the track headers
+	glider_type?: string;
+	glider_id?: string;
+	site_name?: string;
+	takeoff_time: string;
+	landing_time: string;
+	duration_seconds: number;
+	takeoff: Coordinates;
+	landing: Coordinates;
+	max_altitude_m?: number;
+	point_count: number; // Fixes in the original file
+	transmission_count: number;
+	uploaded_at: string;
 }
 
-export interface PTTTransmissionEndedMessage {
-	type: "transmission_ended";
+/**
+ * Transmission of the pilot made during a flight, placed on the track
+ */
+export interface FlightTransmissionMarker {
+	transmission_id: number;
 	session_id: string;
 	channel_uuid: string;
-	timestamp_ms: number;
-	data: {
-		user_id: string;
-		duration_ms: number;
-		total_chunks: number;
-		total_bytes: number;
-		missing_chunks?: number;
-		packet_loss_rate?: number;
-		reason?: string;
-	};
+	start_time: string;
+	duration_seconds?: number;
+	is_emergency: boolean;
+	position: Coordinates;
+	altitude_m?: number;
 }
 
-export interface PTTParticipantJoinMessage {
-	type: "participant_join";
-	userId: string;
-	username: string;
-	timestamp: number;
+/**
+ * Response for the flight details API
+ */
+export interface FlightDetailsResponse extends Flight {
+	track: FlightTrackPoint[];
+	transmissions: FlightTransmissionMarker[];
 }
 
-export interface PTTParticipantLeaveMessage {
-	type: "participant_leave";
-	userId: string;
-	timestamp: number;
-}
+/**
+ * Per-channel roles granted by an administrator
+ */
+export type ChannelRole = "moderator";
 
-export interface PTTErrorMessage {
-	type: "error";
-	session_id: string;
+/**
+ * User holding a role in a channel
+ */
+export interface ChannelModerator {
 	channel_uuid: string;
-	timestamp_ms: number;
-	data: {
-		message: string;
-		code?: string;
-	};
+	user_id: string;
+	username?: string;
+	role: ChannelRole;
+	granted_by: string;
+	granted_at: string;
 }
 
-export interface PTTPongMessage {
-	type: "pong";
-	session_id: string;
+/**
+ * Response for the channel moderators API
+ */
+export interface ChannelModeratorsResponse {
 	channel_uuid: string;
-	timestamp_ms: number;
-	data: {};
+	moderators: ChannelModerator[];
 }
 
 /**
- * Durable Object state for channel
+ * Request payload for granting the moderator role
  */
-export interface PTTChannelState {
-	channelUuid: string;
-	activeTransmission: LiveTransmission | null;
-	connectedParticipants: Map<
-		string,
-		{
-			userId: string;
-			username: string;
-			websocket: WebSocket;
-			joinedAt: number;
-		}
-	>;
-	lastActivity: number;
+export interface AddChannelModeratorRequest {
+	username?: string; // Display name of the moderator in the admin interface
 }
 
 /**
- * Transmission metadata for audit logging (minimal)
+ * Moderation actions
+ * - mute: the floor requests of the participant are refused, except emergencies
+ * - unmute: lifts a mute before its expiry
+ * - kick: closes the connections of the participant and removes them from the channel
+ * - force_end: ends the current transmission, emergencies excepted
  */
-export interface TransmissionAuditLog {
-	sessionId: string;
-	channelUuid: string;
-	userId: string;
-	clientId: string;
-	username: string;
-	startTime: string;
-	endTime?: string;
-	duration?: number;
-	audioFormat: AudioFormat;
-	chunksCount: number;
-	totalBytes: number;
-	participantCount: number;
-	isEmergency: boolean;
-	networkQuality: NetworkQuality;
-	location?: Coordinates;
-}
+export type ChannelModerationActionType =
+	"mute" | "unmute" | "kick" | "force_end";
 
 /**
- * Client identification for device-specific operations
+ * Events of the moderation audit trail, role changes included
  */
-export interface ClientInfo {
+export type ChannelModerationEventType =
+	ChannelModerationActionType | "moderator_added" | "moderator_removed";
+
+/**
+ * Moderation action requested over the REST API or the channel WebSocket
+ */
+export interface ChannelModerationRequest {
+	action: ChannelModerationActionType;
+	target_user_id?: string; // Required except for force_end
+	duration_minutes?: number; // mute only, until unmuted when missing
+	reason?: string;
+}
+
+/**
+ * Participant muted in a channel
+ */
+export interface ChannelMute {
+	channel_uuid: string;
+	user_id: string;
+	muted_by: string;
+	reason?: string;
+	muted_at: string;
+	expires_at?: string;
+}
+
+/**
+ * Moderation event recorded in the channel audit trail
+ */
+export interface ChannelModerationEntry {
+	id?: number;
+	channel_uuid: string;
+	action: ChannelModerationEventType;
+	moderator_user_id: string;
+	moderator_username: string;
+	target_user_id?: string;
+	reason?: string;
+	expires_at?: string; // mute
+	session_id?: string; // Transmission ended by the action
+	timestamp: string;
+}
+
+/**
+ * Outcome of a moderation action applied by the channel Durable Object
+ */
+export interface ChannelModerationResult {
+	success: boolean;
+	error?: string;
+	entry?: ChannelModerationEntry;
+	disconnected_connections?: number; // kick
+}
+
+/**
+ * Response for the moderation API: active mutes and recent audit trail
+ */
+export interface ChannelModerationResponse {
+	channel_uuid: string;
+	mutes: ChannelMute[];
+	actions: ChannelModerationEntry[];
+}
+
+/**
+ * Identifier of a canned text message
+ */
+export type CannedMessageId = "landed_ok" | "need_retrieve" | "wind_too_strong";
+
+/**
+ * Preset text message, sent with a single tap when speaking clearly is not an option
+ */
+export interface CannedMessage {
+	id: CannedMessageId;
+	content: string;
+}
+
+/**
+ * Text message posted in a channel, stored in channel_messages alongside the voice events
+ */
+export interface ChannelTextMessage {
+	id: number;
+	channel_uuid: string;
+	user_id: string;
+	username: string;
+	content: string;
+	canned_message_id?: CannedMessageId; // Set when the message is a canned message
+	location?: Coordinates;
+	timestamp: string;
+}
+
+/**
+ * Request payload for posting a text message, either free text or a canned message
+ */
+export interface ChannelTextMessageRequest {
+	content?: string;
+	canned_message_id?: CannedMessageId;
+	location?: Coordinates;
+}
+
+/**
+ * Response for the channel messages API, most recent first
+ */
+export interface ChannelMessagesResponse {
+	channel_uuid: string;
+	messages: ChannelTextMessage[];
+	has_more: boolean; // Older messages can be loaded with before = id of the last message
+	canned_messages: CannedMessage[];
+}
+
+/**
+ * Outcome of a text message posted through the channel Durable Object
+ */
+export interface ChannelTextMessageResult {
+	success: boolean;
+	error?: string;
+	message?: ChannelTextMessage;
+}
+
+/**
+ * Flight of a pilot on a site_local channel: flying until the pilot checks in landed,
+ * overdue when the deadline passed without check-in
+ */
+export type PilotCheckinStatus = "flying" | "landed" | "overdue";
+
+/**
+ * How a landing was reported: confirmed on the radio, with the "Landed OK" canned message, or
+ * with the landed button of the client
+ */
+export type PilotCheckinMethod = "voice" | "text" | "button";
+
+/**
+ * Landing check-in of a pilot on a site_local channel
+ */
+export interface PilotCheckin {
+	id: string;
+	channel_uuid: string;
+	user_id: string;
+	username: string;
+	status: PilotCheckinStatus;
+	flying_since?: string; // Unset for a landing reported without tracked flight
+	deadline_at?: string; // Check-in deadline, or end of the active window of the channel
+	landed_at?: string;
+	landed_via?: PilotCheckinMethod;
+	checked_in_by?: string; // Moderator who confirmed a landing reported on the radio
+	location?: Coordinates; // Landing position when reported
+	incident_id?: string; // Incident raised when the pilot became overdue
+	updated_at: string;
+}
+
+/**
+ * Request payload for a landed check-in, user_id of another pilot is reserved to moderators
+ */
+export interface PilotCheckinRequest {
+	user_id?: string;
+	username?: string;
+	via?: Exclude<PilotCheckinMethod, "text">; // Defaults to button for oneself, voice for another pilot
+	location?: Coordinates;
+}
+
+/**
+ * Response for the channel check-ins API
+ */
+export interface ChannelCheckinsResponse {
+	channel_uuid: string;
+	checkins: PilotCheckin[];
+}
+
+/**
+ * Outcome of a check-in recorded through the channel Durable Object
+ */
+export interface PilotCheckinResult {
+	success: boolean;
+	error?: string;
+	checkin?: PilotCheckin;
+}
+
+/**
+ * Request payload for joining a channel
+ */
+export interface JoinChannelRequest {
+	location?: Coordinates;
+	ephemeral_push_token?: string; // Token éphémère APNs PTT depuis iOS framework
+	device_info?: DeviceInfo;
+}
+
+/**
+ * Response payload for joining a channel
+ */
+export interface JoinChannelResponse {
+	success: boolean;
+	participant?: ChannelParticipant;
+	channel_info?: {
+		name: string;
+		participants_count: number;
+		max_participants: number;
+	};
+	error?: string;
+}
+
+/**
+ * Request payload for leaving a channel
+ */
+export interface LeaveChannelRequest {
+	ephemeral_push_token?: string; // Token éphémère pour identifier l'appareil spécifique
+}
+
+/**
+ * Response payload for leaving a channel
+ */
+export interface LeaveChannelResponse {
+	success: boolean;
+	error?: string;
+}
+
+/**
+ * Past transmission of a channel, as returned by the catch-up API
+ */
+export interface ChannelTransmissionSummary {
+	session_id: string;
+	user_id: string;
+	username: string;
+	start_time: string;
+	end_time?: string;
+	duration_seconds?: number;
+	audio_format: AudioFormat;
+	is_emergency: boolean;
+	target_user_ids?: string[]; // Private call, only listed to the talker, its targets and administrators
+	playback_url: string | null; // Only for recorded transmissions
+}
+
+/**
+ * Response for the channel transmissions catch-up API
+ */
+export interface ChannelTransmissionsResponse {
+	channel_uuid: string;
+	since: string;
+	transmissions: ChannelTransmissionSummary[];
+}
+
+/**
+ * Live position of a participant, as reported by its device
+ */
+export interface ParticipantPosition {
+	lat: number;
+	lon: number;
+	altitude_m?: number;
+	ground_speed_kmh?: number;
+	heading_deg?: number; // 0-360, clockwise from true north
+	timestamp_ms: number; // Fix time on the device
+}
+
+/**
+ * Position of a participant kept in the channel track
+ */
+export interface ParticipantPositionRecord extends ParticipantPosition {
+	user_id: string;
+	username: string;
+	recorded_at: string;
+}
+
+/**
+ * Response for the channel positions API
+ */
+export interface ChannelPositionsResponse {
+	channel_uuid: string;
+	since: string;
+	positions: ParticipantPositionRecord[];
+}
+
+/**
+ * Request payload for resolving the channels around a pilot position
+ */
+export interface NearbyChannelsResolveRequest {
+	location: Coordinates;
+	auto_join?: boolean; // Set to false to only get the suggestions, defaults to the user preference
+	ephemeral_push_token?: string;
+	device_info?: DeviceInfo;
+}
+
+/**
+ * Why a channel was suggested for a position
+ */
+export type NearbyChannelReason =
+	| "inside_site_radius" // site_local channel whose radius contains the position
+	| "nearest_emergency" // closest emergency channel
+	| "cross_country"; // cross_country channel covering the position
+
+/**
+ * Channel suggested for a position, ranked by relevance
+ */
+export interface NearbyChannelSuggestion {
+	rank: number;
+	reason: NearbyChannelReason;
+	distance_km: number | null; // Null for channels without coordinates
+	channel: PTTChannel;
+	joined: boolean;
+}
+
+/**
+ * Response for the nearby channels resolution API
+ */
+export interface NearbyChannelsResolveResponse {
+	location: Coordinates;
+	auto_join_site_channels: boolean;
+	channels: NearbyChannelSuggestion[];
+	joined_channels: string[];
+	flying_sites: (FlyingSite & { distance_km: number })[]; // Sites whose radius contains the position
+}
+
+/**
+ * Audio format types supported by the PTT system
+ */
+export type AudioFormat = "aac-lc" | "opus" | "pcm";
+
+/**
+ * Request payload for starting a PTT transmission
+ */
+export interface PTTStartTransmissionRequest {
+	channel_uuid: string;
+	audio_format: AudioFormat;
+	sample_rate: number;
+	bitrate: number;
+	network_quality: NetworkQuality;
+	device_info?: DeviceInfo;
+	expected_duration?: number; // in seconds, max 30
+	location?: Coordinates;
+	is_emergency?: boolean;
+	target_user_ids?: string[]; // Private call: only these participants hear the audio, ignored for emergencies
+}
+
+/**
+ * Response payload for starting a PTT transmission
+ */
+export interface PTTStartTransmissionResponse {
+	success: boolean;
+	session_id?: string;
+	max_duration_ms?: number;
+	websocket_url?: string;
+	error?: string;
+}
+
+/**
+ * Request payload for sending an audio chunk
+ */
+export interface PTTAudioChunkRequest {
+	session_id: string;
+	audio_data: string;
+	chunk_sequence: number;
+	chunk_size_bytes: number;
+	timestamp_ms: number;
+}
+
+/**
+ * Response payload for sending an audio chunk
+ */
+export interface PTTAudioChunkResponse {
+	success: boolean;
+	chunk_received?: boolean;
+	next_expected_sequence?: number;
+	error?: string;
+}
+
+/**
+ * Request payload for ending a PTT transmission
+ */
+export interface PTTEndTransmissionRequest {
+	session_id: string;
+	total_duration_ms: number;
+	total_chunks: number;
+	actual_sample_rate?: number;
+}
+
+/**
+ * Response payload for ending a PTT transmission
+ */
+export interface PTTEndTransmissionResponse {
+	success: boolean;
+	session_summary?: {
+		total_duration_ms: number;
+		chunks_received: number;
+		total_bytes: number;
+		participants_notified: number;
+		missing_chunks?: number;
+		recovered_chunks?: number; // Missing chunks retransmitted within the retransmission window
+		lost_chunks?: number; // Missing chunks never recovered, not heard by listeners
+		packet_loss_rate?: number;
+	};
+	error?: string;
+}
+
+/**
+ * Audio chunk data structure for real-time transmission
+ */
+export interface AudioChunk {
+	sequence: number;
+	data: string; // base64 encoded audio data
+	timestamp: number;
+	sizeBytes: number;
+}
+
+/**
+ * Active transmission session stored in Durable Object SQLite storage and cached in memory
+ */
+export interface LiveTransmission {
+	sessionId: string;
+	channelUuid: string;
+	userId: string;
+	username: string;
+	startTime: number;
+	audioFormat: AudioFormat;
+	sampleRate: number;
+	bitrate: number;
+	networkQuality: NetworkQuality;
+	location?: Coordinates;
+	isEmergency: boolean;
+	isRecording: boolean;
+	relayedFrom?: TransmissionRelaySource; // Emergency transmission mirrored from another channel
+	targetUserIds?: string[]; // Participants addressed by a private call, the whole channel when missing
+
+	// Real-time state
+	audioChunks: Map<number, { chunk: AudioChunk; expires: number }>;
+	participants: Set<WebSocket>;
+	expectedSequence: number;
+	totalBytes: number;
+}
+
+/**
+ * Origin of an emergency transmission mirrored into other channels: the channel where the
+ * talker keyed emergency and the session of the transmission in that channel
+ */
+export interface TransmissionRelaySource {
+	channel_uuid: string;
+	session_id: string;
+}
+
+/**
+ * Request sent between channel Durable Objects to mirror an emergency transmission
+ */
+export interface PTTRelayStartRequest extends PTTStartTransmissionRequest {
+	user_id: string;
+	username: string;
+	relayed_from: TransmissionRelaySource;
+}
+
+/**
+ * Participant metadata serialized as a WebSocket attachment so it survives hibernation
+ */
+export interface ConnectedParticipantAttachment {
+	userId: string;
+	username: string;
+	channelUuid: string;
+	ephemeralPushToken: string;
+	joinedAt: number;
+	protocol?: PTTWebSocketProtocol; // Negotiated subprotocol, JSON when missing
+	isAdmin?: boolean; // Administrator, allowed to moderate any channel
+	audioFormats?: AudioFormat[]; // Formats the listener can play by preference, any format when missing
+}
+
+/**
+ * Scanner connection metadata serialized as a WebSocket attachment
+ */
+export interface ScannerConnectionAttachment {
+	userId: string;
+	username: string;
+	connectedAt: number;
+}
+
+/**
+ * Participant connected to a channel Durable Object through a WebSocket
+ */
+export interface ConnectedParticipant extends ConnectedParticipantAttachment {
+	websocket: WebSocket;
+}
+
+/**
+ * WebSocket subprotocols negotiated on upgrade through `Sec-WebSocket-Protocol`
+ * - ptt.binary.v1: audio chunks are sent as binary frames (see {@link AudioFrameUtils}),
+ *   every other message stays JSON
+ * - ptt.json.v1: every message is JSON, audio chunks carry base64 data (default)
+ */
+export type PTTWebSocketProtocol = "ptt.binary.v1" | "ptt.json.v1";
+
+/**
+ * Header of a binary audio frame
+ */
+export interface AudioFrameHeader {
+	sessionHash: number; // FNV-1a hash of the transmission session ID
+	sequence: number;
+	timestampMs: number;
+	audioFormat: AudioFormat;
+	retransmitted?: boolean; // Chunk filling a gap after a retransmission request
+	replayed?: boolean; // Chunk of a past transmission replayed by a catch-up
+}
+
+/**
+ * Binary audio frame exchanged over WebSocket connections using ptt.binary.v1
+ */
+export interface AudioFrame {
+	header: AudioFrameHeader;
+	payload: Uint8Array;
+}
+
+/**
+ * Detailed WebSocket message types for real-time communication
+ */
+export type PTTWebSocketMessage =
+	| PTTTransmissionStartedMessage
+	| PTTAudioChunkMessage
+	| PTTTransmissionEndedMessage
+	| PTTParticipantJoinMessage
+	| PTTParticipantLeaveMessage
+	| PTTErrorMessage
+	| PTTPongMessage
+	| PTTFloorRequestedMessage
+	| PTTFloorGrantedMessage
+	| PTTFloorDeniedMessage
+	| PTTFloorQueuedMessage
+	| PTTCatchUpMessage
+	| PTTAckMessage
+	| PTTNackMessage
+	| PTTChunkNackMessage
+	| PTTIncidentUpdateMessage
+	| PTTPositionUpdateMessage
+	| PTTChannelClosedMessage
+	| PTTModerationActionMessage
+	| PTTScannerStateMessage
+	| PTTTextMessage
+	| PTTPilotCheckinMessage
+	| PTTPilotOverdueMessage;
+
+export interface PTTTransmissionStartedMessage {
+	type: "transmission_started";
+	session_id: string;
+	channel_uuid: string;
+	timestamp_ms: number;
+	data: {
+		user_id: string;
+		username: string;
+		audio_format: AudioFormat;
+		sample_rate: number; // Of the talker, transcoded chunks carry their own
+		is_emergency: boolean;
+		relayed_from?: TransmissionRelaySource; // Set when mirrored from another channel
+		target_user_ids?: string[]; // Set for a private call, the other participants do not get the audio
+	};
+}
+
+export interface PTTAudioChunkMessage {
+	type: "audio_chunk";
+	session_id: string;
+	channel_uuid: string;
+	timestamp_ms: number;
+	data: {
+		sequence: number;
+		audio_data: string;
+		size_bytes: number;
+		retransmitted?: boolean; // Chunk filling a gap after a retransmission request
+		replayed?: boolean; // Chunk of a past transmission replayed by a catch-up
+		audio_format?: AudioFormat; // Set when transcoded from the format of the talker, or replayed
+		sample_rate?: number; // Set with audio_format, sample rate of the chunk in Hz
+	};
+}
+
+export interface PTTTransmissionEndedMessage {
+	type: "transmission_ended";
+	session_id: string;
+	channel_uuid: string;
+	timestamp_ms: number;
+	data: {
+		user_id: string;
+		duration_ms: number;
+		total_chunks: number;
+		total_bytes: number;
+		missing_chunks?: number;
+		recovered_chunks?: number;
+		lost_chunks?: number;
+		packet_loss_rate?: number;
+		reason?: string;
+	};
+}
+
+export interface PTTParticipantJoinMessage {
+	type: "participant_join";
+	userId: string;
+	username: string;
+	timestamp: number;
+}
+
+export interface PTTParticipantLeaveMessage {
+	type: "participant_leave";
+	userId: string;
+	timestamp: number;
+}
+
+export interface PTTErrorMessage {
+	type: "error";
+	session_id: string;
+	channel_uuid: string;
+	timestamp_ms: number;
+	data: {
+		message: string;
+		code?: string;
+	};
+}
+
+export interface PTTPongMessage {
+	type: "pong";
+	session_id: string;
+	channel_uuid: string;
+	timestamp_ms: number;
+	data: {};
+}
+
+export interface PTTFloorRequestedMessage {
+	type: "floor_requested";
+	session_id: string;
+	channel_uuid: string;
+	timestamp_ms: number;
+	data: {
+		user_id: string;
+		username: string;
+		is_emergency: boolean;
+		queue_length: number;
+	};
+}
+
+export interface PTTFloorGrantedMessage {
+	type: "floor_granted";
+	session_id: string;
+	channel_uuid: string;
+	timestamp_ms: number;
+	data: {
+		user_id: string;
+		max_duration_ms: number;
+		chunk_size_limit_bytes: number;
+	};
+}
+
+export interface PTTFloorDeniedMessage {
+	type: "floor_denied";
+	session_id: string;
+	channel_uuid: string;
+	timestamp_ms: number;
+	data: {
+		user_id: string;
+		reason: string;
+	};
+}
+
+export interface PTTFloorQueuedMessage {
+	type: "floor_queued";
+	session_id: string;
+	channel_uuid: string;
+	timestamp_ms: number;
+	data: {
+		user_id: string;
+		position: number;
+		queue_length: number;
+	};
+}
+
+/**
+ * Positive answer to a transmission command sent over the channel WebSocket
+ */
+export interface PTTAckMessage {
+	type: "ack";
+	session_id: string;
+	channel_uuid: string;
+	timestamp_ms: number;
+	data: {
+		command: PTTCommand;
+		request_id?: string; // Echoed from the command
+		sequence?: number; // Acknowledged chunk (chunk command)
+		next_expected_sequence?: number;
+		max_duration_ms?: number; // start command
+		chunk_size_limit_bytes?: number; // start command
+		session_summary?: PTTEndTransmissionResponse["session_summary"]; // end command
+		message_id?: number; // text_message command
+		checkin_id?: string; // check_in command
+	};
+}
+
+/**
+ * Negative answer to a transmission command sent over the channel WebSocket
+ */
+export interface PTTNackMessage {
+	type: "nack";
+	session_id: string;
+	channel_uuid: string;
+	timestamp_ms: number;
+	data: {
+		command: PTTCommand;
+		request_id?: string; // Echoed from the command
+		sequence?: number; // Rejected chunk (chunk command)
+		next_expected_sequence?: number;
+		error: string;
+	};
+}
+
+/**
+ * Negative acknowledgement of chunks missing from the active transmission, sent to the talker
+ * so it retransmits them before the retransmission window elapses
+ */
+export interface PTTChunkNackMessage {
+	type: "chunk_nack";
+	session_id: string;
+	channel_uuid: string;
+	timestamp_ms: number;
+	data: {
+		missing_sequences: number[];
+		retransmission_window_ms: number;
+	};
+}
+
+/**
+ * Live map feed: position of a participant sharing its location
+ */
+export interface PTTPositionUpdateMessage {
+	type: "position_update";
+	session_id: string;
+	channel_uuid: string;
+	timestamp_ms: number;
+	data: {
+		user_id: string;
+		username: string;
+		position: ParticipantPosition;
+	};
+}
+
+/**
+ * Channel closed at the end of its active window, the connections are closed right after
+ */
+export interface PTTChannelClosedMessage {
+	type: "channel_closed";
+	session_id: string;
+	channel_uuid: string;
+	timestamp_ms: number;
+	data: {
+		reason: string;
+	};
+}
+
+/**
+ * Moderation action applied in the channel, sent before a kicked participant is disconnected
+ */
+export interface PTTModerationActionMessage {
+	type: "moderation_action";
+	session_id: string; // Transmission ended by the action, empty otherwise
+	channel_uuid: string;
+	timestamp_ms: number;
+	data: {
+		action: ChannelModerationActionType;
+		moderator_user_id: string;
+		moderator_username: string;
+		target_user_id?: string;
+		reason?: string;
+		expires_at?: string;
+	};
+}
+
+/**
+ * Text message posted in the channel, over the REST API or the WebSocket
+ */
+export interface PTTTextMessage {
+	type: "text_message";
+	session_id: string;
+	channel_uuid: string;
+	timestamp_ms: number;
+	data: ChannelTextMessage;
+}
+
+/**
+ * Change of the flight status of a pilot, sent to the whole channel
+ */
+export interface PTTPilotCheckinMessage {
+	type: "pilot_checkin";
+	session_id: string;
+	channel_uuid: string;
+	timestamp_ms: number;
+	data: PilotCheckin;
+}
+
+/**
+ * Overdue pilot alert, sent to the connected moderators and administrators of the channel
+ */
+export interface PTTPilotOverdueMessage {
+	type: "pilot_overdue";
+	session_id: string;
+	channel_uuid: string;
+	timestamp_ms: number;
+	data: {
+		checkin: PilotCheckin;
+		incident_id?: string;
+	};
+}
+
+/**
+ * Channel listened to by a scanner connection
+ */
+export interface ScannerSubscription {
+	channel_uuid: string;
+	channel_name: string;
+	channel_type: ChannelType;
+	priority: number; // Higher priorities duck the lower ones
+}
+
+/**
+ * Transmission in progress on a scanned channel
+ */
+export interface ScannerActivity {
+	channel_uuid: string;
+	session_id: string;
+	user_id: string;
+	username: string;
+	is_emergency: boolean;
+	started_at: number;
+}
+
+/**
+ * State of a scanner connection, sent on connection and whenever the busy channels change
+ */
+export interface PTTScannerStateMessage {
+	type: "scanner_state";
+	session_id: string; // Transmission heard in the foreground, empty when no scanned channel is busy
+	channel_uuid: string; // Channel heard in the foreground, empty when no scanned channel is busy
+	timestamp_ms: number;
+	data: {
+		channels: ScannerSubscription[];
+		active_channel_uuid: string | null; // Played at full volume
+		ducked_channel_uuids: string[]; // Busy channels of lower priority, played attenuated
+		last_active_channel_uuid: string | null; // Channel used by the talk_back command
+	};
+}
+
+/**
+ * Transmission messages forwarded by a channel Durable Object to the scanners listening to it
+ */
+export type PTTScannedMessage =
+	| PTTTransmissionStartedMessage
+	| PTTAudioChunkMessage
+	| PTTTransmissionEndedMessage;
+
+/**
+ * Status change of an emergency incident raised in the channel, so that the pilot in
+ * distress and the other participants know when rescuers acknowledged it
+ */
+export interface PTTIncidentUpdateMessage {
+	type: "incident_update";
+	session_id: string; // Transmission that raised the incident
+	channel_uuid: string;
+	timestamp_ms: number;
+	data: {
+		incident_id: string;
+		user_id: string;
+		status: IncidentStatus;
+		acknowledged_by?: string;
+	};
+}
+
+/**
+ * Replay of a missed transmission, one message per transmission in chronological order,
+ * followed by its chunks as `audio_chunk` messages flagged `replayed`
+ */
+export interface PTTCatchUpMessage {
+	type: "catch_up";
+	session_id: string;
+	channel_uuid: string;
+	timestamp_ms: number;
+	data: {
+		index: number; // 1-based position of this transmission in the catch-up
+		total: number; // Number of replayed transmissions, 0 if nothing was missed
+		transmission?: {
+			user_id: string;
+			username: string;
+			audio_format: AudioFormat;
+			sample_rate: number;
+			start_time_ms: number;
+			duration_ms: number;
+			is_emergency: boolean;
+			total_chunks: number; // Number of replayed audio chunks following this message
+		};
+	};
+}
+
+/**
+ * Floor request sent by a client over the channel WebSocket
+ */
+export interface PTTFloorRequestMessage extends Omit<
+	PTTStartTransmissionRequest,
+	"channel_uuid"
+> {
+	type: "floor_request";
+}
+
+/**
+ * Transmission commands sent by the talker over its channel WebSocket, as an alternative
+ * to the HTTP transmission API. Each command is answered with an `ack` or a `nack`.
+ */
+export type PTTTransmissionCommand = "start" | "chunk" | "end";
+
+export interface PTTStartCommandMessage extends Omit<
+	PTTStartTransmissionRequest,
+	"channel_uuid"
+> {
+	type: "start";
+	request_id?: string;
+}
+
+export interface PTTChunkCommandMessage extends PTTAudioChunkRequest {
+	type: "chunk";
+	request_id?: string;
+}
+
+export interface PTTEndCommandMessage extends PTTEndTransmissionRequest {
+	type: "end";
+	request_id?: string;
+}
+
+export type PTTTransmissionCommandMessage =
+	PTTStartCommandMessage | PTTChunkCommandMessage | PTTEndCommandMessage;
+
+/**
+ * Moderation command sent by a channel moderator over its channel WebSocket, answered with
+ * an `ack` or a `nack` like the transmission commands
+ */
+export interface PTTModerateCommandMessage extends ChannelModerationRequest {
+	type: "moderate";
+	request_id?: string;
+}
+
+/**
+ * Text message sent by a participant over its channel WebSocket, answered with an `ack`
+ * carrying the message ID or a `nack`
+ */
+export interface PTTTextMessageCommandMessage extends ChannelTextMessageRequest {
+	type: "text_message";
+	request_id?: string;
+}
+
+/**
+ * Landed check-in sent by a pilot over its channel WebSocket, answered with an `ack` carrying
+ * the check-in ID or a `nack`
+ */
+export interface PTTCheckInCommandMessage extends Omit<
+	PilotCheckinRequest,
+	"user_id" | "username"
+> {
+	type: "check_in";
+	request_id?: string;
+}
+
+/**
+ * Talk back command sent over a scanner connection: starts a transmission on the last
+ * scanned channel that was busy, the chunks then go through `chunk` and `end` commands
+ */
+export interface PTTTalkBackCommandMessage extends Omit<
+	PTTStartTransmissionRequest,
+	"channel_uuid"
+> {
+	type: "talk_back";
+	request_id?: string;
+}
+
+/**
+ * Commands answered with an `ack` or a `nack`
+ */
+export type PTTCommand =
+	| PTTTransmissionCommand
+	| "moderate"
+	| "talk_back"
+	| "text_message"
+	| "check_in";
+
+/**
+ * Position sent by a participant over the channel WebSocket, rate-limited by the Durable Object
+ */
+export interface PTTPositionUpdateRequestMessage extends Omit<
+	ParticipantPosition,
+	"timestamp_ms"
+> {
+	type: "position_update";
+	timestamp_ms?: number; // Reception time when missing
+}
+
+/**
+ * Request sent by a listener to get chunks it did not receive from the Durable Object buffer
+ */
+export interface PTTRetransmitRequestMessage {
+	type: "retransmit_request";
+	session_id: string;
+	sequences: number[];
+}
+
+/**
+ * Floor request waiting in the Durable Object floor-control queue
+ */
+export interface QueuedFloorRequest {
+	position: number;
+	userId: string;
+	username: string;
+	isEmergency: boolean;
+	request: PTTStartTransmissionRequest;
+	requestedAt: number;
+}
+
+/**
+ * Durable Object state for channel
+ */
+export interface PTTChannelState {
+	channelUuid: string;
+	activeTransmission: LiveTransmission | null;
+	connectedParticipants: Map<
+		string,
+		{
+			userId: string;
+			username: string;
+			websocket: WebSocket;
+			joinedAt: number;
+		}
+	>;
+	lastActivity: number;
+}
+
+/**
+ * Transmission metadata for audit logging (minimal)
+ */
+export interface TransmissionAuditLog {
+	sessionId: string;
+	channelUuid: string;
+	userId: string;
+	clientId: string;
+	username: string;
+	startTime: string;
+	endTime?: string;
+	duration?: number;
+	audioFormat: AudioFormat;
+	chunksCount: number;
+	totalBytes: number;
+	participantCount: number;
+	isEmergency: boolean;
+	networkQuality: NetworkQuality;
+	location?: Coordinates;
+	recordingKey?: string;
+	targetUserIds?: string[];
+}
+
+/**
+ * Client identification for device-specific operations
+ */
+export interface ClientInfo {
 	clientId: string;
 	userId: string;
 	userAgent?: string;
@@ -540,3 +1609,111 @@ export class ClientIdUtils {
 		return parts.length === 4 && parts[0].length > 0 && parts[1].length > 0 && parts[2].length > 0 && parts[3].length > 0;
 	}
 }
+
+/**
+ * Encoding and decoding of binary audio frames
+ *
+ * Frame layout (big-endian, 20-byte header followed by the raw audio payload):
+ * - byte 0: frame version (1)
+ * - byte 1: audio format (0: aac-lc, 1: opus, 2: pcm)
+ * - bytes 2-3: flags (bit 0: retransmitted chunk, bit 1: replayed chunk)
+ * - bytes 4-7: session ID hash (uint32)
+ * - bytes 8-11: chunk sequence (uint32)
+ * - bytes 12-19: timestamp in milliseconds (float64)
+ */
+export class AudioFrameUtils {
+	static readonly BINARY_PROTOCOL: PTTWebSocketProtocol = "ptt.binary.v1";
+	static readonly JSON_PROTOCOL: PTTWebSocketProtocol = "ptt.json.v1";
+	static readonly VERSION = 1;
+	static readonly HEADER_SIZE = 20;
+	private static readonly FORMATS: AudioFormat[] = ["aac-lc", "opus", "pcm"];
+
+	/**
+	 * Hash a session ID so frames can reference it in 4 bytes
+	 *
+	 * @param sessionId - Transmission session ID
+	 * @returns 32-bit FNV-1a hash of the session ID
+	 */
+	static hashSessionId(sessionId: string): number {
+		let hash = 0x811c9dc5;
+
+		for (let i = 0; i < sessionId.length; i++) {
+			hash ^= sessionId.charCodeAt(i);
+			hash = Math.imul(hash, 0x01000193);
+		}
+
+		return hash >>> 0;
+	}
+
+	/**
+	 * Build a binary audio frame
+	 *
+	 * @param header - Frame header
+	 * @param payload - Raw audio data
+	 * @returns Encoded frame
+	 */
+	static encode(header: AudioFrameHeader, payload: Uint8Array): Uint8Array {
+		const frame = new Uint8Array(this.HEADER_SIZE + payload.length);
+		const view = new DataView(frame.buffer);
+
+		view.setUint8(0, this.VERSION);
+		view.setUint8(1, Math.max(this.FORMATS.indexOf(header.audioFormat), 0));
+		view.setUint16(
+			2,
+			(header.retransmitted ? 1 : 0) | (header.replayed ? 2 : 0),
+		);
+		view.setUint32(4, header.sessionHash >>> 0);
+		view.setUint32(8, header.sequence);
+		view.setFloat64(12, header.timestampMs);
+		frame.set(payload, this.HEADER_SIZE);
+
+		return frame;
+	}
+
+	/**
+	 * Parse a binary audio frame
+	 *
+	 * @param data - Received binary message
+	 * @returns The decoded frame, or null if the data is not a supported audio frame
+	 */
+	static decode(data: ArrayBuffer | Uint8Array): AudioFrame | null {
+		const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+
+		if (bytes.length < this.HEADER_SIZE) return null;
+
+		const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+		const audioFormat = this.FORMATS[view.getUint8(1)];
+
+		if (view.getUint8(0) !== this.VERSION || !audioFormat) return null;
+
+		return {
+			header: {
+				sessionHash: view.getUint32(4),
+				sequence: view.getUint32(8),
+				timestampMs: view.getFloat64(12),
+				audioFormat,
+				retransmitted: (view.getUint16(2) & 1) === 1,
+				replayed: (view.getUint16(2) & 2) === 2,
+			},
+			payload: bytes.subarray(this.HEADER_SIZE),
+		};
+	}
+
+	/**
+	 * Select the subprotocol to use from the `Sec-WebSocket-Protocol` request header
+	 *
+	 * @param header - Comma separated subprotocols offered by the client
+	 * @returns The preferred supported subprotocol, JSON when none was offered,
+	 *   or null if none of the offered subprotocols is supported
+	 */
+	static negotiateProtocol(header: string | null): PTTWebSocketProtocol | null {
+		if (!header) return this.JSON_PROTOCOL;
+
+		const offered = header.split(",").map((protocol) => protocol.trim());
+
+		if (offered.includes(this.BINARY_PROTOCOL)) return this.BINARY_PROTOCOL;
+		if (offered.includes(this.JSON_PROTOCOL)) return this.JSON_PROTOCOL;
+
+		return null;
+	}
+}
@@ -0,0 +1,304 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import opusModule from "../wasm/opus.wasm";
+
+/**
+ * WebAssembly codec of the audio transcoding: libopus (BSD-3-Clause) as built by @evan/opus (MIT)
+ *
+ * Workers cannot compile WebAssembly at runtime: the module is imported as a .wasm file that
+ * wrangler bundles precompiled, and only instantiated here. It is generated in src/wasm by
+ * the build script, scripts/build-wasm.mjs.
+ */
+
+/** Sample rate of the Opus codec in Hz */
+export const OPUS_SAMPLE_RATE = 48000;
+
+/** Samples of an encoded Opus frame, 20 ms at 48 kHz */
+export const OPUS_FRAME_SAMPLES = 960;
+
+// 120 ms at 48 kHz, the longest Opus packet
+const OPUS_MAX_PACKET_SAMPLES = 5760;
+// Size of the output buffer recommended by libopus
+const OPUS_MAX_PACKET_BYTES = 4000;
+const OPUS_APPLICATION_VOIP = 2048;
+const OPUS_SET_BITRATE = 4002;
+const OPUS_GET_LOOKAHEAD = 4027;
+
+/**
+ * Exports of the libopus module
+ */
+interface OpusExports {
+	memory: WebAssembly.Memory;
+	_initialize?: () => void;
+	malloc(size: number): number;
+	free(pointer: number): void;
+	opus_strerror(code: number): number;
+	opus_decoder_get_size(channels: number): number;
+	opus_decoder_init(
+		decoder: number,
+		sampleRate: number,
+		channels: number,
+	): number;
+	opus_decode(
+		decoder: number,
+		data: number,
+		length: number,
+		pcm: number,
+		frameSize: number,
+		decodeFec: number,
+	): number;
+	opus_encoder_get_size(channels: number): number;
+	opus_encoder_init(
+		encoder: number,
+		sampleRate: number,
+		channels: number,
+		application: number,
+	): number;
+	opus_encode(
+		encoder: number,
+		pcm: number,
+		frameSize: number,
+		data: number,
+		maxDataBytes: number,
+	): number;
+	opus_encoder_ctl_set(encoder: number, request: number, value: number): number;
+	opus_encoder_ctl_get(encoder: number, request: number): number;
+}
+
+let opusExports: Promise<OpusExports> | null = null;
+
+/**
+ * Instantiate libopus once per isolate
+ */
+function loadOpus(): Promise<OpusExports> {
+	opusExports ??= (async () => {
+		const instance = await WebAssembly.instantiate(opusModule, {
+			wasi_snapshot_preview1: {
+				fd_seek: () => 0,
+				fd_write: () => 0,
+				fd_close: () => 0,
+				proc_exit: (code: number) => {
+					throw new Error(`libopus exited with code ${code}`);
+				},
+			},
+			// Memory views are created on each call, nothing to update
+			env: { emscripten_notify_memory_growth: () => {} },
+		});
+		const exports = instance.exports as unknown as OpusExports;
+
+		exports._initialize?.();
+
+		return exports;
+	})().catch((error) => {
+		opusExports = null;
+		throw error;
+	});
+
+	return opusExports;
+}
+
+/**
+ * Mono Opus decoder at 48 kHz, stereo packets are mixed down by libopus
+ */
+export class OpusDecoder {
+	private decoder: number;
+	private input: number;
+	private inputSize = OPUS_MAX_PACKET_BYTES;
+	private output: number;
+
+	private constructor(private readonly opus: OpusExports) {
+		this.decoder = opus.malloc(opus.opus_decoder_get_size(1));
+		this.input = opus.malloc(this.inputSize);
+		this.output = opus.malloc(OPUS_MAX_PACKET_SAMPLES * 2);
+
+		const result = opus.opus_decoder_init(this.decoder, OPUS_SAMPLE_RATE, 1);
+
+		if (result < 0) {
+			this.free();
+			throw new Error(`Opus decoder init failed: ${opusError(opus, result)}`);
+		}
+	}
+
+	/**
+	 * Create a decoder, loading libopus with the first one
+	 */
+	static async create(): Promise<OpusDecoder> {
+		return new OpusDecoder(await loadOpus());
+	}
+
+	/**
+	 * Decode an Opus packet
+	 * @param packet Opus packet
+	 * @returns Samples between -1 and 1 at 48 kHz
+	 */
+	decode(packet: Uint8Array): Float32Array {
+		const opus = this.opus;
+
+		if (packet.length > this.inputSize) {
+			opus.free(this.input);
+			this.inputSize = packet.length;
+			this.input = opus.malloc(this.inputSize);
+		}
+
+		new Uint8Array(opus.memory.buffer, this.input, packet.length).set(packet);
+
+		const count = opus.opus_decode(
+			this.decoder,
+			this.input,
+			packet.length,
+			this.output,
+			OPUS_MAX_PACKET_SAMPLES,
+			0,
+		);
+
+		if (count < 0) {
+			throw new Error(`Opus decode failed: ${opusError(opus, count)}`);
+		}
+
+		const pcm = new Int16Array(opus.memory.buffer, this.output, count);
+
+		return Float32Array.from(pcm, (sample) => sample / 0x8000);
+	}
+
+	/**
+	 * Release the decoder
+	 */
+	free() {
+		this.opus.free(this.decoder);
+		this.opus.free(this.input);
+		this.opus.free(this.output);
+		this.decoder = this.input = this.output = 0;
+	}
+}
+
+/**
+ * Mono Opus encoder at 48 kHz for voice
+ */
+export class OpusEncoder {
+	private encoder: number;
+	private input: number;
+	private output: number;
+
+	private constructor(
+		private readonly opus: OpusExports,
+		bitrateKbps: number,
+	) {
+		this.encoder = opus.malloc(opus.opus_encoder_get_size(1));
+		this.input = opus.malloc(OPUS_FRAME_SAMPLES * 2);
+		this.output = opus.malloc(OPUS_MAX_PACKET_BYTES);
+
+		let result = opus.opus_encoder_init(
+			this.encoder,
+			OPUS_SAMPLE_RATE,
+			1,
+			OPUS_APPLICATION_VOIP,
+		);
+
+		if (result >= 0) {
+			result = opus.opus_encoder_ctl_set(
+				this.encoder,
+				OPUS_SET_BITRATE,
+				bitrateKbps * 1000,
+			);
+		}
+
+		if (result < 0) {
+			this.free();
+			throw new Error(`Opus encoder init failed: ${opusError(opus, result)}`);
+		}
+	}
+
+	/**
+	 * Create an encoder, loading libopus with the first one
+	 * @param bitrateKbps Bitrate in kbit/s
+	 */
+	static async create(bitrateKbps: number): Promise<OpusEncoder> {
+		return new OpusEncoder(await loadOpus(), bitrateKbps);
+	}
+
+	/**
+	 * Samples at 48 kHz the encoder adds at the start of the stream
+	 */
+	get lookahead(): number {
+		return this.opus.opus_encoder_ctl_get(this.encoder, OPUS_GET_LOOKAHEAD);
+	}
+
+	/**
+	 * Encode a frame
+	 * @param frame OPUS_FRAME_SAMPLES samples between -1 and 1 at 48 kHz, clipped when out of range
+	 * @returns Opus packet
+	 */
+	encode(frame: Float32Array): Uint8Array {
+		const opus = this.opus;
+		const pcm = new Int16Array(
+			opus.memory.buffer,
+			this.input,
+			OPUS_FRAME_SAMPLES,
+		);
+
+		for (let i = 0; i < OPUS_FRAME_SAMPLES; i++) {
+			const sample = Math.max(-1, Math.min(1, frame[i]));
+
+			pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+		}
+
+		const length = opus.opus_encode(
+			this.encoder,
+			this.input,
+			OPUS_FRAME_SAMPLES,
+			this.output,
+			OPUS_MAX_PACKET_BYTES,
+		);
+
+		if (length < 0) {
+			throw new Error(`Opus encode failed: ${opusError(opus, length)}`);
+		}
+
+		return new Uint8Array(opus.memory.buffer, this.output, length).slice();
+	}
+
+	/**
+	 * Release the encoder
+	 */
+	free() {
+		this.opus.free(this.encoder);
+		this.opus.free(this.input);
+		this.opus.free(this.output);
+		this.encoder = this.input = this.output = 0;
+	}
+}
+
+/**
+ * Error message of a libopus error code
+ */
+function opusError(opus: OpusExports, code: number): string {
+	const memory = new Uint8Array(opus.memory.buffer);
+	let message = "";
+
+	for (let i = opus.opus_strerror(code); memory[i] !== 0; i++) {
+		message += String.fromCharCode(memory[i]);
+	}
+
+	return message || `error ${code}`;
+}
@@ -0,0 +1,247 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { AudioFormat, LiveTransmission } from "../types/ptt";
+
+/**
+ * Playable audio file assembled from the chunks of a transmission
+ */
+export interface AssembledRecording {
+	data: Uint8Array;
+	contentType: string;
+	extension: string;
+}
+
+/** Sampling frequencies indexed as in the ADTS header (ISO/IEC 14496-3) */
+const ADTS_SAMPLING_FREQUENCIES = [
+	96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025,
+	8000, 7350,
+];
+
+/**
+ * Decode base64 audio data as sent in audio chunks
+ * @param base64 Base64 encoded data
+ * @returns Decoded bytes
+ */
+export function decodeBase64Audio(base64: string): Uint8Array {
+	const binaryString = atob(base64);
+	const bytes = new Uint8Array(binaryString.length);
+
+	for (let i = 0; i < binaryString.length; i++) {
+		bytes[i] = binaryString.charCodeAt(i);
+	}
+
+	return bytes;
+}
+
+/**
+ * Encode raw audio data as base64, as sent in JSON audio chunks
+ * @param bytes Raw audio data
+ * @returns Base64 encoded data
+ */
+export function encodeBase64Audio(bytes: Uint8Array): string {
+	let binaryString = "";
+
+	// Convert by blocks to stay below the maximum number of function arguments
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binaryString += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+
+	return btoa(binaryString);
+}
+
+/**
+ * Assemble the audio chunks of a transmission into a single playable file
+ * - opus: chunks are WebM fragments produced by MediaRecorder, concatenated as is
+ * - aac-lc: chunks are ADTS frames, raw AAC frames get an ADTS header
+ * - pcm: 16-bit mono samples wrapped in a WAV container
+ * @param audioFormat Audio format of the transmission
+ * @param sampleRate Sample rate of the transmission in Hz
+ * @param chunks Decoded audio chunks ordered by sequence
+ * @returns Assembled recording with its content type and file extension
+ */
+export function assembleRecording(
+	audioFormat: AudioFormat,
+	sampleRate: number,
+	chunks: Uint8Array[],
+): AssembledRecording {
+	switch (audioFormat) {
+		case "aac-lc":
+			return {
+				data: concatChunks(
+					chunks.map((chunk) => toADTSFrame(chunk, sampleRate)),
+				),
+				contentType: "audio/aac",
+				extension: "aac",
+			};
+
+		case "pcm":
+			return {
+				data: wrapPCMInWAV(concatChunks(chunks), sampleRate),
+				contentType: "audio/wav",
+				extension: "wav",
+			};
+
+		case "opus":
+		default:
+			return {
+				data: concatChunks(chunks),
+				contentType: "audio/webm",
+				extension: "webm",
+			};
+	}
+}
+
+/**
+ * Store the recording of a transmission in R2
+ * The file is stored under `recordings/{channel_uuid}/{session_id}.{extension}` with the
+ * transmission identity as custom metadata.
+ * @param bucket R2 bucket of the recordings
+ * @param transmission Recorded transmission
+ * @param chunks Decoded audio chunks ordered by sequence
+ * @returns The R2 object key
+ */
+export async function putRecording(
+	bucket: R2Bucket,
+	transmission: Pick<
+		LiveTransmission,
+		| "sessionId"
+		| "channelUuid"
+		| "userId"
+		| "startTime"
+		| "isEmergency"
+		| "audioFormat"
+		| "sampleRate"
+	>,
+	chunks: Uint8Array[],
+): Promise<string> {
+	const recording = assembleRecording(
+		transmission.audioFormat,
+		transmission.sampleRate,
+		chunks,
+	);
+	const key = `recordings/${transmission.channelUuid}/${transmission.sessionId}.${recording.extension}`;
+
+	await bucket.put(key, recording.data, {
+		httpMetadata: { contentType: recording.contentType },
+		customMetadata: {
+			sessionId: transmission.sessionId,
+			channelUuid: transmission.channelUuid,
+			userId: transmission.userId,
+			startTime: new Date(transmission.startTime).toISOString(),
+			isEmergency: String(transmission.isEmergency),
+		},
+	});
+
+	return key;
+}
+
+/**
+ * Get an AAC-LC chunk as an ADTS frame, raw frames get an ADTS header
+ * @param chunk ADTS or raw AAC-LC mono frame
+ * @param sampleRate Sample rate of the transmission in Hz
+ * @returns ADTS frame
+ */
+export function toADTSFrame(chunk: Uint8Array, sampleRate: number): Uint8Array {
+	return isADTSFrame(chunk) ? chunk : addADTSHeader(chunk, sampleRate);
+}
+
+/**
+ * Concatenate audio chunks into a single buffer
+ */
+function concatChunks(chunks: Uint8Array[]): Uint8Array {
+	const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+	const data = new Uint8Array(totalLength);
+	let offset = 0;
+
+	for (const chunk of chunks) {
+		data.set(chunk, offset);
+		offset += chunk.length;
+	}
+
+	return data;
+}
+
+/**
+ * Check whether a chunk starts with an ADTS sync word
+ */
+function isADTSFrame(chunk: Uint8Array): boolean {
+	return chunk.length > 7 && chunk[0] === 0xff && (chunk[1] & 0xf6) === 0xf0;
+}
+
+/**
+ * Prefix a raw AAC-LC mono frame with a 7-byte ADTS header (no CRC)
+ */
+function addADTSHeader(frame: Uint8Array, sampleRate: number): Uint8Array {
+	const profile = 1; // AAC LC (audio object type 2)
+	const channelConfig = 1; // Mono
+	const frequencyIndex = ADTS_SAMPLING_FREQUENCIES.indexOf(sampleRate);
+	const samplingIndex = frequencyIndex >= 0 ? frequencyIndex : 4; // Default 44.1 kHz
+	const frameLength = frame.length + 7;
+	const data = new Uint8Array(frameLength);
+
+	data[0] = 0xff;
+	data[1] = 0xf1;
+	data[2] = (profile << 6) | (samplingIndex << 2) | (channelConfig >> 2);
+	data[3] = ((channelConfig & 3) << 6) | (frameLength >> 11);
+	data[4] = (frameLength >> 3) & 0xff;
+	data[5] = ((frameLength & 7) << 5) | 0x1f;
+	data[6] = 0xfc;
+	data.set(frame, 7);
+
+	return data;
+}
+
+/**
+ * Wrap 16-bit mono PCM samples in a WAV container
+ */
+function wrapPCMInWAV(samples: Uint8Array, sampleRate: number): Uint8Array {
+	const channels = 1;
+	const bitsPerSample = 16;
+	const blockAlign = (channels * bitsPerSample) / 8;
+	const data = new Uint8Array(44 + samples.length);
+	const view = new DataView(data.buffer);
+	const writeString = (offset: number, value: string) => {
+		for (let i = 0; i < value.length; i++) {
+			view.setUint8(offset + i, value.charCodeAt(i));
+		}
+	};
+
+	writeString(0, "RIFF");
+	view.setUint32(4, 36 + samples.length, true);
+	writeString(8, "WAVE");
+	writeString(12, "fmt ");
+	view.setUint32(16, 16, true); // fmt chunk size
+	view.setUint16(20, 1, true); // PCM
+	view.setUint16(22, channels, true);
+	view.setUint32(24, sampleRate, true);
+	view.setUint32(28, sampleRate * blockAlign, true);
+	view.setUint16(32, blockAlign, true);
+	view.setUint16(34, bitsPerSample, true);
+	writeString(36, "data");
+	view.setUint32(40, samples.length, true);
+	data.set(samples, 44);
+
+	return data;
+}
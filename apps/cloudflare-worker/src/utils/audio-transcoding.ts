@@ -0,0 +1,234 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { AudioFormat } from "../types/ptt";
+
+/**
+ * Audio formats a talker can send
+ */
+export const AUDIO_FORMATS: AudioFormat[] = ["aac-lc", "opus", "pcm"];
+
+/**
+ * Audio formats the worker can decode. AAC-LC is not: the open source AAC decoders are GPL or
+ * LGPL licensed, which this MIT licensed worker does not bundle.
+ */
+export const DECODED_AUDIO_FORMATS: AudioFormat[] = ["opus", "pcm"];
+
+/**
+ * Audio formats the worker can encode
+ */
+export const TRANSCODED_AUDIO_FORMATS: AudioFormat[] = ["opus", "pcm"];
+
+/**
+ * Sample rate of the transcoded PCM, enough for voice and the rate of the PCM recorded by the iOS app
+ */
+export const TRANSCODED_PCM_SAMPLE_RATE = 16000;
+
+/**
+ * Bitrate of the transcoded Opus
+ */
+export const TRANSCODED_OPUS_BITRATE_KBPS = 32;
+
+/**
+ * Sample rate of the audio transcoded to a format, the Opus codec runs at 48 kHz
+ * @param audioFormat - Format the worker encodes
+ * @returns The sample rate in Hz
+ */
+export function getTranscodedSampleRate(audioFormat: AudioFormat): number {
+	return audioFormat === "pcm" ? TRANSCODED_PCM_SAMPLE_RATE : 48000;
+}
+
+/**
+ * Parse the audio formats a listener declares on WebSocket upgrade.
+ *
+ * The value is a comma-separated list of formats by decreasing preference. Duplicates keep
+ * their first entry.
+ *
+ * @param value - Value of the `audioFormats` query parameter
+ * @returns The accepted formats, undefined when the listener declared none, or the validation error
+ */
+export function parseAudioFormats(value: string | null): {
+	formats?: AudioFormat[];
+	error?: string;
+} {
+	if (value === null) return {};
+
+	const formats: AudioFormat[] = [];
+
+	for (const entry of value.split(",")) {
+		const format = entry.trim().toLowerCase() as AudioFormat;
+
+		if (!AUDIO_FORMATS.includes(format)) {
+			return {
+				error: `Invalid audioFormats - expected a list of ${AUDIO_FORMATS.join(", ")}, got ${entry}`,
+			};
+		}
+
+		if (!formats.includes(format)) {
+			formats.push(format);
+		}
+	}
+
+	return { formats };
+}
+
+/**
+ * Choose the format in which a listener receives the audio of a transmission.
+ *
+ * A listener gets the format of the talker when it accepts it or declared no format, else its
+ * preferred format among the ones the worker can encode. A listener accepting no format the
+ * worker can encode, or listening to a talker whose format the worker cannot decode, gets the
+ * format of the talker.
+ *
+ * @param sourceFormat - Audio format sent by the talker
+ * @param acceptedFormats - Formats declared by the listener, by decreasing preference
+ * @returns The audio format sent to the listener
+ */
+export function selectListenerFormat(
+	sourceFormat: AudioFormat,
+	acceptedFormats?: AudioFormat[],
+): AudioFormat {
+	if (
+		!acceptedFormats?.length ||
+		acceptedFormats.includes(sourceFormat) ||
+		!DECODED_AUDIO_FORMATS.includes(sourceFormat)
+	) {
+		return sourceFormat;
+	}
+
+	return (
+		acceptedFormats.find((format) =>
+			TRANSCODED_AUDIO_FORMATS.includes(format),
+		) ?? sourceFormat
+	);
+}
+
+/**
+ * Convert 16-bit little-endian PCM samples to float samples
+ * @param bytes 16-bit little-endian PCM samples
+ * @returns Samples between -1 and 1
+ */
+export function pcm16ToFloat32(bytes: Uint8Array): Float32Array {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const samples = new Float32Array(Math.floor(bytes.byteLength / 2));
+
+	for (let i = 0; i < samples.length; i++) {
+		samples[i] = view.getInt16(i * 2, true) / 0x8000;
+	}
+
+	return samples;
+}
+
+/**
+ * Convert float samples to 16-bit little-endian PCM samples, clipping out of range samples
+ * @param samples Samples between -1 and 1
+ * @returns 16-bit little-endian PCM samples
+ */
+export function float32ToPcm16(samples: Float32Array): Uint8Array {
+	const bytes = new Uint8Array(samples.length * 2);
+	const view = new DataView(bytes.buffer);
+
+	for (let i = 0; i < samples.length; i++) {
+		const sample = Math.max(-1, Math.min(1, samples[i]));
+
+		view.setInt16(i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+	}
+
+	return bytes;
+}
+
+/**
+ * Concatenate decoded samples
+ * @param parts Samples in order
+ * @returns All the samples
+ */
+export function concatSamples(parts: Float32Array[]): Float32Array {
+	if (parts.length === 1) return parts[0];
+
+	const samples = new Float32Array(
+		parts.reduce((sum, part) => sum + part.length, 0),
+	);
+	let offset = 0;
+
+	for (const part of parts) {
+		samples.set(part, offset);
+		offset += part.length;
+	}
+
+	return samples;
+}
+
+/**
+ * Streaming linear resampler for mono samples.
+ *
+ * The position between the chunks of a transmission is kept, so that resampling the chunks
+ * one by one gives the same samples as resampling the whole transmission.
+ */
+export class LinearResampler {
+	private readonly step: number;
+	private position = 0; // Position of the next output sample, relative to the previous last sample
+	private previous: number | null = null; // Last input sample of the previous chunk
+
+	/**
+	 * @param fromRate - Sample rate of the input in Hz
+	 * @param toRate - Sample rate of the output in Hz
+	 */
+	constructor(
+		private readonly fromRate: number,
+		private readonly toRate: number,
+	) {
+		this.step = fromRate / toRate;
+	}
+
+	/**
+	 * Resample the next chunk of the stream
+	 * @param samples Input samples
+	 * @returns Output samples
+	 */
+	process(samples: Float32Array): Float32Array {
+		if (this.fromRate === this.toRate) return samples;
+		if (samples.length === 0) return samples;
+
+		// The last sample of the previous chunk comes first, at index 0
+		const offset = this.previous === null ? 0 : 1;
+		const length = samples.length + offset;
+		const at = (index: number) =>
+			index < offset ? (this.previous as number) : samples[index - offset];
+		const output: number[] = [];
+
+		while (this.position <= length - 1) {
+			const index = Math.floor(this.position);
+			const fraction = this.position - index;
+			const next = index + 1 < length ? at(index + 1) : at(index);
+
+			output.push(at(index) + (next - at(index)) * fraction);
+			this.position += this.step;
+		}
+
+		// Continue from the last sample of this chunk
+		this.position -= length - 1;
+		this.previous = samples[samples.length - 1];
+
+		return Float32Array.from(output);
+	}
+}
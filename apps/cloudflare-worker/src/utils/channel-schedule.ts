@@ -0,0 +1,284 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { ChannelActiveWindow } from "../types/ptt";
+
+/**
+ * Maximum number of activation windows on a channel
+ */
+export const MAX_ACTIVE_WINDOWS = 50;
+
+const LOCAL_DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/;
+const LOCAL_TIME_PATTERN = /^(\d{2}):(\d{2})$/;
+
+/**
+ * Local date and time of an instant in a timezone
+ */
+interface LocalDateTime {
+	date: string; // YYYY-MM-DD
+	time: string; // HH:mm
+	weekday: number; // 0 = Sunday
+}
+
+/**
+ * Check that a value is a HH:mm time
+ */
+function isValidLocalTime(value: unknown): value is string {
+	if (typeof value !== "string") {
+		return false;
+	}
+	const match = LOCAL_TIME_PATTERN.exec(value);
+
+	return !!match && Number(match[1]) < 24 && Number(match[2]) < 60;
+}
+
+/**
+ * Check that a value is a YYYY-MM-DDTHH:mm date and time
+ */
+function isValidLocalDateTime(value: unknown): value is string {
+	if (typeof value !== "string") {
+		return false;
+	}
+	const match = LOCAL_DATE_TIME_PATTERN.exec(value);
+
+	if (!match) {
+		return false;
+	}
+	const [year, month, day] = [
+		Number(match[1]),
+		Number(match[2]),
+		Number(match[3]),
+	];
+	const date = new Date(Date.UTC(year, month - 1, day));
+
+	return (
+		date.getUTCFullYear() === year &&
+		date.getUTCMonth() === month - 1 &&
+		date.getUTCDate() === day &&
+		isValidLocalTime(`${match[4]}:${match[5]}`)
+	);
+}
+
+/**
+ * Check that a value is an IANA timezone known by the runtime
+ */
+function isValidTimezone(value: unknown): value is string {
+	if (typeof value !== "string" || value.length === 0) {
+		return false;
+	}
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone: value });
+
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Validate the activation windows of a channel
+ * @param windows Windows received from a client
+ * @returns Error message, or null when the windows are valid
+ */
+export function validateActiveWindows(windows: unknown): string | null {
+	if (!Array.isArray(windows)) {
+		return "active_windows must be an array";
+	}
+	if (windows.length > MAX_ACTIVE_WINDOWS) {
+		return `active_windows cannot contain more than ${MAX_ACTIVE_WINDOWS} windows`;
+	}
+
+	for (const [index, activeWindow] of windows.entries()) {
+		const prefix = `active_windows[${index}]`;
+
+		if (!activeWindow || typeof activeWindow !== "object") {
+			return `${prefix} must be an object`;
+		}
+		if (!isValidTimezone(activeWindow.timezone)) {
+			return `${prefix}.timezone must be a valid IANA timezone`;
+		}
+		if (
+			activeWindow.label !== undefined &&
+			(typeof activeWindow.label !== "string" ||
+				activeWindow.label.length > 100)
+		) {
+			return `${prefix}.label must be a string of at most 100 characters`;
+		}
+
+		if (activeWindow.type === "once") {
+			if (
+				!isValidLocalDateTime(activeWindow.start) ||
+				!isValidLocalDateTime(activeWindow.end)
+			) {
+				return `${prefix}.start and end must be local date times formatted as YYYY-MM-DDTHH:mm`;
+			}
+			if (activeWindow.start >= activeWindow.end) {
+				return `${prefix}.start must be before end`;
+			}
+		} else if (activeWindow.type === "weekly") {
+			if (
+				!Array.isArray(activeWindow.days) ||
+				activeWindow.days.length === 0 ||
+				activeWindow.days.some(
+					(day: unknown) =>
+						!Number.isInteger(day) ||
+						(day as number) < 0 ||
+						(day as number) > 6,
+				) ||
+				new Set(activeWindow.days).size !== activeWindow.days.length
+			) {
+				return `${prefix}.days must list distinct days between 0 (Sunday) and 6 (Saturday)`;
+			}
+			if (
+				!isValidLocalTime(activeWindow.start_time) ||
+				!isValidLocalTime(activeWindow.end_time)
+			) {
+				return `${prefix}.start_time and end_time must be local times formatted as HH:mm`;
+			}
+			if (activeWindow.start_time === activeWindow.end_time) {
+				return `${prefix}.start_time and end_time must differ`;
+			}
+		} else {
+			return `${prefix}.type must be 'once' or 'weekly'`;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Local date, time and weekday of an instant in a timezone
+ */
+function toLocalDateTime(at: Date, timezone: string): LocalDateTime {
+	const parts: Record<string, string> = {};
+	const formatter = new Intl.DateTimeFormat("en-US", {
+		timeZone: timezone,
+		year: "numeric",
+		month: "2-digit",
+		day: "2-digit",
+		hour: "2-digit",
+		minute: "2-digit",
+		hourCycle: "h23",
+	});
+
+	for (const part of formatter.formatToParts(at)) {
+		parts[part.type] = part.value;
+	}
+
+	const date = `${parts.year}-${parts.month}-${parts.day}`;
+	const weekday = new Date(
+		Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day)),
+	).getUTCDay();
+
+	return { date, time: `${parts.hour}:${parts.minute}`, weekday };
+}
+
+/**
+ * Whether an instant falls inside one activation window
+ */
+function isWithinWindow(activeWindow: ChannelActiveWindow, at: Date): boolean {
+	const local = toLocalDateTime(at, activeWindow.timezone);
+
+	if (activeWindow.type === "once") {
+		const now = `${local.date}T${local.time}`;
+
+		return activeWindow.start <= now && now < activeWindow.end;
+	}
+
+	if (activeWindow.start_time < activeWindow.end_time) {
+		return (
+			activeWindow.days.includes(local.weekday) &&
+			activeWindow.start_time <= local.time &&
+			local.time < activeWindow.end_time
+		);
+	}
+
+	// Overnight window: started on a listed day and ends on the next one
+	const previousDay = (local.weekday + 6) % 7;
+
+	return (
+		(activeWindow.days.includes(local.weekday) &&
+			local.time >= activeWindow.start_time) ||
+		(activeWindow.days.includes(previousDay) &&
+			local.time < activeWindow.end_time)
+	);
+}
+
+/**
+ * Whether a channel with these activation windows is open at an instant.
+ * Channels without windows are not scheduled and always open.
+ * @param windows Activation windows of the channel
+ * @param at Instant to check, now by default
+ */
+export function isWithinActiveWindows(
+	windows: ChannelActiveWindow[] | undefined | null,
+	at: Date = new Date(),
+): boolean {
+	if (!windows || windows.length === 0) {
+		return true;
+	}
+
+	return windows.some((activeWindow) => {
+		try {
+			return isWithinWindow(activeWindow, at);
+		} catch (error) {
+			console.error("Invalid channel active window:", error);
+
+			return false;
+		}
+	});
+}
+
+/**
+ * First minute at which a channel with these activation windows closes, searched from an
+ * instant up to a limit. Unscheduled channels never close.
+ * @param windows Activation windows of the channel
+ * @param from Start of the search
+ * @param until End of the search
+ * @returns Closing instant, or null when the channel stays open until the limit
+ */
+export function getActiveWindowsEnd(
+	windows: ChannelActiveWindow[] | undefined | null,
+	from: Date,
+	until: Date,
+): Date | null {
+	if (!windows || windows.length === 0) {
+		return null;
+	}
+
+	// Window boundaries are on whole minutes
+	const minuteMs = 60 * 1000;
+
+	for (
+		let at = Math.floor(from.getTime() / minuteMs) * minuteMs + minuteMs;
+		at <= until.getTime();
+		at += minuteMs
+	) {
+		if (!isWithinActiveWindows(windows, new Date(at))) {
+			return new Date(at);
+		}
+	}
+
+	return null;
+}
@@ -0,0 +1,62 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Find the chunks missing before a received chunk of a transmission.
+ *
+ * Every missing sequence is returned so that the loss statistics account for the whole gap,
+ * only the last `maxRequestSize` ones are worth asking the talker for, the older ones being
+ * already too late to be played.
+ *
+ * @param expectedSequence - Next sequence expected before the received chunk
+ * @param receivedSequence - Sequence of the chunk that revealed the gap
+ * @param receivedSequences - Sequences already received, out of order chunks included
+ * @param maxRequestSize - Maximum number of sequences requested to the talker
+ * @returns The missing sequences and the ones to request, in ascending order
+ */
+export function findMissingChunks(
+	expectedSequence: number,
+	receivedSequence: number,
+	receivedSequences: Set<number>,
+	maxRequestSize: number,
+): { missing: number[]; requested: number[] } {
+	const missing: number[] = [];
+
+	for (
+		let sequence = expectedSequence;
+		sequence < receivedSequence;
+		sequence++
+	) {
+		if (!receivedSequences.has(sequence)) {
+			missing.push(sequence);
+		}
+	}
+
+	return {
+		missing,
+		requested: missing.filter(
+			(sequence) => sequence >= receivedSequence - maxRequestSize,
+		),
+	};
+}
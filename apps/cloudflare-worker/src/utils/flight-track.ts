@@ -0,0 +1,385 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { FlightTrackFormat, FlightTrackPoint } from "../types/ptt";
+
+/**
+ * Track parsed from an IGC or GPX file, fixes ordered by time
+ */
+export interface ParsedFlightTrack {
+	format: FlightTrackFormat;
+	pilot_name?: string;
+	glider_type?: string;
+	glider_id?: string;
+	site_name?: string;
+	points: FlightTrackPoint[];
+}
+
+/**
+ * Result of a track parsing
+ */
+export interface FlightTrackParseResult {
+	success: boolean;
+	track?: ParsedFlightTrack;
+	error?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Guess the format of a track file from its name, or from its content
+ * @param content File content
+ * @param filename Name of the uploaded file, if any
+ * @returns Track format, or null when the content is neither IGC nor GPX
+ */
+export function detectFlightTrackFormat(
+	content: string,
+	filename?: string,
+): FlightTrackFormat | null {
+	const extension = filename?.split(".").pop()?.toLowerCase();
+
+	if (extension === "igc" || extension === "gpx") {
+		return extension;
+	}
+
+	const start = content.trimStart();
+
+	if (start.startsWith("<")) {
+		return /<gpx[\s>]/.test(start.slice(0, 2048)) ? "gpx" : null;
+	}
+
+	// IGC files start with the A record of the flight recorder manufacturer
+	return /^[AHB]/.test(start) ? "igc" : null;
+}
+
+/**
+ * Parse an IGC or GPX track file
+ * @param content File content
+ * @param filename Name of the uploaded file, used to detect the format
+ * @returns Parsed track, or the reason why the file was rejected
+ */
+export function parseFlightTrack(
+	content: string,
+	filename?: string,
+): FlightTrackParseResult {
+	const format = detectFlightTrackFormat(content, filename);
+
+	if (!format) {
+		return {
+			success: false,
+			error: "Unsupported track format - expected IGC or GPX",
+		};
+	}
+
+	const result = format === "igc" ? parseIGC(content) : parseGPX(content);
+
+	if (result.success && result.track!.points.length < 2) {
+		return { success: false, error: "Track contains less than two fixes" };
+	}
+
+	return result;
+}
+
+/**
+ * Parse an IGC file (FAI flight recorder format)
+ *
+ * H records give the flight date and the pilot and glider details, B records the fixes:
+ * `B HHMMSS DDMMmmm N DDDMMmmm E V PPPPP GGGGG` (UTC time, latitude, longitude,
+ * validity, pressure and GNSS altitudes). Times are UTC and wrap at midnight.
+ * @param content IGC file content
+ */
+export function parseIGC(content: string): FlightTrackParseResult {
+	const track: ParsedFlightTrack = { format: "igc", points: [] };
+	let dayStart: number | null = null;
+	let previousTime = -1;
+
+	for (const rawLine of content.split(/\r?\n/)) {
+		const line = rawLine.trim();
+
+		if (line.startsWith("H")) {
+			const date = line.match(/^H.DTE(?:DATE:)?(\d{2})(\d{2})(\d{2})/);
+
+			if (date) {
+				const year = Number(date[3]);
+
+				dayStart = Date.UTC(
+					year < 80 ? 2000 + year : 1900 + year,
+					Number(date[2]) - 1,
+					Number(date[1]),
+				);
+				continue;
+			}
+
+			const header = line.match(/^H.(PLT|GTY|GID|SIT)[^:]*:(.*)$/);
+			const value = header?.[2].trim();
+
+			if (header && value) {
+				switch (header[1]) {
+					case "PLT":
+						track.pilot_name = value;
+						break;
+					case "GTY":
+						track.glider_type = value;
+						break;
+					case "GID":
+						track.glider_id = value;
+						break;
+					case "SIT":
+						track.site_name = value;
+						break;
+				}
+			}
+			continue;
+		}
+
+		const fix = line.match(
+			/^B(\d{2})(\d{2})(\d{2})(\d{2})(\d{5})([NS])(\d{3})(\d{5})([EW])([AV])([-\d]\d{4})([-\d]\d{4})/,
+		);
+
+		if (!fix) {
+			continue;
+		}
+
+		if (dayStart === null) {
+			return { success: false, error: "IGC file has no date (HFDTE) header" };
+		}
+
+		let time =
+			((Number(fix[1]) * 60 + Number(fix[2])) * 60 + Number(fix[3])) * 1000;
+
+		// Flights crossing midnight UTC continue on the next day
+		if (time < previousTime) {
+			dayStart += DAY_MS;
+		}
+		previousTime = time;
+		time += dayStart;
+
+		const lat =
+			(Number(fix[4]) + Number(fix[5]) / 60000) * (fix[6] === "S" ? -1 : 1);
+		const lon =
+			(Number(fix[7]) + Number(fix[8]) / 60000) * (fix[9] === "W" ? -1 : 1);
+		const pressureAltitude = Number(fix[11]);
+		const gnssAltitude = Number(fix[12]);
+
+		// A "V" fix has no GNSS altitude, the pressure altitude is used instead
+		const altitude =
+			fix[10] === "A" && gnssAltitude !== 0
+				? gnssAltitude
+				: pressureAltitude !== 0
+					? pressureAltitude
+					: undefined;
+
+		addPoint(track.points, {
+			timestamp_ms: time,
+			lat,
+			lon,
+			altitude_m: altitude,
+		});
+	}
+
+	track.points = orderFixes(track.points);
+
+	return { success: true, track };
+}
+
+/**
+ * Parse a GPX file
+ *
+ * Only the track points (`trkpt`) carrying a time are kept, the route and way points
+ * are ignored. The pilot name is read from the metadata author.
+ * @param content GPX file content
+ */
+export function parseGPX(content: string): FlightTrackParseResult {
+	const track: ParsedFlightTrack = { format: "gpx", points: [] };
+
+	if (!/<gpx[\s>]/.test(content)) {
+		return { success: false, error: "Invalid GPX file" };
+	}
+
+	const author = content.match(
+		/<metadata>[\s\S]*?<author>[\s\S]*?<name>([^<]*)<\/name>/,
+	);
+
+	if (author?.[1].trim()) {
+		track.pilot_name = decodeXmlEntities(author[1].trim());
+	}
+
+	const trackName = content.match(/<trk>\s*<name>([^<]*)<\/name>/);
+
+	if (trackName?.[1].trim()) {
+		track.site_name = decodeXmlEntities(trackName[1].trim());
+	}
+
+	const trackPoints = content.matchAll(
+		/<trkpt\b([^>]*?)(?:\/>|>([\s\S]*?)<\/trkpt>)/g,
+	);
+
+	for (const [, attributes, body = ""] of trackPoints) {
+		const lat = Number(attributes.match(/\blat\s*=\s*["']([^"']+)["']/)?.[1]);
+		const lon = Number(attributes.match(/\blon\s*=\s*["']([^"']+)["']/)?.[1]);
+		const time = Date.parse(body.match(/<time>([^<]+)<\/time>/)?.[1] ?? "");
+		const elevation = body.match(/<ele>([^<]+)<\/ele>/)?.[1];
+
+		if (Number.isNaN(time)) {
+			continue;
+		}
+
+		addPoint(track.points, {
+			timestamp_ms: time,
+			lat,
+			lon,
+			altitude_m: elevation !== undefined ? Number(elevation) : undefined,
+		});
+	}
+
+	track.points = orderFixes(track.points);
+
+	return { success: true, track };
+}
+
+/**
+ * Position of the pilot at a given time, interpolated between the surrounding fixes.
+ * Times outside the track are clamped to the first or last fix.
+ * @param points Fixes ordered by time
+ * @param timestampMs Time of the position
+ * @returns Interpolated fix, or null for an empty track
+ */
+export function interpolateTrackPosition(
+	points: FlightTrackPoint[],
+	timestampMs: number,
+): FlightTrackPoint | null {
+	if (points.length === 0) {
+		return null;
+	}
+
+	if (timestampMs <= points[0].timestamp_ms) {
+		return { ...points[0], timestamp_ms: timestampMs };
+	}
+
+	const last = points[points.length - 1];
+
+	if (timestampMs >= last.timestamp_ms) {
+		return { ...last, timestamp_ms: timestampMs };
+	}
+
+	// Last fix at or before the requested time
+	let low = 0;
+	let high = points.length - 1;
+
+	while (high - low > 1) {
+		const middle = (low + high) >> 1;
+
+		if (points[middle].timestamp_ms <= timestampMs) {
+			low = middle;
+		} else {
+			high = middle;
+		}
+	}
+
+	const before = points[low];
+	const after = points[high];
+	const ratio =
+		(timestampMs - before.timestamp_ms) /
+		(after.timestamp_ms - before.timestamp_ms);
+	const interpolate = (from: number, to: number) => from + (to - from) * ratio;
+
+	return {
+		timestamp_ms: timestampMs,
+		lat: interpolate(before.lat, after.lat),
+		lon: interpolate(before.lon, after.lon),
+		altitude_m:
+			before.altitude_m !== undefined && after.altitude_m !== undefined
+				? interpolate(before.altitude_m, after.altitude_m)
+				: (before.altitude_m ?? after.altitude_m),
+	};
+}
+
+/**
+ * Reduce a track to at most `maxPoints` fixes evenly spread over the flight.
+ * The first and last fixes are always kept.
+ * @param points Fixes ordered by time
+ * @param maxPoints Maximum number of fixes
+ */
+export function downsampleTrack(
+	points: FlightTrackPoint[],
+	maxPoints: number,
+): FlightTrackPoint[] {
+	if (points.length <= maxPoints || maxPoints < 2) {
+		return points;
+	}
+
+	const step = (points.length - 1) / (maxPoints - 1);
+
+	return Array.from(
+		{ length: maxPoints },
+		(_, index) => points[Math.round(index * step)],
+	);
+}
+
+/**
+ * Add a fix to a track, skipping invalid positions
+ * @private
+ */
+function addPoint(points: FlightTrackPoint[], point: FlightTrackPoint): void {
+	if (
+		!Number.isFinite(point.lat) ||
+		!Number.isFinite(point.lon) ||
+		Math.abs(point.lat) > 90 ||
+		Math.abs(point.lon) > 180
+	) {
+		return;
+	}
+
+	if (point.altitude_m !== undefined && !Number.isFinite(point.altitude_m)) {
+		point.altitude_m = undefined;
+	}
+
+	points.push(point);
+}
+
+/**
+ * Order fixes by time, keeping the first fix of each repeated time
+ * @private
+ */
+function orderFixes(points: FlightTrackPoint[]): FlightTrackPoint[] {
+	return points
+		.sort((a, b) => a.timestamp_ms - b.timestamp_ms)
+		.filter(
+			(point, index, sorted) =>
+				index === 0 || point.timestamp_ms !== sorted[index - 1].timestamp_ms,
+		);
+}
+
+/**
+ * Decode the predefined XML entities of a text node
+ * @private
+ */
+function decodeXmlEntities(text: string): string {
+	return text
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&amp;/g, "&");
+}
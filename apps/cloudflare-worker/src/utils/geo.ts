@@ -0,0 +1,159 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Coordinates } from "../types/ptt";
+
+/**
+ * Mean Earth radius in kilometers
+ */
+export const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Great-circle distance between two positions using the Haversine formula
+ * @param from First position
+ * @param to Second position
+ * @returns Distance in kilometers
+ */
+export function haversineDistanceKm(
+	from: Coordinates,
+	to: Coordinates,
+): number {
+	const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+	const dLat = toRadians(to.lat - from.lat);
+	const dLon = toRadians(to.lon - from.lon);
+	const a =
+		Math.sin(dLat / 2) ** 2 +
+		Math.cos(toRadians(from.lat)) *
+			Math.cos(toRadians(to.lat)) *
+			Math.sin(dLon / 2) ** 2;
+
+	return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Latitude/longitude bounding box in degrees.
+ * When the box crosses the antimeridian, minLon is greater than maxLon.
+ */
+export interface BoundingBox {
+	minLat: number;
+	maxLat: number;
+	minLon: number;
+	maxLon: number;
+}
+
+/**
+ * Smallest bounding box containing every position within a distance of a center
+ * (see http://janmatuschek.de/LatitudeLongitudeBoundingCoordinates).
+ * The box covers all longitudes when it contains a pole, and wraps around when it
+ * crosses the antimeridian.
+ * @param center Center of the search
+ * @param radiusKm Search radius in kilometers
+ * @returns Bounding box usable to prefilter on indexed coordinate columns
+ */
+export function boundingBox(
+	center: Coordinates,
+	radiusKm: number,
+): BoundingBox {
+	const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+	const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+	const angularRadius = radiusKm / EARTH_RADIUS_KM;
+	const minLat = center.lat - toDegrees(angularRadius);
+	const maxLat = center.lat + toDegrees(angularRadius);
+
+	// A pole is inside the circle: every longitude can be reached
+	if (minLat <= -90 || maxLat >= 90) {
+		return {
+			minLat: Math.max(minLat, -90),
+			maxLat: Math.min(maxLat, 90),
+			minLon: -180,
+			maxLon: 180,
+		};
+	}
+
+	const sinDeltaLon = Math.sin(angularRadius) / Math.cos(toRadians(center.lat));
+
+	if (sinDeltaLon >= 1) {
+		return { minLat, maxLat, minLon: -180, maxLon: 180 };
+	}
+
+	const deltaLon = toDegrees(Math.asin(sinDeltaLon));
+
+	if (deltaLon >= 180) {
+		return { minLat, maxLat, minLon: -180, maxLon: 180 };
+	}
+
+	let minLon = center.lon - deltaLon;
+	let maxLon = center.lon + deltaLon;
+
+	// Wrap around the antimeridian
+	if (minLon < -180) minLon += 360;
+	if (maxLon > 180) maxLon -= 360;
+
+	return { minLat, maxLat, minLon, maxLon };
+}
+
+/**
+ * Build the SQL condition selecting the rows inside a bounding box.
+ * Only plain comparisons are used so that a (lat, lon) index can serve the query.
+ * @param box Bounding box
+ * @param latColumn Latitude column name
+ * @param lonColumn Longitude column name
+ * @returns SQL condition and its parameters
+ */
+export function boundingBoxCondition(
+	box: BoundingBox,
+	latColumn: string,
+	lonColumn: string,
+): { sql: string; params: number[] } {
+	if (box.minLon <= box.maxLon) {
+		return {
+			sql: `(${latColumn} BETWEEN ? AND ? AND ${lonColumn} BETWEEN ? AND ?)`,
+			params: [box.minLat, box.maxLat, box.minLon, box.maxLon],
+		};
+	}
+
+	// Crossing the antimeridian: east of minLon or west of maxLon
+	return {
+		sql: `(${latColumn} BETWEEN ? AND ? AND (${lonColumn} >= ? OR ${lonColumn} <= ?))`,
+		params: [box.minLat, box.maxLat, box.minLon, box.maxLon],
+	};
+}
+
+/**
+ * Check whether a position is inside a bounding box
+ * @param box Bounding box
+ * @param position Position to check
+ */
+export function isInBoundingBox(
+	box: BoundingBox,
+	position: Coordinates,
+): boolean {
+	if (position.lat < box.minLat || position.lat > box.maxLat) {
+		return false;
+	}
+
+	return box.minLon <= box.maxLon
+		? position.lon >= box.minLon && position.lon <= box.maxLon
+		: position.lon >= box.minLon || position.lon <= box.maxLon;
+}
@@ -0,0 +1,109 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { ChannelActiveWindow, ParticipantPosition } from "../types/ptt";
+
+import { getActiveWindowsEnd } from "./channel-schedule";
+import { haversineDistanceKm } from "./geo";
+
+/**
+ * Check-in deadline of a flight when the channel does not configure one
+ */
+export const DEFAULT_CHECKIN_DEADLINE_MINUTES = 240;
+
+export const MIN_CHECKIN_DEADLINE_MINUTES = 15;
+
+export const MAX_CHECKIN_DEADLINE_MINUTES = 12 * 60;
+
+export const CHECKIN_DEADLINE_ERROR = `checkin_deadline_minutes must be an integer between ${MIN_CHECKIN_DEADLINE_MINUTES} and ${MAX_CHECKIN_DEADLINE_MINUTES}`;
+
+/**
+ * Ground speed above which a pilot is moving: faster than walking up to the takeoff,
+ * slower than any glider in flight
+ */
+export const FLYING_SPEED_KMH = 15;
+
+/**
+ * A pilot who checked in landed is not tracked again during this delay, so that the radio
+ * chatter and the drive back after landing do not start a new flight
+ */
+export const CHECKIN_REARM_MINUTES = 90;
+
+/**
+ * Check that a value is a valid check-in deadline in minutes
+ */
+export function isValidCheckinDeadline(value: unknown): value is number {
+	return (
+		Number.isInteger(value) &&
+		(value as number) >= MIN_CHECKIN_DEADLINE_MINUTES &&
+		(value as number) <= MAX_CHECKIN_DEADLINE_MINUTES
+	);
+}
+
+/**
+ * Instant by which a pilot flying since `flyingSince` must check in landed: the deadline of the
+ * channel, or the end of its active window when the channel closes first.
+ *
+ * @param flyingSince - Start of the flight
+ * @param deadlineMinutes - Deadline configured on the channel, the default when unset
+ * @param activeWindows - Activation windows of a scheduled channel
+ * @returns Check-in deadline
+ */
+export function computeCheckinDeadline(
+	flyingSince: Date,
+	deadlineMinutes: number | undefined | null,
+	activeWindows?: ChannelActiveWindow[] | null,
+): Date {
+	const deadline = new Date(
+		flyingSince.getTime() +
+			(deadlineMinutes ?? DEFAULT_CHECKIN_DEADLINE_MINUTES) * 60 * 1000,
+	);
+
+	return getActiveWindowsEnd(activeWindows, flyingSince, deadline) ?? deadline;
+}
+
+/**
+ * Whether a position shows a pilot on the move, from the ground speed reported by the device
+ * or else from the distance covered since the previous position.
+ *
+ * @param position - Position just received
+ * @param previous - Previous position of the pilot, if any
+ */
+export function isMoving(
+	position: ParticipantPosition,
+	previous?: ParticipantPosition | null,
+): boolean {
+	if (position.ground_speed_kmh !== undefined) {
+		return position.ground_speed_kmh >= FLYING_SPEED_KMH;
+	}
+
+	if (!previous || position.timestamp_ms <= previous.timestamp_ms) {
+		return false;
+	}
+
+	const hours =
+		(position.timestamp_ms - previous.timestamp_ms) / (60 * 60 * 1000);
+
+	return haversineDistanceKm(previous, position) / hours >= FLYING_SPEED_KMH;
+}
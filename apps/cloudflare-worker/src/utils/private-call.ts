@@ -0,0 +1,97 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Maximum number of users addressed by a private call
+ */
+export const MAX_CALL_TARGETS = 20;
+
+/**
+ * Resolve the users addressed by a transmission from its `target_user_ids`.
+ *
+ * Duplicates and the talker itself are dropped, the talker always hears its own call.
+ *
+ * @param targetUserIds - Value of `target_user_ids` in the start request
+ * @param talkerUserId - User starting the transmission
+ * @returns The targets of a private call, no targets for a channel-wide transmission, or the
+ *   validation error
+ */
+export function resolveCallTargets(
+	targetUserIds: unknown,
+	talkerUserId: string,
+): { targets?: string[]; error?: string } {
+	if (targetUserIds === undefined || targetUserIds === null) {
+		return {};
+	}
+
+	if (
+		!Array.isArray(targetUserIds) ||
+		targetUserIds.length === 0 ||
+		!targetUserIds.every(
+			(userId) => typeof userId === "string" && userId.length > 0,
+		)
+	) {
+		return {
+			error: "Invalid target_user_ids - must be a non-empty array of user IDs",
+		};
+	}
+
+	const targets = [...new Set(targetUserIds as string[])].filter(
+		(userId) => userId !== talkerUserId,
+	);
+
+	if (targets.length === 0) {
+		return {
+			error:
+				"Invalid target_user_ids - a private call needs another participant",
+		};
+	}
+
+	if (targets.length > MAX_CALL_TARGETS) {
+		return {
+			error: `Invalid target_user_ids - at most ${MAX_CALL_TARGETS} users can be called`,
+		};
+	}
+
+	return { targets };
+}
+
+/**
+ * Check whether a user hears a transmission.
+ *
+ * Channel-wide transmissions are heard by everyone, private calls by the talker and their
+ * targets only.
+ *
+ * @param userId - Listening user
+ * @param talkerUserId - User holding the floor
+ * @param targets - Targets of a private call
+ * @returns True if the audio of the transmission can be sent to the user
+ */
+export function isCallListener(
+	userId: string,
+	talkerUserId: string,
+	targets?: string[],
+): boolean {
+	return !targets || userId === talkerUserId || targets.includes(userId);
+}
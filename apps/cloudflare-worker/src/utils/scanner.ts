@@ -0,0 +1,146 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { ChannelType, ScannerActivity } from "../types/ptt";
+
+/**
+ * Maximum number of channels listened to by a scanner connection
+ */
+export const MAX_SCANNED_CHANNELS = 10;
+
+/**
+ * Highest priority that can be given to a scanned channel
+ */
+export const MAX_SCAN_PRIORITY = 99;
+
+/**
+ * Default priority of a scanned channel: emergency channels duck the site channels, which
+ * duck the other channels
+ *
+ * @param type - Type of the scanned channel
+ * @returns Priority used when the scan list gives none
+ */
+export function defaultScanPriority(type: ChannelType): number {
+	switch (type) {
+		case "emergency":
+			return 30;
+		case "site_local":
+			return 20;
+		default:
+			return 10;
+	}
+}
+
+/**
+ * Parse the scan list of a scanner connection.
+ *
+ * The list is a comma-separated list of channel UUIDs, each optionally followed by
+ * `:priority` (1 to {@link MAX_SCAN_PRIORITY}). Channels without a priority get the
+ * {@link defaultScanPriority} of their type once loaded. Duplicates keep their first entry.
+ *
+ * @param value - Value of the `channels` query parameter
+ * @returns The lowercased channel UUIDs with their priority, or the validation error
+ */
+export function parseScanList(value: string | null): {
+	channels?: { channel_uuid: string; priority?: number }[];
+	error?: string;
+} {
+	const entries = (value || "")
+		.split(",")
+		.map((entry) => entry.trim())
+		.filter((entry) => entry.length > 0);
+
+	if (entries.length === 0) {
+		return { error: "Missing required parameter: channels" };
+	}
+
+	const channels = new Map<string, number | undefined>();
+
+	for (const entry of entries) {
+		const [uuid, priorityValue, ...rest] = entry.split(":");
+		const channelUuid = uuid.trim().toLowerCase();
+		const priority =
+			priorityValue === undefined ? undefined : Number(priorityValue);
+
+		if (
+			!channelUuid ||
+			rest.length > 0 ||
+			(priority !== undefined &&
+				(!Number.isInteger(priority) ||
+					priority < 1 ||
+					priority > MAX_SCAN_PRIORITY))
+		) {
+			return {
+				error: `Invalid channels - expected uuid or uuid:priority with a priority between 1 and ${MAX_SCAN_PRIORITY}, got ${entry}`,
+			};
+		}
+
+		if (!channels.has(channelUuid)) {
+			channels.set(channelUuid, priority);
+		}
+	}
+
+	if (channels.size > MAX_SCANNED_CHANNELS) {
+		return {
+			error: `Invalid channels - at most ${MAX_SCANNED_CHANNELS} channels can be scanned`,
+		};
+	}
+
+	return {
+		channels: [...channels].map(([channel_uuid, priority]) => ({
+			channel_uuid,
+			priority,
+		})),
+	};
+}
+
+/**
+ * Choose the scanned channel heard in the foreground.
+ *
+ * Emergency transmissions always win, then the channel with the highest priority, then the
+ * transmission that started first so that a speaker is never cut by an equal channel. The
+ * other busy channels are ducked.
+ *
+ * @param activity - Transmissions in progress on the scanned channels
+ * @param priorities - Priority of each scanned channel
+ * @returns The foreground channel, null when no channel is busy, and the ducked channels by
+ *   decreasing precedence
+ */
+export function resolveScannerFocus(
+	activity: ScannerActivity[],
+	priorities: Map<string, number>,
+): { active_channel_uuid: string | null; ducked_channel_uuids: string[] } {
+	const ranked = [...activity].sort(
+		(a, b) =>
+			Number(b.is_emergency) - Number(a.is_emergency) ||
+			(priorities.get(b.channel_uuid) ?? 0) -
+				(priorities.get(a.channel_uuid) ?? 0) ||
+			a.started_at - b.started_at,
+	);
+
+	return {
+		active_channel_uuid: ranked[0]?.channel_uuid ?? null,
+		ducked_channel_uuids: ranked.slice(1).map((entry) => entry.channel_uuid),
+	};
+}
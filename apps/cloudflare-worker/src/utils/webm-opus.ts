@@ -0,0 +1,385 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Streaming WebM container of a mono Opus track, as recorded by MediaRecorder with
+ * audio/webm;codecs=opus: the Segment and the Clusters have an unknown size and the frames are
+ * unlaced SimpleBlocks.
+ */
+
+const EBML_ID = 0x1a45dfa3;
+const SEGMENT_ID = 0x18538067;
+const INFO_ID = 0x1549a966;
+const TRACKS_ID = 0x1654ae6b;
+const TRACK_ENTRY_ID = 0xae;
+const AUDIO_ID = 0xe1;
+const CLUSTER_ID = 0x1f43b675;
+const TIMECODE_ID = 0xe7;
+const BLOCK_GROUP_ID = 0xa0;
+const BLOCK_ID = 0xa1;
+const SIMPLE_BLOCK_ID = 0xa3;
+
+// Master elements whose children are read as they arrive
+const STREAMED_ELEMENTS = new Set([SEGMENT_ID, CLUSTER_ID, BLOCK_GROUP_ID]);
+
+const MUXING_APP = "parawave-ptt";
+
+/**
+ * Streaming demuxer of the Opus packets of a WebM stream
+ */
+export class WebmOpusDemuxer {
+	private pending: Uint8Array | null = null; // Incomplete element of the previous chunk
+	private skipped = 0; // Bytes of a skipped element still to come
+
+	/**
+	 * Read the next chunk of the stream
+	 * @param chunk Next bytes of the WebM stream
+	 * @returns The Opus packets completed by this chunk
+	 * @throws Error when the stream is not WebM
+	 */
+	push(chunk: Uint8Array): Uint8Array[] {
+		let data = chunk;
+
+		if (this.skipped > 0) {
+			const skipped = Math.min(this.skipped, data.length);
+
+			this.skipped -= skipped;
+			data = data.subarray(skipped);
+		}
+
+		if (this.pending) {
+			const joined = new Uint8Array(this.pending.length + data.length);
+
+			joined.set(this.pending);
+			joined.set(data, this.pending.length);
+			data = joined;
+			this.pending = null;
+		}
+
+		const packets: Uint8Array[] = [];
+		let offset = 0;
+
+		while (offset < data.length) {
+			const id = readElementId(data, offset);
+
+			if (id === undefined) break;
+			if (id === null) throw new Error("Invalid WebM element");
+
+			const size = readVint(data, offset + id.length);
+
+			if (size === undefined) break;
+			if (size === null) throw new Error("Invalid WebM element size");
+
+			const start = offset + id.length + size.length;
+
+			if (STREAMED_ELEMENTS.has(id.value) || size.value < 0) {
+				offset = start;
+				continue;
+			}
+
+			if (id.value !== SIMPLE_BLOCK_ID && id.value !== BLOCK_ID) {
+				// Headers, cues and tags, the decoder needs nothing from them
+				if (start + size.value > data.length) {
+					this.skipped = start + size.value - data.length;
+					offset = data.length;
+					break;
+				}
+
+				offset = start + size.value;
+				continue;
+			}
+
+			if (start + size.value > data.length) break;
+
+			const packet = readBlockFrame(data.subarray(start, start + size.value));
+
+			if (packet) packets.push(packet);
+
+			offset = start + size.value;
+		}
+
+		if (offset < data.length) {
+			this.pending = data.slice(offset);
+		}
+
+		return packets;
+	}
+}
+
+/**
+ * Streaming muxer of a mono Opus track to WebM
+ * The first chunk carries the header of the stream, each chunk is a Cluster of SimpleBlocks.
+ */
+export class WebmOpusMuxer {
+	private headerWritten = false;
+	private timestampMs = 0;
+
+	/**
+	 * @param frameDurationMs - Duration of an Opus packet in milliseconds
+	 * @param preSkip - Samples at 48 kHz to discard at the start of the stream, the encoder lookahead
+	 */
+	constructor(
+		private readonly frameDurationMs: number,
+		private readonly preSkip: number,
+	) {}
+
+	/**
+	 * Mux the next packets of the stream
+	 * @param packets Opus packets in order
+	 * @returns The WebM bytes of the packets, empty when there is no packet
+	 */
+	mux(packets: Uint8Array[]): Uint8Array {
+		if (packets.length === 0) return new Uint8Array(0);
+
+		const parts: Uint8Array[] = [];
+
+		if (!this.headerWritten) {
+			parts.push(this.header());
+			this.headerWritten = true;
+		}
+
+		const children = [element(TIMECODE_ID, uint(this.timestampMs))];
+
+		packets.forEach((packet, index) => {
+			const block = new Uint8Array(4 + packet.length);
+			const relative = index * this.frameDurationMs;
+
+			block[0] = 0x81; // Track 1
+			block[1] = (relative >> 8) & 0xff;
+			block[2] = relative & 0xff;
+			block[3] = 0x80; // Keyframe, no lacing
+			block.set(packet, 4);
+			children.push(element(SIMPLE_BLOCK_ID, block));
+		});
+
+		parts.push(element(CLUSTER_ID, concat(children)));
+		this.timestampMs += packets.length * this.frameDurationMs;
+
+		return concat(parts);
+	}
+
+	/**
+	 * EBML header, Segment of unknown size, Info and Tracks
+	 */
+	private header(): Uint8Array {
+		const opusHead = new Uint8Array(19);
+		const view = new DataView(opusHead.buffer);
+
+		opusHead.set(new TextEncoder().encode("OpusHead"));
+		opusHead[8] = 1; // Version
+		opusHead[9] = 1; // Channels
+		view.setUint16(10, this.preSkip, true);
+		view.setUint32(12, 48000, true);
+
+		const sampleRate = new Uint8Array(8);
+
+		new DataView(sampleRate.buffer).setFloat64(0, 48000);
+
+		return concat([
+			element(
+				EBML_ID,
+				concat([
+					element(0x4286, uint(1)), // EBMLVersion
+					element(0x42f7, uint(1)), // EBMLReadVersion
+					element(0x42f2, uint(4)), // EBMLMaxIDLength
+					element(0x42f3, uint(8)), // EBMLMaxSizeLength
+					element(0x4282, text("webm")), // DocType
+					element(0x4287, uint(4)), // DocTypeVersion
+					element(0x4285, uint(2)), // DocTypeReadVersion
+				]),
+			),
+			// Segment of unknown size, the stream lasts as long as the transmission
+			new Uint8Array([
+				0x18, 0x53, 0x80, 0x67, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff,
+			]),
+			element(
+				INFO_ID,
+				concat([
+					element(0x2ad7b1, uint(1000000)), // TimecodeScale, in milliseconds
+					element(0x4d80, text(MUXING_APP)), // MuxingApp
+					element(0x5741, text(MUXING_APP)), // WritingApp
+				]),
+			),
+			element(
+				TRACKS_ID,
+				element(
+					TRACK_ENTRY_ID,
+					concat([
+						element(0xd7, uint(1)), // TrackNumber
+						element(0x73c5, uint(1)), // TrackUID
+						element(0x83, uint(2)), // TrackType audio
+						element(0x86, text("A_OPUS")), // CodecID
+						element(0x63a2, opusHead), // CodecPrivate
+						element(
+							AUDIO_ID,
+							concat([
+								element(0xb5, sampleRate), // SamplingFrequency
+								element(0x9f, uint(1)), // Channels
+							]),
+						),
+					]),
+				),
+			),
+		]);
+	}
+}
+
+/**
+ * Read an element ID, its length marker included
+ * @returns The ID and its length, undefined if incomplete, null if invalid
+ */
+function readElementId(
+	data: Uint8Array,
+	offset: number,
+): { value: number; length: number } | undefined | null {
+	if (offset >= data.length) return undefined;
+
+	const length = vintLength(data[offset]);
+
+	if (length === 0 || length > 4) return null;
+	if (offset + length > data.length) return undefined;
+
+	let value = 0;
+
+	for (let i = 0; i < length; i++) {
+		value = value * 256 + data[offset + i];
+	}
+
+	return { value, length };
+}
+
+/**
+ * Read an element size
+ * @returns The size, -1 when unknown, undefined if incomplete, null if invalid
+ */
+function readVint(
+	data: Uint8Array,
+	offset: number,
+): { value: number; length: number } | undefined | null {
+	if (offset >= data.length) return undefined;
+
+	const length = vintLength(data[offset]);
+
+	if (length === 0) return null;
+	if (offset + length > data.length) return undefined;
+
+	let value = data[offset] & (0xff >> length);
+	let unknown = value === 0xff >> length;
+
+	for (let i = 1; i < length; i++) {
+		value = value * 256 + data[offset + i];
+		unknown &&= data[offset + i] === 0xff;
+	}
+
+	return { value: unknown ? -1 : value, length };
+}
+
+/**
+ * Length of a variable size integer from its first byte, 0 if invalid
+ */
+function vintLength(first: number): number {
+	for (let length = 1; length <= 8; length++) {
+		if (first & (0x100 >> length)) return length;
+	}
+
+	return 0;
+}
+
+/**
+ * Frame of a SimpleBlock or a Block, laced blocks are not recorded by MediaRecorder
+ * @returns The frame, or null for a laced block
+ */
+function readBlockFrame(block: Uint8Array): Uint8Array | null {
+	const track = readVint(block, 0);
+
+	if (!track || block.length < track.length + 3) return null;
+
+	const flags = block[track.length + 2];
+
+	if (flags & 0x06) return null;
+
+	return block.slice(track.length + 3);
+}
+
+function element(id: number, payload: Uint8Array): Uint8Array {
+	const idBytes: number[] = [];
+
+	for (let value = id; value > 0; value = Math.floor(value / 256)) {
+		idBytes.unshift(value & 0xff);
+	}
+
+	// Shortest size field, all ones is reserved for unknown sizes
+	let sizeLength = 1;
+
+	while (payload.length >= 2 ** (7 * sizeLength) - 1) {
+		sizeLength++;
+	}
+
+	const data = new Uint8Array(idBytes.length + sizeLength + payload.length);
+	let size = payload.length;
+
+	data.set(idBytes);
+
+	for (let i = sizeLength - 1; i >= 0; i--) {
+		data[idBytes.length + i] = size & 0xff;
+		size = Math.floor(size / 256);
+	}
+
+	data[idBytes.length] |= 0x100 >> sizeLength;
+	data.set(payload, idBytes.length + sizeLength);
+
+	return data;
+}
+
+function uint(value: number): Uint8Array {
+	const bytes: number[] = [];
+
+	for (
+		let rest = value;
+		rest > 0 || bytes.length === 0;
+		rest = Math.floor(rest / 256)
+	) {
+		bytes.unshift(rest & 0xff);
+	}
+
+	return Uint8Array.from(bytes);
+}
+
+function text(value: string): Uint8Array {
+	return new TextEncoder().encode(value);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+	const data = new Uint8Array(
+		parts.reduce((sum, part) => sum + part.length, 0),
+	);
+	let offset = 0;
+
+	for (const part of parts) {
+		data.set(part, offset);
+		offset += part.length;
+	}
+
+	return data;
+}
@@ -91,6 +91,25 @@ const api = {
   }
 }
 
+// Worker base URL (without the /api prefix) for the WebSocket routes
+const WORKER_BASE_URL = API_BASE_URL.replace(/\/api$/, '');
+
+// WebSocket upgrade request: rejected upgrades come back as regular HTTP responses
+const wsUpgrade = async (path: string, headers: Record<string, string> = {}) => {
+  return axios.get(`${WORKER_BASE_URL}${path}`, {
+    headers: {
+      'Upgrade': 'websocket',
+      'Connection': 'Upgrade',
+      'Sec-WebSocket-Version': '13',
+      'Sec-WebSocket-Key': btoa('parawave-ptt-tst'),
+      ...headers
+    },
+    validateStatus: function (status) {
+      return status < 500;
+    }
+  });
+}
+
 describe('Parawave-PTT API', () => {
   let createdChannelUuid: string;
   let testChannelCreated = false;
@@ -1646,4 +1665,854 @@ describe('Parawave-PTT API', () => {
       await new Promise(resolve => setTimeout(resolve, 100));
     }
   });
+
+  test('670. Should reject PTT WebSocket upgrade without token', async () => {
+    const params = new URLSearchParams({
+      userId: testerId,
+      username: 'Forged Pilot',
+      ephemeralPushToken: 'web_forged_token_123'
+    });
+    const response = await wsUpgrade(`/ptt/channel/${testChannelUuid}/ws?${params.toString()}`);
+
+    expect(response.status).toBe(401);
+  });
+
+  test('680. Should reject PTT WebSocket upgrade with a forged token', async () => {
+    // Unsigned token claiming the identity of the tester
+    const forgedPayload = btoa(JSON.stringify({ sub: testerId, permissions: ['admin:api'] }));
+    const forgedToken = `${btoa(JSON.stringify({ alg: 'none', typ: 'JWT' }))}.${forgedPayload}.`;
+    const params = new URLSearchParams({
+      userId: testerId,
+      username: 'Forged Pilot',
+      ephemeralPushToken: 'web_forged_token_123',
+      token: forgedToken
+    });
+    const response = await wsUpgrade(`/ptt/channel/${testChannelUuid}/ws?${params.toString()}`);
+
+    expect(response.status).toBe(401);
+  });
+
+  test('690. Should reject PTT WebSocket upgrade impersonating another user device', async () => {
+    // Another user's device joins the channel, the tester tries to take over its connection
+    // by forging the userId and username query parameters
+    const params = new URLSearchParams({
+      userId: 'auth0|another-pilot',
+      username: 'Another Pilot',
+      ephemeralPushToken: 'ios_forged_device_123_abc',
+      token: AUTH0_TOKEN
+    });
+    const response = await wsUpgrade(`/ptt/channel/${testChannelUuid}/ws?${params.toString()}`);
+
+    expect(response.status).toBe(403);
+  });
+
+  test('700. Should reject PTT WebSocket upgrade on the API path with a forged token', async () => {
+    const response = await axios.get(`${API_BASE_URL}/v1/transmissions/ws/${testChannelUuid}?token=forged.jwt.token`, {
+      headers: {
+        'Upgrade': 'websocket',
+        'Connection': 'Upgrade',
+        'Sec-WebSocket-Version': '13',
+        'Sec-WebSocket-Key': btoa('parawave-ptt-tst')
+      },
+      validateStatus: function (status) {
+        return status < 500;
+      }
+    });
+
+    expect(response.status).toBe(401);
+    expect(response.data.success).toBe(false);
+  });
+
+  test('710. Should record a transmission and replay it when recording is enabled', async () => {
+    if (!testChannelCreated) {
+      throw new Error('Test channel must be created first (test 230)');
+    }
+
+    const updateResponse = await api.put(`/v1/channels/${testChannelUuid}`, { recording_enabled: true });
+    expect(updateResponse.status).toBe(200);
+    expect(updateResponse.data.data.recording_enabled).toBe(true);
+
+    try {
+      const startResponse = await api.post('/v1/transmissions/start', {
+        channel_uuid: testChannelUuid,
+        audio_format: 'pcm',
+        sample_rate: 16000,
+        bitrate: 256000,
+        network_quality: 'excellent'
+      });
+      expect(startResponse.status).toBe(200);
+
+      const sessionId = startResponse.data.session_id;
+
+      for (let sequence = 1; sequence <= 2; sequence++) {
+        const chunkResponse = await api.post(`/v1/transmissions/${sessionId}/chunk`, {
+          session_id: sessionId,
+          chunk_sequence: sequence,
+          audio_data: btoa(new Array(512).fill(0).map(() => String.fromCharCode(0)).join('')),
+          chunk_size_bytes: 512,
+          timestamp_ms: Date.now()
+        });
+        expect(chunkResponse.status).toBe(200);
+      }
+
+      const endResponse = await api.post(`/v1/transmissions/${sessionId}/end`, {
+        session_id: sessionId,
+        total_duration_ms: 1000
+      });
+      expect(endResponse.status).toBe(200);
+
+      const audioResponse = await axios.get(`${API_BASE_URL}/v1/transmissions/${sessionId}/audio`, {
+        headers: {
+          'Authorization': `Bearer ${AUTH0_TOKEN}`
+        },
+        responseType: 'arraybuffer',
+        validateStatus: function (status) {
+          return status < 500;
+        }
+      });
+
+      expect(audioResponse.status).toBe(200);
+      expect(audioResponse.headers['content-type']).toBe('audio/wav');
+
+      const audio = Buffer.from(audioResponse.data);
+      expect(audio.subarray(0, 4).toString('ascii')).toBe('RIFF');
+      expect(audio.length).toBe(44 + 1024); // WAV header + 2 chunks of 512 bytes
+    } finally {
+      await api.put(`/v1/channels/${testChannelUuid}`, { recording_enabled: false });
+    }
+  });
+
+  test('720. Should return 404 for the recording of an unknown transmission', async () => {
+    const response = await api.get('/v1/transmissions/ptt_unknown_session/audio');
+
+    expect(response.status).toBe(404);
+    expect(response.data.success).toBe(false);
+  });
+
+  test('730. Should list recent channel transmissions for catch-up', async () => {
+    if (!testChannelCreated) {
+      throw new Error('Test channel must be created first (test 23)');
+    }
+
+    const since = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+    const response = await api.get(
+      `/v1/channels/${testChannelUuid}/transmissions?since=${encodeURIComponent(since)}`
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.data.success).toBe(true);
+    expect(response.data.data.channel_uuid).toBe(testChannelUuid);
+    expect(Array.isArray(response.data.data.transmissions)).toBe(true);
+
+    let previousStart = '';
+    for (const transmission of response.data.data.transmissions) {
+      expect(transmission.session_id).toBeDefined();
+      expect(transmission.start_time >= previousStart).toBe(true);
+      if (transmission.playback_url !== null) {
+        expect(transmission.playback_url).toBe(
+          `/api/v1/transmissions/${encodeURIComponent(transmission.session_id)}/audio`
+        );
+      }
+      previousStart = transmission.start_time;
+    }
+  });
+
+  test('740. Should reject an invalid since parameter when listing transmissions', async () => {
+    const response = await api.get(`/v1/channels/${testChannelUuid}/transmissions?since=not-a-date`);
+
+    expect(response.status).toBe(400);
+    expect(response.data.success).toBe(false);
+  });
+
+  test('750. Should reject PTT WebSocket upgrade with an unsupported subprotocol', async () => {
+    const params = new URLSearchParams({
+      ephemeralPushToken: 'web_subprotocol_test_123',
+      token: AUTH0_TOKEN
+    });
+    const response = await wsUpgrade(`/ptt/channel/${testChannelUuid}/ws?${params.toString()}`, {
+      'Sec-WebSocket-Protocol': 'ptt.unknown.v9'
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  test('760. Should rank a site channel whose radius contains the position', async () => {
+    const createResponse = await api.post('/v1/channels', {
+      name: 'Test Nearby Site Channel',
+      type: 'site_local',
+      coordinates: { lat: 45.9237, lon: 6.8694 },
+      radius_km: 10
+    });
+
+    expect(createResponse.status).toBe(201);
+    const siteChannelUuid = createResponse.data.data.uuid;
+
+    try {
+      const response = await api.post('/v1/channels/nearby/resolve', {
+        location: { lat: 45.95, lon: 6.88 },
+        auto_join: false
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.data.success).toBe(true);
+      expect(response.data.data.joined_channels).toEqual([]);
+
+      const suggestions = response.data.data.channels;
+      const siteSuggestion = suggestions.find((s: any) => s.channel.uuid === siteChannelUuid);
+
+      expect(siteSuggestion).toBeDefined();
+      expect(siteSuggestion.reason).toBe('inside_site_radius');
+      expect(siteSuggestion.distance_km).toBeLessThan(10);
+      expect(siteSuggestion.joined).toBe(false);
+      suggestions.forEach((suggestion: any, index: number) => {
+        expect(suggestion.rank).toBe(index + 1);
+      });
+    } finally {
+      await api.delete(`/v1/channels/${siteChannelUuid}?hard=true`);
+    }
+  });
+
+  test('770. Should reject nearby channel resolution without a valid location', async () => {
+    const response = await api.post('/v1/channels/nearby/resolve', {
+      location: { lat: 123, lon: 6.88 }
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.data.success).toBe(false);
+  });
+
+  test('780. Should sort channels by distance when filtering by location', async () => {
+    const response = await api.get('/v1/channels?lat=45.9237&lon=6.8694&radius=100');
+
+    expect(response.status).toBe(200);
+    expect(response.data.success).toBe(true);
+
+    let previousDistance = 0;
+    for (const channel of response.data.data.channels) {
+      expect(typeof channel.distance_km).toBe('number');
+      expect(channel.distance_km).toBeLessThanOrEqual(100);
+      expect(channel.distance_km).toBeGreaterThanOrEqual(previousDistance);
+      previousDistance = channel.distance_km;
+    }
+  });
+
+  test('790. Should create, update and delete a flying site', async () => {
+    const siteId = `test-site-${Date.now()}`;
+    const createResponse = await api.post('/v1/sites', {
+      id: siteId,
+      name: 'Test Takeoff',
+      coordinates: { lat: 45.9375, lon: 6.8569 },
+      elevation: 2000,
+      difficulty: 'intermediate',
+      vhf_frequency: '143.9875'
+    });
+
+    expect(createResponse.status).toBe(201);
+    expect(createResponse.data.data.id).toBe(siteId);
+    expect(createResponse.data.data.radius_km).toBe(25);
+
+    try {
+      const updateResponse = await api.put(`/v1/sites/${siteId}`, { elevation: 2010 });
+
+      expect(updateResponse.status).toBe(200);
+      expect(updateResponse.data.data.elevation).toBe(2010);
+
+      const listResponse = await api.get('/v1/sites?lat=45.93&lon=6.85&radius=10');
+
+      expect(listResponse.status).toBe(200);
+      const listedSite = listResponse.data.data.sites.find((site: any) => site.id === siteId);
+      expect(listedSite).toBeDefined();
+      expect(listedSite.distance_km).toBeLessThan(10);
+    } finally {
+      const deleteResponse = await api.delete(`/v1/sites/${siteId}?hard=true`);
+      expect(deleteResponse.status).toBe(200);
+    }
+
+    const getResponse = await api.get(`/v1/sites/${siteId}`);
+    expect(getResponse.status).toBe(404);
+  });
+
+  test('800. Should attach and detach channels of a flying site with a single primary channel', async () => {
+    if (!testChannelCreated) {
+      throw new Error('Test channel must be created first (test 23)');
+    }
+
+    const siteId = `test-site-channels-${Date.now()}`;
+    await api.post('/v1/sites', {
+      id: siteId,
+      name: 'Test Landing',
+      coordinates: { lat: 45.9167, lon: 6.8667 },
+      elevation: 1030,
+      difficulty: 'beginner'
+    });
+
+    try {
+      const attachResponse = await api.post(`/v1/sites/${siteId}/channels`, {
+        channel_uuid: testChannelUuid,
+        is_primary: true
+      });
+
+      expect(attachResponse.status).toBe(200);
+      expect(attachResponse.data.data.associated_channels).toContain(testChannelUuid);
+      expect(attachResponse.data.data.primary_channel).toBe(testChannelUuid);
+
+      const channelsResponse = await api.get(`/v1/sites/${siteId}/channels`);
+
+      expect(channelsResponse.status).toBe(200);
+      expect(channelsResponse.data.data.channels[0].uuid).toBe(testChannelUuid);
+      expect(channelsResponse.data.data.channels[0].is_primary).toBe(true);
+
+      const detachResponse = await api.delete(`/v1/sites/${siteId}/channels/${testChannelUuid}`);
+
+      expect(detachResponse.status).toBe(200);
+      expect(detachResponse.data.data.associated_channels).toEqual([]);
+    } finally {
+      await api.delete(`/v1/sites/${siteId}?hard=true`);
+    }
+  });
+
+  test('810. Should reject a flying site with an invalid VHF frequency', async () => {
+    const response = await api.post('/v1/sites', {
+      name: 'Invalid Site',
+      coordinates: { lat: 45.9375, lon: 6.8569 },
+      elevation: 2000,
+      difficulty: 'intermediate',
+      vhf_frequency: '999.999'
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.data.success).toBe(false);
+  });
+
+  test('820. Should get the preferences of the authenticated user', async () => {
+    const response = await api.get('/v1/me/preferences');
+
+    expect(response.status).toBe(200);
+    expect(response.data.success).toBe(true);
+    expect(typeof response.data.data.user_id).toBe('string');
+    expect(typeof response.data.data.preferred_language).toBe('string');
+    expect(Array.isArray(response.data.data.favorite_sites)).toBe(true);
+    expect(typeof response.data.data.auto_join_site_channels).toBe('boolean');
+  });
+
+  test('830. Should update the preferences of the authenticated user', async () => {
+    const initial = (await api.get('/v1/me/preferences')).data.data;
+
+    try {
+      const response = await api.put('/v1/me/preferences', {
+        preferred_language: 'en-US',
+        vhf_backup_frequency: '143.9875',
+        last_location: { lat: 45.9237, lon: 6.8694 }
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.data.data.preferred_language).toBe('en-US');
+      expect(response.data.data.vhf_backup_frequency).toBe('143.9875');
+      expect(response.data.data.last_location).toEqual({ lat: 45.9237, lon: 6.8694 });
+      // Fields absent from the request are kept
+      expect(response.data.data.auto_join_site_channels).toBe(initial.auto_join_site_channels);
+
+      const getResponse = await api.get('/v1/me/preferences');
+      expect(getResponse.data.data.preferred_language).toBe('en-US');
+    } finally {
+      await api.put('/v1/me/preferences', {
+        preferred_language: initial.preferred_language,
+        vhf_backup_frequency: initial.vhf_backup_frequency ?? null,
+        last_location: initial.last_location ?? null
+      });
+    }
+  });
+
+  test('840. Should reject preferences with an invalid VHF frequency', async () => {
+    const response = await api.put('/v1/me/preferences', {
+      vhf_backup_frequency: '999.999'
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.data.success).toBe(false);
+  });
+
+  test('850. Should open an incident for an emergency transmission and track its acknowledgement', async () => {
+    if (!testChannelCreated) {
+      throw new Error('Test channel must be created first (test 23)');
+    }
+
+    const startResponse = await api.post('/v1/transmissions/start', {
+      channel_uuid: testChannelUuid,
+      audio_format: 'opus',
+      sample_rate: 48000,
+      bitrate: 32000,
+      network_quality: 'good',
+      location: { lat: 45.9237, lon: 6.8694 },
+      is_emergency: true
+    });
+    expect(startResponse.status).toBe(200);
+
+    const sessionId = startResponse.data.session_id;
+    await api.post(`/v1/transmissions/${sessionId}/end`, {
+      session_id: sessionId,
+      total_duration_ms: 1000
+    });
+
+    // The incident is opened in the background of the transmission start
+    let incident: any;
+    for (let attempt = 0; attempt < 10 && !incident; attempt++) {
+      const listResponse = await api.get(`/v1/incidents?channel_uuid=${testChannelUuid}`);
+      expect(listResponse.status).toBe(200);
+      incident = listResponse.data.data.incidents.find((item: any) => item.status !== 'closed');
+      if (!incident) {
+        await new Promise((resolve) => setTimeout(resolve, 500));
+      }
+    }
+
+    expect(incident).toBeDefined();
+    expect(incident.location).toEqual({ lat: 45.9237, lon: 6.8694 });
+
+    const ackResponse = await api.post(`/v1/incidents/${incident.id}/acknowledge`, {
+      notes: 'Rescue team notified'
+    });
+    expect(ackResponse.status).toBe(200);
+    expect(ackResponse.data.data.status).toBe('acknowledged');
+    expect(ackResponse.data.data.notes).toBe('Rescue team notified');
+
+    const secondAckResponse = await api.post(`/v1/incidents/${incident.id}/acknowledge`, {});
+    expect(secondAckResponse.status).toBe(409);
+
+    const closeResponse = await api.post(`/v1/incidents/${incident.id}/close`, {});
+    expect(closeResponse.status).toBe(200);
+    expect(closeResponse.data.data.status).toBe('closed');
+    expect(closeResponse.data.data.closed_at).toBeDefined();
+  });
+
+  test('860. Should reject an invalid incident status filter and unknown incidents', async () => {
+    const listResponse = await api.get('/v1/incidents?status=lost');
+    expect(listResponse.status).toBe(400);
+
+    const getResponse = await api.get('/v1/incidents/unknown-incident');
+    expect(getResponse.status).toBe(404);
+
+    const ackResponse = await api.post('/v1/incidents/unknown-incident/acknowledge', {});
+    expect(ackResponse.status).toBe(404);
+  });
+
+  test('870. Should mirror an emergency transmission into the channels covering the talker', async () => {
+    const originResponse = await api.post('/v1/channels', {
+      name: 'Test Relay Origin Channel',
+      type: 'site_local',
+      coordinates: { lat: 45.9237, lon: 6.8694 },
+      radius_km: 10
+    });
+    expect(originResponse.status).toBe(201);
+    const originUuid = originResponse.data.data.uuid;
+
+    const coveringResponse = await api.post('/v1/channels', {
+      name: 'Test Relay Covering Channel',
+      type: 'general',
+      coordinates: { lat: 45.95, lon: 6.88 },
+      radius_km: 20
+    });
+    expect(coveringResponse.status).toBe(201);
+    const coveringUuid = coveringResponse.data.data.uuid;
+
+    try {
+      const startResponse = await api.post('/v1/transmissions/start', {
+        channel_uuid: originUuid,
+        audio_format: 'opus',
+        sample_rate: 48000,
+        bitrate: 32000,
+        network_quality: 'good',
+        location: { lat: 45.93, lon: 6.87 },
+        is_emergency: true
+      });
+      expect(startResponse.status).toBe(200);
+      const sessionId = startResponse.data.session_id;
+
+      // The transmission is mirrored in the background of the transmission start
+      let relayed: any = null;
+      for (let attempt = 0; attempt < 10 && !relayed; attempt++) {
+        const activeResponse = await api.get(`/v1/transmissions/active/${coveringUuid}`);
+        expect(activeResponse.status).toBe(200);
+        relayed = activeResponse.data.active_transmission;
+        if (!relayed) {
+          await new Promise((resolve) => setTimeout(resolve, 500));
+        }
+      }
+
+      expect(relayed).toBeDefined();
+      expect(relayed.is_emergency).toBe(true);
+      expect(relayed.user_id).toBe(testerId);
+      expect(relayed.relayed_from).toEqual({ channel_uuid: originUuid, session_id: sessionId });
+
+      await api.post(`/v1/transmissions/${sessionId}/end`, {
+        session_id: sessionId,
+        total_duration_ms: 1000
+      });
+
+      let ended = false;
+      for (let attempt = 0; attempt < 10 && !ended; attempt++) {
+        const activeResponse = await api.get(`/v1/transmissions/active/${coveringUuid}`);
+        ended = !activeResponse.data.active_transmission;
+        if (!ended) {
+          await new Promise((resolve) => setTimeout(resolve, 500));
+        }
+      }
+
+      expect(ended).toBe(true);
+    } finally {
+      await api.delete(`/v1/channels/${originUuid}?hard=true`);
+      await api.delete(`/v1/channels/${coveringUuid}?hard=true`);
+    }
+  });
+
+  test('880. Should get the recorded positions of a channel', async () => {
+    if (!testChannelCreated) {
+      throw new Error('Test channel must be created first (test 230)');
+    }
+
+    const response = await api.get(`/v1/channels/${testChannelUuid}/positions?since=${Date.now() - 60 * 60 * 1000}`);
+
+    expect(response.status).toBe(200);
+    expect(response.data.success).toBe(true);
+    expect(response.data.data.channel_uuid).toBe(testChannelUuid);
+    expect(Array.isArray(response.data.data.positions)).toBe(true);
+
+    const invalidResponse = await api.get(`/v1/channels/${testChannelUuid}/positions?since=yesterday`);
+    expect(invalidResponse.status).toBe(400);
+  });
+
+  test('890. Should opt out of location sharing in the preferences', async () => {
+    const initial = (await api.get('/v1/me/preferences')).data.data;
+    expect(typeof initial.share_location).toBe('boolean');
+
+    try {
+      const response = await api.put('/v1/me/preferences', { share_location: false });
+      expect(response.status).toBe(200);
+      expect(response.data.data.share_location).toBe(false);
+
+      const invalidResponse = await api.put('/v1/me/preferences', { share_location: 'no' });
+      expect(invalidResponse.status).toBe(400);
+    } finally {
+      await api.put('/v1/me/preferences', { share_location: initial.share_location });
+    }
+  });
+
+  test('900. Should import an IGC flight and get its track', async () => {
+    // Unique takeoff time, a flight is imported once per pilot
+    const takeoff = new Date(Math.floor(Date.now() / 1000) * 1000 - 10 * 60 * 1000);
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    const fix = (offsetSeconds: number, latMinutes: string, altitude: string) => {
+      const time = new Date(takeoff.getTime() + offsetSeconds * 1000);
+      return `B${pad(time.getUTCHours())}${pad(time.getUTCMinutes())}${pad(time.getUTCSeconds())}45${latMinutes}N00614052EA${altitude}${altitude}`;
+    };
+    const igc = [
+      'AXCTtest',
+      `HFDTEDATE:${pad(takeoff.getUTCDate())}${pad(takeoff.getUTCMonth() + 1)}${pad(takeoff.getUTCFullYear() % 100)},01`,
+      'HFPLTPILOTINCHARGE:API Tester',
+      fix(0, '51252', '01650'),
+      fix(1, '51262', '01655'),
+      fix(2, '51272', '01660')
+    ].join('\r\n');
+
+    const response = await api.post('/v1/flights', igc, {
+      headers: { 'Content-Type': 'text/plain' }
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.data.success).toBe(true);
+    expect(response.data.data.format).toBe('igc');
+    expect(response.data.data.pilot_name).toBe('API Tester');
+    expect(response.data.data.point_count).toBe(3);
+    expect(response.data.data.takeoff_time).toBe(takeoff.toISOString());
+    expect(response.data.data.max_altitude_m).toBe(1660);
+
+    const flightId = response.data.data.id;
+    const detailsResponse = await api.get(`/v1/flights/${flightId}`);
+
+    expect(detailsResponse.status).toBe(200);
+    expect(detailsResponse.data.data.track).toHaveLength(3);
+    expect(Array.isArray(detailsResponse.data.data.transmissions)).toBe(true);
+
+    const duplicateResponse = await api.post('/v1/flights', igc, {
+      headers: { 'Content-Type': 'text/plain' }
+    });
+    expect(duplicateResponse.status).toBe(409);
+
+    const invalidResponse = await api.post('/v1/flights', 'not a track', {
+      headers: { 'Content-Type': 'text/plain' }
+    });
+    expect(invalidResponse.status).toBe(400);
+
+    const missingResponse = await api.get('/v1/flights/00000000-0000-0000-0000-000000000000');
+    expect(missingResponse.status).toBe(404);
+  });
+
+  test('910. Should create a scheduled channel closed outside its active windows', async () => {
+    const invalidResponse = await api.post('/v1/channels', {
+      name: 'Invalid Schedule Channel',
+      type: 'general',
+      active_windows: [{ type: 'weekly', days: [7], start_time: '10:00', end_time: '18:00', timezone: 'Europe/Paris' }]
+    });
+    expect(invalidResponse.status).toBe(400);
+
+    const emergencyResponse = await api.post('/v1/channels', {
+      name: 'Scheduled Emergency Channel',
+      type: 'emergency',
+      active_windows: [{ type: 'once', start: '2000-01-01T10:00', end: '2000-01-01T11:00', timezone: 'UTC' }]
+    });
+    expect(emergencyResponse.status).toBe(400);
+
+    const createResponse = await api.post('/v1/channels', {
+      name: `Past Competition ${Date.now()}`,
+      type: 'general',
+      active_windows: [{ type: 'once', start: '2000-01-01T10:00', end: '2000-01-01T11:00', timezone: 'UTC', label: 'Task 1' }]
+    });
+
+    expect(createResponse.status).toBe(201);
+    expect(createResponse.data.data.is_active).toBe(false);
+    expect(createResponse.data.data.active_windows).toHaveLength(1);
+
+    const channelUuid = createResponse.data.data.uuid;
+
+    try {
+      const joinResponse = await api.post(`/v1/channels/${channelUuid}/join`, {});
+      expect(joinResponse.status).toBe(400);
+
+      // Removing the schedule makes the channel always available again
+      const updateResponse = await api.put(`/v1/channels/${channelUuid}`, { active_windows: null });
+
+      expect(updateResponse.status).toBe(200);
+      expect(updateResponse.data.data.is_active).toBe(true);
+      expect(updateResponse.data.data.active_windows).toBeUndefined();
+    } finally {
+      await api.delete(`/v1/channels/${channelUuid}?hard=true`);
+    }
+  });
+
+  test('920. Should manage channel moderators and audit moderation actions', async () => {
+    const createResponse = await api.post('/v1/channels', {
+      name: `Moderated Channel ${Date.now()}`,
+      type: 'instructors'
+    });
+
+    expect(createResponse.status).toBe(201);
+
+    const channelUuid = createResponse.data.data.uuid;
+    const moderatorId = encodeURIComponent('auth0|moderator-test');
+    const pilotId = 'auth0|muted-pilot-test';
+
+    try {
+      const addResponse = await api.put(`/v1/channels/${channelUuid}/moderators/${moderatorId}`, {
+        username: 'Instructor'
+      });
+
+      expect(addResponse.status).toBe(200);
+      expect(addResponse.data.data.role).toBe('moderator');
+
+      const moderatorsResponse = await api.get(`/v1/channels/${channelUuid}/moderators`);
+
+      expect(moderatorsResponse.status).toBe(200);
+      expect(moderatorsResponse.data.data.moderators.map((m: any) => m.user_id)).toContain('auth0|moderator-test');
+
+      const invalidResponse = await api.post(`/v1/channels/${channelUuid}/moderation`, { action: 'mute' });
+      expect(invalidResponse.status).toBe(400);
+
+      const muteResponse = await api.post(`/v1/channels/${channelUuid}/moderation`, {
+        action: 'mute',
+        target_user_id: pilotId,
+        duration_minutes: 15,
+        reason: 'Open mic'
+      });
+
+      expect(muteResponse.status).toBe(200);
+      expect(muteResponse.data.data.entry.action).toBe('mute');
+      expect(muteResponse.data.data.entry.expires_at).toBeDefined();
+
+      const forceEndResponse = await api.post(`/v1/channels/${channelUuid}/moderation`, { action: 'force_end' });
+      expect(forceEndResponse.status).toBe(409);
+
+      const moderationResponse = await api.get(`/v1/channels/${channelUuid}/moderation`);
+
+      expect(moderationResponse.status).toBe(200);
+      expect(moderationResponse.data.data.mutes.map((m: any) => m.user_id)).toEqual([pilotId]);
+      expect(moderationResponse.data.data.actions.map((a: any) => a.action)).toEqual(['mute', 'moderator_added']);
+
+      const unmuteResponse = await api.post(`/v1/channels/${channelUuid}/moderation`, {
+        action: 'unmute',
+        target_user_id: pilotId
+      });
+      expect(unmuteResponse.status).toBe(200);
+
+      const secondUnmuteResponse = await api.post(`/v1/channels/${channelUuid}/moderation`, {
+        action: 'unmute',
+        target_user_id: pilotId
+      });
+      expect(secondUnmuteResponse.status).toBe(409);
+
+      const removeResponse = await api.delete(`/v1/channels/${channelUuid}/moderators/${moderatorId}`);
+      expect(removeResponse.status).toBe(200);
+
+      const secondRemoveResponse = await api.delete(`/v1/channels/${channelUuid}/moderators/${moderatorId}`);
+      expect(secondRemoveResponse.status).toBe(404);
+
+      // Malformed percent-encoding of the user ID
+      const invalidRemoveResponse = await api.delete(`/v1/channels/${channelUuid}/moderators/auth0%7`);
+      expect(invalidRemoveResponse.status).toBe(400);
+    } finally {
+      await api.delete(`/v1/channels/${channelUuid}?hard=true`);
+    }
+  });
+
+  test('930. Should start private calls and log their targets', async () => {
+    const createResponse = await api.post('/v1/channels', {
+      name: `Private Call Channel ${Date.now()}`,
+      type: 'instructors'
+    });
+
+    expect(createResponse.status).toBe(201);
+
+    const channelUuid = createResponse.data.data.uuid;
+    const studentId = 'auth0|private-call-student';
+    const startRequest = {
+      channel_uuid: channelUuid,
+      audio_format: 'opus' as const,
+      sample_rate: 48000,
+      bitrate: 64000,
+      network_quality: 'good' as const
+    };
+
+    try {
+      const joinResponse = await api.post(`/v1/channels/${channelUuid}/join`, {});
+      expect(joinResponse.status).toBe(200);
+
+      const invalidResponse = await api.post('/v1/transmissions/start', {
+        ...startRequest,
+        target_user_ids: []
+      });
+      expect(invalidResponse.status).toBe(400);
+      expect(invalidResponse.data.error).toContain('target_user_ids');
+
+      const startResponse = await api.post('/v1/transmissions/start', {
+        ...startRequest,
+        target_user_ids: [studentId]
+      });
+
+      expect(startResponse.status).toBe(200);
+      expect(startResponse.data.success).toBe(true);
+
+      const endResponse = await api.post(`/v1/transmissions/${encodeURIComponent(startResponse.data.session_id)}/end`, {
+        session_id: startResponse.data.session_id,
+        total_duration_ms: 1000,
+        total_chunks: 0
+      });
+      expect(endResponse.status).toBe(200);
+
+      const since = new Date(Date.now() - 60 * 1000).toISOString();
+      const transmissionsResponse = await api.get(
+        `/v1/channels/${channelUuid}/transmissions?since=${encodeURIComponent(since)}`
+      );
+
+      expect(transmissionsResponse.status).toBe(200);
+
+      const privateCall = transmissionsResponse.data.data.transmissions.find(
+        (transmission: any) => transmission.session_id === startResponse.data.session_id
+      );
+
+      expect(privateCall).toBeDefined();
+      expect(privateCall.target_user_ids).toEqual([studentId]);
+    } finally {
+      await api.delete(`/v1/channels/${channelUuid}?hard=true`);
+    }
+  });
+
+  test('940. Should post and page channel text messages', async () => {
+    const createResponse = await api.post('/v1/channels', {
+      name: `Text Messages Channel ${Date.now()}`,
+      type: 'general'
+    });
+
+    expect(createResponse.status).toBe(201);
+
+    const channelUuid = createResponse.data.data.uuid;
+
+    try {
+      const invalidResponse = await api.post(`/v1/channels/${channelUuid}/messages`, {
+        canned_message_id: 'unknown'
+      });
+      expect(invalidResponse.status).toBe(400);
+      expect(invalidResponse.data.error).toContain('canned_message_id');
+
+      const textResponse = await api.post(`/v1/channels/${channelUuid}/messages`, {
+        content: 'Thermal at the ridge'
+      });
+      expect(textResponse.status).toBe(201);
+      expect(textResponse.data.data.content).toBe('Thermal at the ridge');
+
+      const cannedResponse = await api.post(`/v1/channels/${channelUuid}/messages`, {
+        canned_message_id: 'landed_ok',
+        location: { lat: 45.9237, lon: 6.8694 }
+      });
+      expect(cannedResponse.status).toBe(201);
+      expect(cannedResponse.data.data.content).toBe('Landed OK');
+
+      const firstPage = await api.get(`/v1/channels/${channelUuid}/messages?limit=1`);
+
+      expect(firstPage.status).toBe(200);
+      expect(firstPage.data.data.canned_messages.map((message: any) => message.id)).toContain('need_retrieve');
+      expect(firstPage.data.data.messages).toHaveLength(1);
+      expect(firstPage.data.data.messages[0].canned_message_id).toBe('landed_ok');
+      expect(firstPage.data.data.has_more).toBe(true);
+
+      const secondPage = await api.get(
+        `/v1/channels/${channelUuid}/messages?limit=1&before=${firstPage.data.data.messages[0].id}`
+      );
+
+      expect(secondPage.status).toBe(200);
+      expect(secondPage.data.data.messages[0].content).toBe('Thermal at the ridge');
+      expect(secondPage.data.data.has_more).toBe(false);
+    } finally {
+      await api.delete(`/v1/channels/${channelUuid}?hard=true`);
+    }
+  });
+
+  test('950. Should check in landed on a site_local channel', async () => {
+    const createResponse = await api.post('/v1/channels', {
+      name: `Check-in Channel ${Date.now()}`,
+      type: 'site_local',
+      coordinates: { lat: 45.9237, lon: 6.8694 },
+      checkin_deadline_minutes: 120
+    });
+
+    expect(createResponse.status).toBe(201);
+    expect(createResponse.data.data.checkin_deadline_minutes).toBe(120);
+
+    const channelUuid = createResponse.data.data.uuid;
+
+    try {
+      const invalidDeadline = await api.put(`/v1/channels/${channelUuid}`, {
+        checkin_deadline_minutes: 5
+      });
+      expect(invalidDeadline.status).toBe(400);
+
+      const invalidResponse = await api.post(`/v1/channels/${channelUuid}/checkins`, { via: 'text' });
+      expect(invalidResponse.status).toBe(400);
+
+      const checkinResponse = await api.post(`/v1/channels/${channelUuid}/checkins`, {
+        via: 'button',
+        location: { lat: 45.9237, lon: 6.8694 }
+      });
+
+      expect(checkinResponse.status).toBe(201);
+      expect(checkinResponse.data.data.status).toBe('landed');
+      expect(checkinResponse.data.data.landed_via).toBe('button');
+
+      const boardResponse = await api.get(`/v1/channels/${channelUuid}/checkins`);
+
+      expect(boardResponse.status).toBe(200);
+      expect(boardResponse.data.data.checkins.map((checkin: any) => checkin.id)).toContain(
+        checkinResponse.data.data.id
+      );
+    } finally {
+      await api.delete(`/v1/channels/${channelUuid}?hard=true`);
+    }
+  });
 });
\ No newline at end of file
@@ -0,0 +1,132 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  haversineDistanceKm,
+  boundingBox,
+  boundingBoxCondition,
+  isInBoundingBox
+} from '../src/utils/geo';
+
+/**
+ * Positions on a circle around a center, used to check that the bounding box
+ * never excludes a position within the search radius
+ */
+function circle(center: { lat: number; lon: number }, radiusKm: number, points = 72) {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+  const angularRadius = radiusKm / 6371;
+  const lat1 = toRadians(center.lat);
+  const lon1 = toRadians(center.lon);
+  const positions: { lat: number; lon: number }[] = [];
+
+  for (let i = 0; i < points; i++) {
+    const bearing = (2 * Math.PI * i) / points;
+    const lat2 = Math.asin(
+      Math.sin(lat1) * Math.cos(angularRadius) +
+      Math.cos(lat1) * Math.sin(angularRadius) * Math.cos(bearing)
+    );
+    const lon2 = lon1 + Math.atan2(
+      Math.sin(bearing) * Math.sin(angularRadius) * Math.cos(lat1),
+      Math.cos(angularRadius) - Math.sin(lat1) * Math.sin(lat2)
+    );
+    // Normalize to [-180, 180]
+    positions.push({ lat: toDegrees(lat2), lon: ((toDegrees(lon2) + 540) % 360) - 180 });
+  }
+
+  return positions;
+}
+
+describe('Geospatial helpers', () => {
+  test('1. Should compute the Haversine distance', () => {
+    // Chamonix - Annecy
+    expect(haversineDistanceKm({ lat: 45.9237, lon: 6.8694 }, { lat: 45.8992, lon: 6.1294 })).toBeCloseTo(57.3, 0);
+    expect(haversineDistanceKm({ lat: 10, lon: 20 }, { lat: 10, lon: 20 })).toBe(0);
+  });
+
+  test('2. Should compute the distance across the antimeridian', () => {
+    const distance = haversineDistanceKm({ lat: 0, lon: 179.9 }, { lat: 0, lon: -179.9 });
+
+    expect(distance).toBeCloseTo(22.24, 1);
+  });
+
+  test('3. Should compute the distance across a pole', () => {
+    const distance = haversineDistanceKm({ lat: 89.9, lon: 0 }, { lat: 89.9, lon: 180 });
+
+    expect(distance).toBeCloseTo(22.24, 1);
+  });
+
+  test('4. Should build a regular bounding box', () => {
+    const box = boundingBox({ lat: 45.9237, lon: 6.8694 }, 50);
+
+    expect(box.minLat).toBeLessThan(45.9237);
+    expect(box.maxLat).toBeGreaterThan(45.9237);
+    expect(box.minLon).toBeLessThan(box.maxLon);
+    expect(boundingBoxCondition(box, 'lat', 'lon').sql).toBe('(lat BETWEEN ? AND ? AND lon BETWEEN ? AND ?)');
+  });
+
+  test('5. Should wrap the bounding box around the antimeridian', () => {
+    const center = { lat: -17.7, lon: 179.5 }; // Fiji
+    const box = boundingBox(center, 100);
+    const condition = boundingBoxCondition(box, 'lat', 'lon');
+
+    expect(box.minLon).toBeGreaterThan(box.maxLon);
+    expect(box.maxLon).toBeLessThan(-179);
+    expect(condition.sql).toBe('(lat BETWEEN ? AND ? AND (lon >= ? OR lon <= ?))');
+    expect(condition.params).toEqual([box.minLat, box.maxLat, box.minLon, box.maxLon]);
+    expect(isInBoundingBox(box, { lat: -17.7, lon: -179.8 })).toBe(true);
+    expect(isInBoundingBox(box, { lat: -17.7, lon: 0 })).toBe(false);
+    circle(center, 99.9).forEach((position) => {
+      expect(isInBoundingBox(box, position)).toBe(true);
+    });
+  });
+
+  test('6. Should cover every longitude when the search contains a pole', () => {
+    const north = boundingBox({ lat: 89.5, lon: 30 }, 100);
+    const south = boundingBox({ lat: -89.9, lon: -120 }, 50);
+
+    expect(north).toEqual({ minLat: expect.any(Number), maxLat: 90, minLon: -180, maxLon: 180 });
+    expect(south).toEqual({ minLat: -90, maxLat: expect.any(Number), minLon: -180, maxLon: 180 });
+    expect(isInBoundingBox(north, { lat: 89.5, lon: -150 })).toBe(true);
+  });
+
+  test('7. Should not exclude positions within the radius near a pole', () => {
+    const center = { lat: 88, lon: 10 };
+    const box = boundingBox(center, 150);
+
+    circle(center, 149.9).forEach((position) => {
+      expect(isInBoundingBox(box, position)).toBe(true);
+    });
+  });
+
+  test('8. Should not exclude positions within the radius at mid latitudes', () => {
+    const center = { lat: 45.9237, lon: 6.8694 };
+    const box = boundingBox(center, 25);
+
+    circle(center, 24.9).forEach((position) => {
+      expect(isInBoundingBox(box, position)).toBe(true);
+    });
+    expect(isInBoundingBox(box, { lat: 46.5, lon: 6.8694 })).toBe(false);
+  });
+});
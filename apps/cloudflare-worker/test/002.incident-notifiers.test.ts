@@ -0,0 +1,212 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { createHmac } from 'crypto';
+import {
+  WebhookNotifier,
+  HttpMessagingProvider,
+  EmailNotifier,
+  SmsNotifier,
+  notifyWithRetry,
+  createIncidentNotifiers
+} from '../src/services/incident-notifiers';
+import { EmergencyIncident } from '../src/types/ptt';
+
+interface ReceivedRequest {
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+/**
+ * Local HTTP server standing in for the webhook receiver and the messaging providers.
+ * Each request is answered by the next queued status code, 200 when the queue is empty.
+ */
+let server: Server;
+let baseUrl: string;
+let received: ReceivedRequest[] = [];
+let statusQueue: number[] = [];
+let statusFor: (request: ReceivedRequest) => number | undefined = () => undefined;
+
+const incident: EmergencyIncident = {
+  id: 'incident-1',
+  channel_uuid: '8a9a3d41-1e5d-4159-8f82-0e073bc9dc33',
+  incident_type: 'emergency',
+  session_id: 'ptt_session_1',
+  user_id: 'auth0|pilot',
+  username: 'Pilot One',
+  location: { lat: 45.9237, lon: 6.8694 },
+  status: 'open',
+  created_at: '2025-08-14T10:30:00.000Z',
+  updated_at: '2025-08-14T10:30:00.000Z'
+};
+
+const noWait = async () => {};
+
+beforeAll(async () => {
+  server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let body = '';
+
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const request = { url: req.url || '', headers: req.headers, body };
+
+      received.push(request);
+      res.statusCode = statusFor(request) ?? statusQueue.shift() ?? 200;
+      res.end();
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  received = [];
+  statusQueue = [];
+  statusFor = () => undefined;
+});
+
+describe('Incident notifiers', () => {
+  test('Webhook posts the incident signed with the shared secret', async () => {
+    await new WebhookNotifier(`${baseUrl}/hooks/rescue`, 'top-secret').notify(incident);
+
+    expect(received).toHaveLength(1);
+    expect(received[0].url).toBe('/hooks/rescue');
+    expect(JSON.parse(received[0].body)).toEqual({ event: 'emergency_incident', incident });
+
+    const expectedSignature = createHmac('sha256', 'top-secret').update(received[0].body).digest('hex');
+    expect(received[0].headers['x-parawave-signature']).toBe(`sha256=${expectedSignature}`);
+  });
+
+  test('Webhook event of an overdue pilot', async () => {
+    const overdue: EmergencyIncident = { ...incident, incident_type: 'overdue' };
+
+    await new WebhookNotifier(`${baseUrl}/hooks/rescue`).notify(overdue);
+
+    expect(JSON.parse(received[0].body)).toEqual({ event: 'overdue_incident', incident: overdue });
+  });
+
+  test('Webhook without secret is not signed and fails on an error status', async () => {
+    statusQueue = [502];
+
+    await expect(new WebhookNotifier(`${baseUrl}/hooks/rescue`).notify(incident)).rejects.toThrow('502');
+    expect(received[0].headers['x-parawave-signature']).toBeUndefined();
+  });
+
+  test('Delivery is retried with exponential backoff until it succeeds', async () => {
+    statusQueue = [500, 503];
+    const delays: number[] = [];
+
+    const result = await notifyWithRetry(new WebhookNotifier(`${baseUrl}/hooks/rescue`), incident, {
+      maxAttempts: 4,
+      baseDelayMs: 100,
+      sleep: async (ms) => {
+        delays.push(ms);
+      }
+    });
+
+    expect(result).toEqual({ delivered: true, attempts: 3 });
+    expect(delays).toEqual([100, 200]);
+    expect(received).toHaveLength(3);
+  });
+
+  test('Delivery gives up after the maximum number of attempts', async () => {
+    statusQueue = [500, 500, 500];
+
+    const result = await notifyWithRetry(new WebhookNotifier(`${baseUrl}/hooks/rescue`), incident, {
+      maxAttempts: 3,
+      sleep: noWait
+    });
+
+    expect(result.delivered).toBe(false);
+    expect(result.attempts).toBe(3);
+    expect(result.error).toContain('500');
+  });
+
+  test('SMS is sent to every recipient through the messaging provider', async () => {
+    const provider = new HttpMessagingProvider(`${baseUrl}/sms`, 'api-key');
+
+    await new SmsNotifier(provider, ['+33600000001', '+33600000002']).notify(incident);
+
+    expect(received).toHaveLength(2);
+    expect(received.map((request) => JSON.parse(request.body).to).sort()).toEqual(['+33600000001', '+33600000002']);
+    expect(received[0].headers.authorization).toBe('Bearer api-key');
+
+    const message = JSON.parse(received[0].body);
+    expect(message.text).toContain('Pilot One');
+    expect(message.text).toContain('mlat=45.9237&mlon=6.8694');
+  });
+
+  test('Email fails when a recipient is not reached', async () => {
+    statusFor = (request) => (JSON.parse(request.body).to === 'down@example.com' ? 500 : 200);
+    const provider = new HttpMessagingProvider(`${baseUrl}/email`);
+
+    await expect(
+      new EmailNotifier(provider, ['pghm@example.com', 'down@example.com']).notify(incident)
+    ).rejects.toThrow('1/2 recipients not reached');
+    expect(JSON.parse(received[0].body).subject).toContain('Pilot One');
+  });
+
+  test('Retried delivery only reaches the recipients not reached yet', async () => {
+    let downAttempts = 0;
+
+    statusFor = (request) =>
+      JSON.parse(request.body).to === 'down@example.com' && ++downAttempts === 1 ? 500 : 200;
+    const provider = new HttpMessagingProvider(`${baseUrl}/email`);
+
+    const result = await notifyWithRetry(
+      new EmailNotifier(provider, ['pghm@example.com', 'down@example.com']),
+      { ...incident, incident_type: 'overdue' },
+      { maxAttempts: 3, sleep: noWait }
+    );
+
+    expect(result).toEqual({ delivered: true, attempts: 2 });
+    expect(received.map((request) => JSON.parse(request.body).to).sort()).toEqual([
+      'down@example.com',
+      'down@example.com',
+      'pghm@example.com'
+    ]);
+    expect(JSON.parse(received[0].body).subject).toBe('[ParaWave] Overdue pilot - Pilot One');
+  });
+
+  test('Only the configured notifiers are created', () => {
+    const env = {
+      INCIDENT_WEBHOOK_URL: `${baseUrl}/hooks/rescue`,
+      INCIDENT_EMAIL_PROVIDER_URL: `${baseUrl}/email`,
+      INCIDENT_EMAIL_RECIPIENTS: '',
+      INCIDENT_SMS_PROVIDER_URL: `${baseUrl}/sms`,
+      INCIDENT_SMS_RECIPIENTS: '+33600000001, +33600000002'
+    } as unknown as Env;
+
+    expect(createIncidentNotifiers(env).map((notifier) => notifier.name)).toEqual(['webhook', 'sms']);
+    expect(createIncidentNotifiers({} as Env)).toEqual([]);
+  });
+});
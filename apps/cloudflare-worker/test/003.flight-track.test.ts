@@ -0,0 +1,208 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  detectFlightTrackFormat,
+  parseFlightTrack,
+  parseIGC,
+  parseGPX,
+  interpolateTrackPosition,
+  downsampleTrack
+} from '../src/utils/flight-track';
+import { FlightTrackPoint } from '../src/types/ptt';
+
+/**
+ * Short flight from Planfait (Annecy) recorded by a vario, across midnight UTC
+ */
+const IGC = [
+  'AXCT7a1b2c3d4e5f6',
+  'HFDTEDATE:140825,01',
+  'HFPLTPILOTINCHARGE:Jane Pilot',
+  'HFGTYGLIDERTYPE:Ozone Rush 6',
+  'HFGIDGLIDERID:F-1234',
+  'HFSITSITE:Planfait',
+  'B2359584551252N00614052EA0165001700',
+  'B2359594551260N00614060EA0166001710',
+  'B0000004551270N00614070EA0167001720',
+  'B0000014551280N00614080EV0168000000',
+  'LXCTsome comment',
+  'GREPLACE0000'
+].join('\r\n');
+
+const GPX = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="XCTrack" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata><author><name>Jane &amp; Co</name></author></metadata>
+  <trk>
+    <name>Planfait</name>
+    <trkseg>
+      <trkpt lat="45.8542" lon="6.2342"><ele>1700</ele><time>2025-08-14T12:00:02Z</time></trkpt>
+      <trkpt lon="6.2350" lat="45.8550"><ele>1710.5</ele><time>2025-08-14T12:00:00Z</time></trkpt>
+      <trkpt lat="45.8560" lon="6.2360"><time>2025-08-14T12:00:04Z</time></trkpt>
+      <trkpt lat="45.8570" lon="6.2370"><ele>1720</ele></trkpt>
+      <trkpt lat="95" lon="6.2370"><time>2025-08-14T12:00:06Z</time></trkpt>
+    </trkseg>
+  </trk>
+</gpx>`;
+
+describe('detectFlightTrackFormat', () => {
+  test('uses the file extension first', () => {
+    expect(detectFlightTrackFormat('anything', 'flight.IGC')).toBe('igc');
+    expect(detectFlightTrackFormat('anything', 'flight.gpx')).toBe('gpx');
+  });
+
+  test('falls back on the content', () => {
+    expect(detectFlightTrackFormat(IGC)).toBe('igc');
+    expect(detectFlightTrackFormat(GPX)).toBe('gpx');
+    expect(detectFlightTrackFormat('<kml></kml>')).toBeNull();
+    expect(detectFlightTrackFormat('{"type":"FeatureCollection"}')).toBeNull();
+  });
+});
+
+describe('parseIGC', () => {
+  const result = parseIGC(IGC);
+  const points = result.track!.points;
+
+  test('reads the pilot and glider headers', () => {
+    expect(result.success).toBe(true);
+    expect(result.track).toMatchObject({
+      format: 'igc',
+      pilot_name: 'Jane Pilot',
+      glider_type: 'Ozone Rush 6',
+      glider_id: 'F-1234',
+      site_name: 'Planfait'
+    });
+  });
+
+  test('decodes the B record positions', () => {
+    expect(points).toHaveLength(4);
+    expect(points[0].lat).toBeCloseTo(45 + 51.252 / 60, 6);
+    expect(points[0].lon).toBeCloseTo(6 + 14.052 / 60, 6);
+  });
+
+  test('continues on the next day after midnight UTC', () => {
+    expect(new Date(points[0].timestamp_ms).toISOString()).toBe('2025-08-14T23:59:58.000Z');
+    expect(new Date(points[2].timestamp_ms).toISOString()).toBe('2025-08-15T00:00:00.000Z');
+  });
+
+  test('prefers the GNSS altitude and falls back on the pressure altitude', () => {
+    expect(points[0].altitude_m).toBe(1700);
+    expect(points[3].altitude_m).toBe(1680);
+  });
+
+  test('handles southern and western hemispheres', () => {
+    const track = parseIGC('HFDTE010125\nB1200003330000S07030000WA0050000600').track!;
+
+    expect(track.points[0].lat).toBeCloseTo(-33.5, 6);
+    expect(track.points[0].lon).toBeCloseTo(-70.5, 6);
+  });
+
+  test('rejects fixes without a flight date', () => {
+    const missingDate = parseIGC('B2359584551252N00614052EA0165001700');
+
+    expect(missingDate.success).toBe(false);
+    expect(missingDate.error).toContain('HFDTE');
+  });
+});
+
+describe('parseGPX', () => {
+  const result = parseGPX(GPX);
+  const points = result.track!.points;
+
+  test('reads the author as pilot name', () => {
+    expect(result.track!.pilot_name).toBe('Jane & Co');
+    expect(result.track!.site_name).toBe('Planfait');
+  });
+
+  test('keeps the valid timed track points ordered by time', () => {
+    expect(points.map((point) => new Date(point.timestamp_ms).toISOString())).toEqual([
+      '2025-08-14T12:00:00.000Z',
+      '2025-08-14T12:00:02.000Z',
+      '2025-08-14T12:00:04.000Z'
+    ]);
+    expect(points[0]).toMatchObject({ lat: 45.855, lon: 6.235, altitude_m: 1710.5 });
+    expect(points[2].altitude_m).toBeUndefined();
+  });
+
+  test('rejects documents that are not GPX', () => {
+    expect(parseGPX('<kml></kml>').success).toBe(false);
+  });
+});
+
+describe('parseFlightTrack', () => {
+  test('rejects unknown formats', () => {
+    expect(parseFlightTrack('hello').success).toBe(false);
+  });
+
+  test('rejects tracks with less than two fixes', () => {
+    const result = parseFlightTrack('HFDTE140825\nB1200004551252N00614052EA0165001700');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('two fixes');
+  });
+});
+
+describe('interpolateTrackPosition', () => {
+  const points: FlightTrackPoint[] = [
+    { timestamp_ms: 0, lat: 45, lon: 6, altitude_m: 1000 },
+    { timestamp_ms: 10000, lat: 46, lon: 7, altitude_m: 2000 },
+    { timestamp_ms: 20000, lat: 46, lon: 8 }
+  ];
+
+  test('interpolates between the surrounding fixes', () => {
+    expect(interpolateTrackPosition(points, 2500)).toEqual({
+      timestamp_ms: 2500,
+      lat: 45.25,
+      lon: 6.25,
+      altitude_m: 1250
+    });
+  });
+
+  test('keeps the known altitude when a fix has none', () => {
+    expect(interpolateTrackPosition(points, 15000)?.altitude_m).toBe(2000);
+  });
+
+  test('clamps times outside the track', () => {
+    expect(interpolateTrackPosition(points, -5000)).toMatchObject({ lat: 45, lon: 6 });
+    expect(interpolateTrackPosition(points, 50000)).toMatchObject({ lat: 46, lon: 8 });
+    expect(interpolateTrackPosition([], 0)).toBeNull();
+  });
+});
+
+describe('downsampleTrack', () => {
+  const points: FlightTrackPoint[] = Array.from({ length: 101 }, (_, index) => ({
+    timestamp_ms: index * 1000,
+    lat: 45,
+    lon: 6
+  }));
+
+  test('keeps short tracks unchanged', () => {
+    expect(downsampleTrack(points, 200)).toBe(points);
+  });
+
+  test('spreads the kept fixes over the flight', () => {
+    const sampled = downsampleTrack(points, 5);
+
+    expect(sampled.map((point) => point.timestamp_ms)).toEqual([0, 25000, 50000, 75000, 100000]);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  validateActiveWindows,
+  isWithinActiveWindows
+} from '../src/utils/channel-schedule';
+import { ChannelActiveWindow } from '../src/types/ptt';
+
+/**
+ * Weekend club session, Saturday and Sunday from 10:00 to 18:00 in Annecy
+ */
+const WEEKEND: ChannelActiveWindow = {
+  type: 'weekly',
+  days: [0, 6],
+  start_time: '10:00',
+  end_time: '18:00',
+  timezone: 'Europe/Paris'
+};
+
+/**
+ * Task briefing of a competition day
+ */
+const BRIEFING: ChannelActiveWindow = {
+  type: 'once',
+  start: '2025-08-14T09:30',
+  end: '2025-08-14T11:00',
+  timezone: 'Europe/Paris',
+  label: 'Task 1 briefing'
+};
+
+describe('Channel schedule validation', () => {
+  test('accepts weekly and one-off windows', () => {
+    expect(validateActiveWindows([WEEKEND, BRIEFING])).toBeNull();
+    expect(validateActiveWindows([])).toBeNull();
+  });
+
+  test('rejects values that are not arrays', () => {
+    expect(validateActiveWindows({})).toContain('must be an array');
+    expect(validateActiveWindows(null)).toContain('must be an array');
+  });
+
+  test('rejects unknown types and timezones', () => {
+    expect(validateActiveWindows([{ ...WEEKEND, type: 'daily' }])).toContain('type');
+    expect(validateActiveWindows([{ ...WEEKEND, timezone: 'Mars/Olympus' }])).toContain('timezone');
+  });
+
+  test('rejects invalid days and times of weekly windows', () => {
+    expect(validateActiveWindows([{ ...WEEKEND, days: [] }])).toContain('days');
+    expect(validateActiveWindows([{ ...WEEKEND, days: [7] }])).toContain('days');
+    expect(validateActiveWindows([{ ...WEEKEND, days: [1, 1] }])).toContain('days');
+    expect(validateActiveWindows([{ ...WEEKEND, start_time: '24:00' }])).toContain('start_time');
+    expect(validateActiveWindows([{ ...WEEKEND, end_time: '10:00' }])).toContain('must differ');
+  });
+
+  test('rejects invalid or inverted one-off windows', () => {
+    expect(validateActiveWindows([{ ...BRIEFING, start: '2025-02-30T09:30' }])).toContain('start');
+    expect(validateActiveWindows([{ ...BRIEFING, end: '2025-08-14 11:00' }])).toContain('end');
+    expect(validateActiveWindows([{ ...BRIEFING, end: BRIEFING.start }])).toContain('before end');
+  });
+});
+
+describe('Channel schedule evaluation', () => {
+  test('channels without windows are always open', () => {
+    expect(isWithinActiveWindows(undefined)).toBe(true);
+    expect(isWithinActiveWindows([])).toBe(true);
+  });
+
+  test('weekly windows use the local time of their timezone', () => {
+    // Saturday 16 August 2025, Paris is UTC+2
+    expect(isWithinActiveWindows([WEEKEND], new Date('2025-08-16T07:59:00Z'))).toBe(false);
+    expect(isWithinActiveWindows([WEEKEND], new Date('2025-08-16T08:00:00Z'))).toBe(true);
+    expect(isWithinActiveWindows([WEEKEND], new Date('2025-08-16T15:59:00Z'))).toBe(true);
+    expect(isWithinActiveWindows([WEEKEND], new Date('2025-08-16T16:00:00Z'))).toBe(false);
+    // Friday 15 August 2025
+    expect(isWithinActiveWindows([WEEKEND], new Date('2025-08-15T10:00:00Z'))).toBe(false);
+  });
+
+  test('weekly windows follow daylight saving time', () => {
+    // Saturday 18 January 2025, Paris is UTC+1
+    expect(isWithinActiveWindows([WEEKEND], new Date('2025-01-18T08:30:00Z'))).toBe(false);
+    expect(isWithinActiveWindows([WEEKEND], new Date('2025-01-18T09:30:00Z'))).toBe(true);
+  });
+
+  test('overnight weekly windows end on the next day', () => {
+    const night: ChannelActiveWindow = {
+      type: 'weekly',
+      days: [5],
+      start_time: '22:00',
+      end_time: '02:00',
+      timezone: 'UTC'
+    };
+
+    expect(isWithinActiveWindows([night], new Date('2025-08-15T23:00:00Z'))).toBe(true);
+    expect(isWithinActiveWindows([night], new Date('2025-08-16T01:59:00Z'))).toBe(true);
+    expect(isWithinActiveWindows([night], new Date('2025-08-16T02:00:00Z'))).toBe(false);
+    expect(isWithinActiveWindows([night], new Date('2025-08-14T23:00:00Z'))).toBe(false);
+  });
+
+  test('one-off windows open on their local dates only', () => {
+    expect(isWithinActiveWindows([BRIEFING], new Date('2025-08-14T07:29:00Z'))).toBe(false);
+    expect(isWithinActiveWindows([BRIEFING], new Date('2025-08-14T07:30:00Z'))).toBe(true);
+    expect(isWithinActiveWindows([BRIEFING], new Date('2025-08-14T09:00:00Z'))).toBe(false);
+  });
+
+  test('a channel is open when any window is', () => {
+    const at = new Date('2025-08-14T08:00:00Z');
+
+    expect(isWithinActiveWindows([WEEKEND], at)).toBe(false);
+    expect(isWithinActiveWindows([WEEKEND, BRIEFING], at)).toBe(true);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { describe, test, expect } from '@jest/globals';
+import { ModerationService } from '../src/services/moderation-service';
+
+describe('ModerationService.validateModerationRequest', () => {
+  test('accepts a mute with duration and reason', () => {
+    expect(ModerationService.validateModerationRequest({
+      action: 'mute',
+      target_user_id: 'auth0|pilot',
+      duration_minutes: 15,
+      reason: 'Open mic'
+    })).toBeNull();
+  });
+
+  test('accepts a force_end without target', () => {
+    expect(ModerationService.validateModerationRequest({ action: 'force_end' })).toBeNull();
+  });
+
+  test('rejects unknown actions', () => {
+    expect(ModerationService.validateModerationRequest({ action: 'ban', target_user_id: 'auth0|pilot' }))
+      .toContain('Valid action is required');
+    expect(ModerationService.validateModerationRequest(null)).toBe('Invalid moderation request');
+  });
+
+  test('requires a target except for force_end', () => {
+    for (const action of ['mute', 'unmute', 'kick']) {
+      expect(ModerationService.validateModerationRequest({ action })).toBe('target_user_id is required');
+    }
+    expect(ModerationService.validateModerationRequest({ action: 'kick', target_user_id: 42 }))
+      .toBe('Invalid target_user_id');
+  });
+
+  test('rejects invalid mute durations', () => {
+    for (const duration_minutes of [0, -5, 1.5, 7 * 24 * 60 + 1, '15']) {
+      expect(ModerationService.validateModerationRequest({
+        action: 'mute',
+        target_user_id: 'auth0|pilot',
+        duration_minutes
+      })).toContain('Invalid duration_minutes');
+    }
+  });
+
+  test('rejects long reasons', () => {
+    expect(ModerationService.validateModerationRequest({
+      action: 'kick',
+      target_user_id: 'auth0|pilot',
+      reason: 'x'.repeat(201)
+    })).toContain('Invalid reason');
+  });
+});
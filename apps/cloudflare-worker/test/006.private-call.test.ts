@@ -0,0 +1,74 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  MAX_CALL_TARGETS,
+  isCallListener,
+  resolveCallTargets
+} from '../src/utils/private-call';
+
+const INSTRUCTOR = 'auth0|instructor';
+const STUDENT = 'auth0|student';
+
+describe('Private call targets', () => {
+  test('keeps channel-wide transmissions without targets', () => {
+    expect(resolveCallTargets(undefined, INSTRUCTOR)).toEqual({});
+    expect(resolveCallTargets(null, INSTRUCTOR)).toEqual({});
+  });
+
+  test('drops duplicates and the talker', () => {
+    expect(resolveCallTargets([STUDENT, STUDENT, INSTRUCTOR], INSTRUCTOR)).toEqual({
+      targets: [STUDENT]
+    });
+  });
+
+  test('rejects values that are not lists of user IDs', () => {
+    expect(resolveCallTargets([], INSTRUCTOR).error).toContain('non-empty array');
+    expect(resolveCallTargets(STUDENT, INSTRUCTOR).error).toContain('non-empty array');
+    expect(resolveCallTargets([STUDENT, 42], INSTRUCTOR).error).toContain('non-empty array');
+  });
+
+  test('rejects calls without another participant', () => {
+    expect(resolveCallTargets([INSTRUCTOR], INSTRUCTOR).error).toContain('another participant');
+  });
+
+  test('limits the number of targets', () => {
+    const students = Array.from({ length: MAX_CALL_TARGETS + 1 }, (_, i) => `auth0|student${i}`);
+
+    expect(resolveCallTargets(students.slice(0, MAX_CALL_TARGETS), INSTRUCTOR).targets).toHaveLength(MAX_CALL_TARGETS);
+    expect(resolveCallTargets(students, INSTRUCTOR).error).toContain(`at most ${MAX_CALL_TARGETS}`);
+  });
+});
+
+describe('Private call listeners', () => {
+  test('lets everyone hear a channel-wide transmission', () => {
+    expect(isCallListener('auth0|other', INSTRUCTOR)).toBe(true);
+  });
+
+  test('only lets the talker and the targets hear a private call', () => {
+    expect(isCallListener(INSTRUCTOR, INSTRUCTOR, [STUDENT])).toBe(true);
+    expect(isCallListener(STUDENT, INSTRUCTOR, [STUDENT])).toBe(true);
+    expect(isCallListener('auth0|other', INSTRUCTOR, [STUDENT])).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  MAX_SCANNED_CHANNELS,
+  defaultScanPriority,
+  parseScanList,
+  resolveScannerFocus
+} from '../src/utils/scanner';
+import { ScannerActivity } from '../src/types/ptt';
+
+const SITE = '7f2c1a5e-1111-4b4b-8c8c-000000000001';
+const GENERAL = '7f2c1a5e-1111-4b4b-8c8c-000000000002';
+const EMERGENCY = '7f2c1a5e-1111-4b4b-8c8c-000000000003';
+
+const busy = (channelUuid: string, startedAt: number, isEmergency = false): ScannerActivity => ({
+  channel_uuid: channelUuid,
+  session_id: `ptt_${channelUuid}_${startedAt}`,
+  user_id: 'auth0|pilot',
+  username: 'Pilot',
+  is_emergency: isEmergency,
+  started_at: startedAt
+});
+
+describe('Scan list', () => {
+  test('parses channels with and without priority', () => {
+    expect(parseScanList(`${SITE.toUpperCase()}:25, ${GENERAL}`)).toEqual({
+      channels: [
+        { channel_uuid: SITE, priority: 25 },
+        { channel_uuid: GENERAL, priority: undefined }
+      ]
+    });
+  });
+
+  test('keeps the first entry of a duplicated channel', () => {
+    expect(parseScanList(`${SITE}:5,${SITE}:50`).channels).toEqual([{ channel_uuid: SITE, priority: 5 }]);
+  });
+
+  test('rejects missing lists and invalid priorities', () => {
+    expect(parseScanList(null).error).toContain('Missing required parameter');
+    expect(parseScanList(`${SITE}:0`).error).toContain('Invalid channels');
+    expect(parseScanList(`${SITE}:high`).error).toContain('Invalid channels');
+    expect(parseScanList(`${SITE}:5:1`).error).toContain('Invalid channels');
+  });
+
+  test('limits the number of scanned channels', () => {
+    const channels = Array.from({ length: MAX_SCANNED_CHANNELS + 1 }, (_, i) => `channel-${i}`);
+
+    expect(parseScanList(channels.slice(0, MAX_SCANNED_CHANNELS).join(',')).channels).toHaveLength(MAX_SCANNED_CHANNELS);
+    expect(parseScanList(channels.join(',')).error).toContain(`at most ${MAX_SCANNED_CHANNELS}`);
+  });
+
+  test('ranks emergency over site_local over general by default', () => {
+    expect(defaultScanPriority('emergency')).toBeGreaterThan(defaultScanPriority('site_local'));
+    expect(defaultScanPriority('site_local')).toBeGreaterThan(defaultScanPriority('general'));
+  });
+});
+
+describe('Scanner focus', () => {
+  const priorities = new Map([
+    [EMERGENCY, defaultScanPriority('emergency')],
+    [SITE, defaultScanPriority('site_local')],
+    [GENERAL, defaultScanPriority('general')]
+  ]);
+
+  test('is idle without transmissions', () => {
+    expect(resolveScannerFocus([], priorities)).toEqual({
+      active_channel_uuid: null,
+      ducked_channel_uuids: []
+    });
+  });
+
+  test('ducks the channels of lower priority', () => {
+    expect(resolveScannerFocus([busy(GENERAL, 1000), busy(SITE, 2000)], priorities)).toEqual({
+      active_channel_uuid: SITE,
+      ducked_channel_uuids: [GENERAL]
+    });
+  });
+
+  test('puts emergency transmissions first whatever the channel priority', () => {
+    expect(resolveScannerFocus([busy(EMERGENCY, 1000), busy(GENERAL, 500, true)], priorities).active_channel_uuid).toBe(GENERAL);
+  });
+
+  test('keeps the first speaker between channels of equal priority', () => {
+    const equal = new Map([[SITE, 10], [GENERAL, 10]]);
+
+    expect(resolveScannerFocus([busy(SITE, 2000), busy(GENERAL, 1000)], equal).active_channel_uuid).toBe(GENERAL);
+  });
+});
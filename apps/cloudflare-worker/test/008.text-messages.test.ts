@@ -0,0 +1,57 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { describe, test, expect } from '@jest/globals';
+import { CANNED_MESSAGES, MessageService } from '../src/services/message-service';
+
+describe('Text message validation', () => {
+  test('trims free text', () => {
+    expect(MessageService.resolveTextMessage({ content: '  Thermal at the ridge ' })).toEqual({
+      message: { content: 'Thermal at the ridge', location: undefined }
+    });
+  });
+
+  test('uses the content of canned messages', () => {
+    expect(MessageService.resolveTextMessage({ canned_message_id: 'need_retrieve', content: 'ignored' }).message).toEqual({
+      content: 'Need retrieve',
+      canned_message_id: 'need_retrieve',
+      location: undefined
+    });
+    expect(CANNED_MESSAGES.map(message => message.id)).toEqual(['landed_ok', 'need_retrieve', 'wind_too_strong']);
+  });
+
+  test('keeps a valid location', () => {
+    expect(MessageService.resolveTextMessage({
+      canned_message_id: 'landed_ok',
+      location: { lat: 45.9237, lon: 6.8694, altitude: 1035 }
+    }).message?.location).toEqual({ lat: 45.9237, lon: 6.8694 });
+    expect(MessageService.resolveTextMessage({ content: 'Landed', location: { lat: 95, lon: 6 } }).error).toBe('Invalid location');
+  });
+
+  test('rejects empty, oversized and unknown messages', () => {
+    expect(MessageService.resolveTextMessage(null).error).toBe('Invalid text message');
+    expect(MessageService.resolveTextMessage({ content: '   ' }).error).toContain('Invalid content');
+    expect(MessageService.resolveTextMessage({ content: 'x'.repeat(501) }).error).toContain('at most 500');
+    expect(MessageService.resolveTextMessage({ canned_message_id: 'send_beer' }).error).toContain('canned_message_id');
+  });
+});
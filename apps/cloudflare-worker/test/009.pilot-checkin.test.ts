@@ -0,0 +1,136 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  DEFAULT_CHECKIN_DEADLINE_MINUTES,
+  computeCheckinDeadline,
+  isMoving,
+  isValidCheckinDeadline
+} from '../src/utils/pilot-checkin';
+import { CheckinService } from '../src/services/checkin-service';
+import { formatIncidentMessage } from '../src/services/incident-notifiers';
+import { ChannelActiveWindow } from '../src/types/ptt';
+
+/**
+ * Club session on Thursday 14 August 2025, from 10:00 to 18:00 in Annecy (UTC+2)
+ */
+const CLUB_SESSION: ChannelActiveWindow = {
+  type: 'once',
+  start: '2025-08-14T10:00',
+  end: '2025-08-14T18:00',
+  timezone: 'Europe/Paris'
+};
+
+describe('Check-in deadline', () => {
+  test('uses the deadline of the channel, or the default one', () => {
+    const takeoff = new Date('2025-08-14T10:30:00.000Z');
+
+    expect(computeCheckinDeadline(takeoff, 90).toISOString()).toBe('2025-08-14T12:00:00.000Z');
+    expect(computeCheckinDeadline(takeoff, undefined).getTime() - takeoff.getTime()).toBe(
+      DEFAULT_CHECKIN_DEADLINE_MINUTES * 60 * 1000
+    );
+  });
+
+  test('ends with the active window of a scheduled channel', () => {
+    // Window closes at 16:00 UTC, before the 4 hours deadline
+    const lateTakeoff = new Date('2025-08-14T14:10:30.000Z');
+
+    expect(computeCheckinDeadline(lateTakeoff, 240, [CLUB_SESSION]).toISOString()).toBe('2025-08-14T16:00:00.000Z');
+
+    const earlyTakeoff = new Date('2025-08-14T09:00:00.000Z');
+
+    expect(computeCheckinDeadline(earlyTakeoff, 60, [CLUB_SESSION]).toISOString()).toBe('2025-08-14T10:00:00.000Z');
+  });
+
+  test('accepts integer deadlines between 15 minutes and 12 hours', () => {
+    expect(isValidCheckinDeadline(15)).toBe(true);
+    expect(isValidCheckinDeadline(720)).toBe(true);
+    expect(isValidCheckinDeadline(10)).toBe(false);
+    expect(isValidCheckinDeadline(721)).toBe(false);
+    expect(isValidCheckinDeadline(90.5)).toBe(false);
+    expect(isValidCheckinDeadline('90')).toBe(false);
+  });
+});
+
+describe('Flight detection', () => {
+  const fix = { lat: 45.9237, lon: 6.8694, timestamp_ms: 1755167400000 };
+
+  test('uses the ground speed reported by the device', () => {
+    expect(isMoving({ ...fix, ground_speed_kmh: 32 })).toBe(true);
+    expect(isMoving({ ...fix, ground_speed_kmh: 4 })).toBe(false);
+  });
+
+  test('falls back on the distance covered since the previous position', () => {
+    // About 550 m north in one minute, 33 km/h
+    const flying = { lat: 45.9287, lon: 6.8694, timestamp_ms: fix.timestamp_ms + 60000 };
+    // About 55 m in one minute, walking
+    const walking = { lat: 45.9242, lon: 6.8694, timestamp_ms: fix.timestamp_ms + 60000 };
+
+    expect(isMoving(flying, fix)).toBe(true);
+    expect(isMoving(walking, fix)).toBe(false);
+    expect(isMoving(flying)).toBe(false);
+    expect(isMoving(fix, flying)).toBe(false);
+  });
+});
+
+describe('Check-in requests', () => {
+  test('accepts an empty check-in and the voice and button methods', () => {
+    expect(CheckinService.resolveCheckinRequest({}).checkin).toEqual({
+      user_id: undefined,
+      username: undefined,
+      via: undefined,
+      location: undefined
+    });
+    expect(CheckinService.resolveCheckinRequest({ user_id: 'auth0|eleve', via: 'voice' }).checkin?.via).toBe('voice');
+  });
+
+  test('rejects the text method, reserved to the Landed OK canned message', () => {
+    expect(CheckinService.resolveCheckinRequest({ via: 'text' }).error).toContain('via');
+  });
+
+  test('rejects invalid users and locations', () => {
+    expect(CheckinService.resolveCheckinRequest({ user_id: '' }).error).toBe('Invalid user_id');
+    expect(CheckinService.resolveCheckinRequest({ location: { lat: 95, lon: 6 } }).error).toBe('Invalid location');
+    expect(CheckinService.resolveCheckinRequest(null).error).toBe('Invalid check-in');
+  });
+});
+
+describe('Overdue incidents', () => {
+  test('are described as a missed check-in to the notifiers', () => {
+    const message = formatIncidentMessage({
+      id: 'incident-2',
+      channel_uuid: '8a9a3d41-1e5d-4159-8f82-0e073bc9dc33',
+      incident_type: 'overdue',
+      session_id: 'checkin-1',
+      user_id: 'auth0|pilot',
+      username: 'Pilot One',
+      status: 'open',
+      created_at: '2025-08-14T16:00:00.000Z',
+      updated_at: '2025-08-14T16:00:00.000Z'
+    });
+
+    expect(message).toContain('Pilot One did not check in landed');
+    expect(message).toContain('Position unknown');
+  });
+});
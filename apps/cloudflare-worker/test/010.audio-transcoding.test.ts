@@ -0,0 +1,153 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  LinearResampler,
+  TRANSCODED_PCM_SAMPLE_RATE,
+  concatSamples,
+  float32ToPcm16,
+  getTranscodedSampleRate,
+  parseAudioFormats,
+  pcm16ToFloat32,
+  selectListenerFormat
+} from '../src/utils/audio-transcoding';
+import { toADTSFrame } from '../src/utils/audio-recording';
+import { WebmOpusDemuxer, WebmOpusMuxer } from '../src/utils/webm-opus';
+
+describe('Listener audio formats', () => {
+  test('parses the formats declared on WebSocket upgrade', () => {
+    expect(parseAudioFormats(null)).toEqual({});
+    expect(parseAudioFormats('AAC-LC, pcm,aac-lc')).toEqual({ formats: ['aac-lc', 'pcm'] });
+    expect(parseAudioFormats('opus,mp3').error).toBe(
+      'Invalid audioFormats - expected a list of aac-lc, opus, pcm, got mp3'
+    );
+  });
+
+  test('keeps the format of the talker when the listener can play it', () => {
+    expect(selectListenerFormat('opus')).toBe('opus');
+    expect(selectListenerFormat('opus', [])).toBe('opus');
+    expect(selectListenerFormat('aac-lc', ['opus', 'aac-lc'])).toBe('aac-lc');
+  });
+
+  test('picks the preferred format the worker can encode', () => {
+    // A web talker heard by an iOS listener
+    expect(selectListenerFormat('opus', ['aac-lc', 'pcm'])).toBe('pcm');
+    // AAC-LC is not encoded, the listener gets the format of the talker
+    expect(selectListenerFormat('opus', ['aac-lc'])).toBe('opus');
+  });
+
+  test('keeps the format of a talker the worker cannot decode', () => {
+    // An iOS talker heard by a web listener, AAC-LC is not decoded
+    expect(selectListenerFormat('aac-lc', ['opus'])).toBe('aac-lc');
+    expect(selectListenerFormat('aac-lc', ['pcm', 'opus'])).toBe('aac-lc');
+  });
+});
+
+describe('Transcoded sample rates', () => {
+  test('announces the rate each format is encoded at', () => {
+    expect(getTranscodedSampleRate('pcm')).toBe(TRANSCODED_PCM_SAMPLE_RATE);
+    expect(getTranscodedSampleRate('opus')).toBe(48000);
+  });
+});
+
+describe('PCM conversions', () => {
+  test('converts 16-bit PCM samples to float samples and back', () => {
+    const pcm = new Uint8Array([0x00, 0x00, 0xff, 0x3f, 0x00, 0x80, 0xff, 0x7f]);
+    const samples = pcm16ToFloat32(pcm);
+
+    expect(Array.from(samples)).toEqual([0, 0x3fff / 0x8000, -1, 0x7fff / 0x8000]);
+    expect(float32ToPcm16(new Float32Array([0, -1, 2]))).toEqual(
+      new Uint8Array([0x00, 0x00, 0x00, 0x80, 0xff, 0x7f])
+    );
+  });
+
+  test('joins decoded samples in order', () => {
+    const single = new Float32Array([0.25, -0.5]);
+
+    expect(concatSamples([])).toHaveLength(0);
+    expect(concatSamples([single])).toBe(single);
+    expect(Array.from(concatSamples([new Float32Array([0.5, 1]), new Float32Array([]), new Float32Array([-1])]))).toEqual([0.5, 1, -1]);
+  });
+});
+
+describe('Linear resampler', () => {
+  test('resamples Opus audio to the PCM sample rate', () => {
+    const resampler = new LinearResampler(48000, TRANSCODED_PCM_SAMPLE_RATE);
+
+    // 20 ms at 48 kHz
+    expect(resampler.process(new Float32Array(960))).toHaveLength(320);
+  });
+
+  test('gives the same samples chunk by chunk as for the whole transmission', () => {
+    const samples = Float32Array.from({ length: 1000 }, (_, i) => Math.sin(i / 10));
+    const whole = new LinearResampler(44100, TRANSCODED_PCM_SAMPLE_RATE).process(samples);
+    const chunked = new LinearResampler(44100, TRANSCODED_PCM_SAMPLE_RATE);
+    const output: number[] = [];
+
+    for (let start = 0; start < samples.length; start += 137) {
+      output.push(...chunked.process(samples.subarray(start, start + 137)));
+    }
+
+    expect(output).toHaveLength(whole.length);
+    output.forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 6));
+  });
+});
+
+describe('AAC-LC frames', () => {
+  test('adds an ADTS header to raw frames only', () => {
+    const raw = new Uint8Array([0x21, 0x10, 0x05]);
+    const adts = toADTSFrame(raw, 44100);
+
+    expect(adts).toHaveLength(raw.length + 7);
+    expect(adts.subarray(7)).toEqual(raw);
+    expect(toADTSFrame(adts, 44100)).toBe(adts);
+  });
+});
+
+describe('WebM Opus container', () => {
+  test('demuxes the packets of the muxed stream whatever the chunk boundaries', () => {
+    const packets = Array.from({ length: 5 }, (_, i) => new Uint8Array(i * 40 + 3).fill(i + 1));
+    const muxer = new WebmOpusMuxer(20, 312);
+    const stream = [muxer.mux(packets.slice(0, 2)), muxer.mux([]), muxer.mux(packets.slice(2))];
+    const bytes = new Uint8Array([...stream[0], ...stream[1], ...stream[2]]);
+
+    expect(stream[0].subarray(0, 4)).toEqual(new Uint8Array([0x1a, 0x45, 0xdf, 0xa3]));
+    expect(stream[1]).toHaveLength(0);
+
+    for (const size of [bytes.length, 7, 1]) {
+      const demuxer = new WebmOpusDemuxer();
+      const demuxed: Uint8Array[] = [];
+
+      for (let start = 0; start < bytes.length; start += size) {
+        demuxed.push(...demuxer.push(bytes.subarray(start, start + size)));
+      }
+
+      expect(demuxed).toEqual(packets);
+    }
+  });
+
+  test('rejects a stream that is not WebM', () => {
+    expect(() => new WebmOpusDemuxer().push(new Uint8Array([0x00, 0x01]))).toThrow('Invalid WebM element');
+  });
+});
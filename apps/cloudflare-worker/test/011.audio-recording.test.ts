@@ -0,0 +1,95 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { describe, test, expect } from '@jest/globals';
+import { assembleRecording, decodeBase64Audio, encodeBase64Audio } from '../src/utils/audio-recording';
+
+const text = (data: Uint8Array, start: number, end: number) => String.fromCharCode(...data.subarray(start, end));
+
+describe('Recording assembly', () => {
+  test('prefixes raw AAC-LC frames with an ADTS header', () => {
+    const raw = new Uint8Array([0x21, 0x10, 0x05, 0x20, 0xa4]);
+    const recording = assembleRecording('aac-lc', 44100, [raw, raw]);
+    const frameLength = raw.length + 7;
+
+    expect(recording.contentType).toBe('audio/aac');
+    expect(recording.extension).toBe('aac');
+    expect(recording.data).toHaveLength(2 * frameLength);
+
+    // Sync word, MPEG-4 without CRC, AAC LC at 44.1 kHz (index 4), mono
+    expect(Array.from(recording.data.subarray(0, 3))).toEqual([0xff, 0xf1, 0x50]);
+    expect(recording.data[3] >> 6).toBe(1);
+    expect(((recording.data[3] & 0x03) << 11) | (recording.data[4] << 3) | (recording.data[5] >> 5)).toBe(frameLength);
+    expect(recording.data.subarray(7, frameLength)).toEqual(raw);
+    expect(recording.data.subarray(frameLength, frameLength + 2)).toEqual(new Uint8Array([0xff, 0xf1]));
+  });
+
+  test('keeps AAC-LC frames that already are ADTS frames', () => {
+    const adts = assembleRecording('aac-lc', 16000, [new Uint8Array([1, 2, 3])]).data;
+
+    // 16 kHz is index 8
+    expect((adts[2] >> 2) & 0x0f).toBe(8);
+    expect(assembleRecording('aac-lc', 16000, [adts, adts]).data).toEqual(new Uint8Array([...adts, ...adts]));
+  });
+
+  test('wraps PCM samples in a WAV file', () => {
+    const samples = new Uint8Array([0x00, 0x00, 0xff, 0x7f, 0x00, 0x80]);
+    const recording = assembleRecording('pcm', 16000, [samples.subarray(0, 4), samples.subarray(4)]);
+    const view = new DataView(recording.data.buffer);
+
+    expect(recording.contentType).toBe('audio/wav');
+    expect(recording.extension).toBe('wav');
+    expect(recording.data).toHaveLength(44 + samples.length);
+    expect(text(recording.data, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + samples.length);
+    expect(text(recording.data, 8, 16)).toBe('WAVEfmt ');
+    expect(view.getUint16(20, true)).toBe(1); // PCM
+    expect(view.getUint16(22, true)).toBe(1); // Mono
+    expect(view.getUint32(24, true)).toBe(16000);
+    expect(view.getUint32(28, true)).toBe(32000);
+    expect(view.getUint16(32, true)).toBe(2);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(text(recording.data, 36, 40)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(samples.length);
+    expect(recording.data.subarray(44)).toEqual(samples);
+  });
+
+  test('joins the WebM chunks in sequence order', () => {
+    const chunks = [
+      new Uint8Array([0x1a, 0x45, 0xdf, 0xa3]),
+      new Uint8Array([0x1f, 0x43, 0xb6, 0x75, 0x01]),
+      new Uint8Array([0x02, 0x03])
+    ];
+    const recording = assembleRecording('opus', 48000, chunks);
+
+    expect(recording.contentType).toBe('audio/webm');
+    expect(recording.extension).toBe('webm');
+    expect(Array.from(recording.data)).toEqual([0x1a, 0x45, 0xdf, 0xa3, 0x1f, 0x43, 0xb6, 0x75, 0x01, 0x02, 0x03]);
+  });
+
+  test('decodes the base64 audio of the chunks', () => {
+    const bytes = Uint8Array.from({ length: 70000 }, (_, i) => i % 256);
+
+    expect(decodeBase64Audio(encodeBase64Audio(bytes))).toEqual(bytes);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { describe, test, expect } from '@jest/globals';
+import { AudioFormat, AudioFrameHeader, AudioFrameUtils } from '../src/types/ptt';
+
+const header: AudioFrameHeader = {
+  sessionHash: AudioFrameUtils.hashSessionId('ptt_channel-1_user-1_1700000000000_abc'),
+  sequence: 0xfffffffe,
+  timestampMs: 1700000000123.5,
+  audioFormat: 'opus',
+  retransmitted: false,
+  replayed: false
+};
+
+describe('Binary audio frames', () => {
+  test('round-trips the header fields and the payload', () => {
+    const payload = new Uint8Array([1, 2, 3, 250, 251]);
+    const frame = AudioFrameUtils.encode(header, payload);
+
+    expect(frame).toHaveLength(AudioFrameUtils.HEADER_SIZE + payload.length);
+    expect(frame[0]).toBe(AudioFrameUtils.VERSION);
+    expect(AudioFrameUtils.decode(frame)).toEqual({ header, payload });
+    expect(AudioFrameUtils.decode(frame.buffer as ArrayBuffer)).toEqual({ header, payload });
+  });
+
+  test('lays out the header big-endian', () => {
+    const frame = AudioFrameUtils.encode({ ...header, sessionHash: 0x01020304, sequence: 0x0a0b0c0d }, new Uint8Array(0));
+    const view = new DataView(frame.buffer);
+
+    expect(Array.from(frame.subarray(4, 12))).toEqual([0x01, 0x02, 0x03, 0x04, 0x0a, 0x0b, 0x0c, 0x0d]);
+    expect(view.getFloat64(12)).toBe(header.timestampMs);
+  });
+
+  test('carries the retransmitted flag in bit 0 of the flags', () => {
+    const retransmitted = AudioFrameUtils.encode({ ...header, retransmitted: true }, new Uint8Array([9]));
+
+    expect(retransmitted[2]).toBe(0);
+    expect(retransmitted[3]).toBe(1);
+    expect(AudioFrameUtils.decode(retransmitted)?.header.retransmitted).toBe(true);
+    expect(AudioFrameUtils.encode(header, new Uint8Array([9]))[3]).toBe(0);
+
+    // Unknown flags are ignored
+    retransmitted[2] = 0x80;
+    retransmitted[3] = 0x04;
+    expect(AudioFrameUtils.decode(retransmitted)?.header.retransmitted).toBe(false);
+  });
+
+  test('carries the replayed flag in bit 1 of the flags', () => {
+    const replayed = AudioFrameUtils.encode({ ...header, retransmitted: true, replayed: true }, new Uint8Array([9]));
+
+    expect(replayed[3]).toBe(3);
+    expect(AudioFrameUtils.decode(replayed)?.header).toEqual({ ...header, retransmitted: true, replayed: true });
+
+    replayed[3] = 2;
+    expect(AudioFrameUtils.decode(replayed)?.header.retransmitted).toBe(false);
+    expect(AudioFrameUtils.decode(replayed)?.header.replayed).toBe(true);
+  });
+
+  test('encodes every audio format with its code', () => {
+    const codes: [AudioFormat, number][] = [
+      ['aac-lc', 0],
+      ['opus', 1],
+      ['pcm', 2]
+    ];
+
+    for (const [audioFormat, code] of codes) {
+      const frame = AudioFrameUtils.encode({ ...header, audioFormat }, new Uint8Array([1]));
+
+      expect(frame[1]).toBe(code);
+      expect(AudioFrameUtils.decode(frame)?.header.audioFormat).toBe(audioFormat);
+    }
+  });
+
+  test('rejects truncated and invalid frames', () => {
+    const frame = AudioFrameUtils.encode(header, new Uint8Array([1, 2]));
+    const withByte = (index: number, value: number) => {
+      const copy = frame.slice();
+
+      copy[index] = value;
+
+      return copy;
+    };
+
+    expect(AudioFrameUtils.decode(new Uint8Array(0))).toBeNull();
+    expect(AudioFrameUtils.decode(frame.subarray(0, AudioFrameUtils.HEADER_SIZE - 1))).toBeNull();
+    expect(AudioFrameUtils.decode(withByte(0, 2))).toBeNull();
+    expect(AudioFrameUtils.decode(withByte(1, 3))).toBeNull();
+
+    // A header alone is a frame without audio
+    expect(AudioFrameUtils.decode(frame.subarray(0, AudioFrameUtils.HEADER_SIZE))?.payload).toHaveLength(0);
+  });
+
+  test('decodes a frame in the middle of a larger buffer', () => {
+    const frame = AudioFrameUtils.encode(header, new Uint8Array([7, 8]));
+    const buffer = new Uint8Array(frame.length + 6);
+
+    buffer.set(frame, 3);
+
+    expect(AudioFrameUtils.decode(buffer.subarray(3, 3 + frame.length))).toEqual({
+      header,
+      payload: new Uint8Array([7, 8])
+    });
+  });
+});
+
+describe('Session hashes', () => {
+  test('hashes session IDs with 32-bit FNV-1a', () => {
+    expect(AudioFrameUtils.hashSessionId('')).toBe(0x811c9dc5);
+    expect(AudioFrameUtils.hashSessionId('a')).toBe(0xe40c292c);
+    expect(AudioFrameUtils.hashSessionId('ptt_a')).toBe(AudioFrameUtils.hashSessionId('ptt_a'));
+    expect(AudioFrameUtils.hashSessionId('ptt_a')).not.toBe(AudioFrameUtils.hashSessionId('ptt_b'));
+  });
+});
+
+describe('Subprotocol negotiation', () => {
+  test('prefers binary frames when the client offers ptt.binary.v1', () => {
+    expect(AudioFrameUtils.negotiateProtocol('ptt.binary.v1')).toBe('ptt.binary.v1');
+    expect(AudioFrameUtils.negotiateProtocol('ptt.json.v1, ptt.binary.v1')).toBe('ptt.binary.v1');
+  });
+
+  test('falls back on JSON without ptt.binary.v1', () => {
+    expect(AudioFrameUtils.negotiateProtocol(null)).toBe('ptt.json.v1');
+    expect(AudioFrameUtils.negotiateProtocol('ptt.json.v1')).toBe('ptt.json.v1');
+    expect(AudioFrameUtils.negotiateProtocol('chat, ptt.json.v1')).toBe('ptt.json.v1');
+  });
+
+  test('refuses clients offering no supported subprotocol', () => {
+    expect(AudioFrameUtils.negotiateProtocol('chat')).toBeNull();
+    expect(AudioFrameUtils.negotiateProtocol('ptt.binary.v2')).toBeNull();
+  });
+});
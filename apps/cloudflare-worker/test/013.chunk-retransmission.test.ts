@@ -0,0 +1,49 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { describe, test, expect } from '@jest/globals';
+import { findMissingChunks } from '../src/utils/chunk-retransmission';
+
+const range = (start: number, end: number) => Array.from({ length: end - start }, (_, i) => start + i);
+
+describe('Missing chunks', () => {
+  test('finds the gap before a received chunk', () => {
+    expect(findMissingChunks(3, 7, new Set([5]), 50)).toEqual({
+      missing: [3, 4, 6],
+      requested: [3, 4, 6]
+    });
+  });
+
+  test('finds nothing without a gap', () => {
+    expect(findMissingChunks(7, 7, new Set(), 50)).toEqual({ missing: [], requested: [] });
+  });
+
+  test('records every chunk of a gap larger than the request and requests the last ones', () => {
+    const { missing, requested } = findMissingChunks(10, 90, new Set([20]), 50);
+
+    // 80 sequences in the gap, one of them received out of order
+    expect(missing).toHaveLength(79);
+    expect(missing).toEqual(range(10, 90).filter((sequence) => sequence !== 20));
+    expect(requested).toEqual(range(40, 90));
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { describe, test, expect } from 'vitest';
+import { AudioTranscoder } from '../../src/services/audio-transcoder';
+import { decodeBase64Audio } from '../../src/utils/audio-recording';
+import { OpusDecoder } from '../../src/utils/audio-codecs';
+import { concatSamples, float32ToPcm16, pcm16ToFloat32 } from '../../src/utils/audio-transcoding';
+import { WebmOpusDemuxer } from '../../src/utils/webm-opus';
+import { SINE_440HZ_WEBM } from './fixtures';
+
+/**
+ * Run a transmission through a transcoder
+ * @returns The transcoded chunks of each target format, in order
+ */
+async function transcodeAll(
+  transcoder: AudioTranscoder,
+  chunks: Uint8Array[],
+  targets: ('opus' | 'pcm')[]
+): Promise<Record<string, Uint8Array[]>> {
+  const outputs: Record<string, Uint8Array[]> = Object.fromEntries(targets.map(format => [format, []]));
+
+  for (const [sequence, chunk] of chunks.entries()) {
+    const transcoded = await transcoder.transcode(sequence, chunk, targets);
+
+    for (const [format, output] of transcoded) {
+      expect(transcoder.getTranscoded(sequence, format)).toBe(output);
+      outputs[format].push(output);
+    }
+  }
+
+  return outputs;
+}
+
+/**
+ * Decode transcoded WebM Opus chunks to samples at 48 kHz
+ */
+async function decodeWebmOpus(chunks: Uint8Array[]): Promise<Float32Array> {
+  const demuxer = new WebmOpusDemuxer();
+  const decoder = await OpusDecoder.create();
+
+  try {
+    return concatSamples(chunks.flatMap(chunk => demuxer.push(chunk)).map(packet => decoder.decode(packet)));
+  } finally {
+    decoder.free();
+  }
+}
+
+/**
+ * Frequency of a sine from its zero crossings, away from the codec delays at both ends
+ */
+function sineFrequency(samples: Float32Array, sampleRate: number): number {
+  const middle = samples.subarray(Math.round(sampleRate * 0.1), Math.round(sampleRate * 0.4));
+  let crossings = 0;
+
+  for (let i = 1; i < middle.length; i++) {
+    if ((middle[i - 1] < 0) !== (middle[i] < 0)) crossings++;
+  }
+
+  return crossings / 2 / (middle.length / sampleRate);
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const data = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return data;
+}
+
+/**
+ * Chunks of a byte stream, as sliced by MediaRecorder regardless of the WebM elements
+ */
+function byteChunks(data: Uint8Array, size: number): Uint8Array[] {
+  const chunks: Uint8Array[] = [];
+
+  for (let offset = 0; offset < data.length; offset += size) {
+    chunks.push(data.subarray(offset, offset + size));
+  }
+
+  return chunks;
+}
+
+describe('Audio transcoder under the Workers runtime', () => {
+  test('transcodes a web talker to PCM', async () => {
+    const transcoder = new AudioTranscoder('web-talker', 'opus', 48000);
+    const outputs = await transcodeAll(transcoder, byteChunks(decodeBase64Audio(SINE_440HZ_WEBM), 500), ['pcm']);
+    const samples = pcm16ToFloat32(concatBytes(outputs.pcm));
+
+    transcoder.free();
+
+    expect(transcoder.isUnavailable).toBe(false);
+    // 0.5 s at 16 kHz
+    expect(samples.length).toBeGreaterThan(7800);
+    expect(samples.length).toBeLessThan(8400);
+    expect(sineFrequency(samples, 16000)).toBeCloseTo(440, -1);
+  });
+
+  test('transcodes a PCM talker to WebM Opus', async () => {
+    const sine = Float32Array.from({ length: 8000 }, (_, i) => 0.5 * Math.sin((2 * Math.PI * 440 * i) / 16000));
+    // 20 ms chunks of 16-bit samples at 16 kHz
+    const chunks = byteChunks(float32ToPcm16(sine), 640);
+    const transcoder = new AudioTranscoder('pcm-talker', 'pcm', 16000);
+    const outputs = await transcodeAll(transcoder, chunks, ['opus']);
+    const samples = await decodeWebmOpus(outputs.opus);
+
+    transcoder.free();
+
+    expect(transcoder.isUnavailable).toBe(false);
+    // Starts with the EBML header, as a MediaRecorder stream
+    expect(Array.from(outputs.opus[0].subarray(0, 4))).toEqual([0x1a, 0x45, 0xdf, 0xa3]);
+    expect(samples.length).toBeGreaterThan(0.45 * 48000);
+    expect(sineFrequency(samples, 48000)).toBeCloseTo(440, -1);
+  });
+
+  test('does not decode an iOS talker', async () => {
+    const transcoder = new AudioTranscoder('ios-talker', 'aac-lc', 48000);
+    const outputs = await transcoder.transcode(0, new Uint8Array([0xff, 0xf1, 0x50, 0x80]), ['opus']);
+
+    transcoder.free();
+
+    expect(outputs.size).toBe(0);
+    expect(transcoder.isUnavailable).toBe(true);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Audio fixture of the runtime tests, 0.5 s of a 440 Hz sine at 48 kHz, mono
+ * Generated with ffmpeg:
+ *   ffmpeg -f lavfi -i sine=frequency=440:sample_rate=48000:duration=0.5 -ac 1 -c:a libopus -b:a 32k -f webm sine-440hz.webm
+ */
+
+/** WebM Opus stream */
+export const SINE_440HZ_WEBM =
+  'GkXfo59ChoEBQveBAULygQRC84EIQoKEd2VibUKHgQRChYECGFOAZwEAAAAAAAuoEU2bdLpNu4tTq4QVSalmU6yBoU27i1OrhBZU' +
+  'rmtTrIHYTbuMU6uEElTDZ1OsggE/TbuMU6uEHFO7a1OsgguS7AEAAAAAAABZAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA' +
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAVSalmsirXsYMPQkBNgI1M' +
+  'YXZmNTguNDUuMTAwV0GNTGF2ZjU4LjQ1LjEwMESJiEB/wAAAAAAAFlSua+KuAQAAAAAAAFnXgQFzxYjmtH22LPItYpyBACK1nIN1' +
+  'bmSGhkFfT1BVU1aqg2MuoFa7hATEtACDgQLhkZ+BAbWIQOdwAAAAAABiZIEQY6KTT3B1c0hlYWQBATgBgLsAAAAAABJUw2dAmnNz' +
+  'AQAAAAAAACdjwIBnyAEAAAAAAAAaRaOHRU5DT0RFUkSHjUxhdmY1OC40NS4xMDBzcwEAAAAAAABfY8CLY8WI5rR9tizyLWJnyAEA' +
+  'AAAAAAAiRaOHRU5DT0RFUkSHlUxhdmM1OC45MS4xMDAgbGlib3B1c2fIokWjiERVUkFUSU9ORIeUMDA6MDA6MDAuNTA4MDAwMDAw' +
+  'AAAfQ7Z1Sa3ngQCj94EAAIB4gXvGEXb0dQAAB47Kadu7zEjcFr2b01gneJO8N0Rezy2XAGmAEYAsAzirRWH9ibd+DRe/IKUrteor' +
+  'XtOnSNEY8gtcAU9foZYhrt7gUwDWZWU/H6bLuXe/l2LBEs+Nwn39AID/+saItt4QuE/GI2vqh8kFo9aBABWAeJ4eoef8lU1OqhjS' +
+  '893A2J45dsNPlfsIXSvz21nz0om0Qa3heU59c/SGUdUII105N7rNiHfknFWhr/H8GCYJtovsWqujKl9KEMNb4esZq6HqvaPSgQAp' +
+  'gHiZwl9zLdIzOkYN4LI+LRr4HHEIH5W1WYIkogeDM5p13BRnDdT1aTmE5HsI7P52orw20b9qX8WjlMONbswMq6WTw8U0LCBG6wgN' +
+  '+f/bRaPVgQA9gHiZwl9zLdIt7dgihttu50TbBwJcSWTcwhl9t8JNsT01dWaj+Y+v8oBTh4kStNjVcj9dPKf4vpV6MGTPJi2urOA7' +
+  'LK/QcZCUoRDb4kW5ZMO2DaPXgQBRgHiZwl91nPxJM7/gO6mArBM0lDITs2Obo6p9L5zwUxTeGbqBWkk7+9sUJ8GYHBYBXyRLb9qF' +
+  '2Xj79tHgL2U8fhh7SanCA4m4PlfmSRVFu0IjR2EMo9CBAGWAeJnCX3Wc/EtTQdlEpuEUku9V09S2w15UOB0XzN7yIZYWVApY7sTK' +
+  'gl3QHS9YFZCZ270RskNELfUl6LzmWy3U4qFwTYLHlRkz80jFTaPVgQB5gHiZwl9zLdIt71/CxsC05mrNCkOFZQakNXjm3808HPj8' +
+  'S5xYaO3wv1pCq+4hMzyHqOQy/xHXUTjyC6ejLydtfJDzGis7KNDqEMPZPThAK8zXBKPagQCNgHiZwl9zLdIzOkZERp+L1//QkJYf' +
+  'xHAOosD2tTq+uDiFFZzOpM1Mtanovc0QTppRrPYljaKstWLTdm7qcLHYW0hQyYNGFgo8gV7iurEUIEbqPA3EMgBFo9GBAKGAeJnC' +
+  'X3Mt0i3t1+xr+z+6ue6+GZZh1sF8t47QigHgsu9Dy9Af2QvXilNFdTFhXjqEjVfzT8ICiM6wMH0N6wNvxFkRq1gFLOkw7YN7lgyj' +
+  '2YEAtYBomcJfcy3SMTOzaWY9i3nykmL55ZlV4rE4GCYx+ldabM97e4QPg8soQFgeJysI+LqnFJcjv5pCcxhMrEkW8bdEJC8yLcIi' +
+  't1FKR/gY57xfsOkIQW6Eo9KBAMmAaJnCX3Wc/EkLX1jtKsF+3YQfpsq+Tx9GROb3sLAbn4xletCNMI81Ku3U+tOJuGYMZU850zeZ' +
+  '8MRLqoVS8FT7HCVnZS+aiVfPaUN6+sPNo9WBAN2AaJnCX3Mt0jFKL+Xay7VN8enZl6tUs958Fw7MpTLqyx6Sn3XRZNoJMrtqnMAF' +
+  '+BhyNmG5RUGNpaMmQuvkB6oWVvUaviSYOgk9k2PQyDaWsiSEo86BAPGAaJnCX3Wc/Es6Tev1d+0qPsqa2RFVR96KDcdurU0p2r1H' +
+  'qe67TArfHo8UrwJ1i5aM/YoJQRcc7lLjPncC0L2a9hdwR8XLHI7xz82j04EBBYBomcJfdZz8SUo3+chwWsed+1Q/yOx0Mj36hP2w' +
+  'D3qU/J9Fnxf1PFNnokNFjqZS8DokMJ/4qUQbD45PXQKjmjq5kKlEeUUtnXl1ctIvkQaNo9OBARmAaJnCX3MpIGsJHkjrL2iK2rdE' +
+  'OFosr1ZX1GW3GeVlBNxEQU6TgxgbMCAFngLHYTTgn8iCLSFCefM/jjfD5FEZ/iXLnCGtK9Yw/Z5CDh0aBKPSgQEtgGiZwl91nPxL' +
+  'U0Hq4lCcOun5zZ7zkgpzAAuLJZJaYeJO7hpot+Ec3xoHEV9ABfhtdDlkhhq1cjDpoGXzlyCXXDiT13Wb3PAozzSMVqPojaPUgQFB' +
+  'gGiZwl91nPxF706VumwdcEmaBfkWexScYRxkyN3srR1zP4D2s70aOc7Mzh2qDMEjtaj2tEq1/H9AcJnu1ZvjCDnKlENuYyyWBOaS' +
+  'DDIBVPUEo/yBAVWAaJnCX3MpIGsJNtQYHmYJEe4agGyfIJi2gVuJcWAAtRiRLirofskTE5nQTMAO6vxT55osP03opdUqQqKMVQGc' +
+  '0lBq+kgV9rDoryvHSX43J2yLzWULpPIih+7chdZR4d/ZkSJJQMKoon4zJQrSSTrXaAfXxWRT7vtDo+KBAWmA2Kx9uuLP9r41OQ6d' +
+  '8t89tyuDviwrvGPAlk/R1Tld6UIdZ2HVNVHtedu8Scta2OXPEGq6q81y3hhDGkrnvdEXOvz9g+86V95wY9xssHteP3QTH5fTOZ+4' +
+  '8RHqLXpNrqPcgQF9gNiv6VBVFZPF3RYdVTtK7UUGiuWSaDfO/BGDQcHe9uPD0D5fYaKE3B1Tzk5H4mzem2b9/aVItPItK3ApJZuD' +
+  'kNuZQps8YRes5vy6VqARyqo0uSFhNI79C66j34EBkYDYrWkHNqLYoQ5XU/zEuoUe5RN2VNZZo7ntkawyHAsQylYt9vszKOe0f5hS' +
+  '9oyiVN4gYFwL5vI3NoumB83wHwfQD/qjNeVjOt3rtzPZCFK/BeDbrGR+I06K3MOuo9yBAaWA2KyqEBjVZTjGYfsMYbJBFvp2JwQg' +
+  'UiO13DoQp5VuterNUPBXRW6mgB+HTTxDzPS7f0R4t+2TjV5e5I59nDHIoG48gNMW+YXyJnEoT9xRRHX8kXsgPJkJrqPfgQG5gNiw' +
+  'ZvEOYknl+1wD8rXoGsF+vYLWuibNlV+Nb1LNFZk+bXhEYRSMzpQaiBXnOJXZy5LXPBJiypKvdvCoMpvt8Hiwv16JYvIvL6Tu6VoA' +
+  '8MfT2IqI8mMZuZTwI66j3YEBzYDYrW3Bpyib3LTc+0Q1m13o0ewbHXYTg0LjfqSv4GBZixsAGFxid2K7QgDrXmb9R1gRTNm26buE' +
+  'eNl2MH76zkQT95aroiRf8TysmLJx2+1Xvql4H9FYhHwXrqPegQHhgNiv6nRPkWOqnJma8X2Gm5u4lF98zORVhcGekLi+GQU4TFMi' +
+  'cN6nVf9git5fimnZgeVPEM9Gx9eRD8A4AFpQk9pPboF6bJT8Xv3t+XStQCOryjS5IIuhTpetrqABAAAAAAAAq6FAoYEB9QDYtTea' +
+  '5NXXANXvNHeJIb4ZM4Ebys6dgBKxdfaKLFpIhambk6nBft+WeDtexh1Kn3F6GeMMac9trDGBJOxw9dcmXMI6KSS9ObNuWK7rzL5P' +
+  'WZXPbrTVV8aQJf6WuISoezMAOeEVGpJ5cQgF6LeZXuf1x8L6io/cTER09zRV/fpsbxY9jhiePJIcpoDlvOAVL/E3ChCZIK2FTDH9' +
+  '5pCsdaKEAM3+YBxTu2uRu4+zgQC3iveBAfGCAd/wgQM=';
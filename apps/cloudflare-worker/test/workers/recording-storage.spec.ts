@@ -0,0 +1,75 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Ronan LE MEILLAT
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+import { env } from 'cloudflare:test';
+import { describe, test, expect } from 'vitest';
+import { putRecording } from '../../src/utils/audio-recording';
+
+const transmission = {
+  sessionId: 'ptt_channel-1_user-1_1700000000000_abc',
+  channelUuid: 'channel-1',
+  userId: 'user-1',
+  startTime: Date.UTC(2025, 5, 1, 12),
+  isEmergency: true,
+  audioFormat: 'pcm' as const,
+  sampleRate: 16000
+};
+
+describe('Recording storage in R2', () => {
+  test('stores the assembled recording and reads it back', async () => {
+    const samples = [new Uint8Array([0x01, 0x02, 0x03, 0x04]), new Uint8Array([0x05, 0x06])];
+    const key = await putRecording(env.PTT_RECORDINGS, transmission, samples);
+
+    expect(key).toBe('recordings/channel-1/ptt_channel-1_user-1_1700000000000_abc.wav');
+
+    const stored = await env.PTT_RECORDINGS.get(key);
+
+    expect(stored).not.toBeNull();
+    expect(stored!.httpMetadata?.contentType).toBe('audio/wav');
+    expect(stored!.customMetadata).toEqual({
+      sessionId: transmission.sessionId,
+      channelUuid: 'channel-1',
+      userId: 'user-1',
+      startTime: '2025-06-01T12:00:00.000Z',
+      isEmergency: 'true'
+    });
+
+    const data = new Uint8Array(await stored!.arrayBuffer());
+
+    expect(data).toHaveLength(44 + 6);
+    expect(String.fromCharCode(...data.subarray(0, 4))).toBe('RIFF');
+    expect(Array.from(data.subarray(44))).toEqual([0x01, 0x02, 0x03, 0x04, 0x05, 0x06]);
+  });
+
+  test('stores WebM recordings under their extension', async () => {
+    const key = await putRecording(env.PTT_RECORDINGS, { ...transmission, audioFormat: 'opus', sampleRate: 48000 }, [
+      new Uint8Array([0x1a, 0x45]),
+      new Uint8Array([0xdf, 0xa3])
+    ]);
+    const stored = await env.PTT_RECORDINGS.get(key);
+
+    expect(key.endsWith('.webm')).toBe(true);
+    expect(stored!.httpMetadata?.contentType).toBe('audio/webm');
+    expect(Array.from(new Uint8Array(await stored!.arrayBuffer()))).toEqual([0x1a, 0x45, 0xdf, 0xa3]);
+  });
+});
@@ -1,10 +1,19 @@
 import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
 
+// Runtime tests of the worker modules under workerd, the unit tests run with jest
 export default defineWorkersConfig({
 	test: {
+		include: ['test/workers/**/*.spec.ts'],
 		poolOptions: {
 			workers: {
-				wrangler: { configPath: './wrangler.jsonc' },
+				// The modules are tested without the main worker and its Durable Objects
+				miniflare: {
+					compatibilityDate: '2025-03-19',
+					compatibilityFlags: ['nodejs_compat'],
+					r2Buckets: ['PTT_RECORDINGS'],
+					// Precompiled like wrangler bundles them, workerd cannot compile WebAssembly at runtime
+					modulesRules: [{ type: 'CompiledWasm', include: ['**/*.wasm'] }],
+				},
 			},
 		},
 	},
@@ -32,8 +32,20 @@ declare namespace Cloudflare {
 		CLOUDFLARE_TUNNEL_FRONTEND_TOKEN: string;
 		WEBM_DEBUG: string;
 		JSON_DEBUG: string;
+		RETRANSMISSION_WINDOW_MS: string;
+		INCIDENT_WEBHOOK_URL: string;
+		INCIDENT_WEBHOOK_SECRET: string;
+		INCIDENT_EMAIL_PROVIDER_URL: string;
+		INCIDENT_EMAIL_PROVIDER_KEY: string;
+		INCIDENT_EMAIL_RECIPIENTS: string;
+		INCIDENT_SMS_PROVIDER_URL: string;
+		INCIDENT_SMS_PROVIDER_KEY: string;
+		INCIDENT_SMS_RECIPIENTS: string;
+		POSITION_RETENTION_HOURS: string;
 		CHANNEL_OBJECTS: DurableObjectNamespace<import("./src/index").PTTChannelDurableObject>;
+		SCANNER_OBJECTS: DurableObjectNamespace<import("./src/index").PTTScannerDurableObject>;
 		PTT_DB: D1Database;
+		PTT_RECORDINGS: R2Bucket;
 		RATE_LIMITER: RateLimit;
 	}
 }